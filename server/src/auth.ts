@@ -0,0 +1,127 @@
+import { createPublicKey, verify } from 'crypto';
+import { config } from './config';
+import { HttpError } from './http';
+import { AuthenticatedUser } from './types';
+
+// Google's signing certificates for Firebase ID tokens
+const CERTS_URL =
+	'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+let certCache: { certs: Record<string, string>; expiresAt: number } | null =
+	null;
+
+const unauthorized = (message: string) =>
+	new HttpError(401, message, 'UNAUTHENTICATED');
+
+const decodeSegment = (segment: string) =>
+	JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const getSigningCerts = async (): Promise<Record<string, string>> => {
+	if (certCache && certCache.expiresAt > Date.now()) {
+		return certCache.certs;
+	}
+
+	const response = await fetch(CERTS_URL);
+	if (!response.ok) {
+		throw new Error(
+			`Failed to fetch token signing certificates: ${response.status}`
+		);
+	}
+
+	// Honour the cache lifetime Google sends, the keys rotate regularly
+	const maxAge = Number(
+		response.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1] || 3600
+	);
+	certCache = {
+		certs: (await response.json()) as Record<string, string>,
+		expiresAt: Date.now() + maxAge * 1000,
+	};
+	return certCache.certs;
+};
+
+/**
+ * Verify a Firebase ID token (RS256 JWT) as described in the Firebase docs
+ * @param token - ID token from `user.getIdToken()`
+ * @returns The authenticated user
+ */
+const verifyFirebaseToken = async (
+	token: string
+): Promise<AuthenticatedUser> => {
+	const parts = token.split('.');
+	if (parts.length !== 3) throw unauthorized('Malformed token');
+
+	let header: any;
+	let payload: any;
+	try {
+		header = decodeSegment(parts[0]);
+		payload = decodeSegment(parts[1]);
+	} catch {
+		throw unauthorized('Malformed token');
+	}
+
+	if (header.alg !== 'RS256') throw unauthorized('Unsupported token algorithm');
+
+	const certs = await getSigningCerts();
+	const cert = certs[header.kid];
+	if (!cert) throw unauthorized('Token was signed with an unknown key');
+
+	const signatureValid = verify(
+		'RSA-SHA256',
+		Buffer.from(`${parts[0]}.${parts[1]}`),
+		createPublicKey(cert),
+		Buffer.from(parts[2], 'base64url')
+	);
+	if (!signatureValid) throw unauthorized('Invalid token signature');
+
+	const now = Math.floor(Date.now() / 1000);
+	const projectId = config.firebaseProjectId;
+
+	if (typeof payload.exp !== 'number') {
+		throw unauthorized('Token has no expiry');
+	}
+	if (payload.exp <= now) throw unauthorized('Token has expired');
+	if (payload.iat > now + 60)
+		throw unauthorized('Token was issued in the future');
+	if (payload.aud !== projectId) throw unauthorized('Token audience mismatch');
+	if (payload.iss !== `https://securetoken.google.com/${projectId}`) {
+		throw unauthorized('Token issuer mismatch');
+	}
+	if (typeof payload.sub !== 'string' || !payload.sub) {
+		throw unauthorized('Token has no subject');
+	}
+
+	return {
+		uid: payload.sub,
+		email: payload.email || null,
+		displayName: payload.name || null,
+	};
+};
+
+/**
+ * Resolve the user from an `Authorization: Bearer <token>` header
+ * @param header - Authorization header value
+ * @returns The authenticated user
+ */
+export const authenticate = async (
+	header: string | undefined
+): Promise<AuthenticatedUser> => {
+	const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+	if (!token) throw unauthorized('Missing bearer token');
+
+	if (token.startsWith('local:')) {
+		if (!config.allowLocalTokens) {
+			throw unauthorized('Local development tokens are not accepted');
+		}
+		return {
+			uid: token.slice('local:'.length),
+			email: null,
+			displayName: null,
+		};
+	}
+
+	if (!config.firebaseProjectId) {
+		throw unauthorized('Token verification is not configured');
+	}
+
+	return verifyFirebaseToken(token);
+};
@@ -0,0 +1,23 @@
+import path from 'path';
+
+const env = process.env;
+
+/**
+ * Server configuration, read once from the environment
+ */
+export const config = {
+	port: Number(env.API_PORT) || 4000,
+	// Mounted under the same prefix the client uses when VITE_API_BASE_URL is unset
+	basePath: env.API_BASE_PATH ?? '/api',
+	dataFile: path.resolve(env.API_DATA_FILE || 'server/data/db.json'),
+	uploadDir: path.resolve(env.API_UPLOAD_DIR || 'server/data/uploads'),
+	// Firebase ID tokens are verified against this project when it is set
+	firebaseProjectId:
+		env.FIREBASE_PROJECT_ID || env.VITE_FIREBASE_PROJECT_ID || '',
+	// Tokens issued by the client's local storage provider (`local:<uid>`).
+	// They are not signed, so they are only accepted when turned on for
+	// local development.
+	allowLocalTokens: env.API_ALLOW_LOCAL_TOKENS === 'true',
+	corsOrigin: env.API_CORS_ORIGIN || '*',
+	maxBodyBytes: Number(env.API_MAX_BODY_BYTES) || 10 * 1024 * 1024,
+};
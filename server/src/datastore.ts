@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Collections } from './types';
+
+type CollectionName = keyof Collections;
+type Tables = { [K in CollectionName]: Record<string, Collections[K]> };
+
+const emptyTables = (): Tables => ({
+	users: {},
+	accounts: {},
+	expenses: {},
+	budgets: {},
+	expenseHistory: {},
+	trash: {},
+});
+
+/**
+ * JSON file datastore
+ * Everything is held in memory and written back to a single file shortly
+ * after each change. Good enough for a reference server and local testing.
+ */
+export class Datastore {
+	private tables: Tables = emptyTables();
+	private flushTimer: NodeJS.Timeout | null = null;
+
+	constructor(private file: string) {
+		if (fs.existsSync(file)) {
+			this.tables = {
+				...emptyTables(),
+				...JSON.parse(fs.readFileSync(file, 'utf8')),
+			};
+		}
+	}
+
+	list<K extends CollectionName>(
+		collection: K,
+		predicate: (doc: Collections[K]) => boolean = () => true
+	): Collections[K][] {
+		return Object.values(this.tables[collection]).filter(predicate);
+	}
+
+	get<K extends CollectionName>(
+		collection: K,
+		id: string
+	): Collections[K] | null {
+		return this.tables[collection][id] || null;
+	}
+
+	insert<K extends CollectionName>(
+		collection: K,
+		data: Omit<Collections[K], 'id'>,
+		id: string = randomUUID()
+	): Collections[K] {
+		const doc = { ...data, id } as Collections[K];
+		this.table(collection)[id] = doc;
+		this.scheduleFlush();
+		return doc;
+	}
+
+	update<K extends CollectionName>(
+		collection: K,
+		id: string,
+		updates: Partial<Collections[K]>
+	): Collections[K] {
+		const current = this.tables[collection][id];
+		if (!current) {
+			throw new Error(`No document to update: ${collection}/${id}`);
+		}
+		const doc = { ...current, ...updates, id };
+		this.table(collection)[id] = doc;
+		this.scheduleFlush();
+		return doc;
+	}
+
+	remove(collection: CollectionName, id: string): boolean {
+		if (!this.tables[collection][id]) return false;
+		delete this.tables[collection][id];
+		this.scheduleFlush();
+		return true;
+	}
+
+	// Write pending changes immediately, e.g. before shutting down
+	flush(): void {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		fs.mkdirSync(path.dirname(this.file), { recursive: true });
+		const temp = `${this.file}.tmp`;
+		fs.writeFileSync(temp, JSON.stringify(this.tables, null, 2));
+		fs.renameSync(temp, this.file);
+	}
+
+	private table<K extends CollectionName>(collection: K) {
+		return this.tables[collection] as Record<string, Collections[K]>;
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer) return;
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = null;
+			try {
+				this.flush();
+			} catch (error) {
+				console.error('Failed to write datastore:', error);
+			}
+		}, 100);
+	}
+}
@@ -0,0 +1,237 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { AuthenticatedUser } from './types';
+
+/**
+ * Error with an HTTP status, serialized as the client's ApiErrorResponse
+ */
+export class HttpError extends Error {
+	constructor(
+		public status: number,
+		message: string,
+		public code: string = 'ERROR'
+	) {
+		super(message);
+	}
+}
+
+export interface UploadedFile {
+	fieldName: string;
+	fileName: string;
+	contentType: string;
+	data: Buffer;
+}
+
+export interface ApiRequest {
+	method: string;
+	path: string;
+	params: Record<string, string>;
+	query: URLSearchParams;
+	body: any;
+	files: UploadedFile[];
+	// Set for every route that isn't registered as public
+	user: AuthenticatedUser;
+	// Extra headers to send with the response
+	responseHeaders: Record<string, string>;
+}
+
+export type Handler = (req: ApiRequest) => Promise<unknown> | unknown;
+
+type Method = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface Route {
+	method: Method;
+	pattern: string;
+	public: boolean;
+	handler: Handler;
+}
+
+const decodeSegment = (segment: string) => {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		// e.g. a truncated escape like %E0%A4%A
+		throw new HttpError(
+			400,
+			'Request path is not validly encoded',
+			'BAD_REQUEST'
+		);
+	}
+};
+
+/**
+ * Minimal router for `/segment/:param` style patterns
+ * Routes are matched in registration order, so register static segments
+ * (e.g. `/expenses/search`) before parameters (`/expenses/:id`).
+ */
+export class Router {
+	readonly routes: Route[] = [];
+
+	get(pattern: string, handler: Handler, options: { public?: boolean } = {}) {
+		this.add('GET', pattern, handler, options.public);
+	}
+
+	post(pattern: string, handler: Handler) {
+		this.add('POST', pattern, handler);
+	}
+
+	patch(pattern: string, handler: Handler) {
+		this.add('PATCH', pattern, handler);
+	}
+
+	delete(pattern: string, handler: Handler) {
+		this.add('DELETE', pattern, handler);
+	}
+
+	match(
+		method: string,
+		path: string
+	): { route: Route; params: Record<string, string> } | null {
+		const segments = path.split('/').filter(Boolean);
+
+		for (const route of this.routes) {
+			if (route.method !== method) continue;
+
+			const parts = route.pattern.split('/').filter(Boolean);
+			if (parts.length !== segments.length) continue;
+
+			const params: Record<string, string> = {};
+			const matched = parts.every((part, index) => {
+				if (part.startsWith(':')) {
+					params[part.slice(1)] = decodeSegment(segments[index]);
+					return true;
+				}
+				return part === segments[index];
+			});
+
+			if (matched) return { route, params };
+		}
+
+		return null;
+	}
+
+	// Whether any route exists for the path, used to tell 404 from 405
+	hasPath(path: string): boolean {
+		return (['GET', 'POST', 'PATCH', 'DELETE'] as const).some(
+			(method) => this.match(method, path) !== null
+		);
+	}
+
+	private add(
+		method: Method,
+		pattern: string,
+		handler: Handler,
+		isPublic = false
+	) {
+		this.routes.push({ method, pattern, handler, public: isPublic });
+	}
+}
+
+/**
+ * Raw response for handlers that don't return JSON (e.g. file downloads)
+ */
+export class RawResponse {
+	constructor(
+		public body: Buffer,
+		public contentType: string,
+		public status: number = 200
+	) {}
+}
+
+export const readBody = (
+	req: IncomingMessage,
+	maxBytes: number
+): Promise<Buffer> =>
+	new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		req.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > maxBytes) {
+				reject(
+					new HttpError(413, 'Request body is too large', 'PAYLOAD_TOO_LARGE')
+				);
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+		req.on('error', reject);
+	});
+
+/**
+ * Parse a multipart/form-data body
+ * @param body - Raw request body
+ * @param contentType - Content-Type header including the boundary
+ * @returns Uploaded files and plain fields
+ */
+export const parseMultipart = (
+	body: Buffer,
+	contentType: string
+): { files: UploadedFile[]; fields: Record<string, string> } => {
+	const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+	if (!boundaryMatch) {
+		throw new HttpError(400, 'Missing multipart boundary', 'BAD_REQUEST');
+	}
+
+	const boundary = Buffer.from(`--${boundaryMatch[1] || boundaryMatch[2]}`);
+	const files: UploadedFile[] = [];
+	const fields: Record<string, string> = {};
+
+	let start = body.indexOf(boundary);
+	while (start !== -1) {
+		const partStart = start + boundary.length + 2; // skip CRLF
+		const end = body.indexOf(boundary, partStart);
+		if (end === -1) break;
+
+		const part = body.subarray(partStart, end - 2); // drop trailing CRLF
+		const headerEnd = part.indexOf('\r\n\r\n');
+		if (headerEnd !== -1) {
+			const headers = part.subarray(0, headerEnd).toString('utf8');
+			const data = part.subarray(headerEnd + 4);
+			const name = headers.match(/[;\s]name="([^"]*)"/i)?.[1] || '';
+			const fileName = headers.match(/filename="([^"]*)"/i)?.[1];
+
+			if (fileName !== undefined) {
+				files.push({
+					fieldName: name,
+					fileName,
+					contentType:
+						headers.match(/content-type:\s*([^\r\n]+)/i)?.[1] ||
+						'application/octet-stream',
+					data: Buffer.from(data),
+				});
+			} else {
+				fields[name] = data.toString('utf8');
+			}
+		}
+
+		start = end;
+	}
+
+	return { files, fields };
+};
+
+export const sendJson = (
+	res: ServerResponse,
+	status: number,
+	body?: unknown
+) => {
+	if (body === undefined) {
+		res.writeHead(status);
+		res.end();
+		return;
+	}
+	res.writeHead(status, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+	if (error instanceof HttpError) {
+		sendJson(res, error.status, { message: error.message, code: error.code });
+		return;
+	}
+	console.error('Unhandled error:', error);
+	sendJson(res, 500, { message: 'Internal server error', code: 'INTERNAL' });
+};
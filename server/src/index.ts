@@ -0,0 +1,166 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { authenticate } from './auth';
+import { config } from './config';
+import { Datastore } from './datastore';
+import {
+	ApiRequest,
+	HttpError,
+	RawResponse,
+	Router,
+	parseMultipart,
+	readBody,
+	sendError,
+	sendJson,
+} from './http';
+import { openApiDocument } from './openapi';
+import { registerAccountRoutes } from './routes/accounts';
+import { registerBudgetRoutes } from './routes/budgets';
+import { registerCategoryRoutes } from './routes/categories';
+import { registerCurrencyRoutes } from './routes/currencies';
+import { registerExpenseRoutes } from './routes/expenses';
+import { registerInsightRoutes } from './routes/insights';
+import { registerTrashRoutes } from './routes/trash';
+import { registerUploadRoutes } from './routes/uploads';
+import { registerUserRoutes } from './routes/users';
+
+const store = new Datastore(config.dataFile);
+const router = new Router();
+
+router.get('/openapi.json', () => openApiDocument, { public: true });
+registerExpenseRoutes(router, store);
+registerBudgetRoutes(router, store);
+registerCurrencyRoutes(router);
+registerInsightRoutes(router, store);
+registerAccountRoutes(router, store);
+registerCategoryRoutes(router, store);
+registerTrashRoutes(router, store);
+registerUploadRoutes(router);
+registerUserRoutes(router, store);
+
+// Routes missing from the OpenAPI document are a bug, flag them early
+router.routes.forEach((route) => {
+	const specPath = route.pattern.replace(/:(\w+)/g, '{$1}');
+	const paths = openApiDocument.paths as Record<
+		string,
+		Record<string, unknown>
+	>;
+	if (!paths[specPath]?.[route.method.toLowerCase()]) {
+		console.warn(
+			`Route ${route.method} ${route.pattern} is not in the OpenAPI document`
+		);
+	}
+});
+
+const setCorsHeaders = (res: ServerResponse) => {
+	res.setHeader('Access-Control-Allow-Origin', config.corsOrigin);
+	res.setHeader(
+		'Access-Control-Allow-Methods',
+		'GET, POST, PATCH, DELETE, OPTIONS'
+	);
+	res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+	res.setHeader(
+		'Access-Control-Expose-Headers',
+		'X-Total-Count, X-Next-Cursor'
+	);
+};
+
+const parseBody = async (req: IncomingMessage) => {
+	const contentType = req.headers['content-type'] || '';
+	const raw = await readBody(req, config.maxBodyBytes);
+
+	if (raw.length === 0) return { body: undefined, files: [] };
+
+	if (contentType.startsWith('multipart/form-data')) {
+		const { files, fields } = parseMultipart(raw, contentType);
+		return { body: fields, files };
+	}
+
+	try {
+		return { body: JSON.parse(raw.toString('utf8')), files: [] };
+	} catch {
+		throw new HttpError(400, 'Request body must be valid JSON', 'BAD_REQUEST');
+	}
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+	setCorsHeaders(res);
+
+	if (req.method === 'OPTIONS') {
+		sendJson(res, 204);
+		return;
+	}
+
+	const url = new URL(req.url || '/', 'http://localhost');
+	if (config.basePath && !url.pathname.startsWith(config.basePath)) {
+		throw new HttpError(404, 'Not found', 'NOT_FOUND');
+	}
+	const path = url.pathname.slice(config.basePath.length) || '/';
+
+	const match = router.match(req.method || 'GET', path);
+	if (!match) {
+		throw router.hasPath(path)
+			? new HttpError(405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+			: new HttpError(404, 'Not found', 'NOT_FOUND');
+	}
+
+	const user = match.route.public
+		? { uid: '', email: null, displayName: null }
+		: await authenticate(req.headers.authorization);
+	const { body, files } = await parseBody(req);
+
+	const apiRequest: ApiRequest = {
+		method: req.method || 'GET',
+		path,
+		params: match.params,
+		query: url.searchParams,
+		body,
+		files,
+		user,
+		responseHeaders: {},
+	};
+
+	const result = await match.route.handler(apiRequest);
+	Object.entries(apiRequest.responseHeaders).forEach(([name, value]) =>
+		res.setHeader(name, value)
+	);
+
+	if (result instanceof RawResponse) {
+		res.writeHead(result.status, { 'Content-Type': result.contentType });
+		res.end(result.body);
+		return;
+	}
+
+	if (result === undefined) {
+		sendJson(res, 204);
+		return;
+	}
+
+	sendJson(res, req.method === 'POST' ? 201 : 200, result);
+};
+
+const server = createServer((req, res) => {
+	handleRequest(req, res).catch((error) => sendError(res, error));
+});
+
+server.listen(config.port, () => {
+	console.log(
+		`API listening on http://localhost:${config.port}${config.basePath}`
+	);
+	if (config.allowLocalTokens) {
+		console.warn(
+			'Accepting unsigned local:<uid> tokens, do not use in production'
+		);
+	} else if (!config.firebaseProjectId) {
+		console.warn(
+			'Neither FIREBASE_PROJECT_ID nor API_ALLOW_LOCAL_TOKENS is set, so no token will be accepted'
+		);
+	}
+});
+
+const shutdown = () => {
+	store.flush();
+	server.close(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,907 @@
+import { config } from './config';
+
+// OpenAPI 3 description of every route the server registers. index.ts warns
+// at startup about routes missing from here, so keep the two in step.
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: object) => ({
+	content: { 'application/json': { schema } },
+});
+const arrayOf = (schema: object) => ({ type: 'array', items: schema });
+
+const pathParam = (name: string) => ({
+	name,
+	in: 'path',
+	required: true,
+	schema: { type: 'string' },
+});
+
+const queryParam = (name: string, schema: object, description?: string) => ({
+	name,
+	in: 'query',
+	required: false,
+	schema,
+	...(description ? { description } : {}),
+});
+
+const paginationParams = [
+	queryParam('page', { type: 'integer', minimum: 1, default: 1 }),
+	queryParam(
+		'cursor',
+		{ type: 'string' },
+		'X-Next-Cursor of the previous page; takes precedence over page'
+	),
+	queryParam('limit', {
+		type: 'integer',
+		minimum: 1,
+		maximum: 200,
+		default: 50,
+	}),
+	queryParam('sortBy', { type: 'string' }),
+	queryParam('sortOrder', {
+		type: 'string',
+		enum: ['asc', 'desc'],
+		default: 'desc',
+	}),
+];
+
+const errorResponse = (description: string) => ({
+	description,
+	...json(ref('Error')),
+});
+
+const ok = (description: string, schema: object) => ({
+	description,
+	...json(schema),
+});
+
+const list = (schema: object) => ({
+	description: 'One page of results',
+	headers: {
+		'X-Total-Count': {
+			description: 'Number of results before pagination',
+			schema: { type: 'integer' },
+		},
+		'X-Next-Cursor': {
+			description: 'Cursor for the next page, absent on the last page',
+			schema: { type: 'string' },
+		},
+	},
+	...json(arrayOf(schema)),
+});
+
+const standardErrors = {
+	'401': errorResponse('Missing or invalid bearer token'),
+	'403': errorResponse('The caller lacks the required role'),
+	'404': errorResponse('Not found, or not visible to the caller'),
+};
+
+const operation = (
+	tag: string,
+	summary: string,
+	responses: Record<string, object>,
+	extra: Record<string, unknown> = {}
+) => ({
+	tags: [tag],
+	summary,
+	responses: { ...responses, ...standardErrors },
+	...extra,
+});
+
+const publicOperation = (
+	tag: string,
+	summary: string,
+	responses: Record<string, object>,
+	extra: Record<string, unknown> = {}
+) => ({ tags: [tag], summary, security: [], responses, ...extra });
+
+const body = (schema: object) => ({
+	requestBody: { required: true, ...json(schema) },
+});
+
+const createdBy = {
+	type: 'object',
+	properties: { uid: { type: 'string' }, displayName: { type: 'string' } },
+};
+
+const role = { type: 'string', enum: ['admin', 'member', 'viewer'] };
+
+export const openApiDocument = {
+	openapi: '3.0.3',
+	info: {
+		title: 'aifinacker API',
+		version: '1.0.0',
+		description:
+			'Reference implementation of the REST contract used by src/services/api.ts.',
+	},
+	servers: [{ url: config.basePath || '/' }],
+	security: [{ bearerAuth: [] }],
+	tags: [
+		{ name: 'Expenses' },
+		{ name: 'Budgets' },
+		{ name: 'Accounts' },
+		{ name: 'Categories' },
+		{ name: 'Currencies' },
+		{ name: 'Insights' },
+		{ name: 'Users' },
+		{ name: 'Uploads' },
+		{ name: 'Trash' },
+	],
+	paths: {
+		'/expenses': {
+			get: operation(
+				'Expenses',
+				"List expenses in the caller's accounts",
+				{ '200': list(ref('Expense')) },
+				{ parameters: paginationParams }
+			),
+			post: operation(
+				'Expenses',
+				'Create an expense',
+				{
+					'201': ok('Created expense', ref('Expense')),
+					'400': errorResponse('Invalid expense'),
+					'409': errorResponse(
+						'Likely a duplicate of an expense in the account, with a close amount and date and a similar description'
+					),
+				},
+				body(ref('ExpenseInput'))
+			),
+		},
+		'/expenses/search': {
+			get: operation(
+				'Expenses',
+				'Search expenses with a query',
+				{
+					'200': list(ref('Expense')),
+					'400': errorResponse('The query has terms that could not be read'),
+				},
+				{
+					parameters: [
+						queryParam(
+							'q',
+							{ type: 'string' },
+							'Terms that must all match, e.g. `amount>50 category:Food tag:work -tag:reimbursed before:2024-06-01 by:alice "coffee"`. Fields are amount (with :, >, >=, < or <=), category, tag, by, currency, before, after and on; amounts are in the base currency and dates are UTC days; a leading - negates a term, and other words must appear in the description, category, notes or tags.'
+						),
+						...paginationParams,
+					],
+				}
+			),
+		},
+		'/expenses/{id}': {
+			parameters: [pathParam('id')],
+			get: operation('Expenses', 'Get an expense', {
+				'200': ok('Expense', ref('Expense')),
+			}),
+			patch: operation(
+				'Expenses',
+				'Update an expense',
+				{
+					'200': ok('Updated expense', ref('Expense')),
+					'400': errorResponse('Invalid update'),
+				},
+				body(ref('ExpenseUpdate'))
+			),
+			delete: operation('Expenses', 'Move an expense to the trash', {
+				'204': { description: 'Deleted' },
+			}),
+		},
+		'/expenses/{id}/history': {
+			parameters: [pathParam('id')],
+			get: operation('Expenses', 'Changes to an expense, newest first', {
+				'200': ok('History entries', arrayOf(ref('ExpenseHistoryEntry'))),
+			}),
+		},
+		'/accounts/{accountId}/expenses': {
+			parameters: [pathParam('accountId')],
+			get: operation(
+				'Expenses',
+				"List an account's expenses",
+				{ '200': list(ref('Expense')) },
+				{ parameters: paginationParams }
+			),
+		},
+		'/budgets': {
+			get: operation(
+				'Budgets',
+				"List budgets in the caller's accounts",
+				{ '200': list(ref('Budget')) },
+				{ parameters: paginationParams }
+			),
+			post: operation(
+				'Budgets',
+				'Create a budget',
+				{
+					'201': ok('Created budget', ref('Budget')),
+					'400': errorResponse('Invalid budget'),
+				},
+				body(ref('BudgetInput'))
+			),
+		},
+		'/budgets/{id}': {
+			parameters: [pathParam('id')],
+			get: operation('Budgets', 'Get a budget', {
+				'200': ok('Budget', ref('Budget')),
+			}),
+			patch: operation(
+				'Budgets',
+				'Update a budget',
+				{
+					'200': ok('Updated budget', ref('Budget')),
+					'400': errorResponse('Invalid update'),
+				},
+				body(ref('BudgetUpdate'))
+			),
+			delete: operation('Budgets', 'Move a budget to the trash', {
+				'204': { description: 'Deleted' },
+			}),
+		},
+		'/budgets/{id}/status': {
+			parameters: [pathParam('id')],
+			get: operation('Budgets', 'Spending against a budget', {
+				'200': ok('Budget status', ref('BudgetStatus')),
+			}),
+		},
+		'/accounts/{accountId}/budgets': {
+			parameters: [pathParam('accountId')],
+			get: operation(
+				'Budgets',
+				"List an account's budgets",
+				{ '200': list(ref('Budget')) },
+				{
+					parameters: [
+						queryParam('active', { type: 'boolean' }, 'Only active budgets'),
+						...paginationParams,
+					],
+				}
+			),
+		},
+		'/currencies': {
+			get: publicOperation('Currencies', 'Supported currencies', {
+				'200': ok('Currencies', arrayOf(ref('Currency'))),
+			}),
+		},
+		'/currencies/rates': {
+			get: publicOperation(
+				'Currencies',
+				'Exchange rates for a base currency',
+				{
+					'200': ok('Units of each currency per 1 unit of the base', {
+						type: 'object',
+						additionalProperties: { type: 'number' },
+					}),
+					'400': errorResponse('Unsupported base currency'),
+				},
+				{ parameters: [queryParam('base', { type: 'string', default: 'USD' })] }
+			),
+		},
+		'/insights': {
+			get: operation(
+				'Insights',
+				'Spending totals by category and month',
+				{ '200': ok('Insights', ref('Insights')) },
+				{
+					parameters: [
+						queryParam(
+							'accountId',
+							{ type: 'string' },
+							"Limit to one account, defaults to all of the caller's accounts"
+						),
+						queryParam('startDate', { type: 'string', format: 'date-time' }),
+						queryParam('endDate', { type: 'string', format: 'date-time' }),
+						queryParam('category', { type: 'string' }),
+					],
+				}
+			),
+		},
+		'/accounts': {
+			get: operation(
+				'Accounts',
+				'List accounts the caller is a member of',
+				{ '200': list(ref('Account')) },
+				{ parameters: paginationParams }
+			),
+			post: operation(
+				'Accounts',
+				'Create an account with the caller as admin',
+				{
+					'201': ok('Created account', ref('Account')),
+					'400': errorResponse('Invalid account'),
+				},
+				body(ref('AccountInput'))
+			),
+		},
+		'/accounts/{id}': {
+			parameters: [pathParam('id')],
+			get: operation('Accounts', 'Get an account', {
+				'200': ok('Account', ref('Account')),
+			}),
+			patch: operation(
+				'Accounts',
+				'Update an account (admin)',
+				{ '200': ok('Updated account', ref('Account')) },
+				body(ref('AccountInput'))
+			),
+		},
+		'/users/{userId}/accounts': {
+			parameters: [pathParam('userId')],
+			get: operation('Accounts', "List the caller's accounts", {
+				'200': ok('Accounts', arrayOf(ref('Account'))),
+			}),
+		},
+		'/accounts/{id}/members': {
+			parameters: [pathParam('id')],
+			post: operation(
+				'Accounts',
+				'Add a member by email (admin)',
+				{
+					'201': ok('Added member', ref('AccountMember')),
+					'409': errorResponse('Already a member'),
+				},
+				body({
+					type: 'object',
+					required: ['email', 'role'],
+					properties: { email: { type: 'string' }, role },
+				})
+			),
+		},
+		'/accounts/{id}/members/{userId}': {
+			parameters: [pathParam('id'), pathParam('userId')],
+			patch: operation(
+				'Accounts',
+				"Change a member's role (admin)",
+				{
+					'200': ok('Updated member', ref('AccountMember')),
+					'409': errorResponse('Would leave the account without an admin'),
+				},
+				body({ type: 'object', required: ['role'], properties: { role } })
+			),
+			delete: operation(
+				'Accounts',
+				'Remove a member (admin, or the member themselves)',
+				{
+					'204': { description: 'Removed' },
+					'409': errorResponse('Would leave the account without an admin'),
+				}
+			),
+		},
+		'/categories': {
+			get: operation(
+				'Categories',
+				"System categories plus those of the caller's accounts",
+				{ '200': ok('Category names', arrayOf({ type: 'string' })) }
+			),
+		},
+		'/categories/system': {
+			get: publicOperation('Categories', 'Built-in categories', {
+				'200': ok('Category names', arrayOf({ type: 'string' })),
+			}),
+		},
+		'/accounts/{accountId}/categories': {
+			parameters: [pathParam('accountId')],
+			get: operation('Categories', "An account's categories", {
+				'200': ok('Category names', arrayOf({ type: 'string' })),
+			}),
+		},
+		'/accounts/{accountId}/trash': {
+			parameters: [pathParam('accountId')],
+			get: operation(
+				'Trash',
+				'Deleted expenses and budgets of an account; expired items are purged',
+				{ '200': list(ref('TrashItem')) },
+				{ parameters: paginationParams }
+			),
+		},
+		'/trash/{id}/restore': {
+			parameters: [pathParam('id')],
+			post: operation('Trash', 'Restore a deleted expense or budget', {
+				'200': ok('Restored expense or budget', {
+					oneOf: [ref('Expense'), ref('Budget')],
+				}),
+			}),
+		},
+		'/trash/{id}': {
+			parameters: [pathParam('id')],
+			delete: operation('Trash', 'Delete a trash item for good (admins only)', {
+				'204': { description: 'Deleted' },
+				'403': errorResponse('The caller is not an admin of the account'),
+			}),
+		},
+		'/uploads/{kind}': {
+			parameters: [pathParam('kind')],
+			post: operation(
+				'Uploads',
+				'Upload a file',
+				{
+					'201': ok('Stored file', ref('Upload')),
+					'400': errorResponse('No file was sent'),
+				},
+				{
+					requestBody: {
+						required: true,
+						content: {
+							'multipart/form-data': {
+								schema: {
+									type: 'object',
+									properties: { file: { type: 'string', format: 'binary' } },
+								},
+							},
+						},
+					},
+				}
+			),
+		},
+		'/uploads/{kind}/{name}': {
+			parameters: [pathParam('kind'), pathParam('name')],
+			get: publicOperation('Uploads', 'Download an uploaded file', {
+				'200': {
+					description: 'File contents',
+					content: {
+						'application/octet-stream': {
+							schema: { type: 'string', format: 'binary' },
+						},
+					},
+				},
+				'404': errorResponse('No such file'),
+			}),
+		},
+		'/users/profile': {
+			post: operation(
+				'Users',
+				"Create or refresh the caller's profile",
+				{ '201': ok('Profile', ref('User')) },
+				body(ref('UserInput'))
+			),
+		},
+		'/users/{userId}': {
+			parameters: [pathParam('userId')],
+			get: operation('Users', "Get the caller's profile", {
+				'200': ok('Profile', ref('User')),
+			}),
+			patch: operation(
+				'Users',
+				"Update the caller's profile",
+				{ '200': ok('Updated profile', ref('User')) },
+				body(ref('UserInput'))
+			),
+		},
+		'/openapi.json': {
+			get: publicOperation('Meta', 'This document', {
+				'200': ok('OpenAPI document', { type: 'object' }),
+			}),
+		},
+	},
+	components: {
+		securitySchemes: {
+			bearerAuth: {
+				type: 'http',
+				scheme: 'bearer',
+				description:
+					'Firebase ID token, or `local:<uid>` from the local storage provider when API_ALLOW_LOCAL_TOKENS is enabled',
+			},
+		},
+		schemas: {
+			Error: {
+				type: 'object',
+				required: ['message'],
+				properties: { message: { type: 'string' }, code: { type: 'string' } },
+			},
+			Expense: {
+				type: 'object',
+				properties: {
+					id: { type: 'string' },
+					accountId: { type: 'string' },
+					amount: { type: 'number' },
+					category: { type: 'string' },
+					subcategory: { type: 'string' },
+					description: { type: 'string' },
+					date: { type: 'string', format: 'date-time' },
+					currency: { type: 'string' },
+					exchangeRate: { type: 'number' },
+					amountInBaseCurrency: { type: 'number' },
+					// Parts of an itemized expense, each counted in its own category
+					lineItems: arrayOf(ref('LineItem')),
+					status: {
+						type: 'string',
+						enum: ['pending', 'approved', 'rejected'],
+						description:
+							'Only set in accounts that require approval; pending and rejected expenses are left out of budget status',
+					},
+					// Refunds and credits have a negative amount; a refund can
+					// name the expense it gives money back for
+					refundOf: { type: 'string' },
+					tags: arrayOf({ type: 'string' }),
+					notes: { type: 'string' },
+					// Card, account or cash the expense was paid with
+					paymentMethodId: { type: 'string' },
+					receiptUrls: arrayOf({ type: 'string' }),
+					// Expenses a member confirmed this one is not a duplicate of
+					notDuplicateOf: arrayOf({ type: 'string' }),
+					createdAt: { type: 'string', format: 'date-time' },
+					updatedAt: { type: 'string', format: 'date-time' },
+					createdBy,
+					updatedBy: createdBy,
+				},
+			},
+			LineItem: {
+				type: 'object',
+				required: ['amount', 'category'],
+				properties: {
+					description: { type: 'string' },
+					amount: {
+						type: 'number',
+						minimum: 0,
+						description: "In the expense's currency",
+					},
+					category: { type: 'string', minLength: 1 },
+					tags: arrayOf({ type: 'string' }),
+					quantity: { type: 'number', exclusiveMinimum: 0 },
+					unitPrice: { type: 'number', minimum: 0 },
+				},
+			},
+			ExpenseHistoryEntry: {
+				type: 'object',
+				properties: {
+					id: { type: 'string' },
+					accountId: { type: 'string' },
+					expenseId: { type: 'string' },
+					action: {
+						type: 'string',
+						enum: ['create', 'update', 'delete', 'restore'],
+					},
+					actor: createdBy,
+					at: { type: 'string', format: 'date-time' },
+					changes: arrayOf({
+						type: 'object',
+						properties: {
+							field: { type: 'string' },
+							before: {},
+							after: {},
+						},
+					}),
+					// The expense after the change (before it, for deletes)
+					snapshot: ref('Expense'),
+				},
+			},
+			TrashItem: {
+				type: 'object',
+				properties: {
+					id: { type: 'string' },
+					accountId: { type: 'string' },
+					collection: { type: 'string', enum: ['expenses', 'budgets'] },
+					docId: { type: 'string' },
+					label: { type: 'string' },
+					data: { oneOf: [ref('Expense'), ref('Budget')] },
+					deletedAt: { type: 'string', format: 'date-time' },
+					deletedBy: createdBy,
+					// Restorable until then
+					purgeAt: { type: 'string', format: 'date-time' },
+				},
+			},
+			ExpenseInput: {
+				type: 'object',
+				required: ['accountId', 'amount', 'description'],
+				properties: {
+					accountId: { type: 'string' },
+					amount: {
+						type: 'number',
+						description: 'Negative for refunds and credits',
+					},
+					category: {
+						type: 'string',
+						description:
+							"When left out, the first of the account's category rules that matches sets the category and adds its tags",
+					},
+					subcategory: { type: 'string' },
+					description: { type: 'string' },
+					date: { type: 'string', format: 'date-time' },
+					currency: { type: 'string' },
+					exchangeRate: { type: 'number', exclusiveMinimum: 0 },
+					lineItems: {
+						...arrayOf(ref('LineItem')),
+						description: "Must add up to the expense's amount",
+					},
+					refundOf: {
+						type: 'string',
+						description:
+							"Expense a refund gives money back for; refunds can't add up to more than it cost",
+					},
+					tags: arrayOf({ type: 'string' }),
+					notes: { type: 'string' },
+					paymentMethodId: {
+						type: 'string',
+						description:
+							'Also matched by category rules when no category is sent',
+					},
+					receiptUrls: arrayOf({ type: 'string' }),
+					allowDuplicate: {
+						type: 'boolean',
+						description:
+							'Add the expense even when it looks like one already in the account',
+					},
+				},
+			},
+			ExpenseUpdate: {
+				type: 'object',
+				properties: {
+					amount: {
+						type: 'number',
+						description: 'Negative for refunds and credits',
+					},
+					category: { type: 'string', minLength: 1 },
+					subcategory: { type: 'string' },
+					description: { type: 'string' },
+					date: { type: 'string', format: 'date-time' },
+					currency: { type: 'string' },
+					exchangeRate: { type: 'number', exclusiveMinimum: 0 },
+					lineItems: {
+						...arrayOf(ref('LineItem')),
+						nullable: true,
+						description:
+							"Must add up to the expense's amount; null or an empty list removes them",
+					},
+					refundOf: { type: 'string' },
+					tags: arrayOf({ type: 'string' }),
+					notes: { type: 'string' },
+					paymentMethodId: {
+						type: 'string',
+						nullable: true,
+						description: 'null takes the payment method off the expense',
+					},
+					receiptUrls: arrayOf({ type: 'string' }),
+					notDuplicateOf: arrayOf({ type: 'string' }),
+				},
+			},
+			Budget: {
+				type: 'object',
+				properties: {
+					id: { type: 'string' },
+					accountId: { type: 'string' },
+					userId: { type: 'string' },
+					name: { type: 'string' },
+					amount: { type: 'number' },
+					category: {
+						type: 'string',
+						description: "'All' matches every category",
+					},
+					startDate: { type: 'string', format: 'date-time' },
+					endDate: { type: 'string', format: 'date-time' },
+					isRecurring: { type: 'boolean' },
+					recurringPeriod: {
+						type: 'string',
+						enum: ['weekly', 'monthly', 'quarterly', 'annually'],
+					},
+					isActive: { type: 'boolean' },
+					notes: { type: 'string' },
+					createdAt: { type: 'string', format: 'date-time' },
+					updatedAt: { type: 'string', format: 'date-time' },
+					createdBy,
+					updatedBy: createdBy,
+				},
+			},
+			BudgetInput: {
+				type: 'object',
+				required: ['accountId', 'name', 'amount', 'startDate', 'endDate'],
+				properties: {
+					accountId: { type: 'string' },
+					name: { type: 'string' },
+					amount: { type: 'number', minimum: 0 },
+					category: { type: 'string' },
+					startDate: { type: 'string', format: 'date-time' },
+					endDate: { type: 'string', format: 'date-time' },
+					isRecurring: { type: 'boolean' },
+					recurringPeriod: {
+						type: 'string',
+						enum: ['weekly', 'monthly', 'quarterly', 'annually'],
+					},
+					notes: { type: 'string' },
+				},
+			},
+			BudgetUpdate: {
+				type: 'object',
+				properties: {
+					name: { type: 'string' },
+					amount: { type: 'number', minimum: 0 },
+					category: { type: 'string' },
+					startDate: { type: 'string', format: 'date-time' },
+					endDate: { type: 'string', format: 'date-time' },
+					isRecurring: { type: 'boolean' },
+					recurringPeriod: {
+						type: 'string',
+						enum: ['weekly', 'monthly', 'quarterly', 'annually'],
+					},
+					isActive: { type: 'boolean' },
+					notes: { type: 'string' },
+				},
+			},
+			BudgetStatus: {
+				type: 'object',
+				properties: {
+					budgetId: { type: 'string' },
+					amount: { type: 'number' },
+					spent: { type: 'number' },
+					remaining: { type: 'number' },
+					percentUsed: { type: 'number' },
+					expenseCount: { type: 'integer' },
+					status: { type: 'string', enum: ['under', 'near', 'over'] },
+				},
+			},
+			Currency: {
+				type: 'object',
+				properties: {
+					code: { type: 'string' },
+					name: { type: 'string' },
+					symbol: { type: 'string' },
+				},
+			},
+			Insights: {
+				type: 'object',
+				properties: {
+					total: { type: 'number' },
+					count: { type: 'integer' },
+					average: { type: 'number' },
+					byCategory: arrayOf({
+						type: 'object',
+						properties: {
+							category: { type: 'string' },
+							amount: { type: 'number' },
+							percentage: { type: 'number' },
+						},
+					}),
+					byMonth: arrayOf({
+						type: 'object',
+						properties: {
+							month: { type: 'string', example: '2024-05' },
+							amount: { type: 'number' },
+						},
+					}),
+					topExpenses: arrayOf(ref('Expense')),
+				},
+			},
+			AccountMember: {
+				type: 'object',
+				properties: {
+					uid: { type: 'string' },
+					email: { type: 'string' },
+					displayName: { type: 'string' },
+					role,
+					joinedAt: { type: 'string', format: 'date-time' },
+				},
+			},
+			Account: {
+				type: 'object',
+				properties: {
+					id: { type: 'string' },
+					name: { type: 'string' },
+					description: { type: 'string' },
+					baseCurrency: { type: 'string' },
+					createdAt: { type: 'string', format: 'date-time' },
+					createdBy: { type: 'string' },
+					members: arrayOf(ref('AccountMember')),
+					settings: ref('AccountSettings'),
+				},
+			},
+			AccountSettings: {
+				type: 'object',
+				properties: {
+					theme: { type: 'string', enum: ['light', 'dark', 'system'] },
+					categories: arrayOf({ type: 'string' }),
+					defaultCategory: { type: 'string' },
+					// Expenses of members wait for an admin's approval
+					expenseApprovalRequired: { type: 'boolean' },
+					approvalPolicy: {
+						type: 'object',
+						description: 'Expenses that are approved without waiting',
+						properties: {
+							autoApproveBelow: { type: 'number', minimum: 0 },
+							autoApproveCategories: arrayOf({ type: 'string' }),
+						},
+					},
+					categoryRules: arrayOf(ref('CategoryRule')),
+				},
+			},
+			CategoryRule: {
+				type: 'object',
+				required: [
+					'id',
+					'name',
+					'priority',
+					'enabled',
+					'conditions',
+					'category',
+				],
+				properties: {
+					id: { type: 'string' },
+					name: { type: 'string' },
+					// Lower numbers are tried first
+					priority: { type: 'integer' },
+					enabled: { type: 'boolean' },
+					conditions: arrayOf({
+						type: 'object',
+						required: ['field', 'operator', 'value'],
+						properties: {
+							field: {
+								type: 'string',
+								enum: ['description', 'amount', 'paymentMethod'],
+							},
+							operator: {
+								type: 'string',
+								enum: ['contains', 'matches', '=', '>', '>=', '<', '<='],
+							},
+							value: { type: 'string' },
+						},
+					}),
+					category: { type: 'string' },
+					tags: arrayOf({ type: 'string' }),
+				},
+			},
+			AccountInput: {
+				type: 'object',
+				properties: {
+					name: { type: 'string' },
+					description: { type: 'string' },
+					baseCurrency: { type: 'string' },
+					settings: ref('AccountSettings'),
+				},
+			},
+			User: {
+				type: 'object',
+				properties: {
+					firebaseUser: {
+						type: 'object',
+						properties: {
+							uid: { type: 'string' },
+							email: { type: 'string', nullable: true },
+							displayName: { type: 'string', nullable: true },
+							photoURL: { type: 'string', nullable: true },
+						},
+					},
+					preferences: ref('UserPreferences'),
+					accounts: arrayOf({ type: 'string' }),
+					createdAt: { type: 'string', format: 'date-time' },
+					updatedAt: { type: 'string', format: 'date-time' },
+				},
+			},
+			UserInput: {
+				type: 'object',
+				properties: {
+					firebaseUser: {
+						type: 'object',
+						properties: {
+							email: { type: 'string' },
+							displayName: { type: 'string' },
+							photoURL: { type: 'string' },
+						},
+					},
+					preferences: ref('UserPreferences'),
+				},
+			},
+			UserPreferences: {
+				type: 'object',
+				properties: {
+					darkMode: { type: 'boolean' },
+					language: { type: 'string' },
+					currencyDisplay: { type: 'string' },
+					notificationSettings: {
+						type: 'object',
+						properties: {
+							email: { type: 'boolean' },
+							push: { type: 'boolean' },
+							budgetAlerts: { type: 'boolean' },
+							expenseReminders: { type: 'boolean' },
+						},
+					},
+				},
+			},
+			Upload: {
+				type: 'object',
+				properties: {
+					url: { type: 'string' },
+					name: { type: 'string' },
+					size: { type: 'integer' },
+					contentType: { type: 'string' },
+				},
+			},
+		},
+	},
+};
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { Datastore } from '../datastore';
+import { Router } from '../http';
+import { registerAccountRoutes } from './accounts';
+import { registerExpenseRoutes } from './expenses';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'account-routes-'));
+const store = new Datastore(path.join(dir, 'data.json'));
+const router = new Router();
+registerAccountRoutes(router, store);
+registerExpenseRoutes(router, store);
+
+const user = { uid: 'ana', email: 'ana@example.com', displayName: 'Ana' };
+
+store.insert(
+	'accounts',
+	{
+		name: 'Home',
+		description: '',
+		baseCurrency: 'USD',
+		createdAt: '2024-01-01T00:00:00.000Z',
+		createdBy: user.uid,
+		members: [
+			{
+				uid: user.uid,
+				email: 'ana@example.com',
+				displayName: 'Ana',
+				role: 'admin',
+				joinedAt: '2024-01-01T00:00:00.000Z',
+			},
+		],
+		settings: {
+			theme: 'system',
+			categories: ['Food', 'Transportation'],
+			defaultCategory: 'Food',
+		},
+	},
+	'home'
+);
+
+// Runs a request the way the server does, after authentication
+const send = async (method: string, requestPath: string, body?: unknown) => {
+	const match = router.match(method, requestPath);
+	if (!match) throw new Error(`No route for ${method} ${requestPath}`);
+
+	return match.route.handler({
+		method,
+		path: requestPath,
+		params: match.params,
+		query: new URLSearchParams(),
+		body,
+		files: [],
+		user,
+		responseHeaders: {},
+	});
+};
+
+const uberRule = {
+	id: 'uber',
+	name: 'Rides',
+	priority: 1,
+	enabled: true,
+	conditions: [{ field: 'description', operator: 'contains', value: 'uber' }],
+	category: 'Transportation',
+};
+
+afterAll(() => {
+	store.flush();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('PATCH /accounts/:id', () => {
+	it('rejects category rules that cannot be evaluated', async () => {
+		await expect(
+			send('PATCH', '/accounts/home', {
+				settings: { categoryRules: [{ ...uberRule, conditions: undefined }] },
+			})
+		).rejects.toMatchObject({ status: 400 });
+		await expect(
+			send('PATCH', '/accounts/home', {
+				settings: { categoryRules: [{ ...uberRule, conditions: [] }] },
+			})
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'Add at least one condition',
+		});
+		expect(
+			store.get('accounts', 'home')?.settings.categoryRules
+		).toBeUndefined();
+	});
+
+	it('applies stored category rules to new expenses', async () => {
+		await send('PATCH', '/accounts/home', {
+			settings: { categoryRules: [uberRule] },
+		});
+
+		await expect(
+			send('POST', '/expenses', {
+				accountId: 'home',
+				amount: 18,
+				description: 'Uber to the airport',
+				date: '2024-06-10T00:00:00.000Z',
+			})
+		).resolves.toMatchObject({ category: 'Transportation' });
+	});
+
+	it('rejects approval policies of the wrong type', async () => {
+		await expect(
+			send('PATCH', '/accounts/home', {
+				settings: { approvalPolicy: { autoApproveCategories: 'Food' } },
+			})
+		).rejects.toMatchObject({
+			status: 400,
+			message:
+				'approvalPolicy.autoApproveCategories must be an array of strings',
+		});
+		await expect(
+			send('PATCH', '/accounts/home', {
+				settings: { approvalPolicy: { autoApproveBelow: 'lots' } },
+			})
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'approvalPolicy.autoApproveBelow must be a non-negative number',
+		});
+		expect(
+			store.get('accounts', 'home')?.settings.approvalPolicy
+		).toBeUndefined();
+	});
+
+	it('keeps settings it does not change', async () => {
+		await expect(
+			send('PATCH', '/accounts/home', {
+				settings: { approvalPolicy: { autoApproveCategories: ['Food'] } },
+			})
+		).resolves.toMatchObject({
+			settings: {
+				defaultCategory: 'Food',
+				approvalPolicy: { autoApproveCategories: ['Food'] },
+			},
+		});
+	});
+});
@@ -0,0 +1,291 @@
+import { Datastore } from '../datastore';
+import { HttpError, Router } from '../http';
+import { Account, AccountMember, Role } from '../types';
+import { SYSTEM_CATEGORIES } from './categories';
+import {
+	badRequest,
+	notFound,
+	paginate,
+	pick,
+	requireAccount,
+	requireAmount,
+	requireString,
+	requireStringArray,
+} from './helpers';
+import { CategoryRule, CategoryRules } from '../../../shared/categoryRules';
+import { ApprovalPolicy } from '../../../shared/approvals';
+
+const ROLES: Role[] = ['admin', 'member', 'viewer'];
+
+const requireRole = (value: unknown): Role => {
+	if (!ROLES.includes(value as Role)) {
+		throw badRequest(`role must be one of ${ROLES.join(', ')}`);
+	}
+	return value as Role;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Rules are run on every expense created without a category, so one that
+// can't be evaluated must not be stored
+const requireCategoryRules = (value: unknown): CategoryRule[] => {
+	if (!Array.isArray(value) || !value.every(isObject)) {
+		throw badRequest('categoryRules must be an array of objects');
+	}
+
+	return value.map((rule) => {
+		if (
+			typeof rule.id !== 'string' ||
+			typeof rule.name !== 'string' ||
+			typeof rule.category !== 'string' ||
+			typeof rule.enabled !== 'boolean' ||
+			!Number.isFinite(rule.priority)
+		) {
+			throw badRequest(
+				'categoryRules need an id, name, category, enabled flag and priority'
+			);
+		}
+		if (
+			!Array.isArray(rule.conditions) ||
+			!rule.conditions.every(
+				(condition: unknown) =>
+					isObject(condition) &&
+					['field', 'operator', 'value'].every(
+						(key) => typeof condition[key] === 'string'
+					)
+			)
+		) {
+			throw badRequest(
+				'categoryRules.conditions must be an array of field, operator and value'
+			);
+		}
+
+		const checked: CategoryRule = {
+			id: rule.id,
+			name: rule.name,
+			priority: rule.priority,
+			enabled: rule.enabled,
+			conditions: rule.conditions.map(
+				({ field, operator, value }: CategoryRule['conditions'][number]) => ({
+					field,
+					operator,
+					value,
+				})
+			),
+			category: rule.category,
+			...(rule.tags == null
+				? {}
+				: { tags: requireStringArray(rule.tags, 'categoryRules.tags') }),
+		};
+		const errors = CategoryRules.validate(checked);
+		if (errors.length > 0) throw badRequest(errors.join('; '));
+		return checked;
+	});
+};
+
+const requireApprovalPolicy = (value: unknown): ApprovalPolicy => {
+	if (!isObject(value)) throw badRequest('approvalPolicy must be an object');
+
+	const policy: ApprovalPolicy = {};
+	if (value.autoApproveBelow != null) {
+		policy.autoApproveBelow = requireAmount(
+			value.autoApproveBelow,
+			'approvalPolicy.autoApproveBelow'
+		);
+	}
+	if (value.autoApproveCategories != null) {
+		policy.autoApproveCategories = requireStringArray(
+			value.autoApproveCategories,
+			'approvalPolicy.autoApproveCategories'
+		);
+	}
+	return policy;
+};
+
+// Settings a PATCH may change, checked since the API server acts on them
+const requireSettings = (value: unknown): Partial<Account['settings']> => {
+	if (!isObject(value)) throw badRequest('settings must be an object');
+
+	const settings: Partial<Account['settings']> = { ...value };
+	if (value.categoryRules !== undefined) {
+		settings.categoryRules = requireCategoryRules(value.categoryRules);
+	}
+	if (value.approvalPolicy !== undefined) {
+		settings.approvalPolicy = requireApprovalPolicy(value.approvalPolicy);
+	}
+	return settings;
+};
+
+export const registerAccountRoutes = (router: Router, store: Datastore) => {
+	// Keep the user's account list in step with membership changes
+	const linkAccount = (uid: string, accountId: string, linked: boolean) => {
+		const profile = store.get('users', uid);
+		if (!profile) return;
+
+		const accounts = (profile.accounts || []).filter((id) => id !== accountId);
+		store.update('users', uid, {
+			accounts: linked ? [...accounts, accountId] : accounts,
+		});
+	};
+
+	const adminCount = (members: AccountMember[]) =>
+		members.filter((member) => member.role === 'admin').length;
+
+	router.get('/accounts', (req) =>
+		paginate(
+			req,
+			store.list('accounts', (account) =>
+				account.members.some((m) => m.uid === req.user.uid)
+			),
+			'createdAt'
+		)
+	);
+
+	router.get('/accounts/:id', (req) =>
+		requireAccount(store, req.params.id, req.user.uid)
+	);
+
+	router.get('/users/:userId/accounts', (req) => {
+		if (req.params.userId !== req.user.uid) {
+			throw new HttpError(
+				403,
+				"Cannot list another user's accounts",
+				'FORBIDDEN'
+			);
+		}
+		return store.list('accounts', (account) =>
+			account.members.some((m) => m.uid === req.user.uid)
+		);
+	});
+
+	router.post('/accounts', (req) => {
+		const body = req.body || {};
+		const profile = store.get('users', req.user.uid);
+		const now = new Date().toISOString();
+
+		const account = store.insert('accounts', {
+			name: requireString(body.name, 'name'),
+			description: body.description || '',
+			baseCurrency: body.baseCurrency || 'USD',
+			createdAt: now,
+			createdBy: req.user.uid,
+			members: [
+				{
+					uid: req.user.uid,
+					email: req.user.email || profile?.email || '',
+					displayName: req.user.displayName || profile?.displayName || '',
+					role: 'admin',
+					joinedAt: now,
+				},
+			],
+			settings: {
+				theme: body.settings?.theme || 'system',
+				categories: body.settings?.categories || SYSTEM_CATEGORIES,
+				defaultCategory: body.settings?.defaultCategory || 'Other',
+			},
+		});
+
+		linkAccount(req.user.uid, account.id, true);
+		return account;
+	});
+
+	router.patch('/accounts/:id', (req) => {
+		const account = requireAccount(store, req.params.id, req.user.uid, 'admin');
+		const body = req.body || {};
+		const updates = pick(body, [
+			'name',
+			'description',
+			'baseCurrency',
+		] as const);
+
+		return store.update('accounts', account.id, {
+			...updates,
+			...(body.settings
+				? {
+						settings: {
+							...account.settings,
+							...requireSettings(body.settings),
+						},
+					}
+				: {}),
+		});
+	});
+
+	router.post('/accounts/:id/members', (req) => {
+		const account = requireAccount(store, req.params.id, req.user.uid, 'admin');
+		const email = requireString(req.body?.email, 'email').toLowerCase();
+		const role = requireRole(req.body?.role);
+
+		// Members need a profile, which is created on their first sign-in
+		const [profile] = store.list(
+			'users',
+			(user) => (user.email || '').toLowerCase() === email
+		);
+		if (!profile) throw notFound('User with this email');
+
+		if (account.members.some((member) => member.uid === profile.id)) {
+			throw new HttpError(409, 'User is already a member', 'ALREADY_EXISTS');
+		}
+
+		const member: AccountMember = {
+			uid: profile.id,
+			email: profile.email || email,
+			displayName: profile.displayName || email,
+			role,
+			joinedAt: new Date().toISOString(),
+		};
+
+		store.update('accounts', account.id, {
+			members: [...account.members, member],
+		});
+		linkAccount(profile.id, account.id, true);
+
+		return member;
+	});
+
+	router.patch('/accounts/:id/members/:userId', (req) => {
+		const account = requireAccount(store, req.params.id, req.user.uid, 'admin');
+		const role = requireRole(req.body?.role);
+		const member = account.members.find((m) => m.uid === req.params.userId);
+		if (!member) throw notFound('Member');
+
+		const members = account.members.map((m) =>
+			m.uid === member.uid ? { ...m, role } : m
+		);
+		if (adminCount(members) === 0) {
+			throw new HttpError(
+				409,
+				'An account needs at least one admin',
+				'LAST_ADMIN'
+			);
+		}
+
+		store.update('accounts', account.id, { members });
+		return { ...member, role };
+	});
+
+	router.delete('/accounts/:id/members/:userId', (req) => {
+		// Members may remove themselves, everyone else needs admin
+		const leaving = req.params.userId === req.user.uid;
+		const account = requireAccount(
+			store,
+			req.params.id,
+			req.user.uid,
+			leaving ? 'viewer' : 'admin'
+		);
+
+		const members = account.members.filter((m) => m.uid !== req.params.userId);
+		if (members.length === account.members.length) throw notFound('Member');
+		if (adminCount(members) === 0) {
+			throw new HttpError(
+				409,
+				'An account needs at least one admin',
+				'LAST_ADMIN'
+			);
+		}
+
+		store.update('accounts', account.id, { members });
+		linkAccount(req.params.userId, account.id, false);
+	});
+};
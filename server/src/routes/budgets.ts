@@ -0,0 +1,213 @@
+import { Datastore } from '../datastore';
+import { HttpError, Router } from '../http';
+import { Budget, Expense } from '../types';
+import {
+	memberAccountIds,
+	notFound,
+	paginate,
+	parseDate,
+	pick,
+	requireAccount,
+	requireAmount,
+	requireString,
+} from './helpers';
+import { moveToTrash } from './trash';
+import { ExpenseLineItems } from '../../../shared/lineItems';
+import { ExpenseApprovals } from '../../../shared/approvals';
+
+const UPDATABLE_FIELDS = [
+	'name',
+	'amount',
+	'category',
+	'startDate',
+	'endDate',
+	'isRecurring',
+	'recurringPeriod',
+	'isActive',
+	'notes',
+] as const;
+
+// Share of the budget used before it is reported as nearly exhausted
+const NEAR_LIMIT_RATIO = 0.8;
+
+export const registerBudgetRoutes = (router: Router, store: Datastore) => {
+	const findBudget = (
+		id: string,
+		uid: string,
+		minRole: 'viewer' | 'member'
+	) => {
+		const budget = store.get('budgets', id);
+		if (!budget) throw notFound('Budget');
+		requireAccount(store, budget.accountId, uid, minRole);
+		return budget;
+	};
+
+	// Amount an expense counts against a budget; itemized expenses count
+	// their line items in the budget's category
+	const budgetAmount = (budget: Budget, expense: Expense) =>
+		budget.category === 'All'
+			? expense.amountInBaseCurrency ?? expense.amount
+			: ExpenseLineItems.getCategoryAmount(expense, budget.category);
+
+	// Approved expenses in the budget's account and period that count in its
+	// category ('All' matches any)
+	const budgetExpenses = (budget: Budget) =>
+		store.list(
+			'expenses',
+			(expense) =>
+				expense.accountId === budget.accountId &&
+				ExpenseApprovals.isApproved(expense) &&
+				expense.date >= budget.startDate &&
+				expense.date <= budget.endDate &&
+				(budget.category === 'All' ||
+					ExpenseLineItems.getCategories(expense).includes(budget.category))
+		);
+
+	router.get('/budgets', (req) => {
+		const accountIds = memberAccountIds(store, req.user.uid);
+		return paginate(
+			req,
+			store.list('budgets', (budget) => accountIds.has(budget.accountId)),
+			'startDate'
+		);
+	});
+
+	router.get('/budgets/:id', (req) =>
+		findBudget(req.params.id, req.user.uid, 'viewer')
+	);
+
+	router.get('/budgets/:id/status', (req) => {
+		const budget = findBudget(req.params.id, req.user.uid, 'viewer');
+		const expenses = budgetExpenses(budget);
+		const spent = expenses.reduce(
+			(sum, expense) => sum + budgetAmount(budget, expense),
+			0
+		);
+		const percentUsed = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
+
+		return {
+			budgetId: budget.id,
+			amount: budget.amount,
+			spent,
+			remaining: budget.amount - spent,
+			percentUsed,
+			expenseCount: expenses.length,
+			status:
+				spent > budget.amount
+					? 'over'
+					: spent >= budget.amount * NEAR_LIMIT_RATIO
+					? 'near'
+					: 'under',
+		};
+	});
+
+	router.get('/accounts/:accountId/budgets', (req) => {
+		requireAccount(store, req.params.accountId, req.user.uid);
+		const activeOnly = req.query.get('active') === 'true';
+
+		return paginate(
+			req,
+			store.list(
+				'budgets',
+				(budget) =>
+					budget.accountId === req.params.accountId &&
+					(!activeOnly || budget.isActive)
+			),
+			'startDate'
+		);
+	});
+
+	router.post('/budgets', (req) => {
+		const body = req.body || {};
+		const accountId = requireString(body.accountId, 'accountId');
+		requireAccount(store, accountId, req.user.uid, 'member');
+
+		const startDate = parseDate(body.startDate, 'startDate');
+		const endDate = parseDate(body.endDate, 'endDate');
+		if (!startDate || !endDate) {
+			throw new HttpError(
+				400,
+				'startDate and endDate are required',
+				'BAD_REQUEST'
+			);
+		}
+		if (endDate < startDate) {
+			throw new HttpError(
+				400,
+				'endDate must be after startDate',
+				'BAD_REQUEST'
+			);
+		}
+
+		const now = new Date().toISOString();
+		return store.insert('budgets', {
+			accountId,
+			userId: req.user.uid,
+			name: requireString(body.name, 'name'),
+			amount: requireAmount(body.amount, 'amount'),
+			category: body.category || 'All',
+			startDate,
+			endDate,
+			isRecurring: Boolean(body.isRecurring),
+			recurringPeriod: body.isRecurring ? body.recurringPeriod : undefined,
+			isActive: body.isActive ?? true,
+			notes: body.notes,
+			createdAt: now,
+			updatedAt: now,
+			createdBy: {
+				uid: req.user.uid,
+				displayName:
+					body.createdBy?.displayName ||
+					req.user.displayName ||
+					req.user.email ||
+					'',
+			},
+		});
+	});
+
+	router.patch('/budgets/:id', (req) => {
+		const current = findBudget(req.params.id, req.user.uid, 'member');
+		const updates = pick(req.body || {}, UPDATABLE_FIELDS);
+
+		if (Object.keys(updates).length === 0) {
+			throw new HttpError(
+				400,
+				'No updatable fields were provided',
+				'BAD_REQUEST'
+			);
+		}
+		if (updates.amount !== undefined) {
+			updates.amount = requireAmount(updates.amount, 'amount');
+		}
+		if (updates.startDate !== undefined) {
+			updates.startDate = parseDate(updates.startDate, 'startDate');
+		}
+		if (updates.endDate !== undefined) {
+			updates.endDate = parseDate(updates.endDate, 'endDate');
+		}
+		if (
+			(updates.endDate ?? current.endDate) <
+			(updates.startDate ?? current.startDate)
+		) {
+			throw new HttpError(
+				400,
+				'endDate must be after startDate',
+				'BAD_REQUEST'
+			);
+		}
+
+		return store.update('budgets', current.id, {
+			...updates,
+			updatedAt: new Date().toISOString(),
+			updatedBy: {
+				uid: req.user.uid,
+				displayName: req.user.displayName || req.user.email || '',
+			},
+		});
+	});
+
+	router.delete('/budgets/:id', (req) => {
+		const budget = findBudget(req.params.id, req.user.uid, 'member');
+		moveToTrash(store, req, 'budgets', budget);
+	});
+};
@@ -0,0 +1,39 @@
+import { Datastore } from '../datastore';
+import { Router } from '../http';
+import { requireAccount } from './helpers';
+
+// Same defaults the client gives new accounts
+export const SYSTEM_CATEGORIES = [
+	'Food & Drink',
+	'Shopping',
+	'Housing',
+	'Transportation',
+	'Entertainment',
+	'Health',
+	'Travel',
+	'Education',
+	'Personal',
+	'Other',
+];
+
+export const registerCategoryRoutes = (router: Router, store: Datastore) => {
+	// System categories plus the custom ones from every account the caller is in
+	router.get('/categories', (req) => {
+		const custom = store
+			.list('accounts', (account) =>
+				account.members.some((m) => m.uid === req.user.uid)
+			)
+			.flatMap((account) => account.settings.categories);
+
+		return Array.from(new Set([...SYSTEM_CATEGORIES, ...custom]));
+	});
+
+	router.get('/categories/system', () => SYSTEM_CATEGORIES, {
+		public: true,
+	});
+
+	router.get('/accounts/:accountId/categories', (req) => {
+		const account = requireAccount(store, req.params.accountId, req.user.uid);
+		return account.settings.categories;
+	});
+};
@@ -0,0 +1,51 @@
+import { Router } from '../http';
+import { badRequest } from './helpers';
+
+export const SUPPORTED_CURRENCIES = [
+	{ code: 'USD', name: 'US Dollar', symbol: '$' },
+	{ code: 'EUR', name: 'Euro', symbol: '€' },
+	{ code: 'GBP', name: 'British Pound', symbol: '£' },
+	{ code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
+	{ code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$' },
+	{ code: 'AUD', name: 'Australian Dollar', symbol: 'A$' },
+	{ code: 'CHF', name: 'Swiss Franc', symbol: 'CHF' },
+	{ code: 'CNY', name: 'Chinese Yuan', symbol: '¥' },
+	{ code: 'INR', name: 'Indian Rupee', symbol: '₹' },
+	{ code: 'MXN', name: 'Mexican Peso', symbol: 'MX$' },
+];
+
+// Reference rates per 1 USD. A production server would refresh these from a
+// rates provider; fixed values keep this server self-contained.
+const USD_RATES: Record<string, number> = {
+	USD: 1,
+	EUR: 0.92,
+	GBP: 0.79,
+	JPY: 149.5,
+	CAD: 1.36,
+	AUD: 1.52,
+	CHF: 0.88,
+	CNY: 7.24,
+	INR: 83.2,
+	MXN: 17.1,
+};
+
+export const registerCurrencyRoutes = (router: Router) => {
+	router.get('/currencies', () => SUPPORTED_CURRENCIES, { public: true });
+
+	// Units of each currency per 1 unit of `base`
+	router.get(
+		'/currencies/rates',
+		(req) => {
+			const base = (req.query.get('base') || 'USD').toUpperCase();
+			const baseRate = USD_RATES[base];
+			if (!baseRate) throw badRequest(`Unsupported currency: ${base}`);
+
+			const rates: Record<string, number> = {};
+			Object.entries(USD_RATES).forEach(([code, rate]) => {
+				rates[code] = rate / baseRate;
+			});
+			return rates;
+		},
+		{ public: true }
+	);
+};
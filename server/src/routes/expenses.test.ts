@@ -0,0 +1,217 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { Datastore } from '../datastore';
+import { Router } from '../http';
+import { AccountMember, Role } from '../types';
+import { registerExpenseRoutes } from './expenses';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'expense-routes-'));
+const store = new Datastore(path.join(dir, 'data.json'));
+const router = new Router();
+registerExpenseRoutes(router, store);
+
+const user = { uid: 'ana', email: 'ana@example.com', displayName: 'Ana' };
+const ben = { uid: 'ben', email: 'ben@example.com', displayName: 'Ben' };
+
+const member = (caller: typeof user, role: Role): AccountMember => ({
+	uid: caller.uid,
+	email: caller.email,
+	displayName: caller.displayName,
+	role,
+	joinedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const addAccount = (id: string, name: string, members: AccountMember[]) =>
+	store.insert(
+		'accounts',
+		{
+			name,
+			description: '',
+			baseCurrency: 'USD',
+			createdAt: '2024-01-01T00:00:00.000Z',
+			createdBy: user.uid,
+			members,
+			settings: {
+				theme: 'system',
+				categories: ['Food'],
+				defaultCategory: 'Food',
+			},
+		},
+		id
+	);
+
+addAccount('home', 'Home', [member(user, 'admin'), member(ben, 'member')]);
+addAccount('work', 'Work', [member(user, 'admin')]);
+
+// Runs a request the way the server does, after authentication
+const send = async (
+	method: string,
+	requestPath: string,
+	body?: unknown,
+	caller = user
+) => {
+	const match = router.match(method, requestPath);
+	if (!match) throw new Error(`No route for ${method} ${requestPath}`);
+
+	return match.route.handler({
+		method,
+		path: requestPath,
+		params: match.params,
+		query: new URLSearchParams(),
+		body,
+		files: [],
+		user: caller,
+		responseHeaders: {},
+	});
+};
+
+const lunch = {
+	accountId: 'home',
+	amount: 12,
+	description: 'Lunch',
+	category: 'Food',
+	date: '2024-06-10T00:00:00.000Z',
+};
+
+afterAll(() => {
+	store.flush();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('POST /expenses', () => {
+	it('rejects fields of the wrong type', async () => {
+		await expect(
+			send('POST', '/expenses', { ...lunch, currency: 42 })
+		).rejects.toMatchObject({ status: 400, message: 'currency is required' });
+		await expect(
+			send('POST', '/expenses', { ...lunch, refundOf: { id: 'x' } })
+		).rejects.toMatchObject({ status: 400, message: 'refundOf is required' });
+		await expect(
+			send('POST', '/expenses', { ...lunch, receiptUrls: 'receipt.png' })
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'receiptUrls must be an array of strings',
+		});
+		await expect(
+			send('POST', '/expenses', { ...lunch, subcategory: 3 })
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'subcategory is required',
+		});
+		await expect(
+			send('POST', '/expenses', { ...lunch, notes: { text: 'x' } })
+		).rejects.toMatchObject({ status: 400, message: 'notes is required' });
+	});
+
+	it('defaults the currency to the account currency', async () => {
+		await expect(send('POST', '/expenses', lunch)).resolves.toMatchObject({
+			currency: 'USD',
+			receiptUrls: [],
+		});
+	});
+});
+
+describe('PATCH /expenses/:id', () => {
+	const addLunch = async () =>
+		(await send('POST', '/expenses', {
+			...lunch,
+			allowDuplicate: true,
+		})) as { id: string };
+
+	it('rejects fields of the wrong type', async () => {
+		const { id } = await addLunch();
+
+		await expect(
+			send('PATCH', `/expenses/${id}`, { currency: ['EUR'] })
+		).rejects.toMatchObject({ status: 400, message: 'currency is required' });
+		await expect(
+			send('PATCH', `/expenses/${id}`, { refundOf: 7 })
+		).rejects.toMatchObject({ status: 400, message: 'refundOf is required' });
+		await expect(
+			send('PATCH', `/expenses/${id}`, { notDuplicateOf: 'other' })
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'notDuplicateOf must be an array of strings',
+		});
+		await expect(
+			send('PATCH', `/expenses/${id}`, { receiptUrls: [1] })
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'receiptUrls must be an array of strings',
+		});
+		await expect(
+			send('PATCH', `/expenses/${id}`, { description: 42 })
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'description is required',
+		});
+		await expect(
+			send('PATCH', `/expenses/${id}`, { subcategory: ['Lunch'] })
+		).rejects.toMatchObject({
+			status: 400,
+			message: 'subcategory is required',
+		});
+		await expect(
+			send('PATCH', `/expenses/${id}`, { notes: 7 })
+		).rejects.toMatchObject({ status: 400, message: 'notes is required' });
+	});
+
+	it('clears notes with null', async () => {
+		const { id } = (await send('POST', '/expenses', {
+			...lunch,
+			notes: 'With the team',
+			allowDuplicate: true,
+		})) as { id: string };
+
+		await expect(
+			send('PATCH', `/expenses/${id}`, { notes: null })
+		).resolves.toMatchObject({ notes: undefined });
+	});
+
+	it('clears refundOf with null', async () => {
+		const { id } = await addLunch();
+		const refund = (await send('POST', '/expenses', {
+			...lunch,
+			amount: -5,
+			description: 'Lunch refund',
+			refundOf: id,
+		})) as { id: string };
+
+		await expect(
+			send('PATCH', `/expenses/${refund.id}`, { refundOf: null })
+		).resolves.toMatchObject({ refundOf: undefined });
+	});
+});
+
+describe('GET /expenses/:id/history', () => {
+	it('follows a moved expense to its new account', async () => {
+		const { id } = (await send('POST', '/expenses', {
+			...lunch,
+			allowDuplicate: true,
+		})) as { id: string };
+		await expect(
+			send('GET', `/expenses/${id}/history`, undefined, ben)
+		).resolves.toHaveLength(1);
+
+		// Moves are written by the client, with an entry in the new account
+		const moved = store.update('expenses', id, { accountId: 'work' })!;
+		store.insert('expenseHistory', {
+			accountId: 'work',
+			expenseId: id,
+			action: 'update',
+			actor: { uid: user.uid, displayName: 'Ana' },
+			at: new Date(Date.now() + 1000).toISOString(),
+			changes: [{ field: 'accountId', before: 'home', after: 'work' }],
+			snapshot: moved,
+		});
+
+		await expect(
+			send('GET', `/expenses/${id}/history`, undefined, ben)
+		).rejects.toMatchObject({ status: 404 });
+		await expect(
+			send('GET', `/expenses/${id}/history`)
+		).resolves.toMatchObject([{ accountId: 'work' }, { accountId: 'home' }]);
+	});
+});
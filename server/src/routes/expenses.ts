@@ -0,0 +1,461 @@
+import { Datastore } from '../datastore';
+import { ApiRequest, HttpError, Router } from '../http';
+import { Expense, ExpenseHistoryEntry } from '../types';
+import {
+	badRequest,
+	memberAccountIds,
+	notFound,
+	optionalString,
+	paginate,
+	parseDate,
+	pick,
+	requireAccount,
+	requirePositiveNumber,
+	requireSignedAmount,
+	requireString,
+	requireStringArray,
+} from './helpers';
+import { moveToTrash } from './trash';
+import {
+	matchesExpenseQuery,
+	parseExpenseQuery,
+} from '../../../shared/expenseQuery';
+import { CategoryRules } from '../../../shared/categoryRules';
+import { ExpenseDuplicates } from '../../../shared/duplicateExpenses';
+import { ExpenseRefunds } from '../../../shared/refunds';
+import { ExpenseLineItem, ExpenseLineItems } from '../../../shared/lineItems';
+import { ExpenseApprovals } from '../../../shared/approvals';
+
+const UPDATABLE_FIELDS = [
+	'amount',
+	'category',
+	'subcategory',
+	'description',
+	'date',
+	'currency',
+	'exchangeRate',
+	'refundOf',
+	'lineItems',
+	'tags',
+	'notes',
+	'paymentMethodId',
+	'receiptUrls',
+	'notDuplicateOf',
+] as const;
+
+// Bookkeeping fields left out of history diffs
+const UNAUDITED_FIELDS = [
+	'id',
+	'createdAt',
+	'createdBy',
+	'updatedAt',
+	'updatedBy',
+];
+
+// Line items of a request, which must add up to the expense's amount; an
+// empty list leaves the expense without them
+const requireLineItems = (
+	value: unknown,
+	amount: number
+): ExpenseLineItem[] | undefined => {
+	if (
+		!Array.isArray(value) ||
+		value.some((item) => typeof item !== 'object' || item === null)
+	) {
+		throw badRequest('lineItems must be an array of objects');
+	}
+	const lineItems: ExpenseLineItem[] = value.map((item) => ({
+		description: String(item.description ?? ''),
+		amount: Number(item.amount),
+		category: typeof item.category === 'string' ? item.category : '',
+		...(item.tags === undefined
+			? {}
+			: { tags: requireStringArray(item.tags, 'lineItems.tags') }),
+		...(item.quantity === undefined ? {} : { quantity: Number(item.quantity) }),
+		...(item.unitPrice === undefined
+			? {}
+			: { unitPrice: Number(item.unitPrice) }),
+	}));
+
+	const error = ExpenseLineItems.validate(amount, lineItems);
+	if (error) throw badRequest(error);
+	return lineItems.length > 0 ? lineItems : undefined;
+};
+
+const diffExpenses = (
+	before: Partial<Expense> | null,
+	after: Partial<Expense> | null
+): ExpenseHistoryEntry['changes'] => {
+	const fields = new Set([
+		...Object.keys(before || {}),
+		...Object.keys(after || {}),
+	]) as Set<keyof Expense>;
+
+	return Array.from(fields)
+		.filter((field) => !UNAUDITED_FIELDS.includes(field))
+		.filter(
+			(field) =>
+				JSON.stringify(before?.[field] ?? null) !==
+				JSON.stringify(after?.[field] ?? null)
+		)
+		.sort()
+		.map((field) => ({
+			field,
+			before: before?.[field] ?? null,
+			after: after?.[field] ?? null,
+		}));
+};
+
+export const registerExpenseRoutes = (router: Router, store: Datastore) => {
+	// History entries are only ever inserted
+	const recordChange = (
+		req: ApiRequest,
+		action: ExpenseHistoryEntry['action'],
+		before: Expense | null,
+		after: Expense | null
+	) => {
+		const expense = (after || before)!;
+		store.insert('expenseHistory', {
+			accountId: expense.accountId,
+			expenseId: expense.id,
+			action,
+			actor: {
+				uid: req.user.uid,
+				displayName: req.user.displayName || req.user.email || '',
+			},
+			at: new Date().toISOString(),
+			changes: diffExpenses(before, after),
+			snapshot: expense,
+		});
+	};
+
+	const findExpense = (
+		id: string,
+		uid: string,
+		minRole: 'viewer' | 'member'
+	) => {
+		const expense = store.get('expenses', id);
+		if (!expense) throw notFound('Expense');
+		requireAccount(store, expense.accountId, uid, minRole);
+		return expense;
+	};
+
+	router.get('/expenses', (req) => {
+		const accountIds = memberAccountIds(store, req.user.uid);
+		return paginate(
+			req,
+			store.list('expenses', (expense) => accountIds.has(expense.accountId)),
+			'date'
+		);
+	});
+
+	// Same query language as the expense list's search box
+	router.get('/expenses/search', (req) => {
+		const query = parseExpenseQuery(req.query.get('q') || '');
+		if (query.errors.length > 0) {
+			throw new HttpError(400, query.errors.join('; '), 'BAD_REQUEST');
+		}
+		const accountIds = memberAccountIds(store, req.user.uid);
+
+		return paginate(
+			req,
+			store.list(
+				'expenses',
+				(expense) =>
+					accountIds.has(expense.accountId) &&
+					matchesExpenseQuery(query, expense)
+			),
+			'date'
+		);
+	});
+
+	router.get('/expenses/:id', (req) =>
+		findExpense(req.params.id, req.user.uid, 'viewer')
+	);
+
+	// History outlives the expense, so deleted expenses are checked by their
+	// latest entry. Moved expenses have entries in several accounts; only
+	// those of the caller's accounts are listed.
+	router.get('/expenses/:id/history', (req) => {
+		const entries = store
+			.list('expenseHistory', (entry) => entry.expenseId === req.params.id)
+			.sort((a, b) => b.at.localeCompare(a.at));
+		if (entries.length === 0) {
+			findExpense(req.params.id, req.user.uid, 'viewer');
+			return [];
+		}
+
+		const expense = store.get('expenses', req.params.id);
+		requireAccount(
+			store,
+			expense?.accountId ?? entries[0].accountId,
+			req.user.uid
+		);
+		const accountIds = memberAccountIds(store, req.user.uid);
+		return entries.filter((entry) => accountIds.has(entry.accountId));
+	});
+
+	router.get('/accounts/:accountId/expenses', (req) => {
+		requireAccount(store, req.params.accountId, req.user.uid);
+		return paginate(
+			req,
+			store.list(
+				'expenses',
+				(expense) => expense.accountId === req.params.accountId
+			),
+			'date'
+		);
+	});
+
+	router.post('/expenses', (req) => {
+		const body = req.body || {};
+		const accountId = requireString(body.accountId, 'accountId');
+		const account = requireAccount(store, accountId, req.user.uid, 'member');
+
+		const amount = requireSignedAmount(body.amount, 'amount');
+		const currency =
+			body.currency === undefined || body.currency === null
+				? account.baseCurrency
+				: requireString(body.currency, 'currency');
+		const exchangeRate =
+			body.exchangeRate === undefined || body.exchangeRate === null
+				? 1
+				: requirePositiveNumber(body.exchangeRate, 'exchangeRate');
+		const description = requireString(body.description, 'description');
+		const subcategory = optionalString(body.subcategory, 'subcategory');
+		const notes = optionalString(body.notes, 'notes');
+		const now = new Date().toISOString();
+
+		const paymentMethodId =
+			body.paymentMethodId === undefined || body.paymentMethodId === null
+				? undefined
+				: requireString(body.paymentMethodId, 'paymentMethodId');
+
+		// Without a category the account's category rules file the expense
+		const applied = body.category
+			? null
+			: CategoryRules.apply(account.settings.categoryRules, {
+					description,
+					amountInBaseCurrency: amount * exchangeRate,
+					paymentMethodId,
+			  });
+		const tags =
+			body.tags === undefined ? [] : requireStringArray(body.tags, 'tags');
+		const lineItems =
+			body.lineItems === undefined || body.lineItems === null
+				? undefined
+				: requireLineItems(body.lineItems, amount);
+		const date = parseDate(body.date, 'date') || now;
+		const inAccount = store.list(
+			'expenses',
+			(expense) => expense.accountId === accountId
+		);
+
+		const refundOf =
+			body.refundOf === undefined || body.refundOf === null
+				? undefined
+				: requireString(body.refundOf, 'refundOf');
+		const refundError = ExpenseRefunds.validate(
+			{ amountInBaseCurrency: amount * exchangeRate, refundOf },
+			inAccount
+		);
+		if (refundError) throw badRequest(refundError);
+
+		// The same purchase is often entered by two members, or typed in and
+		// then imported
+		if (!body.allowDuplicate) {
+			const [duplicate] = ExpenseDuplicates.find(
+				{ description, amountInBaseCurrency: amount * exchangeRate, date },
+				inAccount
+			);
+			if (duplicate) {
+				throw new HttpError(
+					409,
+					`Looks like a duplicate of expense ${duplicate.id}; send allowDuplicate to add it anyway`,
+					'DUPLICATE'
+				);
+			}
+		}
+
+		const category = requireString(
+			body.category ?? applied?.category,
+			'category'
+		);
+		// The account's approval policy decides the starting status
+		const status = ExpenseApprovals.getInitialStatus(
+			account,
+			{ amountInBaseCurrency: amount * exchangeRate, category },
+			req.user.uid
+		);
+
+		const expense = store.insert('expenses', {
+			accountId,
+			amount,
+			category,
+			...(subcategory ? { subcategory } : {}),
+			description,
+			date,
+			currency,
+			exchangeRate,
+			amountInBaseCurrency: amount * exchangeRate,
+			...(lineItems ? { lineItems } : {}),
+			...(status ? { status } : {}),
+			...(refundOf ? { refundOf } : {}),
+			tags: [
+				...tags,
+				...(applied?.tags || []).filter((tag) => !tags.includes(tag)),
+			],
+			...(notes ? { notes } : {}),
+			...(paymentMethodId ? { paymentMethodId } : {}),
+			receiptUrls:
+				body.receiptUrls === undefined
+					? []
+					: requireStringArray(body.receiptUrls, 'receiptUrls'),
+			createdAt: now,
+			updatedAt: now,
+			createdBy: {
+				uid: req.user.uid,
+				displayName:
+					body.createdBy?.displayName ||
+					req.user.displayName ||
+					req.user.email ||
+					'',
+			},
+		});
+		recordChange(req, 'create', null, expense);
+		return expense;
+	});
+
+	router.patch('/expenses/:id', (req) => {
+		const current = findExpense(req.params.id, req.user.uid, 'member');
+		const updates = pick(req.body || {}, UPDATABLE_FIELDS);
+
+		if (Object.keys(updates).length === 0) {
+			throw new HttpError(
+				400,
+				'No updatable fields were provided',
+				'BAD_REQUEST'
+			);
+		}
+		if (updates.amount !== undefined) {
+			updates.amount = requireSignedAmount(updates.amount, 'amount');
+		}
+		if (updates.date !== undefined) {
+			updates.date = parseDate(updates.date, 'date');
+		}
+		if (updates.category !== undefined) {
+			updates.category = requireString(updates.category, 'category');
+		}
+		if (updates.description !== undefined) {
+			updates.description = requireString(updates.description, 'description');
+		}
+		// null or an empty string clears them
+		if (updates.subcategory !== undefined) {
+			updates.subcategory = optionalString(updates.subcategory, 'subcategory');
+		}
+		if (updates.notes !== undefined) {
+			updates.notes = optionalString(updates.notes, 'notes');
+		}
+		if (updates.currency !== undefined) {
+			updates.currency = requireString(updates.currency, 'currency');
+		}
+		if (updates.exchangeRate !== undefined) {
+			updates.exchangeRate = requirePositiveNumber(
+				updates.exchangeRate,
+				'exchangeRate'
+			);
+		}
+		if (updates.tags !== undefined) {
+			updates.tags = requireStringArray(updates.tags, 'tags');
+		}
+		if (updates.receiptUrls !== undefined) {
+			updates.receiptUrls = requireStringArray(
+				updates.receiptUrls,
+				'receiptUrls'
+			);
+		}
+		if (updates.notDuplicateOf !== undefined) {
+			updates.notDuplicateOf = requireStringArray(
+				updates.notDuplicateOf,
+				'notDuplicateOf'
+			);
+		}
+		// null or an empty string makes the expense no longer a refund
+		const changesRefundOf = updates.refundOf !== undefined;
+		if (changesRefundOf) {
+			updates.refundOf =
+				updates.refundOf === null || updates.refundOf === ''
+					? undefined
+					: requireString(updates.refundOf, 'refundOf');
+		}
+		// null takes the payment method off the expense
+		if (updates.paymentMethodId !== undefined) {
+			updates.paymentMethodId =
+				updates.paymentMethodId === null
+					? undefined
+					: requireString(updates.paymentMethodId, 'paymentMethodId');
+		}
+
+		const amount = updates.amount ?? current.amount;
+		const exchangeRate =
+			Number(updates.exchangeRate ?? current.exchangeRate) || 1;
+
+		// Line items must still add up after the change
+		if (updates.lineItems !== undefined) {
+			updates.lineItems =
+				updates.lineItems === null
+					? undefined
+					: requireLineItems(updates.lineItems, amount);
+		} else if (current.lineItems?.length && updates.amount !== undefined) {
+			requireLineItems(current.lineItems, amount);
+		}
+
+		const inAccount = store.list(
+			'expenses',
+			(expense) => expense.accountId === current.accountId
+		);
+		// A refund of a deleted expense can still be changed
+		const refundOf = changesRefundOf
+			? updates.refundOf
+			: inAccount.some((expense) => expense.id === current.refundOf)
+			? current.refundOf
+			: undefined;
+		const refundError = ExpenseRefunds.validate(
+			{ id: current.id, amountInBaseCurrency: amount * exchangeRate, refundOf },
+			inAccount
+		);
+		if (refundError) throw badRequest(refundError);
+
+		// Changed and rejected expenses go back through approval
+		const account = requireAccount(store, current.accountId, req.user.uid);
+		const status = ExpenseApprovals.needsReviewAfter(current, updates)
+			? ExpenseApprovals.getInitialStatus(
+					account,
+					{
+						amountInBaseCurrency: amount * exchangeRate,
+						category: updates.category ?? current.category,
+					},
+					req.user.uid
+			  )
+			: current.status;
+
+		const expense = store.update('expenses', current.id, {
+			...updates,
+			status,
+			amountInBaseCurrency: amount * exchangeRate,
+			updatedAt: new Date().toISOString(),
+			updatedBy: {
+				uid: req.user.uid,
+				displayName: req.user.displayName || req.user.email || '',
+			},
+		});
+		recordChange(req, 'update', current, expense);
+		return expense;
+	});
+
+	router.delete('/expenses/:id', (req) => {
+		const expense = findExpense(req.params.id, req.user.uid, 'member');
+		moveToTrash(store, req, 'expenses', expense);
+		recordChange(req, 'delete', expense, null);
+	});
+};
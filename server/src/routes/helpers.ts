@@ -0,0 +1,212 @@
+import { Datastore } from '../datastore';
+import { ApiRequest, HttpError } from '../http';
+import { Account, Role } from '../types';
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, member: 1, admin: 2 };
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const notFound = (what: string) =>
+	new HttpError(404, `${what} not found`, 'NOT_FOUND');
+
+export const badRequest = (message: string) =>
+	new HttpError(400, message, 'BAD_REQUEST');
+
+/**
+ * Load an account and check the caller's membership
+ * @param store - Datastore
+ * @param accountId - Account id
+ * @param uid - Caller's uid
+ * @param minRole - Lowest role allowed (viewers can read, members can write)
+ * @returns The account
+ */
+export const requireAccount = (
+	store: Datastore,
+	accountId: string,
+	uid: string,
+	minRole: Role = 'viewer'
+): Account => {
+	const account = store.get('accounts', accountId);
+	const member = account?.members.find((m) => m.uid === uid);
+
+	// Non-members get a 404 so account ids can't be probed
+	if (!account || !member) throw notFound('Account');
+
+	if (ROLE_RANK[member.role] < ROLE_RANK[minRole]) {
+		throw new HttpError(
+			403,
+			`This requires the ${minRole} role on the account`,
+			'FORBIDDEN'
+		);
+	}
+
+	return account;
+};
+
+// Ids of every account the caller is a member of
+export const memberAccountIds = (store: Datastore, uid: string): Set<string> =>
+	new Set(
+		store
+			.list('accounts', (account) => account.members.some((m) => m.uid === uid))
+			.map((account) => account.id)
+	);
+
+// Nulls sort last in either direction
+const compareValues = (left: unknown, right: unknown, direction: number) => {
+	if (left === right) return 0;
+	if (left === undefined || left === null) return 1;
+	if (right === undefined || right === null) return -1;
+	return ((left as any) < (right as any) ? -1 : 1) * direction;
+};
+
+// Cursors carry the sort value and id of the last item of a page
+const encodeCursor = (value: unknown, id: string) =>
+	Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+const decodeCursor = (cursor: string): [unknown, string] => {
+	try {
+		const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+		if (Array.isArray(decoded) && typeof decoded[1] === 'string') {
+			return [decoded[0], decoded[1]];
+		}
+	} catch {
+		// Reported below
+	}
+	throw badRequest('cursor is invalid');
+};
+
+/**
+ * Sort and slice a list using the client's PaginationParams
+ * The total before slicing is reported in the X-Total-Count header. When more
+ * results follow, X-Next-Cursor holds a cursor for the next page; a page
+ * requested by cursor starts after that item instead of at `page`, so
+ * inserts and deletes don't shift results between pages.
+ */
+export const paginate = <T extends Record<string, any>>(
+	req: ApiRequest,
+	items: T[],
+	defaultSort: keyof T & string
+): T[] => {
+	const sortBy = req.query.get('sortBy') || defaultSort;
+	const direction = req.query.get('sortOrder') === 'asc' ? 1 : -1;
+	const cursor = req.query.get('cursor');
+	const page = Math.max(1, Number(req.query.get('page')) || 1);
+	const limit = Math.min(
+		MAX_PAGE_SIZE,
+		Math.max(1, Number(req.query.get('limit')) || DEFAULT_PAGE_SIZE)
+	);
+
+	// Ties are broken by id so every item has a fixed position
+	const compare = (a: Record<string, any>, b: Record<string, any>) =>
+		compareValues(a[sortBy], b[sortBy], direction) ||
+		compareValues(a.id, b.id, direction);
+	const sorted = [...items].sort(compare);
+
+	let start = (page - 1) * limit;
+	if (cursor) {
+		const [value, id] = decodeCursor(cursor);
+		const after = sorted.findIndex(
+			(item) => compare(item, { [sortBy]: value, id }) > 0
+		);
+		start = after === -1 ? sorted.length : after;
+	}
+
+	const results = sorted.slice(start, start + limit);
+	const last = results[results.length - 1];
+
+	req.responseHeaders['X-Total-Count'] = String(items.length);
+	if (last && start + limit < sorted.length) {
+		req.responseHeaders['X-Next-Cursor'] = encodeCursor(last[sortBy], last.id);
+	}
+	return results;
+};
+
+/**
+ * Parse an ISO date query or body value
+ * @returns ISO string, or undefined when the value is missing
+ */
+export const parseDate = (
+	value: unknown,
+	field: string
+): string | undefined => {
+	if (value === undefined || value === null || value === '') return undefined;
+	const date = new Date(value as string);
+	if (isNaN(date.getTime())) throw badRequest(`${field} must be a valid date`);
+	return date.toISOString();
+};
+
+export const requireString = (value: unknown, field: string): string => {
+	if (typeof value !== 'string' || !value.trim()) {
+		throw badRequest(`${field} is required`);
+	}
+	return value.trim();
+};
+
+// Optional text such as notes; null or blank leaves the field out
+export const optionalString = (
+	value: unknown,
+	field: string
+): string | undefined =>
+	value === undefined ||
+	value === null ||
+	(typeof value === 'string' && !value.trim())
+		? undefined
+		: requireString(value, field);
+
+export const requireAmount = (value: unknown, field: string): number => {
+	const amount = Number(value);
+	if (
+		value === undefined ||
+		value === null ||
+		!isFinite(amount) ||
+		amount < 0
+	) {
+		throw badRequest(`${field} must be a non-negative number`);
+	}
+	return amount;
+};
+
+// Expense amounts are negative for refunds and credits
+export const requireSignedAmount = (value: unknown, field: string): number => {
+	const amount = Number(value);
+	if (value === undefined || value === null || !isFinite(amount)) {
+		throw badRequest(`${field} must be a number`);
+	}
+	return amount;
+};
+
+export const requirePositiveNumber = (
+	value: unknown,
+	field: string
+): number => {
+	const number = Number(value);
+	if (
+		value === undefined ||
+		value === null ||
+		!isFinite(number) ||
+		number <= 0
+	) {
+		throw badRequest(`${field} must be a positive number`);
+	}
+	return number;
+};
+
+export const requireStringArray = (value: unknown, field: string): string[] => {
+	if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+		throw badRequest(`${field} must be an array of strings`);
+	}
+	return value;
+};
+
+// Copy only the listed fields from a PATCH body
+export const pick = <K extends string>(
+	body: Record<string, unknown>,
+	fields: readonly K[]
+): Partial<Record<K, any>> => {
+	const result: Partial<Record<K, any>> = {};
+	fields.forEach((field) => {
+		if (body[field] !== undefined) result[field] = body[field];
+	});
+	return result;
+};
@@ -0,0 +1,62 @@
+import { Datastore } from '../datastore';
+import { Router } from '../http';
+import { memberAccountIds, parseDate, requireAccount } from './helpers';
+
+const TOP_EXPENSE_COUNT = 5;
+
+export const registerInsightRoutes = (router: Router, store: Datastore) => {
+	// Spending totals for the caller's accounts, or one account via ?accountId
+	router.get('/insights', (req) => {
+		const accountId = req.query.get('accountId');
+		const accountIds = accountId
+			? new Set([requireAccount(store, accountId, req.user.uid).id])
+			: memberAccountIds(store, req.user.uid);
+		const startDate = parseDate(req.query.get('startDate'), 'startDate');
+		const endDate = parseDate(req.query.get('endDate'), 'endDate');
+		const category = req.query.get('category');
+
+		const expenses = store.list(
+			'expenses',
+			(expense) =>
+				accountIds.has(expense.accountId) &&
+				(!startDate || expense.date >= startDate) &&
+				(!endDate || expense.date <= endDate) &&
+				(!category || expense.category === category)
+		);
+
+		const amountOf = (expense: (typeof expenses)[number]) =>
+			expense.amountInBaseCurrency ?? expense.amount;
+
+		const byCategory: Record<string, number> = {};
+		const byMonth: Record<string, number> = {};
+		let total = 0;
+
+		expenses.forEach((expense) => {
+			const amount = amountOf(expense);
+			total += amount;
+			byCategory[expense.category] =
+				(byCategory[expense.category] || 0) + amount;
+			const month = expense.date.slice(0, 7);
+			byMonth[month] = (byMonth[month] || 0) + amount;
+		});
+
+		return {
+			total,
+			count: expenses.length,
+			average: expenses.length > 0 ? total / expenses.length : 0,
+			byCategory: Object.entries(byCategory)
+				.map(([name, amount]) => ({
+					category: name,
+					amount,
+					percentage: total > 0 ? (amount / total) * 100 : 0,
+				}))
+				.sort((a, b) => b.amount - a.amount),
+			byMonth: Object.entries(byMonth)
+				.map(([month, amount]) => ({ month, amount }))
+				.sort((a, b) => a.month.localeCompare(b.month)),
+			topExpenses: [...expenses]
+				.sort((a, b) => amountOf(b) - amountOf(a))
+				.slice(0, TOP_EXPENSE_COUNT),
+		};
+	});
+};
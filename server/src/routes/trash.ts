@@ -0,0 +1,99 @@
+import { Datastore } from '../datastore';
+import { ApiRequest, Router } from '../http';
+import { Budget, Expense, TrashItem } from '../types';
+import { notFound, paginate, requireAccount } from './helpers';
+
+// Days a deleted item can be restored before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const actorOf = (req: ApiRequest) => ({
+	uid: req.user.uid,
+	displayName: req.user.displayName || req.user.email || '',
+});
+
+/**
+ * Replace a deleted expense or budget with a trash item
+ * @param store - Datastore
+ * @param req - The delete request
+ * @param collection - Collection the document is deleted from
+ * @param doc - The document
+ */
+export const moveToTrash = (
+	store: Datastore,
+	req: ApiRequest,
+	collection: TrashItem['collection'],
+	doc: Expense | Budget
+) => {
+	const deletedAt = new Date();
+	store.insert(
+		'trash',
+		{
+			accountId: doc.accountId,
+			collection,
+			docId: doc.id,
+			label: 'description' in doc ? doc.description : doc.name,
+			data: doc,
+			deletedAt: deletedAt.toISOString(),
+			deletedBy: actorOf(req),
+			purgeAt: new Date(
+				deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS
+			).toISOString(),
+		},
+		`${collection}_${doc.id}`
+	);
+	store.remove(collection, doc.id);
+};
+
+export const registerTrashRoutes = (router: Router, store: Datastore) => {
+	const findItem = (id: string, uid: string, minRole: 'member' | 'admin') => {
+		const item = store.get('trash', id);
+		if (!item) throw notFound('Trash item');
+		requireAccount(store, item.accountId, uid, minRole);
+		return item;
+	};
+
+	// Expired items are purged as the trash is read
+	router.get('/accounts/:accountId/trash', (req) => {
+		const account = requireAccount(store, req.params.accountId, req.user.uid);
+		const now = new Date().toISOString();
+
+		const items = store.list('trash', (item) => item.accountId === account.id);
+		items
+			.filter((item) => item.purgeAt <= now)
+			.forEach((item) => store.remove('trash', item.id));
+
+		return paginate(
+			req,
+			items.filter((item) => item.purgeAt > now),
+			'deletedAt'
+		);
+	});
+
+	router.post('/trash/:id/restore', (req) => {
+		const item = findItem(req.params.id, req.user.uid, 'member');
+
+		store.insert(item.collection, item.data, item.docId);
+		store.remove('trash', item.id);
+
+		if (item.collection === 'expenses') {
+			store.insert('expenseHistory', {
+				accountId: item.accountId,
+				expenseId: item.docId,
+				action: 'restore',
+				actor: actorOf(req),
+				at: new Date().toISOString(),
+				changes: [],
+				snapshot: item.data as Expense,
+			});
+		}
+		return item.data;
+	});
+
+	// Only admins can delete for good
+	router.delete('/trash/:id', (req) => {
+		const item = findItem(req.params.id, req.user.uid, 'admin');
+		store.remove('trash', item.id);
+	});
+};
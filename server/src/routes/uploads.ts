@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { Router, RawResponse } from '../http';
+import { badRequest, notFound } from './helpers';
+
+const CONTENT_TYPES: Record<string, string> = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.pdf': 'application/pdf',
+};
+
+// Folder names are used as path segments, so keep them to a safe set
+const SAFE_SEGMENT = /^[a-zA-Z0-9_-]+$/;
+
+export const registerUploadRoutes = (router: Router) => {
+	// Target of ApiService.uploadFile; `kind` is e.g. `receipts` or `avatars`
+	router.post('/uploads/:kind', (req) => {
+		const { kind } = req.params;
+		if (!SAFE_SEGMENT.test(kind)) throw badRequest('Invalid upload type');
+
+		const file = req.files.find((f) => f.fieldName === 'file');
+		if (!file) throw badRequest('Expected a multipart "file" field');
+
+		const extension = path.extname(file.fileName).toLowerCase();
+		const name = `${randomUUID()}${CONTENT_TYPES[extension] ? extension : ''}`;
+		const directory = path.join(config.uploadDir, kind);
+
+		fs.mkdirSync(directory, { recursive: true });
+		fs.writeFileSync(path.join(directory, name), file.data);
+
+		return {
+			url: `${config.basePath}/uploads/${kind}/${name}`,
+			name: file.fileName,
+			size: file.data.length,
+			contentType: file.contentType,
+		};
+	});
+
+	// Public so files can be used in <img> tags; names are random UUIDs
+	router.get(
+		'/uploads/:kind/:name',
+		(req) => {
+			const { kind, name } = req.params;
+			if (!SAFE_SEGMENT.test(kind) || !/^[a-f0-9-]+(\.[a-z]+)?$/.test(name)) {
+				throw notFound('File');
+			}
+
+			const file = path.join(config.uploadDir, kind, name);
+			if (!fs.existsSync(file)) throw notFound('File');
+
+			return new RawResponse(
+				fs.readFileSync(file),
+				CONTENT_TYPES[path.extname(name)] || 'application/octet-stream'
+			);
+		},
+		{ public: true }
+	);
+};
@@ -0,0 +1,99 @@
+import { Datastore } from '../datastore';
+import { ApiRequest, HttpError, Router } from '../http';
+import { UserProfile } from '../types';
+import { notFound } from './helpers';
+
+const DEFAULT_PREFERENCES: UserProfile['preferences'] = {
+	darkMode: false,
+	language: 'en',
+	currencyDisplay: 'USD',
+	notificationSettings: {
+		email: true,
+		push: true,
+		budgetAlerts: true,
+		expenseReminders: true,
+	},
+};
+
+// Shape of the client's User model; the auth user is reduced to its profile fields
+const toClientUser = (profile: UserProfile) => ({
+	firebaseUser: {
+		uid: profile.id,
+		email: profile.email,
+		displayName: profile.displayName,
+		photoURL: profile.photoURL,
+	},
+	preferences: profile.preferences,
+	accounts: profile.accounts,
+	createdAt: profile.createdAt,
+	updatedAt: profile.updatedAt,
+});
+
+const requireSelf = (req: ApiRequest) => {
+	if (req.params.userId !== req.user.uid) {
+		throw new HttpError(
+			403,
+			"Cannot access another user's profile",
+			'FORBIDDEN'
+		);
+	}
+};
+
+export const registerUserRoutes = (router: Router, store: Datastore) => {
+	// Create the caller's profile, or refresh it if it already exists
+	router.post('/users/profile', (req) => {
+		const body = req.body || {};
+		const authUser = body.firebaseUser || {};
+		const existing = store.get('users', req.user.uid);
+		const now = new Date().toISOString();
+
+		const profile: Omit<UserProfile, 'id'> = {
+			email: req.user.email || authUser.email || existing?.email || null,
+			displayName:
+				authUser.displayName ?? existing?.displayName ?? req.user.displayName,
+			photoURL: authUser.photoURL ?? existing?.photoURL ?? null,
+			accounts: existing?.accounts || [],
+			preferences: {
+				...DEFAULT_PREFERENCES,
+				...existing?.preferences,
+				...body.preferences,
+			},
+			createdAt: existing?.createdAt || now,
+			updatedAt: now,
+		};
+
+		return toClientUser(store.insert('users', profile, req.user.uid));
+	});
+
+	router.get('/users/:userId', (req) => {
+		requireSelf(req);
+		const profile = store.get('users', req.params.userId);
+		if (!profile) throw notFound('User profile');
+		return toClientUser(profile);
+	});
+
+	router.patch('/users/:userId', (req) => {
+		requireSelf(req);
+		const profile = store.get('users', req.params.userId);
+		if (!profile) throw notFound('User profile');
+
+		const body = req.body || {};
+		const authUser = body.firebaseUser || {};
+
+		return toClientUser(
+			store.update('users', profile.id, {
+				displayName: authUser.displayName ?? profile.displayName,
+				photoURL: authUser.photoURL ?? profile.photoURL,
+				preferences: {
+					...profile.preferences,
+					...body.preferences,
+					notificationSettings: {
+						...profile.preferences.notificationSettings,
+						...body.preferences?.notificationSettings,
+					},
+				},
+				updatedAt: new Date().toISOString(),
+			})
+		);
+	});
+};
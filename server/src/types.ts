@@ -0,0 +1,165 @@
+// Documents as stored by the reference server. Dates are ISO strings.
+
+import { CategoryRule } from '../../shared/categoryRules';
+import { ExpenseLineItem } from '../../shared/lineItems';
+import { ApprovalPolicy, ExpenseStatus } from '../../shared/approvals';
+
+export type Role = 'admin' | 'member' | 'viewer';
+
+export interface AuthenticatedUser {
+	uid: string;
+	email: string | null;
+	displayName: string | null;
+}
+
+export interface AccountMember {
+	uid: string;
+	email: string;
+	displayName: string;
+	role: Role;
+	joinedAt: string;
+}
+
+export interface Account {
+	id: string;
+	name: string;
+	description: string;
+	baseCurrency: string;
+	createdAt: string;
+	createdBy: string;
+	members: AccountMember[];
+	settings: {
+		theme: 'light' | 'dark' | 'system';
+		categories: string[];
+		defaultCategory: string;
+		// Expenses of members wait for an admin's approval
+		expenseApprovalRequired?: boolean;
+		approvalPolicy?: ApprovalPolicy;
+		categoryRules?: CategoryRule[];
+	};
+}
+
+export interface Expense {
+	id: string;
+	accountId: string;
+	amount: number;
+	category: string;
+	subcategory?: string;
+	description: string;
+	date: string;
+	currency: string;
+	exchangeRate: number;
+	amountInBaseCurrency: number;
+	// Parts of an itemized expense, each counted in its own category
+	lineItems?: ExpenseLineItem[];
+	// Only set in accounts that require approval; expenses without a status
+	// count as approved
+	status?: ExpenseStatus;
+	// Refunds and credits have a negative amount; a refund can name the
+	// expense it gives money back for
+	refundOf?: string;
+	tags: string[];
+	notes?: string;
+	// Card, account or cash the expense was paid with
+	paymentMethodId?: string;
+	receiptUrls: string[];
+	// Expenses a member confirmed this one is not a duplicate of
+	notDuplicateOf?: string[];
+	createdAt: string;
+	updatedAt: string;
+	createdBy: {
+		uid: string;
+		displayName: string;
+	};
+	updatedBy?: {
+		uid: string;
+		displayName: string;
+	};
+}
+
+export interface Budget {
+	id: string;
+	accountId: string;
+	userId: string;
+	name: string;
+	amount: number;
+	category: string;
+	startDate: string;
+	endDate: string;
+	isRecurring: boolean;
+	recurringPeriod?: 'weekly' | 'monthly' | 'quarterly' | 'annually';
+	isActive: boolean;
+	notes?: string;
+	createdAt: string;
+	updatedAt: string;
+	createdBy: {
+		uid: string;
+		displayName: string;
+	};
+	updatedBy?: {
+		uid: string;
+		displayName: string;
+	};
+}
+
+export interface UserProfile {
+	id: string;
+	email: string | null;
+	displayName: string | null;
+	photoURL: string | null;
+	accounts: string[];
+	preferences: {
+		darkMode: boolean;
+		language: string;
+		currencyDisplay: string;
+		notificationSettings: {
+			email: boolean;
+			push: boolean;
+			budgetAlerts: boolean;
+			expenseReminders: boolean;
+		};
+	};
+	createdAt: string;
+	updatedAt: string;
+}
+
+// Immutable record of one change to an expense
+export interface ExpenseHistoryEntry {
+	id: string;
+	accountId: string;
+	expenseId: string;
+	action: 'create' | 'update' | 'delete' | 'restore';
+	actor: {
+		uid: string;
+		displayName: string;
+	};
+	at: string;
+	changes: { field: string; before: unknown; after: unknown }[];
+	// The expense after the change (before it, for deletes)
+	snapshot: Partial<Expense>;
+}
+
+// A deleted expense or budget, kept until purgeAt so it can be restored
+export interface TrashItem {
+	id: string;
+	accountId: string;
+	collection: 'expenses' | 'budgets';
+	docId: string;
+	label: string;
+	data: Expense | Budget;
+	deletedAt: string;
+	deletedBy: {
+		uid: string;
+		displayName: string;
+	};
+	purgeAt: string;
+}
+
+export interface Collections {
+	users: UserProfile;
+	accounts: Account;
+	expenses: Expense;
+	budgets: Budget;
+	expenseHistory: ExpenseHistoryEntry;
+	trash: TrashItem;
+}
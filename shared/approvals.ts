@@ -0,0 +1,133 @@
+// shared/approvals.ts
+/*
+ * Expense approval rules: the status an expense starts in, when a change
+ * sends it back for review, and whether it counts towards budgets.
+ *
+ * Accounts that require approval give their members' expenses a status:
+ * admins' own expenses and those the account's policy allows are approved
+ * right away, others wait as pending. Pending and rejected expenses don't
+ * count towards budgets; expenses without a status count as approved.
+ */
+
+export type ExpenseStatus = 'pending' | 'approved' | 'rejected';
+
+// Expenses that are approved without waiting for an admin
+export interface ApprovalPolicy {
+	// In the account's base currency; expenses below it are approved
+	autoApproveBelow?: number | null;
+	// Expenses in these categories are approved whatever their amount
+	autoApproveCategories?: string[] | null;
+}
+
+// What the rules look at in an account
+export interface ApprovalAccount {
+	members: Array<{ uid: string; role: string }>;
+	settings: {
+		expenseApprovalRequired?: boolean | null;
+		approvalPolicy?: ApprovalPolicy | null;
+	};
+}
+
+export interface ApprovalCandidate {
+	amountInBaseCurrency: number;
+	category: string;
+}
+
+// Changes that make an approved expense need another look; exchange rates
+// are left out since re-saving picks up the latest rate
+export const REVIEWED_FIELDS = [
+	'amount',
+	'currency',
+	'category',
+	'lineItems',
+] as const;
+
+type ReviewedField = (typeof REVIEWED_FIELDS)[number];
+
+/**
+ * Rules of the expense approval workflow
+ */
+export class ExpenseApprovals {
+	/**
+	 * Check whether a member may approve and reject expenses
+	 * @param account - Account the expenses belong to
+	 * @param uid - Member's user id
+	 */
+	static isApprover(
+		account: Pick<ApprovalAccount, 'members'>,
+		uid?: string
+	): boolean {
+		return account.members.some(
+			(member) => member.uid === uid && member.role === 'admin'
+		);
+	}
+
+	/**
+	 * Check whether an account asks for expenses to be approved
+	 */
+	static isRequired(account: Pick<ApprovalAccount, 'settings'>): boolean {
+		return Boolean(account.settings.expenseApprovalRequired);
+	}
+
+	/**
+	 * Get the status a new or changed expense starts with
+	 * @param account - Account the expense belongs to
+	 * @param expense - Expense being saved
+	 * @param uid - Member who submitted it
+	 * @returns The status, or undefined if the account doesn't use approval
+	 */
+	static getInitialStatus(
+		account: ApprovalAccount,
+		expense: ApprovalCandidate,
+		uid?: string
+	): ExpenseStatus | undefined {
+		if (!ExpenseApprovals.isRequired(account)) return undefined;
+
+		const policy = account.settings.approvalPolicy;
+		const autoApproved =
+			ExpenseApprovals.isApprover(account, uid) ||
+			(policy?.autoApproveBelow != null &&
+				expense.amountInBaseCurrency < policy.autoApproveBelow) ||
+			Boolean(policy?.autoApproveCategories?.includes(expense.category));
+		return autoApproved ? 'approved' : 'pending';
+	}
+
+	/**
+	 * Check whether an update sends an expense back for approval
+	 * Rejected expenses are resubmitted by any change; approved ones only
+	 * when what they cost or where they count changes.
+	 * @param expense - Expense before the update
+	 * @param updates - Fields being changed
+	 */
+	static needsReviewAfter(
+		expense: { status?: ExpenseStatus | null } & Partial<
+			Record<ReviewedField, unknown>
+		>,
+		updates: Record<string, unknown>
+	): boolean {
+		if (!expense.status) return false;
+		if (expense.status === 'rejected') return true;
+		return REVIEWED_FIELDS.some(
+			(field) =>
+				updates[field] !== undefined &&
+				JSON.stringify(updates[field] ?? null) !==
+					JSON.stringify(expense[field] ?? null)
+		);
+	}
+
+	/**
+	 * Check whether an expense counts towards budgets
+	 */
+	static isApproved(expense: { status?: ExpenseStatus | null }): boolean {
+		return !expense.status || expense.status === 'approved';
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	isApprover: isExpenseApprover,
+	isRequired: isExpenseApprovalRequired,
+	getInitialStatus: getInitialExpenseStatus,
+	needsReviewAfter: expenseNeedsReviewAfter,
+	isApproved: isExpenseApproved,
+} = ExpenseApprovals;
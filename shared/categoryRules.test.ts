@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { CategoryRule, CategoryRules } from './categoryRules';
+
+const rule = (overrides: Partial<CategoryRule> = {}): CategoryRule => ({
+	id: 'uber',
+	name: 'Rides',
+	priority: 1,
+	enabled: true,
+	conditions: [{ field: 'description', operator: 'contains', value: 'uber' }],
+	category: 'Transportation',
+	tags: ['ride'],
+	...overrides,
+});
+
+const expense = {
+	description: 'UBER *TRIP 1234',
+	amountInBaseCurrency: 18.5,
+	paymentMethodId: 'card',
+};
+
+describe('CategoryRules.validate', () => {
+	it('accepts a complete rule', () => {
+		expect(CategoryRules.validate(rule())).toEqual([]);
+	});
+
+	it('reports missing fields and bad values', () => {
+		expect(
+			CategoryRules.validate(
+				rule({
+					name: ' ',
+					category: '',
+					conditions: [
+						{ field: 'amount', operator: 'contains', value: '5' },
+						{ field: 'amount', operator: '<', value: 'five' },
+						{ field: 'description', operator: 'matches', value: '(' },
+						{ field: 'paymentMethod', operator: '=', value: '' },
+					],
+				})
+			)
+		).toEqual([
+			'Give the rule a name',
+			'Choose the category the rule sets',
+			'"contains" can\'t be used with amount',
+			'"five" is not an amount',
+			'"(" is not a valid pattern',
+			'Enter a value for the paymentMethod condition',
+		]);
+	});
+
+	it('needs a condition', () => {
+		expect(CategoryRules.validate(rule({ conditions: [] }))).toEqual([
+			'Add at least one condition',
+		]);
+	});
+});
+
+describe('CategoryRules.matches', () => {
+	it('compares descriptions without case', () => {
+		expect(CategoryRules.matches(rule(), expense)).toBe(true);
+		expect(
+			CategoryRules.matches(
+				rule({
+					conditions: [
+						{ field: 'description', operator: 'matches', value: '^uber\\b' },
+					],
+				}),
+				expense
+			)
+		).toBe(true);
+		expect(
+			CategoryRules.matches(
+				rule({
+					conditions: [{ field: 'description', operator: '=', value: 'uber' }],
+				}),
+				expense
+			)
+		).toBe(false);
+	});
+
+	it('compares amounts in the base currency', () => {
+		const below = (value: string) =>
+			rule({ conditions: [{ field: 'amount', operator: '<', value }] });
+
+		expect(CategoryRules.matches(below('20'), expense)).toBe(true);
+		expect(CategoryRules.matches(below('18.5'), expense)).toBe(false);
+		expect(
+			CategoryRules.matches(
+				rule({
+					conditions: [{ field: 'amount', operator: '=', value: '18.50' }],
+				}),
+				expense
+			)
+		).toBe(true);
+	});
+
+	it('compares refunds by their size', () => {
+		const below = (value: string) =>
+			rule({ conditions: [{ field: 'amount', operator: '<', value }] });
+		const refund = { ...expense, amountInBaseCurrency: -18.5 };
+
+		expect(CategoryRules.matches(below('5'), refund)).toBe(false);
+		expect(CategoryRules.matches(below('20'), refund)).toBe(true);
+	});
+
+	it('compares payment methods', () => {
+		const paidWith = rule({
+			conditions: [{ field: 'paymentMethod', operator: '=', value: 'card' }],
+		});
+
+		expect(CategoryRules.matches(paidWith, expense)).toBe(true);
+		expect(
+			CategoryRules.matches(paidWith, { ...expense, paymentMethodId: null })
+		).toBe(false);
+	});
+
+	it('needs every condition to match', () => {
+		expect(
+			CategoryRules.matches(
+				rule({
+					conditions: [
+						{ field: 'description', operator: 'contains', value: 'uber' },
+						{ field: 'amount', operator: '>', value: '50' },
+					],
+				}),
+				expense
+			)
+		).toBe(false);
+	});
+});
+
+describe('CategoryRules.apply', () => {
+	it('applies the first enabled rule by priority', () => {
+		const cash = rule({
+			id: 'cash',
+			name: 'Card rides',
+			priority: 0,
+			conditions: [{ field: 'paymentMethod', operator: '=', value: 'card' }],
+			category: 'Business',
+			tags: null,
+		});
+		const disabled = rule({ id: 'off', priority: -1, enabled: false });
+
+		expect(CategoryRules.apply([rule(), cash, disabled], expense)).toEqual({
+			rule: cash,
+			category: 'Business',
+			tags: [],
+		});
+	});
+
+	it('returns null when nothing matches', () => {
+		expect(
+			CategoryRules.apply([rule()], { ...expense, description: 'Lyft' })
+		).toBeNull();
+		expect(CategoryRules.apply(undefined, expense)).toBeNull();
+	});
+});
@@ -0,0 +1,195 @@
+// shared/categoryRules.ts
+/*
+ * Auto-categorization rules, which file an expense in a category and tag it
+ * from its description, amount and payment method:
+ *
+ *   description matches "uber"          → Transportation, tag ride
+ *   amount < 5 and payment method = cash → Snacks
+ *
+ * Rules are kept in the account's settings. Enabled rules are tried in
+ * order of priority, lowest number first, and the first one whose
+ * conditions all match is applied.
+ */
+
+export type CategoryRuleField = 'description' | 'amount' | 'paymentMethod';
+
+export type CategoryRuleOperator =
+	| 'contains'
+	| 'matches'
+	| '='
+	| '>'
+	| '>='
+	| '<'
+	| '<=';
+
+export interface CategoryRuleCondition {
+	field: CategoryRuleField;
+	operator: CategoryRuleOperator;
+	// Text, a regular expression, an amount or a payment method id
+	value: string;
+}
+
+export interface CategoryRule {
+	id: string;
+	name: string;
+	// Lower numbers are tried first
+	priority: number;
+	enabled: boolean;
+	// All must match
+	conditions: CategoryRuleCondition[];
+	category: string;
+	// Added to the expense's tags
+	tags?: string[] | null;
+}
+
+// What a rule looks at in an expense
+export interface CategorizableExpense {
+	description: string;
+	// Conditions on the amount use the account's base currency, and the size
+	// of refunds
+	amountInBaseCurrency: number;
+	paymentMethodId?: string | null;
+}
+
+export interface CategoryRuleResult {
+	rule: CategoryRule;
+	category: string;
+	tags: string[];
+}
+
+// Operators each field can be compared with
+export const CATEGORY_RULE_OPERATORS: Record<
+	CategoryRuleField,
+	CategoryRuleOperator[]
+> = {
+	description: ['contains', 'matches', '='],
+	amount: ['<', '<=', '=', '>=', '>'],
+	paymentMethod: ['='],
+};
+
+const toRegExp = (pattern: string): RegExp | null => {
+	try {
+		return new RegExp(pattern, 'i');
+	} catch {
+		return null;
+	}
+};
+
+const matchesCondition = (
+	condition: CategoryRuleCondition,
+	expense: CategorizableExpense
+): boolean => {
+	const { field, operator, value } = condition;
+
+	if (field === 'paymentMethod') {
+		return (expense.paymentMethodId || '') === value;
+	}
+
+	if (field === 'amount') {
+		// Refunds are negative; they are compared by size like what they refund
+		const amount = Math.abs(expense.amountInBaseCurrency);
+		const limit = parseFloat(value);
+		if (!Number.isFinite(limit)) return false;
+		switch (operator) {
+			case '<':
+				return amount < limit;
+			case '<=':
+				return amount <= limit;
+			case '>':
+				return amount > limit;
+			case '>=':
+				return amount >= limit;
+			default:
+				return Math.abs(amount - limit) < 0.005;
+		}
+	}
+
+	const description = expense.description.trim().toLowerCase();
+	switch (operator) {
+		case 'contains':
+			return description.includes(value.trim().toLowerCase());
+		case 'matches':
+			return toRegExp(value)?.test(expense.description) ?? false;
+		default:
+			return description === value.trim().toLowerCase();
+	}
+};
+
+/**
+ * Evaluator for auto-categorization rules
+ */
+export class CategoryRules {
+	/**
+	 * Check a rule for mistakes
+	 * @returns Problems with the rule; empty when it can be saved
+	 */
+	static validate(rule: Omit<CategoryRule, 'id'>): string[] {
+		const errors: string[] = [];
+		if (!rule.name.trim()) errors.push('Give the rule a name');
+		if (!rule.category) errors.push('Choose the category the rule sets');
+		if (rule.conditions.length === 0) {
+			errors.push('Add at least one condition');
+		}
+
+		rule.conditions.forEach(({ field, operator, value }) => {
+			if (!CATEGORY_RULE_OPERATORS[field]?.includes(operator)) {
+				errors.push(`"${operator}" can't be used with ${field}`);
+			} else if (!value.trim()) {
+				errors.push(`Enter a value for the ${field} condition`);
+			} else if (field === 'amount' && !Number.isFinite(parseFloat(value))) {
+				errors.push(`"${value}" is not an amount`);
+			} else if (operator === 'matches' && !toRegExp(value)) {
+				errors.push(`"${value}" is not a valid pattern`);
+			}
+		});
+
+		return errors;
+	}
+
+	/**
+	 * Check whether every condition of a rule matches an expense
+	 * Disabled rules still match, so they can be previewed.
+	 */
+	static matches(rule: CategoryRule, expense: CategorizableExpense): boolean {
+		return (
+			rule.conditions.length > 0 &&
+			rule.conditions.every((condition) => matchesCondition(condition, expense))
+		);
+	}
+
+	/**
+	 * Sort rules in the order they are tried
+	 */
+	static sort<T extends CategoryRule>(rules: T[]): T[] {
+		return [...rules].sort(
+			(a, b) => a.priority - b.priority || a.name.localeCompare(b.name)
+		);
+	}
+
+	/**
+	 * Find the rule that applies to an expense
+	 * @param rules - Rules of the account
+	 * @param expense - Expense being created or filed
+	 * @returns The category and tags to give the expense, or null when no
+	 * enabled rule matches
+	 */
+	static apply(
+		rules: CategoryRule[] | null | undefined,
+		expense: CategorizableExpense
+	): CategoryRuleResult | null {
+		const rule = CategoryRules.sort(rules || []).find(
+			(item) => item.enabled && CategoryRules.matches(item, expense)
+		);
+		return rule
+			? { rule, category: rule.category, tags: rule.tags || [] }
+			: null;
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	validate: validateCategoryRule,
+	matches: matchesCategoryRule,
+	sort: sortCategoryRules,
+	apply: applyCategoryRules,
+} = CategoryRules;
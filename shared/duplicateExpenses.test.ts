@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { DuplicateCandidate, ExpenseDuplicates } from './duplicateExpenses';
+
+const expense = (
+	overrides: Partial<DuplicateCandidate> = {}
+): DuplicateCandidate => ({
+	id: 'a',
+	description: 'Starbucks',
+	amountInBaseCurrency: 100,
+	date: '2024-06-10T12:00:00.000Z',
+	...overrides,
+});
+
+describe('ExpenseDuplicates.similarity', () => {
+	it('compares the words of the shorter description', () => {
+		expect(
+			ExpenseDuplicates.similarity('Starbucks', 'STARBUCKS #1234 SEATTLE')
+		).toBe(1);
+		expect(
+			ExpenseDuplicates.similarity('Lunch at Joe', 'Dinner at Joe')
+		).toBeCloseTo(2 / 3);
+		expect(ExpenseDuplicates.similarity('Taxi', 'Train')).toBe(0);
+	});
+
+	it('compares descriptions without words as they are', () => {
+		expect(ExpenseDuplicates.similarity('#42', ' #42 ')).toBe(1);
+		expect(ExpenseDuplicates.similarity('#42', '#43')).toBe(0);
+	});
+});
+
+describe('ExpenseDuplicates.isLikelyDuplicate', () => {
+	it('matches close amounts a few days apart', () => {
+		expect(
+			ExpenseDuplicates.isLikelyDuplicate(
+				expense(),
+				expense({
+					id: 'b',
+					description: 'STARBUCKS #1234',
+					amountInBaseCurrency: 100.99,
+					date: '2024-06-13T12:00:00.000Z',
+				})
+			)
+		).toBe(true);
+	});
+
+	it('rejects different amounts, far apart dates and descriptions', () => {
+		const other = (overrides: Partial<DuplicateCandidate>) =>
+			ExpenseDuplicates.isLikelyDuplicate(
+				expense(),
+				expense({ id: 'b', ...overrides })
+			);
+
+		expect(other({ amountInBaseCurrency: 101.5 })).toBe(false);
+		expect(other({ date: '2024-06-13T12:00:01.000Z' })).toBe(false);
+		expect(other({ description: 'Shell' })).toBe(false);
+	});
+
+	it('uses the merchant check when descriptions differ', () => {
+		expect(
+			ExpenseDuplicates.isLikelyDuplicate(
+				expense(),
+				expense({ id: 'b', description: 'SBUX 0042' }),
+				{ sameMerchant: () => true }
+			)
+		).toBe(true);
+	});
+
+	it('never matches an expense itself or a dismissed pair', () => {
+		expect(ExpenseDuplicates.isLikelyDuplicate(expense(), expense())).toBe(
+			false
+		);
+		expect(
+			ExpenseDuplicates.isLikelyDuplicate(
+				expense({ notDuplicateOf: ['b'] }),
+				expense({ id: 'b' })
+			)
+		).toBe(false);
+	});
+});
+
+describe('ExpenseDuplicates.getDateRange', () => {
+	it('covers the days a duplicate can fall on', () => {
+		const { from, to } = ExpenseDuplicates.getDateRange(expense().date);
+
+		expect(from).toEqual(new Date('2024-06-07T12:00:00.000Z'));
+		expect(to).toEqual(new Date('2024-06-13T12:00:00.000Z'));
+		[from, to].forEach((date) =>
+			expect(
+				ExpenseDuplicates.isLikelyDuplicate(
+					expense(),
+					expense({ id: 'b', date })
+				)
+			).toBe(true)
+		);
+	});
+});
+
+describe('ExpenseDuplicates.find and findPairs', () => {
+	const expenses = [
+		expense(),
+		expense({ id: 'b', date: '2024-06-11T12:00:00.000Z' }),
+		expense({ id: 'c', date: '2024-06-20T12:00:00.000Z' }),
+		expense({ id: 'd', date: '2024-06-21T12:00:00.000Z' }),
+		expense({
+			id: 'e',
+			description: 'Shell',
+			date: '2024-06-11T12:00:00.000Z',
+		}),
+	];
+
+	it('finds the duplicates of one expense', () => {
+		expect(
+			ExpenseDuplicates.find(expense({ id: 'new' }), expenses).map(
+				({ id }) => id
+			)
+		).toEqual(['a', 'b']);
+	});
+
+	it('pairs duplicates, most recent first', () => {
+		expect(
+			ExpenseDuplicates.findPairs(expenses).map(([first, second]) => [
+				first.id,
+				second.id,
+			])
+		).toEqual([
+			['c', 'd'],
+			['a', 'b'],
+		]);
+	});
+});
@@ -0,0 +1,168 @@
+// shared/duplicateExpenses.ts
+/*
+ * Detection of expenses entered twice, such as one purchase entered by two
+ * members, or typed in and then imported.
+ *
+ * Two expenses are likely duplicates when their amounts in the base
+ * currency are within a cent or 1% of each other, their dates are at most
+ * three days apart and their descriptions share most of their words, or
+ * they are at the same merchant.
+ */
+
+// What duplicate detection looks at in an expense
+export interface DuplicateCandidate {
+	id?: string;
+	description: string;
+	amountInBaseCurrency: number;
+	// Dates are ISO strings on the server
+	date: Date | string;
+	// Expenses a member confirmed this one is not a duplicate of
+	notDuplicateOf?: string[] | null;
+}
+
+export interface DuplicateOptions {
+	// Whether two descriptions name the same merchant, when merchants are
+	// known
+	sameMerchant?: (a: string, b: string) => boolean;
+}
+
+// Share of the larger amount two amounts may differ by
+const AMOUNT_TOLERANCE = 0.01;
+// Smallest difference always allowed, for rounding
+const MIN_AMOUNT_DIFFERENCE = 0.01;
+const MAX_DAYS_APART = 3;
+// Share of the shorter description's words the other must have
+const MIN_WORD_OVERLAP = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words of a description, without store numbers, references and case
+const toWords = (description: string): Set<string> =>
+	new Set(
+		description
+			.toLowerCase()
+			.split(/[^\p{L}\p{N}]+/u)
+			.filter((word) => word && !/\d/.test(word))
+	);
+
+const toTime = (date: Date | string) => new Date(date).getTime();
+
+/**
+ * Detector for expenses entered more than once
+ */
+export class ExpenseDuplicates {
+	/**
+	 * Get how alike two descriptions are, from 0 to 1
+	 * The share of the shorter description's words the other one has, so
+	 * "Starbucks" and "STARBUCKS #1234 SEATTLE" count as alike.
+	 */
+	static similarity(a: string, b: string): number {
+		const wordsA = toWords(a);
+		const wordsB = toWords(b);
+		if (wordsA.size === 0 || wordsB.size === 0) {
+			return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+		}
+		const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+		return shared / Math.min(wordsA.size, wordsB.size);
+	}
+
+	/**
+	 * Check whether two expenses are likely the same one entered twice
+	 * Pairs a member has dismissed never are.
+	 */
+	static isLikelyDuplicate(
+		a: DuplicateCandidate,
+		b: DuplicateCandidate,
+		options: DuplicateOptions = {}
+	): boolean {
+		if (a.id && b.id) {
+			if (a.id === b.id) return false;
+			if (a.notDuplicateOf?.includes(b.id) || b.notDuplicateOf?.includes(a.id))
+				return false;
+		}
+
+		const amountA = a.amountInBaseCurrency;
+		const amountB = b.amountInBaseCurrency;
+		const tolerance = Math.max(
+			MIN_AMOUNT_DIFFERENCE,
+			Math.max(Math.abs(amountA), Math.abs(amountB)) * AMOUNT_TOLERANCE
+		);
+		if (Math.abs(amountA - amountB) > tolerance + 1e-9) return false;
+
+		if (Math.abs(toTime(a.date) - toTime(b.date)) > MAX_DAYS_APART * DAY_MS) {
+			return false;
+		}
+
+		return (
+			ExpenseDuplicates.similarity(a.description, b.description) >=
+				MIN_WORD_OVERLAP ||
+			(options.sameMerchant?.(a.description, b.description) ?? false)
+		);
+	}
+
+	/**
+	 * Find the expenses a new or changed expense likely duplicates
+	 * @param expense - Expense being saved
+	 * @param expenses - Expenses of the account
+	 */
+	static find<T extends DuplicateCandidate>(
+		expense: DuplicateCandidate,
+		expenses: T[],
+		options: DuplicateOptions = {}
+	): T[] {
+		return expenses.filter((other) =>
+			ExpenseDuplicates.isLikelyDuplicate(expense, other, options)
+		);
+	}
+
+	/**
+	 * Get the dates an expense's duplicates fall between, so only the
+	 * expenses of those days need to be loaded for find()
+	 * @param date - Date of the expense being saved
+	 */
+	static getDateRange(date: Date | string): { from: Date; to: Date } {
+		return {
+			from: new Date(toTime(date) - MAX_DAYS_APART * DAY_MS),
+			to: new Date(toTime(date) + MAX_DAYS_APART * DAY_MS),
+		};
+	}
+
+	/**
+	 * Find every pair of likely duplicates among an account's expenses
+	 * @returns Pairs with the earlier dated expense first, most recent
+	 * pairs first
+	 */
+	static findPairs<T extends DuplicateCandidate>(
+		expenses: T[],
+		options: DuplicateOptions = {}
+	): [T, T][] {
+		// Only expenses a few days apart can match, so each is compared with
+		// those that follow it by date until one is too late
+		const byDate = [...expenses].sort(
+			(a, b) => toTime(a.date) - toTime(b.date)
+		);
+		const pairs: [T, T][] = [];
+
+		byDate.forEach((expense, index) => {
+			for (let next = index + 1; next < byDate.length; next++) {
+				const other = byDate[next];
+				if (toTime(other.date) - toTime(expense.date) > MAX_DAYS_APART * DAY_MS)
+					break;
+				if (ExpenseDuplicates.isLikelyDuplicate(expense, other, options)) {
+					pairs.push([expense, other]);
+				}
+			}
+		});
+
+		return pairs.reverse();
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	similarity: descriptionSimilarity,
+	isLikelyDuplicate: isLikelyDuplicateExpense,
+	find: findDuplicateExpenses,
+	getDateRange: getDuplicateDateRange,
+	findPairs: findDuplicateExpensePairs,
+} = ExpenseDuplicates;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { ExpenseQuery, SearchableExpense } from './expenseQuery';
+
+const expense = (
+	overrides: Partial<SearchableExpense> = {}
+): SearchableExpense => ({
+	amount: 40,
+	amountInBaseCurrency: 60,
+	currency: 'EUR',
+	category: 'Food',
+	description: 'Coffee beans',
+	notes: 'From the market',
+	tags: ['work', 'Groceries'],
+	date: new Date('2024-06-01T00:00:00Z'),
+	createdBy: { uid: 'alice-uid', displayName: 'Alice Smith' },
+	...overrides,
+});
+
+const matches = (query: string, item = expense()) =>
+	ExpenseQuery.matchesText(query, item);
+
+describe('ExpenseQuery.parse', () => {
+	it('reads fields, operators, negation and phrases', () => {
+		expect(
+			ExpenseQuery.parse(
+				'amount>=50 -tag:work "coffee beans" category:"Eating out"'
+			).terms
+		).toEqual([
+			{ field: 'amount', operator: '>=', value: '50', negated: false },
+			{ field: 'tag', operator: '=', value: 'work', negated: true },
+			{ field: 'text', operator: '=', value: 'coffee beans', negated: false },
+			{ field: 'category', operator: '=', value: 'Eating out', negated: false },
+		]);
+	});
+
+	it('reads unknown fields as text and skips unfinished terms', () => {
+		expect(ExpenseQuery.parse('note:x tag:').terms).toEqual([
+			{ field: 'text', operator: '=', value: 'note:x', negated: false },
+		]);
+	});
+
+	it('reports terms it cannot use', () => {
+		expect(
+			ExpenseQuery.parse('amount>lots tag>work before:June').errors
+		).toEqual([
+			'amount needs a number, e.g. amount>50',
+			"tag can't be compared with >",
+			'before needs a date like 2024-06-01',
+		]);
+	});
+});
+
+describe('ExpenseQuery.matches', () => {
+	it('compares amounts in the base currency', () => {
+		expect(matches('amount>50')).toBe(true);
+		expect(matches('amount<50')).toBe(false);
+		expect(matches('amount:60.00')).toBe(true);
+		expect(matches('amount:40')).toBe(false);
+	});
+
+	it('compares dates by their UTC day', () => {
+		const lateEvening = expense({ date: '2024-06-01T23:30:00.000Z' });
+
+		expect(matches('on:2024-06-01', lateEvening)).toBe(true);
+		expect(matches('after:2024-05-31', lateEvening)).toBe(true);
+		expect(matches('before:2024-06-02', lateEvening)).toBe(true);
+		expect(matches('before:2024-06-01', lateEvening)).toBe(false);
+		expect(matches('on:2024-06-01')).toBe(true);
+	});
+
+	it('compares text fields without case', () => {
+		expect(matches('category:food tag:groceries currency:eur')).toBe(true);
+		expect(matches('by:alice')).toBe(true);
+		expect(matches('by:alice-uid')).toBe(true);
+		expect(matches('by:bob')).toBe(false);
+	});
+
+	it('looks for words in the description, category, notes and tags', () => {
+		expect(matches('market')).toBe(true);
+		expect(matches('"coffee beans" work')).toBe(true);
+		expect(matches('tea')).toBe(false);
+	});
+
+	it('needs every term to match and negates with a minus', () => {
+		expect(matches('coffee -tag:work')).toBe(false);
+		expect(matches('coffee -tag:travel')).toBe(true);
+		expect(matches('')).toBe(true);
+	});
+});
+
+describe('ExpenseQuery.getSuggestions', () => {
+	const context = {
+		categories: ['Food', 'Fuel', 'Housing'],
+		tags: ['work'],
+		members: ['Alice Smith'],
+	};
+
+	it('suggests field names for plain words', () => {
+		expect(
+			ExpenseQuery.getSuggestions('-ta', 3, context).map(({ text }) => text)
+		).toEqual(['-tag:']);
+	});
+
+	it('suggests values for a field and applies them', () => {
+		const [suggestion, ...rest] = ExpenseQuery.getSuggestions(
+			'coffee category:f',
+			17,
+			context
+		);
+
+		expect([suggestion, ...rest].map(({ label }) => label)).toEqual([
+			'Food',
+			'Fuel',
+		]);
+		expect(
+			ExpenseQuery.applySuggestion('coffee category:f', suggestion)
+		).toEqual({ query: 'coffee category:Food ', cursor: 21 });
+	});
+
+	it('quotes values with spaces', () => {
+		expect(
+			ExpenseQuery.getSuggestions('by:ali', 6, context).map(({ text }) => text)
+		).toEqual(['by:"Alice Smith" ']);
+	});
+});
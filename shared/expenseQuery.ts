@@ -0,0 +1,372 @@
+// shared/expenseQuery.ts
+/*
+ * Search query language for expenses: parsing a query typed in the search
+ * box, matching expenses against it and suggesting completions.
+ *
+ *   amount>50 category:Food tag:work -tag:reimbursed before:2024-06-01
+ *   by:alice "coffee beans"
+ *
+ * Terms are separated by spaces and must all match. A leading `-` negates a
+ * term, quotes keep spaces in a phrase or value, and words without a field
+ * are looked for in the description, category, notes and tags. Amounts are
+ * compared in the account's base currency and dates by their UTC day, which
+ * is how date inputs store them, so the client and server agree on both.
+ */
+
+export type ExpenseQueryField =
+	| 'amount'
+	| 'category'
+	| 'tag'
+	| 'by'
+	| 'currency'
+	| 'before'
+	| 'after'
+	| 'on';
+
+export type ExpenseQueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export interface ExpenseQueryTerm {
+	// 'text' for words and phrases without a field
+	field: ExpenseQueryField | 'text';
+	operator: ExpenseQueryOperator;
+	value: string;
+	negated: boolean;
+}
+
+export interface ParsedExpenseQuery {
+	terms: ExpenseQueryTerm[];
+	// Terms that couldn't be understood; they are left out of the query
+	errors: string[];
+}
+
+// What the query looks at in an expense
+export interface SearchableExpense {
+	amount: number;
+	amountInBaseCurrency: number;
+	currency: string;
+	category: string;
+	description: string;
+	notes?: string | null;
+	tags?: string[] | null;
+	// Date, or an ISO string as stored by the server
+	date: Date | string;
+	createdBy: { uid: string; displayName: string };
+}
+
+export interface ExpenseQueryContext {
+	categories: string[];
+	tags: string[];
+	// Display names of the account's members
+	members: string[];
+}
+
+export interface ExpenseQuerySuggestion {
+	// Shown in the list
+	label: string;
+	description?: string;
+	// Replaces the text from start to end
+	text: string;
+	start: number;
+	end: number;
+}
+
+type FieldKind = 'number' | 'text' | 'date';
+
+const FIELDS: Record<
+	ExpenseQueryField,
+	{ kind: FieldKind; description: string }
+> = {
+	amount: {
+		kind: 'number',
+		description: 'Amount in the base currency, e.g. amount>50',
+	},
+	category: { kind: 'text', description: 'Category' },
+	tag: { kind: 'text', description: 'Has a tag' },
+	by: { kind: 'text', description: 'Added by a member' },
+	currency: { kind: 'text', description: 'Currency, e.g. currency:EUR' },
+	before: { kind: 'date', description: 'Before a date, e.g. 2024-06-01' },
+	after: { kind: 'date', description: 'After a date' },
+	on: { kind: 'date', description: 'On a date' },
+};
+
+const TERM_PATTERN = /^(-?)(?:([a-z]+)(>=|<=|:|=|>|<))?([\s\S]*)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SUGGESTIONS = 8;
+
+interface Token {
+	raw: string;
+	start: number;
+	end: number;
+}
+
+// Split on spaces outside quotes; an unclosed quote runs to the end
+const tokenize = (input: string): Token[] => {
+	const tokens: Token[] = [];
+	let index = 0;
+
+	while (index < input.length) {
+		if (/\s/.test(input[index])) {
+			index++;
+			continue;
+		}
+
+		const start = index;
+		let quoted = false;
+		while (index < input.length && (quoted || !/\s/.test(input[index]))) {
+			if (input[index] === '"') quoted = !quoted;
+			index++;
+		}
+		tokens.push({ raw: input.slice(start, index), start, end: index });
+	}
+
+	return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+const isField = (name: string): name is ExpenseQueryField =>
+	Object.prototype.hasOwnProperty.call(FIELDS, name);
+
+// Split a token into its parts; unknown fields are read as plain text
+const splitToken = (raw: string) => {
+	const [, minus, name = '', operator = '', rest] = raw.match(
+		TERM_PATTERN
+	) as RegExpMatchArray;
+	const field = name.toLowerCase();
+
+	return isField(field)
+		? { negated: minus === '-', field, operator, value: unquote(rest) }
+		: {
+				negated: minus === '-',
+				field: 'text' as const,
+				operator: '',
+				value: unquote(raw.slice(minus.length)),
+		  };
+};
+
+// Day of a date as YYYY-MM-DD, in UTC
+const toDayKey = (value: Date | string): string =>
+	(value instanceof Date ? value : new Date(value)).toISOString().slice(0, 10);
+
+const compare = (
+	left: number | string,
+	operator: ExpenseQueryOperator,
+	right: number | string
+): boolean => {
+	switch (operator) {
+		case '>':
+			return left > right;
+		case '>=':
+			return left >= right;
+		case '<':
+			return left < right;
+		case '<=':
+			return left <= right;
+		default:
+			return typeof left === 'number' && typeof right === 'number'
+				? Math.abs(left - right) < 0.005
+				: left === right;
+	}
+};
+
+/**
+ * Parser and evaluator for the expense search query language
+ */
+export class ExpenseQuery {
+	/**
+	 * Parse a search query
+	 * Terms still being typed (a field without a value) are skipped quietly.
+	 * @param input - Query as typed
+	 */
+	static parse(input: string): ParsedExpenseQuery {
+		const terms: ExpenseQueryTerm[] = [];
+		const errors: string[] = [];
+
+		tokenize(input).forEach((token) => {
+			const { negated, field, operator, value } = splitToken(token.raw);
+			if (!value) return;
+
+			if (field === 'text') {
+				terms.push({ field, operator: '=', value, negated });
+				return;
+			}
+
+			const { kind } = FIELDS[field];
+			const op: ExpenseQueryOperator =
+				operator === ':' ? '=' : (operator as ExpenseQueryOperator);
+			if (kind !== 'number' && op !== '=') {
+				errors.push(`${field} can't be compared with ${operator}`);
+			} else if (kind === 'number' && !Number.isFinite(Number(value))) {
+				errors.push(`${field} needs a number, e.g. ${field}>50`);
+			} else if (
+				kind === 'date' &&
+				!(DATE_PATTERN.test(value) && !isNaN(Date.parse(value)))
+			) {
+				errors.push(`${field} needs a date like 2024-06-01`);
+			} else {
+				terms.push({ field, operator: op, value, negated });
+			}
+		});
+
+		return { terms, errors };
+	}
+
+	/**
+	 * Check whether an expense matches every term of a query
+	 * @param query - Parsed query
+	 * @param expense - Expense to check
+	 */
+	static matches(
+		query: ParsedExpenseQuery,
+		expense: SearchableExpense
+	): boolean {
+		return query.terms.every(
+			(term) => ExpenseQuery.matchesTerm(term, expense) !== term.negated
+		);
+	}
+
+	/**
+	 * Check whether an expense matches a query as typed
+	 * @param input - Query as typed
+	 * @param expense - Expense to check
+	 */
+	static matchesText(input: string, expense: SearchableExpense): boolean {
+		return ExpenseQuery.matches(ExpenseQuery.parse(input), expense);
+	}
+
+	private static matchesTerm(
+		term: ExpenseQueryTerm,
+		expense: SearchableExpense
+	): boolean {
+		const value = term.value.toLowerCase();
+
+		switch (term.field) {
+			case 'amount':
+				return compare(
+					expense.amountInBaseCurrency,
+					term.operator,
+					Number(term.value)
+				);
+			case 'category':
+				return expense.category.toLowerCase() === value;
+			case 'tag':
+				return (expense.tags || []).some((tag) => tag.toLowerCase() === value);
+			case 'by':
+				return (
+					expense.createdBy.uid === term.value ||
+					expense.createdBy.displayName.toLowerCase().includes(value)
+				);
+			case 'currency':
+				return expense.currency.toLowerCase() === value;
+			case 'before':
+				return toDayKey(expense.date) < term.value;
+			case 'after':
+				return toDayKey(expense.date) > term.value;
+			case 'on':
+				return toDayKey(expense.date) === term.value;
+			default:
+				return [
+					expense.description,
+					expense.category,
+					expense.notes || '',
+					...(expense.tags || []),
+				]
+					.join(' ')
+					.toLowerCase()
+					.includes(value);
+		}
+	}
+
+	/**
+	 * Suggest how to complete the term at the cursor: field names, then the
+	 * categories, tags or members a field can take
+	 * @param input - Query as typed
+	 * @param cursor - Cursor position in the query
+	 * @param context - Values known for the account
+	 */
+	static getSuggestions(
+		input: string,
+		cursor: number,
+		context: ExpenseQueryContext
+	): ExpenseQuerySuggestion[] {
+		const token = tokenize(input).find(
+			(item) => item.start <= cursor && cursor <= item.end
+		) || { raw: '', start: cursor, end: cursor };
+		const { negated, field, operator, value } = splitToken(token.raw);
+		const minus = negated ? '-' : '';
+		const replace = (text: string) => ({
+			text,
+			start: token.start,
+			end: token.end,
+		});
+
+		if (field === 'text') {
+			const partial = value.toLowerCase();
+			return (Object.keys(FIELDS) as ExpenseQueryField[])
+				.filter((name) => name.startsWith(partial))
+				.map((name) => {
+					const text = `${minus}${name}${name === 'amount' ? '>' : ':'}`;
+					return {
+						label: text,
+						description: FIELDS[name].description,
+						...replace(text),
+					};
+				});
+		}
+
+		const values =
+			field === 'category'
+				? context.categories
+				: field === 'tag'
+				? context.tags
+				: field === 'by'
+				? context.members
+				: [];
+		const partial = value.toLowerCase();
+
+		return Array.from(new Set(values))
+			.filter(
+				(option) =>
+					option.toLowerCase().includes(partial) &&
+					option.toLowerCase() !== partial
+			)
+			.sort(
+				(a, b) =>
+					Number(!a.toLowerCase().startsWith(partial)) -
+						Number(!b.toLowerCase().startsWith(partial)) || a.localeCompare(b)
+			)
+			.slice(0, MAX_SUGGESTIONS)
+			.map((option) => ({
+				label: option,
+				...replace(`${minus}${field}${operator}${quote(option)} `),
+			}));
+	}
+
+	/**
+	 * Put a suggestion into the query
+	 * @returns The new query and where the cursor goes
+	 */
+	static applySuggestion(
+		input: string,
+		suggestion: ExpenseQuerySuggestion
+	): { query: string; cursor: number } {
+		return {
+			query:
+				input.slice(0, suggestion.start) +
+				suggestion.text +
+				input.slice(suggestion.end),
+			cursor: suggestion.start + suggestion.text.length,
+		};
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	parse: parseExpenseQuery,
+	matches: matchesExpenseQuery,
+	matchesText: matchesExpenseQueryText,
+	getSuggestions: getExpenseQuerySuggestions,
+	applySuggestion: applyExpenseQuerySuggestion,
+} = ExpenseQuery;
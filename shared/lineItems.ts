@@ -0,0 +1,123 @@
+// shared/lineItems.ts
+/*
+ * Line items of itemized expenses: checking that they add up, and the
+ * amount an expense counts in each category.
+ *
+ * Line items are in the expense's currency and must add up to its amount.
+ * An itemized expense counts in each line's category, converted at the
+ * expense's rate; one without line items counts in full in its own category.
+ */
+
+export interface ExpenseLineItem {
+	description: string;
+	// In the expense's currency
+	amount: number;
+	category: string;
+	tags?: string[] | null;
+	quantity?: number | null;
+	unitPrice?: number | null;
+}
+
+// What category totals look at in an expense
+export interface ItemizedExpense {
+	amount: number;
+	amountInBaseCurrency: number;
+	category: string;
+	lineItems?: ExpenseLineItem[] | null;
+}
+
+// Totals are compared in cents to avoid floating point drift
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Helpers for the line items of itemized expenses
+ */
+export class ExpenseLineItems {
+	/**
+	 * Check an expense's line items before it is saved
+	 * @param amount - Expense amount
+	 * @param lineItems - Line items of the expense
+	 * @returns A message describing the problem, or null if they are valid
+	 */
+	static validate(amount: number, lineItems: ExpenseLineItem[]): string | null {
+		if (lineItems.length === 0) return null;
+
+		for (const [index, item] of lineItems.entries()) {
+			if (!item.category) {
+				return `Choose a category for line ${index + 1}`;
+			}
+			if (!Number.isFinite(item.amount) || item.amount < 0) {
+				return `Line ${index + 1} needs an amount of zero or more`;
+			}
+			if (
+				item.quantity != null &&
+				item.unitPrice != null &&
+				toCents(item.quantity * item.unitPrice) !== toCents(item.amount)
+			) {
+				return `Line ${index + 1} doesn't match its quantity and unit price`;
+			}
+		}
+
+		const total = lineItems.reduce(
+			(sum, item) => sum + toCents(item.amount),
+			0
+		);
+		return total === toCents(amount)
+			? null
+			: `Line items add up to ${(total / 100).toFixed(2)}, not ${amount.toFixed(
+					2
+			  )}`;
+	}
+
+	/**
+	 * Get the amount an expense counts in each category, in the account's
+	 * base currency
+	 * @param expense - Expense to break down
+	 * @returns Amount per category
+	 */
+	static getCategoryAmounts(expense: ItemizedExpense): Record<string, number> {
+		if (!expense.lineItems?.length) {
+			return { [expense.category]: expense.amountInBaseCurrency };
+		}
+
+		// Line items are in the expense currency
+		const rate =
+			expense.amount !== 0 ? expense.amountInBaseCurrency / expense.amount : 0;
+		return expense.lineItems.reduce<Record<string, number>>((amounts, item) => {
+			amounts[item.category] =
+				(amounts[item.category] || 0) + item.amount * rate;
+			return amounts;
+		}, {});
+	}
+
+	/**
+	 * Get the amount an expense counts in one category
+	 * @param expense - Expense to check
+	 * @param category - Category name
+	 * @returns Amount in the account's base currency
+	 */
+	static getCategoryAmount(expense: ItemizedExpense, category: string): number {
+		return ExpenseLineItems.getCategoryAmounts(expense)[category] || 0;
+	}
+
+	/**
+	 * Get the categories an expense counts in
+	 * @param expense - Expense to check
+	 * @returns Category names
+	 */
+	static getCategories(
+		expense: Pick<ItemizedExpense, 'category' | 'lineItems'>
+	): string[] {
+		return expense.lineItems?.length
+			? Array.from(new Set(expense.lineItems.map((item) => item.category)))
+			: [expense.category];
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	validate: validateExpenseLineItems,
+	getCategoryAmounts: getExpenseCategoryAmounts,
+	getCategoryAmount: getExpenseCategoryAmount,
+	getCategories: getExpenseLineCategories,
+} = ExpenseLineItems;
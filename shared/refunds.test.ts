@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { ExpenseRefunds, RefundCandidate } from './refunds';
+
+const hotel: RefundCandidate = {
+	id: 'hotel',
+	description: 'Hotel',
+	amountInBaseCurrency: 300,
+};
+
+const refund = (id: string, amount: number, refundOf = 'hotel') => ({
+	id,
+	amountInBaseCurrency: -amount,
+	refundOf,
+});
+
+const expenses = [hotel, refund('deposit', 100), refund('other', 50, 'taxi')];
+
+describe('ExpenseRefunds.getRefunds and getNetAmount', () => {
+	it('nets out the refunds of an expense', () => {
+		expect(ExpenseRefunds.getRefunds(hotel, expenses)).toEqual([
+			refund('deposit', 100),
+		]);
+		expect(ExpenseRefunds.getNetAmount(hotel, expenses)).toBe(200);
+	});
+
+	it('finds no refunds for unsaved expenses', () => {
+		expect(ExpenseRefunds.getRefunds({}, expenses)).toEqual([]);
+	});
+});
+
+describe('ExpenseRefunds.validate', () => {
+	it('accepts refunds up to what the expense cost', () => {
+		expect(
+			ExpenseRefunds.validate(
+				{ amountInBaseCurrency: -200, refundOf: 'hotel' },
+				expenses
+			)
+		).toBeNull();
+		// Credits don't name an expense
+		expect(
+			ExpenseRefunds.validate({ amountInBaseCurrency: -20 }, expenses)
+		).toBeNull();
+	});
+
+	it('rejects refunds of more than is left', () => {
+		expect(
+			ExpenseRefunds.validate(
+				{ amountInBaseCurrency: -200.5, refundOf: 'hotel' },
+				expenses
+			)
+		).toBe(
+			'Refunds can\'t add up to more than "Hotel" cost; 200.00 is left to refund'
+		);
+	});
+
+	it('leaves out the refund being changed', () => {
+		expect(
+			ExpenseRefunds.validate(refund('deposit', 300), expenses)
+		).toBeNull();
+	});
+
+	it('checks what a refund is recorded against', () => {
+		expect(
+			ExpenseRefunds.validate(
+				{ amountInBaseCurrency: -10, refundOf: 'missing' },
+				expenses
+			)
+		).toBe('The refunded expense was not found');
+		expect(
+			ExpenseRefunds.validate(
+				{ amountInBaseCurrency: -10, refundOf: 'deposit' },
+				expenses
+			)
+		).toBe('Refunds can only be recorded against expenses');
+		expect(
+			ExpenseRefunds.validate(
+				{ amountInBaseCurrency: 10, refundOf: 'hotel' },
+				expenses
+			)
+		).toBe('A refund must be a negative amount');
+	});
+
+	it('keeps expenses above their refunds', () => {
+		expect(
+			ExpenseRefunds.validate({ ...hotel, amountInBaseCurrency: 99 }, expenses)
+		).toBe('Its refunds add up to 100.00, more than the new amount');
+		expect(
+			ExpenseRefunds.validate({ ...hotel, amountInBaseCurrency: -5 }, expenses)
+		).toBe("An expense with refunds can't become a refund");
+		expect(
+			ExpenseRefunds.validate({ ...hotel, amountInBaseCurrency: 100 }, expenses)
+		).toBeNull();
+	});
+});
@@ -0,0 +1,129 @@
+// shared/refunds.ts
+/*
+ * Refunds and credits: checking a refund against the expense it gives money
+ * back for, and an expense's amount net of its refunds.
+ *
+ * A refund is an expense with a negative amount, so every total, budget and
+ * chart that adds up amounts nets it out without knowing about refunds. It
+ * can name the expense it gives money back for with refundOf; refunds of an
+ * expense can't add up to more than it cost.
+ */
+
+// What refund checks look at in an expense
+export interface RefundCandidate {
+	id?: string;
+	description?: string;
+	amountInBaseCurrency: number;
+	// Expense the refund gives money back for
+	refundOf?: string | null;
+}
+
+// Smallest difference always allowed, for rounding
+const ROUNDING = 0.01;
+
+/**
+ * Helpers for refunds and the expenses they belong to
+ */
+export class ExpenseRefunds {
+	/**
+	 * Check whether an expense is a refund or credit
+	 */
+	static isRefund(expense: Pick<RefundCandidate, 'amountInBaseCurrency'>) {
+		return expense.amountInBaseCurrency < 0;
+	}
+
+	/**
+	 * Get the refunds recorded against an expense
+	 * @param expense - Original expense
+	 * @param expenses - Expenses of the account
+	 */
+	static getRefunds<T extends RefundCandidate>(
+		expense: Pick<RefundCandidate, 'id'>,
+		expenses: T[]
+	): T[] {
+		return expense.id
+			? expenses.filter((other) => other.refundOf === expense.id)
+			: [];
+	}
+
+	/**
+	 * Get how much of an expense was refunded, in the base currency
+	 */
+	static getRefunded(
+		expense: Pick<RefundCandidate, 'id'>,
+		expenses: RefundCandidate[]
+	): number {
+		return ExpenseRefunds.getRefunds(expense, expenses).reduce(
+			(sum, refund) => sum - refund.amountInBaseCurrency,
+			0
+		);
+	}
+
+	/**
+	 * Get what an expense cost after its refunds, in the base currency
+	 */
+	static getNetAmount(
+		expense: RefundCandidate,
+		expenses: RefundCandidate[]
+	): number {
+		return (
+			expense.amountInBaseCurrency -
+			ExpenseRefunds.getRefunded(expense, expenses)
+		);
+	}
+
+	/**
+	 * Check an expense or refund before it is saved
+	 * A refund can't take the expense it names over what it cost, and an
+	 * expense can't drop below its refunds.
+	 * @param expense - Expense being saved; its id is set when it is changed
+	 * @param expenses - Expenses of the account
+	 * @returns A problem with the expense, or null when it can be saved
+	 */
+	static validate(
+		expense: RefundCandidate,
+		expenses: RefundCandidate[]
+	): string | null {
+		const refunds = ExpenseRefunds.getRefunds(expense, expenses);
+		if (!ExpenseRefunds.isRefund(expense)) {
+			if (expense.refundOf) return 'A refund must be a negative amount';
+			const refunded = ExpenseRefunds.getRefunded(expense, expenses);
+			return refunded > expense.amountInBaseCurrency + ROUNDING
+				? `Its refunds add up to ${refunded.toFixed(
+						2
+				  )}, more than the new amount`
+				: null;
+		}
+		if (refunds.length > 0) {
+			return "An expense with refunds can't become a refund";
+		}
+		if (!expense.refundOf) return null;
+
+		const original = expenses.find((other) => other.id === expense.refundOf);
+		if (!original) return 'The refunded expense was not found';
+		if (original.id === expense.id) return "An expense can't refund itself";
+		if (ExpenseRefunds.isRefund(original)) {
+			return 'Refunds can only be recorded against expenses';
+		}
+
+		const remaining =
+			original.amountInBaseCurrency -
+			ExpenseRefunds.getRefunds(original, expenses)
+				.filter((other) => other.id !== expense.id)
+				.reduce((sum, other) => sum - other.amountInBaseCurrency, 0);
+		if (-expense.amountInBaseCurrency > remaining + ROUNDING) {
+			return `Refunds can't add up to more than ${
+				original.description ? `"${original.description}"` : 'the expense'
+			} cost; ${Math.max(remaining, 0).toFixed(2)} is left to refund`;
+		}
+		return null;
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	isRefund: isRefundExpense,
+	getRefunds: getExpenseRefunds,
+	getNetAmount: getNetExpenseAmount,
+	validate: validateRefund,
+} = ExpenseRefunds;
@@ -17,6 +17,12 @@ import {
 	selectCurrentAccount,
 } from './store/slices/accountsSlice';
 import { selectNotifications } from './store/slices/uiSlice';
+import { generateRecurringExpenses } from './store/slices/recurringSlice';
+import {
+	setOnlineStatus,
+	syncOutbox,
+	refreshPendingCount,
+} from './store/slices/syncSlice';
 
 // Layouts
 import AppLayout from './components/layout/AppLayout';
@@ -36,7 +42,11 @@ import ExpenseForm from './pages/ExpenseForm';
 import BudgetList from './pages/BudgetList';
 import BudgetDetail from './pages/BudgetDetail';
 import BudgetForm from './pages/BudgetForm';
+import RecurringList from './pages/RecurringList';
 import Insights from './pages/Insights';
+import Trash from './pages/Trash';
+import Approvals from './pages/Approvals';
+import Duplicates from './pages/Duplicates';
 import { Settings } from './pages/Settings';
 import { Profile } from './pages/Profile';
 import { AccountList } from './pages/AccountList';
@@ -69,6 +79,27 @@ const App = () => {
 		dispatch(checkAuth() as any);
 	}, [dispatch]);
 
+	// Replay offline changes once signed in and whenever the connection returns
+	useEffect(() => {
+		if (!isAuthenticated) return;
+
+		const handleOnline = () => {
+			dispatch(setOnlineStatus(true));
+			dispatch(syncOutbox() as any);
+		};
+		const handleOffline = () => dispatch(setOnlineStatus(false));
+
+		dispatch(refreshPendingCount() as any);
+		dispatch(syncOutbox() as any);
+
+		window.addEventListener('online', handleOnline);
+		window.addEventListener('offline', handleOffline);
+		return () => {
+			window.removeEventListener('online', handleOnline);
+			window.removeEventListener('offline', handleOffline);
+		};
+	}, [dispatch, isAuthenticated]);
+
 	// Fetch accounts once authenticated
 	useEffect(() => {
 		console.log('Auth state:', { isAuthenticated, currentUser });
@@ -78,6 +109,13 @@ const App = () => {
 		}
 	}, [dispatch, isAuthenticated, currentUser]);
 
+	// Materialize due recurring expenses whenever an account is loaded
+	useEffect(() => {
+		if (isAuthenticated && currentAccount?.id) {
+			dispatch(generateRecurringExpenses(currentAccount.id) as any);
+		}
+	}, [dispatch, isAuthenticated, currentAccount?.id]);
+
 	// Log when loading screen is shown
 	if (isAuthenticated === null) {
 		console.log('Auth check in progress, showing loading screen...');
@@ -173,6 +211,10 @@ const App = () => {
 										path='new'
 										element={<ExpenseForm />}
 									/>
+									<Route
+										path='duplicates'
+										element={<Duplicates />}
+									/>
 									<Route
 										path=':id'
 										element={<ExpenseDetails />}
@@ -203,12 +245,30 @@ const App = () => {
 									/>
 								</Route>
 
+								{/* Recurring Expenses */}
+								<Route
+									path='recurring'
+									element={<RecurringList />}
+								/>
+
 								{/* Insights */}
 								<Route
 									path='insights'
 									element={<Insights />}
 								/>
 
+								{/* Expense approvals */}
+								<Route
+									path='approvals'
+									element={<Approvals />}
+								/>
+
+								{/* Trash */}
+								<Route
+									path='trash'
+									element={<Trash />}
+								/>
+
 								{/* User Settings */}
 								<Route
 									path='settings'
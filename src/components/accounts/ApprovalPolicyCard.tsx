@@ -0,0 +1,174 @@
+// src/components/accounts/ApprovalPolicyCard.tsx
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { ClipboardCheck } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useNotification } from '@/contexts/NotificationContext';
+import { AppDispatch } from '@/store';
+import {
+	selectCurrentAccount,
+	updateAccountSettings,
+} from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import { ApprovalUtils } from '@/utils/approvalUtils';
+import { ApprovalPolicy } from '@/models/types';
+
+/**
+ * Approval Policy Card
+ * Lets account admins require approval for members' expenses, and choose
+ * which expenses are approved without waiting
+ */
+const ApprovalPolicyCard: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+	const { addNotification } = useNotification();
+
+	const [required, setRequired] = useState(false);
+	const [threshold, setThreshold] = useState('');
+	const [categories, setCategories] = useState<string[]>([]);
+	const [isSaving, setIsSaving] = useState(false);
+
+	// Start from the saved settings whenever another account is opened
+	useEffect(() => {
+		const settings = currentAccount?.settings;
+		setRequired(Boolean(settings?.expenseApprovalRequired));
+		setThreshold(settings?.approvalPolicy?.autoApproveBelow?.toString() ?? '');
+		setCategories(settings?.approvalPolicy?.autoApproveCategories ?? []);
+	}, [currentAccount]);
+
+	if (
+		!currentAccount ||
+		!ApprovalUtils.isApprover(currentAccount, user?.firebaseUser.uid)
+	) {
+		return null;
+	}
+
+	const toggleCategory = (category: string, checked: boolean) =>
+		setCategories((current) =>
+			checked
+				? [...current, category]
+				: current.filter((name) => name !== category)
+		);
+
+	const handleSave = async () => {
+		const autoApproveBelow = threshold.trim()
+			? parseFloat(threshold)
+			: undefined;
+		if (
+			autoApproveBelow !== undefined &&
+			!(Number.isFinite(autoApproveBelow) && autoApproveBelow >= 0)
+		) {
+			addNotification('Enter an amount of zero or more', 'error');
+			return;
+		}
+
+		const approvalPolicy: ApprovalPolicy = {
+			...(autoApproveBelow !== undefined ? { autoApproveBelow } : {}),
+			...(categories.length > 0 ? { autoApproveCategories: categories } : {}),
+		};
+
+		try {
+			setIsSaving(true);
+			await dispatch(
+				updateAccountSettings({
+					accountId: currentAccount.id,
+					settings: { expenseApprovalRequired: required, approvalPolicy },
+				})
+			).unwrap();
+			addNotification('Approval settings saved', 'success');
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to save approval settings',
+				'error'
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center'>
+					<ClipboardCheck className='mr-2' /> Expense Approval
+				</CardTitle>
+				<CardDescription>
+					Have admins of {currentAccount.name} approve expenses before they
+					count towards budgets
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				<div className='flex items-center justify-between'>
+					<Label htmlFor='approval-required'>Require approval</Label>
+					<Switch
+						id='approval-required'
+						checked={required}
+						onCheckedChange={setRequired}
+					/>
+				</div>
+
+				{required && (
+					<>
+						<p className='text-sm text-muted-foreground'>
+							Expenses added by admins are always approved.
+						</p>
+						<div>
+							<Label htmlFor='approval-threshold'>
+								Approve automatically below ({currentAccount.baseCurrency})
+							</Label>
+							<Input
+								id='approval-threshold'
+								type='number'
+								min='0'
+								step='0.01'
+								placeholder='No limit'
+								value={threshold}
+								onChange={(e) => setThreshold(e.target.value)}
+							/>
+						</div>
+						<div>
+							<Label>Always approve these categories</Label>
+							<div className='grid grid-cols-2 gap-2 mt-2'>
+								{currentAccount.settings.categories.map((category) => (
+									<label
+										key={category}
+										className='flex items-center space-x-2 text-sm'>
+										<input
+											type='checkbox'
+											checked={categories.includes(category)}
+											onChange={(e) =>
+												toggleCategory(category, e.target.checked)
+											}
+										/>
+										<span>{category}</span>
+									</label>
+								))}
+							</div>
+						</div>
+					</>
+				)}
+
+				<div className='flex justify-end'>
+					<Button
+						disabled={isSaving}
+						onClick={handleSave}>
+						{isSaving ? 'Saving...' : 'Save'}
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default ApprovalPolicyCard;
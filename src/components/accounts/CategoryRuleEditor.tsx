@@ -0,0 +1,304 @@
+// src/components/accounts/CategoryRuleEditor.tsx
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import TagInput from '@/components/expenses/TagInput';
+import { CategoryRuleCondition, PaymentMethod } from '@/models/types';
+import { CategoryRuleDraft } from '@/utils/categoryRuleUtils';
+import { PaymentMethodUtils } from '@/utils/paymentMethodUtils';
+import {
+	CATEGORY_RULE_OPERATORS,
+	CategoryRules,
+} from '../../../shared/categoryRules';
+
+interface CategoryRuleEditorProps {
+	initial: CategoryRuleDraft;
+	categories: string[];
+	paymentMethods: PaymentMethod[];
+	knownTags: string[];
+	busy: boolean;
+	onSave: (rule: CategoryRuleDraft) => void;
+	onCancel: () => void;
+}
+
+const FIELD_OPTIONS: {
+	value: CategoryRuleCondition['field'];
+	label: string;
+}[] = [
+	{ value: 'description', label: 'Description' },
+	{ value: 'amount', label: 'Amount' },
+	{ value: 'paymentMethod', label: 'Paid with' },
+];
+
+const OPERATOR_OPTIONS: Record<CategoryRuleCondition['operator'], string> = {
+	contains: 'contains',
+	matches: 'matches pattern',
+	'=': 'is',
+	'>': 'over',
+	'>=': 'at least',
+	'<': 'under',
+	'<=': 'at most',
+};
+
+const newCondition = (): CategoryRuleCondition => ({
+	field: 'description',
+	operator: 'contains',
+	value: '',
+});
+
+/**
+ * Category Rule Editor
+ * Conditions an expense must all meet, and the category and tags it is
+ * then given
+ */
+const CategoryRuleEditor: React.FC<CategoryRuleEditorProps> = ({
+	initial,
+	categories,
+	paymentMethods,
+	knownTags,
+	busy,
+	onSave,
+	onCancel,
+}) => {
+	const [rule, setRule] = useState<CategoryRuleDraft>(initial);
+	const [showErrors, setShowErrors] = useState(false);
+
+	const errors = CategoryRules.validate({ ...rule, priority: 0 });
+
+	const updateCondition = (
+		index: number,
+		changes: Partial<CategoryRuleCondition>
+	) =>
+		setRule({
+			...rule,
+			conditions: rule.conditions.map((condition, position) => {
+				if (position !== index) return condition;
+				const updated = { ...condition, ...changes };
+				// Another field takes other operators and values
+				if (changes.field && changes.field !== condition.field) {
+					updated.operator = CATEGORY_RULE_OPERATORS[changes.field][0];
+					updated.value = '';
+				}
+				return updated;
+			}),
+		});
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (errors.length > 0) {
+			setShowErrors(true);
+			return;
+		}
+		onSave(rule);
+	};
+
+	const renderValue = (condition: CategoryRuleCondition, index: number) => {
+		if (condition.field === 'paymentMethod') {
+			return (
+				<Select
+					value={condition.value || undefined}
+					onValueChange={(value) => updateCondition(index, { value })}>
+					<SelectTrigger aria-label='Payment method'>
+						<SelectValue placeholder='Choose a method' />
+					</SelectTrigger>
+					<SelectContent>
+						{paymentMethods.map((method) => (
+							<SelectItem
+								key={method.id}
+								value={method.id}>
+								{PaymentMethodUtils.getLabel(method)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			);
+		}
+		return (
+			<Input
+				aria-label='Value'
+				type={condition.field === 'amount' ? 'number' : 'text'}
+				step={condition.field === 'amount' ? '0.01' : undefined}
+				placeholder={
+					condition.field === 'amount'
+						? 'In the base currency'
+						: condition.operator === 'matches'
+						? 'e.g. uber|lyft'
+						: 'e.g. uber'
+				}
+				value={condition.value}
+				onChange={(e) => updateCondition(index, { value: e.target.value })}
+			/>
+		);
+	};
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className='space-y-4 border-t pt-4'>
+			<div className='space-y-1'>
+				<Label htmlFor='categoryRuleName'>Name</Label>
+				<Input
+					id='categoryRuleName'
+					placeholder='e.g. Rides'
+					value={rule.name}
+					onChange={(e) => setRule({ ...rule, name: e.target.value })}
+					autoFocus
+				/>
+			</div>
+
+			<div className='space-y-2'>
+				<Label>When every condition matches</Label>
+				{rule.conditions.map((condition, index) => (
+					<div
+						key={index}
+						className='grid grid-cols-[1fr_1fr_2fr_auto] gap-2'>
+						<Select
+							value={condition.field}
+							onValueChange={(field) =>
+								updateCondition(index, {
+									field: field as CategoryRuleCondition['field'],
+								})
+							}>
+							<SelectTrigger aria-label='Field'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{FIELD_OPTIONS.map(({ value, label }) => (
+									<SelectItem
+										key={value}
+										value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Select
+							value={condition.operator}
+							onValueChange={(operator) =>
+								updateCondition(index, {
+									operator: operator as CategoryRuleCondition['operator'],
+								})
+							}>
+							<SelectTrigger aria-label='Comparison'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{CATEGORY_RULE_OPERATORS[condition.field].map((operator) => (
+									<SelectItem
+										key={operator}
+										value={operator}>
+										{OPERATOR_OPTIONS[operator]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						{renderValue(condition, index)}
+						<Button
+							type='button'
+							variant='ghost'
+							size='icon'
+							aria-label='Remove condition'
+							disabled={rule.conditions.length === 1}
+							onClick={() =>
+								setRule({
+									...rule,
+									conditions: rule.conditions.filter(
+										(_, position) => position !== index
+									),
+								})
+							}>
+							<X className='h-4 w-4' />
+						</Button>
+					</div>
+				))}
+				<Button
+					type='button'
+					variant='ghost'
+					size='sm'
+					onClick={() =>
+						setRule({
+							...rule,
+							conditions: [...rule.conditions, newCondition()],
+						})
+					}>
+					<Plus className='h-4 w-4 mr-1' /> Add condition
+				</Button>
+			</div>
+
+			<div className='grid grid-cols-2 gap-3'>
+				<div className='space-y-1'>
+					<Label>Set category to</Label>
+					<Select
+						value={rule.category || undefined}
+						onValueChange={(category) => setRule({ ...rule, category })}>
+						<SelectTrigger>
+							<SelectValue placeholder='Choose a category' />
+						</SelectTrigger>
+						<SelectContent>
+							{categories.map((category) => (
+								<SelectItem
+									key={category}
+									value={category}>
+									{category}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className='space-y-1'>
+					<Label htmlFor='categoryRuleTags'>And add tags</Label>
+					<TagInput
+						id='categoryRuleTags'
+						tags={rule.tags || []}
+						knownTags={knownTags}
+						onChange={(tags) => setRule({ ...rule, tags })}
+					/>
+				</div>
+			</div>
+
+			<div className='flex items-center space-x-2'>
+				<Switch
+					id='categoryRuleEnabled'
+					checked={rule.enabled}
+					onCheckedChange={(enabled) => setRule({ ...rule, enabled })}
+				/>
+				<Label htmlFor='categoryRuleEnabled'>Apply to new expenses</Label>
+			</div>
+
+			{showErrors && errors.length > 0 && (
+				<ul className='text-sm text-red-600 list-disc pl-5'>
+					{errors.map((error) => (
+						<li key={error}>{error}</li>
+					))}
+				</ul>
+			)}
+
+			<div className='flex gap-2'>
+				<Button
+					type='submit'
+					disabled={busy}>
+					{busy ? 'Saving...' : 'Save Rule'}
+				</Button>
+				<Button
+					type='button'
+					variant='ghost'
+					disabled={busy}
+					onClick={onCancel}>
+					Cancel
+				</Button>
+			</div>
+		</form>
+	);
+};
+
+export default CategoryRuleEditor;
@@ -0,0 +1,398 @@
+// src/components/accounts/CategoryRulesCard.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { ArrowDown, ArrowUp, Wand2 } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import CategoryRuleEditor from '@/components/accounts/CategoryRuleEditor';
+import { useNotification } from '@/contexts/NotificationContext';
+import { usePaymentMethods } from '@/hooks/usePaymentMethods';
+import { AppDispatch } from '@/store';
+import {
+	selectCurrentAccount,
+	updateAccountSettings,
+} from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import {
+	bulkUpdateExpenses,
+	fetchAccountExpenses,
+	selectExpenses,
+} from '@/store/slices/expensesSlice';
+import { db } from '@/services/firebase';
+import { CategoryRule, Expense } from '@/models/types';
+import {
+	CategoryRuleDraft,
+	CategoryRuleUtils,
+} from '@/utils/categoryRuleUtils';
+import { TagUtils } from '@/utils/tagUtils';
+import { DateUtils } from '@/utils/dateUtils';
+import { CategoryRules } from '../../../shared/categoryRules';
+
+// Expenses listed in a preview before "and N more"
+const PREVIEW_LIMIT = 10;
+
+const emptyRule: CategoryRuleDraft = {
+	name: '',
+	enabled: true,
+	conditions: [{ field: 'description', operator: 'contains', value: '' }],
+	category: '',
+};
+
+/**
+ * Category Rules Card
+ * Lets account admins file new expenses automatically, and run a rule over
+ * existing expenses after previewing what it changes
+ */
+const CategoryRulesCard: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+	const expenses = useSelector(selectExpenses);
+	const paymentMethods = usePaymentMethods(currentAccount?.id);
+	const { addNotification } = useNotification();
+
+	// null while the editor is closed; 'new' when adding a rule
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [deleting, setDeleting] = useState<CategoryRule | null>(null);
+	// Rule whose effect on existing expenses is shown
+	const [previewId, setPreviewId] = useState<string | null>(null);
+	// Every expense of the account, read when a preview opens; null while
+	// loading
+	const [accountExpenses, setAccountExpenses] = useState<Expense[] | null>(
+		null
+	);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const rules = useMemo(
+		() => CategoryRules.sort(currentAccount?.settings.categoryRules || []),
+		[currentAccount]
+	);
+	const knownTags = useMemo(
+		() => TagUtils.getUsage(expenses).map(({ tag }) => tag),
+		[expenses]
+	);
+	const previewRule = rules.find((rule) => rule.id === previewId);
+	const preview = useMemo(
+		() =>
+			previewRule && accountExpenses
+				? CategoryRuleUtils.getPreview(previewRule, rules, accountExpenses)
+				: [],
+		[previewRule, rules, accountExpenses]
+	);
+
+	// Loaded expenses only cover the recent window, so the preview reads the
+	// whole account each time it opens
+	const accountId = currentAccount?.id;
+	const isPreviewing = previewId !== null;
+	useEffect(() => {
+		if (!accountId || !isPreviewing) return;
+
+		let cancelled = false;
+		setAccountExpenses(null);
+		dispatch(fetchAccountExpenses(accountId))
+			.unwrap()
+			.then((loaded) => {
+				if (!cancelled) setAccountExpenses(loaded);
+			})
+			.catch((error: any) => {
+				if (cancelled) return;
+				setPreviewId(null);
+				addNotification(
+					typeof error === 'string' ? error : 'Failed to load expenses',
+					'error'
+				);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [dispatch, accountId, isPreviewing, addNotification]);
+
+	const isAdmin = !!currentAccount?.members.some(
+		(member) => member.uid === user?.firebaseUser.uid && member.role === 'admin'
+	);
+	if (!currentAccount || !isAdmin) return null;
+
+	const saveRules = async (updated: CategoryRule[], success: string) => {
+		try {
+			setIsSaving(true);
+			await dispatch(
+				updateAccountSettings({
+					accountId: currentAccount.id,
+					settings: {
+						categoryRules: CategoryRuleUtils.renumber(updated).map(
+							CategoryRuleUtils.toStored
+						),
+					},
+				})
+			).unwrap();
+			addNotification(success, 'success');
+			return true;
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to save rules',
+				'error'
+			);
+			return false;
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleSave = async (draft: CategoryRuleDraft) => {
+		const saved =
+			editingId === 'new'
+				? await saveRules(
+						[
+							...rules,
+							{
+								...draft,
+								id: db.createId('categoryRules'),
+								priority: rules.length + 1,
+							},
+						],
+						`Rule "${draft.name.trim()}" added`
+				  )
+				: await saveRules(
+						rules.map((rule) =>
+							rule.id === editingId ? { ...rule, ...draft } : rule
+						),
+						`Rule "${draft.name.trim()}" saved`
+				  );
+		if (saved) setEditingId(null);
+	};
+
+	const move = (index: number, step: number) => {
+		const reordered = [...rules];
+		[reordered[index], reordered[index + step]] = [
+			reordered[index + step],
+			reordered[index],
+		];
+		saveRules(reordered, 'Rule order saved');
+	};
+
+	const applyToExisting = async () => {
+		if (!previewRule || preview.length === 0) return;
+		try {
+			setIsSaving(true);
+			const result = await dispatch(
+				bulkUpdateExpenses({
+					ids: preview.map((expense) => expense.id),
+					changes: {
+						category: previewRule.category,
+						...(previewRule.tags?.length ? { addTags: previewRule.tags } : {}),
+					},
+				})
+			).unwrap();
+			addNotification(
+				`${result.batch.description} with "${previewRule.name}". You can undo this from the expense list.`,
+				'success'
+			);
+			setPreviewId(null);
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to apply rule',
+				'error'
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const editedRule = rules.find((rule) => rule.id === editingId);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center'>
+					<Wand2 className='mr-2' /> Category Rules
+				</CardTitle>
+				<CardDescription>
+					File new expenses in {currentAccount.name} automatically. Rules are
+					tried from the top and the first that matches is used.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-3'>
+				{rules.length === 0 && (
+					<p className='text-sm text-muted-foreground'>
+						No rules yet. You can also create one from any expense.
+					</p>
+				)}
+
+				{rules.map((rule, index) => (
+					<div
+						key={rule.id}
+						className='space-y-2'>
+						<div className='flex items-start justify-between gap-2'>
+							<div className='space-y-1'>
+								<div className='flex items-center gap-2'>
+									<span className='font-medium'>{rule.name}</span>
+									<Badge variant='secondary'>{rule.category}</Badge>
+									{rule.tags?.map((tag) => (
+										<Badge
+											key={tag}
+											variant='outline'>
+											{tag}
+										</Badge>
+									))}
+								</div>
+								<p className='text-sm text-muted-foreground'>
+									{CategoryRuleUtils.describe(rule, paymentMethods)}
+								</p>
+							</div>
+							<div className='flex items-center gap-1'>
+								<Switch
+									aria-label={`Apply ${rule.name} to new expenses`}
+									checked={rule.enabled}
+									disabled={isSaving}
+									onCheckedChange={(enabled) =>
+										saveRules(
+											rules.map((item) =>
+												item.id === rule.id ? { ...item, enabled } : item
+											),
+											enabled
+												? `Rule "${rule.name}" turned on`
+												: `Rule "${rule.name}" turned off`
+										)
+									}
+								/>
+								<Button
+									variant='ghost'
+									size='icon'
+									aria-label={`Move ${rule.name} up`}
+									disabled={isSaving || index === 0}
+									onClick={() => move(index, -1)}>
+									<ArrowUp className='h-4 w-4' />
+								</Button>
+								<Button
+									variant='ghost'
+									size='icon'
+									aria-label={`Move ${rule.name} down`}
+									disabled={isSaving || index === rules.length - 1}
+									onClick={() => move(index, 1)}>
+									<ArrowDown className='h-4 w-4' />
+								</Button>
+							</div>
+						</div>
+						<div className='flex gap-1'>
+							<Button
+								variant='ghost'
+								size='sm'
+								disabled={isSaving}
+								onClick={() =>
+									setPreviewId(previewId === rule.id ? null : rule.id)
+								}>
+								Apply to existing
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								disabled={isSaving}
+								onClick={() => setEditingId(rule.id)}>
+								Edit
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								disabled={isSaving}
+								onClick={() => setDeleting(rule)}>
+								Delete
+							</Button>
+						</div>
+
+						{previewId === rule.id && (
+							<div className='rounded-md border p-3 space-y-2'>
+								{!accountExpenses ? (
+									<p className='text-sm text-muted-foreground'>
+										Checking existing expenses...
+									</p>
+								) : preview.length === 0 ? (
+									<p className='text-sm text-muted-foreground'>
+										No existing expenses would change.
+									</p>
+								) : (
+									<>
+										<p className='text-sm'>
+											{preview.length} expense{preview.length === 1 ? '' : 's'}{' '}
+											would be filed as {rule.category}:
+										</p>
+										<ul className='text-sm text-muted-foreground space-y-1'>
+											{preview.slice(0, PREVIEW_LIMIT).map((expense) => (
+												<li key={expense.id}>
+													{DateUtils.formatDate(expense.date)} ·{' '}
+													{expense.description} · {expense.category} →{' '}
+													{rule.category}
+												</li>
+											))}
+											{preview.length > PREVIEW_LIMIT && (
+												<li>and {preview.length - PREVIEW_LIMIT} more</li>
+											)}
+										</ul>
+										<Button
+											size='sm'
+											disabled={isSaving}
+											onClick={applyToExisting}>
+											{isSaving
+												? 'Applying...'
+												: `Update ${preview.length} expense${
+														preview.length === 1 ? '' : 's'
+												  }`}
+										</Button>
+									</>
+								)}
+							</div>
+						)}
+					</div>
+				))}
+
+				{editingId ? (
+					<CategoryRuleEditor
+						key={editingId}
+						initial={editedRule ?? emptyRule}
+						categories={currentAccount.settings.categories}
+						paymentMethods={paymentMethods}
+						knownTags={knownTags}
+						busy={isSaving}
+						onSave={handleSave}
+						onCancel={() => setEditingId(null)}
+					/>
+				) : (
+					<Button
+						variant='outline'
+						onClick={() => setEditingId('new')}>
+						Add Rule
+					</Button>
+				)}
+			</CardContent>
+
+			<ConfirmDialog
+				isOpen={deleting !== null}
+				onClose={() => setDeleting(null)}
+				onConfirm={() => {
+					if (deleting) {
+						saveRules(
+							rules.filter((rule) => rule.id !== deleting.id),
+							`Rule "${deleting.name}" deleted`
+						);
+					}
+					setDeleting(null);
+				}}
+				title='Delete Rule'
+				message={`Delete the rule "${deleting?.name}"? Expenses it already filed keep their category.`}
+				confirmText='Delete Rule'
+				cancelText='Cancel'
+				variant='destructive'
+			/>
+		</Card>
+	);
+};
+
+export default CategoryRulesCard;
@@ -0,0 +1,388 @@
+// src/components/accounts/MerchantsCard.tsx
+import React, { useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Store } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import MerchantAvatar from '@/components/expenses/MerchantAvatar';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useMerchants } from '@/hooks/useMerchants';
+import { AppDispatch } from '@/store';
+import { selectCurrentAccount } from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import { selectExpenses } from '@/store/slices/expensesSlice';
+import {
+	addMerchant,
+	deleteMerchant,
+	updateMerchant,
+} from '@/store/slices/merchantsSlice';
+import { MerchantUtils } from '@/utils/merchantUtils';
+import { Merchant } from '@/models/types';
+
+interface MerchantForm {
+	name: string;
+	// Comma separated
+	aliases: string;
+	defaultCategory: string;
+	color: string;
+	logoUrl: string;
+}
+
+// Select items can't have an empty value
+const NO_CATEGORY = 'none';
+
+const emptyForm: MerchantForm = {
+	name: '',
+	aliases: '',
+	defaultCategory: NO_CATEGORY,
+	color: '',
+	logoUrl: '',
+};
+
+const toForm = (merchant: Merchant): MerchantForm => ({
+	name: merchant.name,
+	aliases: merchant.aliases.join(', '),
+	defaultCategory: merchant.defaultCategory || NO_CATEGORY,
+	color: merchant.color || '',
+	logoUrl: merchant.logoUrl || '',
+});
+
+/**
+ * Merchants Card
+ * Directory of the businesses expenses in the current account are paid to,
+ * with the other names they show up under. Insights group expenses by it.
+ */
+const MerchantsCard: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const uid = useSelector(selectUser)?.firebaseUser.uid;
+	const expenses = useSelector(selectExpenses);
+	const merchants = useMerchants(currentAccount?.id);
+	const { addNotification } = useNotification();
+
+	// null while the form is closed; 'new' when adding a merchant
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [form, setForm] = useState<MerchantForm>(emptyForm);
+	const [deleting, setDeleting] = useState<Merchant | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const suggestions = useMemo(
+		() => MerchantUtils.getSuggestions(expenses, merchants),
+		[expenses, merchants]
+	);
+
+	if (!currentAccount) return null;
+
+	const role = currentAccount.members.find(
+		(member) => member.uid === uid
+	)?.role;
+	const canEdit = !!role && role !== 'viewer';
+
+	const run = async (action: () => Promise<unknown>, success: string) => {
+		try {
+			setIsSaving(true);
+			await action();
+			addNotification(success, 'success');
+			return true;
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to save merchant',
+				'error'
+			);
+			return false;
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const startAdding = (name = '') => {
+		setEditingId('new');
+		setForm({ ...emptyForm, name });
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const aliases = form.aliases
+			.split(',')
+			.map((alias) => alias.trim())
+			.filter(Boolean);
+		const defaultCategory =
+			form.defaultCategory === NO_CATEGORY ? '' : form.defaultCategory;
+		const logoUrl = form.logoUrl.trim();
+
+		const saved =
+			editingId === 'new'
+				? await run(
+						() =>
+							dispatch(
+								addMerchant({
+									accountId: currentAccount.id,
+									name: form.name,
+									aliases,
+									...(defaultCategory ? { defaultCategory } : {}),
+									...(logoUrl ? { logoUrl } : {}),
+									...(form.color ? { color: form.color } : {}),
+								})
+							).unwrap(),
+						`${form.name.trim()} added`
+				  )
+				: await run(
+						() =>
+							dispatch(
+								updateMerchant({
+									id: editingId!,
+									changes: {
+										name: form.name,
+										aliases,
+										defaultCategory: defaultCategory || null,
+										logoUrl: logoUrl || null,
+										color: form.color || null,
+									},
+								})
+							).unwrap(),
+						`${form.name.trim()} updated`
+				  );
+		if (saved) {
+			setEditingId(null);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center'>
+					<Store className='mr-2' /> Merchants
+				</CardTitle>
+				<CardDescription>
+					Expenses whose description mentions a merchant's name or one of its
+					other names are counted together in insights
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{merchants.length === 0 && (
+					<p className='text-sm text-muted-foreground'>No merchants yet.</p>
+				)}
+				<div className='space-y-2'>
+					{merchants.map((merchant) => (
+						<div
+							key={merchant.id}
+							className='flex items-center justify-between gap-2'>
+							<div className='flex items-center gap-2 min-w-0'>
+								<MerchantAvatar merchant={merchant} />
+								<div className='min-w-0'>
+									<div className='flex items-center gap-2'>
+										<span className='font-medium'>{merchant.name}</span>
+										{merchant.defaultCategory && (
+											<Badge variant='secondary'>
+												{merchant.defaultCategory}
+											</Badge>
+										)}
+									</div>
+									{merchant.aliases.length > 0 && (
+										<p className='text-sm text-muted-foreground truncate'>
+											Also {merchant.aliases.join(', ')}
+										</p>
+									)}
+								</div>
+							</div>
+							{canEdit && (
+								<div className='flex gap-1'>
+									<Button
+										variant='ghost'
+										size='sm'
+										disabled={isSaving}
+										onClick={() => {
+											setEditingId(merchant.id);
+											setForm(toForm(merchant));
+										}}>
+										Edit
+									</Button>
+									<Button
+										variant='ghost'
+										size='sm'
+										disabled={isSaving}
+										onClick={() => setDeleting(merchant)}>
+										Remove
+									</Button>
+								</div>
+							)}
+						</div>
+					))}
+				</div>
+
+				{editingId ? (
+					<form
+						onSubmit={handleSubmit}
+						className='space-y-3 border-t pt-4'>
+						<div className='grid grid-cols-2 gap-3'>
+							<div className='space-y-1'>
+								<Label htmlFor='merchantName'>Name</Label>
+								<Input
+									id='merchantName'
+									placeholder='e.g. Starbucks'
+									value={form.name}
+									onChange={(e) => setForm({ ...form, name: e.target.value })}
+									autoFocus
+								/>
+							</div>
+							<div className='space-y-1'>
+								<Label htmlFor='merchantAliases'>Also known as</Label>
+								<Input
+									id='merchantAliases'
+									placeholder='e.g. SBUX, Starbucks Coffee'
+									value={form.aliases}
+									onChange={(e) =>
+										setForm({ ...form, aliases: e.target.value })
+									}
+								/>
+							</div>
+							<div className='space-y-1'>
+								<Label>Default category</Label>
+								<Select
+									value={form.defaultCategory}
+									onValueChange={(defaultCategory) =>
+										setForm({ ...form, defaultCategory })
+									}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={NO_CATEGORY}>None</SelectItem>
+										{currentAccount.settings.categories.map((category) => (
+											<SelectItem
+												key={category}
+												value={category}>
+												{category}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className='space-y-1'>
+								<Label htmlFor='merchantColor'>Color</Label>
+								<div className='flex items-center gap-2'>
+									<Input
+										id='merchantColor'
+										type='color'
+										className='w-16 p-1'
+										value={
+											form.color ||
+											MerchantUtils.getColor({ name: form.name || ' ' })
+										}
+										onChange={(e) =>
+											setForm({ ...form, color: e.target.value })
+										}
+									/>
+									{form.color && (
+										<Button
+											type='button'
+											variant='ghost'
+											size='sm'
+											onClick={() => setForm({ ...form, color: '' })}>
+											Reset
+										</Button>
+									)}
+								</div>
+							</div>
+							<div className='space-y-1 col-span-2'>
+								<Label htmlFor='merchantLogo'>Logo URL</Label>
+								<Input
+									id='merchantLogo'
+									type='url'
+									placeholder='https://'
+									value={form.logoUrl}
+									onChange={(e) =>
+										setForm({ ...form, logoUrl: e.target.value })
+									}
+								/>
+							</div>
+						</div>
+						<div className='flex gap-2'>
+							<Button
+								type='submit'
+								disabled={isSaving || !form.name.trim()}>
+								{isSaving
+									? 'Saving...'
+									: editingId === 'new'
+									? 'Add Merchant'
+									: 'Save Changes'}
+							</Button>
+							<Button
+								type='button'
+								variant='ghost'
+								disabled={isSaving}
+								onClick={() => setEditingId(null)}>
+								Cancel
+							</Button>
+						</div>
+					</form>
+				) : (
+					canEdit && (
+						<Button
+							variant='outline'
+							onClick={() => startAdding()}>
+							Add Merchant
+						</Button>
+					)
+				)}
+
+				{canEdit && !editingId && suggestions.length > 0 && (
+					<div className='border-t pt-4 space-y-2'>
+						<p className='text-sm text-muted-foreground'>
+							Seen often but not in the directory
+						</p>
+						<div className='flex flex-wrap gap-2'>
+							{suggestions.map(({ name, count }) => (
+								<Button
+									key={name}
+									variant='outline'
+									size='sm'
+									onClick={() => startAdding(name)}>
+									{name} ({count})
+								</Button>
+							))}
+						</div>
+					</div>
+				)}
+			</CardContent>
+
+			<ConfirmDialog
+				isOpen={deleting !== null}
+				onClose={() => setDeleting(null)}
+				onConfirm={() => {
+					if (deleting) {
+						run(
+							() => dispatch(deleteMerchant(deleting.id)).unwrap(),
+							`${deleting.name} removed`
+						);
+					}
+					setDeleting(null);
+				}}
+				title='Remove Merchant'
+				message={`Remove ${deleting?.name} from the directory? Its expenses are kept and are grouped by their description again.`}
+				confirmText='Remove'
+				cancelText='Cancel'
+				variant='destructive'
+			/>
+		</Card>
+	);
+};
+
+export default MerchantsCard;
@@ -0,0 +1,379 @@
+// src/components/accounts/PaymentMethodsCard.tsx
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Wallet } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { useNotification } from '@/contexts/NotificationContext';
+import { usePaymentMethods } from '@/hooks/usePaymentMethods';
+import { AppDispatch } from '@/store';
+import { selectCurrentAccount } from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import {
+	addPaymentMethod,
+	updatePaymentMethod,
+} from '@/store/slices/paymentMethodsSlice';
+import { PaymentMethodUtils } from '@/utils/paymentMethodUtils';
+import { PaymentMethod, PaymentMethodType } from '@/models/types';
+
+interface MethodForm {
+	name: string;
+	type: PaymentMethodType;
+	icon: string;
+	lastFour: string;
+	// uid of the owner, or SHARED
+	owner: string;
+}
+
+// Select items can't have an empty value
+const SHARED = 'shared';
+
+const METHOD_TYPES: PaymentMethodType[] = ['cash', 'card', 'bank', 'wallet'];
+
+const emptyForm: MethodForm = {
+	name: '',
+	type: 'card',
+	icon: '',
+	lastFour: '',
+	owner: SHARED,
+};
+
+const toForm = (method: PaymentMethod): MethodForm => ({
+	name: method.name,
+	type: method.type,
+	icon: method.icon || '',
+	lastFour: method.lastFour || '',
+	owner: method.ownerUid || SHARED,
+});
+
+/**
+ * Payment Methods Card
+ * Cash, cards, bank accounts and wallets members of the current account pay
+ * with. Methods are archived rather than deleted so older expenses keep them.
+ */
+const PaymentMethodsCard: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const uid = useSelector(selectUser)?.firebaseUser.uid;
+	const methods = usePaymentMethods(currentAccount?.id);
+	const { addNotification } = useNotification();
+
+	// null while the form is closed; 'new' when adding a method
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [form, setForm] = useState<MethodForm>(emptyForm);
+	const [isSaving, setIsSaving] = useState(false);
+
+	if (!currentAccount) return null;
+
+	const role = currentAccount.members.find(
+		(member) => member.uid === uid
+	)?.role;
+	const activeMethods = methods.filter((method) => !method.archived);
+	const archivedMethods = methods.filter((method) => method.archived);
+
+	const getOwnerName = (ownerUid?: string) =>
+		currentAccount.members.find((member) => member.uid === ownerUid)
+			?.displayName;
+
+	const run = async (action: () => Promise<unknown>, success: string) => {
+		try {
+			setIsSaving(true);
+			await action();
+			addNotification(success, 'success');
+			return true;
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to save payment method',
+				'error'
+			);
+			return false;
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		// Cash has no number to show
+		const lastFour = form.type === 'cash' ? '' : form.lastFour.trim();
+		const ownerUid = form.owner === SHARED ? '' : form.owner;
+		const icon = form.icon.trim();
+
+		const saved =
+			editingId === 'new'
+				? await run(
+						() =>
+							dispatch(
+								addPaymentMethod({
+									accountId: currentAccount.id,
+									name: form.name,
+									type: form.type,
+									...(icon ? { icon } : {}),
+									...(lastFour ? { lastFour } : {}),
+									...(ownerUid ? { ownerUid } : {}),
+								})
+							).unwrap(),
+						`${form.name.trim()} added`
+				  )
+				: await run(
+						() =>
+							dispatch(
+								updatePaymentMethod({
+									id: editingId!,
+									changes: {
+										name: form.name,
+										type: form.type,
+										icon: icon || null,
+										lastFour: lastFour || null,
+										ownerUid: ownerUid || null,
+									},
+								})
+							).unwrap(),
+						`${form.name.trim()} updated`
+				  );
+		if (saved) {
+			setEditingId(null);
+		}
+	};
+
+	const setArchived = (method: PaymentMethod, archived: boolean) =>
+		run(
+			() =>
+				dispatch(
+					updatePaymentMethod({ id: method.id, changes: { archived } })
+				).unwrap(),
+			archived
+				? `${method.name} archived; its expenses keep it`
+				: `${method.name} restored`
+		);
+
+	const renderMethod = (method: PaymentMethod) => {
+		const ownerName = getOwnerName(method.ownerUid);
+		const canEdit = PaymentMethodUtils.canEdit(method, currentAccount, uid);
+
+		return (
+			<div
+				key={method.id}
+				className='flex items-center justify-between gap-2'>
+				<div className='flex items-center gap-2'>
+					<span aria-hidden='true'>{PaymentMethodUtils.getIcon(method)}</span>
+					<span className='font-medium'>
+						{PaymentMethodUtils.getLabel(method)}
+					</span>
+					<Badge variant='secondary'>
+						{PaymentMethodUtils.getTypeLabel(method.type)}
+					</Badge>
+					{ownerName && (
+						<span className='text-sm text-muted-foreground'>{ownerName}</span>
+					)}
+				</div>
+				{canEdit && (
+					<div className='flex gap-1'>
+						{method.archived ? (
+							<Button
+								variant='ghost'
+								size='sm'
+								disabled={isSaving}
+								onClick={() => setArchived(method, false)}>
+								Restore
+							</Button>
+						) : (
+							<>
+								<Button
+									variant='ghost'
+									size='sm'
+									disabled={isSaving}
+									onClick={() => {
+										setEditingId(method.id);
+										setForm(toForm(method));
+									}}>
+									Edit
+								</Button>
+								<Button
+									variant='ghost'
+									size='sm'
+									disabled={isSaving}
+									onClick={() => setArchived(method, true)}>
+									Archive
+								</Button>
+							</>
+						)}
+					</div>
+				)}
+			</div>
+		);
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center'>
+					<Wallet className='mr-2' /> Payment Methods
+				</CardTitle>
+				<CardDescription>
+					Cards, bank accounts and wallets used to pay expenses in{' '}
+					{currentAccount.name}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{activeMethods.length === 0 && (
+					<p className='text-sm text-muted-foreground'>
+						No payment methods yet.
+					</p>
+				)}
+				<div className='space-y-2'>{activeMethods.map(renderMethod)}</div>
+
+				{editingId ? (
+					<form
+						onSubmit={handleSubmit}
+						className='space-y-3 border-t pt-4'>
+						<div className='grid grid-cols-2 gap-3'>
+							<div className='space-y-1'>
+								<Label htmlFor='paymentMethodName'>Name</Label>
+								<Input
+									id='paymentMethodName'
+									placeholder='e.g. Visa'
+									value={form.name}
+									onChange={(e) => setForm({ ...form, name: e.target.value })}
+									autoFocus
+								/>
+							</div>
+							<div className='space-y-1'>
+								<Label>Type</Label>
+								<Select
+									value={form.type}
+									onValueChange={(type) =>
+										setForm({ ...form, type: type as PaymentMethodType })
+									}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{METHOD_TYPES.map((type) => (
+											<SelectItem
+												key={type}
+												value={type}>
+												{PaymentMethodUtils.getTypeLabel(type)}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className='space-y-1'>
+								<Label htmlFor='paymentMethodIcon'>Icon</Label>
+								<Input
+									id='paymentMethodIcon'
+									placeholder={PaymentMethodUtils.getIcon({
+										type: form.type,
+									})}
+									maxLength={4}
+									value={form.icon}
+									onChange={(e) => setForm({ ...form, icon: e.target.value })}
+								/>
+							</div>
+							{form.type !== 'cash' && (
+								<div className='space-y-1'>
+									<Label htmlFor='paymentMethodLastFour'>
+										Last four digits
+									</Label>
+									<Input
+										id='paymentMethodLastFour'
+										inputMode='numeric'
+										placeholder='1234'
+										maxLength={4}
+										value={form.lastFour}
+										onChange={(e) =>
+											setForm({
+												...form,
+												lastFour: e.target.value.replace(/\D/g, ''),
+											})
+										}
+									/>
+								</div>
+							)}
+							<div className='space-y-1'>
+								<Label>Owner</Label>
+								<Select
+									value={form.owner}
+									onValueChange={(owner) => setForm({ ...form, owner })}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={SHARED}>Shared</SelectItem>
+										{currentAccount.members.map((member) => (
+											<SelectItem
+												key={member.uid}
+												value={member.uid}>
+												{member.displayName}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+						</div>
+						<div className='flex gap-2'>
+							<Button
+								type='submit'
+								disabled={isSaving || !form.name.trim()}>
+								{isSaving
+									? 'Saving...'
+									: editingId === 'new'
+									? 'Add Payment Method'
+									: 'Save Changes'}
+							</Button>
+							<Button
+								type='button'
+								variant='ghost'
+								disabled={isSaving}
+								onClick={() => setEditingId(null)}>
+								Cancel
+							</Button>
+						</div>
+					</form>
+				) : (
+					role &&
+					role !== 'viewer' && (
+						<Button
+							variant='outline'
+							onClick={() => {
+								setEditingId('new');
+								setForm({ ...emptyForm, owner: uid || SHARED });
+							}}>
+							Add Payment Method
+						</Button>
+					)
+				)}
+
+				{archivedMethods.length > 0 && (
+					<details className='border-t pt-4'>
+						<summary className='text-sm text-muted-foreground cursor-pointer'>
+							Archived ({archivedMethods.length})
+						</summary>
+						<div className='space-y-2 mt-2'>
+							{archivedMethods.map(renderMethod)}
+						</div>
+					</details>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export default PaymentMethodsCard;
@@ -0,0 +1,131 @@
+// src/components/accounts/SchemaMigrationCard.tsx
+import React, { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { Database } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useNotification } from '@/contexts/NotificationContext';
+import { MigrationReport, migrateAccount } from '@/services/migrations';
+import { selectCurrentAccount } from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+
+const COLLECTION_LABELS: Record<string, string> = {
+	accounts: 'Account',
+	expenses: 'Expense',
+	budgets: 'Budget',
+	recurringExpenses: 'Recurring expense',
+};
+
+/**
+ * Schema Migration Card
+ * Lets account admins check which stored documents of the current account
+ * are in an outdated shape, and upgrade them all at once
+ */
+const SchemaMigrationCard: React.FC = () => {
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+	const { addNotification } = useNotification();
+
+	const [report, setReport] = useState<MigrationReport | null>(null);
+	const [isRunning, setIsRunning] = useState(false);
+
+	const isAdmin = !!currentAccount?.members.some(
+		(member) => member.uid === user?.firebaseUser.uid && member.role === 'admin'
+	);
+	if (!currentAccount || !isAdmin) return null;
+
+	const run = async (dryRun: boolean) => {
+		try {
+			setIsRunning(true);
+			const result = await migrateAccount(currentAccount.id, { dryRun });
+			setReport(result);
+			if (!dryRun) {
+				addNotification(
+					`Upgraded ${result.upgraded} of ${result.scanned} documents`,
+					result.failures.length > 0 ? 'warning' : 'success'
+				);
+			}
+		} catch (error: any) {
+			addNotification(error.message || 'Failed to check stored data', 'error');
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center'>
+					<Database className='mr-2' /> Stored Data
+				</CardTitle>
+				<CardDescription>
+					Upgrade documents of {currentAccount.name} written by older versions
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				<div className='flex space-x-2'>
+					<Button
+						variant='outline'
+						disabled={isRunning}
+						onClick={() => run(true)}>
+						Check (dry run)
+					</Button>
+					<Button
+						disabled={isRunning || report?.upgraded === 0}
+						onClick={() => run(false)}>
+						{isRunning ? 'Working...' : 'Upgrade now'}
+					</Button>
+				</div>
+
+				{report && (
+					<div className='space-y-3 text-sm'>
+						<p>
+							{report.dryRun
+								? `${report.upgraded} of ${report.scanned} documents would be upgraded.`
+								: `${report.upgraded} of ${report.scanned} documents were upgraded.`}
+						</p>
+
+						{report.failures.map((failure) => (
+							<p
+								key={`${failure.collection}/${failure.docId}`}
+								className='text-red-600'>
+								{COLLECTION_LABELS[failure.collection]} {failure.docId}:{' '}
+								{failure.message}
+							</p>
+						))}
+
+						<ul className='space-y-2 max-h-64 overflow-y-auto'>
+							{report.changes.map((change) => (
+								<li
+									key={`${change.collection}/${change.docId}`}
+									className='border rounded-lg p-2'>
+									<div className='flex items-center space-x-2'>
+										<Badge variant='secondary'>
+											{COLLECTION_LABELS[change.collection]}
+										</Badge>
+										<span className='font-mono text-xs'>{change.docId}</span>
+										<span className='text-muted-foreground'>
+											v{change.fromVersion} → v{change.toVersion}
+										</span>
+									</div>
+									<p className='text-muted-foreground mt-1'>
+										{change.changes.map((field) => field.field).join(', ')}
+									</p>
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export default SchemaMigrationCard;
@@ -0,0 +1,407 @@
+// src/components/accounts/SplitBalances.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { ArrowRight, Scale, Trash2 } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { useNotification } from '@/contexts/NotificationContext';
+import { AppDispatch } from '@/store';
+import {
+	selectCurrentAccount,
+	setCurrentAccount,
+} from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import {
+	getExpenseWindowStart,
+	selectExpenses,
+} from '@/store/slices/expensesSlice';
+import {
+	deleteSettlement,
+	fetchSettlements,
+	recordSettlement,
+	selectOlderSplitExpenses,
+	selectSettlements,
+	selectSettlementsAccountId,
+	selectSettlementsError,
+} from '@/store/slices/settlementsSlice';
+import { SplitUtils } from '@/utils/splitUtils';
+import { DateUtils } from '@/utils/dateUtils';
+
+interface SplitBalancesProps {
+	accountId: string;
+}
+
+interface SettlementForm {
+	from: string;
+	to: string;
+	amount: string;
+	date: string;
+	note: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): SettlementForm => ({
+	from: '',
+	to: '',
+	amount: '',
+	date: today(),
+	note: '',
+});
+
+/**
+ * Split Balances
+ * Shows what each member of an account owes or is owed for split expenses,
+ * the payments that would settle everything, and recorded settle-ups
+ */
+const SplitBalances: React.FC<SplitBalancesProps> = ({ accountId }) => {
+	const dispatch = useDispatch<AppDispatch>();
+	const { addNotification } = useNotification();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+	const expenses = useSelector(selectExpenses);
+	const settlements = useSelector(selectSettlements);
+	const olderSplitExpenses = useSelector(selectOlderSplitExpenses);
+	const settlementsAccountId = useSelector(selectSettlementsAccountId);
+	const settlementsError = useSelector(selectSettlementsError);
+
+	const [form, setForm] = useState<SettlementForm>(emptyForm);
+	const [isSaving, setIsSaving] = useState(false);
+
+	// Expenses are only loaded for the current account
+	const isCurrent = currentAccount?.id === accountId;
+
+	useEffect(() => {
+		if (isCurrent) {
+			dispatch(fetchSettlements(accountId));
+		}
+	}, [dispatch, accountId, isCurrent]);
+
+	// Split expenses from before the live window come with the settlements
+	const isLoaded = settlementsAccountId === accountId;
+	const accountSettlements = isLoaded ? settlements : [];
+	const balances = useMemo(() => {
+		const since = getExpenseWindowStart();
+		return SplitUtils.getBalances(
+			[
+				...(isLoaded ? olderSplitExpenses : []),
+				...expenses.filter(
+					(expense) => expense.accountId === accountId && expense.date >= since
+				),
+			],
+			accountSettlements
+		);
+	}, [expenses, olderSplitExpenses, accountSettlements, accountId, isLoaded]);
+	const transfers = useMemo(
+		() => SplitUtils.getSettleUpTransfers(balances),
+		[balances]
+	);
+
+	if (!isCurrent || !currentAccount) {
+		return (
+			<Card>
+				<CardContent className='pt-6 flex items-center justify-between'>
+					<p className='text-muted-foreground'>
+						Switch to this account to see its balances.
+					</p>
+					<Button
+						variant='outline'
+						onClick={() => dispatch(setCurrentAccount(accountId))}>
+						Switch account
+					</Button>
+				</CardContent>
+			</Card>
+		);
+	}
+
+	const baseCurrency = currentAccount.baseCurrency;
+	const members = currentAccount.members;
+	const isAdmin = members.some(
+		(member) => member.uid === user?.firebaseUser.uid && member.role === 'admin'
+	);
+
+	const formatCurrency = (amount: number): string =>
+		new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency: baseCurrency,
+		}).format(amount);
+
+	// Members who left the account can still have a balance
+	const getMemberName = (uid: string) => {
+		const member = members.find((m) => m.uid === uid);
+		return member ? member.displayName || member.email : 'Former member';
+	};
+
+	const memberUids = Array.from(
+		new Set([...members.map((member) => member.uid), ...Object.keys(balances)])
+	);
+
+	const handleRecord = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const amount = parseFloat(form.amount);
+		if (!form.from || !form.to || !amount) {
+			addNotification('Choose who paid whom and how much', 'error');
+			return;
+		}
+
+		try {
+			setIsSaving(true);
+			await dispatch(
+				recordSettlement({
+					accountId,
+					from: form.from,
+					to: form.to,
+					amount,
+					date: new Date(form.date),
+					note: form.note.trim() || undefined,
+				})
+			).unwrap();
+			addNotification('Payment recorded', 'success');
+			setForm(emptyForm());
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to record payment',
+				'error'
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleDelete = async (id: string) => {
+		try {
+			await dispatch(deleteSettlement(id)).unwrap();
+			addNotification('Payment removed', 'success');
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to remove payment',
+				'error'
+			);
+		}
+	};
+
+	return (
+		<div className='space-y-6'>
+			<Card>
+				<CardHeader>
+					<CardTitle className='flex items-center'>
+						<Scale className='mr-2' /> Balances
+					</CardTitle>
+					<CardDescription>
+						What each member owes or is owed for split expenses, in{' '}
+						{baseCurrency}
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-2'>
+					{settlementsError && (
+						<p className='text-sm text-red-600'>{settlementsError}</p>
+					)}
+					{memberUids.map((uid) => {
+						const balance = balances[uid] || 0;
+						return (
+							<div
+								key={uid}
+								className='flex justify-between items-center border-b pb-2 last:border-b-0'>
+								<span className='font-medium'>{getMemberName(uid)}</span>
+								<span
+									className={
+										balance > 0
+											? 'text-green-600'
+											: balance < 0
+											? 'text-red-600'
+											: 'text-muted-foreground'
+									}>
+									{balance > 0
+										? `is owed ${formatCurrency(balance)}`
+										: balance < 0
+										? `owes ${formatCurrency(-balance)}`
+										: 'settled up'}
+								</span>
+							</div>
+						);
+					})}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Suggested Payments</CardTitle>
+					<CardDescription>
+						The fewest payments that settle all balances
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-2'>
+					{transfers.length === 0 ? (
+						<p className='text-center text-muted-foreground'>
+							Everyone is settled up
+						</p>
+					) : (
+						transfers.map((transfer) => (
+							<div
+								key={`${transfer.from}-${transfer.to}`}
+								className='flex justify-between items-center'>
+								<span className='flex items-center'>
+									{getMemberName(transfer.from)}
+									<ArrowRight className='mx-2 w-4 h-4' />
+									{getMemberName(transfer.to)}:{' '}
+									{formatCurrency(transfer.amount)}
+								</span>
+								<Button
+									variant='outline'
+									size='sm'
+									onClick={() =>
+										setForm({
+											...emptyForm(),
+											from: transfer.from,
+											to: transfer.to,
+											amount: transfer.amount.toFixed(2),
+										})
+									}>
+									Record payment
+								</Button>
+							</div>
+						))
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Settle Up</CardTitle>
+					<CardDescription>
+						Record a payment made between members
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-6'>
+					<form
+						className='grid grid-cols-1 gap-4 sm:grid-cols-2'
+						onSubmit={handleRecord}>
+						<div>
+							<Label>From</Label>
+							<Select
+								value={form.from}
+								onValueChange={(from) => setForm({ ...form, from })}>
+								<SelectTrigger>
+									<SelectValue placeholder='Who paid' />
+								</SelectTrigger>
+								<SelectContent>
+									{members.map((member) => (
+										<SelectItem
+											key={member.uid}
+											value={member.uid}>
+											{member.displayName || member.email}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div>
+							<Label>To</Label>
+							<Select
+								value={form.to}
+								onValueChange={(to) => setForm({ ...form, to })}>
+								<SelectTrigger>
+									<SelectValue placeholder='Who was paid' />
+								</SelectTrigger>
+								<SelectContent>
+									{members.map((member) => (
+										<SelectItem
+											key={member.uid}
+											value={member.uid}>
+											{member.displayName || member.email}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div>
+							<Label htmlFor='settlement-amount'>Amount ({baseCurrency})</Label>
+							<Input
+								id='settlement-amount'
+								type='number'
+								min='0'
+								step='0.01'
+								value={form.amount}
+								onChange={(e) => setForm({ ...form, amount: e.target.value })}
+							/>
+						</div>
+						<div>
+							<Label htmlFor='settlement-date'>Date</Label>
+							<Input
+								id='settlement-date'
+								type='date'
+								value={form.date}
+								onChange={(e) => setForm({ ...form, date: e.target.value })}
+							/>
+						</div>
+						<div className='sm:col-span-2'>
+							<Label htmlFor='settlement-note'>Note (Optional)</Label>
+							<Input
+								id='settlement-note'
+								value={form.note}
+								onChange={(e) => setForm({ ...form, note: e.target.value })}
+							/>
+						</div>
+						<div className='sm:col-span-2 flex justify-end'>
+							<Button
+								type='submit'
+								disabled={isSaving}>
+								{isSaving ? 'Saving...' : 'Record payment'}
+							</Button>
+						</div>
+					</form>
+
+					{accountSettlements.length > 0 && (
+						<ul className='space-y-2'>
+							{accountSettlements.map((settlement) => (
+								<li
+									key={settlement.id}
+									className='flex justify-between items-center border rounded-lg p-2 text-sm'>
+									<div>
+										<p>
+											{getMemberName(settlement.from)} paid{' '}
+											{getMemberName(settlement.to)}{' '}
+											{formatCurrency(settlement.amount)}
+										</p>
+										<p className='text-muted-foreground'>
+											{DateUtils.formatDate(settlement.date)}
+											{settlement.note && ` · ${settlement.note}`}
+										</p>
+									</div>
+									{(isAdmin ||
+										settlement.createdBy.uid === user?.firebaseUser.uid) && (
+										<Button
+											variant='ghost'
+											size='icon'
+											aria-label='Remove payment'
+											onClick={() => handleDelete(settlement.id)}>
+											<Trash2 className='w-4 h-4' />
+										</Button>
+									)}
+								</li>
+							))}
+						</ul>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default SplitBalances;
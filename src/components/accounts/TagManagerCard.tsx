@@ -0,0 +1,179 @@
+// src/components/accounts/TagManagerCard.tsx
+import React, { useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Tags } from 'lucide-react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import { useNotification } from '@/contexts/NotificationContext';
+import { AppDispatch } from '@/store';
+import { selectCurrentAccount } from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import {
+	replaceExpenseTag,
+	selectExpenses,
+} from '@/store/slices/expensesSlice';
+import { TagUtils } from '@/utils/tagUtils';
+
+/**
+ * Tag Manager Card
+ * Lets account admins rename, merge and delete tags across every expense
+ * of the current account. Renaming a tag to one that exists merges them.
+ */
+const TagManagerCard: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+	const expenses = useSelector(selectExpenses);
+	const { addNotification } = useNotification();
+
+	// Tag being renamed, with the name typed so far
+	const [editing, setEditing] = useState<{ tag: string; name: string } | null>(
+		null
+	);
+	const [deleting, setDeleting] = useState<string | null>(null);
+	const [busyTag, setBusyTag] = useState<string | null>(null);
+
+	const usage = useMemo(() => TagUtils.getUsage(expenses), [expenses]);
+
+	const isAdmin = !!currentAccount?.members.some(
+		(member) => member.uid === user?.firebaseUser.uid && member.role === 'admin'
+	);
+	if (!currentAccount || !isAdmin) return null;
+
+	// Renaming to an existing tag, in any case, merges into it
+	const mergeTarget = editing
+		? usage.find(
+				({ tag }) =>
+					tag !== editing.tag &&
+					tag.toLowerCase() === editing.name.trim().toLowerCase()
+		  )?.tag
+		: undefined;
+
+	const replace = async (tag: string, replacement: string | null) => {
+		try {
+			setBusyTag(tag);
+			const result = await dispatch(
+				replaceExpenseTag({ accountId: currentAccount.id, tag, replacement })
+			).unwrap();
+			addNotification(
+				`${result.batch.description}. You can undo this from the expense list.`,
+				'success'
+			);
+			setEditing(null);
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to update tag',
+				'error'
+			);
+		} finally {
+			setBusyTag(null);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center'>
+					<Tags className='mr-2' /> Tags
+				</CardTitle>
+				<CardDescription>
+					Rename, merge or delete tags on every expense in {currentAccount.name}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-2'>
+				{usage.length === 0 && (
+					<p className='text-sm text-muted-foreground'>
+						No expenses in this account have tags yet.
+					</p>
+				)}
+
+				{usage.map(({ tag, count }) =>
+					editing?.tag === tag ? (
+						<form
+							key={tag}
+							onSubmit={(e) => {
+								e.preventDefault();
+								replace(tag, mergeTarget ?? editing.name);
+							}}
+							className='flex items-center gap-2'>
+							<Input
+								aria-label={`New name for ${tag}`}
+								value={editing.name}
+								onChange={(e) => setEditing({ tag, name: e.target.value })}
+								autoFocus
+							/>
+							<Button
+								type='submit'
+								disabled={busyTag !== null || !editing.name.trim()}>
+								{busyTag === tag
+									? 'Saving...'
+									: mergeTarget
+									? `Merge into ${mergeTarget}`
+									: 'Rename'}
+							</Button>
+							<Button
+								type='button'
+								variant='ghost'
+								disabled={busyTag !== null}
+								onClick={() => setEditing(null)}>
+								Cancel
+							</Button>
+						</form>
+					) : (
+						<div
+							key={tag}
+							className='flex items-center justify-between gap-2'>
+							<div className='flex items-center gap-2'>
+								<span className='font-medium'>{tag}</span>
+								<Badge variant='secondary'>
+									{count} expense{count === 1 ? '' : 's'}
+								</Badge>
+							</div>
+							<div className='flex gap-1'>
+								<Button
+									variant='ghost'
+									size='sm'
+									disabled={busyTag !== null}
+									onClick={() => setEditing({ tag, name: tag })}>
+									Rename
+								</Button>
+								<Button
+									variant='ghost'
+									size='sm'
+									disabled={busyTag !== null}
+									onClick={() => setDeleting(tag)}>
+									{busyTag === tag ? 'Deleting...' : 'Delete'}
+								</Button>
+							</div>
+						</div>
+					)
+				)}
+			</CardContent>
+
+			<ConfirmDialog
+				isOpen={deleting !== null}
+				onClose={() => setDeleting(null)}
+				onConfirm={() => {
+					if (deleting) replace(deleting, null);
+					setDeleting(null);
+				}}
+				title='Delete Tag'
+				message={`Remove the tag "${deleting}" from every expense in ${currentAccount.name}? The expenses themselves are kept.`}
+				confirmText='Delete Tag'
+				cancelText='Cancel'
+				variant='destructive'
+			/>
+		</Card>
+	);
+};
+
+export default TagManagerCard;
@@ -3,10 +3,14 @@ import { Budget } from '../../types';
 
 interface BudgetProgressBarProps {
 	budget: Budget;
+	// Amount spent against the budget, in the account's base currency
+	spent: number;
 }
 
-const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({ budget }) => {
-	const spent = budget.spent || 0;
+const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({
+	budget,
+	spent,
+}) => {
 	const percentSpent = Math.min((spent / budget.amount) * 100, 100);
 	const remaining = Math.max(budget.amount - spent, 0);
 
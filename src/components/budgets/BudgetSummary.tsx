@@ -5,14 +5,23 @@ import BudgetProgressBar from './BudgetProgressBar';
 
 interface BudgetSummaryProps {
 	budgets: Budget[];
+	// Spent against each budget, keyed by budget id
+	budgetSpent: Record<string, number>;
 }
 
-const BudgetSummary: React.FC<BudgetSummaryProps> = ({ budgets }) => {
+const BudgetSummary: React.FC<BudgetSummaryProps> = ({
+	budgets,
+	budgetSpent,
+}) => {
 	// Filter active budgets (end date is in the future)
 	const activeBudgets = budgets.filter(
 		(budget) => new Date(budget.endDate) >= new Date()
 	);
 
+	const spentByBudget = new Map(
+		activeBudgets.map((budget) => [budget.id, budgetSpent[budget.id] || 0])
+	);
+
 	// Calculate total budgeted amount
 	const totalBudgeted = activeBudgets.reduce(
 		(total, budget) => total + budget.amount,
@@ -21,13 +30,13 @@ const BudgetSummary: React.FC<BudgetSummaryProps> = ({ budgets }) => {
 
 	// Calculate total spent amount
 	const totalSpent = activeBudgets.reduce(
-		(total, budget) => total + (budget['spent'] || 0),
+		(total, budget) => total + (spentByBudget.get(budget.id) || 0),
 		0
 	);
 
 	// Determine number of budgets over limit
 	const overBudgetCount = activeBudgets.filter(
-		(budget) => (budget['spent'] || 0) > budget.amount
+		(budget) => (spentByBudget.get(budget.id) || 0) > budget.amount
 	).length;
 
 	// Format currency
@@ -127,7 +136,10 @@ const BudgetSummary: React.FC<BudgetSummaryProps> = ({ budgets }) => {
 								{formatCurrency(budget.amount)}
 							</p>
 						</div>
-						<BudgetProgressBar budget={budget} />
+						<BudgetProgressBar
+							budget={budget}
+							spent={spentByBudget.get(budget.id) || 0}
+						/>
 					</div>
 				))}
 			</div>
@@ -1,8 +1,10 @@
 // src/components/dashboard/RecentActivity.tsx
 import React from 'react';
+import { useSelector } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Expense } from '../../types';
+import { selectLiveActivity } from '../../store/slices/expensesSlice';
 
 interface RecentActivityProps {
 	expenses: Expense[];
@@ -16,6 +18,8 @@ const RecentActivity: React.FC<RecentActivityProps> = ({
 	loading = false,
 }) => {
 	const navigate = useNavigate();
+	// Changes other members made while this page was open
+	const liveActivity = useSelector(selectLiveActivity);
 
 	// Get at most 5 most recent expenses
 	const recentExpenses = [...expenses]
@@ -32,8 +36,8 @@ const RecentActivity: React.FC<RecentActivityProps> = ({
 	};
 
 	// Format date
-	const formatDate = (dateString: string): string => {
-		const date = new Date(dateString);
+	const formatDate = (value: Date | string): string => {
+		const date = new Date(value);
 		const today = new Date();
 		const yesterday = new Date(today);
 		yesterday.setDate(yesterday.getDate() - 1);
@@ -188,10 +192,21 @@ const RecentActivity: React.FC<RecentActivityProps> = ({
 											{expense.category}
 										</p>
 									</div>
+									{liveActivity[expense.id] && (
+										<p className='flex items-center mt-1 text-xs text-blue-600 dark:text-blue-400'>
+											<span className='h-1.5 w-1.5 mr-1.5 rounded-full bg-blue-500 animate-pulse'></span>
+											{liveActivity[expense.id].type === 'added'
+												? 'Added'
+												: 'Updated'}{' '}
+											by{' '}
+											{liveActivity[expense.id].by.displayName ||
+												'another member'}
+										</p>
+									)}
 								</div>
 							</div>
 							<div className='text-sm font-medium text-gray-900 dark:text-white'>
-								{formatCurrency(expense.amount)}
+								{formatCurrency(expense.amountInBaseCurrency)}
 							</div>
 						</div>
 					</div>
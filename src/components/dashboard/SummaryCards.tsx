@@ -1,57 +1,45 @@
 // src/components/dashboard/SummaryCards.tsx
-import React from 'react';
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
-import { Expense, Budget } from '../../types';
+import { Budget } from '../../types';
+import {
+	fetchExpenseTotals,
+	selectExpenseTotals,
+} from '../../store/slices/expensesSlice';
+import { AppDispatch } from '../../store';
+import { BudgetUtils } from '../../utils/budgetUtils';
 
 interface SummaryCardsProps {
-	expenses: Expense[];
 	budgets: Budget[];
 	accountId: string;
 	baseCurrency: string;
 }
 
 const SummaryCards: React.FC<SummaryCardsProps> = ({
-	expenses,
 	budgets,
 	accountId,
 	baseCurrency,
 }) => {
+	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
+	const loadedTotals = useSelector(selectExpenseTotals);
 
-	// Calculate total expenses for current month
-	const getCurrentMonthExpenses = () => {
-		const now = new Date();
-		const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+	// Totals are counted by the database instead of from loaded expenses,
+	// and recounted when budgets change rather than whenever a new array is
+	// passed in
+	const budgetsKey = BudgetUtils.getSpendingKey(budgets);
+	useEffect(() => {
+		dispatch(fetchExpenseTotals(accountId));
+	}, [dispatch, accountId, budgetsKey]);
 
-		return expenses
-			.filter((expense) => new Date(expense.date) >= firstDayOfMonth)
-			.reduce((total, expense) => total + expense.amount, 0);
-	};
+	const totals = loadedTotals?.accountId === accountId ? loadedTotals : null;
 
-	// Calculate total expenses for previous month
-	const getPreviousMonthExpenses = () => {
-		const now = new Date();
-		const firstDayOfCurrentMonth = new Date(
-			now.getFullYear(),
-			now.getMonth(),
-			1
-		);
-		const firstDayOfPreviousMonth = new Date(
-			now.getFullYear(),
-			now.getMonth() - 1,
-			1
-		);
+	// Total expenses for current month
+	const getCurrentMonthExpenses = () => totals?.currentMonth ?? 0;
 
-		return expenses
-			.filter((expense) => {
-				const expenseDate = new Date(expense.date);
-				return (
-					expenseDate >= firstDayOfPreviousMonth &&
-					expenseDate < firstDayOfCurrentMonth
-				);
-			})
-			.reduce((total, expense) => total + expense.amount, 0);
-	};
+	// Total expenses for previous month
+	const getPreviousMonthExpenses = () => totals?.previousMonth ?? 0;
 
 	// Get remaining budget for the current month
 	const getRemainingBudget = () => {
@@ -67,7 +55,7 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({
 			0
 		);
 		const totalSpent = activeBudgets.reduce(
-			(sum, budget) => sum + (budget.spent || 0),
+			(sum, budget) => sum + (totals?.budgetSpent[budget.id] ?? 0),
 			0
 		);
 
@@ -76,15 +64,8 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({
 
 	// Calculate average daily spending for current month
 	const getDailyAverage = () => {
-		const now = new Date();
-		const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-		const daysSoFar = Math.max(1, now.getDate()); // At least 1 to avoid division by zero
-
-		const totalThisMonth = expenses
-			.filter((expense) => new Date(expense.date) >= firstDayOfMonth)
-			.reduce((total, expense) => total + expense.amount, 0);
-
-		return totalThisMonth / daysSoFar;
+		const daysSoFar = Math.max(1, new Date().getDate()); // At least 1 to avoid division by zero
+		return getCurrentMonthExpenses() / daysSoFar;
 	};
 
 	// Calculate month-over-month percentage change
@@ -210,7 +191,7 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({
 					Recent Activity
 				</h3>
 				<p className='text-2xl font-bold text-gray-900 dark:text-white'>
-					{expenses.length > 0 ? expenses.length : 0}
+					{totals?.count ?? 0}
 				</p>
 				<div className='mt-1'>
 					<span className='text-sm text-gray-500 dark:text-gray-400'>
@@ -0,0 +1,160 @@
+// src/components/expenses/BulkActionBar.tsx
+import React, { useState } from 'react';
+import { BulkExpenseChanges } from '../../store/slices/expensesSlice';
+import { Account, PaymentMethod } from '../../models/types';
+import { PaymentMethodUtils } from '../../utils/paymentMethodUtils';
+
+interface BulkActionBarProps {
+	selectedCount: number;
+	categories: string[];
+	// Payment methods the selection can be given
+	paymentMethods: PaymentMethod[];
+	// Accounts the selection can be moved to
+	moveTargets: Account[];
+	busy: boolean;
+	onUpdate: (changes: BulkExpenseChanges) => void;
+	onMove: (accountId: string) => void;
+	onDelete: () => void;
+	onClearSelection: () => void;
+}
+
+const controlClassName =
+	'text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white disabled:opacity-50';
+
+// Option value that clears the payment method
+const NO_PAYMENT_METHOD = 'none';
+
+/**
+ * Bulk Action Bar
+ * Actions applied to every selected expense at once
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+	selectedCount,
+	categories,
+	paymentMethods,
+	moveTargets,
+	busy,
+	onUpdate,
+	onMove,
+	onDelete,
+	onClearSelection,
+}) => {
+	const [tag, setTag] = useState('');
+
+	const handleTag = (action: 'addTags' | 'removeTags') => {
+		const name = tag.trim();
+		if (!name) return;
+		onUpdate({ [action]: [name] });
+		setTag('');
+	};
+
+	return (
+		<div className='flex flex-wrap items-center gap-3 p-4 mb-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg'>
+			<span className='text-sm font-medium text-blue-800 dark:text-blue-200'>
+				{selectedCount} selected
+			</span>
+
+			<select
+				aria-label='Change category'
+				value=''
+				disabled={busy}
+				onChange={(e) =>
+					e.target.value && onUpdate({ category: e.target.value })
+				}
+				className={controlClassName}>
+				<option value=''>Change category...</option>
+				{categories.map((category) => (
+					<option
+						key={category}
+						value={category}>
+						{category}
+					</option>
+				))}
+			</select>
+
+			{paymentMethods.length > 0 && (
+				<select
+					aria-label='Change payment method'
+					value=''
+					disabled={busy}
+					onChange={(e) =>
+						e.target.value &&
+						onUpdate({
+							paymentMethodId:
+								e.target.value === NO_PAYMENT_METHOD ? null : e.target.value,
+						})
+					}
+					className={controlClassName}>
+					<option value=''>Change payment method...</option>
+					{paymentMethods.map((method) => (
+						<option
+							key={method.id}
+							value={method.id}>
+							{PaymentMethodUtils.getLabel(method)}
+						</option>
+					))}
+					<option value={NO_PAYMENT_METHOD}>Clear payment method</option>
+				</select>
+			)}
+
+			<div className='flex items-center space-x-1'>
+				<input
+					type='text'
+					aria-label='Tag'
+					placeholder='Tag'
+					value={tag}
+					disabled={busy}
+					onChange={(e) => setTag(e.target.value)}
+					onKeyDown={(e) => e.key === 'Enter' && handleTag('addTags')}
+					className={`w-28 ${controlClassName}`}
+				/>
+				<button
+					onClick={() => handleTag('addTags')}
+					disabled={busy || !tag.trim()}
+					className='px-2 py-1 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50'>
+					Add tag
+				</button>
+				<button
+					onClick={() => handleTag('removeTags')}
+					disabled={busy || !tag.trim()}
+					className='px-2 py-1 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50'>
+					Remove tag
+				</button>
+			</div>
+
+			{moveTargets.length > 0 && (
+				<select
+					aria-label='Move to account'
+					value=''
+					disabled={busy}
+					onChange={(e) => e.target.value && onMove(e.target.value)}
+					className={controlClassName}>
+					<option value=''>Move to account...</option>
+					{moveTargets.map((account) => (
+						<option
+							key={account.id}
+							value={account.id}>
+							{account.name}
+						</option>
+					))}
+				</select>
+			)}
+
+			<button
+				onClick={onDelete}
+				disabled={busy}
+				className='px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition duration-200 disabled:opacity-50'>
+				Delete
+			</button>
+
+			<button
+				onClick={onClearSelection}
+				disabled={busy}
+				className='ml-auto text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50'>
+				{busy ? 'Working...' : 'Clear selection'}
+			</button>
+		</div>
+	);
+};
+
+export default BulkActionBar;
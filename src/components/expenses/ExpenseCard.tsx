@@ -1,7 +1,12 @@
 // src/components/expenses/ExpenseCard.tsx
 import React from 'react';
 import { format } from 'date-fns';
-import { Expense } from '../../types';
+import { Expense } from '../../models/types';
+import { ReceiptThumbnail } from './ReceiptViewer';
+import ExpenseStatusBadge from './ExpenseStatusBadge';
+
+// Receipts previewed on the card; the rest are counted
+const MAX_THUMBNAILS = 3;
 
 interface ExpenseCardProps {
 	expense: Expense;
@@ -16,6 +21,8 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({
 	compact = false,
 	showReceipt = false,
 }) => {
+	const receiptUrls = expense.receiptUrls ?? [];
+
 	// Format date
 	const formatDate = (dateString: string | Date): string => {
 		const date = new Date(dateString);
@@ -40,6 +47,55 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({
 		}).format(amount);
 	};
 
+	// Sync state badge for changes made offline
+	const renderSyncStatus = (): JSX.Element | null => {
+		switch (expense.syncStatus) {
+			case 'pending':
+				return (
+					<span
+						className='text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300'
+						title='Saved on this device, will sync when back online'>
+						Pending sync
+					</span>
+				);
+			case 'conflict':
+				return (
+					<span
+						className='text-xs font-medium px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300'
+						title='Changed by someone else while offline, the newer server values were kept'>
+						Sync conflict
+					</span>
+				);
+			case 'failed':
+				return (
+					<span
+						className='text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+						title='The offline change could not be saved'>
+						Sync failed
+					</span>
+				);
+			case 'synced':
+				return (
+					<span
+						className='text-green-600 dark:text-green-400'
+						title='Synced'>
+						<svg
+							className='h-3.5 w-3.5'
+							fill='currentColor'
+							viewBox='0 0 20 20'>
+							<path
+								fillRule='evenodd'
+								d='M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z'
+								clipRule='evenodd'
+							/>
+						</svg>
+					</span>
+				);
+			default:
+				return null;
+		}
+	};
+
 	// Get category color class
 	const getCategoryColorClass = (category: string): string => {
 		const categoryColorMap: Record<string, string> = {
@@ -145,9 +201,12 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({
 						<p className='text-sm font-medium text-gray-900 dark:text-white truncate max-w-[150px]'>
 							{expense.description}
 						</p>
-						<p className='text-xs text-gray-500 dark:text-gray-400'>
-							{formatDate(expense.date)}
-						</p>
+						<div className='flex items-center gap-2'>
+							<p className='text-xs text-gray-500 dark:text-gray-400'>
+								{formatDate(expense.date)}
+							</p>
+							{renderSyncStatus()}
+						</div>
 					</div>
 				</div>
 				<span className='text-sm font-medium text-gray-900 dark:text-white'>
@@ -186,6 +245,14 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({
 									)}`}>
 									{expense.category}
 								</span>
+								<span className='ml-2'>
+									<ExpenseStatusBadge expense={expense} />
+								</span>
+								{expense.syncStatus && (
+									<span className='ml-2 flex items-center'>
+										{renderSyncStatus()}
+									</span>
+								)}
 							</div>
 						</div>
 					</div>
@@ -194,23 +261,23 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({
 					</span>
 				</div>
 
-				{showReceipt && expense.receiptUrl && (
-					<div className='mt-4 border-t border-gray-200 dark:border-gray-700 pt-3'>
-						<div className='flex items-center text-sm text-blue-600 dark:text-blue-400'>
-							<svg
-								className='h-4 w-4 mr-1'
-								fill='none'
-								viewBox='0 0 24 24'
-								stroke='currentColor'>
-								<path
-									strokeLinecap='round'
-									strokeLinejoin='round'
-									strokeWidth={2}
-									d='M15 7v5m4 8l-4-4m0 0l-4 4m4-4V7'
+				{showReceipt && receiptUrls.length > 0 && (
+					<div className='mt-4 border-t border-gray-200 dark:border-gray-700 pt-3 flex items-center'>
+						<div className='flex -space-x-2'>
+							{receiptUrls.slice(0, MAX_THUMBNAILS).map((url, index) => (
+								<ReceiptThumbnail
+									key={url}
+									url={url}
+									index={index}
+									className='h-10 w-10 ring-2 ring-white dark:ring-gray-800'
 								/>
-							</svg>
-							<span>Receipt attached</span>
+							))}
 						</div>
+						<span className='ml-3 text-sm text-gray-500 dark:text-gray-400'>
+							{receiptUrls.length === 1
+								? '1 receipt'
+								: `${receiptUrls.length} receipts`}
+						</span>
 					</div>
 				)}
 			</div>
@@ -1,6 +1,18 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useSelector } from 'react-redux';
-import { selectExpenseCategories } from '../../store/slices/expensesSlice';
+import {
+	selectExpenseCategories,
+	selectExpenses,
+} from '../../store/slices/expensesSlice';
+import { selectCurrentAccount } from '../../store/slices/accountsSlice';
+import { usePaymentMethods } from '../../hooks/usePaymentMethods';
+import { PaymentMethodUtils } from '../../utils/paymentMethodUtils';
+import {
+	ExpenseQuerySuggestion,
+	applyExpenseQuerySuggestion,
+	getExpenseQuerySuggestions,
+	parseExpenseQuery,
+} from '../../../shared/expenseQuery';
 
 // Types
 interface DateRange {
@@ -12,22 +24,115 @@ interface ExpenseFiltersProps {
 	onCategoryChange: (category: string) => void;
 	onDateRangeChange: (dateRange: DateRange | null) => void;
 	onSearchChange: (query: string) => void;
+	onTagsChange: (tags: string[]) => void;
+	onPaymentMethodChange: (paymentMethodId: string | null) => void;
 	selectedCategory: string;
 	selectedDateRange: DateRange | null;
 	searchQuery: string;
+	selectedTags: string[];
+	selectedPaymentMethodId?: string;
 }
 
 const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 	onCategoryChange,
 	onDateRangeChange,
 	onSearchChange,
+	onTagsChange,
+	onPaymentMethodChange,
 	selectedCategory = 'all',
 	selectedDateRange = null,
 	searchQuery = '',
+	selectedTags = [],
+	selectedPaymentMethodId,
 }) => {
 	const categories = useSelector(selectExpenseCategories);
+	const expenses = useSelector(selectExpenses);
+	const currentAccount = useSelector(selectCurrentAccount);
+	// Archived methods stay listed, since older expenses were paid with them
+	const paymentMethods = usePaymentMethods(currentAccount?.id);
+	const selectedPaymentMethod = paymentMethods.find(
+		(method) => method.id === selectedPaymentMethodId
+	);
 	const [isExpanded, setIsExpanded] = useState(false);
 
+	// Search autocomplete
+	const searchInputRef = useRef<HTMLInputElement>(null);
+	const [searchCursor, setSearchCursor] = useState(0);
+	const [showSuggestions, setShowSuggestions] = useState(false);
+	const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
+
+	const queryContext = useMemo(
+		() => ({
+			categories,
+			tags: Array.from(
+				new Set(expenses.flatMap((expense) => expense.tags || []))
+			).sort(),
+			members: (currentAccount?.members || []).map(
+				(member) => member.displayName
+			),
+		}),
+		[categories, expenses, currentAccount]
+	);
+
+	const suggestions = useMemo(
+		() =>
+			showSuggestions
+				? getExpenseQuerySuggestions(searchQuery, searchCursor, queryContext)
+				: [],
+		[showSuggestions, searchQuery, searchCursor, queryContext]
+	);
+	const highlighted = Math.min(highlightedSuggestion, suggestions.length - 1);
+
+	// Tags in use, plus any a saved view filters on that are no longer used
+	const tagOptions = useMemo(
+		() => Array.from(new Set([...queryContext.tags, ...selectedTags])).sort(),
+		[queryContext.tags, selectedTags]
+	);
+
+	const toggleTag = (tag: string) =>
+		onTagsChange(
+			selectedTags.includes(tag)
+				? selectedTags.filter((name) => name !== tag)
+				: [...selectedTags, tag]
+		);
+
+	const queryErrors = useMemo(
+		() => parseExpenseQuery(searchQuery).errors,
+		[searchQuery]
+	);
+
+	const applySuggestion = (suggestion: ExpenseQuerySuggestion) => {
+		const { query, cursor } = applyExpenseQuerySuggestion(
+			searchQuery,
+			suggestion
+		);
+		onSearchChange(query);
+		setSearchCursor(cursor);
+		setHighlightedSuggestion(0);
+		// Move the caret once the input shows the new query
+		requestAnimationFrame(() => {
+			searchInputRef.current?.focus();
+			searchInputRef.current?.setSelectionRange(cursor, cursor);
+		});
+	};
+
+	const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (suggestions.length === 0) return;
+
+		if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+			e.preventDefault();
+			const step = e.key === 'ArrowDown' ? 1 : -1;
+			setHighlightedSuggestion(
+				(highlighted + step + suggestions.length) % suggestions.length
+			);
+		} else if (e.key === 'Enter' || e.key === 'Tab') {
+			e.preventDefault();
+			applySuggestion(suggestions[highlighted]);
+		} else if (e.key === 'Escape') {
+			setShowSuggestions(false);
+		}
+	};
+
 	// Pre-defined date ranges
 	const dateRanges = [
 		{ id: 'today', label: 'Today' },
@@ -128,6 +233,8 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 		onCategoryChange('all');
 		onDateRangeChange(null);
 		onSearchChange('');
+		onTagsChange([]);
+		onPaymentMethodChange(null);
 		setSelectedPreset(null);
 		setShowCustomRange(false);
 		setCustomStartDate('');
@@ -137,7 +244,9 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 	const areFiltersActive =
 		selectedCategory !== 'all' ||
 		!!selectedDateRange ||
-		searchQuery.trim() !== '';
+		searchQuery.trim() !== '' ||
+		selectedTags.length > 0 ||
+		!!selectedPaymentMethodId;
 
 	return (
 		<div className='bg-white dark:bg-gray-800 rounded-lg shadow mb-6 p-4'>
@@ -146,10 +255,28 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 				<div className='flex-grow'>
 					<div className='relative'>
 						<input
+							ref={searchInputRef}
 							type='search'
 							value={searchQuery}
-							onChange={(e) => onSearchChange(e.target.value)}
-							placeholder='Search expenses...'
+							onChange={(e) => {
+								onSearchChange(e.target.value);
+								setSearchCursor(
+									e.target.selectionStart ?? e.target.value.length
+								);
+								setShowSuggestions(true);
+								setHighlightedSuggestion(0);
+							}}
+							onSelect={(e) =>
+								setSearchCursor(e.currentTarget.selectionStart ?? 0)
+							}
+							onKeyDown={handleSearchKeyDown}
+							onFocus={() => setShowSuggestions(true)}
+							onBlur={() => setShowSuggestions(false)}
+							placeholder='Search, e.g. amount>50 tag:work "coffee"'
+							role='combobox'
+							aria-autocomplete='list'
+							aria-expanded={suggestions.length > 0}
+							aria-controls='expense-search-suggestions'
 							className='w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-gray-100'
 						/>
 						<svg
@@ -163,7 +290,43 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 								clipRule='evenodd'
 							/>
 						</svg>
+
+						{suggestions.length > 0 && (
+							<ul
+								id='expense-search-suggestions'
+								role='listbox'
+								className='absolute z-10 mt-1 w-full max-h-64 overflow-auto rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-lg'>
+								{suggestions.map((suggestion, index) => (
+									<li
+										key={suggestion.text}
+										role='option'
+										aria-selected={index === highlighted}
+										// Keep focus in the input
+										onMouseDown={(e) => e.preventDefault()}
+										onClick={() => applySuggestion(suggestion)}
+										className={`flex justify-between px-4 py-2 text-sm cursor-pointer ${
+											index === highlighted
+												? 'bg-blue-50 dark:bg-blue-900/30'
+												: 'hover:bg-gray-50 dark:hover:bg-gray-600'
+										}`}>
+										<span className='text-gray-900 dark:text-gray-100'>
+											{suggestion.label}
+										</span>
+										{suggestion.description && (
+											<span className='text-gray-500 dark:text-gray-400'>
+												{suggestion.description}
+											</span>
+										)}
+									</li>
+								))}
+							</ul>
+						)}
 					</div>
+					{queryErrors.length > 0 && (
+						<p className='mt-1 text-sm text-red-600 dark:text-red-400'>
+							{queryErrors.join('; ')}
+						</p>
+					)}
 				</div>
 
 				<button
@@ -248,6 +411,29 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 						</select>
 					</div>
 
+					{/* Payment Method Filter */}
+					{paymentMethods.length > 0 && (
+						<div>
+							<label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+								Paid With
+							</label>
+							<select
+								value={selectedPaymentMethodId || ''}
+								onChange={(e) => onPaymentMethodChange(e.target.value || null)}
+								className='w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'>
+								<option value=''>All Payment Methods</option>
+								{paymentMethods.map((method) => (
+									<option
+										key={method.id}
+										value={method.id}>
+										{PaymentMethodUtils.getLabel(method)}
+										{method.archived ? ' (archived)' : ''}
+									</option>
+								))}
+							</select>
+						</div>
+					)}
+
 					{/* Custom Date Range */}
 					{showCustomRange && (
 						<div className='md:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-4'>
@@ -282,6 +468,30 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 							</div>
 						</div>
 					)}
+
+					{/* Tags Filter */}
+					{tagOptions.length > 0 && (
+						<div className='md:col-span-2'>
+							<span className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+								Tags
+							</span>
+							<div className='flex flex-wrap gap-2'>
+								{tagOptions.map((tag) => (
+									<button
+										key={tag}
+										onClick={() => toggleTag(tag)}
+										aria-pressed={selectedTags.includes(tag)}
+										className={`px-3 py-1 rounded-full text-sm transition duration-200 ${
+											selectedTags.includes(tag)
+												? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+												: 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+										}`}>
+										{tag}
+									</button>
+								))}
+							</div>
+						</div>
+					)}
 				</div>
 			)}
 
@@ -339,6 +549,49 @@ const ExpenseFilters: React.FC<ExpenseFiltersProps> = ({
 						</span>
 					)}
 
+					{selectedTags.length > 0 && (
+						<span className='inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'>
+							Tags: {selectedTags.join(', ')}
+							<button
+								onClick={() => onTagsChange([])}
+								className='ml-1 text-yellow-600 hover:text-yellow-800 dark:text-yellow-400 focus:outline-none'>
+								<svg
+									className='h-4 w-4'
+									fill='currentColor'
+									viewBox='0 0 20 20'>
+									<path
+										fillRule='evenodd'
+										d='M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z'
+										clipRule='evenodd'
+									/>
+								</svg>
+							</button>
+						</span>
+					)}
+
+					{selectedPaymentMethodId && (
+						<span className='inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300'>
+							Paid with:{' '}
+							{selectedPaymentMethod
+								? PaymentMethodUtils.getLabel(selectedPaymentMethod)
+								: 'Unknown method'}
+							<button
+								onClick={() => onPaymentMethodChange(null)}
+								className='ml-1 text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 focus:outline-none'>
+								<svg
+									className='h-4 w-4'
+									fill='currentColor'
+									viewBox='0 0 20 20'>
+									<path
+										fillRule='evenodd'
+										d='M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z'
+										clipRule='evenodd'
+									/>
+								</svg>
+							</button>
+						</span>
+					)}
+
 					{searchQuery.trim() !== '' && (
 						<span className='inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300'>
 							Search: "{searchQuery}"
@@ -0,0 +1,174 @@
+// src/components/expenses/ExpenseHistory.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DateUtils } from '@/utils/dateUtils';
+import { useNotification } from '@/contexts/NotificationContext';
+import { auditTrail, getExpenseHistory } from '@/services/auditTrail';
+import { updateExpense } from '@/store/slices/expensesSlice';
+import { AppDispatch } from '@/store';
+import { AuditAction, AuditEntry, Expense } from '@/models/types';
+
+interface ExpenseHistoryProps {
+	expense: Expense;
+	onReverted: (expense: Expense) => void;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+	create: 'Created',
+	update: 'Updated',
+	delete: 'Deleted',
+	revert: 'Reverted',
+	restore: 'Restored',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+	amountInBaseCurrency: 'Amount (base currency)',
+	exchangeRate: 'Exchange rate',
+	receiptUrls: 'Receipts',
+	isRecurring: 'Recurring',
+	recurringId: 'Recurring template',
+	lineItems: 'Line items',
+};
+
+const fieldLabel = (field: string) =>
+	FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1);
+
+const formatValue = (value: unknown): string => {
+	if (value === null || value === undefined || value === '') return '—';
+	if (value instanceof Date) return DateUtils.formatDate(value, 'MMM d, yyyy');
+	if (Array.isArray(value)) {
+		return value.length > 0 ? value.map(formatValue).join(', ') : '—';
+	}
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+};
+
+const ExpenseHistory: React.FC<ExpenseHistoryProps> = ({
+	expense,
+	onReverted,
+}) => {
+	const dispatch = useDispatch<AppDispatch>();
+	const { addNotification } = useNotification();
+
+	const [entries, setEntries] = useState<AuditEntry[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [revertingId, setRevertingId] = useState<string | null>(null);
+
+	const loadHistory = useCallback(async () => {
+		try {
+			setIsLoading(true);
+			setEntries(await getExpenseHistory(expense.id));
+		} catch (error) {
+			addNotification('Failed to load expense history', 'error');
+		} finally {
+			setIsLoading(false);
+		}
+	}, [expense.id, addNotification]);
+
+	useEffect(() => {
+		loadHistory();
+	}, [loadHistory]);
+
+	// Restore the expense as it was after the entry's change
+	const handleRevert = async (entry: AuditEntry) => {
+		try {
+			setRevertingId(entry.id);
+			const reverted = await dispatch(
+				updateExpense({
+					id: expense.id,
+					updates: auditTrail.getRevertUpdates(entry, expense),
+					revertedTo: entry.id,
+				})
+			).unwrap();
+			addNotification('Expense reverted', 'success');
+			onReverted(reverted);
+			await loadHistory();
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to revert expense',
+				'error'
+			);
+		} finally {
+			setRevertingId(null);
+		}
+	};
+
+	if (isLoading) {
+		return <p className='text-sm text-muted-foreground'>Loading history...</p>;
+	}
+
+	if (entries.length === 0) {
+		return (
+			<div className='flex items-center space-x-2 text-muted-foreground'>
+				<History className='h-4 w-4' />
+				<p className='text-sm'>No changes have been recorded yet.</p>
+			</div>
+		);
+	}
+
+	return (
+		<ol className='space-y-4'>
+			{entries.map((entry, index) => (
+				<li
+					key={entry.id}
+					className='border rounded-lg p-4'>
+					<div className='flex items-start justify-between'>
+						<div>
+							<div className='flex items-center space-x-2'>
+								<Badge
+									variant={
+										entry.action === 'delete' ? 'destructive' : 'secondary'
+									}>
+									{ACTION_LABELS[entry.action]}
+								</Badge>
+								<span className='text-sm font-medium'>
+									{entry.actor.displayName || 'Unknown member'}
+								</span>
+							</div>
+							<p className='text-xs text-muted-foreground mt-1'>
+								{DateUtils.formatDate(entry.at, 'MMM d, yyyy h:mm a')}
+							</p>
+						</div>
+
+						{/* The newest entry is the current version */}
+						{index > 0 && entry.action !== 'delete' && (
+							<Button
+								variant='outline'
+								size='sm'
+								disabled={revertingId !== null}
+								onClick={() => handleRevert(entry)}>
+								<RotateCcw className='h-4 w-4 mr-1' />
+								{revertingId === entry.id
+									? 'Reverting...'
+									: 'Revert to this version'}
+							</Button>
+						)}
+					</div>
+
+					{entry.action !== 'create' && entry.action !== 'delete' && (
+						<table className='mt-3 w-full text-sm'>
+							<tbody>
+								{entry.changes.map((change) => (
+									<tr key={change.field}>
+										<td className='py-1 pr-4 text-muted-foreground'>
+											{fieldLabel(change.field)}
+										</td>
+										<td className='py-1 pr-2 line-through text-muted-foreground'>
+											{formatValue(change.before)}
+										</td>
+										<td className='py-1'>{formatValue(change.after)}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</li>
+			))}
+		</ol>
+	);
+};
+
+export default ExpenseHistory;
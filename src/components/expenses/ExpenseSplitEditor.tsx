@@ -0,0 +1,249 @@
+// src/components/expenses/ExpenseSplitEditor.tsx
+import React from 'react';
+import { AccountMember, ExpenseSplit, SplitMethod } from '../../models/types';
+import {
+	SplitParticipant,
+	allocateSplit,
+	validateSplit,
+} from '../../utils/splitUtils';
+
+// Split being edited; values are kept as typed
+export interface SplitDraft {
+	enabled: boolean;
+	method: SplitMethod;
+	paidBy: string;
+	included: Record<string, boolean>;
+	values: Record<string, string>;
+}
+
+const METHOD_LABELS: Record<SplitMethod, string> = {
+	equal: 'Equally',
+	exact: 'By exact amounts',
+	percentage: 'By percentages',
+	shares: 'By shares',
+};
+
+/**
+ * Start a draft from an expense's split, or an equal split between all
+ * members paid by the given member
+ */
+export const toSplitDraft = (
+	members: AccountMember[],
+	payerUid: string,
+	split?: ExpenseSplit
+): SplitDraft => ({
+	enabled: Boolean(split),
+	method: split?.method ?? 'equal',
+	paidBy: split?.paidBy ?? payerUid,
+	included: Object.fromEntries(
+		members.map((member) => [
+			member.uid,
+			split ? split.shares.some((share) => share.uid === member.uid) : true,
+		])
+	),
+	values: Object.fromEntries(
+		members.map((member) => {
+			const share = split?.shares.find((s) => s.uid === member.uid);
+			const value = split?.method === 'exact' ? share?.amount : share?.value;
+			return [member.uid, value ? value.toString() : ''];
+		})
+	),
+});
+
+// Members included in the draft, with their entered values
+export const getSplitParticipants = (draft: SplitDraft): SplitParticipant[] =>
+	Object.keys(draft.included)
+		.filter((uid) => draft.included[uid])
+		.map((uid) => ({
+			uid,
+			value: draft.method === 'equal' ? 1 : parseFloat(draft.values[uid]) || 0,
+		}));
+
+/**
+ * Turn a draft into the split stored on the expense
+ * @returns The split, or an error message if it doesn't add up
+ */
+export const buildSplit = (
+	draft: SplitDraft,
+	amount: number
+): { split?: ExpenseSplit; error?: string } => {
+	const participants = getSplitParticipants(draft);
+	const error = validateSplit(amount, draft.method, participants);
+	if (error) return { error };
+
+	return {
+		split: {
+			method: draft.method,
+			paidBy: draft.paidBy,
+			shares: allocateSplit(amount, draft.method, participants),
+		},
+	};
+};
+
+interface ExpenseSplitEditorProps {
+	members: AccountMember[];
+	amount: number;
+	currency: string;
+	draft: SplitDraft;
+	onChange: (draft: SplitDraft) => void;
+}
+
+/**
+ * Expense Split Editor
+ * Chooses who paid an expense and how it is shared between account members
+ */
+const ExpenseSplitEditor: React.FC<ExpenseSplitEditorProps> = ({
+	members,
+	amount,
+	currency,
+	draft,
+	onChange,
+}) => {
+	const participants = getSplitParticipants(draft);
+	const error =
+		amount > 0 ? validateSplit(amount, draft.method, participants) : null;
+	const preview =
+		amount > 0 && !error
+			? allocateSplit(amount, draft.method, participants)
+			: [];
+
+	const update = (changes: Partial<SplitDraft>) =>
+		onChange({ ...draft, ...changes });
+
+	return (
+		<div className='space-y-4'>
+			<div className='flex items-start'>
+				<div className='flex items-center h-5'>
+					<input
+						id='split-enabled'
+						type='checkbox'
+						checked={draft.enabled}
+						onChange={(e) => update({ enabled: e.target.checked })}
+						className='focus:ring-blue-500 h-4 w-4 text-blue-600 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600'
+					/>
+				</div>
+				<div className='ml-3 text-sm'>
+					<label
+						htmlFor='split-enabled'
+						className='font-medium text-gray-700 dark:text-gray-300'>
+						Split this expense
+					</label>
+					<p className='text-gray-500 dark:text-gray-400'>
+						Share the cost with other members of the account.
+					</p>
+				</div>
+			</div>
+
+			{draft.enabled && (
+				<>
+					<div className='grid grid-cols-1 gap-4 sm:grid-cols-2'>
+						<div>
+							<label
+								htmlFor='split-paid-by'
+								className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+								Paid by
+							</label>
+							<select
+								id='split-paid-by'
+								value={draft.paidBy}
+								onChange={(e) => update({ paidBy: e.target.value })}
+								className='mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'>
+								{members.map((member) => (
+									<option
+										key={member.uid}
+										value={member.uid}>
+										{member.displayName || member.email}
+									</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<label
+								htmlFor='split-method'
+								className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+								Split
+							</label>
+							<select
+								id='split-method'
+								value={draft.method}
+								onChange={(e) =>
+									update({ method: e.target.value as SplitMethod })
+								}
+								className='mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'>
+								{(Object.keys(METHOD_LABELS) as SplitMethod[]).map((method) => (
+									<option
+										key={method}
+										value={method}>
+										{METHOD_LABELS[method]}
+									</option>
+								))}
+							</select>
+						</div>
+					</div>
+
+					<ul className='divide-y divide-gray-200 dark:divide-gray-700'>
+						{members.map((member) => {
+							const share = preview.find((s) => s.uid === member.uid);
+							return (
+								<li
+									key={member.uid}
+									className='flex items-center justify-between py-2'>
+									<label className='flex items-center text-sm text-gray-700 dark:text-gray-300'>
+										<input
+											type='checkbox'
+											checked={draft.included[member.uid] ?? false}
+											onChange={(e) =>
+												update({
+													included: {
+														...draft.included,
+														[member.uid]: e.target.checked,
+													},
+												})
+											}
+											className='focus:ring-blue-500 h-4 w-4 text-blue-600 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600'
+										/>
+										<span className='ml-2'>
+											{member.displayName || member.email}
+										</span>
+									</label>
+									<div className='flex items-center space-x-3'>
+										{draft.method !== 'equal' && draft.included[member.uid] && (
+											<input
+												type='number'
+												min='0'
+												step={draft.method === 'shares' ? '1' : '0.01'}
+												value={draft.values[member.uid] ?? ''}
+												onChange={(e) =>
+													update({
+														values: {
+															...draft.values,
+															[member.uid]: e.target.value,
+														},
+													})
+												}
+												aria-label={`${METHOD_LABELS[draft.method]} for ${
+													member.displayName || member.email
+												}`}
+												placeholder={draft.method === 'percentage' ? '%' : '0'}
+												className='w-24 shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+											/>
+										)}
+										<span className='w-24 text-right text-sm text-gray-500 dark:text-gray-400'>
+											{share ? `${share.amount.toFixed(2)} ${currency}` : '-'}
+										</span>
+									</div>
+								</li>
+							);
+						})}
+					</ul>
+
+					{error && (
+						<p className='text-sm text-red-600 dark:text-red-400'>{error}</p>
+					)}
+				</>
+			)}
+		</div>
+	);
+};
+
+export default ExpenseSplitEditor;
@@ -0,0 +1,36 @@
+// src/components/expenses/ExpenseStatusBadge.tsx
+import React from 'react';
+import { Expense } from '../../models/types';
+
+interface ExpenseStatusBadgeProps {
+	expense: Pick<Expense, 'status' | 'review'>;
+}
+
+/**
+ * Expense Status Badge
+ * Marks expenses that are waiting for approval or were rejected; approved
+ * expenses show nothing
+ */
+const ExpenseStatusBadge: React.FC<ExpenseStatusBadgeProps> = ({ expense }) => {
+	if (expense.status === 'pending') {
+		return (
+			<span className='px-2 py-0.5 inline-flex text-xs leading-5 font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-800/30 dark:text-yellow-300'>
+				Pending approval
+			</span>
+		);
+	}
+
+	if (expense.status === 'rejected') {
+		return (
+			<span
+				title={expense.review?.reason}
+				className='px-2 py-0.5 inline-flex text-xs leading-5 font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-800/30 dark:text-red-300'>
+				Rejected
+			</span>
+		);
+	}
+
+	return null;
+};
+
+export default ExpenseStatusBadge;
@@ -0,0 +1,259 @@
+// src/components/expenses/LineItemsEditor.tsx
+import React from 'react';
+import { ExpenseCategory, LineItem } from '../../models/types';
+
+// Line item being edited; numbers are kept as typed
+export interface LineItemDraft {
+	description: string;
+	amount: string;
+	category: string;
+	// Comma separated
+	tags: string;
+	quantity: string;
+	unitPrice: string;
+}
+
+const emptyLineItem = (category = ''): LineItemDraft => ({
+	description: '',
+	amount: '',
+	category,
+	tags: '',
+	quantity: '',
+	unitPrice: '',
+});
+
+const toNumber = (value: string) =>
+	value.trim() === '' ? undefined : parseFloat(value);
+
+/**
+ * Start drafts from an expense's line items
+ */
+export const toLineItemDrafts = (lineItems: LineItem[] = []): LineItemDraft[] =>
+	lineItems.map((item) => ({
+		description: item.description,
+		amount: item.amount.toString(),
+		category: item.category,
+		tags: (item.tags || []).join(', '),
+		quantity: item.quantity?.toString() ?? '',
+		unitPrice: item.unitPrice?.toString() ?? '',
+	}));
+
+/**
+ * Turn drafts into the line items stored on the expense
+ * Lines left completely empty are dropped.
+ */
+export const buildLineItems = (drafts: LineItemDraft[]): LineItem[] =>
+	drafts
+		.filter((draft) => draft.description.trim() || draft.amount.trim())
+		.map((draft) => {
+			const tags = draft.tags
+				.split(',')
+				.map((tag) => tag.trim())
+				.filter(Boolean);
+			return {
+				description: draft.description.trim(),
+				amount: toNumber(draft.amount) ?? 0,
+				category: draft.category,
+				...(tags.length > 0 ? { tags } : {}),
+				...(toNumber(draft.quantity) !== undefined
+					? { quantity: toNumber(draft.quantity) }
+					: {}),
+				...(toNumber(draft.unitPrice) !== undefined
+					? { unitPrice: toNumber(draft.unitPrice) }
+					: {}),
+			};
+		});
+
+interface LineItemsEditorProps {
+	items: LineItemDraft[];
+	categories: ExpenseCategory[];
+	// Category new lines start with
+	defaultCategory: string;
+	amount: number;
+	currency: string;
+	onChange: (items: LineItemDraft[]) => void;
+	// Set the expense amount to the sum of the lines
+	onUseTotal: (total: number) => void;
+}
+
+const inputClassName =
+	'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+/**
+ * Line Items Editor
+ * Splits one expense into lines with their own amount, category and tags
+ */
+const LineItemsEditor: React.FC<LineItemsEditorProps> = ({
+	items,
+	categories,
+	defaultCategory,
+	amount,
+	currency,
+	onChange,
+	onUseTotal,
+}) => {
+	const total =
+		Math.round(
+			buildLineItems(items).reduce((sum, item) => sum + item.amount, 0) * 100
+		) / 100;
+	const difference = Math.round((amount - total) * 100) / 100;
+
+	const updateItem = (index: number, changes: Partial<LineItemDraft>) => {
+		onChange(
+			items.map((item, i) => {
+				if (i !== index) return item;
+
+				const updated = { ...item, ...changes };
+				// Quantity and unit price fill in the amount
+				const quantity = toNumber(updated.quantity);
+				const unitPrice = toNumber(updated.unitPrice);
+				if (
+					('quantity' in changes || 'unitPrice' in changes) &&
+					quantity !== undefined &&
+					unitPrice !== undefined
+				) {
+					updated.amount = (
+						Math.round(quantity * unitPrice * 100) / 100
+					).toString();
+				}
+				return updated;
+			})
+		);
+	};
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between'>
+				<div>
+					<p className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+						Line Items (Optional)
+					</p>
+					<p className='text-sm text-gray-500 dark:text-gray-400'>
+						Split a receipt into lines counted in their own categories.
+					</p>
+				</div>
+				<button
+					type='button'
+					onClick={() => onChange([...items, emptyLineItem(defaultCategory)])}
+					className='inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-600'>
+					Add line
+				</button>
+			</div>
+
+			{items.length > 0 && (
+				<>
+					<ul className='space-y-3'>
+						{items.map((item, index) => (
+							<li
+								key={index}
+								className='grid grid-cols-2 gap-2 sm:grid-cols-12 items-end border-b border-gray-200 dark:border-gray-700 pb-3'>
+								<input
+									type='text'
+									aria-label={`Line ${index + 1} description`}
+									placeholder='Description'
+									value={item.description}
+									onChange={(e) =>
+										updateItem(index, { description: e.target.value })
+									}
+									className={`col-span-2 sm:col-span-3 ${inputClassName}`}
+								/>
+								<select
+									aria-label={`Line ${index + 1} category`}
+									value={item.category}
+									onChange={(e) =>
+										updateItem(index, { category: e.target.value })
+									}
+									className={`col-span-2 sm:col-span-3 ${inputClassName}`}>
+									<option value=''>Category</option>
+									{categories.map((cat) => (
+										<option
+											key={cat.id}
+											value={cat.id}>
+											{cat.name}
+										</option>
+									))}
+								</select>
+								<input
+									type='number'
+									min='0'
+									step='any'
+									aria-label={`Line ${index + 1} quantity`}
+									placeholder='Qty'
+									value={item.quantity}
+									onChange={(e) =>
+										updateItem(index, { quantity: e.target.value })
+									}
+									className={`sm:col-span-1 ${inputClassName}`}
+								/>
+								<input
+									type='number'
+									min='0'
+									step='0.01'
+									aria-label={`Line ${index + 1} unit price`}
+									placeholder='Unit price'
+									value={item.unitPrice}
+									onChange={(e) =>
+										updateItem(index, { unitPrice: e.target.value })
+									}
+									className={`sm:col-span-2 ${inputClassName}`}
+								/>
+								<input
+									type='number'
+									min='0'
+									step='0.01'
+									aria-label={`Line ${index + 1} amount`}
+									placeholder='Amount'
+									value={item.amount}
+									onChange={(e) =>
+										updateItem(index, { amount: e.target.value })
+									}
+									className={`sm:col-span-2 ${inputClassName}`}
+								/>
+								<button
+									type='button'
+									aria-label={`Remove line ${index + 1}`}
+									onClick={() => onChange(items.filter((_, i) => i !== index))}
+									className='sm:col-span-1 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 text-sm'>
+									Remove
+								</button>
+								<input
+									type='text'
+									aria-label={`Line ${index + 1} tags`}
+									placeholder='Tags, separated by commas'
+									value={item.tags}
+									onChange={(e) => updateItem(index, { tags: e.target.value })}
+									className={`col-span-2 sm:col-span-12 ${inputClassName}`}
+								/>
+							</li>
+						))}
+					</ul>
+
+					<div className='flex items-center justify-between text-sm'>
+						<span
+							className={
+								difference === 0
+									? 'text-gray-500 dark:text-gray-400'
+									: 'text-red-600 dark:text-red-400'
+							}>
+							Lines total {total.toFixed(2)} {currency}
+							{difference !== 0 &&
+								` (${Math.abs(difference).toFixed(2)} ${
+									difference > 0 ? 'left to assign' : 'over the amount'
+								})`}
+						</span>
+						{difference !== 0 && total > 0 && (
+							<button
+								type='button'
+								onClick={() => onUseTotal(total)}
+								className='text-blue-600 hover:underline dark:text-blue-400'>
+								Use as amount
+							</button>
+						)}
+					</div>
+				</>
+			)}
+		</div>
+	);
+};
+
+export default LineItemsEditor;
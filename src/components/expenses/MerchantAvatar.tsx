@@ -0,0 +1,48 @@
+// src/components/expenses/MerchantAvatar.tsx
+import React, { useState } from 'react';
+import { Merchant } from '../../models/types';
+import { MerchantUtils } from '../../utils/merchantUtils';
+
+interface MerchantAvatarProps {
+	merchant: Pick<Merchant, 'name' | 'color' | 'logoUrl'>;
+	size?: 'sm' | 'md';
+}
+
+const SIZES = {
+	sm: 'h-6 w-6 text-[10px]',
+	md: 'h-8 w-8 text-xs',
+};
+
+/**
+ * Merchant Avatar
+ * The merchant's logo, or its initials on its color when it has none or the
+ * logo can't be loaded
+ */
+const MerchantAvatar: React.FC<MerchantAvatarProps> = ({
+	merchant,
+	size = 'md',
+}) => {
+	const [logoFailed, setLogoFailed] = useState(false);
+
+	if (merchant.logoUrl && !logoFailed) {
+		return (
+			<img
+				src={merchant.logoUrl}
+				alt=''
+				className={`${SIZES[size]} rounded-full object-cover flex-shrink-0`}
+				onError={() => setLogoFailed(true)}
+			/>
+		);
+	}
+
+	return (
+		<span
+			aria-hidden='true'
+			style={{ backgroundColor: MerchantUtils.getColor(merchant) }}
+			className={`${SIZES[size]} rounded-full inline-flex items-center justify-center font-semibold text-white flex-shrink-0`}>
+			{MerchantUtils.getInitials(merchant.name)}
+		</span>
+	);
+};
+
+export default MerchantAvatar;
@@ -1,9 +1,9 @@
-import React, { useState } from 'react';
-import { useForm, Controller } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
 import {
 	Select,
 	SelectContent,
@@ -11,22 +11,25 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from '../ui/select';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import { usePaymentMethods } from '@/hooks/usePaymentMethods';
+import { useMerchants } from '@/hooks/useMerchants';
+import { AppDispatch } from '@/store';
 import {
-	Form,
-	FormControl,
-	FormField,
-	FormItem,
-	FormLabel,
-	FormMessage,
-} from '../ui/form';
-import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
-import { Calendar } from '@/components/ui/calendar';
-import { CalendarIcon } from 'lucide-react';
-import { format } from 'date-fns';
-import { cn } from '@/lib/utils';
-import { useCurrency } from '@/hooks/useCurrency';
-
-// Expense categories
+	selectAccounts,
+	selectCurrentAccount,
+} from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import { addExpense, selectExpenses } from '@/store/slices/expensesSlice';
+import { showNotification } from '@/store/slices/uiSlice';
+import { getExchangeRates } from '@/services/api';
+import { DateUtils } from '@/utils/dateUtils';
+import { DuplicateUtils } from '@/utils/duplicateUtils';
+import { PaymentMethodUtils } from '@/utils/paymentMethodUtils';
+import { QuickEntryParser } from '@/utils/quickEntryParser';
+import { Expense } from '@/models/types';
+
+// Categories offered before the account has loaded
 const EXPENSE_CATEGORIES = [
 	'Food',
 	'Transportation',
@@ -37,52 +40,186 @@ const EXPENSE_CATEGORIES = [
 	'Healthcare',
 	'Personal',
 	'Miscellaneous',
-] as const;
+];
 
-// Zod validation schema
-const quickExpenseSchema = z.object({
-	amount: z.number().positive('Amount must be positive'),
-	category: z.enum(EXPENSE_CATEGORIES),
-	date: z.date(),
-	description: z.string().optional(),
-});
+const DEFAULT_CATEGORY = 'Miscellaneous';
 
-// Type for form inputs
-type QuickExpenseInputs = z.infer<typeof quickExpenseSchema>;
+interface QuickExpenseFormProps {
+	// Account the expense is added to; the current account by default
+	accountId?: string;
+	// Called once the expense is added
+	onClose?: () => void;
+}
 
 /**
  * QuickExpenseForm Component
- * Provides a fast, lightweight way to log expenses
+ * Logs an expense typed as one line, like "€40 taxi 3 days ago card:amex",
+ * showing what was read from it before it is added
  */
-export const QuickExpenseForm: React.FC = () => {
-	const { formatCurrency } = useCurrency();
+export const QuickExpenseForm: React.FC<QuickExpenseFormProps> = ({
+	accountId,
+	onClose,
+}) => {
+	const dispatch = useDispatch<AppDispatch>();
+	const accounts = useSelector(selectAccounts);
+	const currentAccount = useSelector(selectCurrentAccount);
+	const account =
+		accounts.find((candidate) => candidate.id === accountId) ?? currentAccount;
+	const user = useSelector(selectUser);
+	const allExpenses = useSelector(selectExpenses);
+	const paymentMethods = usePaymentMethods(account?.id);
+	const merchants = useMerchants(account?.id);
+
+	const [text, setText] = useState('');
+	// Category picked by hand, which wins over the one read from the entry
+	const [category, setCategory] = useState<string | null>(null);
+	const [exchangeRates, setExchangeRates] = useState<Record<string, number>>(
+		{}
+	);
+	// Currency whose rate couldn't be fetched
+	const [missingRate, setMissingRate] = useState<string | null>(null);
 	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [submitted, setSubmitted] = useState(false);
+	const [duplicates, setDuplicates] = useState<Expense[]>([]);
+
+	const baseCurrency = account?.baseCurrency ?? 'USD';
+	const categories = account?.settings.categories ?? EXPENSE_CATEGORIES;
+	const expenses = useMemo(
+		() => allExpenses.filter((expense) => expense.accountId === account?.id),
+		[allExpenses, account?.id]
+	);
+
+	const entry = useMemo(
+		() =>
+			QuickEntryParser.parse(text, {
+				baseCurrency,
+				exchangeRates,
+				categories,
+				categoryRules: account?.settings.categoryRules,
+				paymentMethods,
+				merchants,
+				expenses,
+				defaultCategory: categories.includes(DEFAULT_CATEGORY)
+					? DEFAULT_CATEGORY
+					: categories[0],
+			}),
+		[
+			text,
+			baseCurrency,
+			exchangeRates,
+			categories,
+			account,
+			paymentMethods,
+			merchants,
+			expenses,
+		]
+	);
+
+	// Rates are only needed once an entry is in another currency
+	useEffect(() => {
+		if (entry.currency === baseCurrency || exchangeRates[entry.currency]) {
+			return;
+		}
+		setMissingRate(null);
+		getExchangeRates(baseCurrency)
+			.then((rates) => {
+				setExchangeRates(rates);
+				if (!rates[entry.currency]) setMissingRate(entry.currency);
+			})
+			.catch((error) => {
+				console.error('Error fetching exchange rates:', error);
+				setMissingRate(entry.currency);
+			});
+	}, [entry.currency, baseCurrency]);
+
+	const error =
+		entry.amount === null || entry.amount <= 0
+			? 'Start with the amount, e.g. 12.50 lunch'
+			: null;
+
+	// Entries in another currency can't be added until its rate is known
+	const rateError =
+		entry.exchangeRate !== null
+			? null
+			: missingRate === entry.currency
+			? `Couldn't get the ${entry.currency} exchange rate. Try again later.`
+			: `Getting the ${entry.currency} exchange rate...`;
+
+	// A misspelled payment method would otherwise be dropped without a word
+	const paymentMethodError = entry.unknownPaymentMethod
+		? `No payment method called "${entry.unknownPaymentMethod}". Fix the name or leave it out.`
+		: null;
+
+	const formatAmount = (amount: number) =>
+		new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency: entry.currency,
+		}).format(amount);
+
+	const handleSubmit = async (e?: React.FormEvent, allowDuplicate = false) => {
+		e?.preventDefault();
+		setSubmitted(true);
+		if (
+			error ||
+			!account ||
+			!user ||
+			entry.amount === null ||
+			entry.exchangeRate === null ||
+			paymentMethodError
+		) {
+			return;
+		}
+
+		const description = entry.description || category || entry.category;
+
+		// Warn before the same purchase is entered twice
+		if (!allowDuplicate) {
+			const found = DuplicateUtils.find(
+				{
+					description,
+					amountInBaseCurrency: entry.amount * entry.exchangeRate,
+					date: entry.date,
+				},
+				expenses,
+				merchants
+			);
+			if (found.length > 0) {
+				setDuplicates(found);
+				return;
+			}
+		}
 
-	// Initialize form with react-hook-form and zod
-	const form = useForm<QuickExpenseInputs>({
-		resolver: zodResolver(quickExpenseSchema),
-		defaultValues: {
-			amount: undefined,
-			category: 'Miscellaneous',
-			date: new Date(),
-			description: '',
-		},
-	});
-
-	// Handle form submission
-	const onSubmit = async (data: QuickExpenseInputs) => {
 		setIsSubmitting(true);
 		try {
-			// TODO: Implement actual expense saving logic
-			// This could be a call to a Firebase service or API
-			await new Promise((resolve) => setTimeout(resolve, 500)); // Simulated async operation
+			await dispatch(
+				addExpense({
+					accountId: account.id,
+					amount: entry.amount,
+					category: category ?? entry.category,
+					description,
+					date: entry.date,
+					currency: entry.currency,
+					exchangeRate: entry.exchangeRate,
+					userId: user.firebaseUser.uid,
+					userDisplayName: user.firebaseUser.displayName || 'Unknown User',
+					tags: entry.tags,
+					paymentMethodId: entry.paymentMethod?.id,
+					allowDuplicate,
+				})
+			).unwrap();
 
-			console.log('Expense logged:', data);
-
-			// Reset form after successful submission
-			form.reset();
-		} catch (error) {
-			console.error('Failed to log expense:', error);
+			dispatch(showNotification('success', `Added ${description}`));
+			setText('');
+			setCategory(null);
+			setSubmitted(false);
+			onClose?.();
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to log expense'
+				)
+			);
 		} finally {
 			setIsSubmitting(false);
 		}
@@ -91,132 +228,162 @@ export const QuickExpenseForm: React.FC = () => {
 	return (
 		<div className='w-full max-w-md p-4 bg-white rounded-lg shadow-md'>
 			<h2 className='text-xl font-bold mb-4'>Quick Expense Entry</h2>
-			<Form {...form}>
-				<form
-					onSubmit={form.handleSubmit(onSubmit)}
-					className='space-y-4'>
-					{/* Amount Input */}
-					<FormField
-						control={form.control}
-						name='amount'
-						render={({ field }) => (
-							<FormItem>
-								<FormLabel>Amount</FormLabel>
-								<FormControl>
-									<Input
-										type='number'
-										step='0.01'
-										placeholder='Enter expense amount'
-										{...field}
-										onChange={(e) => field.onChange(parseFloat(e.target.value))}
-									/>
-								</FormControl>
-								<FormMessage />
-							</FormItem>
-						)}
+			<form
+				onSubmit={handleSubmit}
+				className='space-y-4'>
+				<div className='space-y-2'>
+					<Label htmlFor='quickEntry'>What did you spend?</Label>
+					<Input
+						id='quickEntry'
+						placeholder='e.g. 12.50 lunch at Subway yesterday #work'
+						value={text}
+						onChange={(e) => setText(e.target.value)}
+						autoComplete='off'
+						autoFocus
 					/>
+					<p className='text-xs text-muted-foreground'>
+						Add a date like "yesterday" or "3 days ago", #tags and card:name for
+						the payment method.
+					</p>
+					{submitted && error && (
+						<p className='text-sm font-medium text-destructive'>{error}</p>
+					)}
+				</div>
 
-					{/* Category Select */}
-					<FormField
-						control={form.control}
-						name='category'
-						render={({ field }) => (
-							<FormItem>
-								<FormLabel>Category</FormLabel>
-								<Select
-									onValueChange={field.onChange}
-									defaultValue={field.value}>
-									<FormControl>
-										<SelectTrigger>
-											<SelectValue placeholder='Select a category' />
-										</SelectTrigger>
-									</FormControl>
-									<SelectContent>
-										{EXPENSE_CATEGORIES.map((category) => (
-											<SelectItem
-												key={category}
-												value={category}>
-												{category}
-											</SelectItem>
-										))}
-									</SelectContent>
-								</Select>
-								<FormMessage />
-							</FormItem>
-						)}
-					/>
+				{/* What was read from the entry */}
+				{text.trim() && (
+					<dl className='grid grid-cols-3 gap-x-3 gap-y-2 text-sm border-t pt-4'>
+						<dt className='text-muted-foreground'>Amount</dt>
+						<dd className='col-span-2 font-medium'>
+							{entry.amount !== null ? formatAmount(entry.amount) : '—'}
+							{entry.amount !== null &&
+								entry.currency !== baseCurrency &&
+								entry.exchangeRate !== null && (
+									<span className='text-muted-foreground font-normal'>
+										{' '}
+										≈{' '}
+										{new Intl.NumberFormat('en-US', {
+											style: 'currency',
+											currency: baseCurrency,
+										}).format(entry.amount * entry.exchangeRate)}
+									</span>
+								)}
+							{rateError && (
+								<p
+									className={`text-xs font-normal ${
+										missingRate === entry.currency
+											? 'text-destructive'
+											: 'text-muted-foreground'
+									}`}>
+									{rateError}
+								</p>
+							)}
+						</dd>
+
+						<dt className='text-muted-foreground'>Description</dt>
+						<dd className='col-span-2'>{entry.description || '—'}</dd>
+
+						<dt className='text-muted-foreground'>Date</dt>
+						<dd className='col-span-2'>
+							{/* The entry's UTC day, as it will be stored */}
+							{DateUtils.formatDate(
+								entry.date.toISOString().slice(0, 10),
+								'PPP'
+							)}
+						</dd>
+
+						<dt className='text-muted-foreground pt-2'>Category</dt>
+						<dd className='col-span-2 space-y-1'>
+							<Select
+								value={category ?? entry.category}
+								onValueChange={setCategory}>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{categories.map((option) => (
+										<SelectItem
+											key={option}
+											value={option}>
+											{option}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							{!category && entry.categorySource && (
+								<p className='text-xs text-muted-foreground'>
+									Filled in by {entry.categorySource}
+								</p>
+							)}
+						</dd>
 
-					{/* Date Picker */}
-					<FormField
-						control={form.control}
-						name='date'
-						render={({ field }) => (
-							<FormItem className='flex flex-col'>
-								<FormLabel>Date</FormLabel>
-								<Popover>
-									<PopoverTrigger asChild>
-										<FormControl>
-											<Button
-												variant='outline'
-												className={cn(
-													'w-full pl-3 text-left font-normal',
-													!field.value && 'text-muted-foreground'
-												)}>
-												{field.value ? (
-													format(field.value, 'PPP')
-												) : (
-													<span>Pick a date</span>
-												)}
-												<CalendarIcon className='ml-auto h-4 w-4 opacity-50' />
-											</Button>
-										</FormControl>
-									</PopoverTrigger>
-									<PopoverContent
-										className='w-auto p-0'
-										align='start'>
-										<Calendar
-											mode='single'
-											selected={field.value}
-											onSelect={field.onChange}
-											disabled={(date) =>
-												date > new Date() || date < new Date('1900-01-01')
-											}
-											initialFocus
-										/>
-									</PopoverContent>
-								</Popover>
-								<FormMessage />
-							</FormItem>
+						{entry.tags.length > 0 && (
+							<>
+								<dt className='text-muted-foreground'>Tags</dt>
+								<dd className='col-span-2 flex flex-wrap gap-1'>
+									{entry.tags.map((tag) => (
+										<Badge
+											key={tag}
+											variant='secondary'>
+											{tag}
+										</Badge>
+									))}
+								</dd>
+							</>
 						)}
-					/>
 
-					{/* Optional Description */}
-					<FormField
-						control={form.control}
-						name='description'
-						render={({ field }) => (
-							<FormItem>
-								<FormLabel>Description (Optional)</FormLabel>
-								<FormControl>
-									<Input
-										placeholder='Add a note about this expense'
-										{...field}
-									/>
-								</FormControl>
-								<FormMessage />
-							</FormItem>
+						{(entry.paymentMethod || entry.unknownPaymentMethod) && (
+							<>
+								<dt className='text-muted-foreground'>Paid with</dt>
+								<dd className='col-span-2'>
+									{entry.paymentMethod ? (
+										`${PaymentMethodUtils.getIcon(
+											entry.paymentMethod
+										)} ${PaymentMethodUtils.getLabel(entry.paymentMethod)}`
+									) : (
+										<span className='text-destructive'>
+											{paymentMethodError}
+										</span>
+									)}
+								</dd>
+							</>
 						)}
-					/>
+					</dl>
+				)}
+
+				{/* Submit Button */}
+				<Button
+					type='submit'
+					className='w-full'
+					disabled={
+						isSubmitting ||
+						!account ||
+						rateError !== null ||
+						paymentMethodError !== null
+					}>
+					{isSubmitting ? 'Logging...' : 'Log Expense'}
+				</Button>
+			</form>
 
-					{/* Submit Button */}
-					<Button
-						type='submit'
-						className='w-full'
-						disabled={isSubmitting}>
-						{isSubmitting ? 'Logging...' : 'Log Expense'}
-					</Button>
-				</form>
-			</Form>
+			<ConfirmDialog
+				isOpen={duplicates.length > 0}
+				onClose={() => setDuplicates([])}
+				onConfirm={() => handleSubmit(undefined, true)}
+				title='Possible Duplicate'
+				message={
+					duplicates[0]
+						? `This looks like "${
+								duplicates[0].description
+						  }" (${duplicates[0].amount.toFixed(2)} ${
+								duplicates[0].currency
+						  } on ${DateUtils.formatDate(duplicates[0].date)}, added by ${
+								duplicates[0].createdBy.displayName
+						  }). Add it anyway?`
+						: undefined
+				}
+				confirmText='Add Anyway'
+				cancelText='Go Back'
+			/>
 		</div>
 	);
 };
@@ -0,0 +1,269 @@
+// src/components/expenses/ReceiptViewer.tsx
+import React, { useEffect, useState } from 'react';
+import {
+	ChevronLeft,
+	ChevronRight,
+	Download,
+	File,
+	FileText,
+	RotateCw,
+	X,
+	ZoomIn,
+	ZoomOut,
+} from 'lucide-react';
+import { getReceiptFileName, getReceiptKind } from '../../services/receipts';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+interface ReceiptThumbnailProps {
+	url: string;
+	index: number;
+	className?: string;
+	onClick?: () => void;
+}
+
+/**
+ * Receipt Thumbnail
+ * Small preview of a receipt; PDFs and other files show an icon
+ */
+export const ReceiptThumbnail: React.FC<ReceiptThumbnailProps> = ({
+	url,
+	index,
+	className = 'h-12 w-12',
+	onClick,
+}) => {
+	const kind = getReceiptKind(url);
+	const content =
+		kind === 'image' ? (
+			<img
+				src={url}
+				alt={`Receipt ${index + 1}`}
+				loading='lazy'
+				className='h-full w-full object-cover'
+			/>
+		) : (
+			<span className='flex h-full w-full flex-col items-center justify-center text-gray-500 dark:text-gray-400'>
+				{kind === 'pdf' ? (
+					<FileText className='h-5 w-5' />
+				) : (
+					<File className='h-5 w-5' />
+				)}
+				<span className='text-[10px] font-medium uppercase'>
+					{kind === 'pdf' ? 'PDF' : 'File'}
+				</span>
+			</span>
+		);
+	const frameClassName = `${className} shrink-0 overflow-hidden rounded-md border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800`;
+
+	if (!onClick) {
+		return <span className={`block ${frameClassName}`}>{content}</span>;
+	}
+
+	return (
+		<button
+			type='button'
+			aria-label={`View receipt ${index + 1}`}
+			onClick={onClick}
+			className={`${frameClassName} focus:outline-none focus:ring-2 focus:ring-blue-500 hover:opacity-80`}>
+			{content}
+		</button>
+	);
+};
+
+interface ReceiptViewerProps {
+	urls: string[];
+	// Receipt shown first
+	initialIndex?: number;
+	onClose: () => void;
+}
+
+/**
+ * Receipt Viewer
+ * Full-screen view of an expense's receipts with zoom, rotation and download.
+ * Arrow keys move between receipts and Escape closes the viewer.
+ */
+const ReceiptViewer: React.FC<ReceiptViewerProps> = ({
+	urls,
+	initialIndex = 0,
+	onClose,
+}) => {
+	const [index, setIndex] = useState(initialIndex);
+	const [zoom, setZoom] = useState(1);
+	const [rotation, setRotation] = useState(0);
+
+	const url = urls[index];
+	const kind = url ? getReceiptKind(url) : 'other';
+
+	// Each receipt starts unzoomed and upright
+	const showReceipt = (next: number) => {
+		setIndex((next + urls.length) % urls.length);
+		setZoom(1);
+		setRotation(0);
+	};
+
+	const changeZoom = (step: number) =>
+		setZoom((current) =>
+			Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + step))
+		);
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.key === 'Escape') onClose();
+			if (urls.length > 1 && event.key === 'ArrowLeft') showReceipt(index - 1);
+			if (urls.length > 1 && event.key === 'ArrowRight') showReceipt(index + 1);
+		};
+		window.addEventListener('keydown', handleKeyDown);
+		return () => window.removeEventListener('keydown', handleKeyDown);
+	});
+
+	// Files on another origin ignore the download attribute, so they are
+	// fetched first; if that isn't allowed they open in a new tab instead
+	const handleDownload = async () => {
+		const fileName = getReceiptFileName(url, index);
+		try {
+			const response = await fetch(url);
+			if (!response.ok) throw new Error(response.statusText);
+			const objectUrl = URL.createObjectURL(await response.blob());
+			const link = document.createElement('a');
+			link.href = objectUrl;
+			link.download = fileName;
+			link.click();
+			URL.revokeObjectURL(objectUrl);
+		} catch (error) {
+			console.error('Failed to download receipt:', error);
+			window.open(url, '_blank', 'noopener,noreferrer');
+		}
+	};
+
+	if (!url) return null;
+
+	const transform = `scale(${zoom}) rotate(${rotation}deg)`;
+	const controlClassName =
+		'p-2 rounded-full text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white disabled:opacity-40 disabled:hover:bg-transparent';
+
+	return (
+		<div
+			className='fixed inset-0 z-50 flex flex-col bg-black/90'
+			role='dialog'
+			aria-modal='true'
+			aria-label='Receipt viewer'>
+			<div className='flex items-center justify-between px-4 py-3 text-white'>
+				<span className='text-sm'>
+					{getReceiptFileName(url, index)}
+					{urls.length > 1 && ` (${index + 1} of ${urls.length})`}
+				</span>
+				<div className='flex items-center space-x-1'>
+					<button
+						type='button'
+						aria-label='Zoom out'
+						disabled={zoom <= MIN_ZOOM}
+						onClick={() => changeZoom(-ZOOM_STEP)}
+						className={controlClassName}>
+						<ZoomOut className='h-5 w-5' />
+					</button>
+					<span className='w-12 text-center text-sm'>
+						{Math.round(zoom * 100)}%
+					</span>
+					<button
+						type='button'
+						aria-label='Zoom in'
+						disabled={zoom >= MAX_ZOOM}
+						onClick={() => changeZoom(ZOOM_STEP)}
+						className={controlClassName}>
+						<ZoomIn className='h-5 w-5' />
+					</button>
+					<button
+						type='button'
+						aria-label='Rotate'
+						onClick={() => setRotation((current) => (current + 90) % 360)}
+						className={controlClassName}>
+						<RotateCw className='h-5 w-5' />
+					</button>
+					<button
+						type='button'
+						aria-label='Download'
+						onClick={handleDownload}
+						className={controlClassName}>
+						<Download className='h-5 w-5' />
+					</button>
+					<button
+						type='button'
+						aria-label='Close'
+						onClick={onClose}
+						className={controlClassName}>
+						<X className='h-5 w-5' />
+					</button>
+				</div>
+			</div>
+
+			<div className='relative flex flex-1 items-center justify-center overflow-auto'>
+				{urls.length > 1 && (
+					<button
+						type='button'
+						aria-label='Previous receipt'
+						onClick={() => showReceipt(index - 1)}
+						className={`absolute left-4 z-10 bg-black/40 ${controlClassName}`}>
+						<ChevronLeft className='h-6 w-6' />
+					</button>
+				)}
+
+				{kind === 'image' ? (
+					<img
+						src={url}
+						alt={`Receipt ${index + 1}`}
+						style={{ transform }}
+						className='max-h-full max-w-full object-contain transition-transform'
+					/>
+				) : kind === 'pdf' ? (
+					<iframe
+						src={url}
+						title={`Receipt ${index + 1}`}
+						style={{ transform }}
+						className='h-full w-full max-w-4xl bg-white transition-transform'
+					/>
+				) : (
+					<div className='text-center text-white'>
+						<File className='mx-auto mb-2 h-12 w-12' />
+						<p className='mb-4'>This receipt can't be previewed.</p>
+						<button
+							type='button'
+							onClick={handleDownload}
+							className='inline-flex items-center px-4 py-2 rounded-md bg-white text-gray-900 text-sm font-medium hover:bg-gray-100'>
+							<Download className='mr-2 h-4 w-4' /> Download
+						</button>
+					</div>
+				)}
+
+				{urls.length > 1 && (
+					<button
+						type='button'
+						aria-label='Next receipt'
+						onClick={() => showReceipt(index + 1)}
+						className={`absolute right-4 z-10 bg-black/40 ${controlClassName}`}>
+						<ChevronRight className='h-6 w-6' />
+					</button>
+				)}
+			</div>
+
+			{urls.length > 1 && (
+				<div className='flex justify-center space-x-2 px-4 py-3'>
+					{urls.map((receiptUrl, i) => (
+						<ReceiptThumbnail
+							key={receiptUrl}
+							url={receiptUrl}
+							index={i}
+							className={`h-14 w-14 ${
+								i === index ? 'ring-2 ring-white' : 'opacity-60'
+							}`}
+							onClick={() => showReceipt(i)}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ReceiptViewer;
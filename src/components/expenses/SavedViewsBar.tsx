@@ -0,0 +1,309 @@
+// src/components/expenses/SavedViewsBar.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+	deleteSavedView,
+	fetchSavedViews,
+	saveView,
+	selectSavedViews,
+	selectSavedViewsAccountId,
+	toggleViewPin,
+	updateSavedView,
+} from '../../store/slices/savedViewsSlice';
+import { selectExpenses } from '../../store/slices/expensesSlice';
+import { selectCurrentAccount } from '../../store/slices/accountsSlice';
+import { selectUser } from '../../store/slices/authSlice';
+import {
+	selectFilters,
+	setFilters,
+	showNotification,
+} from '../../store/slices/uiSlice';
+import { AppDispatch } from '../../store';
+import { SavedViewUtils } from '../../utils/savedViewUtils';
+import { SavedView } from '../../models/types';
+import ConfirmDialog from '../common/ConfirmDialog';
+
+const iconButtonClassName =
+	'p-1 rounded text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-100 disabled:opacity-50';
+
+/**
+ * Saved Views Bar
+ * Named filter combinations for the expense list, each with the number of
+ * expenses it shows right now
+ */
+const SavedViewsBar: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const views = useSelector(selectSavedViews);
+	const viewsAccountId = useSelector(selectSavedViewsAccountId);
+	const expenses = useSelector(selectExpenses);
+	const currentAccount = useSelector(selectCurrentAccount);
+	const filters = useSelector(selectFilters);
+	const uid = useSelector(selectUser)?.firebaseUser.uid;
+
+	const [showSaveForm, setShowSaveForm] = useState(false);
+	const [name, setName] = useState('');
+	const [shared, setShared] = useState(false);
+	const [busy, setBusy] = useState(false);
+	const [deleting, setDeleting] = useState<SavedView | null>(null);
+
+	// Load the views of the account when component mounts
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchSavedViews(currentAccount.id));
+		}
+	}, [dispatch, currentAccount?.id]);
+
+	const visibleViews =
+		currentAccount && viewsAccountId === currentAccount.id ? views : [];
+
+	// Counted against the account's expenses, which follow live updates
+	const counts = useMemo(
+		() =>
+			Object.fromEntries(
+				visibleViews.map((view) => [
+					view.id,
+					SavedViewUtils.countMatches(view.filters, expenses),
+				])
+			),
+		[visibleViews, expenses]
+	);
+
+	const activeView = visibleViews.find((view) =>
+		SavedViewUtils.isSameFilters(view.filters, filters)
+	);
+	const canSave = SavedViewUtils.hasFilters(filters) && !activeView;
+
+	if (!currentAccount || (visibleViews.length === 0 && !canSave)) {
+		return null;
+	}
+
+	const run = async (action: () => Promise<unknown>, fallback: string) => {
+		try {
+			setBusy(true);
+			await action();
+			return true;
+		} catch (error: any) {
+			dispatch(
+				showNotification('error', typeof error === 'string' ? error : fallback)
+			);
+			return false;
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const handleSave = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const saved = await run(
+			() =>
+				dispatch(
+					saveView({ accountId: currentAccount.id, name, filters, shared })
+				).unwrap(),
+			'Failed to save view'
+		);
+		if (saved) {
+			dispatch(showNotification('success', `View "${name.trim()}" saved`));
+			setShowSaveForm(false);
+			setName('');
+			setShared(false);
+		}
+	};
+
+	const confirmDelete = async () => {
+		if (!deleting) return;
+		await run(
+			() => dispatch(deleteSavedView(deleting.id)).unwrap(),
+			'Failed to delete view'
+		);
+		setDeleting(null);
+	};
+
+	const renderView = (view: SavedView) => {
+		const isActive = view.id === activeView?.id;
+		const isPinned = SavedViewUtils.isPinned(view, uid);
+		const isOwner = SavedViewUtils.canEdit(view, uid);
+
+		return (
+			<span
+				key={view.id}
+				className={`inline-flex items-center pl-3 pr-1 py-1 rounded-full text-sm ${
+					isActive
+						? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200'
+						: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'
+				}`}>
+				<button
+					onClick={() => dispatch(setFilters(view.filters))}
+					title={
+						isOwner
+							? undefined
+							: `Shared by ${view.createdBy.displayName || 'a member'}`
+					}
+					className='font-medium hover:underline'>
+					{view.name}
+				</button>
+				<span className='ml-2 text-xs text-gray-500 dark:text-gray-400'>
+					{counts[view.id] ?? 0}
+				</span>
+
+				<button
+					onClick={() =>
+						run(
+							() =>
+								dispatch(
+									toggleViewPin({ id: view.id, pinned: !isPinned })
+								).unwrap(),
+							'Failed to pin view'
+						)
+					}
+					disabled={busy}
+					aria-pressed={isPinned}
+					aria-label={isPinned ? `Unpin ${view.name}` : `Pin ${view.name}`}
+					title={isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+					className={`ml-1 ${iconButtonClassName}`}>
+					<svg
+						className={`h-4 w-4 ${isPinned ? 'text-yellow-500' : ''}`}
+						viewBox='0 0 20 20'
+						fill={isPinned ? 'currentColor' : 'none'}
+						stroke='currentColor'>
+						<path
+							strokeWidth={1.5}
+							d='M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z'
+						/>
+					</svg>
+				</button>
+
+				{isOwner && (
+					<>
+						<button
+							onClick={() =>
+								run(
+									() =>
+										dispatch(
+											updateSavedView({
+												id: view.id,
+												changes: { shared: !view.shared },
+											})
+										).unwrap(),
+									'Failed to share view'
+								)
+							}
+							disabled={busy}
+							aria-pressed={view.shared}
+							aria-label={
+								view.shared ? `Stop sharing ${view.name}` : `Share ${view.name}`
+							}
+							title={
+								view.shared
+									? `Shared with ${currentAccount.name}`
+									: `Share with ${currentAccount.name}`
+							}
+							className={iconButtonClassName}>
+							<svg
+								className={`h-4 w-4 ${view.shared ? 'text-blue-500' : ''}`}
+								fill='none'
+								viewBox='0 0 24 24'
+								stroke='currentColor'>
+								<path
+									strokeLinecap='round'
+									strokeLinejoin='round'
+									strokeWidth={2}
+									d='M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z'
+								/>
+							</svg>
+						</button>
+						<button
+							onClick={() => setDeleting(view)}
+							disabled={busy}
+							aria-label={`Delete ${view.name}`}
+							title='Delete view'
+							className={iconButtonClassName}>
+							<svg
+								className='h-4 w-4'
+								fill='currentColor'
+								viewBox='0 0 20 20'>
+								<path
+									fillRule='evenodd'
+									d='M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z'
+									clipRule='evenodd'
+								/>
+							</svg>
+						</button>
+					</>
+				)}
+			</span>
+		);
+	};
+
+	return (
+		<div className='mb-4'>
+			<div className='flex flex-wrap items-center gap-2'>
+				{visibleViews.length > 0 && (
+					<span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+						Views
+					</span>
+				)}
+				{visibleViews.map(renderView)}
+
+				{canSave && !showSaveForm && (
+					<button
+						onClick={() => setShowSaveForm(true)}
+						className='text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300'>
+						+ Save current filters as a view
+					</button>
+				)}
+			</div>
+
+			{canSave && showSaveForm && (
+				<form
+					onSubmit={handleSave}
+					className='flex flex-wrap items-center gap-3 mt-3 p-4 bg-white dark:bg-gray-800 rounded-lg shadow'>
+					<input
+						type='text'
+						aria-label='View name'
+						placeholder='e.g. Q3 travel'
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						autoFocus
+						className='flex-grow px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+					/>
+					<label className='flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300'>
+						<input
+							type='checkbox'
+							checked={shared}
+							onChange={(e) => setShared(e.target.checked)}
+						/>
+						<span>Share with members of {currentAccount.name}</span>
+					</label>
+					<button
+						type='submit'
+						disabled={busy || !name.trim()}
+						className='px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition duration-200 disabled:opacity-50'>
+						{busy ? 'Saving...' : 'Save view'}
+					</button>
+					<button
+						type='button'
+						onClick={() => setShowSaveForm(false)}
+						disabled={busy}
+						className='text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50'>
+						Cancel
+					</button>
+				</form>
+			)}
+
+			<ConfirmDialog
+				isOpen={deleting !== null}
+				onClose={() => setDeleting(null)}
+				onConfirm={confirmDelete}
+				title='Delete View'
+				message={`Delete the view "${deleting?.name}"?${
+					deleting?.shared ? ' Members it is shared with will lose it too.' : ''
+				}`}
+				confirmText='Delete'
+				cancelText='Cancel'
+				variant='destructive'
+			/>
+		</div>
+	);
+};
+
+export default SavedViewsBar;
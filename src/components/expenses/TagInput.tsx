@@ -0,0 +1,141 @@
+// src/components/expenses/TagInput.tsx
+import React, { useMemo, useState } from 'react';
+import { TagUtils } from '../../utils/tagUtils';
+
+interface TagInputProps {
+	id?: string;
+	tags: string[];
+	// Tags already used in the account, offered while typing
+	knownTags: string[];
+	onChange: (tags: string[]) => void;
+	disabled?: boolean;
+}
+
+/**
+ * Tag Input
+ * Tags entered one at a time, completed from the account's existing tags.
+ * Enter or a comma adds the tag being typed; Backspace in an empty input
+ * removes the last one.
+ */
+const TagInput: React.FC<TagInputProps> = ({
+	id,
+	tags,
+	knownTags,
+	onChange,
+	disabled = false,
+}) => {
+	const [input, setInput] = useState('');
+	const [showSuggestions, setShowSuggestions] = useState(false);
+	const [highlighted, setHighlighted] = useState(-1);
+
+	const suggestions = useMemo(
+		() =>
+			showSuggestions ? TagUtils.getSuggestions(input, knownTags, tags) : [],
+		[showSuggestions, input, knownTags, tags]
+	);
+
+	const addTag = (tag: string) => {
+		// A tag typed in another case becomes the existing one
+		const existing = knownTags.find(
+			(known) => known.toLowerCase() === tag.trim().toLowerCase()
+		);
+		onChange(TagUtils.normalize([...tags, existing ?? tag]));
+		setInput('');
+		setHighlighted(-1);
+	};
+
+	const removeTag = (tag: string) =>
+		onChange(tags.filter((name) => name !== tag));
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+			if (suggestions.length === 0) return;
+			e.preventDefault();
+			const step = e.key === 'ArrowDown' ? 1 : -1;
+			setHighlighted(
+				(highlighted + step + suggestions.length) % suggestions.length
+			);
+		} else if (e.key === 'Enter' || e.key === ',') {
+			const tag = suggestions[highlighted] ?? input;
+			if (!tag.trim()) return;
+			// Don't submit the form
+			e.preventDefault();
+			addTag(tag);
+		} else if (e.key === 'Backspace' && !input && tags.length > 0) {
+			removeTag(tags[tags.length - 1]);
+		} else if (e.key === 'Escape') {
+			setShowSuggestions(false);
+		}
+	};
+
+	return (
+		<div className='relative'>
+			<div className='flex flex-wrap items-center gap-2 px-2 py-1 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600 focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500'>
+				{tags.map((tag) => (
+					<span
+						key={tag}
+						className='inline-flex items-center px-2 py-0.5 rounded-full text-sm bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'>
+						{tag}
+						<button
+							type='button'
+							onClick={() => removeTag(tag)}
+							disabled={disabled}
+							aria-label={`Remove tag ${tag}`}
+							className='ml-1 text-yellow-600 hover:text-yellow-800 dark:text-yellow-400 focus:outline-none'>
+							&times;
+						</button>
+					</span>
+				))}
+				<input
+					id={id}
+					type='text'
+					value={input}
+					disabled={disabled}
+					onChange={(e) => {
+						setInput(e.target.value.replace(',', ''));
+						setShowSuggestions(true);
+						setHighlighted(-1);
+					}}
+					onKeyDown={handleKeyDown}
+					onFocus={() => setShowSuggestions(true)}
+					onBlur={() => {
+						setShowSuggestions(false);
+						if (input.trim()) addTag(input);
+					}}
+					placeholder={tags.length === 0 ? 'e.g. work, travel' : ''}
+					role='combobox'
+					aria-autocomplete='list'
+					aria-expanded={suggestions.length > 0}
+					aria-controls={id ? `${id}-suggestions` : undefined}
+					className='flex-grow min-w-[8rem] py-1 border-0 focus:ring-0 sm:text-sm bg-transparent dark:text-white'
+				/>
+			</div>
+
+			{suggestions.length > 0 && (
+				<ul
+					id={id ? `${id}-suggestions` : undefined}
+					role='listbox'
+					className='absolute z-10 mt-1 w-full max-h-48 overflow-auto rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-lg'>
+					{suggestions.map((tag, index) => (
+						<li
+							key={tag}
+							role='option'
+							aria-selected={index === highlighted}
+							// Keep focus in the input
+							onMouseDown={(e) => e.preventDefault()}
+							onClick={() => addTag(tag)}
+							className={`px-3 py-2 text-sm cursor-pointer text-gray-900 dark:text-gray-100 ${
+								index === highlighted
+									? 'bg-blue-50 dark:bg-blue-900/30'
+									: 'hover:bg-gray-50 dark:hover:bg-gray-600'
+							}`}>
+							{tag}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default TagInput;
@@ -15,13 +15,18 @@ import { Budget } from '../../types';
 
 interface BudgetOverviewChartProps {
 	budgets: Budget[];
+	// Spent against each budget, keyed by budget id
+	budgetSpent: Record<string, number>;
 }
 
 const BudgetOverviewChart: React.FC<BudgetOverviewChartProps> = ({
 	budgets,
+	budgetSpent,
 }) => {
 	const [showAll, setShowAll] = useState(false);
 
+	const getSpent = (budget: Budget) => budgetSpent[budget.id] || 0;
+
 	// Prepare data for chart
 	const processData = () => {
 		// Filter active budgets (end date is in the future)
@@ -31,8 +36,8 @@ const BudgetOverviewChart: React.FC<BudgetOverviewChartProps> = ({
 
 		// Sort budgets by percentage used
 		const sortedBudgets = [...activeBudgets].sort((a, b) => {
-			const percentA = ((a.spent || 0) / a.amount) * 100;
-			const percentB = ((b.spent || 0) / b.amount) * 100;
+			const percentA = (getSpent(a) / a.amount) * 100;
+			const percentB = (getSpent(b) / b.amount) * 100;
 			return percentB - percentA; // Descending order
 		});
 
@@ -41,7 +46,7 @@ const BudgetOverviewChart: React.FC<BudgetOverviewChartProps> = ({
 
 		// Format data for chart
 		return displayBudgets.map((budget) => {
-			const spent = budget.spent || 0;
+			const spent = getSpent(budget);
 			const remaining = Math.max(budget.amount - spent, 0);
 			const percentUsed = (spent / budget.amount) * 100;
 
@@ -198,7 +203,7 @@ const BudgetOverviewChart: React.FC<BudgetOverviewChartProps> = ({
 					</p>
 					<p className='text-lg font-semibold mt-1'>
 						{formatCurrency(
-							budgets.reduce((sum, budget) => sum + (budget.spent || 0), 0)
+							budgets.reduce((sum, budget) => sum + getSpent(budget), 0)
 						)}
 					</p>
 				</div>
@@ -219,7 +224,7 @@ const BudgetOverviewChart: React.FC<BudgetOverviewChartProps> = ({
 					</p>
 					<p className='text-lg font-semibold mt-1 text-red-600 dark:text-red-400'>
 						{
-							budgets.filter((budget) => (budget.spent || 0) > budget.amount)
+							budgets.filter((budget) => getSpent(budget) > budget.amount)
 								.length
 						}
 					</p>
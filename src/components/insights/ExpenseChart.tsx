@@ -13,6 +13,7 @@ import {
 	CartesianGrid,
 } from 'recharts';
 import { Expense } from '../../types';
+import { LineItemUtils } from '../../utils/lineItemUtils';
 
 interface ExpenseChartProps {
 	expenses: Expense[];
@@ -25,17 +26,14 @@ const ExpenseChart: React.FC<ExpenseChartProps> = ({ expenses }) => {
 
 	// Process data for category breakdown
 	const getCategoryData = () => {
-		// Group expenses by category
-		const categoryMap: Record<string, number> = {};
+		// Group expenses by category, line items in their own categories
+		const categoryMap = LineItemUtils.getCategoryTotals(expenses);
 
-		expenses.forEach((expense) => {
-			categoryMap[expense.category] =
-				(categoryMap[expense.category] || 0) + expense.amount;
-		});
-
-		// Convert to array and sort by amount (descending)
+		// Convert to array and sort by amount (descending). Refunds can take
+		// a category below zero in a period, which a pie can't show.
 		const categoryData = Object.entries(categoryMap)
 			.map(([name, value]) => ({ name, value }))
+			.filter(({ value }) => value > 0)
 			.sort((a, b) => b.value - a.value);
 
 		// Take top 7 categories and group the rest as "Other"
@@ -74,7 +72,7 @@ const ExpenseChart: React.FC<ExpenseChartProps> = ({ expenses }) => {
 				};
 			}
 
-			monthMap[monthKey].amount += expense.amount;
+			monthMap[monthKey].amount += expense.amountInBaseCurrency;
 		});
 
 		// Convert to array and sort by date
@@ -253,7 +251,10 @@ const ExpenseChart: React.FC<ExpenseChartProps> = ({ expenses }) => {
 							style: 'currency',
 							currency: 'USD',
 						}).format(
-							expenses.reduce((sum, expense) => sum + expense.amount, 0)
+							expenses.reduce(
+								(sum, expense) => sum + expense.amountInBaseCurrency,
+								0
+							)
 						)}
 					</p>
 				</div>
@@ -268,7 +269,7 @@ const ExpenseChart: React.FC<ExpenseChartProps> = ({ expenses }) => {
 				<div className='bg-gray-50 dark:bg-gray-700 rounded-lg p-3'>
 					<p className='text-sm text-gray-500 dark:text-gray-400'>Categories</p>
 					<p className='text-lg font-semibold mt-1'>
-						{new Set(expenses.map((expense) => expense.category)).size}
+						{new Set(expenses.flatMap(LineItemUtils.getCategories)).size}
 					</p>
 				</div>
 				<div className='bg-gray-50 dark:bg-gray-700 rounded-lg p-3'>
@@ -0,0 +1,195 @@
+// src/components/insights/MerchantLeaderboard.tsx
+import React, { useMemo, useState } from 'react';
+import {
+	BarChart,
+	Bar,
+	XAxis,
+	YAxis,
+	CartesianGrid,
+	Tooltip,
+	ResponsiveContainer,
+} from 'recharts';
+import { Expense } from '../../types';
+import { useMerchants } from '../../hooks/useMerchants';
+import { MerchantUtils } from '../../utils/merchantUtils';
+import MerchantAvatar from '../expenses/MerchantAvatar';
+
+interface MerchantLeaderboardProps {
+	accountId: string;
+	// Expenses of the selected period, ranked
+	expenses: Expense[];
+	// Every expense of the account, for a merchant's history
+	allExpenses: Expense[];
+	currency: string;
+}
+
+// Merchants listed before "Show all"
+const TOP_COUNT = 10;
+
+/**
+ * Merchant Leaderboard
+ * Where the most was spent in the period, with descriptions grouped by the
+ * merchant directory, and the monthly history of a selected merchant
+ */
+const MerchantLeaderboard: React.FC<MerchantLeaderboardProps> = ({
+	accountId,
+	expenses,
+	allExpenses,
+	currency,
+}) => {
+	const merchants = useMerchants(accountId);
+	const [showAll, setShowAll] = useState(false);
+	const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+	const leaderboard = useMemo(
+		() => MerchantUtils.getLeaderboard(expenses, merchants),
+		[expenses, merchants]
+	);
+	const selected = leaderboard.find((entry) => entry.key === selectedKey);
+	const history = useMemo(
+		() =>
+			selectedKey
+				? MerchantUtils.getHistory(allExpenses, merchants, selectedKey).map(
+						(month) => ({
+							...month,
+							label: new Date(`${month.month}-01T00:00:00`).toLocaleString(
+								'en-US',
+								{ month: 'short' }
+							),
+						})
+				  )
+				: [],
+		[allExpenses, merchants, selectedKey]
+	);
+
+	const totalSpent = leaderboard.reduce((sum, entry) => sum + entry.amount, 0);
+	const topAmount = leaderboard[0]?.amount || 0;
+	const shown = showAll ? leaderboard : leaderboard.slice(0, TOP_COUNT);
+
+	const formatCurrency = (value: number) =>
+		new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+			maximumFractionDigits: 0,
+		}).format(value);
+
+	if (leaderboard.length === 0) {
+		return (
+			<p className='text-gray-500 dark:text-gray-400 text-center py-8'>
+				No expenses in this period.
+			</p>
+		);
+	}
+
+	return (
+		<div>
+			<ol className='space-y-1'>
+				{shown.map((entry, index) => (
+					<li key={entry.key}>
+						<button
+							type='button'
+							onClick={() =>
+								setSelectedKey(selectedKey === entry.key ? null : entry.key)
+							}
+							className={`w-full flex items-center gap-3 px-2 py-2 rounded-md text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${
+								selectedKey === entry.key ? 'bg-gray-100 dark:bg-gray-700' : ''
+							}`}>
+							<span className='w-5 text-right text-gray-500 dark:text-gray-400'>
+								{index + 1}
+							</span>
+							<MerchantAvatar
+								merchant={entry.merchant ?? { name: entry.name }}
+								size='sm'
+							/>
+							<div className='flex-1 min-w-0'>
+								<div className='flex justify-between gap-2'>
+									<span className='truncate text-gray-900 dark:text-gray-100'>
+										{entry.name}
+										{!entry.merchant && (
+											<span className='sr-only'> (not in the directory)</span>
+										)}
+									</span>
+									<span className='font-medium text-gray-900 dark:text-gray-100'>
+										{formatCurrency(entry.amount)}
+									</span>
+								</div>
+								<div className='flex items-center gap-2 mt-1'>
+									<div className='flex-1 h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full'>
+										<div
+											className='h-1.5 rounded-full'
+											style={{
+												width: `${
+													topAmount > 0 ? (entry.amount / topAmount) * 100 : 0
+												}%`,
+												backgroundColor: MerchantUtils.getColor(
+													entry.merchant ?? { name: entry.name }
+												),
+											}}
+										/>
+									</div>
+									<span className='text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap'>
+										{entry.count} expense{entry.count === 1 ? '' : 's'} ·{' '}
+										{totalSpent > 0
+											? `${((entry.amount / totalSpent) * 100).toFixed(1)}%`
+											: '-'}
+									</span>
+								</div>
+							</div>
+						</button>
+					</li>
+				))}
+			</ol>
+
+			{leaderboard.length > TOP_COUNT && (
+				<button
+					type='button'
+					onClick={() => setShowAll(!showAll)}
+					className='mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline'>
+					{showAll ? 'Show top merchants' : `Show all ${leaderboard.length}`}
+				</button>
+			)}
+
+			{/* History of the selected merchant */}
+			{selected && (
+				<div className='mt-6'>
+					<h3 className='text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+						{selected.name} over the last 12 months
+					</h3>
+					<div className='h-56'>
+						<ResponsiveContainer
+							width='100%'
+							height='100%'>
+							<BarChart data={history}>
+								<CartesianGrid
+									strokeDasharray='3 3'
+									vertical={false}
+								/>
+								<XAxis dataKey='label' />
+								<YAxis tickFormatter={formatCurrency} />
+								<Tooltip
+									formatter={(value: number) => formatCurrency(value)}
+									labelFormatter={(_, payload) =>
+										payload?.[0]
+											? `${payload[0].payload.month} · ${
+													payload[0].payload.count
+											  } expense${payload[0].payload.count === 1 ? '' : 's'}`
+											: ''
+									}
+								/>
+								<Bar
+									dataKey='amount'
+									name='Spent'
+									fill={MerchantUtils.getColor(
+										selected.merchant ?? { name: selected.name }
+									)}
+								/>
+							</BarChart>
+						</ResponsiveContainer>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default MerchantLeaderboard;
@@ -0,0 +1,166 @@
+// src/components/insights/PaymentMethodChart.tsx
+import React, { useMemo } from 'react';
+import {
+	PieChart,
+	Pie,
+	Cell,
+	Tooltip,
+	Legend,
+	ResponsiveContainer,
+} from 'recharts';
+import { Expense } from '../../types';
+import { usePaymentMethods } from '../../hooks/usePaymentMethods';
+import { PaymentMethodUtils } from '../../utils/paymentMethodUtils';
+
+interface PaymentMethodChartProps {
+	accountId: string;
+	expenses: Expense[];
+	currency: string;
+}
+
+const METHOD_COLORS = [
+	'#4F46E5', // indigo-600
+	'#10B981', // emerald-500
+	'#F59E0B', // amber-500
+	'#EF4444', // red-500
+	'#8B5CF6', // violet-500
+	'#06B6D4', // cyan-500
+	'#EC4899', // pink-500
+	'#84CC16', // lime-500
+];
+
+// Expenses without a payment method
+const NOT_SET_COLOR = '#9CA3AF'; // gray-400
+
+/**
+ * Payment Method Chart
+ * Spend per payment method for the period, including expenses paid with
+ * archived methods and those without one
+ */
+const PaymentMethodChart: React.FC<PaymentMethodChartProps> = ({
+	accountId,
+	expenses,
+	currency,
+}) => {
+	const methods = usePaymentMethods(accountId);
+
+	const data = useMemo(
+		() =>
+			// Methods that got more back in refunds than they spent can't be
+			// shown in the pie
+			PaymentMethodUtils.getSpend(expenses)
+				.filter(({ amount }) => amount > 0)
+				.map(({ methodId, amount, count }, index) => {
+					const method = methods.find((item) => item.id === methodId);
+					return {
+						key: methodId ?? 'none',
+						name: method
+							? `${PaymentMethodUtils.getIcon(
+									method
+							  )} ${PaymentMethodUtils.getLabel(method)}`
+							: methodId
+							? 'Removed method'
+							: 'Not set',
+						value: amount,
+						count,
+						color: methodId
+							? METHOD_COLORS[index % METHOD_COLORS.length]
+							: NOT_SET_COLOR,
+					};
+				}),
+		[expenses, methods]
+	);
+
+	const totalSpent = data.reduce((sum, entry) => sum + entry.value, 0);
+
+	const formatCurrency = (value: number) =>
+		new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+			maximumFractionDigits: 0,
+		}).format(value);
+
+	if (methods.length === 0) {
+		return (
+			<p className='text-gray-500 dark:text-gray-400 text-center py-8'>
+				Add payment methods in Settings to see which cards and accounts you
+				spend with.
+			</p>
+		);
+	}
+
+	if (data.length === 0) {
+		return (
+			<p className='text-gray-500 dark:text-gray-400 text-center py-8'>
+				No expenses in this period.
+			</p>
+		);
+	}
+
+	return (
+		<div>
+			{/* Chart */}
+			<div className='h-80'>
+				<ResponsiveContainer
+					width='100%'
+					height='100%'>
+					<PieChart>
+						<Pie
+							data={data}
+							cx='50%'
+							cy='50%'
+							labelLine={false}
+							outerRadius={80}
+							innerRadius={40}
+							dataKey='value'>
+							{data.map((entry) => (
+								<Cell
+									key={entry.key}
+									fill={entry.color}
+								/>
+							))}
+						</Pie>
+						<Tooltip formatter={(value: number) => formatCurrency(value)} />
+						<Legend
+							layout='vertical'
+							verticalAlign='middle'
+							align='right'
+						/>
+					</PieChart>
+				</ResponsiveContainer>
+			</div>
+
+			{/* Totals */}
+			<table className='min-w-full mt-6 text-sm'>
+				<thead>
+					<tr className='text-left text-gray-500 dark:text-gray-400'>
+						<th className='py-2 font-medium'>Paid With</th>
+						<th className='py-2 font-medium text-right'>Expenses</th>
+						<th className='py-2 font-medium text-right'>Spent</th>
+						<th className='py-2 font-medium text-right'>Share</th>
+					</tr>
+				</thead>
+				<tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+					{data.map(({ key, name, value, count }) => (
+						<tr key={key}>
+							<td className='py-2 text-gray-900 dark:text-gray-100'>{name}</td>
+							<td className='py-2 text-right text-gray-600 dark:text-gray-400'>
+								{count}
+							</td>
+							<td className='py-2 text-right text-gray-900 dark:text-gray-100'>
+								{formatCurrency(value)}
+							</td>
+							<td className='py-2 text-right text-gray-600 dark:text-gray-400'>
+								{totalSpent > 0
+									? `${((value / totalSpent) * 100).toFixed(1)}%`
+									: '-'}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+};
+
+export default PaymentMethodChart;
@@ -57,7 +57,7 @@ const SpendingTrendsChart: React.FC<SpendingTrendsChartProps> = ({
 				monthlyTotals[monthKey] = 0;
 			}
 
-			monthlyTotals[monthKey] += expense.amount;
+			monthlyTotals[monthKey] += expense.amountInBaseCurrency;
 		});
 
 		// Convert to array and sort chronologically
@@ -114,7 +114,7 @@ const SpendingTrendsChart: React.FC<SpendingTrendsChartProps> = ({
 			if (!categoryTotals[expense.category]) {
 				categoryTotals[expense.category] = 0;
 			}
-			categoryTotals[expense.category] += expense.amount;
+			categoryTotals[expense.category] += expense.amountInBaseCurrency;
 		});
 
 		const topCategories = Object.entries(categoryTotals)
@@ -147,7 +147,7 @@ const SpendingTrendsChart: React.FC<SpendingTrendsChartProps> = ({
 							new Date(expense.date) >= monthStart &&
 							new Date(expense.date) <= monthEnd
 					)
-					.reduce((sum, expense) => sum + expense.amount, 0);
+					.reduce((sum, expense) => sum + expense.amountInBaseCurrency, 0);
 
 				monthlyByCategory[monthKey][category] = categoryTotal;
 			});
@@ -0,0 +1,207 @@
+// src/components/insights/TagSpendChart.tsx
+import React, { useMemo, useState } from 'react';
+import {
+	BarChart,
+	Bar,
+	XAxis,
+	YAxis,
+	CartesianGrid,
+	Tooltip,
+	Legend,
+	ResponsiveContainer,
+} from 'recharts';
+import { Expense } from '../../types';
+import { TagUtils } from '../../utils/tagUtils';
+
+interface TagSpendChartProps {
+	expenses: Expense[];
+	currency: string;
+}
+
+// Tags charted until the user picks others
+const DEFAULT_TAG_COUNT = 5;
+
+const TAG_COLORS = [
+	'#4F46E5', // indigo-600
+	'#10B981', // emerald-500
+	'#F59E0B', // amber-500
+	'#EF4444', // red-500
+	'#8B5CF6', // violet-500
+	'#06B6D4', // cyan-500
+	'#EC4899', // pink-500
+	'#84CC16', // lime-500
+];
+
+const getMonthKey = (date: Date) =>
+	`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Tag Spend Chart
+ * Spend per tag for each month, with totals for the period. Expenses count
+ * under every tag they have, so tags can add up to more than the total.
+ */
+const TagSpendChart: React.FC<TagSpendChartProps> = ({
+	expenses,
+	currency,
+}) => {
+	// null until the user picks tags; the top tags are charted until then
+	const [pickedTags, setPickedTags] = useState<string[] | null>(null);
+
+	// Spend and number of expenses per tag, highest spend first
+	const totals = useMemo(() => {
+		const byTag: Record<string, { amount: number; count: number }> = {};
+		expenses.forEach((expense) =>
+			Object.entries(TagUtils.getTagAmounts(expense)).forEach(
+				([tag, amount]) => {
+					byTag[tag] = byTag[tag] || { amount: 0, count: 0 };
+					byTag[tag].amount += amount;
+					byTag[tag].count += 1;
+				}
+			)
+		);
+		return Object.entries(byTag)
+			.map(([tag, total]) => ({ tag, ...total }))
+			.sort((a, b) => b.amount - a.amount);
+	}, [expenses]);
+
+	const shownTags = (
+		pickedTags ?? totals.slice(0, DEFAULT_TAG_COUNT).map(({ tag }) => tag)
+	).filter((tag) => totals.some((total) => total.tag === tag));
+
+	const monthlyData = useMemo(() => {
+		const months: Record<string, Record<string, number>> = {};
+		expenses.forEach((expense) => {
+			const key = getMonthKey(new Date(expense.date));
+			months[key] = months[key] || {};
+			Object.entries(TagUtils.getTagAmounts(expense)).forEach(
+				([tag, amount]) => {
+					months[key][tag] = (months[key][tag] || 0) + amount;
+				}
+			);
+		});
+
+		return Object.keys(months)
+			.sort()
+			.map((key) => {
+				const [year, month] = key.split('-').map((part) => parseInt(part));
+				return {
+					month: new Date(year, month - 1, 1).toLocaleDateString('en-US', {
+						month: 'short',
+						year: 'numeric',
+					}),
+					...months[key],
+				};
+			});
+	}, [expenses]);
+
+	const totalSpent = expenses.reduce(
+		(sum, expense) => sum + expense.amountInBaseCurrency,
+		0
+	);
+
+	const formatCurrency = (value: number) =>
+		new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+			maximumFractionDigits: 0,
+		}).format(value);
+
+	const toggleTag = (tag: string) =>
+		setPickedTags(
+			shownTags.includes(tag)
+				? shownTags.filter((name) => name !== tag)
+				: [...shownTags, tag]
+		);
+
+	if (totals.length === 0) {
+		return (
+			<p className='text-gray-500 dark:text-gray-400 text-center py-8'>
+				Tag expenses to see how much goes to each project, trip or client.
+			</p>
+		);
+	}
+
+	return (
+		<div>
+			{/* Tag picker */}
+			<div className='flex flex-wrap gap-2 mb-4'>
+				{totals.map(({ tag }) => (
+					<button
+						key={tag}
+						onClick={() => toggleTag(tag)}
+						aria-pressed={shownTags.includes(tag)}
+						className={`px-3 py-1 rounded-full text-sm transition duration-200 ${
+							shownTags.includes(tag)
+								? 'bg-blue-600 text-white'
+								: 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+						}`}>
+						{tag}
+					</button>
+				))}
+			</div>
+
+			{/* Chart */}
+			<div className='h-80'>
+				<ResponsiveContainer
+					width='100%'
+					height='100%'>
+					<BarChart
+						data={monthlyData}
+						margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+						<CartesianGrid
+							strokeDasharray='3 3'
+							vertical={false}
+						/>
+						<XAxis dataKey='month' />
+						<YAxis
+							tickFormatter={(value) => formatCurrency(value)}
+							width={80}
+						/>
+						<Tooltip formatter={(value: number) => formatCurrency(value)} />
+						<Legend />
+						{shownTags.map((tag, index) => (
+							<Bar
+								key={tag}
+								dataKey={tag}
+								name={tag}
+								fill={TAG_COLORS[index % TAG_COLORS.length]}
+							/>
+						))}
+					</BarChart>
+				</ResponsiveContainer>
+			</div>
+
+			{/* Totals */}
+			<table className='min-w-full mt-6 text-sm'>
+				<thead>
+					<tr className='text-left text-gray-500 dark:text-gray-400'>
+						<th className='py-2 font-medium'>Tag</th>
+						<th className='py-2 font-medium text-right'>Expenses</th>
+						<th className='py-2 font-medium text-right'>Spent</th>
+						<th className='py-2 font-medium text-right'>Share</th>
+					</tr>
+				</thead>
+				<tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+					{totals.map(({ tag, amount, count }) => (
+						<tr key={tag}>
+							<td className='py-2 text-gray-900 dark:text-gray-100'>{tag}</td>
+							<td className='py-2 text-right text-gray-600 dark:text-gray-400'>
+								{count}
+							</td>
+							<td className='py-2 text-right text-gray-900 dark:text-gray-100'>
+								{formatCurrency(amount)}
+							</td>
+							<td className='py-2 text-right text-gray-600 dark:text-gray-400'>
+								{totalSpent > 0
+									? `${((amount / totalSpent) * 100).toFixed(1)}%`
+									: '-'}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+};
+
+export default TagSpendChart;
@@ -0,0 +1,101 @@
+// src/components/layout/PinnedViews.tsx
+import React, { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+	fetchSavedViews,
+	selectSavedViews,
+	selectSavedViewsAccountId,
+} from '../../store/slices/savedViewsSlice';
+import { selectExpenses } from '../../store/slices/expensesSlice';
+import { selectUser } from '../../store/slices/authSlice';
+import { selectFilters, setFilters } from '../../store/slices/uiSlice';
+import { AppDispatch } from '../../store';
+import { SavedViewUtils } from '../../utils/savedViewUtils';
+import { SavedView } from '../../models/types';
+
+interface PinnedViewsProps {
+	accountId: string;
+}
+
+/**
+ * Pinned Views
+ * Saved expense views the user pinned, listed in the sidebar with their
+ * live counts; opening one applies its filters to the expense list
+ */
+const PinnedViews: React.FC<PinnedViewsProps> = ({ accountId }) => {
+	const dispatch = useDispatch<AppDispatch>();
+	const navigate = useNavigate();
+	const location = useLocation();
+
+	const views = useSelector(selectSavedViews);
+	const viewsAccountId = useSelector(selectSavedViewsAccountId);
+	const expenses = useSelector(selectExpenses);
+	const filters = useSelector(selectFilters);
+	const uid = useSelector(selectUser)?.firebaseUser.uid;
+
+	useEffect(() => {
+		dispatch(fetchSavedViews(accountId));
+	}, [dispatch, accountId]);
+
+	const pinnedViews = useMemo(
+		() =>
+			viewsAccountId === accountId
+				? views.filter((view) => SavedViewUtils.isPinned(view, uid))
+				: [],
+		[views, viewsAccountId, accountId, uid]
+	);
+
+	const counts = useMemo(
+		() =>
+			Object.fromEntries(
+				pinnedViews.map((view) => [
+					view.id,
+					SavedViewUtils.countMatches(view.filters, expenses),
+				])
+			),
+		[pinnedViews, expenses]
+	);
+
+	if (pinnedViews.length === 0) {
+		return null;
+	}
+
+	const openView = (view: SavedView) => {
+		dispatch(setFilters(view.filters));
+		navigate('/expenses');
+	};
+
+	return (
+		<div className='mt-6 px-2'>
+			<h3 className='px-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+				Pinned views
+			</h3>
+			<div className='mt-2 space-y-1'>
+				{pinnedViews.map((view) => {
+					const isActive =
+						location.pathname === '/expenses' &&
+						SavedViewUtils.isSameFilters(view.filters, filters);
+
+					return (
+						<button
+							key={view.id}
+							onClick={() => openView(view)}
+							className={`w-full flex items-center justify-between px-2 py-2 text-sm font-medium rounded-md ${
+								isActive
+									? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+									: 'text-gray-600 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white'
+							}`}>
+							<span className='truncate'>{view.name}</span>
+							<span className='ml-2 text-xs text-gray-500 dark:text-gray-400'>
+								{counts[view.id] ?? 0}
+							</span>
+						</button>
+					);
+				})}
+			</div>
+		</div>
+	);
+};
+
+export default PinnedViews;
@@ -3,6 +3,8 @@ import React from 'react';
 import { NavLink } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
+import { ApprovalUtils } from '../../utils/approvalUtils';
+import PinnedViews from './PinnedViews';
 
 interface SidebarProps {
 	mobile?: boolean;
@@ -42,6 +44,7 @@ const NavItem: React.FC<NavItemProps> = ({
 const Sidebar: React.FC<SidebarProps> = ({ mobile = false }) => {
 	const { sidebarOpen } = useSelector((state: RootState) => state.ui);
 	const { currentAccount } = useSelector((state: RootState) => state.accounts);
+	const { user } = useSelector((state: RootState) => state.auth);
 
 	// Don't render sidebar content if no current account
 	if (!currentAccount) {
@@ -225,6 +228,26 @@ const Sidebar: React.FC<SidebarProps> = ({ mobile = false }) => {
 							</svg>
 						}
 					/>
+					<NavItem
+						to='/recurring'
+						label='Recurring'
+						isSidebarOpen={sidebarOpen}
+						icon={
+							<svg
+								xmlns='http://www.w3.org/2000/svg'
+								className='h-6 w-6'
+								fill='none'
+								viewBox='0 0 24 24'
+								stroke='currentColor'>
+								<path
+									strokeLinecap='round'
+									strokeLinejoin='round'
+									strokeWidth={2}
+									d='M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15'
+								/>
+							</svg>
+						}
+					/>
 					<NavItem
 						to='/budgets'
 						label='Budgets'
@@ -286,10 +309,55 @@ const Sidebar: React.FC<SidebarProps> = ({ mobile = false }) => {
 						}
 					/>
 				</nav>
+
+				{sidebarOpen && <PinnedViews accountId={currentAccount.id} />}
 			</div>
 
-			{/* Bottom section with settings link */}
+			{/* Bottom section with approvals, trash and settings links */}
 			<div className='p-4 border-t border-gray-200 dark:border-gray-700'>
+				{ApprovalUtils.isRequired(currentAccount) &&
+					ApprovalUtils.isApprover(currentAccount, user?.firebaseUser.uid) && (
+						<NavItem
+							to='/approvals'
+							label='Approvals'
+							isSidebarOpen={sidebarOpen}
+							icon={
+								<svg
+									xmlns='http://www.w3.org/2000/svg'
+									className='h-6 w-6'
+									fill='none'
+									viewBox='0 0 24 24'
+									stroke='currentColor'>
+									<path
+										strokeLinecap='round'
+										strokeLinejoin='round'
+										strokeWidth={2}
+										d='M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4'
+									/>
+								</svg>
+							}
+						/>
+					)}
+				<NavItem
+					to='/trash'
+					label='Trash'
+					isSidebarOpen={sidebarOpen}
+					icon={
+						<svg
+							xmlns='http://www.w3.org/2000/svg'
+							className='h-6 w-6'
+							fill='none'
+							viewBox='0 0 24 24'
+							stroke='currentColor'>
+							<path
+								strokeLinecap='round'
+								strokeLinejoin='round'
+								strokeWidth={2}
+								d='M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16'
+							/>
+						</svg>
+					}
+				/>
 				<NavItem
 					to='/settings'
 					label='Settings'
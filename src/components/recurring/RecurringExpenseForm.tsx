@@ -0,0 +1,240 @@
+// src/components/recurring/RecurringExpenseForm.tsx
+import React, { useState } from 'react';
+import { RecurringExpense } from '../../models/types';
+
+export type RecurringExpenseFormValues = Pick<
+	RecurringExpense,
+	| 'amount'
+	| 'currency'
+	| 'category'
+	| 'description'
+	| 'frequency'
+	| 'interval'
+	| 'startDate'
+	| 'endDate'
+>;
+
+interface RecurringExpenseFormProps {
+	template: RecurringExpense;
+	categories: string[];
+	isSaving?: boolean;
+	onSubmit: (values: RecurringExpenseFormValues) => void;
+	onCancel: () => void;
+}
+
+const toInputDate = (date?: Date) =>
+	date ? new Date(date).toISOString().split('T')[0] : '';
+
+const inputClassName =
+	'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+const labelClassName =
+	'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+/**
+ * RecurringExpenseForm Component
+ * Edits the amount, category and schedule of a recurring expense template
+ */
+const RecurringExpenseForm: React.FC<RecurringExpenseFormProps> = ({
+	template,
+	categories,
+	isSaving = false,
+	onSubmit,
+	onCancel,
+}) => {
+	const [description, setDescription] = useState(template.description);
+	const [amount, setAmount] = useState(template.amount.toString());
+	const [category, setCategory] = useState(template.category);
+	const [frequency, setFrequency] = useState(template.frequency);
+	const [interval, setRepeatInterval] = useState(template.interval.toString());
+	const [startDate, setStartDate] = useState(toInputDate(template.startDate));
+	const [endDate, setEndDate] = useState(toInputDate(template.endDate));
+	const [error, setError] = useState<string | null>(null);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const numericAmount = parseFloat(amount);
+		const numericInterval = parseInt(interval, 10);
+
+		if (!description || isNaN(numericAmount) || numericAmount <= 0) {
+			setError('Please enter a description and a positive amount');
+			return;
+		}
+		if (isNaN(numericInterval) || numericInterval < 1) {
+			setError('Repeat interval must be at least 1');
+			return;
+		}
+		if (endDate && startDate && endDate < startDate) {
+			setError('End date must be after the start date');
+			return;
+		}
+
+		onSubmit({
+			description,
+			amount: numericAmount,
+			currency: template.currency,
+			category,
+			frequency,
+			interval: numericInterval,
+			startDate: new Date(startDate),
+			endDate: endDate ? new Date(endDate) : undefined,
+		});
+	};
+
+	return (
+		<form
+			className='space-y-4'
+			onSubmit={handleSubmit}>
+			<div>
+				<label
+					htmlFor='recurring-description'
+					className={labelClassName}>
+					Description*
+				</label>
+				<input
+					id='recurring-description'
+					type='text'
+					required
+					value={description}
+					onChange={(e) => setDescription(e.target.value)}
+					className={`mt-1 ${inputClassName}`}
+				/>
+			</div>
+
+			<div className='grid grid-cols-2 gap-4'>
+				<div>
+					<label
+						htmlFor='recurring-amount'
+						className={labelClassName}>
+						Amount ({template.currency})*
+					</label>
+					<input
+						id='recurring-amount'
+						type='number'
+						step='0.01'
+						min='0'
+						required
+						value={amount}
+						onChange={(e) => setAmount(e.target.value)}
+						className={`mt-1 ${inputClassName}`}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor='recurring-category'
+						className={labelClassName}>
+						Category*
+					</label>
+					<select
+						id='recurring-category'
+						value={category}
+						onChange={(e) => setCategory(e.target.value)}
+						className={`mt-1 ${inputClassName}`}>
+						{!categories.includes(category) && (
+							<option value={category}>{category}</option>
+						)}
+						{categories.map((cat) => (
+							<option
+								key={cat}
+								value={cat}>
+								{cat}
+							</option>
+						))}
+					</select>
+				</div>
+			</div>
+
+			<div className='grid grid-cols-2 gap-4'>
+				<div>
+					<label
+						htmlFor='recurring-interval'
+						className={labelClassName}>
+						Repeat every
+					</label>
+					<input
+						id='recurring-interval'
+						type='number'
+						min='1'
+						step='1'
+						value={interval}
+						onChange={(e) => setRepeatInterval(e.target.value)}
+						className={`mt-1 ${inputClassName}`}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor='recurring-frequency'
+						className={labelClassName}>
+						Frequency
+					</label>
+					<select
+						id='recurring-frequency'
+						value={frequency}
+						onChange={(e) =>
+							setFrequency(e.target.value as RecurringExpense['frequency'])
+						}
+						className={`mt-1 ${inputClassName}`}>
+						<option value='daily'>Day(s)</option>
+						<option value='weekly'>Week(s)</option>
+						<option value='monthly'>Month(s)</option>
+						<option value='yearly'>Year(s)</option>
+					</select>
+				</div>
+			</div>
+
+			<div className='grid grid-cols-2 gap-4'>
+				<div>
+					<label
+						htmlFor='recurring-start'
+						className={labelClassName}>
+						Starts on*
+					</label>
+					<input
+						id='recurring-start'
+						type='date'
+						required
+						value={startDate}
+						onChange={(e) => setStartDate(e.target.value)}
+						className={`mt-1 ${inputClassName}`}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor='recurring-end'
+						className={labelClassName}>
+						Ends on (Optional)
+					</label>
+					<input
+						id='recurring-end'
+						type='date'
+						value={endDate}
+						onChange={(e) => setEndDate(e.target.value)}
+						className={`mt-1 ${inputClassName}`}
+					/>
+				</div>
+			</div>
+
+			{error && (
+				<p className='text-sm text-red-600 dark:text-red-400'>{error}</p>
+			)}
+
+			<div className='flex justify-end pt-2'>
+				<button
+					type='button'
+					onClick={onCancel}
+					className='bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600'>
+					Cancel
+				</button>
+				<button
+					type='submit'
+					disabled={isSaving}
+					className='ml-3 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-70 disabled:cursor-not-allowed dark:bg-blue-700 dark:hover:bg-blue-800'>
+					{isSaving ? 'Saving...' : 'Save Changes'}
+				</button>
+			</div>
+		</form>
+	);
+};
+
+export default RecurringExpenseForm;
@@ -6,14 +6,7 @@ import React, {
 	ReactNode,
 } from 'react';
 import { useNavigate } from 'react-router-dom';
-import {
-	onAuthStateChanged,
-	User as FirebaseUser,
-	signOut,
-	updateProfile,
-	sendPasswordResetEmail,
-} from 'firebase/auth';
-import { auth } from '../services/firebase';
+import { firebaseService } from '../services/firebase';
 import { useNotification } from './NotificationContext';
 
 // User interface
@@ -72,7 +65,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
 	// Listen for auth state changes
 	useEffect(() => {
-		const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
+		const unsubscribe = firebaseService.onAuthStateChange((firebaseUser) => {
 			if (firebaseUser) {
 				const userData: User = {
 					uid: firebaseUser.uid,
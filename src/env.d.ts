@@ -1,6 +1,7 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
+	readonly VITE_STORAGE_PROVIDER?: 'firestore' | 'local';
 	readonly VITE_FIREBASE_API_KEY: string;
 	readonly VITE_FIREBASE_AUTH_DOMAIN: string;
 	readonly VITE_FIREBASE_PROJECT_ID: string;
@@ -0,0 +1,34 @@
+// src/hooks/useMerchants.ts
+import { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch } from '../store';
+import {
+	fetchMerchants,
+	selectMerchants,
+	selectMerchantsAccountId,
+} from '../store/slices/merchantsSlice';
+import { Merchant } from '../models/types';
+
+const NO_MERCHANTS: Merchant[] = [];
+
+/**
+ * Custom hook for the merchant directory of an account
+ * Loads it when first used.
+ */
+export const useMerchants = (accountId?: string): Merchant[] => {
+	const dispatch = useDispatch<AppDispatch>();
+	const merchants = useSelector(selectMerchants);
+	const merchantsAccountId = useSelector(selectMerchantsAccountId);
+
+	useEffect(() => {
+		if (accountId) {
+			dispatch(fetchMerchants(accountId));
+		}
+	}, [dispatch, accountId]);
+
+	return accountId && merchantsAccountId === accountId
+		? merchants
+		: NO_MERCHANTS;
+};
+
+export default useMerchants;
@@ -0,0 +1,33 @@
+// src/hooks/usePaymentMethods.ts
+import { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch } from '../store';
+import {
+	fetchPaymentMethods,
+	selectPaymentMethods,
+	selectPaymentMethodsAccountId,
+} from '../store/slices/paymentMethodsSlice';
+import { PaymentMethod } from '../models/types';
+
+const NO_METHODS: PaymentMethod[] = [];
+
+/**
+ * Custom hook for the payment methods of an account
+ * Loads them when first used and returns every method, archived ones
+ * included, so expenses paid with an archived method still show its name.
+ */
+export const usePaymentMethods = (accountId?: string): PaymentMethod[] => {
+	const dispatch = useDispatch<AppDispatch>();
+	const methods = useSelector(selectPaymentMethods);
+	const methodsAccountId = useSelector(selectPaymentMethodsAccountId);
+
+	useEffect(() => {
+		if (accountId) {
+			dispatch(fetchPaymentMethods(accountId));
+		}
+	}, [dispatch, accountId]);
+
+	return accountId && methodsAccountId === accountId ? methods : NO_METHODS;
+};
+
+export default usePaymentMethods;
@@ -0,0 +1,21 @@
+// src/models/collections.ts
+
+/*
+ * Registry of the collections whose documents belong to one account, found
+ * by their `accountId`. Purging an account deletes every document in them,
+ * so a new per-account collection must be added here.
+ */
+
+export const ACCOUNT_COLLECTIONS = [
+	'expenses',
+	'budgets',
+	'recurringExpenses',
+	'expenseHistory',
+	'settlements',
+	'savedViews',
+	'paymentMethods',
+	'merchants',
+	'trash',
+] as const;
+
+export type AccountCollection = (typeof ACCOUNT_COLLECTIONS)[number];
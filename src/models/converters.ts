@@ -0,0 +1,202 @@
+// src/models/converters.ts
+import { DocumentData, StoredDocument } from '../services/storage';
+import { BudgetUtils } from '../utils/budgetUtils';
+import {
+	Account,
+	Budget,
+	BudgetPeriod,
+	DEFAULT_ACCOUNT_CATEGORIES,
+	Expense,
+	MemberRef,
+	accountSchema,
+	budgetSchema,
+	dateSchema,
+	expenseSchema,
+} from './schemas';
+
+/*
+ * Converters from stored documents to the canonical model. Besides the
+ * current shape they accept the shapes written by earlier versions:
+ *
+ * - expenses with `createdBy` as a uid string, `receiptUrl` instead of
+ *   `receiptUrls`, `originalAmount`/`originalCurrency` with `amount` in the
+ *   base currency, or only a `userId` and no currency at all
+ * - budgets with `categories[]` and a `period` instead of `category` and
+ *   `recurringPeriod`, without a name, or with an open end date
+ * - accounts with `ownerId`, members keyed by `userId` and category objects
+ *   in `settings.defaultCategories`, or the bank-account shape with
+ *   `userId`, `currency` and `balance`
+ *
+ * Fields the model doesn't know are dropped.
+ */
+
+type LegacyDocument = StoredDocument<DocumentData>;
+
+// Legacy budget periods; the rest ('daily', 'custom') are not recurring
+const LEGACY_BUDGET_PERIODS: Record<string, BudgetPeriod> = {
+	weekly: 'weekly',
+	monthly: 'monthly',
+	quarterly: 'quarterly',
+	yearly: 'annually',
+	annually: 'annually',
+};
+
+const ACCOUNT_TYPES = ['personal', 'family', 'team', 'business'];
+
+const toNumber = (value: unknown) =>
+	value === undefined || value === null ? undefined : Number(value);
+
+// `createdBy` was a uid string in some shapes and missing in others
+const toMemberRef = (createdBy: unknown, fallbackUid?: string): MemberRef => {
+	if (typeof createdBy === 'string') {
+		return { uid: createdBy, displayName: '' };
+	}
+	if (createdBy && typeof (createdBy as MemberRef).uid === 'string') {
+		return {
+			uid: (createdBy as MemberRef).uid,
+			displayName: (createdBy as MemberRef).displayName || '',
+		};
+	}
+	return { uid: fallbackUid || '', displayName: '' };
+};
+
+/**
+ * Convert a stored expense to the canonical model
+ * @param doc - Stored expense in any known shape
+ * @param baseCurrency - Currency assumed for expenses that don't record one
+ * @returns Canonical expense
+ * @throws ZodError if the document can't be converted
+ */
+export const toExpense = (
+	doc: LegacyDocument,
+	baseCurrency = 'USD'
+): Expense => {
+	let amount = toNumber(doc.amount) ?? 0;
+	let exchangeRate = toNumber(doc.exchangeRate) || 1;
+	let amountInBaseCurrency = toNumber(doc.amountInBaseCurrency);
+
+	// `amount` used to be the converted amount, with the entered one beside it
+	if (amountInBaseCurrency === undefined) {
+		const originalAmount = toNumber(doc.originalAmount);
+		if (originalAmount !== undefined) {
+			amountInBaseCurrency = amount;
+			if (doc.exchangeRate === undefined && originalAmount !== 0) {
+				exchangeRate = amount / originalAmount;
+			}
+			amount = originalAmount;
+		} else {
+			amountInBaseCurrency = amount * exchangeRate;
+		}
+	}
+
+	const receiptUrls =
+		doc.receiptUrls ?? (doc.receiptUrl ? [doc.receiptUrl] : undefined);
+
+	return expenseSchema.parse({
+		...doc,
+		amount,
+		currency: doc.currency ?? doc.originalCurrency ?? baseCurrency,
+		exchangeRate,
+		amountInBaseCurrency,
+		description: doc.description ?? '',
+		receiptUrls,
+		createdAt: doc.createdAt ?? doc.date,
+		createdBy: toMemberRef(doc.createdBy, doc.userId),
+	});
+};
+
+/**
+ * Convert a stored budget to the canonical model
+ * @param doc - Stored budget in any known shape
+ * @returns Canonical budget
+ * @throws ZodError if the document can't be converted
+ */
+export const toBudget = (doc: LegacyDocument): Budget => {
+	const categories: string[] | undefined = doc.categories;
+	// Budgets over several categories are tracked against all spending
+	const category =
+		doc.category ?? (categories?.length === 1 ? categories[0] : 'All');
+	const recurringPeriod =
+		doc.recurringPeriod ?? LEGACY_BUDGET_PERIODS[doc.period] ?? undefined;
+	const startDate = dateSchema.parse(doc.startDate ?? doc.createdAt);
+
+	return budgetSchema.parse({
+		...doc,
+		accountId: doc.accountId ?? '',
+		name: doc.name ?? (category === 'All' ? 'All Categories' : category),
+		amount: toNumber(doc.amount) ?? 0,
+		category,
+		startDate,
+		endDate:
+			doc.endDate ?? BudgetUtils.getPeriodEnd(startDate, recurringPeriod),
+		isRecurring: doc.isRecurring ?? Boolean(recurringPeriod),
+		recurringPeriod,
+		isActive: doc.isActive ?? true,
+		notes: doc.notes ?? doc.description,
+		createdAt: doc.createdAt ?? startDate,
+		createdBy: toMemberRef(doc.createdBy, doc.userId),
+	});
+};
+
+/**
+ * Convert a stored account to the canonical model
+ * @param doc - Stored account in any known shape
+ * @returns Canonical account
+ * @throws ZodError if the document can't be converted
+ */
+export const toAccount = (doc: LegacyDocument): Account => {
+	const createdBy: string =
+		typeof doc.createdBy === 'string'
+			? doc.createdBy
+			: doc.ownerId ?? doc.userId ?? '';
+	const members: DocumentData[] = doc.members ?? [
+		{ uid: createdBy, role: 'admin' },
+	];
+	const settings: DocumentData = doc.settings ?? {};
+	const categories: string[] =
+		settings.categories ??
+		settings.defaultCategories?.map((category: string | { name: string }) =>
+			typeof category === 'string' ? category : category.name
+		) ??
+		DEFAULT_ACCOUNT_CATEGORIES;
+
+	return accountSchema.parse({
+		...doc,
+		description: doc.description ?? '',
+		type: ACCOUNT_TYPES.includes(doc.type) ? doc.type : undefined,
+		baseCurrency: doc.baseCurrency ?? doc.currency ?? 'USD',
+		createdBy,
+		members: members.map((member) => ({
+			uid: member.uid ?? member.userId,
+			email: member.email ?? '',
+			displayName: member.displayName ?? '',
+			role: member.role ?? 'member',
+			joinedAt: member.joinedAt ?? doc.createdAt,
+		})),
+		settings: {
+			theme: settings.theme ?? 'system',
+			categories,
+			defaultCategory: settings.defaultCategory ?? 'Other',
+		},
+	});
+};
+
+/**
+ * Convert a list of stored documents, skipping any that can't be converted
+ * so one malformed document doesn't hide the rest
+ * @param docs - Stored documents
+ * @param convert - Converter for the collection
+ * @returns Converted documents
+ */
+export const convertDocuments = <D extends LegacyDocument, T>(
+	docs: D[],
+	convert: (doc: D) => T
+): T[] =>
+	docs.flatMap((doc) => {
+		try {
+			return [convert(doc)];
+		} catch (error) {
+			console.warn(`Skipping malformed document ${doc.id}:`, error);
+			return [];
+		}
+	});
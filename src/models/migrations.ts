@@ -0,0 +1,209 @@
+// src/models/migrations.ts
+import { DocumentData } from '../services/storage';
+import { toAccount, toBudget, toExpense } from './converters';
+import { FieldChange, dateSchema } from './schemas';
+
+/*
+ * Registry of stored document migrations. Each stored document records the
+ * `schemaVersion` it was written with; documents without one predate
+ * versioning and count as version 0. A migration upgrades a document from
+ * the previous version to its own, and the latest version of a collection
+ * is the one new documents are written with.
+ *
+ * Migrations must be pure, and must leave documents that already have the
+ * target shape as they are: clients from before versioning still write
+ * current-shape documents without a version.
+ */
+
+export type MigratedCollection =
+	| 'expenses'
+	| 'budgets'
+	| 'accounts'
+	| 'recurringExpenses'
+	| 'settlements'
+	| 'savedViews'
+	| 'merchants'
+	| 'paymentMethods'
+	| 'expenseHistory'
+	| 'trash';
+
+// What a migration may need to know beyond the document itself
+export interface MigrationContext {
+	// Currency assumed for expenses that don't record one
+	baseCurrency?: string;
+}
+
+export interface Migration {
+	version: number;
+	description: string;
+	migrate: (doc: DocumentData, context: MigrationContext) => DocumentData;
+}
+
+export interface MigrationResult {
+	// Upgraded document, without its id
+	data: DocumentData;
+	fromVersion: number;
+	toVersion: number;
+	applied: Migration[];
+}
+
+// Fields that aren't part of the stored document
+const LOCAL_FIELDS = ['id', 'syncStatus', 'schemaVersion'];
+
+// Storage backends reject undefined, so unset fields are left out
+const toStoredData = (data: DocumentData): DocumentData =>
+	Object.fromEntries(
+		Object.entries(data).filter(
+			([field, value]) => value !== undefined && !LOCAL_FIELDS.includes(field)
+		)
+	);
+
+const toOptionalDate = (value: unknown) =>
+	value === undefined || value === null ? undefined : dateSchema.parse(value);
+
+const MIGRATIONS: Record<MigratedCollection, Migration[]> = {
+	expenses: [
+		{
+			version: 1,
+			description:
+				'Convert legacy expense shapes and fill in currency and base amount',
+			migrate: (doc, { baseCurrency }) =>
+				toExpense({ ...doc, id: doc.id ?? '' }, baseCurrency),
+		},
+	],
+	budgets: [
+		{
+			version: 1,
+			description:
+				'Convert legacy budget shapes and fill in name, end date and isActive',
+			migrate: (doc) => toBudget({ ...doc, id: doc.id ?? '' }),
+		},
+	],
+	accounts: [
+		{
+			version: 1,
+			description:
+				'Convert legacy account shapes, members and category settings',
+			migrate: (doc) => toAccount({ ...doc, id: doc.id ?? '' }),
+		},
+	],
+	recurringExpenses: [
+		{
+			version: 1,
+			description:
+				'Store schedule dates as dates and fill in active and interval',
+			migrate: (doc) => ({
+				...doc,
+				startDate: dateSchema.parse(doc.startDate ?? doc.createdAt),
+				endDate: toOptionalDate(doc.endDate),
+				lastGenerated: toOptionalDate(doc.lastGenerated),
+				nextDue: toOptionalDate(doc.nextDue),
+				interval: Math.max(1, Number(doc.interval) || 1),
+				active: doc.active ?? true,
+			}),
+		},
+	],
+	// Written with a version from the start; nothing to upgrade yet
+	settlements: [],
+	savedViews: [],
+	merchants: [],
+	paymentMethods: [],
+	expenseHistory: [],
+	trash: [],
+};
+
+// Version new documents of each collection are written with
+export const SCHEMA_VERSIONS = Object.fromEntries(
+	Object.entries(MIGRATIONS).map(([collection, migrations]) => [
+		collection,
+		Math.max(0, ...migrations.map((migration) => migration.version)),
+	])
+) as Record<MigratedCollection, number>;
+
+/**
+ * Version a stored document was written with
+ * @param doc - Stored document
+ * @returns Its schemaVersion, or 0 for documents written before versioning
+ */
+export const getSchemaVersion = (doc: DocumentData): number =>
+	typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+
+/**
+ * Stamp data about to be written as a new document with the current version
+ * @param collection - Collection the document is written to
+ * @param data - Document data
+ * @returns The data with its schemaVersion
+ */
+export const withSchemaVersion = <T extends DocumentData>(
+	collection: MigratedCollection,
+	data: T
+): T & { schemaVersion: number } => ({
+	...data,
+	schemaVersion: SCHEMA_VERSIONS[collection],
+});
+
+/**
+ * Upgrade a stored document to the current version of its collection
+ * Documents written by a newer version of the app are left alone.
+ * @param collection - Collection the document belongs to
+ * @param doc - Stored document, with its id
+ * @param context - Values migrations may need
+ * @returns The upgraded document, or null if it is up to date
+ * @throws ZodError if the document can't be converted
+ */
+export const migrateDocument = (
+	collection: MigratedCollection,
+	doc: DocumentData,
+	context: MigrationContext = {}
+): MigrationResult | null => {
+	const fromVersion = getSchemaVersion(doc);
+	const applied = MIGRATIONS[collection].filter(
+		(migration) => migration.version > fromVersion
+	);
+	if (applied.length === 0) return null;
+
+	const data = applied.reduce(
+		(current, migration) => ({
+			...migration.migrate(current, context),
+			id: doc.id,
+		}),
+		doc
+	);
+
+	return {
+		data: {
+			...toStoredData(data),
+			schemaVersion: SCHEMA_VERSIONS[collection],
+		},
+		fromVersion,
+		toVersion: SCHEMA_VERSIONS[collection],
+		applied,
+	};
+};
+
+// Dates and nested values compared by content
+const normalize = (value: unknown): unknown => {
+	if (value instanceof Date) return value.getTime();
+	if (value && typeof value === 'object') return JSON.stringify(value);
+	return value ?? null;
+};
+
+/**
+ * Fields a migration changes, for dry-run reports
+ * @param before - Stored document
+ * @param after - Upgraded document
+ * @returns One change per field whose value differs
+ */
+export const diffMigration = (
+	before: DocumentData,
+	after: DocumentData
+): FieldChange[] =>
+	Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+		.filter((field) => field !== 'id' && field !== 'syncStatus')
+		.filter((field) => normalize(before[field]) !== normalize(after[field]))
+		.sort()
+		.map((field) => ({
+			field,
+			before: before[field] ?? null,
+			after: after[field] ?? null,
+		}));
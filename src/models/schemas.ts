@@ -0,0 +1,433 @@
+// src/models/schemas.ts
+import { z } from 'zod';
+
+/*
+ * Canonical domain model. Every expense, budget and account held in the
+ * store, the offline cache or a page has this shape; documents written in
+ * older shapes are brought to it by the converters in ./converters, and
+ * upgraded in storage by the migrations in ./migrations.
+ */
+
+// Dates arrive as Date objects (Firestore provider, IndexedDB), ISO strings
+// (REST API, localStorage) or raw Firestore timestamps
+export const dateSchema = z.preprocess((value) => {
+	if (value instanceof Date || value === null || value === undefined) {
+		return value;
+	}
+	if (typeof value === 'string' || typeof value === 'number') {
+		return new Date(value);
+	}
+	if (typeof (value as any).toDate === 'function') {
+		return (value as any).toDate();
+	}
+	if (typeof (value as any).seconds === 'number') {
+		return new Date(
+			(value as any).seconds * 1000 + ((value as any).nanoseconds || 0) / 1e6
+		);
+	}
+	return value;
+}, z.date());
+
+// Firestore stores cleared fields as null; the model only uses undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+	schema.nullish().transform((value) => value ?? undefined);
+
+export const syncStatusSchema = z.enum([
+	'pending',
+	'synced',
+	'conflict',
+	'failed',
+]);
+
+// Author of a document, denormalized so lists don't need a user lookup
+export const memberRefSchema = z.object({
+	uid: z.string(),
+	displayName: z.string(),
+});
+
+export const splitMethodSchema = z.enum([
+	'equal',
+	'exact',
+	'percentage',
+	'shares',
+]);
+
+// One member's part of a split expense
+export const splitShareSchema = z.object({
+	uid: z.string(),
+	// As entered: an amount, a percentage or a number of shares (0 for equal)
+	value: z.number().nonnegative(),
+	// Resolved part of the expense, in the expense's currency
+	amount: z.number(),
+});
+
+export const expenseSplitSchema = z.object({
+	method: splitMethodSchema,
+	// uid of the member who paid for the expense
+	paidBy: z.string(),
+	shares: z.array(splitShareSchema).min(1),
+});
+
+// One line of an itemized expense, counted in its own category
+export const lineItemSchema = z.object({
+	description: z.string(),
+	// In the expense's currency
+	amount: z.number().nonnegative(),
+	category: z.string(),
+	tags: optional(z.array(z.string())),
+	quantity: optional(z.number().positive()),
+	unitPrice: optional(z.number().nonnegative()),
+});
+
+export const expenseStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+// An approver's decision on an expense
+export const expenseReviewSchema = z.object({
+	by: memberRefSchema,
+	at: dateSchema,
+	// Given when the expense is rejected
+	reason: optional(z.string()),
+});
+
+export const expenseSchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	// Amount in the expense's own currency
+	amount: z.number(),
+	currency: z.string(),
+	// Multiplier from the expense currency to the account's base currency
+	exchangeRate: z.number().positive(),
+	amountInBaseCurrency: z.number(),
+	// Refunds and credits have a negative amount; a refund can name the
+	// expense it gives money back for
+	refundOf: optional(z.string()),
+	category: z.string(),
+	subcategory: optional(z.string()),
+	description: z.string(),
+	notes: optional(z.string()),
+	date: dateSchema,
+	tags: optional(z.array(z.string())),
+	// Card, bank account or wallet the expense was paid with
+	paymentMethodId: optional(z.string()),
+	receiptUrls: optional(z.array(z.string())),
+	isRecurring: optional(z.boolean()),
+	recurringId: optional(z.string()),
+	// Who paid and how the expense is shared between members
+	split: optional(expenseSplitSchema),
+	// Line items add up to the amount
+	lineItems: optional(z.array(lineItemSchema)),
+	// Set while the expense has line items, so totals can query for them
+	itemized: optional(z.boolean()),
+	// Only set in accounts that require approval; expenses without a status
+	// count as approved
+	status: optional(expenseStatusSchema),
+	review: optional(expenseReviewSchema),
+	// Expenses a member confirmed this one is not a duplicate of
+	notDuplicateOf: optional(z.array(z.string())),
+	createdAt: dateSchema,
+	updatedAt: optional(dateSchema),
+	createdBy: memberRefSchema,
+	// Member who made the latest change
+	updatedBy: optional(memberRefSchema),
+	// Local only: whether the latest change has reached the server
+	syncStatus: optional(syncStatusSchema),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+export const budgetPeriodSchema = z.enum([
+	'weekly',
+	'monthly',
+	'quarterly',
+	'annually',
+]);
+
+export const budgetSchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	name: z.string(),
+	amount: z.number(),
+	// Expense category the budget tracks, or 'All'
+	category: z.string(),
+	startDate: dateSchema,
+	endDate: dateSchema,
+	isRecurring: z.boolean(),
+	recurringPeriod: optional(budgetPeriodSchema),
+	isActive: z.boolean(),
+	notes: optional(z.string()),
+	createdAt: dateSchema,
+	updatedAt: optional(dateSchema),
+	createdBy: memberRefSchema,
+	// Member who made the latest change
+	updatedBy: optional(memberRefSchema),
+	// Local only: whether the latest change has reached the server
+	syncStatus: optional(syncStatusSchema),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+// Categories a new account starts with
+export const DEFAULT_ACCOUNT_CATEGORIES = [
+	'Food & Drink',
+	'Shopping',
+	'Housing',
+	'Transportation',
+	'Entertainment',
+	'Health',
+	'Travel',
+	'Education',
+	'Personal',
+	'Other',
+];
+
+// Expenses that are approved without waiting for an admin
+export const approvalPolicySchema = z.object({
+	// In the account's base currency; expenses below it are approved
+	autoApproveBelow: optional(z.number().nonnegative()),
+	// Expenses in these categories are approved whatever their amount
+	autoApproveCategories: optional(z.array(z.string())),
+});
+
+export const categoryRuleConditionSchema = z.object({
+	field: z.enum(['description', 'amount', 'paymentMethod']),
+	operator: z.enum(['contains', 'matches', '=', '>', '>=', '<', '<=']),
+	// Text, a pattern, an amount in the base currency or a payment method id
+	value: z.string(),
+});
+
+// Files new expenses in a category, see shared/categoryRules
+export const categoryRuleSchema = z.object({
+	id: z.string(),
+	name: z.string().min(1),
+	// Lower numbers are tried first
+	priority: z.number().int(),
+	enabled: z.boolean(),
+	// All must match
+	conditions: z.array(categoryRuleConditionSchema).min(1),
+	category: z.string(),
+	tags: optional(z.array(z.string())),
+});
+
+export const accountRoleSchema = z.enum(['admin', 'member', 'viewer']);
+
+export const accountMemberSchema = z.object({
+	uid: z.string(),
+	email: z.string(),
+	displayName: z.string(),
+	role: accountRoleSchema,
+	joinedAt: dateSchema,
+});
+
+export const accountSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	description: z.string(),
+	type: optional(z.enum(['personal', 'family', 'team', 'business'])),
+	baseCurrency: z.string(),
+	createdAt: dateSchema,
+	updatedAt: optional(dateSchema),
+	// uid of the user who created the account
+	createdBy: z.string(),
+	members: z.array(accountMemberSchema),
+	settings: z.object({
+		theme: z.enum(['light', 'dark', 'system']),
+		categories: z.array(z.string()),
+		defaultCategory: z.string(),
+		// Expenses of members wait for an admin's approval
+		expenseApprovalRequired: optional(z.boolean()),
+		approvalPolicy: optional(approvalPolicySchema),
+		categoryRules: optional(z.array(categoryRuleSchema)),
+	}),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+// Money paid by one member to another to settle split expenses
+export const settlementSchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	// uid of the member who paid
+	from: z.string(),
+	// uid of the member who was paid
+	to: z.string(),
+	// In the account's base currency
+	amount: z.number().positive(),
+	date: dateSchema,
+	note: optional(z.string()),
+	createdAt: dateSchema,
+	createdBy: memberRefSchema,
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+export const paymentMethodTypeSchema = z.enum([
+	'cash',
+	'card',
+	'bank',
+	'wallet',
+]);
+
+// A way members of an account pay for expenses. Methods used by expenses
+// are archived rather than deleted, so the expenses keep their name.
+export const paymentMethodSchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	name: z.string().min(1),
+	type: paymentMethodTypeSchema,
+	// Emoji shown next to the name
+	icon: optional(z.string()),
+	// Last four digits of a card or bank account number
+	lastFour: optional(z.string().regex(/^\d{4}$/)),
+	// uid of the member the card or account belongs to; unset when shared
+	ownerUid: optional(z.string()),
+	archived: optional(z.boolean()),
+	createdAt: dateSchema,
+	createdBy: memberRefSchema,
+	updatedAt: optional(dateSchema),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+// A business expenses are paid to. Descriptions are matched to merchants by
+// their name and aliases, so "STARBUCKS #1234 SEATTLE" and "SBUX" both count
+// as Starbucks without changing the expenses.
+export const merchantSchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	name: z.string().min(1),
+	// Other names the merchant appears under, e.g. on card statements
+	aliases: z.array(z.string()).default([]),
+	// Category given to new expenses at this merchant
+	defaultCategory: optional(z.string()),
+	logoUrl: optional(z.string().url()),
+	// Hex color used in charts, e.g. #00704A
+	color: optional(z.string().regex(/^#[0-9a-fA-F]{6}$/)),
+	createdAt: dateSchema,
+	createdBy: memberRefSchema,
+	updatedAt: optional(dateSchema),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+// Filters of the expense list, as saved in a view
+export const expenseViewFiltersSchema = z.object({
+	// 'all' for every category
+	category: z.string(),
+	// YYYY-MM-DD days; either end may be open
+	dateRange: z
+		.object({
+			startDate: z.string().nullable(),
+			endDate: z.string().nullable(),
+		})
+		.nullable(),
+	// Search query, see shared/expenseQuery
+	searchQuery: z.string(),
+	// Expenses with any of these tags
+	tags: z.array(z.string()).default([]),
+	// Expenses paid with this payment method
+	paymentMethodId: optional(z.string()),
+});
+
+// Named set of expense list filters. Views are private to the member who
+// saved them unless shared with the account; pins are per member.
+export const savedViewSchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	name: z.string().min(1),
+	filters: expenseViewFiltersSchema,
+	shared: z.boolean(),
+	// uids of the members who pinned the view to their sidebar
+	pinnedBy: z.array(z.string()).default([]),
+	createdAt: dateSchema,
+	createdBy: memberRefSchema,
+	updatedAt: dateSchema,
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+export const auditActionSchema = z.enum([
+	'create',
+	'update',
+	'delete',
+	'revert',
+	'restore',
+]);
+
+export const fieldChangeSchema = z.object({
+	field: z.string(),
+	// null when the field was unset
+	before: z.unknown(),
+	after: z.unknown(),
+});
+
+// Immutable record of one change to an expense; entries are never edited
+export const auditEntrySchema = z.object({
+	id: z.string(),
+	accountId: z.string(),
+	expenseId: z.string(),
+	action: auditActionSchema,
+	actor: memberRefSchema,
+	at: dateSchema,
+	changes: z.array(fieldChangeSchema),
+	// The expense after the change (before it, for deletes)
+	snapshot: z.record(z.unknown()),
+	// Entry whose version a revert restored
+	revertedTo: optional(z.string()),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+export const trashCollectionSchema = z.enum([
+	'expenses',
+	'budgets',
+	'accounts',
+]);
+
+// A deleted expense, budget or account, kept until restored or purged
+export const trashItemSchema = z.object({
+	id: z.string(),
+	// Account the item belonged to; for accounts, the account itself
+	accountId: z.string(),
+	collection: trashCollectionSchema,
+	docId: z.string(),
+	// Description or name, so the list doesn't need the full document
+	label: z.string(),
+	// The document as it was stored, written back on restore
+	data: z.record(z.unknown()),
+	deletedAt: dateSchema,
+	deletedBy: memberRefSchema,
+	purgeAt: dateSchema,
+	// Admins of the account at deletion; they alone see deleted accounts
+	adminUids: z.array(z.string()),
+	// Version of the stored shape, see ./migrations
+	schemaVersion: optional(z.number().int()),
+});
+
+export type SyncStatus = z.infer<typeof syncStatusSchema>;
+export type MemberRef = z.infer<typeof memberRefSchema>;
+export type SplitMethod = z.infer<typeof splitMethodSchema>;
+export type SplitShare = z.infer<typeof splitShareSchema>;
+export type ExpenseSplit = z.infer<typeof expenseSplitSchema>;
+export type LineItem = z.infer<typeof lineItemSchema>;
+export type ExpenseStatus = z.infer<typeof expenseStatusSchema>;
+export type ExpenseReview = z.infer<typeof expenseReviewSchema>;
+export type Expense = z.infer<typeof expenseSchema>;
+export type BudgetPeriod = z.infer<typeof budgetPeriodSchema>;
+export type Budget = z.infer<typeof budgetSchema>;
+export type ApprovalPolicy = z.infer<typeof approvalPolicySchema>;
+export type CategoryRuleCondition = z.infer<typeof categoryRuleConditionSchema>;
+export type CategoryRule = z.infer<typeof categoryRuleSchema>;
+export type AccountRole = z.infer<typeof accountRoleSchema>;
+export type AccountMember = z.infer<typeof accountMemberSchema>;
+export type Account = z.infer<typeof accountSchema>;
+export type Settlement = z.infer<typeof settlementSchema>;
+export type PaymentMethodType = z.infer<typeof paymentMethodTypeSchema>;
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type Merchant = z.infer<typeof merchantSchema>;
+export type ExpenseViewFilters = z.infer<typeof expenseViewFiltersSchema>;
+export type SavedView = z.infer<typeof savedViewSchema>;
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type TrashCollection = z.infer<typeof trashCollectionSchema>;
+export type TrashItem = z.infer<typeof trashItemSchema>;
@@ -1,9 +1,9 @@
 // src/models/types.ts
-import { User as FirebaseUser } from 'firebase/auth';
+import { AuthUser } from '../services/storage';
 
 // User Model
 export interface User {
-	firebaseUser: FirebaseUser;
+	firebaseUser: AuthUser;
 	preferences: {
 		darkMode: boolean;
 		language: string;
@@ -21,78 +21,37 @@ export interface NotificationSettings {
 	expenseReminders: boolean;
 }
 
-// Account (Organization/Team/Family)
-export interface Account {
-	id: string;
-	name: string;
-	type: 'personal' | 'family' | 'team' | 'business';
-	description?: string;
-	createdAt: Date;
-	updatedAt: Date;
-	ownerId: string;
-	baseCurrency: string;
-	members: AccountMember[];
-	settings: {
-		defaultCategories: ExpenseCategory[];
-		fiscalYearStart: number; // 1-12 for month
-		weekStart: number; // 0-6 for day of week (0 = Sunday)
-		expenseApprovalRequired: boolean;
-	};
-}
-
-export interface AccountMember {
-	userId: string;
-	role: 'admin' | 'member' | 'viewer';
-	joinedAt: Date;
-	invitedBy: string;
-}
-
-// Expense Model
-export interface Expense {
-	id: string;
-	accountId: string;
-	amount: number;
-	originalAmount?: number; // For expenses in non-base currency
-	originalCurrency?: string;
-	exchangeRate?: number;
-	category: string;
-	subcategory?: string;
-	date: Date;
-	description: string;
-	notes?: string;
-	tags?: string[];
-	isRecurring: boolean;
-	recurringId?: string;
-	receiptUrls?: string[];
-	createdBy: string;
-	createdAt: Date;
-	updatedAt: Date;
-	status: 'pending' | 'approved' | 'rejected';
-	paymentMethod?: string;
-	location?: {
-		name?: string;
-		latitude?: number;
-		longitude?: number;
-	};
-}
-
-// Budget Model
-export interface Budget {
-	id: string;
-	accountId: string;
-	name: string;
-	amount: number;
-	currency: string;
-	period: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
-	startDate: Date;
-	endDate?: Date;
-	categories: string[]; // Array of category IDs this budget applies to
-	createdBy: string;
-	createdAt: Date;
-	updatedAt: Date;
-	rollover: boolean; // Whether unspent budget rolls over to next period
-	notes?: string;
-}
+// Accounts, expenses and budgets use the canonical schemas
+export type {
+	Account,
+	AccountMember,
+	AccountRole,
+	ApprovalPolicy,
+	AuditAction,
+	AuditEntry,
+	Budget,
+	BudgetPeriod,
+	CategoryRule,
+	CategoryRuleCondition,
+	Expense,
+	ExpenseReview,
+	ExpenseSplit,
+	ExpenseStatus,
+	ExpenseViewFilters,
+	FieldChange,
+	LineItem,
+	MemberRef,
+	Merchant,
+	PaymentMethod,
+	PaymentMethodType,
+	SavedView,
+	Settlement,
+	SplitMethod,
+	SplitShare,
+	SyncStatus,
+	TrashCollection,
+	TrashItem,
+} from './schemas';
 
 // Category Model
 export interface ExpenseCategory {
@@ -34,6 +34,7 @@ import { DateUtils } from '@/utils/dateUtils';
 import { useNotification } from '@/contexts/NotificationContext';
 import { apiService } from '@/services/api';
 import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import SplitBalances from '@/components/accounts/SplitBalances';
 
 // Interfaces for detailed account data
 interface AccountDetail {
@@ -356,14 +357,18 @@ export const AccountDetail: React.FC = () => {
 			{renderAccountSummaryCard()}
 
 			<Tabs defaultValue='balance'>
-				<TabsList className='grid w-full grid-cols-2'>
+				<TabsList className='grid w-full grid-cols-3'>
 					<TabsTrigger value='balance'>Balance History</TabsTrigger>
 					<TabsTrigger value='transactions'>Transactions</TabsTrigger>
+					<TabsTrigger value='splits'>Balances</TabsTrigger>
 				</TabsList>
 				<TabsContent value='balance'>{renderBalanceHistoryChart()}</TabsContent>
 				<TabsContent value='transactions'>
 					{renderTransactionsSection()}
 				</TabsContent>
+				<TabsContent value='splits'>
+					<SplitBalances accountId={account.id} />
+				</TabsContent>
 			</Tabs>
 
 			{/* Confirmation Dialog for Account Deletion */}
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
+import { useDispatch } from 'react-redux';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
 	Wallet,
-	CreditCard,
-	PiggyBank,
-	TrendingUp,
+	Users,
+	UserPlus,
+	Briefcase,
 	Plus,
 	MoreHorizontal,
 } from 'lucide-react';
@@ -15,22 +16,15 @@ import {
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { useCurrency } from '@/hooks/useCurrency';
 import { useNotification } from '@/contexts/NotificationContext';
 import { apiService } from '@/services/api';
 import { ConfirmDialog } from '@/components/common/ConfirmDialog';
-
-// Account interface
-interface Account {
-	id: string;
-	name: string;
-	type: 'checking' | 'savings' | 'credit' | 'investment';
-	balance: number;
-	currency: string;
-}
+import { deleteAccount } from '@/store/slices/accountsSlice';
+import { AppDispatch } from '@/store';
+import { Account } from '@/models/types';
 
 export const AccountList: React.FC = () => {
-	const { formatCurrency } = useCurrency();
+	const dispatch = useDispatch<AppDispatch>();
 	const { addNotification } = useNotification();
 
 	const [accounts, setAccounts] = useState<Account[]>([]);
@@ -58,14 +52,14 @@ export const AccountList: React.FC = () => {
 	const getAccountIcon = (type: Account['type']) => {
 		const iconProps = { className: 'w-6 h-6 mr-2 text-muted-foreground' };
 		switch (type) {
-			case 'checking':
+			case 'family':
+				return <Users {...iconProps} />;
+			case 'team':
+				return <UserPlus {...iconProps} />;
+			case 'business':
+				return <Briefcase {...iconProps} />;
+			default:
 				return <Wallet {...iconProps} />;
-			case 'savings':
-				return <PiggyBank {...iconProps} />;
-			case 'credit':
-				return <CreditCard {...iconProps} />;
-			case 'investment':
-				return <TrendingUp {...iconProps} />;
 		}
 	};
 
@@ -74,13 +68,16 @@ export const AccountList: React.FC = () => {
 		if (!deleteAccountId) return;
 
 		try {
-			await apiService.deleteAccount(deleteAccountId);
+			await dispatch(deleteAccount(deleteAccountId)).unwrap();
 			setAccounts((prev) =>
 				prev.filter((account) => account.id !== deleteAccountId)
 			);
-			addNotification('Account deleted successfully', 'success');
+			addNotification('Account moved to the trash', 'success');
 		} catch (error) {
-			addNotification('Failed to delete account', 'error');
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to delete account',
+				'error'
+			);
 		} finally {
 			setDeleteAccountId(null);
 		}
@@ -88,8 +85,6 @@ export const AccountList: React.FC = () => {
 
 	// Render account card
 	const renderAccountCard = (account: Account) => {
-		const isNegative = account.balance < 0;
-
 		return (
 			<Card
 				key={account.id}
@@ -120,13 +115,11 @@ export const AccountList: React.FC = () => {
 					</DropdownMenu>
 				</CardHeader>
 				<CardContent>
-					<div className='text-2xl font-bold'>
-						<span className={isNegative ? 'text-red-600' : ''}>
-							{formatCurrency(account.balance, { currency: account.currency })}
-						</span>
-					</div>
-					<div className='text-sm text-muted-foreground capitalize'>
-						{account.type} Account
+					<div className='text-2xl font-bold'>{account.baseCurrency}</div>
+					<div className='text-sm text-muted-foreground'>
+						<span className='capitalize'>{account.type || 'personal'}</span>{' '}
+						account · {account.members.length}{' '}
+						{account.members.length === 1 ? 'member' : 'members'}
 					</div>
 				</CardContent>
 			</Card>
@@ -160,7 +153,7 @@ export const AccountList: React.FC = () => {
 				onClose={() => setDeleteAccountId(null)}
 				onConfirm={handleDeleteAccount}
 				title='Delete Account'
-				message='Are you sure you want to delete this account? This action cannot be undone.'
+				message='Are you sure you want to delete this account? Admins can restore it from the Trash for 30 days.'
 				confirmText='Delete'
 				variant='destructive'
 			/>
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import {
+	fetchApprovalQueue,
+	reviewExpense,
+	selectApprovalQueue,
+	selectApprovalQueueAccountId,
+	selectApprovalStatus,
+	selectApprovalError,
+} from '../store/slices/approvalsSlice';
+import { selectCurrentAccount } from '../store/slices/accountsSlice';
+import { selectUser } from '../store/slices/authSlice';
+import { showNotification } from '../store/slices/uiSlice';
+import { AppDispatch } from '../store';
+import { DateUtils } from '../utils/dateUtils';
+import { ApprovalUtils } from '../utils/approvalUtils';
+import { Expense } from '../models/types';
+
+// Components
+import LoadingScreen from '../components/common/LoadingScreen';
+import EmptyState from '../components/common/EmptyState';
+import { ReceiptThumbnail } from '../components/expenses/ReceiptViewer';
+
+const Approvals = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const navigate = useNavigate();
+
+	const queue = useSelector(selectApprovalQueue);
+	const queueAccountId = useSelector(selectApprovalQueueAccountId);
+	const status = useSelector(selectApprovalStatus);
+	const error = useSelector(selectApprovalError);
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+
+	const [busyId, setBusyId] = useState<string | null>(null);
+	// Expense being rejected, with the reason typed so far
+	const [rejecting, setRejecting] = useState<{
+		id: string;
+		reason: string;
+	} | null>(null);
+
+	const isApprover =
+		!!currentAccount &&
+		ApprovalUtils.isApprover(currentAccount, user?.firebaseUser.uid);
+
+	// Load the queue when component mounts
+	useEffect(() => {
+		if (currentAccount && isApprover) {
+			dispatch(fetchApprovalQueue(currentAccount.id));
+		}
+	}, [dispatch, currentAccount, isApprover]);
+
+	const formatCurrency = (amount: number, currency: string): string =>
+		new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+		}).format(amount);
+
+	const handleReview = async (
+		expense: Expense,
+		decision: 'approved' | 'rejected',
+		reason?: string
+	) => {
+		try {
+			setBusyId(expense.id);
+			await dispatch(
+				reviewExpense({ expenseId: expense.id, decision, reason })
+			).unwrap();
+			setRejecting(null);
+			dispatch(
+				showNotification(
+					'success',
+					`"${expense.description}" ${
+						decision === 'approved' ? 'approved' : 'rejected'
+					}`
+				)
+			);
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to review expense'
+				)
+			);
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	const renderExpense = (expense: Expense) => {
+		const baseCurrency = currentAccount?.baseCurrency || expense.currency;
+
+		return (
+			<li
+				key={expense.id}
+				className='px-6 py-4'>
+				<div className='flex flex-col md:flex-row md:items-center md:justify-between'>
+					<div className='flex items-start space-x-3'>
+						{expense.receiptUrls?.[0] && (
+							<ReceiptThumbnail
+								url={expense.receiptUrls[0]}
+								index={0}
+							/>
+						)}
+						<div>
+							<button
+								onClick={() => navigate(`/expenses/${expense.id}`)}
+								className='font-medium text-gray-900 dark:text-gray-100 hover:underline'>
+								{expense.description || 'Untitled'}
+							</button>
+							<p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+								{formatCurrency(expense.amountInBaseCurrency, baseCurrency)}
+								{expense.currency !== baseCurrency &&
+									` (${formatCurrency(expense.amount, expense.currency)})`}{' '}
+								· {expense.category} ·{' '}
+								{DateUtils.formatDate(expense.date, 'MMM d, yyyy')}
+							</p>
+							<p className='text-sm text-gray-600 dark:text-gray-400'>
+								Submitted by {expense.createdBy.displayName || 'Unknown member'}
+								{(expense.receiptUrls?.length ?? 0) === 0 && ' · No receipt'}
+							</p>
+						</div>
+					</div>
+
+					{rejecting?.id !== expense.id && (
+						<div className='flex space-x-2 mt-3 md:mt-0'>
+							<button
+								onClick={() => handleReview(expense, 'approved')}
+								disabled={busyId !== null}
+								className='px-3 py-1 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition duration-200 disabled:opacity-50'>
+								{busyId === expense.id ? 'Working...' : 'Approve'}
+							</button>
+							<button
+								onClick={() => setRejecting({ id: expense.id, reason: '' })}
+								disabled={busyId !== null}
+								className='px-3 py-1 text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50'>
+								Reject
+							</button>
+						</div>
+					)}
+				</div>
+
+				{rejecting?.id === expense.id && (
+					<div className='mt-3 space-y-2'>
+						<label
+							htmlFor={`reject-reason-${expense.id}`}
+							className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+							Reason for rejecting
+						</label>
+						<textarea
+							id={`reject-reason-${expense.id}`}
+							rows={2}
+							value={rejecting.reason}
+							onChange={(e) =>
+								setRejecting({ id: expense.id, reason: e.target.value })
+							}
+							placeholder='e.g. Missing receipt'
+							className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+						/>
+						<div className='flex space-x-2'>
+							<button
+								onClick={() =>
+									handleReview(expense, 'rejected', rejecting.reason)
+								}
+								disabled={busyId !== null || !rejecting.reason.trim()}
+								className='px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition duration-200 disabled:opacity-50'>
+								{busyId === expense.id ? 'Working...' : 'Reject expense'}
+							</button>
+							<button
+								onClick={() => setRejecting(null)}
+								disabled={busyId !== null}
+								className='px-3 py-1 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50'>
+								Cancel
+							</button>
+						</div>
+					</div>
+				)}
+			</li>
+		);
+	};
+
+	if (status === 'loading') {
+		return <LoadingScreen />;
+	}
+
+	if (!currentAccount) {
+		return (
+			<EmptyState
+				title='No Account Selected'
+				description='Please select or create an account to review its expenses.'
+				actionText='Go to Accounts'
+				onAction={() => navigate('/accounts')}
+			/>
+		);
+	}
+
+	if (!isApprover) {
+		return (
+			<EmptyState
+				title='Admins Only'
+				description={`Only admins of ${currentAccount.name} can approve expenses.`}
+				actionText='Go to Expenses'
+				onAction={() => navigate('/expenses')}
+			/>
+		);
+	}
+
+	const items = queueAccountId === currentAccount.id ? queue : [];
+
+	return (
+		<div className='container mx-auto px-4 py-6'>
+			<div className='mb-6'>
+				<h1 className='text-2xl font-bold'>Approvals</h1>
+				<p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+					Expenses waiting for approval don't count towards budgets until they
+					are approved.
+				</p>
+			</div>
+
+			{!ApprovalUtils.isRequired(currentAccount) && (
+				<div className='p-4 mb-6 bg-blue-50 dark:bg-blue-900/20 rounded-lg'>
+					<p className='text-blue-700 dark:text-blue-300 text-sm'>
+						{currentAccount.name} doesn't require approval. Turn it on in
+						Settings.
+					</p>
+				</div>
+			)}
+
+			{error && (
+				<div className='p-4 mb-6 bg-red-50 dark:bg-red-900/20 rounded-lg'>
+					<p className='text-red-600 dark:text-red-300'>{error}</p>
+				</div>
+			)}
+
+			{items.length > 0 ? (
+				<ul className='bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700'>
+					{items.map(renderExpense)}
+				</ul>
+			) : (
+				!error && (
+					<EmptyState
+						title='Nothing to Approve'
+						description={`Expenses submitted to ${currentAccount.name} that need approval show up here.`}
+						compact
+					/>
+				)
+			)}
+		</div>
+	);
+};
+
+export default Approvals;
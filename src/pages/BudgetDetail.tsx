@@ -6,13 +6,15 @@ import { format } from 'date-fns';
 import {
 	fetchBudget,
 	selectSelectedBudget,
+	selectSelectedBudgetExpenses,
 	selectBudgetStatus,
 	deleteBudget as removeBudget,
 } from '../store/slices/budgetsSlice';
 import { addNotification } from '../store/slices/uiSlice';
 import { selectCurrentAccount } from '../store/slices/accountsSlice';
 import { RootState, AppDispatch } from '../store';
-import { Budget, Expense } from '../types';
+import { BudgetUtils } from '../utils/budgetUtils';
+import { LineItemUtils } from '../utils/lineItemUtils';
 
 // Components
 import LoadingScreen from '../components/common/LoadingScreen';
@@ -34,14 +36,6 @@ import {
 	CartesianGrid,
 } from 'recharts';
 
-// Extended Budget type with additional properties
-interface ExtendedBudget extends Budget {
-	name: string;
-	notes?: string;
-	period?: string;
-	expenses: Expense[];
-}
-
 const BudgetDetail: React.FC = () => {
 	const { id } = useParams<{ id: string }>();
 	const dispatch = useDispatch<AppDispatch>();
@@ -49,9 +43,8 @@ const BudgetDetail: React.FC = () => {
 
 	const { status, error } = useSelector((state: RootState) => state.budgets);
 	const currentAccount = useSelector(selectCurrentAccount);
-	const selectedBudget = useSelector(
-		selectSelectedBudget
-	) as ExtendedBudget | null;
+	const selectedBudget = useSelector(selectSelectedBudget);
+	const expenses = useSelector(selectSelectedBudgetExpenses);
 
 	const [activeTab, setActiveTab] = useState<'overview' | 'transactions'>(
 		'overview'
@@ -130,19 +123,21 @@ const BudgetDetail: React.FC = () => {
 	const getCategoryData = () => {
 		if (!selectedBudget) return [];
 
-		// Group expenses by category
-		const categoryMap: Record<string, number> = {};
-
-		selectedBudget.expenses.forEach((expense) => {
-			if (!categoryMap[expense.category]) {
-				categoryMap[expense.category] = 0;
-			}
-			categoryMap[expense.category] += expense.amount;
-		});
+		// Group expenses by category, line items in their own categories;
+		// only lines in the budget's category count against it
+		const categoryMap = Object.fromEntries(
+			Object.entries(LineItemUtils.getCategoryTotals(expenses)).filter(
+				([category]) =>
+					selectedBudget.category === 'All' ||
+					category === selectedBudget.category
+			)
+		);
 
-		// Convert to array and sort by amount (descending)
+		// Convert to array and sort by amount (descending). Refunds can take
+		// a category below zero in a period, which a pie can't show.
 		const categoryData = Object.entries(categoryMap)
 			.map(([name, value]) => ({ name, value }))
+			.filter(({ value }) => value > 0)
 			.sort((a, b) => b.value - a.value);
 
 		// Take top 5 categories and group the rest as "Other"
@@ -205,13 +200,9 @@ const BudgetDetail: React.FC = () => {
 	}
 
 	const budget = selectedBudget;
-	const spent = budget.expenses.reduce(
-		(total, expense) => total + expense.amount,
-		0
-	);
+	const spent = BudgetUtils.getBudgetSpent(budget, expenses);
 	const remaining = budget.amount - spent;
 	const percentUsed = (spent / budget.amount) * 100;
-	const { expenses } = budget;
 	const categoryData = getCategoryData();
 	const statusBadge = getStatusBadge();
 
@@ -315,7 +306,10 @@ const BudgetDetail: React.FC = () => {
 					</div>
 
 					<div className='mt-6'>
-						<BudgetProgressBar budget={budget} />
+						<BudgetProgressBar
+							budget={budget}
+							spent={spent}
+						/>
 					</div>
 				</div>
 			</div>
@@ -468,7 +462,7 @@ const BudgetDetail: React.FC = () => {
 													Period
 												</dt>
 												<dd className='mt-1 text-sm text-gray-900 dark:text-white capitalize'>
-													{budget.period || 'Custom'}
+													{budget.recurringPeriod || 'Custom'}
 												</dd>
 											</div>
 
@@ -573,7 +567,7 @@ const BudgetDetail: React.FC = () => {
 														{expense.category}
 													</td>
 													<td className='px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900 dark:text-gray-200'>
-														{formatCurrency(expense.amount)}
+														{formatCurrency(expense.amountInBaseCurrency)}
 													</td>
 												</tr>
 											))}
@@ -590,7 +584,7 @@ const BudgetDetail: React.FC = () => {
 			<ConfirmDialog
 				isOpen={showDeleteConfirm}
 				title='Delete Budget'
-				message={`Are you sure you want to delete the "${budget.name}" budget? This action cannot be undone.`}
+				message={`Are you sure you want to delete the "${budget.name}" budget? It can be restored from the Trash for 30 days.`}
 				confirmText='Delete'
 				cancelText='Cancel'
 				variant='destructive'
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import {
 	createBudget,
 	updateBudget,
@@ -11,23 +12,39 @@ import {
 } from '../store/slices/budgetsSlice';
 import { selectExpenseCategories } from '../store/slices/expensesSlice';
 import { selectCurrentAccount } from '../store/slices/accountsSlice';
+import { selectUser } from '../store/slices/authSlice';
 import { showNotification } from '../store/slices/uiSlice';
+import { AppDispatch, RootState } from '../store';
 
 // Components
 import LoadingScreen from '../components/common/LoadingScreen';
 import EmptyState from '../components/common/EmptyState';
 
 // Types
-import { Budget } from '../types';
+import { BudgetPeriod } from '../models/types';
+
+// Form period options map to the model's recurring periods; 'custom' budgets
+// don't recur
+const PERIOD_OPTIONS: Record<string, BudgetPeriod | undefined> = {
+	weekly: 'weekly',
+	monthly: 'monthly',
+	quarterly: 'quarterly',
+	yearly: 'annually',
+	custom: undefined,
+};
+
+const toPeriodOption = (period?: BudgetPeriod): string =>
+	period === 'annually' ? 'yearly' : period || 'custom';
 
 const BudgetForm = () => {
-	const dispatch = useDispatch();
+	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
 	const { id } = useParams<{ id: string }>();
 	const isEditMode = !!id;
 
 	const currentAccount = useSelector(selectCurrentAccount);
-	const existingBudget = useSelector((state) =>
+	const user = useSelector(selectUser);
+	const existingBudget = useSelector((state: RootState) =>
 		isEditMode ? selectBudgetById(state, id!) : null
 	);
 	const budgetStatus = useSelector(selectBudgetStatus);
@@ -47,7 +64,7 @@ const BudgetForm = () => {
 	// Load budget data if in edit mode
 	useEffect(() => {
 		if (isEditMode && id && currentAccount) {
-			dispatch(fetchBudget({ accountId: currentAccount.id, budgetId: id }));
+			dispatch(fetchBudget(id));
 		}
 	}, [dispatch, isEditMode, id, currentAccount]);
 
@@ -57,10 +74,14 @@ const BudgetForm = () => {
 			setName(existingBudget.name);
 			setCategory(existingBudget.category);
 			setAmount(existingBudget.amount.toString());
-			setPeriod(existingBudget.period);
-			setStartDate(existingBudget.startDate);
-			setEndDate(existingBudget.endDate || '');
-			setDescription(existingBudget.description || '');
+			setPeriod(
+				existingBudget.isRecurring
+					? toPeriodOption(existingBudget.recurringPeriod)
+					: 'custom'
+			);
+			setStartDate(format(existingBudget.startDate, 'yyyy-MM-dd'));
+			setEndDate(format(existingBudget.endDate, 'yyyy-MM-dd'));
+			setDescription(existingBudget.notes || '');
 		}
 	}, [existingBudget]);
 
@@ -134,50 +155,37 @@ const BudgetForm = () => {
 			return;
 		}
 
-		const budgetData: Omit<Budget, 'id' | 'createdAt' | 'updatedAt' | 'spent'> =
-			{
-				name: name.trim(),
-				category,
-				amount: Number(amount),
-				period,
-				startDate,
-				endDate,
-				description: description.trim(),
-				accountId: currentAccount.id,
-			};
+		const recurringPeriod = PERIOD_OPTIONS[period];
+		const budgetData = {
+			name: name.trim(),
+			category,
+			amount: Number(amount),
+			startDate: new Date(startDate),
+			endDate: new Date(endDate),
+			notes: description.trim() || undefined,
+			isRecurring: Boolean(recurringPeriod),
+			recurringPeriod,
+		};
 
 		try {
 			if (isEditMode && id) {
-				await dispatch(
-					updateBudget({
-						accountId: currentAccount.id,
-						budgetId: id,
-						budgetData,
-					})
-				);
-				dispatch(
-					showNotification({
-						type: 'success',
-						message: 'Budget updated successfully',
-					})
-				);
+				await dispatch(updateBudget({ id, updates: budgetData })).unwrap();
+				dispatch(showNotification('success', 'Budget updated successfully'));
 			} else {
 				await dispatch(
 					createBudget({
+						...budgetData,
 						accountId: currentAccount.id,
-						budgetData,
-					})
-				);
-				dispatch(
-					showNotification({
-						type: 'success',
-						message: 'Budget created successfully',
+						userId: user?.firebaseUser.uid || '',
+						userDisplayName: user?.firebaseUser.displayName || '',
 					})
-				);
+				).unwrap();
+				dispatch(showNotification('success', 'Budget created successfully'));
 			}
 			navigate('/budgets');
 		} catch (error) {
 			console.error('Failed to save budget:', error);
+			dispatch(showNotification('error', 'Failed to save budget'));
 		}
 	};
 
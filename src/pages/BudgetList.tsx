@@ -8,8 +8,14 @@ import {
 	selectBudgetStatus,
 	selectBudgetError,
 } from '../store/slices/budgetsSlice';
+import {
+	fetchExpenseTotals,
+	selectExpenseTotals,
+} from '../store/slices/expensesSlice';
 import { selectCurrentAccount } from '../store/slices/accountsSlice';
 import { showNotification } from '../store/slices/uiSlice';
+import { AppDispatch } from '../store';
+import { BudgetUtils } from '../utils/budgetUtils';
 
 // Components
 import LoadingScreen from '../components/common/LoadingScreen';
@@ -21,10 +27,11 @@ import BudgetProgressBar from '../components/budgets/BudgetProgressBar';
 import { Budget } from '../types';
 
 const BudgetList = () => {
-	const dispatch = useDispatch();
+	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
 
 	const budgets = useSelector(selectBudgets);
+	const totals = useSelector(selectExpenseTotals);
 	const status = useSelector(selectBudgetStatus);
 	const error = useSelector(selectBudgetError);
 	const currentAccount = useSelector(selectCurrentAccount);
@@ -42,6 +49,16 @@ const BudgetList = () => {
 		}
 	}, [dispatch, currentAccount]);
 
+	// Spending is totalled by the database once the budgets are loaded
+	const budgetsKey = BudgetUtils.getSpendingKey(budgets);
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchExpenseTotals(currentAccount.id));
+		}
+	}, [dispatch, currentAccount, budgetsKey]);
+	const budgetSpent =
+		totals?.accountId === currentAccount?.id ? totals?.budgetSpent : undefined;
+
 	// Filter budgets based on active tab
 	const getFilteredBudgets = () => {
 		if (!budgets) return [];
@@ -69,28 +86,13 @@ const BudgetList = () => {
 	const confirmDelete = async () => {
 		if (selectedBudget && currentAccount) {
 			try {
-				await dispatch(
-					deleteBudget({
-						accountId: currentAccount.id,
-						budgetId: selectedBudget.id,
-					})
-				);
-				dispatch(
-					showNotification({
-						type: 'success',
-						message: 'Budget deleted successfully',
-					})
-				);
+				await dispatch(deleteBudget(selectedBudget.id)).unwrap();
+				dispatch(showNotification('success', 'Budget deleted successfully'));
 				setShowDeleteConfirm(false);
 				setSelectedBudget(null);
 			} catch (error) {
 				console.error('Failed to delete budget:', error);
-				dispatch(
-					showNotification({
-						type: 'error',
-						message: 'Failed to delete budget',
-					})
-				);
+				dispatch(showNotification('error', 'Failed to delete budget'));
 			}
 		}
 	};
@@ -202,103 +204,113 @@ const BudgetList = () => {
 				/>
 			) : (
 				<div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'>
-					{filteredBudgets.map((budget) => (
-						<div
-							key={budget.id}
-							className='bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden cursor-pointer hover:shadow-lg transition-shadow duration-200'
-							onClick={() => navigate(`/budgets/${budget.id}`)}>
-							<div className='px-6 py-4 border-b border-gray-200 dark:border-gray-700'>
-								<div className='flex justify-between items-start'>
-									<div>
-										<h2 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
-											{budget.name}
-										</h2>
-										<p className='text-sm text-gray-500 dark:text-gray-400'>
-											{budget.category === 'All'
-												? 'All Categories'
-												: budget.category}
-										</p>
-									</div>
-									<div className='flex space-x-2'>
-										<button
-											onClick={(e) => {
-												e.stopPropagation();
-												navigate(`/budgets/${budget.id}/edit`);
-											}}
-											className='text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300'>
-											<svg
-												className='h-5 w-5'
-												fill='none'
-												viewBox='0 0 24 24'
-												stroke='currentColor'>
-												<path
-													strokeLinecap='round'
-													strokeLinejoin='round'
-													strokeWidth={2}
-													d='M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'
-												/>
-											</svg>
-										</button>
-										<button
-											onClick={(e) => {
-												e.stopPropagation();
-												handleDeleteClick(budget);
-											}}
-											className='text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300'>
-											<svg
-												className='h-5 w-5'
-												fill='none'
-												viewBox='0 0 24 24'
-												stroke='currentColor'>
-												<path
-													strokeLinecap='round'
-													strokeLinejoin='round'
-													strokeWidth={2}
-													d='M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16'
-												/>
-											</svg>
-										</button>
+					{filteredBudgets.map((budget) => {
+						const spent = budgetSpent?.[budget.id] || 0;
+
+						return (
+							<div
+								key={budget.id}
+								className='bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden cursor-pointer hover:shadow-lg transition-shadow duration-200'
+								onClick={() => navigate(`/budgets/${budget.id}`)}>
+								<div className='px-6 py-4 border-b border-gray-200 dark:border-gray-700'>
+									<div className='flex justify-between items-start'>
+										<div>
+											<h2 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+												{budget.name}
+											</h2>
+											<p className='text-sm text-gray-500 dark:text-gray-400'>
+												{budget.category === 'All'
+													? 'All Categories'
+													: budget.category}
+											</p>
+										</div>
+										<div className='flex space-x-2'>
+											<button
+												onClick={(e) => {
+													e.stopPropagation();
+													navigate(`/budgets/${budget.id}/edit`);
+												}}
+												className='text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300'>
+												<svg
+													className='h-5 w-5'
+													fill='none'
+													viewBox='0 0 24 24'
+													stroke='currentColor'>
+													<path
+														strokeLinecap='round'
+														strokeLinejoin='round'
+														strokeWidth={2}
+														d='M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'
+													/>
+												</svg>
+											</button>
+											<button
+												onClick={(e) => {
+													e.stopPropagation();
+													handleDeleteClick(budget);
+												}}
+												className='text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300'>
+												<svg
+													className='h-5 w-5'
+													fill='none'
+													viewBox='0 0 24 24'
+													stroke='currentColor'>
+													<path
+														strokeLinecap='round'
+														strokeLinejoin='round'
+														strokeWidth={2}
+														d='M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16'
+													/>
+												</svg>
+											</button>
+										</div>
 									</div>
 								</div>
-							</div>
 
-							<div className='px-6 py-4'>
-								<div className='flex justify-between items-center mb-2'>
-									<span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
-										Budget
-									</span>
-									<span className='text-lg font-bold text-gray-900 dark:text-gray-100'>
-										{formatCurrency(budget.amount, currentAccount.baseCurrency)}
-									</span>
-								</div>
+								<div className='px-6 py-4'>
+									<div className='flex justify-between items-center mb-2'>
+										<span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+											Budget
+										</span>
+										<span className='text-lg font-bold text-gray-900 dark:text-gray-100'>
+											{formatCurrency(
+												budget.amount,
+												currentAccount.baseCurrency
+											)}
+										</span>
+									</div>
 
-								<div className='flex justify-between items-center mb-1'>
-									<span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
-										Spent
-									</span>
-									<span className='text-md text-gray-900 dark:text-gray-100'>
-										{formatCurrency(
-											budget.spent || 0,
-											currentAccount.baseCurrency
-										)}
-									</span>
-								</div>
+									<div className='flex justify-between items-center mb-1'>
+										<span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+											Spent
+										</span>
+										<span className='text-md text-gray-900 dark:text-gray-100'>
+											{formatCurrency(spent, currentAccount.baseCurrency)}
+										</span>
+									</div>
 
-								<BudgetProgressBar budget={budget} />
-
-								<div className='flex justify-between items-center mt-4 text-sm'>
-									<span className='text-gray-600 dark:text-gray-400'>
-										{formatDate(budget.startDate)} -{' '}
-										{formatDate(budget.endDate)}
-									</span>
-									<span
-										className={`font-medium ${getBudgetStatusColor(budget)}`}>
-										{getBudgetStatusText(budget)}
-									</span>
+									<BudgetProgressBar
+										budget={budget}
+										spent={spent}
+									/>
+
+									<div className='flex justify-between items-center mt-4 text-sm'>
+										<span className='text-gray-600 dark:text-gray-400'>
+											{formatDate(budget.startDate)} -{' '}
+											{formatDate(budget.endDate)}
+										</span>
+										<span
+											className={`font-medium ${getBudgetStatusColor(
+												budget,
+												spent
+											)}`}>
+											{getBudgetStatusText(budget, spent)}
+										</span>
+									</div>
 								</div>
 							</div>
-						</div>
-					))}
+						);
+					})}
 				</div>
 			)}
 
@@ -306,7 +318,7 @@ const BudgetList = () => {
 			<ConfirmDialog
 				isOpen={showDeleteConfirm}
 				title='Delete Budget'
-				message={`Are you sure you want to delete the budget "${selectedBudget?.name}"? This action cannot be undone.`}
+				message={`Are you sure you want to delete the budget "${selectedBudget?.name}"? It can be restored from the Trash for 30 days.`}
 				confirmText='Delete'
 				cancelText='Cancel'
 				confirmButtonClass='bg-red-600 hover:bg-red-700'
@@ -326,8 +338,8 @@ const formatCurrency = (amount: number, currency: string): string => {
 	}).format(amount);
 };
 
-const formatDate = (dateString: string): string => {
-	const date = new Date(dateString);
+const formatDate = (value: Date | string): string => {
+	const date = new Date(value);
 	return date.toLocaleDateString('en-US', {
 		year: 'numeric',
 		month: 'short',
@@ -335,7 +347,7 @@ const formatDate = (dateString: string): string => {
 	});
 };
 
-const getBudgetStatusText = (budget: Budget): string => {
+const getBudgetStatusText = (budget: Budget, spent: number): string => {
 	const today = new Date();
 	const endDate = new Date(budget.endDate);
 
@@ -343,7 +355,7 @@ const getBudgetStatusText = (budget: Budget): string => {
 		return 'Completed';
 	}
 
-	const percentSpent = ((budget.spent || 0) / budget.amount) * 100;
+	const percentSpent = (spent / budget.amount) * 100;
 
 	if (percentSpent >= 100) {
 		return 'Over Budget';
@@ -354,7 +366,7 @@ const getBudgetStatusText = (budget: Budget): string => {
 	}
 };
 
-const getBudgetStatusColor = (budget: Budget): string => {
+const getBudgetStatusColor = (budget: Budget, spent: number): string => {
 	const today = new Date();
 	const endDate = new Date(budget.endDate);
 
@@ -362,7 +374,7 @@ const getBudgetStatusColor = (budget: Budget): string => {
 		return 'text-gray-500 dark:text-gray-400';
 	}
 
-	const percentSpent = ((budget.spent || 0) / budget.amount) * 100;
+	const percentSpent = (spent / budget.amount) * 100;
 
 	if (percentSpent >= 100) {
 		return 'text-red-600 dark:text-red-400';
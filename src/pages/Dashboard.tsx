@@ -2,7 +2,9 @@ import React, { useEffect, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import {
-	fetchExpenses,
+	fetchRecentExpenses,
+	fetchExpenseTotals,
+	selectExpenseTotals,
 	selectRecentExpenses,
 	selectTotalExpensesByCategory,
 	selectExpensesByMonth,
@@ -14,22 +16,25 @@ import {
 } from '../store/slices/budgetsSlice';
 import { selectCurrentAccount } from '../store/slices/accountsSlice';
 import { selectUser } from '../store/slices/authSlice';
+import { AppDispatch } from '../store';
+import { BudgetUtils } from '../utils/budgetUtils';
 
 // Components
 import LoadingScreen from '../components/common/LoadingScreen';
-import ExpenseCard from '../components/expenses/ExpenseCard';
 import BudgetSummary from '../components/budgets/BudgetSummary';
 import ExpenseChart from '../components/insights/ExpenseChart';
 import InsightsCard from '../components/insights/InsightsCard';
 import QuickExpenseForm from '../components/expenses/QuickExpenseForm';
 import AccountSummary from '../components/accounts/AccountSummary';
 import EmptyState from '../components/common/EmptyState';
+import RecentActivity from '../components/dashboard/RecentActivity';
 
 const Dashboard = () => {
-	const dispatch = useDispatch();
+	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
 	const currentUser = useSelector(selectUser);
 	const currentAccount = useSelector(selectCurrentAccount);
+	const totals = useSelector(selectExpenseTotals);
 	const recentExpenses = useSelector(selectRecentExpenses);
 	const expensesByCategory = useSelector(selectTotalExpensesByCategory);
 	const expensesByMonth = useSelector(selectExpensesByMonth);
@@ -48,9 +53,9 @@ const Dashboard = () => {
 
 		const loadDashboardData = async () => {
 			try {
-				// Fetch expenses and budgets for the current account
+				// Fetch recent expenses and budgets for the current account
 				await Promise.all([
-					dispatch(fetchExpenses(currentAccount.id)),
+					dispatch(fetchRecentExpenses(currentAccount.id)),
 					dispatch(fetchBudgets(currentAccount.id)),
 				]);
 				setIsLoading(false);
@@ -63,6 +68,14 @@ const Dashboard = () => {
 		loadDashboardData();
 	}, [dispatch, currentAccount, navigate]);
 
+	// Budget spending is totalled by the database, not from loaded expenses
+	const budgetsKey = BudgetUtils.getSpendingKey(budgets);
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchExpenseTotals(currentAccount.id));
+		}
+	}, [dispatch, currentAccount, budgetsKey]);
+
 	if (isLoading) {
 		return <LoadingScreen />;
 	}
@@ -105,7 +118,14 @@ const Dashboard = () => {
 					<div className='mt-6'>
 						<h2 className='text-lg font-semibold mb-4'>Budget Status</h2>
 						{budgets && budgets.length > 0 ? (
-							<BudgetSummary budgets={budgets} />
+							<BudgetSummary
+								budgets={budgets}
+								budgetSpent={
+									totals?.accountId === currentAccount.id
+										? totals.budgetSpent
+										: {}
+								}
+							/>
 						) : (
 							<EmptyState
 								title='No Budgets Yet'
@@ -149,35 +169,11 @@ const Dashboard = () => {
 						/>
 					</div>
 
-					<div className='mt-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4'>
-						<div className='flex justify-between items-center mb-4'>
-							<h2 className='text-lg font-semibold'>Recent Expenses</h2>
-							<button
-								onClick={() => navigate('/expenses')}
-								className='text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium'>
-								View All
-							</button>
-						</div>
-
-						{recentExpenses && recentExpenses.length > 0 ? (
-							<div className='space-y-4'>
-								{recentExpenses.slice(0, 5).map((expense) => (
-									<ExpenseCard
-										key={expense.id}
-										expense={expense}
-										onClick={() => navigate(`/expenses/${expense.id}`)}
-									/>
-								))}
-							</div>
-						) : (
-							<EmptyState
-								title='No Expenses Yet'
-								description='Start tracking your spending by adding your first expense.'
-								actionText='Add Expense'
-								onAction={() => navigate('/expenses/new')}
-								compact
-							/>
-						)}
+					<div className='mt-6'>
+						<RecentActivity
+							expenses={recentExpenses}
+							baseCurrency={currentAccount.baseCurrency}
+						/>
 					</div>
 				</div>
 			</div>
@@ -0,0 +1,276 @@
+// src/pages/Duplicates.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import {
+	fetchRecentExpenses,
+	updateExpense,
+	deleteExpense,
+	selectExpenses,
+	selectExpenseStatus,
+	selectExpenseError,
+	EXPENSE_WINDOW_MONTHS,
+} from '../store/slices/expensesSlice';
+import { selectCurrentAccount } from '../store/slices/accountsSlice';
+import { selectUser } from '../store/slices/authSlice';
+import { showNotification } from '../store/slices/uiSlice';
+import { AppDispatch } from '../store';
+import { DateUtils } from '../utils/dateUtils';
+import { DuplicateUtils } from '../utils/duplicateUtils';
+import { useMerchants } from '../hooks/useMerchants';
+
+// Components
+import LoadingScreen from '../components/common/LoadingScreen';
+import EmptyState from '../components/common/EmptyState';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import ExpenseStatusBadge from '../components/expenses/ExpenseStatusBadge';
+
+// Types
+import { Expense } from '../types';
+
+interface PendingMerge {
+	keep: Expense;
+	remove: Expense;
+}
+
+/**
+ * Duplicates
+ * Pairs of expenses that look like the same one entered twice, to merge into
+ * one or mark as different
+ */
+const Duplicates = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const navigate = useNavigate();
+
+	const expenses = useSelector(selectExpenses);
+	const status = useSelector(selectExpenseStatus);
+	const error = useSelector(selectExpenseError);
+	const currentAccount = useSelector(selectCurrentAccount);
+	const uid = useSelector(selectUser)?.firebaseUser.uid;
+	const merchants = useMerchants(currentAccount?.id);
+
+	// Key of the pair being merged or dismissed
+	const [busyKey, setBusyKey] = useState<string | null>(null);
+	const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchRecentExpenses(currentAccount.id));
+		}
+	}, [dispatch, currentAccount]);
+
+	const pairs = useMemo(
+		() =>
+			DuplicateUtils.getPairs(
+				expenses.filter((expense) => expense.accountId === currentAccount?.id),
+				merchants
+			),
+		[expenses, currentAccount?.id, merchants]
+	);
+
+	const role = currentAccount?.members.find(
+		(member) => member.uid === uid
+	)?.role;
+	const canEdit = !!role && role !== 'viewer';
+
+	const run = async (
+		key: string,
+		action: () => Promise<unknown>,
+		success: string,
+		failure: string
+	) => {
+		try {
+			setBusyKey(key);
+			await action();
+			dispatch(showNotification('success', success));
+		} catch (error: any) {
+			dispatch(
+				showNotification('error', typeof error === 'string' ? error : failure)
+			);
+		} finally {
+			setBusyKey(null);
+		}
+	};
+
+	const confirmMerge = async () => {
+		if (!pendingMerge) return;
+		const { keep, remove } = pendingMerge;
+		setPendingMerge(null);
+
+		await run(
+			DuplicateUtils.getPairKey(keep, remove),
+			async () => {
+				const updates = DuplicateUtils.getMergeUpdates(keep, remove);
+				if (Object.keys(updates).length > 0) {
+					await dispatch(updateExpense({ id: keep.id, updates })).unwrap();
+				}
+				// Receipts moved to the kept expense must not be deleted when the
+				// other one is purged from the trash
+				if (updates.receiptUrls && remove.receiptUrls?.length) {
+					await dispatch(
+						updateExpense({ id: remove.id, updates: { receiptUrls: [] } })
+					).unwrap();
+				}
+				await dispatch(deleteExpense(remove.id)).unwrap();
+			},
+			`Merged into "${keep.description}"`,
+			'Failed to merge expenses'
+		);
+	};
+
+	const handleDismiss = (a: Expense, b: Expense) => {
+		const { id, notDuplicateOf } = DuplicateUtils.getDismissal(a, b);
+		run(
+			DuplicateUtils.getPairKey(a, b),
+			() =>
+				dispatch(updateExpense({ id, updates: { notDuplicateOf } })).unwrap(),
+			'Marked as not duplicates',
+			'Failed to update expenses'
+		);
+	};
+
+	const renderExpense = (expense: Expense, other: Expense, key: string) => (
+		<div className='flex-1 p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+			<div className='flex items-start justify-between gap-2'>
+				<button
+					type='button'
+					onClick={() => navigate(`/expenses/${expense.id}`)}
+					className='font-medium text-left text-gray-900 dark:text-gray-100 hover:underline'>
+					{expense.description}
+				</button>
+				<ExpenseStatusBadge expense={expense} />
+			</div>
+			<p className='text-lg font-semibold mt-1'>
+				{expense.amount.toFixed(2)} {expense.currency}
+			</p>
+			<dl className='text-sm text-gray-600 dark:text-gray-400 mt-2 space-y-1'>
+				<div>
+					<dt className='inline'>Date: </dt>
+					<dd className='inline'>
+						{DateUtils.formatDate(expense.date, 'MMM d, yyyy')}
+					</dd>
+				</div>
+				<div>
+					<dt className='inline'>Category: </dt>
+					<dd className='inline'>
+						{expense.category}
+						{expense.subcategory ? ` / ${expense.subcategory}` : ''}
+					</dd>
+				</div>
+				<div>
+					<dt className='inline'>Added by: </dt>
+					<dd className='inline'>
+						{expense.createdBy.displayName || 'Unknown member'} on{' '}
+						{DateUtils.formatDate(expense.createdAt, 'MMM d, yyyy')}
+					</dd>
+				</div>
+				{!!expense.receiptUrls?.length && (
+					<div>
+						<dt className='inline'>Receipts: </dt>
+						<dd className='inline'>{expense.receiptUrls.length}</dd>
+					</div>
+				)}
+				{!!expense.tags?.length && (
+					<div>
+						<dt className='inline'>Tags: </dt>
+						<dd className='inline'>{expense.tags.join(', ')}</dd>
+					</div>
+				)}
+			</dl>
+			{canEdit && (
+				<button
+					onClick={() => setPendingMerge({ keep: expense, remove: other })}
+					disabled={busyKey !== null}
+					className='mt-3 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition duration-200 disabled:opacity-50'>
+					{busyKey === key ? 'Working...' : 'Keep this one'}
+				</button>
+			)}
+		</div>
+	);
+
+	if (status === 'loading' && pairs.length === 0) {
+		return <LoadingScreen />;
+	}
+
+	if (!currentAccount) {
+		return (
+			<EmptyState
+				title='No Account Selected'
+				description='Please select or create an account to review its expenses.'
+				actionText='Go to Accounts'
+				onAction={() => navigate('/accounts')}
+			/>
+		);
+	}
+
+	return (
+		<div className='container mx-auto px-4 py-6'>
+			<div className='mb-6'>
+				<h1 className='text-2xl font-bold'>Possible Duplicates</h1>
+				<p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+					Expenses of the last {EXPENSE_WINDOW_MONTHS} months with about the
+					same amount, date and description. Keep one to merge the pair; the
+					other moves to the trash.
+				</p>
+			</div>
+
+			{error && (
+				<div className='p-4 mb-6 bg-red-50 dark:bg-red-900/20 rounded-lg'>
+					<p className='text-red-600 dark:text-red-300'>{error}</p>
+				</div>
+			)}
+
+			{pairs.length > 0 ? (
+				<ul className='space-y-4'>
+					{pairs.map(([a, b]) => {
+						const key = DuplicateUtils.getPairKey(a, b);
+						return (
+							<li
+								key={key}
+								className='p-4 bg-white dark:bg-gray-800 rounded-lg shadow'>
+								<div className='flex flex-col md:flex-row gap-4'>
+									{renderExpense(a, b, key)}
+									{renderExpense(b, a, key)}
+								</div>
+								{canEdit && (
+									<button
+										onClick={() => handleDismiss(a, b)}
+										disabled={busyKey !== null}
+										className='mt-3 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50'>
+										Not duplicates
+									</button>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+			) : (
+				!error && (
+					<EmptyState
+						title='No Duplicates Found'
+						description={`No expenses in ${currentAccount.name} look like they were entered twice.`}
+						actionText='Back to Expenses'
+						onAction={() => navigate('/expenses')}
+						compact
+					/>
+				)
+			)}
+
+			{/* Confirmation Dialog for Merge */}
+			<ConfirmDialog
+				isOpen={!!pendingMerge}
+				onClose={() => setPendingMerge(null)}
+				onConfirm={confirmMerge}
+				title='Merge Expenses'
+				message={`Keep "${pendingMerge?.keep.description}" from ${
+					pendingMerge
+						? DateUtils.formatDate(pendingMerge.keep.date, 'MMM d, yyyy')
+						: ''
+				}? Tags, receipts and notes of the other one are added to it, and the other one moves to the trash.`}
+				confirmText='Merge'
+			/>
+		</div>
+	);
+};
+
+export default Duplicates;
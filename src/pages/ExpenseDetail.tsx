@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
 	Calendar,
 	DollarSign,
@@ -9,40 +11,95 @@ import {
 	FileText,
 	Edit,
 	Trash2,
+	ClipboardCheck,
+	Wallet,
+	Wand2,
+	RotateCcw,
 } from 'lucide-react';
 import { useCurrency } from '@/hooks/useCurrency';
+import { usePaymentMethods } from '@/hooks/usePaymentMethods';
 import { DateUtils } from '@/utils/dateUtils';
+import { PaymentMethodUtils } from '@/utils/paymentMethodUtils';
 import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import ExpenseHistory from '@/components/expenses/ExpenseHistory';
+import CategoryRuleEditor from '@/components/accounts/CategoryRuleEditor';
+import ReceiptViewer, {
+	ReceiptThumbnail,
+} from '@/components/expenses/ReceiptViewer';
 import { useNotification } from '@/contexts/NotificationContext';
 import { apiService } from '@/services/api';
+import { db } from '@/services/firebase';
+import { AppDispatch } from '@/store';
+import {
+	selectCurrentAccount,
+	updateAccountSettings,
+} from '@/store/slices/accountsSlice';
+import { selectUser } from '@/store/slices/authSlice';
+import { selectExpenses } from '@/store/slices/expensesSlice';
+import {
+	CategoryRuleDraft,
+	CategoryRuleUtils,
+} from '@/utils/categoryRuleUtils';
+import { TagUtils } from '@/utils/tagUtils';
+import { Expense, ExpenseStatus } from '@/models/types';
+import { ExpenseRefunds } from '../../shared/refunds';
 
-// Expense interface
-interface Expense {
-	id: string;
-	amount: number;
-	category: string;
-	date: Date;
-	description?: string;
-	receiptUrl?: string;
-}
+const APPROVAL_LABELS: Record<ExpenseStatus, string> = {
+	pending: 'Waiting for approval',
+	approved: 'Approved',
+	rejected: 'Rejected',
+};
 
 export const ExpenseDetails: React.FC = () => {
 	const { id } = useParams<{ id: string }>();
 	const navigate = useNavigate();
 	const { formatCurrency } = useCurrency();
 	const { addNotification } = useNotification();
+	const dispatch = useDispatch<AppDispatch>();
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+	const expenses = useSelector(selectExpenses);
 
 	const [expense, setExpense] = useState<Expense | null>(null);
 	const [isLoading, setIsLoading] = useState(true);
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+	// Receipt open in the viewer
+	const [viewedReceipt, setViewedReceipt] = useState<number | null>(null);
+	const paymentMethods = usePaymentMethods(expense?.accountId);
+	const paymentMethod = paymentMethods.find(
+		(method) => method.id === expense?.paymentMethodId
+	);
+	// Rule being made from this expense
+	const [ruleDraft, setRuleDraft] = useState<CategoryRuleDraft | null>(null);
+	const [isSavingRule, setIsSavingRule] = useState(false);
+	const knownTags = useMemo(
+		() => TagUtils.getUsage(expenses).map(({ tag }) => tag),
+		[expenses]
+	);
+	const isRefund = !!expense && ExpenseRefunds.isRefund(expense);
+	// Expense this refund gives money back for, or the refunds of this expense
+	const refundedExpense = expenses.find(
+		(other) => other.id === expense?.refundOf
+	);
+	const refunds = useMemo(
+		() => (expense ? ExpenseRefunds.getRefunds(expense, expenses) : []),
+		[expense, expenses]
+	);
+	// Rules belong to the account, so only its admins make them
+	const canCreateRule =
+		!!expense &&
+		currentAccount?.id === expense.accountId &&
+		currentAccount.members.some(
+			(member) =>
+				member.uid === user?.firebaseUser.uid && member.role === 'admin'
+		);
 
 	// Fetch expense details
 	useEffect(() => {
 		const fetchExpenseDetails = async () => {
 			try {
 				setIsLoading(true);
-				// TODO: Replace with actual API call to fetch expense details
-				const fetchedExpense = await apiService.getExpenseById(id);
+				const fetchedExpense = await apiService.getExpense(id!);
 				setExpense(fetchedExpense);
 			} catch (error) {
 				addNotification('Failed to load expense details', 'error');
@@ -68,18 +125,47 @@ export const ExpenseDetails: React.FC = () => {
 		}
 	};
 
+	// Add the rule after the account's others
+	const handleSaveRule = async (draft: CategoryRuleDraft) => {
+		if (!currentAccount) return;
+		const rules = currentAccount.settings.categoryRules || [];
+		try {
+			setIsSavingRule(true);
+			await dispatch(
+				updateAccountSettings({
+					accountId: currentAccount.id,
+					settings: {
+						categoryRules: CategoryRuleUtils.renumber([
+							...rules,
+							{
+								...draft,
+								id: db.createId('categoryRules'),
+								priority: rules.length + 1,
+							},
+						]).map(CategoryRuleUtils.toStored),
+					},
+				})
+			).unwrap();
+			addNotification(
+				`Rule "${draft.name.trim()}" added. Apply it to existing expenses from Settings.`,
+				'success'
+			);
+			setRuleDraft(null);
+		} catch (error: any) {
+			addNotification(
+				typeof error === 'string' ? error : 'Failed to save rule',
+				'error'
+			);
+		} finally {
+			setIsSavingRule(false);
+		}
+	};
+
 	// Handle editing expense
 	const handleEditExpense = () => {
 		navigate(`/expenses/edit/${id}`);
 	};
 
-	// Open receipt
-	const openReceipt = () => {
-		if (expense?.receiptUrl) {
-			window.open(expense.receiptUrl, '_blank');
-		}
-	};
-
 	if (isLoading) {
 		return <div>Loading expense details...</div>;
 	}
@@ -92,8 +178,30 @@ export const ExpenseDetails: React.FC = () => {
 		<div className='container mx-auto p-4'>
 			<Card>
 				<CardHeader className='flex flex-row items-center justify-between'>
-					<CardTitle>Expense Details</CardTitle>
+					<CardTitle>{isRefund ? 'Refund Details' : 'Expense Details'}</CardTitle>
 					<div className='flex space-x-2'>
+						{canCreateRule && (
+							<Button
+								variant='outline'
+								size='icon'
+								aria-label='Create rule from this expense'
+								title='Create rule from this expense'
+								onClick={() =>
+									setRuleDraft(CategoryRuleUtils.fromExpense(expense))
+								}>
+								<Wand2 className='h-4 w-4' />
+							</Button>
+						)}
+						{!isRefund && (
+							<Button
+								variant='outline'
+								size='icon'
+								aria-label='Record refund'
+								title='Record refund'
+								onClick={() => navigate(`/expenses/new?refundOf=${expense.id}`)}>
+								<RotateCcw className='h-4 w-4' />
+							</Button>
+						)}
 						<Button
 							variant='outline'
 							size='icon'
@@ -109,68 +217,245 @@ export const ExpenseDetails: React.FC = () => {
 					</div>
 				</CardHeader>
 				<CardContent>
-					<div className='grid md:grid-cols-2 gap-4'>
-						{/* Amount */}
-						<div className='flex items-center space-x-4'>
-							<DollarSign className='h-6 w-6 text-muted-foreground' />
-							<div>
-								<p className='text-sm text-muted-foreground'>Amount</p>
-								<p className='text-xl font-bold'>
-									{formatCurrency(expense.amount)}
-								</p>
-							</div>
-						</div>
-
-						{/* Category */}
-						<div className='flex items-center space-x-4'>
-							<Tag className='h-6 w-6 text-muted-foreground' />
-							<div>
-								<p className='text-sm text-muted-foreground'>Category</p>
-								<p className='text-lg'>{expense.category}</p>
-							</div>
-						</div>
-
-						{/* Date */}
-						<div className='flex items-center space-x-4'>
-							<Calendar className='h-6 w-6 text-muted-foreground' />
-							<div>
-								<p className='text-sm text-muted-foreground'>Date</p>
-								<p className='text-lg'>{DateUtils.formatDate(expense.date)}</p>
-							</div>
-						</div>
-
-						{/* Description */}
-						{expense.description && (
-							<div className='flex items-center space-x-4'>
-								<FileText className='h-6 w-6 text-muted-foreground' />
-								<div>
-									<p className='text-sm text-muted-foreground'>Description</p>
-									<p className='text-lg'>{expense.description}</p>
+					<Tabs defaultValue='details'>
+						<TabsList className='mb-4'>
+							<TabsTrigger value='details'>Details</TabsTrigger>
+							<TabsTrigger value='history'>History</TabsTrigger>
+						</TabsList>
+						<TabsContent value='details'>
+							<div className='grid md:grid-cols-2 gap-4'>
+								{/* Amount */}
+								<div className='flex items-center space-x-4'>
+									<DollarSign className='h-6 w-6 text-muted-foreground' />
+									<div>
+										<p className='text-sm text-muted-foreground'>Amount</p>
+										<p
+											className={`text-xl font-bold ${
+												isRefund ? 'text-green-600' : ''
+											}`}>
+											{formatCurrency(expense.amount)}
+										</p>
+									</div>
 								</div>
-							</div>
-						)}
 
-						{/* Receipt */}
-						{expense.receiptUrl && (
-							<div className='col-span-full'>
-								<Button
-									variant='outline'
-									onClick={openReceipt}>
-									View Receipt
-								</Button>
+								{/* Refund of */}
+								{isRefund && expense.refundOf && (
+									<div className='flex items-center space-x-4'>
+										<RotateCcw className='h-6 w-6 text-muted-foreground' />
+										<div>
+											<p className='text-sm text-muted-foreground'>Refund Of</p>
+											{refundedExpense ? (
+												<button
+													type='button'
+													className='text-lg text-left hover:underline'
+													onClick={() => navigate(`/expenses/${refundedExpense.id}`)}>
+													{refundedExpense.description} (
+													{formatCurrency(refundedExpense.amount)})
+												</button>
+											) : (
+												<p className='text-lg text-muted-foreground'>
+													An expense that was deleted
+												</p>
+											)}
+										</div>
+									</div>
+								)}
+
+								{/* Category */}
+								<div className='flex items-center space-x-4'>
+									<Tag className='h-6 w-6 text-muted-foreground' />
+									<div>
+										<p className='text-sm text-muted-foreground'>Category</p>
+										<p className='text-lg'>{expense.category}</p>
+									</div>
+								</div>
+
+								{/* Date */}
+								<div className='flex items-center space-x-4'>
+									<Calendar className='h-6 w-6 text-muted-foreground' />
+									<div>
+										<p className='text-sm text-muted-foreground'>Date</p>
+										<p className='text-lg'>{DateUtils.formatDate(expense.date)}</p>
+									</div>
+								</div>
+
+								{/* Payment method */}
+								{paymentMethod && (
+									<div className='flex items-center space-x-4'>
+										<Wallet className='h-6 w-6 text-muted-foreground' />
+										<div>
+											<p className='text-sm text-muted-foreground'>Paid With</p>
+											<p className='text-lg'>
+												{PaymentMethodUtils.getIcon(paymentMethod)}{' '}
+												{PaymentMethodUtils.getLabel(paymentMethod)}
+												{paymentMethod.archived && ' (archived)'}
+											</p>
+										</div>
+									</div>
+								)}
+
+								{/* Approval */}
+								{expense.status && (
+									<div className='flex items-center space-x-4'>
+										<ClipboardCheck className='h-6 w-6 text-muted-foreground' />
+										<div>
+											<p className='text-sm text-muted-foreground'>Approval</p>
+											<p className='text-lg'>
+												{APPROVAL_LABELS[expense.status]}
+												{expense.review &&
+													` by ${expense.review.by.displayName} on ${DateUtils.formatDate(
+														expense.review.at
+													)}`}
+											</p>
+											{expense.review?.reason && (
+												<p className='text-sm text-red-600'>
+													{expense.review.reason}
+												</p>
+											)}
+										</div>
+									</div>
+								)}
+
+								{/* Description */}
+								{expense.description && (
+									<div className='flex items-center space-x-4'>
+										<FileText className='h-6 w-6 text-muted-foreground' />
+										<div>
+											<p className='text-sm text-muted-foreground'>Description</p>
+											<p className='text-lg'>{expense.description}</p>
+										</div>
+									</div>
+								)}
+
+								{/* Line items */}
+								{(expense.lineItems?.length ?? 0) > 0 && (
+									<div className='col-span-full'>
+										<p className='text-sm text-muted-foreground mb-2'>Line Items</p>
+										<ul className='divide-y border rounded-lg'>
+											{expense.lineItems!.map((item, index) => (
+												<li
+													key={index}
+													className='flex justify-between items-center p-2'>
+													<div>
+														<p>
+															{item.description || `Line ${index + 1}`}
+															{item.quantity !== undefined &&
+																item.unitPrice !== undefined &&
+																` (${item.quantity} × ${formatCurrency(item.unitPrice)})`}
+														</p>
+														<p className='text-sm text-muted-foreground'>
+															{[item.category, ...(item.tags || [])].join(' · ')}
+														</p>
+													</div>
+													<p className='font-medium'>{formatCurrency(item.amount)}</p>
+												</li>
+											))}
+										</ul>
+									</div>
+								)}
+
+								{/* Refunds */}
+								{refunds.length > 0 && (
+									<div className='col-span-full'>
+										<p className='text-sm text-muted-foreground mb-2'>
+											Refunds ({refunds.length})
+										</p>
+										<ul className='divide-y border rounded-lg'>
+											{refunds.map((refund) => (
+												<li
+													key={refund.id}
+													className='flex justify-between items-center p-2'>
+													<button
+														type='button'
+														className='text-left hover:underline'
+														onClick={() => navigate(`/expenses/${refund.id}`)}>
+														<p>{refund.description}</p>
+														<p className='text-sm text-muted-foreground'>
+															{DateUtils.formatDate(refund.date)}
+														</p>
+													</button>
+													<p className='font-medium text-green-600'>
+														{formatCurrency(refund.amountInBaseCurrency)}
+													</p>
+												</li>
+											))}
+											<li className='flex justify-between items-center p-2 font-medium'>
+												<p>Net Cost</p>
+												<p>
+													{formatCurrency(
+														ExpenseRefunds.getNetAmount(expense, expenses)
+													)}
+												</p>
+											</li>
+										</ul>
+									</div>
+								)}
+
+								{/* Receipts */}
+								{(expense.receiptUrls?.length ?? 0) > 0 && (
+									<div className='col-span-full'>
+										<p className='text-sm text-muted-foreground mb-2'>
+											Receipts ({expense.receiptUrls!.length})
+										</p>
+										<div className='flex flex-wrap gap-2'>
+											{expense.receiptUrls!.map((url, index) => (
+												<ReceiptThumbnail
+													key={url}
+													url={url}
+													index={index}
+													className='h-20 w-20'
+													onClick={() => setViewedReceipt(index)}
+												/>
+											))}
+										</div>
+									</div>
+								)}
 							</div>
-						)}
-					</div>
+						</TabsContent>
+						<TabsContent value='history'>
+							<ExpenseHistory
+								expense={expense}
+								onReverted={setExpense}
+							/>
+						</TabsContent>
+					</Tabs>
 				</CardContent>
 			</Card>
 
+			{ruleDraft && currentAccount && (
+				<Card className='mt-4'>
+					<CardHeader>
+						<CardTitle>New Category Rule</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<CategoryRuleEditor
+							initial={ruleDraft}
+							categories={currentAccount.settings.categories}
+							paymentMethods={paymentMethods}
+							knownTags={knownTags}
+							busy={isSavingRule}
+							onSave={handleSaveRule}
+							onCancel={() => setRuleDraft(null)}
+						/>
+					</CardContent>
+				</Card>
+			)}
+
+			{viewedReceipt !== null && (
+				<ReceiptViewer
+					urls={expense.receiptUrls || []}
+					initialIndex={viewedReceipt}
+					onClose={() => setViewedReceipt(null)}
+				/>
+			)}
+
 			{/* Confirmation Dialog for Deletion */}
 			<ConfirmDialog
 				isOpen={isDeleteDialogOpen}
 				onClose={() => setIsDeleteDialogOpen(false)}
 				onConfirm={handleDeleteExpense}
 				title='Delete Expense'
-				message='Are you sure you want to delete this expense?'
+				message='Are you sure you want to delete this expense? It can be restored from the Trash for 30 days.'
 				confirmText='Delete'
 				variant='destructive'
 			/>
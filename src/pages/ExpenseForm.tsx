@@ -1,21 +1,62 @@
 // src/components/expenses/ExpenseForm.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import { RootState, AppDispatch } from '../store';
-import { addExpense, updateExpense } from '../store/slices/expensesSlice';
+import {
+	addExpense,
+	fetchExpenseWithRefunds,
+	selectReceiptUploads,
+	updateExpense,
+} from '../store/slices/expensesSlice';
 import { addNotification } from '../store/slices/uiSlice';
+import { createRecurringExpense } from '../store/slices/recurringSlice';
 import {
 	getAccountCategories,
 	getSystemCategories,
 	getExchangeRates,
 	getSupportedCurrencies,
 } from '../services/api';
-import { Expense, ExpenseCategory } from '../models/types';
+import {
+	Expense,
+	ExpenseCategory,
+	ExpenseSplit,
+	RecurringExpense,
+} from '../models/types';
+import ExpenseSplitEditor, {
+	SplitDraft,
+	buildSplit,
+	toSplitDraft,
+} from '../components/expenses/ExpenseSplitEditor';
+import LineItemsEditor, {
+	LineItemDraft,
+	buildLineItems,
+	toLineItemDrafts,
+} from '../components/expenses/LineItemsEditor';
+import { validateLineItems } from '../utils/lineItemUtils';
+import { isValidCurrencyAmount } from '../utils/currencyUtils';
+import { TagUtils } from '../utils/tagUtils';
+import TagInput from '../components/expenses/TagInput';
+import { usePaymentMethods } from '../hooks/usePaymentMethods';
+import { PaymentMethodUtils } from '../utils/paymentMethodUtils';
+import { canReadReceipt, extractReceipt } from '../services/receiptExtraction';
+import { CategoryRules } from '../../shared/categoryRules';
+import { ExpenseRefunds } from '../../shared/refunds';
+import { useMerchants } from '../hooks/useMerchants';
+import { MerchantUtils } from '../utils/merchantUtils';
+import { DuplicateUtils } from '../utils/duplicateUtils';
+import { DateUtils } from '../utils/dateUtils';
+import { ConfirmDialog } from '../components/common/ConfirmDialog';
 
 interface ExpenseFormProps {
 	existingExpense?: Expense;
 	isEditMode?: boolean;
+	// Expense a new refund is recorded against
+	refunded?: Expense;
+	// Expense the refund is recorded against and the refunds of it and of
+	// the expense being edited, as stored
+	refundContext?: Expense[];
 }
 
 interface Currency {
@@ -24,26 +65,74 @@ interface Currency {
 	symbol: string;
 }
 
-const ExpenseForm: React.FC<ExpenseFormProps> = ({
-	existingExpense,
-	isEditMode = false,
-}) => {
+// Form fields that can be pre-filled from a receipt
+type PrefilledField = 'amount' | 'date' | 'description' | 'currency' | 'notes';
+
+// Highlight for a pre-filled field by how sure the parser was of it
+const getConfidenceStyle = (confidence: number) => {
+	if (confidence >= 0.8) {
+		return {
+			ring: 'ring-2 ring-green-400 dark:ring-green-500',
+			text: 'text-green-700 dark:text-green-400',
+			label: 'high confidence',
+		};
+	}
+	if (confidence >= 0.5) {
+		return {
+			ring: 'ring-2 ring-yellow-400 dark:ring-yellow-500',
+			text: 'text-yellow-700 dark:text-yellow-400',
+			label: 'please check',
+		};
+	}
+	return {
+		ring: 'ring-2 ring-red-400 dark:ring-red-500',
+		text: 'text-red-700 dark:text-red-400',
+		label: 'low confidence',
+	};
+};
+
+const ExpenseForm: React.FC<ExpenseFormProps> = (props) => {
 	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
-	const { status } = useSelector((state: RootState) => state.expenses);
+	const { status, expenses } = useSelector(
+		(state: RootState) => state.expenses
+	);
+	const { existingExpense, refunded } = props;
+	const isEditMode = props.isEditMode ?? Boolean(existingExpense);
 	const { currentAccount } = useSelector((state: RootState) => state.accounts);
 	const { user } = useSelector((state: RootState) => state.auth);
+	const receiptUploads = useSelector(selectReceiptUploads);
+	const [refundContext, setRefundContext] = useState(props.refundContext ?? []);
 
 	// Form state
+	// Refunds and credits are stored as negative amounts but entered as
+	// positive ones
+	const [isRefund, setIsRefund] = useState(
+		existingExpense ? existingExpense.amount < 0 : Boolean(refunded)
+	);
+	const [refundOf, setRefundOf] = useState(
+		existingExpense?.refundOf || refunded?.id || ''
+	);
 	const [amount, setAmount] = useState(
-		existingExpense?.amount?.toString() || ''
+		existingExpense
+			? Math.abs(existingExpense.amount).toString()
+			: refunded
+			? // What's left to refund, in the expense's own currency
+			  (
+					ExpenseRefunds.getNetAmount(refunded, refundContext) /
+					refunded.exchangeRate
+			  ).toFixed(2)
+			: ''
+	);
+	const [category, setCategory] = useState(
+		existingExpense?.category || refunded?.category || ''
 	);
-	const [category, setCategory] = useState(existingExpense?.category || '');
 	const [subcategory, setSubcategory] = useState(
-		existingExpense?.subcategory || ''
+		existingExpense?.subcategory || refunded?.subcategory || ''
 	);
 	const [description, setDescription] = useState(
-		existingExpense?.description || ''
+		existingExpense?.description ||
+			(refunded ? `Refund: ${refunded.description}` : '')
 	);
 	const [date, setDate] = useState(
 		existingExpense?.date
@@ -52,15 +141,86 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 	);
 	const [notes, setNotes] = useState(existingExpense?.notes || '');
 	const [currency, setCurrency] = useState(
-		existingExpense?.originalCurrency || currentAccount?.baseCurrency || 'USD'
+		existingExpense?.currency ||
+			refunded?.currency ||
+			currentAccount?.baseCurrency ||
+			'USD'
 	);
 	const [isRecurring, setIsRecurring] = useState(
 		existingExpense?.isRecurring || false
 	);
+	const [frequency, setFrequency] =
+		useState<RecurringExpense['frequency']>('monthly');
+	const [repeatInterval, setRepeatInterval] = useState('1');
+	const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
 	const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
 	const [receiptUrls, setReceiptUrls] = useState<string[]>(
 		existingExpense?.receiptUrls || []
 	);
+	const [splitDraft, setSplitDraft] = useState<SplitDraft>(() =>
+		toSplitDraft(
+			currentAccount?.members ?? [],
+			existingExpense?.createdBy.uid ?? user?.firebaseUser.uid ?? '',
+			existingExpense?.split
+		)
+	);
+	const [lineItems, setLineItems] = useState<LineItemDraft[]>(() =>
+		toLineItemDrafts(existingExpense?.lineItems)
+	);
+	const [tags, setTags] = useState<string[]>(existingExpense?.tags || []);
+	// Tags of the account's expenses, offered while typing
+	const knownTags = useMemo(
+		() => TagUtils.getUsage(expenses).map(({ tag }) => tag),
+		[expenses]
+	);
+	// '' when the expense has no payment method
+	const [paymentMethodId, setPaymentMethodId] = useState(
+		existingExpense?.paymentMethodId || refunded?.paymentMethodId || ''
+	);
+	const paymentMethods = PaymentMethodUtils.getSelectable(
+		usePaymentMethods(currentAccount?.id),
+		existingExpense?.paymentMethodId
+	);
+	// Splitting only makes sense in accounts shared with others
+	const canSplit = (currentAccount?.members.length ?? 0) > 1 && !isRefund;
+	// Expenses a refund can be recorded against, most recent first; the one
+	// it is recorded against may be older than those loaded
+	const refundableExpenses = useMemo(
+		() =>
+			[
+				...expenses,
+				...refundContext.filter(
+					(stored) => !expenses.some((expense) => expense.id === stored.id)
+				),
+			]
+				.filter(
+					(expense) =>
+						expense.accountId === currentAccount?.id &&
+						expense.id !== existingExpense?.id &&
+						!ExpenseRefunds.isRefund(expense)
+				)
+				.sort(
+					(a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+				),
+		[expenses, refundContext, currentAccount?.id, existingExpense?.id]
+	);
+	const refundTarget = refundableExpenses.find(
+		(expense) => expense.id === refundOf
+	);
+
+	// What's left to refund is worked out from the stored refunds of the
+	// chosen expense
+	useEffect(() => {
+		if (!refundOf || refundContext.some((expense) => expense.id === refundOf)) {
+			return;
+		}
+		dispatch(fetchExpenseWithRefunds(refundOf))
+			.unwrap()
+			.then(({ expense, refundContext: refunds }) =>
+				setRefundContext((context) => [...context, expense, ...refunds])
+			)
+			.catch((error) => console.error('Error loading refunds:', error));
+	}, [refundOf]);
 
 	// Supporting data
 	const [categories, setCategories] = useState<ExpenseCategory[]>([]);
@@ -75,6 +235,28 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 	const [isLoadingCurrencies, setIsLoadingCurrencies] = useState(false);
 	const [isLoadingRates, setIsLoadingRates] = useState(false);
 	const [isUploadingReceipts, setIsUploadingReceipts] = useState(false);
+	const [isReadingReceipt, setIsReadingReceipt] = useState(false);
+
+	// A category picked by hand is never replaced by a rule; refunds keep
+	// the category of the expense they refund
+	const [categoryTouched, setCategoryTouched] = useState(
+		isEditMode || Boolean(refunded)
+	);
+	// What filled in the category, e.g. 'the rule "Rides"', and the tags it
+	// added
+	const [autoCategory, setAutoCategory] = useState<{
+		source: string;
+		tags: string[];
+	} | null>(null);
+	const merchants = useMerchants(currentAccount?.id);
+	// Expenses the new one looks like, while asking whether to save it anyway
+	const [duplicates, setDuplicates] = useState<Expense[]>([]);
+
+	// Confidence of each field pre-filled from a receipt, until the user
+	// changes or confirms it
+	const [prefilled, setPrefilled] = useState<
+		Partial<Record<PrefilledField, number>>
+	>({});
 
 	// Fetch categories
 	useEffect(() => {
@@ -163,6 +345,69 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 		fetchCurrencyData();
 	}, [currentAccount, dispatch]);
 
+	// Members are only known once the account has loaded
+	useEffect(() => {
+		if (!currentAccount) return;
+		setSplitDraft(
+			toSplitDraft(
+				currentAccount.members,
+				existingExpense?.createdBy.uid ?? user?.firebaseUser.uid ?? '',
+				existingExpense?.split
+			)
+		);
+	}, [currentAccount?.id, existingExpense?.id]);
+
+	// File new expenses by the account's category rules as they are typed in
+	// or read from a receipt. Without a matching rule the merchant's default
+	// category is used.
+	useEffect(() => {
+		if (categoryTouched || !currentAccount) return;
+
+		const numericAmount = parseFloat(amount);
+		const result = CategoryRules.apply(currentAccount.settings.categoryRules, {
+			description,
+			amountInBaseCurrency: isNaN(numericAmount)
+				? 0
+				: numericAmount * getExchangeRate(),
+			paymentMethodId,
+		});
+		const merchant = result
+			? null
+			: MerchantUtils.match(description, merchants);
+		const next = result
+			? {
+					source: `the rule "${result.rule.name}"`,
+					category: result.category,
+					tags: result.tags,
+			  }
+			: merchant?.defaultCategory
+			? {
+					source: `the merchant ${merchant.name}`,
+					category: merchant.defaultCategory,
+					tags: [],
+			  }
+			: null;
+		if (next?.source === autoCategory?.source) return;
+
+		// Tags of a rule that no longer matches are taken back off
+		const ownTags = tags.filter((tag) => !autoCategory?.tags.includes(tag));
+		const addedTags = next
+			? next.tags.filter((tag) => !ownTags.includes(tag))
+			: [];
+		setTags(TagUtils.normalize([...ownTags, ...addedTags]));
+		handleCategoryChange(next?.category ?? '');
+		setAutoCategory(next ? { source: next.source, tags: addedTags } : null);
+	}, [
+		description,
+		amount,
+		currency,
+		exchangeRates,
+		paymentMethodId,
+		currentAccount,
+		merchants,
+		categoryTouched,
+	]);
+
 	// Update subcategories when category changes
 	const handleCategoryChange = (categoryId: string) => {
 		setCategory(categoryId);
@@ -180,11 +425,98 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 		}
 	};
 
+	// A pre-filled field the user changed counts as confirmed
+	const confirmField = (field: PrefilledField) => {
+		setPrefilled((fields) => {
+			const { [field]: _confirmed, ...rest } = fields;
+			return rest;
+		});
+	};
+
+	const getHighlight = (field: PrefilledField) =>
+		prefilled[field] === undefined
+			? ''
+			: getConfidenceStyle(prefilled[field]!).ring;
+
+	const renderConfidenceHint = (field: PrefilledField) => {
+		const confidence = prefilled[field];
+		if (confidence === undefined) return null;
+
+		const style = getConfidenceStyle(confidence);
+		return (
+			<p className={`mt-1 text-xs ${style.text}`}>
+				Read from receipt, {style.label} ({Math.round(confidence * 100)}%)
+			</p>
+		);
+	};
+
+	// Pre-fill the form from a receipt; fields the user already filled in
+	// are kept
+	const readReceipt = async (file: File) => {
+		setIsReadingReceipt(true);
+		try {
+			const { fields } = await extractReceipt(file);
+			const filled: Partial<Record<PrefilledField, number>> = {};
+
+			if (fields.total && !amount) {
+				setAmount(fields.total.value.toFixed(2));
+				filled.amount = fields.total.confidence;
+			}
+			if (fields.date) {
+				setDate(format(fields.date.value, 'yyyy-MM-dd'));
+				filled.date = fields.date.confidence;
+			}
+			if (fields.merchant && !description) {
+				setDescription(fields.merchant.value);
+				filled.description = fields.merchant.confidence;
+			}
+			const currencyCode = fields.currency?.value;
+			if (
+				fields.currency &&
+				(currencies.length === 0 ||
+					currencies.some((curr) => curr.code === currencyCode))
+			) {
+				setCurrency(fields.currency.value);
+				filled.currency = fields.currency.confidence;
+			}
+			if (fields.tax && !notes) {
+				setNotes(`Tax: ${fields.tax.value.toFixed(2)}`);
+				filled.notes = fields.tax.confidence;
+			}
+
+			setPrefilled(filled);
+			if (Object.keys(filled).length === 0) {
+				dispatch(
+					addNotification({
+						type: 'info',
+						message: 'No expense details could be read from the receipt',
+					})
+				);
+			}
+		} catch (error: any) {
+			console.error('Error reading receipt:', error);
+			dispatch(
+				addNotification({
+					type: 'warning',
+					message: error.message || 'Failed to read the receipt',
+				})
+			);
+		} finally {
+			setIsReadingReceipt(false);
+		}
+	};
+
 	// Handle receipt file uploads
 	const handleReceiptUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
 		if (e.target.files) {
 			const files = Array.from(e.target.files);
 			setReceiptFiles((prevFiles) => [...prevFiles, ...files]);
+
+			// New expenses are pre-filled from the first readable receipt
+			const readable = files.find((file) => canReadReceipt(file));
+			if (!isEditMode && readable) {
+				readReceipt(readable);
+			}
 		}
 	};
 
@@ -198,6 +530,15 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 		setReceiptUrls((prevUrls) => prevUrls.filter((_, i) => i !== index));
 	};
 
+	// Multiplier from the selected currency to the account's base currency.
+	// Rates are quoted per unit of the base currency.
+	const getExchangeRate = (): number => {
+		if (!currentAccount || currency === currentAccount.baseCurrency) return 1;
+
+		// If the rate isn't available use 1 (no conversion)
+		return 1 / (exchangeRates[currency] || 1);
+	};
+
 	// Calculate the converted amount based on exchange rate
 	const calculateConvertedAmount = (): number => {
 		if (!amount || !currency || !currentAccount) return 0;
@@ -205,17 +546,11 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 		const numericAmount = parseFloat(amount);
 		if (isNaN(numericAmount)) return 0;
 
-		// If currency is the same as base currency, no conversion needed
-		if (currency === currentAccount.baseCurrency) return numericAmount;
-
-		// Get exchange rate - if not available use 1 (no conversion)
-		const exchangeRate = exchangeRates[currency] || 1;
-		// Convert to base currency
-		return numericAmount / exchangeRate;
+		return numericAmount * getExchangeRate();
 	};
 
-	const handleSubmit = async (e: React.FormEvent) => {
-		e.preventDefault();
+	const handleSubmit = async (e?: React.FormEvent, allowDuplicate = false) => {
+		e?.preventDefault();
 
 		if (!currentAccount || !user) return;
 
@@ -230,41 +565,78 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 			return;
 		}
 
-		try {
-			// Upload receipts if any
-			setIsUploadingReceipts(true);
-			let allReceiptUrls = [...receiptUrls];
-
-			if (receiptFiles.length > 0) {
-				// This would be implemented to handle file uploads to storage
-				// For now, we'll just pretend the upload was successful
-				// In a real implementation, we'd use Firebase Storage or similar
-				const mockUploadedUrls = receiptFiles.map(
-					(file) => `https://storage.example.com/receipts/${file.name}`
-				);
-				allReceiptUrls = [...allReceiptUrls, ...mockUploadedUrls];
+		// Refunds are entered as positive amounts and have no line items
+		const numericAmount = isRefund
+			? -Math.abs(parseFloat(amount))
+			: parseFloat(amount);
+		if (!isValidCurrencyAmount(numericAmount, isRefund)) {
+			dispatch(
+				addNotification({
+					type: 'error',
+					message: 'Enter a positive amount; record money back as a refund',
+				})
+			);
+			return;
+		}
+		const items = isRefund ? [] : buildLineItems(lineItems);
+		const lineItemError = validateLineItems(numericAmount, items);
+		if (lineItemError) {
+			dispatch(addNotification({ type: 'error', message: lineItemError }));
+			return;
+		}
+
+		let split: ExpenseSplit | undefined;
+		if (canSplit && splitDraft.enabled) {
+			const result = buildSplit(splitDraft, numericAmount);
+			if (result.error) {
+				dispatch(addNotification({ type: 'error', message: result.error }));
+				return;
 			}
-			setIsUploadingReceipts(false);
+			split = result.split;
+		}
 
+		// Warn before the same purchase is entered twice
+		if (!isEditMode && !allowDuplicate) {
+			const found = DuplicateUtils.find(
+				{
+					description,
+					amountInBaseCurrency: numericAmount * getExchangeRate(),
+					date: new Date(date),
+				},
+				expenses.filter((expense) => expense.accountId === currentAccount.id),
+				merchants
+			);
+			if (found.length > 0) {
+				setDuplicates(found);
+				return;
+			}
+		}
+
+		try {
 			// Prepare expense data
-			const numericAmount = parseFloat(amount);
-			const convertedAmount = calculateConvertedAmount();
-			const exchangeRate =
-				currency !== currentAccount.baseCurrency
-					? exchangeRates[currency] || 1
-					: 1;
+			const exchangeRate = getExchangeRate();
+			// Receipts are uploaded by the expense thunks
+			setIsUploadingReceipts(receiptFiles.length > 0);
 
 			const expenseData = {
 				accountId: currentAccount.id,
-				amount: convertedAmount,
+				amount: numericAmount,
 				category,
+				subcategory: subcategory || undefined,
 				description,
+				notes: notes || undefined,
 				date: new Date(date),
 				currency,
 				exchangeRate,
 				userId: user.firebaseUser.uid,
 				userDisplayName: user.firebaseUser.displayName || 'Unknown User',
-				receiptFile: receiptFiles.length > 0 ? receiptFiles[0] : undefined,
+				receiptFiles,
+				split,
+				lineItems: items.length > 0 ? items : undefined,
+				tags,
+				paymentMethodId: paymentMethodId || undefined,
+				refundOf: isRefund && refundOf ? refundOf : undefined,
+				allowDuplicate,
 			};
 
 			if (isEditMode && existingExpense) {
@@ -272,9 +644,45 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 				await dispatch(
 					updateExpense({
 						id: existingExpense.id,
-						updates: expenseData,
-						receiptFile: receiptFiles.length > 0 ? receiptFiles[0] : undefined,
-						deleteReceipt: receiptFiles.length === 0 ? true : undefined,
+						updates: {
+							amount: numericAmount,
+							currency,
+							exchangeRate,
+							category,
+							subcategory: subcategory || undefined,
+							description,
+							notes: notes || undefined,
+							date: new Date(date),
+							// An existing split is cleared when splitting is turned off
+							split:
+								split ??
+								((canSplit || isRefund) && existingExpense.split
+									? null
+									: undefined),
+							// Removing every line clears them
+							lineItems:
+								items.length > 0
+									? items
+									: existingExpense.lineItems
+									? null
+									: undefined,
+							tags:
+								tags.length > 0
+									? TagUtils.normalize(tags)
+									: existingExpense.tags?.length
+									? null
+									: undefined,
+							paymentMethodId:
+								paymentMethodId ||
+								(existingExpense.paymentMethodId ? null : undefined),
+							refundOf:
+								(isRefund && refundOf) ||
+								(existingExpense.refundOf ? null : undefined),
+						},
+						receiptFiles,
+						removedReceiptUrls: (existingExpense.receiptUrls || []).filter(
+							(url) => !receiptUrls.includes(url)
+						),
 					})
 				).unwrap();
 
@@ -284,6 +692,40 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 						message: 'Expense updated successfully',
 					})
 				);
+			} else if (isRecurring && !isRefund) {
+				// Create the template first; this expense is its first occurrence,
+				// later ones are generated when the account is loaded
+				const template = await dispatch(
+					createRecurringExpense({
+						accountId: currentAccount.id,
+						userId: user.firebaseUser.uid,
+						template: {
+							amount: numericAmount,
+							currency,
+							category,
+							subcategory: subcategory || undefined,
+							description,
+							frequency,
+							interval: parseInt(repeatInterval, 10) || 1,
+							startDate: new Date(date),
+							endDate: recurrenceEndDate
+								? new Date(recurrenceEndDate)
+								: undefined,
+						},
+						lastGenerated: new Date(date),
+					})
+				).unwrap();
+
+				await dispatch(
+					addExpense({ ...expenseData, recurringId: template.id })
+				).unwrap();
+
+				dispatch(
+					addNotification({
+						type: 'success',
+						message: 'Recurring expense added successfully',
+					})
+				);
 			} else {
 				// Create new expense
 				await dispatch(addExpense(expenseData)).unwrap();
@@ -291,21 +733,28 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 				dispatch(
 					addNotification({
 						type: 'success',
-						message: 'Expense added successfully',
+						message: isRefund
+							? 'Refund added successfully'
+							: 'Expense added successfully',
 					})
 				);
 			}
 
-			// Navigate back to expenses list
-			navigate('/expenses');
+			// Navigate back to expenses list, or to the refunded expense
+			navigate(refunded ? `/expenses/${refunded.id}` : '/expenses');
 		} catch (error) {
+			setIsUploadingReceipts(false);
 			console.error('Error saving expense:', error);
 			dispatch(
 				addNotification({
 					type: 'error',
-					message: `Failed to ${
-						isEditMode ? 'update' : 'add'
-					} expense. Please try again.`,
+					// Thunks reject with why, e.g. a refund larger than the expense
+					message:
+						typeof error === 'string'
+							? error
+							: `Failed to ${
+									isEditMode ? 'update' : 'add'
+							  } expense. Please try again.`,
 				})
 			);
 		}
@@ -325,13 +774,117 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 		<div className='bg-white dark:bg-gray-800 shadow rounded-lg'>
 			<div className='px-4 py-5 sm:p-6'>
 				<h3 className='text-lg font-medium leading-6 text-gray-900 dark:text-white'>
-					{isEditMode ? 'Edit Expense' : 'Add New Expense'}
+					{isEditMode
+						? isRefund
+							? 'Edit Refund'
+							: 'Edit Expense'
+						: isRefund
+						? 'Add Refund'
+						: 'Add New Expense'}
 				</h3>
 
 				<form
 					className='mt-5 space-y-6'
 					onSubmit={handleSubmit}>
+					{isReadingReceipt && (
+						<p className='text-sm text-gray-500 dark:text-gray-400'>
+							Reading receipt...
+						</p>
+					)}
+					{Object.keys(prefilled).length > 0 && (
+						<div className='flex items-center justify-between rounded-md bg-blue-50 dark:bg-blue-900/20 p-3 text-sm text-blue-800 dark:text-blue-200'>
+							<span>
+								Highlighted fields were read from the receipt. Check them before
+								saving.
+							</span>
+							<button
+								type='button'
+								onClick={() => setPrefilled({})}
+								className='ml-4 font-medium hover:underline'>
+								Looks right
+							</button>
+						</div>
+					)}
 					<div className='grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6'>
+						{/* Refund or credit */}
+						<div className='sm:col-span-6'>
+							<div className='flex items-start'>
+								<div className='flex items-center h-5'>
+									<input
+										id='is-refund'
+										name='is-refund'
+										type='checkbox'
+										checked={isRefund}
+										onChange={(e) => setIsRefund(e.target.checked)}
+										className='focus:ring-blue-500 h-4 w-4 text-blue-600 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600'
+									/>
+								</div>
+								<div className='ml-3 text-sm'>
+									<label
+										htmlFor='is-refund'
+										className='font-medium text-gray-700 dark:text-gray-300'>
+										This is a refund or credit
+									</label>
+									<p className='text-gray-500 dark:text-gray-400'>
+										Money back is taken off the category's totals and budgets.
+									</p>
+								</div>
+							</div>
+							{isRefund && (
+								<div className='mt-4'>
+									<label
+										htmlFor='refund-of'
+										className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+										Refund Of (Optional)
+									</label>
+									<div className='mt-1'>
+										<select
+											id='refund-of'
+											name='refund-of'
+											value={refundOf}
+											onChange={(e) => {
+												setRefundOf(e.target.value);
+												const expense = refundableExpenses.find(
+													(item) => item.id === e.target.value
+												);
+												// Refunds count against the category they came from
+												if (expense) {
+													setCategoryTouched(true);
+													setAutoCategory(null);
+													handleCategoryChange(expense.category);
+												}
+											}}
+											className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'>
+											<option value=''>No expense (a credit)</option>
+											{refundableExpenses.map((expense) => (
+												<option
+													key={expense.id}
+													value={expense.id}>
+													{`${DateUtils.formatDate(expense.date)} · ${
+														expense.description
+													} · ${expense.amount.toFixed(2)} ${expense.currency}`}
+												</option>
+											))}
+										</select>
+									</div>
+									{refundTarget && (
+										<p className='mt-2 text-sm text-gray-500 dark:text-gray-400'>
+											{Math.max(
+												ExpenseRefunds.getNetAmount(
+													refundTarget,
+													refundContext.filter(
+														(expense) => expense.id !== existingExpense?.id
+													)
+												),
+												0
+											).toFixed(2)}{' '}
+											{currentAccount.baseCurrency} left to refund
+										</p>
+									)}
+								</div>
+							)}
+						</div>
+
 						{/* Amount and Currency */}
 						<div className='sm:col-span-3'>
 							<label
@@ -349,8 +902,13 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 										step='0.01'
 										min='0'
 										value={amount}
-										onChange={(e) => setAmount(e.target.value)}
-										className='focus:ring-blue-500 focus:border-blue-500 block w-full rounded-none rounded-l-md sm:text-sm border-gray-300 dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+										onChange={(e) => {
+											setAmount(e.target.value);
+											confirmField('amount');
+										}}
+										className={`focus:ring-blue-500 focus:border-blue-500 block w-full rounded-none rounded-l-md sm:text-sm border-gray-300 dark:bg-gray-700 dark:border-gray-600 dark:text-white ${getHighlight(
+											'amount'
+										)}`}
 										placeholder='0.00'
 									/>
 								</div>
@@ -358,9 +916,14 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									id='currency'
 									name='currency'
 									value={currency}
-									onChange={(e) => setCurrency(e.target.value)}
+									onChange={(e) => {
+										setCurrency(e.target.value);
+										confirmField('currency');
+									}}
 									disabled={isLoadingCurrencies}
-									className='-ml-px relative inline-flex items-center px-3 py-2 rounded-r-md border border-gray-300 bg-gray-50 text-gray-500 text-sm dark:bg-gray-600 dark:border-gray-500 dark:text-gray-200 disabled:opacity-70'>
+									className={`-ml-px relative inline-flex items-center px-3 py-2 rounded-r-md border border-gray-300 bg-gray-50 text-gray-500 text-sm dark:bg-gray-600 dark:border-gray-500 dark:text-gray-200 disabled:opacity-70 ${getHighlight(
+										'currency'
+									)}`}>
 									{isLoadingCurrencies ? (
 										<option>Loading...</option>
 									) : (
@@ -374,6 +937,8 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									)}
 								</select>
 							</div>
+							{renderConfidenceHint('amount')}
+							{renderConfidenceHint('currency')}
 							{currency !== currentAccount.baseCurrency && (
 								<p className='mt-2 text-sm text-gray-500 dark:text-gray-400'>
 									Converted: {calculateConvertedAmount().toFixed(2)}{' '}
@@ -397,10 +962,16 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									name='date'
 									required
 									value={date}
-									onChange={(e) => setDate(e.target.value)}
-									className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+									onChange={(e) => {
+										setDate(e.target.value);
+										confirmField('date');
+									}}
+									className={`shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white ${getHighlight(
+										'date'
+									)}`}
 								/>
 							</div>
+							{renderConfidenceHint('date')}
 						</div>
 
 						{/* Description */}
@@ -417,11 +988,17 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									name='description'
 									required
 									value={description}
-									onChange={(e) => setDescription(e.target.value)}
-									className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+									onChange={(e) => {
+										setDescription(e.target.value);
+										confirmField('description');
+									}}
+									className={`shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white ${getHighlight(
+										'description'
+									)}`}
 									placeholder='e.g., Grocery shopping at Whole Foods'
 								/>
 							</div>
+							{renderConfidenceHint('description')}
 						</div>
 
 						{/* Category */}
@@ -437,7 +1014,11 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									name='category'
 									required
 									value={category}
-									onChange={(e) => handleCategoryChange(e.target.value)}
+									onChange={(e) => {
+										setCategoryTouched(true);
+										setAutoCategory(null);
+										handleCategoryChange(e.target.value);
+									}}
 									disabled={isLoadingCategories}
 									className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white disabled:opacity-70'>
 									<option value=''>Select a category</option>
@@ -456,6 +1037,11 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									)}
 								</select>
 							</div>
+							{autoCategory && (
+								<p className='mt-1 text-xs text-gray-500 dark:text-gray-400'>
+									Filled in by {autoCategory.source}
+								</p>
+							)}
 						</div>
 
 						{/* Subcategory - Only show if there are subcategories for the selected category */}
@@ -486,6 +1072,51 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 							</div>
 						)}
 
+						{/* Payment method */}
+						{paymentMethods.length > 0 && (
+							<div className='sm:col-span-3'>
+								<label
+									htmlFor='paymentMethod'
+									className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+									Paid With
+								</label>
+								<div className='mt-1'>
+									<select
+										id='paymentMethod'
+										name='paymentMethod'
+										value={paymentMethodId}
+										onChange={(e) => setPaymentMethodId(e.target.value)}
+										className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'>
+										<option value=''>Not set</option>
+										{paymentMethods.map((method) => (
+											<option
+												key={method.id}
+												value={method.id}>
+												{`${PaymentMethodUtils.getIcon(
+													method
+												)} ${PaymentMethodUtils.getLabel(method)}`}
+											</option>
+										))}
+									</select>
+								</div>
+							</div>
+						)}
+
+						{/* Line items */}
+						{!isRefund && (
+							<div className='sm:col-span-6'>
+								<LineItemsEditor
+									items={lineItems}
+									categories={categories}
+									defaultCategory={category}
+									amount={parseFloat(amount) || 0}
+									currency={currency}
+									onChange={setLineItems}
+									onUseTotal={(total) => setAmount(total.toFixed(2))}
+								/>
+							</div>
+						)}
+
 						{/* Notes */}
 						<div className='sm:col-span-6'>
 							<label
@@ -499,39 +1130,144 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 									name='notes'
 									rows={3}
 									value={notes}
-									onChange={(e) => setNotes(e.target.value)}
-									className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+									onChange={(e) => {
+										setNotes(e.target.value);
+										confirmField('notes');
+									}}
+									className={`shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white ${getHighlight(
+										'notes'
+									)}`}
 									placeholder='Add any additional details about this expense'
 								/>
 							</div>
+							{renderConfidenceHint('notes')}
 						</div>
 
-						{/* Is Recurring Checkbox */}
+						{/* Tags */}
 						<div className='sm:col-span-6'>
-							<div className='flex items-start'>
-								<div className='flex items-center h-5'>
-									<input
-										id='is-recurring'
-										name='is-recurring'
-										type='checkbox'
-										checked={isRecurring}
-										onChange={(e) => setIsRecurring(e.target.checked)}
-										className='focus:ring-blue-500 h-4 w-4 text-blue-600 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600'
-									/>
+							<label
+								htmlFor='tags'
+								className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+								Tags (Optional)
+							</label>
+							<div className='mt-1'>
+								<TagInput
+									id='tags'
+									tags={tags}
+									knownTags={knownTags}
+									onChange={setTags}
+								/>
+							</div>
+						</div>
+
+						{/* Split between members */}
+						{canSplit && (
+							<div className='sm:col-span-6'>
+								<ExpenseSplitEditor
+									members={currentAccount.members}
+									amount={parseFloat(amount) || 0}
+									currency={currency}
+									draft={splitDraft}
+									onChange={setSplitDraft}
+								/>
+							</div>
+						)}
+
+						{/* Is Recurring Checkbox */}
+						{!isRefund && (
+							<div className='sm:col-span-6'>
+								<div className='flex items-start'>
+									<div className='flex items-center h-5'>
+										<input
+											id='is-recurring'
+											name='is-recurring'
+											type='checkbox'
+											checked={isRecurring}
+											onChange={(e) => setIsRecurring(e.target.checked)}
+											className='focus:ring-blue-500 h-4 w-4 text-blue-600 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600'
+										/>
+									</div>
+									<div className='ml-3 text-sm'>
+										<label
+											htmlFor='is-recurring'
+											className='font-medium text-gray-700 dark:text-gray-300'>
+											This is a recurring expense
+										</label>
+										<p className='text-gray-500 dark:text-gray-400'>
+											Mark this if the expense repeats regularly and you want to
+											track it separately.
+										</p>
+									</div>
 								</div>
-								<div className='ml-3 text-sm'>
+							</div>
+						)}
+
+						{/* Recurrence schedule - only when creating, existing templates are edited on the Recurring page */}
+						{isRecurring && !isEditMode && !isRefund && (
+							<>
+								<div className='sm:col-span-2'>
 									<label
-										htmlFor='is-recurring'
-										className='font-medium text-gray-700 dark:text-gray-300'>
-										This is a recurring expense
+										htmlFor='repeat-interval'
+										className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+										Repeat every
 									</label>
-									<p className='text-gray-500 dark:text-gray-400'>
-										Mark this if the expense repeats regularly and you want to
-										track it separately.
-									</p>
+									<div className='mt-1'>
+										<input
+											type='number'
+											id='repeat-interval'
+											name='repeat-interval'
+											min='1'
+											step='1'
+											value={repeatInterval}
+											onChange={(e) => setRepeatInterval(e.target.value)}
+											className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+										/>
+									</div>
 								</div>
-							</div>
-						</div>
+								<div className='sm:col-span-2'>
+									<label
+										htmlFor='frequency'
+										className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+										Frequency
+									</label>
+									<div className='mt-1'>
+										<select
+											id='frequency'
+											name='frequency'
+											value={frequency}
+											onChange={(e) =>
+												setFrequency(
+													e.target.value as RecurringExpense['frequency']
+												)
+											}
+											className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'>
+											<option value='daily'>Day(s)</option>
+											<option value='weekly'>Week(s)</option>
+											<option value='monthly'>Month(s)</option>
+											<option value='yearly'>Year(s)</option>
+										</select>
+									</div>
+								</div>
+								<div className='sm:col-span-2'>
+									<label
+										htmlFor='recurrence-end'
+										className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
+										Ends on (Optional)
+									</label>
+									<div className='mt-1'>
+										<input
+											type='date'
+											id='recurrence-end'
+											name='recurrence-end'
+											min={date}
+											value={recurrenceEndDate}
+											onChange={(e) => setRecurrenceEndDate(e.target.value)}
+											className='shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+										/>
+									</div>
+								</div>
+							</>
+						)}
 
 						{/* Receipt Upload */}
 						<div className='sm:col-span-6'>
@@ -618,9 +1354,30 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 													<span className='ml-2 text-sm text-gray-700 dark:text-gray-300'>
 														{file.name}
 													</span>
+													{isUploadingReceipts && receiptUploads[index] && (
+														<div
+															className='ml-3 w-32 h-2 bg-gray-200 rounded-full dark:bg-gray-700'
+															role='progressbar'
+															aria-label={`Uploading ${file.name}`}
+															aria-valuemin={0}
+															aria-valuemax={100}
+															aria-valuenow={Math.round(
+																receiptUploads[index].progress * 100
+															)}>
+															<div
+																className='h-2 bg-blue-600 rounded-full dark:bg-blue-500'
+																style={{
+																	width: `${Math.round(
+																		receiptUploads[index].progress * 100
+																	)}%`,
+																}}
+															/>
+														</div>
+													)}
 												</div>
 												<button
 													type='button'
+													disabled={isUploadingReceipts}
 													onClick={() => handleRemoveReceiptFile(index)}
 													className='text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300'>
 													<svg
@@ -711,8 +1468,79 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
 					</div>
 				</form>
 			</div>
+
+			<ConfirmDialog
+				isOpen={duplicates.length > 0}
+				onClose={() => setDuplicates([])}
+				onConfirm={() => handleSubmit(undefined, true)}
+				title='Possible Duplicate'
+				message={`This looks like ${duplicates
+					.slice(0, 2)
+					.map(
+						(duplicate) =>
+							`"${duplicate.description}" (${duplicate.amount.toFixed(2)} ${
+								duplicate.currency
+							} on ${DateUtils.formatDate(duplicate.date)}, added by ${
+								duplicate.createdBy.displayName
+							})`
+					)
+					.join(' and ')}${
+					duplicates.length > 2 ? ` and ${duplicates.length - 2} more` : ''
+				}. Add it anyway?`}
+				confirmText='Add Anyway'
+				cancelText='Go Back'
+			/>
 		</div>
 	);
 };
 
-export default ExpenseForm;
+/**
+ * Loads the expense being edited, or the one a new refund is recorded
+ * against (/expenses/new?refundOf=), from storage before showing the form,
+ * since it may be older than the expenses kept in the store
+ */
+const ExpenseFormPage: React.FC = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const { id } = useParams<{ id: string }>();
+	const [searchParams] = useSearchParams();
+	const expenseId = id ?? searchParams.get('refundOf');
+	const [result, setResult] = useState<{
+		id: string;
+		loaded: { expense: Expense; refundContext: Expense[] } | null;
+	} | null>(null);
+
+	useEffect(() => {
+		if (!expenseId) return;
+		dispatch(fetchExpenseWithRefunds(expenseId))
+			.unwrap()
+			.then((loaded) => setResult({ id: expenseId, loaded }))
+			.catch(() => setResult({ id: expenseId, loaded: null }));
+	}, [dispatch, expenseId]);
+
+	if (expenseId && result?.id !== expenseId) {
+		return <div>Loading expense details...</div>;
+	}
+
+	const loaded = result?.loaded;
+	if (id) {
+		return loaded ? (
+			<ExpenseForm
+				key={id}
+				existingExpense={loaded.expense}
+				refundContext={loaded.refundContext}
+			/>
+		) : (
+			<div>No expense found</div>
+		);
+	}
+
+	return (
+		<ExpenseForm
+			key={expenseId ?? 'new'}
+			refunded={loaded?.expense}
+			refundContext={loaded ? [loaded.expense, ...loaded.refundContext] : []}
+		/>
+	);
+};
+
+export default ExpenseFormPage;
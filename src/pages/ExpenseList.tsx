@@ -1,98 +1,202 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import {
-	fetchExpenses,
-	selectAllExpenses,
-	selectExpenseStatus,
-	selectExpenseError,
+	fetchExpensePage,
+	fetchMatchingExpenseIds,
+	selectExpensePage,
+	selectLastExpenseBatch,
+	selectExpenses,
 	deleteExpense,
+	bulkUpdateExpenses,
+	bulkMoveExpenses,
+	bulkDeleteExpenses,
+	undoExpenseBatch,
+	clearLastBatch,
+	BulkExpenseChanges,
+	ExpenseSort,
+	ExpenseSortField,
 } from '../store/slices/expensesSlice';
-import { selectCurrentAccount } from '../store/slices/accountsSlice';
+import {
+	selectAccounts,
+	selectCurrentAccount,
+} from '../store/slices/accountsSlice';
+import { selectUser } from '../store/slices/authSlice';
 import {
 	setCategoryFilter,
 	setDateFilter,
 	setSearchQuery,
+	setTagFilter,
+	setPaymentMethodFilter,
+	clearFilters,
 	selectFilters,
+	showNotification,
 } from '../store/slices/uiSlice';
+import { AppDispatch } from '../store';
+import {
+	matchesExpenseQuery,
+	parseExpenseQuery,
+} from '../../shared/expenseQuery';
+import { SavedViewUtils } from '../utils/savedViewUtils';
+import { PaymentMethodUtils } from '../utils/paymentMethodUtils';
+import { usePaymentMethods } from '../hooks/usePaymentMethods';
+import { DuplicateUtils } from '../utils/duplicateUtils';
+import { useMerchants } from '../hooks/useMerchants';
 
 // Components
 import LoadingScreen from '../components/common/LoadingScreen';
 import ExpenseFilters from '../components/expenses/ExpenseFilters';
 import EmptyState from '../components/common/EmptyState';
 import ConfirmDialog from '../components/common/ConfirmDialog';
+import ExpenseStatusBadge from '../components/expenses/ExpenseStatusBadge';
+import BulkActionBar from '../components/expenses/BulkActionBar';
+import SavedViewsBar from '../components/expenses/SavedViewsBar';
 
 // Types
 import { Expense } from '../types';
 
+const SORTABLE_COLUMNS: { field: ExpenseSortField; label: string }[] = [
+	{ field: 'date', label: 'Date' },
+	{ field: 'description', label: 'Description' },
+	{ field: 'category', label: 'Category' },
+	{ field: 'amountInBaseCurrency', label: 'Amount' },
+];
+
 const ExpenseList = () => {
-	const dispatch = useDispatch();
+	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
 
-	const expenses = useSelector(selectAllExpenses);
-	const status = useSelector(selectExpenseStatus);
-	const error = useSelector(selectExpenseError);
+	const page = useSelector(selectExpensePage);
 	const currentAccount = useSelector(selectCurrentAccount);
 	const filters = useSelector(selectFilters);
+	const accounts = useSelector(selectAccounts);
+	const user = useSelector(selectUser);
+	const lastBatch = useSelector(selectLastExpenseBatch);
+	const paymentMethods = PaymentMethodUtils.getSelectable(
+		usePaymentMethods(currentAccount?.id)
+	);
+	const expenses = useSelector(selectExpenses);
+	const merchants = useMerchants(currentAccount?.id);
+
+	// Counted over every loaded expense of the account, not just this page
+	const duplicateCount = useMemo(
+		() =>
+			DuplicateUtils.getPairs(
+				expenses.filter((expense) => expense.accountId === currentAccount?.id),
+				merchants
+			).length,
+		[expenses, currentAccount?.id, merchants]
+	);
 
 	const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
 	const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-	const [filteredExpenses, setFilteredExpenses] = useState<Expense[]>([]);
+	const [sort, setSort] = useState<ExpenseSort>({
+		field: 'date',
+		direction: 'desc',
+	});
+	const loadMoreRef = useRef<HTMLDivElement>(null);
+
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+	// Last row clicked, where a shift-click range starts
+	const selectionAnchorRef = useRef<string | null>(null);
+	const [isSelectingAll, setIsSelectingAll] = useState(false);
+	const [isBulkBusy, setIsBulkBusy] = useState(false);
+	const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+
+	// The search is applied to the loaded pages, so typing doesn't reload them
+	const { category, dateRange, tags, paymentMethodId } = filters;
+	const pageFilter = useMemo(
+		() =>
+			SavedViewUtils.toPageFilter({
+				category,
+				dateRange,
+				tags,
+				paymentMethodId,
+				searchQuery: '',
+			}),
+		[category, dateRange, tags, paymentMethodId]
+	);
 
-	// Load expenses when component mounts
+	// Start again from the first page when the account, sort or filters change
 	useEffect(() => {
 		if (currentAccount) {
-			dispatch(fetchExpenses(currentAccount.id));
+			dispatch(
+				fetchExpensePage({
+					accountId: currentAccount.id,
+					sort,
+					filter: pageFilter,
+					reset: true,
+				})
+			);
 		}
-	}, [dispatch, currentAccount]);
+	}, [dispatch, currentAccount, sort, pageFilter]);
 
-	// Apply filters when expenses or filters change
+	// Load the next page when the end of the list scrolls into view
 	useEffect(() => {
-		if (!expenses) return;
+		const sentinel = loadMoreRef.current;
+		if (!sentinel || !currentAccount) return;
 
-		let filtered = [...expenses];
+		const observer = new IntersectionObserver(
+			(entries) => {
+				if (entries[0].isIntersecting) {
+					dispatch(
+						fetchExpensePage({
+							accountId: currentAccount.id,
+							sort,
+							filter: pageFilter,
+						})
+					);
+				}
+			},
+			{ rootMargin: '200px' }
+		);
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [dispatch, currentAccount, sort, pageFilter, page.items.length]);
 
-		// Apply category filter
-		if (filters.category && filters.category !== 'all') {
-			filtered = filtered.filter(
-				(expense) => expense.category === filters.category
-			);
-		}
+	// Search only covers the loaded pages
+	const filteredExpenses = useMemo(() => {
+		const query = parseExpenseQuery(filters.searchQuery);
+		return page.items.filter((expense) => matchesExpenseQuery(query, expense));
+	}, [page.items, filters.searchQuery]);
 
-		// Apply date filter
-		if (filters.dateRange) {
-			const { startDate, endDate } = filters.dateRange;
-			if (startDate) {
-				filtered = filtered.filter(
-					(expense) => new Date(expense.date) >= new Date(startDate)
-				);
-			}
-			if (endDate) {
-				filtered = filtered.filter(
-					(expense) => new Date(expense.date) <= new Date(endDate)
-				);
-			}
-		}
+	// A new account or filter starts a new selection
+	useEffect(() => {
+		setSelectedIds(new Set());
+		selectionAnchorRef.current = null;
+	}, [currentAccount, pageFilter, filters.searchQuery]);
 
-		// Apply search query
-		if (filters.searchQuery) {
-			const query = filters.searchQuery.toLowerCase();
-			filtered = filtered.filter(
-				(expense) =>
-					expense.description.toLowerCase().includes(query) ||
-					expense.category.toLowerCase().includes(query) ||
-					expense.amount.toString().includes(query)
-			);
-		}
+	// Accounts the user can add expenses to
+	const moveTargets = useMemo(
+		() =>
+			accounts.filter(
+				(account) =>
+					account.id !== currentAccount?.id &&
+					account.members.some(
+						(member) =>
+							member.uid === user?.firebaseUser.uid && member.role !== 'viewer'
+					)
+			),
+		[accounts, currentAccount, user]
+	);
 
-		// Sort by date (newest first)
-		filtered.sort(
-			(a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-		);
+	const allLoadedSelected =
+		filteredExpenses.length > 0 &&
+		filteredExpenses.every((expense) => selectedIds.has(expense.id));
+
+	const hasFilters = SavedViewUtils.hasFilters(filters);
 
-		setFilteredExpenses(filtered);
-	}, [expenses, filters]);
+	const handleSort = (field: ExpenseSortField) => {
+		setSort((current) =>
+			current.field === field
+				? {
+						field,
+						direction: current.direction === 'asc' ? 'desc' : 'asc',
+				  }
+				: { field, direction: field === 'date' ? 'desc' : 'asc' }
+		);
+	};
 
 	const handleDeleteClick = (expense: Expense) => {
 		setSelectedExpense(expense);
@@ -101,28 +205,148 @@ const ExpenseList = () => {
 
 	const confirmDelete = async () => {
 		if (selectedExpense && currentAccount) {
-			await dispatch(
-				deleteExpense({
+			await dispatch(deleteExpense(selectedExpense.id));
+			setShowDeleteConfirm(false);
+			setSelectedExpense(null);
+		}
+	};
+
+	// Shift-click selects or clears every row between the last click and this one
+	const toggleSelected = (id: string, range: boolean) => {
+		const ids = filteredExpenses.map((expense) => expense.id);
+		const anchor = selectionAnchorRef.current;
+		const from = anchor ? ids.indexOf(anchor) : -1;
+		const to = ids.indexOf(id);
+		const targets =
+			range && from !== -1
+				? ids.slice(Math.min(from, to), Math.max(from, to) + 1)
+				: [id];
+
+		setSelectedIds((current) => {
+			const select = !current.has(id);
+			const next = new Set(current);
+			targets.forEach((target) =>
+				select ? next.add(target) : next.delete(target)
+			);
+			return next;
+		});
+		selectionAnchorRef.current = id;
+	};
+
+	const toggleAllLoaded = () => {
+		setSelectedIds(
+			allLoadedSelected
+				? new Set()
+				: new Set(filteredExpenses.map((expense) => expense.id))
+		);
+	};
+
+	const selectAllMatching = async () => {
+		if (!currentAccount) return;
+		try {
+			setIsSelectingAll(true);
+			const ids = await dispatch(
+				fetchMatchingExpenseIds({
 					accountId: currentAccount.id,
-					expenseId: selectedExpense.id,
+					filter: pageFilter,
+					search: filters.searchQuery,
 				})
+			).unwrap();
+			setSelectedIds(new Set(ids));
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to select expenses'
+				)
 			);
-			setShowDeleteConfirm(false);
-			setSelectedExpense(null);
+		} finally {
+			setIsSelectingAll(false);
 		}
 	};
 
-	if (status === 'loading') {
+	// Runs a bulk change; the selection is kept if it fails
+	const runBulk = async (action: () => Promise<{ description: string }>) => {
+		try {
+			setIsBulkBusy(true);
+			const { description } = await action();
+			setSelectedIds(new Set());
+			dispatch(showNotification('success', description));
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to change expenses'
+				)
+			);
+		} finally {
+			setIsBulkBusy(false);
+		}
+	};
+
+	const handleBulkUpdate = (changes: BulkExpenseChanges) =>
+		runBulk(async () => {
+			const { batch } = await dispatch(
+				bulkUpdateExpenses({ ids: Array.from(selectedIds), changes })
+			).unwrap();
+			return batch;
+		});
+
+	const handleBulkMove = (accountId: string) =>
+		runBulk(async () => {
+			const { batch } = await dispatch(
+				bulkMoveExpenses({ ids: Array.from(selectedIds), accountId })
+			).unwrap();
+			return batch;
+		});
+
+	const confirmBulkDelete = () => {
+		setShowBulkDeleteConfirm(false);
+		runBulk(async () => {
+			const { batch } = await dispatch(
+				bulkDeleteExpenses(Array.from(selectedIds))
+			).unwrap();
+			return batch;
+		});
+	};
+
+	const handleUndo = async () => {
+		try {
+			setIsBulkBusy(true);
+			const { upserted, skipped } = await dispatch(undoExpenseBatch()).unwrap();
+			dispatch(
+				skipped > 0
+					? showNotification(
+							'warning',
+							`Undid ${upserted.length} of ${
+								upserted.length + skipped
+							} expenses; the others were changed since`
+					  )
+					: showNotification('success', 'Undone')
+			);
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to undo'
+				)
+			);
+		} finally {
+			setIsBulkBusy(false);
+		}
+	};
+
+	if (page.status === 'loading' && page.items.length === 0) {
 		return <LoadingScreen />;
 	}
 
-	if (error) {
+	if (page.error && page.items.length === 0) {
 		return (
 			<div className='p-6 bg-red-50 dark:bg-red-900/20 rounded-lg'>
 				<h2 className='text-red-800 dark:text-red-200 text-lg font-semibold'>
 					Error loading expenses
 				</h2>
-				<p className='text-red-600 dark:text-red-300 mt-2'>{error}</p>
+				<p className='text-red-600 dark:text-red-300 mt-2'>{page.error}</p>
 			</div>
 		);
 	}
@@ -142,38 +366,104 @@ const ExpenseList = () => {
 		<div className='container mx-auto px-4 py-6'>
 			<div className='flex flex-col md:flex-row justify-between items-start md:items-center mb-6'>
 				<h1 className='text-2xl font-bold mb-4 md:mb-0'>Expenses</h1>
-				<button
-					onClick={() => navigate('/expenses/new')}
-					className='bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition duration-200'>
-					+ Add New Expense
-				</button>
+				<div className='flex items-center gap-4'>
+					{duplicateCount > 0 && (
+						<button
+							onClick={() => navigate('/expenses/duplicates')}
+							className='text-sm text-yellow-700 hover:text-yellow-900 dark:text-yellow-400 dark:hover:text-yellow-300'>
+							Review {duplicateCount} possible duplicate
+							{duplicateCount === 1 ? '' : 's'}
+						</button>
+					)}
+					<button
+						onClick={() => navigate('/expenses/new')}
+						className='bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition duration-200'>
+						+ Add New Expense
+					</button>
+				</div>
 			</div>
 
+			<SavedViewsBar />
+
 			<ExpenseFilters
 				onCategoryChange={(category) => dispatch(setCategoryFilter(category))}
 				onDateRangeChange={(dateRange) => dispatch(setDateFilter(dateRange))}
 				onSearchChange={(query) => dispatch(setSearchQuery(query))}
+				onTagsChange={(tags) => dispatch(setTagFilter(tags))}
+				onPaymentMethodChange={(paymentMethodId) =>
+					dispatch(setPaymentMethodFilter(paymentMethodId))
+				}
 				selectedCategory={filters.category}
 				selectedDateRange={filters.dateRange}
 				searchQuery={filters.searchQuery}
+				selectedTags={filters.tags}
+				selectedPaymentMethodId={filters.paymentMethodId}
 			/>
 
-			{filteredExpenses.length === 0 ? (
+			{lastBatch?.accountId === currentAccount.id && (
+				<div className='flex items-center justify-between p-4 mb-4 bg-gray-100 dark:bg-gray-700 rounded-lg'>
+					<span className='text-sm text-gray-700 dark:text-gray-200'>
+						{lastBatch.description}
+					</span>
+					<div className='flex space-x-4'>
+						<button
+							onClick={handleUndo}
+							disabled={isBulkBusy}
+							className='text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50'>
+							Undo
+						</button>
+						<button
+							onClick={() => dispatch(clearLastBatch())}
+							disabled={isBulkBusy}
+							className='text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50'>
+							Dismiss
+						</button>
+					</div>
+				</div>
+			)}
+
+			{selectedIds.size > 0 && (
+				<BulkActionBar
+					selectedCount={selectedIds.size}
+					categories={currentAccount.settings.categories}
+					paymentMethods={paymentMethods}
+					moveTargets={moveTargets}
+					busy={isBulkBusy}
+					onUpdate={handleBulkUpdate}
+					onMove={handleBulkMove}
+					onDelete={() => setShowBulkDeleteConfirm(true)}
+					onClearSelection={() => setSelectedIds(new Set())}
+				/>
+			)}
+
+			{allLoadedSelected && page.hasMore && (
+				<div className='mb-4 text-sm text-gray-600 dark:text-gray-400'>
+					All {filteredExpenses.length} loaded expenses are selected.{' '}
+					<button
+						onClick={selectAllMatching}
+						disabled={isSelectingAll}
+						className='font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50'>
+						{isSelectingAll
+							? 'Selecting...'
+							: 'Select every expense matching the filters'}
+					</button>
+				</div>
+			)}
+
+			{filteredExpenses.length === 0 && !page.hasMore ? (
 				<EmptyState
 					title='No Expenses Found'
 					description={
-						expenses.length === 0
+						!hasFilters
 							? "You don't have any expenses yet. Add your first expense to get started."
 							: 'No expenses match your current filters. Try adjusting your search criteria.'
 					}
-					actionText={expenses.length === 0 ? 'Add Expense' : 'Clear Filters'}
+					actionText={!hasFilters ? 'Add Expense' : 'Clear Filters'}
 					onAction={() => {
-						if (expenses.length === 0) {
+						if (!hasFilters) {
 							navigate('/expenses/new');
 						} else {
-							dispatch(setCategoryFilter('all'));
-							dispatch(setDateFilter(null));
-							dispatch(setSearchQuery(''));
+							dispatch(clearFilters());
 						}
 					}}
 				/>
@@ -183,18 +473,38 @@ const ExpenseList = () => {
 						<table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
 							<thead className='bg-gray-50 dark:bg-gray-700'>
 								<tr>
-									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
-										Date
-									</th>
-									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
-										Description
-									</th>
-									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
-										Category
-									</th>
-									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
-										Amount
+									<th className='pl-6 py-3 w-4'>
+										<input
+											type='checkbox'
+											aria-label='Select all loaded expenses'
+											checked={allLoadedSelected}
+											onChange={toggleAllLoaded}
+											className='rounded border-gray-300 dark:border-gray-600'
+										/>
 									</th>
+									{SORTABLE_COLUMNS.map((column) => (
+										<th
+											key={column.field}
+											aria-sort={
+												sort.field === column.field
+													? sort.direction === 'asc'
+														? 'ascending'
+														: 'descending'
+													: 'none'
+											}
+											className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+											<button
+												onClick={() => handleSort(column.field)}
+												className='inline-flex items-center uppercase tracking-wider hover:text-gray-700 dark:hover:text-gray-100'>
+												{column.label}
+												{sort.field === column.field && (
+													<span className='ml-1'>
+														{sort.direction === 'asc' ? '▲' : '▼'}
+													</span>
+												)}
+											</button>
+										</th>
+									))}
 									<th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
 										Actions
 									</th>
@@ -206,11 +516,31 @@ const ExpenseList = () => {
 										key={expense.id}
 										className='hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer'
 										onClick={() => navigate(`/expenses/${expense.id}`)}>
+										<td
+											className='pl-6 py-4 w-4'
+											onClick={(e) => {
+												e.stopPropagation();
+												toggleSelected(expense.id, e.shiftKey);
+											}}>
+											<input
+												type='checkbox'
+												aria-label={`Select ${expense.description}`}
+												checked={selectedIds.has(expense.id)}
+												readOnly
+												className='rounded border-gray-300 dark:border-gray-600'
+											/>
+										</td>
 										<td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
 											{format(new Date(expense.date), 'MMM d, yyyy')}
 										</td>
 										<td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
-											{expense.description}
+											{expense.description}{' '}
+											{expense.amount < 0 && (
+												<span className='px-2 py-0.5 mr-1 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-800/30 dark:text-green-300'>
+													Refund
+												</span>
+											)}
+											<ExpenseStatusBadge expense={expense} />
 										</td>
 										<td className='px-6 py-4 whitespace-nowrap text-sm'>
 											<span
@@ -256,6 +586,27 @@ const ExpenseList = () => {
 							</tbody>
 						</table>
 					</div>
+
+					{/* Reaching this loads the next page */}
+					<div
+						ref={loadMoreRef}
+						className='py-4 text-center text-sm'>
+						{page.status === 'loading' && (
+							<span className='text-gray-500 dark:text-gray-400'>
+								Loading more expenses...
+							</span>
+						)}
+						{page.status === 'failed' && (
+							<span className='text-red-600 dark:text-red-400'>
+								{page.error}
+							</span>
+						)}
+						{!page.hasMore && page.items.length > 0 && (
+							<span className='text-gray-500 dark:text-gray-400'>
+								All expenses loaded
+							</span>
+						)}
+					</div>
 				</div>
 			)}
 
@@ -263,13 +614,25 @@ const ExpenseList = () => {
 			<ConfirmDialog
 				isOpen={showDeleteConfirm}
 				title='Delete Expense'
-				message={`Are you sure you want to delete the expense "${selectedExpense?.description}"? This action cannot be undone.`}
+				message={`Are you sure you want to delete the expense "${selectedExpense?.description}"? It can be restored from the Trash for 30 days.`}
 				confirmText='Delete'
 				cancelText='Cancel'
 				confirmButtonClass='bg-red-600 hover:bg-red-700'
 				onConfirm={confirmDelete}
 				onCancel={() => setShowDeleteConfirm(false)}
 			/>
+
+			<ConfirmDialog
+				isOpen={showBulkDeleteConfirm}
+				onClose={() => setShowBulkDeleteConfirm(false)}
+				onConfirm={confirmBulkDelete}
+				title='Delete Expenses'
+				message={`Delete ${selectedIds.size} selected expense${
+					selectedIds.size === 1 ? '' : 's'
+				}? They can be restored from the Trash for 30 days.`}
+				confirmText='Delete'
+				variant='destructive'
+			/>
 		</div>
 	);
 };
@@ -294,7 +657,12 @@ const CurrencyDisplay = ({
 		currency: currency || baseCurrency,
 	});
 
-	return <span>{formatter.format(amount)}</span>;
+	// Refunds and credits are negative
+	return (
+		<span className={amount < 0 ? 'text-green-600 dark:text-green-400' : ''}>
+			{formatter.format(amount)}
+		</span>
+	);
 };
 
 // Helper function to get color for category
@@ -2,8 +2,10 @@ import React, { useEffect, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import {
-	fetchExpenses,
+	fetchRecentExpenses,
+	fetchExpenseTotals,
 	selectAllExpenses,
+	selectExpenseTotals,
 	selectExpensesStatus,
 } from '../store/slices/expensesSlice';
 import {
@@ -12,6 +14,10 @@ import {
 	selectBudgetStatus,
 } from '../store/slices/budgetsSlice';
 import { selectCurrentAccount } from '../store/slices/accountsSlice';
+import { AppDispatch } from '../store';
+import { BudgetUtils } from '../utils/budgetUtils';
+import { MerchantUtils } from '../utils/merchantUtils';
+import { useMerchants } from '../hooks/useMerchants';
 
 // Components
 import LoadingScreen from '../components/common/LoadingScreen';
@@ -19,50 +25,71 @@ import EmptyState from '../components/common/EmptyState';
 import ExpenseChart from '../components/insights/ExpenseChart';
 import BudgetOverviewChart from '../components/insights/BudgetOverviewChart';
 import SpendingTrendsChart from '../components/insights/SpendingTrendsChart';
+import TagSpendChart from '../components/insights/TagSpendChart';
+import PaymentMethodChart from '../components/insights/PaymentMethodChart';
+import MerchantLeaderboard from '../components/insights/MerchantLeaderboard';
 import InsightCard from '../components/insights/InsightsCard';
 
 // Types
 import { Expense, Budget } from '../types';
+import { Merchant } from '../models/types';
+
+interface Insight {
+	id: string;
+	type: 'success' | 'warning' | 'info' | 'tip';
+	title: string;
+	message: string;
+	actionText?: string;
+	action?: () => void;
+}
 
 const Insights = () => {
-	const dispatch = useDispatch();
+	const dispatch = useDispatch<AppDispatch>();
 	const navigate = useNavigate();
 
 	const expenses = useSelector(selectAllExpenses);
 	const expensesStatus = useSelector(selectExpensesStatus);
 	const budgets = useSelector(selectBudgets);
 	const budgetStatus = useSelector(selectBudgetStatus);
+	const totals = useSelector(selectExpenseTotals);
 	const currentAccount = useSelector(selectCurrentAccount);
+	const merchants = useMerchants(currentAccount?.id);
 
-	const [insights, setInsights] = useState<
-		Array<{
-			id: string;
-			type: 'success' | 'warning' | 'info' | 'tip';
-			title: string;
-			message: string;
-			actionText?: string;
-			action?: () => void;
-		}>
-	>([]);
+	const [insights, setInsights] = useState<Insight[]>([]);
 
 	const [timeRange, setTimeRange] = useState<'1m' | '3m' | '6m' | '1y'>('3m');
 
 	// Load data when component mounts
 	useEffect(() => {
 		if (currentAccount) {
-			dispatch(fetchExpenses(currentAccount.id));
+			dispatch(fetchRecentExpenses(currentAccount.id));
 			dispatch(fetchBudgets(currentAccount.id));
 		}
 	}, [dispatch, currentAccount]);
 
+	// Budget spending is totalled by the database, as budget periods can
+	// start before the loaded expenses
+	const budgetsKey = BudgetUtils.getSpendingKey(budgets);
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchExpenseTotals(currentAccount.id));
+		}
+	}, [dispatch, currentAccount, budgetsKey]);
+	const budgetSpent =
+		totals && totals.accountId === currentAccount?.id
+			? totals.budgetSpent
+			: null;
+
 	// Generate insights based on expenses and budgets
 	useEffect(() => {
 		if (!expenses || !budgets || expenses.length === 0) return;
 
-		const newInsights = [];
+		const newInsights: Insight[] = [];
 
 		// 1. Check for over-budget categories
-		const overBudgetCategories = getOverBudgetCategories(expenses, budgets);
+		const overBudgetCategories = budgetSpent
+			? getOverBudgetCategories(budgets, budgetSpent)
+			: [];
 		if (overBudgetCategories.length > 0) {
 			newInsights.push({
 				id: 'over-budget',
@@ -96,7 +123,18 @@ const Insights = () => {
 			});
 		}
 
-		// 3. Savings opportunities
+		// 3. Where most of this month's spending went
+		const topMerchant = getTopMerchant(expenses, merchants);
+		if (topMerchant) {
+			newInsights.push({
+				id: 'top-merchant',
+				type: 'info',
+				title: 'Top Merchant',
+				message: `${topMerchant.name} is where you've spent the most this month, across ${topMerchant.count} expenses (${topMerchant.percentage}% of the month's total).`,
+			});
+		}
+
+		// 4. Savings opportunities
 		const savingsOpportunities = findSavingsOpportunities(expenses);
 		if (savingsOpportunities.length > 0) {
 			savingsOpportunities.forEach((opportunity, index) => {
@@ -109,7 +147,7 @@ const Insights = () => {
 			});
 		}
 
-		// 4. Budget recommendation if no budgets
+		// 5. Budget recommendation if no budgets
 		if (budgets.length === 0) {
 			newInsights.push({
 				id: 'create-budget',
@@ -124,7 +162,7 @@ const Insights = () => {
 
 		// Set the insights
 		setInsights(newInsights);
-	}, [expenses, budgets, navigate]);
+	}, [expenses, budgets, budgetSpent, merchants, navigate]);
 
 	// Filter expenses based on selected time range
 	const getFilteredExpenses = (): Expense[] => {
@@ -227,7 +265,10 @@ const Insights = () => {
 					<div className='bg-white dark:bg-gray-800 rounded-lg shadow p-4'>
 						<h2 className='text-lg font-semibold mb-4'>Budget Overview</h2>
 						{budgets && budgets.length > 0 ? (
-							<BudgetOverviewChart budgets={budgets} />
+							<BudgetOverviewChart
+								budgets={budgets}
+								budgetSpent={budgetSpent || {}}
+							/>
 						) : (
 							<div className='flex flex-col items-center justify-center py-8'>
 								<p className='text-gray-500 dark:text-gray-400 text-center mb-4'>
@@ -248,6 +289,38 @@ const Insights = () => {
 						<h2 className='text-lg font-semibold mb-4'>Spending Trends</h2>
 						<SpendingTrendsChart expenses={filteredExpenses} />
 					</div>
+
+					{/* Spending by Tag */}
+					<div className='bg-white dark:bg-gray-800 rounded-lg shadow p-4'>
+						<h2 className='text-lg font-semibold mb-4'>Spending by Tag</h2>
+						<TagSpendChart
+							expenses={filteredExpenses}
+							currency={currentAccount.baseCurrency}
+						/>
+					</div>
+
+					{/* Spending by Payment Method */}
+					<div className='bg-white dark:bg-gray-800 rounded-lg shadow p-4'>
+						<h2 className='text-lg font-semibold mb-4'>
+							Spending by Payment Method
+						</h2>
+						<PaymentMethodChart
+							accountId={currentAccount.id}
+							expenses={filteredExpenses}
+							currency={currentAccount.baseCurrency}
+						/>
+					</div>
+
+					{/* Top Merchants */}
+					<div className='bg-white dark:bg-gray-800 rounded-lg shadow p-4'>
+						<h2 className='text-lg font-semibold mb-4'>Top Merchants</h2>
+						<MerchantLeaderboard
+							accountId={currentAccount.id}
+							expenses={filteredExpenses}
+							allExpenses={expenses}
+							currency={currentAccount.baseCurrency}
+						/>
+					</div>
 				</div>
 
 				{/* Right Column - AI Insights */}
@@ -287,7 +360,7 @@ const Insights = () => {
 								<span className='font-medium text-gray-900 dark:text-gray-100'>
 									{formatCurrency(
 										filteredExpenses.reduce(
-											(sum, expense) => sum + expense.amount,
+											(sum, expense) => sum + expense.amountInBaseCurrency,
 											0
 										),
 										currentAccount.baseCurrency
@@ -312,7 +385,9 @@ const Insights = () => {
 								<span className='font-medium text-gray-900 dark:text-gray-100'>
 									{formatCurrency(
 										Math.max(
-											...filteredExpenses.map((expense) => expense.amount)
+											...filteredExpenses.map(
+												(expense) => expense.amountInBaseCurrency
+											)
 										),
 										currentAccount.baseCurrency
 									)}
@@ -338,8 +413,8 @@ const Insights = () => {
 
 // Check which categories are over budget
 const getOverBudgetCategories = (
-	expenses: Expense[],
-	budgets: Budget[]
+	budgets: Budget[],
+	budgetSpent: Record<string, number>
 ): string[] => {
 	const overBudgetCategories: string[] = [];
 
@@ -349,28 +424,8 @@ const getOverBudgetCategories = (
 	);
 
 	activeBudgets.forEach((budget) => {
-		let categoryExpenses = 0;
-
-		// For "All" category budget, sum all expenses within budget period
-		if (budget.category === 'All') {
-			categoryExpenses = expenses
-				.filter(
-					(expense) =>
-						new Date(expense.date) >= new Date(budget.startDate) &&
-						new Date(expense.date) <= new Date(budget.endDate)
-				)
-				.reduce((sum, expense) => sum + expense.amount, 0);
-		} else {
-			// For specific category, sum expenses in that category within budget period
-			categoryExpenses = expenses
-				.filter(
-					(expense) =>
-						expense.category === budget.category &&
-						new Date(expense.date) >= new Date(budget.startDate) &&
-						new Date(expense.date) <= new Date(budget.endDate)
-				)
-				.reduce((sum, expense) => sum + expense.amount, 0);
-		}
+		// "All" category budgets count every expense within the budget period
+		const categoryExpenses = budgetSpent[budget.id] || 0;
 
 		// Check if over budget
 		if (categoryExpenses > budget.amount) {
@@ -383,6 +438,29 @@ const getOverBudgetCategories = (
 	return overBudgetCategories;
 };
 
+// Merchant with the most spending this month, when it's a notable share
+const getTopMerchant = (
+	expenses: Expense[],
+	merchants: Merchant[]
+): { name: string; count: number; percentage: number } | null => {
+	const today = new Date();
+	const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+	const monthExpenses = expenses.filter(
+		(expense) => new Date(expense.date) >= monthStart
+	);
+	const [top] = MerchantUtils.getLeaderboard(monthExpenses, merchants);
+	const total = monthExpenses.reduce(
+		(sum, expense) => sum + expense.amountInBaseCurrency,
+		0
+	);
+	if (!top || top.count < 3 || total <= 0) return null;
+
+	const percentage = Math.round((top.amount / total) * 100);
+	return percentage >= 20
+		? { name: top.name, count: top.count, percentage }
+		: null;
+};
+
 // Find savings opportunities based on spending patterns
 const findSavingsOpportunities = (expenses: Expense[]): string[] => {
 	const opportunities: string[] = [];
@@ -406,7 +484,8 @@ const findSavingsOpportunities = (expenses: Expense[]): string[] => {
 		const date = new Date(expense.date);
 		if (date >= threeMonthsAgo) {
 			categoryMonthlyAvg[expense.category] =
-				(categoryMonthlyAvg[expense.category] || 0) + expense.amount;
+				(categoryMonthlyAvg[expense.category] || 0) +
+				expense.amountInBaseCurrency;
 			categoryCount[expense.category] =
 				(categoryCount[expense.category] || 0) + 1;
 		}
@@ -472,7 +551,7 @@ const calculateAverageMonthlySpending = (expenses: Expense[]): number => {
 
 	// Calculate total spending
 	const totalSpending = expenses.reduce(
-		(sum, expense) => sum + expense.amount,
+		(sum, expense) => sum + expense.amountInBaseCurrency,
 		0
 	);
 
@@ -523,12 +602,14 @@ const analyzeSpendingTrends = (
 
 	currentMonthExpenses.forEach((expense) => {
 		currentMonthByCategory[expense.category] =
-			(currentMonthByCategory[expense.category] || 0) + expense.amount;
+			(currentMonthByCategory[expense.category] || 0) +
+			expense.amountInBaseCurrency;
 	});
 
 	lastMonthExpenses.forEach((expense) => {
 		lastMonthByCategory[expense.category] =
-			(lastMonthByCategory[expense.category] || 0) + expense.amount;
+			(lastMonthByCategory[expense.category] || 0) +
+			expense.amountInBaseCurrency;
 	});
 
 	// Find unusual increases (>25%)
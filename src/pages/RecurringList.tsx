@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppDispatch } from '../store';
+import {
+	fetchRecurringExpenses,
+	updateRecurringExpense,
+	setRecurringExpenseActive,
+	deleteRecurringExpense,
+	selectRecurringExpenses,
+	selectRecurringStatus,
+	selectRecurringError,
+} from '../store/slices/recurringSlice';
+import { selectCurrentAccount } from '../store/slices/accountsSlice';
+import { addNotification } from '../store/slices/uiSlice';
+import { RecurrenceUtils } from '../utils/recurrenceUtils';
+
+// Components
+import LoadingScreen from '../components/common/LoadingScreen';
+import EmptyState from '../components/common/EmptyState';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import RecurringExpenseForm, {
+	RecurringExpenseFormValues,
+} from '../components/recurring/RecurringExpenseForm';
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+} from '../components/ui/dialog';
+
+// Types
+import { RecurringExpense } from '../models/types';
+
+const RecurringList = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const navigate = useNavigate();
+
+	const templates = useSelector(selectRecurringExpenses);
+	const status = useSelector(selectRecurringStatus);
+	const error = useSelector(selectRecurringError);
+	const currentAccount = useSelector(selectCurrentAccount);
+
+	const [editingTemplate, setEditingTemplate] =
+		useState<RecurringExpense | null>(null);
+	const [templateToDelete, setTemplateToDelete] =
+		useState<RecurringExpense | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+
+	// Load templates when component mounts
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchRecurringExpenses(currentAccount.id));
+		}
+	}, [dispatch, currentAccount]);
+
+	const handleToggleActive = async (template: RecurringExpense) => {
+		try {
+			await dispatch(
+				setRecurringExpenseActive({
+					id: template.id,
+					active: !template.active,
+				})
+			).unwrap();
+
+			dispatch(
+				addNotification({
+					type: 'success',
+					message: template.active
+						? `Paused "${template.description}"`
+						: `Resumed "${template.description}"`,
+				})
+			);
+		} catch (error) {
+			dispatch(
+				addNotification({
+					type: 'error',
+					message: 'Failed to update recurring expense',
+				})
+			);
+		}
+	};
+
+	const handleSave = async (values: RecurringExpenseFormValues) => {
+		if (!editingTemplate) return;
+
+		setIsSaving(true);
+		try {
+			await dispatch(
+				updateRecurringExpense({ id: editingTemplate.id, updates: values })
+			).unwrap();
+
+			dispatch(
+				addNotification({
+					type: 'success',
+					message: 'Recurring expense updated successfully',
+				})
+			);
+			setEditingTemplate(null);
+		} catch (error) {
+			dispatch(
+				addNotification({
+					type: 'error',
+					message: 'Failed to update recurring expense',
+				})
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const confirmDelete = async () => {
+		if (!templateToDelete) return;
+
+		try {
+			await dispatch(deleteRecurringExpense(templateToDelete.id)).unwrap();
+			dispatch(
+				addNotification({
+					type: 'success',
+					message: 'Recurring expense deleted',
+				})
+			);
+		} catch (error) {
+			dispatch(
+				addNotification({
+					type: 'error',
+					message: 'Failed to delete recurring expense',
+				})
+			);
+		} finally {
+			setTemplateToDelete(null);
+		}
+	};
+
+	if (status === 'loading' && templates.length === 0) {
+		return <LoadingScreen />;
+	}
+
+	if (!currentAccount) {
+		return (
+			<EmptyState
+				title='No Account Selected'
+				description='Please select or create an account to view recurring expenses.'
+				actionText='Go to Accounts'
+				onAction={() => navigate('/accounts')}
+			/>
+		);
+	}
+
+	if (error && templates.length === 0) {
+		return (
+			<div className='p-6 bg-red-50 dark:bg-red-900/20 rounded-lg'>
+				<h2 className='text-red-800 dark:text-red-200 text-lg font-semibold'>
+					Error loading recurring expenses
+				</h2>
+				<p className='text-red-600 dark:text-red-300 mt-2'>{error}</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className='container mx-auto px-4 py-6'>
+			<div className='flex flex-col md:flex-row justify-between items-start md:items-center mb-6'>
+				<div className='mb-4 md:mb-0'>
+					<h1 className='text-2xl font-bold'>Recurring Expenses</h1>
+					<p className='text-sm text-gray-500 dark:text-gray-400 mt-1'>
+						Due expenses are added automatically each time the account is
+						opened.
+					</p>
+				</div>
+				<button
+					onClick={() => navigate('/expenses/new')}
+					className='bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition duration-200'>
+					+ Add Recurring Expense
+				</button>
+			</div>
+
+			{templates.length === 0 ? (
+				<EmptyState
+					title='No Recurring Expenses'
+					description='Mark an expense as recurring when adding it to have it generated automatically.'
+					actionText='Add Expense'
+					onAction={() => navigate('/expenses/new')}
+				/>
+			) : (
+				<div className='bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden'>
+					<div className='overflow-x-auto'>
+						<table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+							<thead className='bg-gray-50 dark:bg-gray-700'>
+								<tr>
+									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+										Description
+									</th>
+									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+										Amount
+									</th>
+									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+										Schedule
+									</th>
+									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+										Next Due
+									</th>
+									<th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+										Status
+									</th>
+									<th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider'>
+										Actions
+									</th>
+								</tr>
+							</thead>
+							<tbody className='bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700'>
+								{templates.map((template) => (
+									<tr key={template.id}>
+										<td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+											<div>{template.description}</div>
+											<div className='text-xs text-gray-500 dark:text-gray-400'>
+												{template.category}
+											</div>
+										</td>
+										<td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+											{formatCurrency(template.amount, template.currency)}
+										</td>
+										<td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+											{RecurrenceUtils.describeSchedule(
+												template.frequency,
+												template.interval
+											)}
+											{template.endDate && (
+												<div className='text-xs text-gray-500 dark:text-gray-400'>
+													Until {format(template.endDate, 'MMM d, yyyy')}
+												</div>
+											)}
+										</td>
+										<td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+											{template.nextDue
+												? format(template.nextDue, 'MMM d, yyyy')
+												: '—'}
+										</td>
+										<td className='px-6 py-4 whitespace-nowrap text-sm'>
+											<StatusBadge template={template} />
+										</td>
+										<td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium'>
+											<button
+												onClick={() => setEditingTemplate(template)}
+												className='text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 mr-4'>
+												Edit
+											</button>
+											<button
+												onClick={() => handleToggleActive(template)}
+												className='text-yellow-600 hover:text-yellow-900 dark:text-yellow-400 dark:hover:text-yellow-300 mr-4'>
+												{template.active ? 'Pause' : 'Resume'}
+											</button>
+											<button
+												onClick={() => setTemplateToDelete(template)}
+												className='text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300'>
+												Delete
+											</button>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</div>
+			)}
+
+			{/* Edit Dialog */}
+			<Dialog
+				open={!!editingTemplate}
+				onOpenChange={(open) => !open && setEditingTemplate(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Edit Recurring Expense</DialogTitle>
+					</DialogHeader>
+					{editingTemplate && (
+						<RecurringExpenseForm
+							template={editingTemplate}
+							categories={currentAccount.settings?.categories || []}
+							isSaving={isSaving}
+							onSubmit={handleSave}
+							onCancel={() => setEditingTemplate(null)}
+						/>
+					)}
+				</DialogContent>
+			</Dialog>
+
+			{/* Confirmation Dialog for Delete */}
+			<ConfirmDialog
+				isOpen={!!templateToDelete}
+				onClose={() => setTemplateToDelete(null)}
+				onConfirm={confirmDelete}
+				title='Delete Recurring Expense'
+				message={`Stop generating "${templateToDelete?.description}"? Expenses that were already added are kept.`}
+				confirmText='Delete'
+				variant='destructive'
+			/>
+		</div>
+	);
+};
+
+// Helper Components
+
+const StatusBadge = ({ template }: { template: RecurringExpense }) => {
+	if (!template.active) {
+		return (
+			<span className='px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'>
+				Paused
+			</span>
+		);
+	}
+
+	if (!template.nextDue) {
+		return (
+			<span className='px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'>
+				Ended
+			</span>
+		);
+	}
+
+	return (
+		<span className='px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'>
+			Active
+		</span>
+	);
+};
+
+// Format currency
+const formatCurrency = (amount: number, currency: string): string => {
+	return new Intl.NumberFormat('en-US', {
+		style: 'currency',
+		currency: currency,
+	}).format(amount);
+};
+
+export default RecurringList;
@@ -27,6 +27,12 @@ import {
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import SchemaMigrationCard from '@/components/accounts/SchemaMigrationCard';
+import ApprovalPolicyCard from '@/components/accounts/ApprovalPolicyCard';
+import TagManagerCard from '@/components/accounts/TagManagerCard';
+import PaymentMethodsCard from '@/components/accounts/PaymentMethodsCard';
+import CategoryRulesCard from '@/components/accounts/CategoryRulesCard';
+import MerchantsCard from '@/components/accounts/MerchantsCard';
 
 export const Settings: React.FC = () => {
 	const { user, updateProfile } = useAuth();
@@ -212,6 +218,12 @@ export const Settings: React.FC = () => {
 				<div className='space-y-6'>
 					{renderNotificationSection()}
 					{renderSecuritySection()}
+					<ApprovalPolicyCard />
+					<TagManagerCard />
+					<PaymentMethodsCard />
+					<MerchantsCard />
+					<CategoryRulesCard />
+					<SchemaMigrationCard />
 				</div>
 			</div>
 
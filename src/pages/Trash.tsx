@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import {
+	fetchTrash,
+	fetchDeletedAccounts,
+	restoreTrashItem,
+	permanentlyDeleteTrashItem,
+	selectTrashItems,
+	selectDeletedAccounts,
+	selectTrashStatus,
+	selectTrashError,
+} from '../store/slices/trashSlice';
+import {
+	fetchUserAccounts,
+	selectCurrentAccount,
+} from '../store/slices/accountsSlice';
+import { selectUser } from '../store/slices/authSlice';
+import { showNotification } from '../store/slices/uiSlice';
+import { AppDispatch } from '../store';
+import { DateUtils } from '../utils/dateUtils';
+import { TrashItem } from '../models/types';
+
+// Components
+import LoadingScreen from '../components/common/LoadingScreen';
+import EmptyState from '../components/common/EmptyState';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+
+const KIND_LABELS: Record<TrashItem['collection'], string> = {
+	expenses: 'Expense',
+	budgets: 'Budget',
+	accounts: 'Account',
+};
+
+const Trash = () => {
+	const dispatch = useDispatch<AppDispatch>();
+	const navigate = useNavigate();
+
+	const items = useSelector(selectTrashItems);
+	const deletedAccounts = useSelector(selectDeletedAccounts);
+	const status = useSelector(selectTrashStatus);
+	const error = useSelector(selectTrashError);
+	const currentAccount = useSelector(selectCurrentAccount);
+	const user = useSelector(selectUser);
+
+	const [busyId, setBusyId] = useState<string | null>(null);
+	const [itemToDelete, setItemToDelete] = useState<TrashItem | null>(null);
+
+	const uid = user?.firebaseUser.uid;
+	const isAdmin = !!currentAccount?.members.some(
+		(member) => member.uid === uid && member.role === 'admin'
+	);
+
+	// Load the trash when component mounts
+	useEffect(() => {
+		if (currentAccount) {
+			dispatch(fetchTrash(currentAccount.id));
+		}
+	}, [dispatch, currentAccount]);
+
+	useEffect(() => {
+		if (uid) {
+			dispatch(fetchDeletedAccounts(uid));
+		}
+	}, [dispatch, uid]);
+
+	const handleRestore = async (item: TrashItem) => {
+		try {
+			setBusyId(item.id);
+			await dispatch(restoreTrashItem(item)).unwrap();
+			if (item.collection === 'accounts' && uid) {
+				dispatch(fetchUserAccounts(uid));
+			}
+			dispatch(
+				showNotification('success', `${KIND_LABELS[item.collection]} restored`)
+			);
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to restore item'
+				)
+			);
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	const confirmPermanentDelete = async () => {
+		if (!itemToDelete) return;
+
+		try {
+			setBusyId(itemToDelete.id);
+			await dispatch(permanentlyDeleteTrashItem(itemToDelete)).unwrap();
+			dispatch(
+				showNotification(
+					'success',
+					`${KIND_LABELS[itemToDelete.collection]} permanently deleted`
+				)
+			);
+		} catch (error: any) {
+			dispatch(
+				showNotification(
+					'error',
+					typeof error === 'string' ? error : 'Failed to delete item'
+				)
+			);
+		} finally {
+			setBusyId(null);
+			setItemToDelete(null);
+		}
+	};
+
+	const renderItem = (item: TrashItem, canDelete: boolean) => {
+		const daysLeft = Math.max(
+			DateUtils.daysBetween(new Date(), item.purgeAt),
+			0
+		);
+
+		return (
+			<li
+				key={item.id}
+				className='px-6 py-4 flex flex-col md:flex-row md:items-center md:justify-between'>
+				<div>
+					<div className='flex items-center space-x-2'>
+						<span className='text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400'>
+							{KIND_LABELS[item.collection]}
+						</span>
+						<span className='font-medium text-gray-900 dark:text-gray-100'>
+							{item.label || 'Untitled'}
+						</span>
+					</div>
+					<p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+						Deleted by {item.deletedBy.displayName || 'Unknown member'} on{' '}
+						{DateUtils.formatDate(item.deletedAt, 'MMM d, yyyy')} ·{' '}
+						{daysLeft === 0
+							? 'Deleted for good today'
+							: `Deleted for good in ${daysLeft} ${
+									daysLeft === 1 ? 'day' : 'days'
+							  }`}
+					</p>
+				</div>
+
+				<div className='flex space-x-2 mt-3 md:mt-0'>
+					<button
+						onClick={() => handleRestore(item)}
+						disabled={busyId !== null}
+						className='px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition duration-200 disabled:opacity-50'>
+						{busyId === item.id ? 'Working...' : 'Restore'}
+					</button>
+					{canDelete && (
+						<button
+							onClick={() => setItemToDelete(item)}
+							disabled={busyId !== null}
+							className='px-3 py-1 text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50'>
+							Delete permanently
+						</button>
+					)}
+				</div>
+			</li>
+		);
+	};
+
+	if (status === 'loading') {
+		return <LoadingScreen />;
+	}
+
+	if (!currentAccount) {
+		return (
+			<EmptyState
+				title='No Account Selected'
+				description='Please select or create an account to view its trash.'
+				actionText='Go to Accounts'
+				onAction={() => navigate('/accounts')}
+			/>
+		);
+	}
+
+	return (
+		<div className='container mx-auto px-4 py-6'>
+			<div className='mb-6'>
+				<h1 className='text-2xl font-bold'>Trash</h1>
+				<p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+					Deleted items can be restored until they are deleted for good.
+				</p>
+			</div>
+
+			{error && (
+				<div className='p-4 mb-6 bg-red-50 dark:bg-red-900/20 rounded-lg'>
+					<p className='text-red-600 dark:text-red-300'>{error}</p>
+				</div>
+			)}
+
+			{items.length > 0 ? (
+				<ul className='bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700'>
+					{items.map((item) => renderItem(item, isAdmin))}
+				</ul>
+			) : (
+				!error && (
+					<EmptyState
+						title='The Trash Is Empty'
+						description={`Expenses and budgets deleted from ${currentAccount.name} show up here.`}
+						compact
+					/>
+				)
+			)}
+
+			{deletedAccounts.length > 0 && (
+				<div className='mt-8'>
+					<h2 className='text-lg font-semibold mb-4'>Deleted Accounts</h2>
+					<ul className='bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700'>
+						{deletedAccounts.map((item) => renderItem(item, true))}
+					</ul>
+				</div>
+			)}
+
+			{/* Confirmation Dialog for Permanent Delete */}
+			<ConfirmDialog
+				isOpen={!!itemToDelete}
+				onClose={() => setItemToDelete(null)}
+				onConfirm={confirmPermanentDelete}
+				title='Delete Permanently'
+				message={
+					itemToDelete?.collection === 'accounts'
+						? `Delete the account "${itemToDelete.label}" and all of its expenses, budgets and receipts? This action cannot be undone.`
+						: `Delete "${itemToDelete?.label}" and its receipts? This action cannot be undone.`
+				}
+				confirmText='Delete'
+				variant='destructive'
+			/>
+		</div>
+	);
+};
+
+export default Trash;
@@ -1,7 +1,13 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
-import { User as FirebaseUser } from 'firebase/auth';
-import { User } from '../models/types';
+import { Expense, User } from '../models/types';
+import {
+	convertDocuments,
+	toAccount,
+	toBudget,
+	toExpense,
+} from '../models/converters';
 import { firebaseService } from './firebase';
+import { AuthUser } from './storage';
 
 // Define interfaces for API responses and request payloads
 export interface ApiErrorResponse {
@@ -14,6 +20,15 @@ export interface PaginationParams {
 	limit?: number;
 	sortBy?: string;
 	sortOrder?: 'asc' | 'desc';
+	// X-Next-Cursor of the previous page; takes precedence over page
+	cursor?: string;
+}
+
+export interface ExpensePage {
+	expenses: Expense[];
+	// Absent on the last page
+	nextCursor?: string;
+	total: number;
 }
 
 export interface FinancialInsightsParams extends PaginationParams {
@@ -75,7 +90,7 @@ class ApiService {
 	}
 
 	// Get current authenticated user
-	private async getCurrentUser(): Promise<FirebaseUser | null> {
+	private async getCurrentUser(): Promise<AuthUser | null> {
 		return new Promise((resolve, reject) => {
 			const unsubscribe = firebaseService.onAuthStateChange((user) => {
 				unsubscribe();
@@ -112,7 +127,7 @@ class ApiService {
 	async getExpenses(params?: PaginationParams) {
 		try {
 			const response = await this.api.get('/expenses', { params });
-			return response.data;
+			return convertDocuments(response.data, toExpense);
 		} catch (error) {
 			throw error;
 		}
@@ -121,6 +136,15 @@ class ApiService {
 	async getExpense(expenseId: string) {
 		try {
 			const response = await this.api.get(`/expenses/${expenseId}`);
+			return toExpense(response.data);
+		} catch (error) {
+			throw error;
+		}
+	}
+
+	async getExpenseHistory(expenseId: string) {
+		try {
+			const response = await this.api.get(`/expenses/${expenseId}/history`);
 			return response.data;
 		} catch (error) {
 			throw error;
@@ -132,12 +156,33 @@ class ApiService {
 			const response = await this.api.get(`/accounts/${accountId}/expenses`, {
 				params,
 			});
-			return response.data;
+			return convertDocuments(response.data, toExpense);
+		} catch (error) {
+			throw error;
+		}
+	}
+
+	// One page of an account's expenses with the cursor for the next one
+	async getAccountExpensePage(
+		accountId: string,
+		params?: PaginationParams
+	): Promise<ExpensePage> {
+		try {
+			const response = await this.api.get(`/accounts/${accountId}/expenses`, {
+				params,
+			});
+			return {
+				expenses: convertDocuments(response.data, toExpense),
+				nextCursor: response.headers['x-next-cursor'] || undefined,
+				total: Number(response.headers['x-total-count']) || 0,
+			};
 		} catch (error) {
 			throw error;
 		}
 	}
 
+	// The query uses the syntax of shared/expenseQuery, e.g.
+	// `amount>50 tag:work -tag:reimbursed "coffee"`
 	async searchExpenses(query: string, params?: PaginationParams) {
 		try {
 			const response = await this.api.get('/expenses/search', {
@@ -146,7 +191,7 @@ class ApiService {
 					q: query,
 				},
 			});
-			return response.data;
+			return convertDocuments(response.data, toExpense);
 		} catch (error) {
 			throw error;
 		}
@@ -155,7 +200,7 @@ class ApiService {
 	async createExpense(expenseData: any) {
 		try {
 			const response = await this.api.post('/expenses', expenseData);
-			return response.data;
+			return toExpense(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -164,7 +209,7 @@ class ApiService {
 	async updateExpense(expenseId: string, updates: any) {
 		try {
 			const response = await this.api.patch(`/expenses/${expenseId}`, updates);
-			return response.data;
+			return toExpense(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -182,7 +227,7 @@ class ApiService {
 	async getBudgets(params?: PaginationParams) {
 		try {
 			const response = await this.api.get('/budgets', { params });
-			return response.data;
+			return convertDocuments(response.data, toBudget);
 		} catch (error) {
 			throw error;
 		}
@@ -191,7 +236,7 @@ class ApiService {
 	async getBudget(budgetId: string) {
 		try {
 			const response = await this.api.get(`/budgets/${budgetId}`);
-			return response.data;
+			return toBudget(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -202,7 +247,7 @@ class ApiService {
 			const response = await this.api.get(`/accounts/${accountId}/budgets`, {
 				params,
 			});
-			return response.data;
+			return convertDocuments(response.data, toBudget);
 		} catch (error) {
 			throw error;
 		}
@@ -211,7 +256,7 @@ class ApiService {
 	async createBudget(budgetData: any) {
 		try {
 			const response = await this.api.post('/budgets', budgetData);
-			return response.data;
+			return toBudget(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -220,7 +265,7 @@ class ApiService {
 	async updateBudget(budgetId: string, updates: any) {
 		try {
 			const response = await this.api.patch(`/budgets/${budgetId}`, updates);
-			return response.data;
+			return toBudget(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -243,6 +288,35 @@ class ApiService {
 		}
 	}
 
+	// Trash-related API methods
+	async getAccountTrash(accountId: string, params?: PaginationParams) {
+		try {
+			const response = await this.api.get(`/accounts/${accountId}/trash`, {
+				params,
+			});
+			return response.data;
+		} catch (error) {
+			throw error;
+		}
+	}
+
+	async restoreTrashItem(itemId: string) {
+		try {
+			const response = await this.api.post(`/trash/${itemId}/restore`);
+			return response.data;
+		} catch (error) {
+			throw error;
+		}
+	}
+
+	async deleteTrashItem(itemId: string) {
+		try {
+			await this.api.delete(`/trash/${itemId}`);
+		} catch (error) {
+			throw error;
+		}
+	}
+
 	// Currency-related API methods
 	async getSupportedCurrencies() {
 		try {
@@ -278,7 +352,7 @@ class ApiService {
 	async getAccounts(params?: PaginationParams) {
 		try {
 			const response = await this.api.get('/accounts', { params });
-			return response.data;
+			return convertDocuments(response.data, toAccount);
 		} catch (error) {
 			throw error;
 		}
@@ -287,7 +361,7 @@ class ApiService {
 	async getAccount(accountId: string) {
 		try {
 			const response = await this.api.get(`/accounts/${accountId}`);
-			return response.data;
+			return toAccount(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -296,7 +370,7 @@ class ApiService {
 	async getUserAccounts(userId: string) {
 		try {
 			const response = await this.api.get(`/users/${userId}/accounts`);
-			return response.data;
+			return convertDocuments(response.data, toAccount);
 		} catch (error) {
 			throw error;
 		}
@@ -305,7 +379,7 @@ class ApiService {
 	async createAccount(accountData: any) {
 		try {
 			const response = await this.api.post('/accounts', accountData);
-			return response.data;
+			return toAccount(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -314,7 +388,7 @@ class ApiService {
 	async updateAccount(accountId: string, updates: any) {
 		try {
 			const response = await this.api.patch(`/accounts/${accountId}`, updates);
-			return response.data;
+			return toAccount(response.data);
 		} catch (error) {
 			throw error;
 		}
@@ -407,7 +481,7 @@ class ApiService {
 
 	// User profile methods
 	async createUserProfile(
-		userData: Omit<User, 'firebaseUser'> & { firebaseUser: FirebaseUser }
+		userData: Omit<User, 'firebaseUser'> & { firebaseUser: AuthUser }
 	): Promise<User> {
 		try {
 			// For development, return the user data directly if the API call fails
@@ -447,30 +521,7 @@ class ApiService {
 						email: 'user@example.com',
 						displayName: 'Test User',
 						photoURL: null,
-						emailVerified: true,
-						isAnonymous: false,
-						phoneNumber: null,
-						providerId: 'password',
-						metadata: {
-							creationTime: new Date().toISOString(),
-							lastSignInTime: new Date().toISOString(),
-						},
-						providerData: [],
-						refreshToken: '',
-						tenantId: null,
-						delete: async () => {},
 						getIdToken: async () => 'mock-token',
-						getIdTokenResult: async () => ({
-							token: 'mock-token',
-							claims: {},
-							authTime: new Date().toISOString(),
-							issuedAtTime: new Date().toISOString(),
-							expirationTime: new Date(Date.now() + 3600000).toISOString(),
-							signInProvider: null,
-							signInSecondFactor: null,
-						}),
-						reload: async () => {},
-						toJSON: () => ({}),
 					},
 					preferences: {
 						darkMode: false,
@@ -540,10 +591,16 @@ export const getExpenses = (params?: PaginationParams) =>
 	apiService.getExpenses(params);
 export const getExpense = (expenseId: string) =>
 	apiService.getExpense(expenseId);
+export const getExpenseHistory = (expenseId: string) =>
+	apiService.getExpenseHistory(expenseId);
 export const getAccountExpenses = (
 	accountId: string,
 	params?: PaginationParams
 ) => apiService.getAccountExpenses(accountId, params);
+export const getAccountExpensePage = (
+	accountId: string,
+	params?: PaginationParams
+) => apiService.getAccountExpensePage(accountId, params);
 export const searchExpenses = (query: string, params?: PaginationParams) =>
 	apiService.searchExpenses(query, params);
 export const createExpense = (expenseData: any) =>
@@ -568,6 +625,14 @@ export const deleteBudget = (budgetId: string) =>
 export const getBudgetStatus = (budgetId: string) =>
 	apiService.getBudgetStatus(budgetId);
 
+// Export trash-related functions
+export const getAccountTrash = (accountId: string, params?: PaginationParams) =>
+	apiService.getAccountTrash(accountId, params);
+export const restoreTrashItem = (itemId: string) =>
+	apiService.restoreTrashItem(itemId);
+export const deleteTrashItem = (itemId: string) =>
+	apiService.deleteTrashItem(itemId);
+
 // Export category-related functions
 export const getSystemCategories = () => apiService.getSystemCategories();
 export const getAccountCategories = (accountId: string) =>
@@ -580,7 +645,7 @@ export const getExchangeRates = (baseCurrency: string) =>
 
 // Export user profile functions
 export const createUserProfile = (
-	userData: Omit<User, 'firebaseUser'> & { firebaseUser: FirebaseUser }
+	userData: Omit<User, 'firebaseUser'> & { firebaseUser: AuthUser }
 ) => apiService.createUserProfile(userData);
 
 export const getUserProfile = (userId: string) =>
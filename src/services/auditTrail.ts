@@ -0,0 +1,153 @@
+import { db, currentMemberRef } from './firebase';
+import { DocumentData } from './storage';
+import { convertDocuments } from '../models/converters';
+import { withSchemaVersion } from '../models/migrations';
+import {
+	AuditAction,
+	AuditEntry,
+	FieldChange,
+	auditEntrySchema,
+} from '../models/schemas';
+
+export const AUDIT_COLLECTION = 'expenseHistory';
+
+// Bookkeeping fields that change with every write and aren't worth a diff
+const UNAUDITED_FIELDS = new Set([
+	'id',
+	'syncStatus',
+	'createdAt',
+	'createdBy',
+	'updatedAt',
+	'updatedBy',
+]);
+
+// Fields left alone by a revert; the base amount follows amount and rate,
+// and approval is decided again for the restored version
+const NOT_RESTORED_FIELDS = new Set([
+	'accountId',
+	'amountInBaseCurrency',
+	'status',
+	'review',
+]);
+
+// Dates and nested values compared by content
+const normalize = (value: unknown): unknown => {
+	if (value instanceof Date) return value.getTime();
+	if (value && typeof value === 'object') return JSON.stringify(value);
+	return value ?? null;
+};
+
+// Storage backends reject undefined, so unset fields are recorded as null
+const withoutUndefined = (data: DocumentData): DocumentData =>
+	Object.fromEntries(
+		Object.entries(data).filter(([, value]) => value !== undefined)
+	);
+
+export interface ExpenseChange {
+	expenseId: string;
+	accountId: string;
+	action: AuditAction;
+	// Expense before the change, null for creates
+	before: DocumentData | null;
+	// Expense after the change, null for deletes
+	after: DocumentData | null;
+	revertedTo?: string;
+}
+
+/**
+ * Audit Trail Service
+ * Records who created, changed or deleted an expense, when, and which
+ * fields changed. Entries are only ever added, never edited or removed.
+ */
+class AuditTrailService {
+	/**
+	 * Compare two versions of an expense
+	 * @param before - Earlier version, or null
+	 * @param after - Later version, or null
+	 * @returns One change per audited field whose value differs
+	 */
+	diff(before: DocumentData | null, after: DocumentData | null): FieldChange[] {
+		const fields = new Set([
+			...Object.keys(before || {}),
+			...Object.keys(after || {}),
+		]);
+
+		return Array.from(fields)
+			.filter((field) => !UNAUDITED_FIELDS.has(field))
+			.filter(
+				(field) => normalize(before?.[field]) !== normalize(after?.[field])
+			)
+			.sort()
+			.map((field) => ({
+				field,
+				before: before?.[field] ?? null,
+				after: after?.[field] ?? null,
+			}));
+	}
+
+	/**
+	 * Record a change to an expense
+	 * A failure is logged rather than thrown, as the change itself has
+	 * already been written.
+	 * @param change - The change and the versions on either side of it
+	 */
+	async record(change: ExpenseChange): Promise<void> {
+		const changes = this.diff(change.before, change.after);
+		if (change.action === 'update' && changes.length === 0) return;
+
+		try {
+			await db.add(
+				AUDIT_COLLECTION,
+				withSchemaVersion(AUDIT_COLLECTION, {
+					accountId: change.accountId,
+					expenseId: change.expenseId,
+					action: change.action,
+					actor: currentMemberRef() || { uid: '', displayName: '' },
+					at: new Date(),
+					changes,
+					snapshot: withoutUndefined(change.after || change.before || {}),
+					...(change.revertedTo ? { revertedTo: change.revertedTo } : {}),
+				})
+			);
+		} catch (error) {
+			console.error('Failed to record expense history:', error);
+		}
+	}
+
+	/**
+	 * Get the history of an expense
+	 * @param expenseId - Expense id
+	 * @returns Entries, newest first
+	 */
+	async getHistory(expenseId: string): Promise<AuditEntry[]> {
+		const docs = await db.query(AUDIT_COLLECTION, {
+			where: [{ field: 'expenseId', op: '==', value: expenseId }],
+			orderBy: [{ field: 'at', direction: 'desc' }],
+		});
+		return convertDocuments(docs, (doc) => auditEntrySchema.parse(doc));
+	}
+
+	/**
+	 * Get the updates that bring an expense back to the version an entry
+	 * recorded
+	 * @param entry - Entry to restore
+	 * @param current - Current version of the expense
+	 * @returns Field updates, with null for fields the version didn't have
+	 */
+	getRevertUpdates(entry: AuditEntry, current: DocumentData): DocumentData {
+		return Object.fromEntries(
+			this.diff(current, entry.snapshot)
+				.filter(({ field }) => !NOT_RESTORED_FIELDS.has(field))
+				.map(({ field, after }) => [field, after])
+		);
+	}
+}
+
+// Export a singleton instance
+export const auditTrail = new AuditTrailService();
+
+export const recordExpenseChange = (change: ExpenseChange) =>
+	auditTrail.record(change);
+
+export const getExpenseHistory = (expenseId: string) =>
+	auditTrail.getHistory(expenseId);
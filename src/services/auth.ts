@@ -1,21 +1,8 @@
 // src/services/auth.ts
-import {
-	createUserWithEmailAndPassword,
-	signInWithEmailAndPassword,
-	GoogleAuthProvider,
-	signInWithPopup,
-	signOut as authSignOut,
-	onAuthStateChanged as firebaseOnAuthStateChanged,
-	sendPasswordResetEmail,
-	confirmPasswordReset as firebaseConfirmPasswordReset,
-	User as FirebaseUser,
-	updateProfile as firebaseUpdateProfile,
-	updateEmail as firebaseUpdateEmail,
-} from 'firebase/auth';
 import { User } from '../models/types';
 import { apiService } from './api';
 import { firebaseService, db } from './firebase';
-import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
+import { AuthUser } from './storage';
 
 // Get the auth instance from the Firebase service
 const auth = firebaseService.auth;
@@ -27,20 +14,13 @@ export const signUpWithEmail = async (
 	displayName: string
 ): Promise<User> => {
 	try {
-		const userCredential = await createUserWithEmailAndPassword(
-			auth,
-			email,
-			password
-		);
-		const firebaseUser = userCredential.user;
+		// The display name is set as part of account creation
+		const firebaseUser = await auth.signUp(email, password, displayName);
 
 		if (!firebaseUser) {
 			throw new Error('Failed to create user');
 		}
 
-		// Update the user's display name
-		await firebaseUpdateProfile(firebaseUser, { displayName });
-
 		// Create user profile in Firestore
 		const userProfile: Omit<User, 'firebaseUser'> = {
 			preferences: {
@@ -59,7 +39,7 @@ export const signUpWithEmail = async (
 		};
 
 		// Save to Firestore
-		await setDoc(doc(db, 'users', firebaseUser.uid), userProfile);
+		await db.set('users', firebaseUser.uid, userProfile);
 
 		// Return the complete user object
 		return {
@@ -78,25 +58,22 @@ export const signInWithEmail = async (
 	password: string
 ): Promise<User> => {
 	try {
-		const userCredential = await signInWithEmailAndPassword(
-			auth,
-			email,
-			password
-		);
-		const firebaseUser = userCredential.user;
+		const firebaseUser = await auth.signIn(email, password);
 
 		if (!firebaseUser) {
 			throw new Error('Failed to sign in');
 		}
 
 		// Get user profile from Firestore
-		const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
+		const userData = await db.get<Omit<User, 'firebaseUser'>>(
+			'users',
+			firebaseUser.uid
+		);
 
-		if (!userDoc.exists()) {
+		if (!userData) {
 			throw new Error('User profile not found');
 		}
 
-		const userData = userDoc.data();
 		return {
 			firebaseUser,
 			...userData,
@@ -110,18 +87,19 @@ export const signInWithEmail = async (
 // Sign in with Google
 export const signInWithGoogle = async (): Promise<User> => {
 	try {
-		const provider = new GoogleAuthProvider();
-		const userCredential = await signInWithPopup(auth, provider);
-		const firebaseUser = userCredential.user;
+		const firebaseUser = await auth.signInWithGoogle();
 
 		if (!firebaseUser) {
 			throw new Error('Failed to sign in with Google');
 		}
 
 		// Check if user profile exists
-		const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
+		const userData = await db.get<Omit<User, 'firebaseUser'>>(
+			'users',
+			firebaseUser.uid
+		);
 
-		if (!userDoc.exists()) {
+		if (!userData) {
 			// Create new user profile
 			const userProfile: Omit<User, 'firebaseUser'> = {
 				preferences: {
@@ -139,7 +117,7 @@ export const signInWithGoogle = async (): Promise<User> => {
 				updatedAt: new Date(),
 			};
 
-			await setDoc(doc(db, 'users', firebaseUser.uid), userProfile);
+			await db.set('users', firebaseUser.uid, userProfile);
 
 			return {
 				firebaseUser,
@@ -148,7 +126,6 @@ export const signInWithGoogle = async (): Promise<User> => {
 		}
 
 		// Return existing user profile
-		const userData = userDoc.data();
 		return {
 			firebaseUser,
 			...userData,
@@ -162,7 +139,7 @@ export const signInWithGoogle = async (): Promise<User> => {
 // Sign out
 export const signOut = async (): Promise<void> => {
 	try {
-		await authSignOut(auth);
+		await auth.signOut();
 	} catch (error) {
 		console.error('Error signing out:', error);
 		throw error;
@@ -172,33 +149,32 @@ export const signOut = async (): Promise<void> => {
 // Get current user
 export const getCurrentUser = (): Promise<User | null> => {
 	return new Promise((resolve, reject) => {
-		const unsubscribe = firebaseOnAuthStateChanged(
-			auth,
-			async (firebaseUser) => {
-				unsubscribe();
-				if (firebaseUser) {
-					try {
-						// Get user profile from Firestore
-						const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
+		const unsubscribe = auth.onAuthStateChanged(async (firebaseUser) => {
+			unsubscribe();
+			if (firebaseUser) {
+				try {
+					// Get user profile from Firestore
+					const userData = await db.get<Omit<User, 'firebaseUser'>>(
+						'users',
+						firebaseUser.uid
+					);
 
-						if (userDoc.exists()) {
-							const userData = userDoc.data();
-							resolve({
-								firebaseUser,
-								...userData,
-							} as User);
-						} else {
-							resolve(null);
-						}
-					} catch (error) {
-						console.error('Error getting user profile:', error);
-						reject(error);
+					if (userData) {
+						resolve({
+							firebaseUser,
+							...userData,
+						} as User);
+					} else {
+						resolve(null);
 					}
-				} else {
-					resolve(null);
+				} catch (error) {
+					console.error('Error getting user profile:', error);
+					reject(error);
 				}
+			} else {
+				resolve(null);
 			}
-		);
+		});
 	});
 };
 
@@ -208,19 +184,17 @@ export const updateUserProfile = async (
 	updates: Partial<User>
 ): Promise<User> => {
 	try {
-		const userRef = doc(db, 'users', userId);
-		await updateDoc(userRef, {
+		await db.update('users', userId, {
 			...updates,
 			updatedAt: new Date(),
 		});
 
-		const userDoc = await getDoc(userRef);
-		if (!userDoc.exists()) {
+		const userData = await db.get('users', userId);
+		if (!userData) {
 			throw new Error('User profile not found');
 		}
 
-		const userData = userDoc.data();
-		return userData as User;
+		return userData as unknown as User;
 	} catch (error) {
 		console.error('Error updating user profile:', error);
 		throw error;
@@ -230,7 +204,7 @@ export const updateUserProfile = async (
 // Reset password
 export const resetPassword = async (email: string): Promise<void> => {
 	try {
-		await sendPasswordResetEmail(auth, email);
+		await auth.sendPasswordReset(email);
 	} catch (error) {
 		console.error('Error sending password reset email:', error);
 		throw error;
@@ -243,7 +217,7 @@ export const confirmPasswordReset = async (
 	newPassword: string
 ): Promise<void> => {
 	try {
-		await firebaseConfirmPasswordReset(auth, oobCode, newPassword);
+		await auth.confirmPasswordReset(oobCode, newPassword);
 	} catch (error) {
 		console.error('Error confirming password reset:', error);
 		throw error;
@@ -251,11 +225,11 @@ export const confirmPasswordReset = async (
 };
 
 export const updateUserEmail = async (
-	user: FirebaseUser,
+	user: AuthUser,
 	newEmail: string
 ): Promise<void> => {
 	try {
-		await firebaseUpdateEmail(user, newEmail);
+		await auth.updateEmail(user, newEmail);
 	} catch (error) {
 		console.error('Error updating user email:', error);
 		throw error;
@@ -266,7 +240,7 @@ export const updateUserEmail = async (
 export const onAuthStateChanged = (
 	callback: (user: User | null) => void
 ): (() => void) => {
-	return firebaseOnAuthStateChanged(auth, async (firebaseUser) => {
+	return auth.onAuthStateChanged(async (firebaseUser) => {
 		if (firebaseUser) {
 			try {
 				const userProfile = await apiService.getUserProfile(firebaseUser.uid);
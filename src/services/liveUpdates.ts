@@ -0,0 +1,78 @@
+import { db } from './firebase';
+import { CachedCollection } from './offlineCache';
+import { QueryFilter, SnapshotListener } from './storage';
+
+export type LiveUpdateListeners = Record<CachedCollection, SnapshotListener>;
+
+// Extra conditions per collection, on top of the account, e.g. a date window
+export type LiveUpdateFilters = Partial<
+	Record<CachedCollection, QueryFilter[]>
+>;
+
+/**
+ * Live Updates Service
+ * Keeps one set of storage subscriptions open for the current account, so
+ * changes made by other members show up without a reload
+ */
+class LiveUpdatesService {
+	private accountId: string | null = null;
+	private unsubscribers: (() => void)[] = [];
+
+	/**
+	 * Subscribe to the expenses and budgets of an account, replacing the
+	 * subscriptions of the previous account
+	 * @param accountId - Account to follow
+	 * @param listeners - Change handlers per collection
+	 * @param onError - Called when a subscription fails; it is not retried
+	 * @param filters - Limits on the documents followed per collection
+	 */
+	start(
+		accountId: string,
+		listeners: LiveUpdateListeners,
+		onError?: (error: Error) => void,
+		filters: LiveUpdateFilters = {}
+	): void {
+		if (this.accountId === accountId) return;
+		this.stop();
+
+		this.accountId = accountId;
+		this.unsubscribers = (Object.keys(listeners) as CachedCollection[]).map(
+			(collection) =>
+				db.subscribe(
+					collection,
+					{
+						where: [
+							{ field: 'accountId', op: '==', value: accountId },
+							...(filters[collection] || []),
+						],
+					},
+					listeners[collection],
+					onError
+				)
+		);
+	}
+
+	// Close all subscriptions, e.g. on sign out
+	stop(): void {
+		this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+		this.unsubscribers = [];
+		this.accountId = null;
+	}
+
+	// Account currently followed, if any
+	getAccountId(): string | null {
+		return this.accountId;
+	}
+}
+
+// Export a singleton instance
+export const liveUpdates = new LiveUpdatesService();
+
+export const startLiveUpdates = (
+	accountId: string,
+	listeners: LiveUpdateListeners,
+	onError?: (error: Error) => void,
+	filters?: LiveUpdateFilters
+) => liveUpdates.start(accountId, listeners, onError, filters);
+
+export const stopLiveUpdates = () => liveUpdates.stop();
@@ -0,0 +1,244 @@
+import { db } from './firebase';
+import { DocumentData, StoredDocument } from './storage';
+import { offlineCache, isOnline, CachedCollection } from './offlineCache';
+import { FieldChange } from '../models/schemas';
+import {
+	MigratedCollection,
+	MigrationContext,
+	diffMigration,
+	migrateDocument,
+} from '../models/migrations';
+
+// Values compared by content, as diffMigration does
+const isSameValue = (a: unknown, b: unknown) =>
+	JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Write an upgraded document back, changing only the fields the migration
+ * changed, so edits saved by others since it was read are kept. Skipped when
+ * the stored copy was saved or upgraded in the meantime.
+ * @param collection - Collection the document belongs to
+ * @param before - The document as read, with its id
+ * @param after - The upgraded document
+ * @returns Whether anything was written
+ */
+const writeMigrated = async (
+	collection: MigratedCollection,
+	before: DocumentData,
+	after: DocumentData
+): Promise<boolean> => {
+	const stored = await db.get(collection, before.id);
+	if (
+		!stored ||
+		!isSameValue(stored.updatedAt, before.updatedAt) ||
+		!isSameValue(stored.schemaVersion, before.schemaVersion)
+	) {
+		return false;
+	}
+
+	// Fields a migration drops are left in place; they are no longer read
+	const updates = Object.fromEntries(
+		diffMigration(before, after)
+			.filter(({ field }) => after[field] !== undefined)
+			.map(({ field }) => [field, after[field]])
+	);
+	await db.update(collection, before.id, updates);
+	return true;
+};
+
+// Collections stored per account, upgraded by a bulk migration
+const ACCOUNT_COLLECTIONS: MigratedCollection[] = [
+	'expenses',
+	'budgets',
+	'recurringExpenses',
+];
+
+const isCachedCollection = (
+	collection: MigratedCollection
+): collection is CachedCollection =>
+	collection === 'expenses' || collection === 'budgets';
+
+// What a bulk migration changed, or would change in a dry run
+export interface MigrationChange {
+	collection: MigratedCollection;
+	docId: string;
+	fromVersion: number;
+	toVersion: number;
+	// Descriptions of the migrations applied
+	migrations: string[];
+	changes: FieldChange[];
+}
+
+export interface MigrationFailure {
+	collection: MigratedCollection;
+	docId: string;
+	message: string;
+}
+
+export interface MigrationReport {
+	accountId: string;
+	dryRun: boolean;
+	scanned: number;
+	// Documents upgraded, or that would be in a dry run
+	upgraded: number;
+	changes: MigrationChange[];
+	failures: MigrationFailure[];
+}
+
+/**
+ * Migration Service
+ * Upgrades stored documents to the current schema version, lazily as they
+ * are read or in bulk for an account. See src/models/migrations.ts for the
+ * registry.
+ */
+class MigrationService {
+	// Write-backs in flight, so repeated reads don't write twice
+	private writing = new Set<string>();
+
+	/**
+	 * Upgrade documents that were just read
+	 * The upgraded copies are returned straight away and written back in the
+	 * background; documents with queued offline changes are written by the
+	 * replay instead. Documents that can't be upgraded are returned as read.
+	 * @param collection - Collection the documents belong to
+	 * @param docs - Stored documents
+	 * @param context - Values migrations may need
+	 * @returns Documents in the current shape
+	 */
+	async upgradeOnRead<T extends StoredDocument<DocumentData>>(
+		collection: MigratedCollection,
+		docs: T[],
+		context: MigrationContext = {}
+	): Promise<T[]> {
+		const pendingIds = isCachedCollection(collection)
+			? await offlineCache.getPendingIds(collection)
+			: new Set<string>();
+
+		return docs.map((doc) => {
+			let result;
+			try {
+				result = migrateDocument(collection, doc, context);
+			} catch (error) {
+				// Left for the converters to report
+				return doc;
+			}
+			if (!result) return doc;
+
+			if (isOnline() && !pendingIds.has(doc.id)) {
+				this.writeBack(collection, doc, result.data);
+			}
+			return { ...result.data, id: doc.id } as T;
+		});
+	}
+
+	private async writeBack(
+		collection: MigratedCollection,
+		doc: StoredDocument<DocumentData>,
+		data: DocumentData
+	): Promise<void> {
+		const key = `${collection}/${doc.id}`;
+		if (this.writing.has(key)) return;
+
+		this.writing.add(key);
+		try {
+			await writeMigrated(collection, doc, data);
+		} catch (error) {
+			// The next read tries again
+			console.error(`Failed to upgrade ${key}:`, error);
+		} finally {
+			this.writing.delete(key);
+		}
+	}
+
+	/**
+	 * Upgrade every document of an account: the account itself, its
+	 * expenses, budgets and recurring expenses
+	 * @param accountId - Account id
+	 * @param options - dryRun reports what would change without writing
+	 * @returns What changed, or would change
+	 */
+	async migrateAccount(
+		accountId: string,
+		{ dryRun = false }: { dryRun?: boolean } = {}
+	): Promise<MigrationReport> {
+		const report: MigrationReport = {
+			accountId,
+			dryRun,
+			scanned: 0,
+			upgraded: 0,
+			changes: [],
+			failures: [],
+		};
+
+		const account = await db.get('accounts', accountId);
+		if (!account) {
+			throw new Error('Account not found');
+		}
+
+		const context: MigrationContext = {
+			baseCurrency: account.baseCurrency ?? account.currency,
+		};
+		const batches: [MigratedCollection, DocumentData[]][] = [
+			['accounts', [account]],
+		];
+		for (const collection of ACCOUNT_COLLECTIONS) {
+			batches.push([
+				collection,
+				await db.query(collection, {
+					where: [{ field: 'accountId', op: '==', value: accountId }],
+				}),
+			]);
+		}
+
+		for (const [collection, docs] of batches) {
+			for (const doc of docs) {
+				report.scanned += 1;
+				try {
+					const result = migrateDocument(collection, doc, context);
+					if (!result) continue;
+
+					// Saved by someone since it was read; the next run picks it up
+					if (
+						!dryRun &&
+						!(await writeMigrated(collection, doc, result.data))
+					) {
+						continue;
+					}
+					report.upgraded += 1;
+					report.changes.push({
+						collection,
+						docId: doc.id,
+						fromVersion: result.fromVersion,
+						toVersion: result.toVersion,
+						migrations: result.applied.map(
+							(migration) => migration.description
+						),
+						changes: diffMigration(doc, result.data),
+					});
+				} catch (error: any) {
+					report.failures.push({
+						collection,
+						docId: doc.id,
+						message: error.message,
+					});
+				}
+			}
+		}
+
+		return report;
+	}
+}
+
+// Export a singleton instance
+export const migrations = new MigrationService();
+
+export const upgradeOnRead = <T extends StoredDocument<DocumentData>>(
+	collection: MigratedCollection,
+	docs: T[],
+	context?: MigrationContext
+) => migrations.upgradeOnRead(collection, docs, context);
+
+export const migrateAccount = (
+	accountId: string,
+	options?: { dryRun?: boolean }
+) => migrations.migrateAccount(accountId, options);
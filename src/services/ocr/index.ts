@@ -0,0 +1,16 @@
+import { createTextOcrProvider } from './textProvider';
+import { OcrProvider } from './types';
+
+export * from './types';
+export { createTextOcrProvider };
+
+/**
+ * Pick the OCR backend. Only the local text provider ships with the app;
+ * image backends implement OcrProvider and are plugged in with
+ * receiptExtraction.setProvider.
+ */
+const createOcrProvider = (): OcrProvider => createTextOcrProvider();
+
+export const ocrProvider = createOcrProvider();
+
+export default ocrProvider;
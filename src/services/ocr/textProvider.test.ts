@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createTextOcrProvider } from './textProvider';
+
+const file = (text: string, type: string, name?: string) =>
+	Object.assign(new Blob([text], { type }), { name });
+
+describe('text OCR provider', () => {
+	const provider = createTextOcrProvider();
+
+	it('supports text files by type or extension', () => {
+		expect(provider.supports(file('', 'text/plain'))).toBe(true);
+		expect(provider.supports(file('', '', 'Receipt.TXT'))).toBe(true);
+		expect(provider.supports(file('', 'image/jpeg', 'receipt.jpg'))).toBe(
+			false
+		);
+	});
+
+	it('returns the text as certain', async () => {
+		expect(await provider.recognize(file('Total 12.50', 'text/plain'))).toEqual(
+			{ text: 'Total 12.50', confidence: 1 }
+		);
+	});
+
+	it('fails for other files', async () => {
+		await expect(
+			provider.recognize(file('', 'image/png', 'receipt.png'))
+		).rejects.toThrow('Only text receipts');
+	});
+});
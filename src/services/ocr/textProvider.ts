@@ -0,0 +1,30 @@
+import { OcrProvider } from './types';
+
+const TEXT_EXTENSIONS = ['.txt', '.text'];
+
+/**
+ * OCR provider for receipts that are already text, such as e-mailed
+ * receipts saved as .txt. Used for tests and as the local fallback when no
+ * image OCR backend is configured.
+ */
+export const createTextOcrProvider = (): OcrProvider => ({
+	name: 'text',
+
+	supports(file) {
+		return (
+			file.type.startsWith('text/') ||
+			TEXT_EXTENSIONS.some((extension) =>
+				file.name?.toLowerCase().endsWith(extension)
+			)
+		);
+	},
+
+	async recognize(file) {
+		if (!this.supports(file)) {
+			throw new Error('Only text receipts can be read on this device');
+		}
+
+		// Text needs no recognition, so it is taken as certain
+		return { text: await file.text(), confidence: 1 };
+	},
+});
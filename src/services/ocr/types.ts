@@ -0,0 +1,15 @@
+// OCR provider contract used by the receipt extraction pipeline
+
+export interface OcrResult {
+	// Recognized text, one receipt line per line
+	text: string;
+	// How sure the provider is of the text overall, from 0 to 1
+	confidence: number;
+}
+
+export interface OcrProvider {
+	name: string;
+	// Whether the provider can read a file of this type
+	supports(file: Blob & { name?: string }): boolean;
+	recognize(file: Blob & { name?: string }): Promise<OcrResult>;
+}
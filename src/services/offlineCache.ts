@@ -0,0 +1,282 @@
+// Local IndexedDB cache for account data and the offline write outbox
+import { SyncStatus } from '../models/schemas';
+
+export type { SyncStatus };
+
+const DB_NAME = 'aifinacker-offline';
+const DB_VERSION = 1;
+
+export type CachedCollection = 'expenses' | 'budgets';
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+// A write that was made while offline and still has to reach the server
+export interface OutboxEntry {
+	seq?: number;
+	collection: CachedCollection;
+	op: OutboxOperation;
+	docId: string;
+	accountId: string;
+	data?: Record<string, any>;
+	// Local copy of the document before the change, used to detect conflicts
+	base?: Record<string, any> | null;
+	// Receipts to upload, and stored receipts to remove
+	receiptFiles?: File[];
+	removedReceiptUrls?: string[];
+	// Single receipt fields written by earlier versions, still replayed
+	receiptFile?: File;
+	deleteReceipt?: boolean;
+	createdAt: Date;
+}
+
+/**
+ * Offline Cache Class
+ * Wraps IndexedDB with promise-based helpers for cached documents and the
+ * outbox of pending writes. Every method degrades to a no-op when IndexedDB
+ * is unavailable (e.g. private browsing, tests)
+ */
+class OfflineCache {
+	private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+	// Open (and upgrade) the database once per session
+	private open(): Promise<IDBDatabase | null> {
+		if (this.dbPromise) return this.dbPromise;
+
+		this.dbPromise = new Promise((resolve) => {
+			if (typeof indexedDB === 'undefined') {
+				resolve(null);
+				return;
+			}
+
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				(['expenses', 'budgets'] as CachedCollection[]).forEach((name) => {
+					if (!db.objectStoreNames.contains(name)) {
+						const store = db.createObjectStore(name, { keyPath: 'id' });
+						store.createIndex('accountId', 'accountId', { unique: false });
+					}
+				});
+				if (!db.objectStoreNames.contains('outbox')) {
+					db.createObjectStore('outbox', {
+						keyPath: 'seq',
+						autoIncrement: true,
+					});
+				}
+			};
+
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				console.error('Failed to open offline cache:', request.error);
+				resolve(null);
+			};
+		});
+
+		return this.dbPromise;
+	}
+
+	// Run a request inside a transaction and resolve once it is committed
+	private async run<T>(
+		storeName: CachedCollection | 'outbox',
+		mode: IDBTransactionMode,
+		action: (store: IDBObjectStore) => IDBRequest<T> | void
+	): Promise<T | undefined> {
+		const db = await this.open();
+		if (!db) return undefined;
+
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(storeName, mode);
+			const request = action(transaction.objectStore(storeName));
+
+			transaction.oncomplete = () =>
+				resolve(request ? request.result : undefined);
+			transaction.onerror = () => reject(transaction.error);
+			transaction.onabort = () => reject(transaction.error);
+		});
+	}
+
+	// Cached documents
+
+	async getAll<T>(
+		collection: CachedCollection,
+		accountId: string
+	): Promise<T[]> {
+		const result = await this.run<T[]>(collection, 'readonly', (store) =>
+			store.index('accountId').getAll(accountId)
+		);
+		return result || [];
+	}
+
+	async get<T>(
+		collection: CachedCollection,
+		id: string
+	): Promise<T | undefined> {
+		return this.run<T>(collection, 'readonly', (store) => store.get(id));
+	}
+
+	async put(collection: CachedCollection, document: { id: string }) {
+		await this.run(collection, 'readwrite', (store) => {
+			store.put(document);
+		});
+	}
+
+	async remove(collection: CachedCollection, id: string) {
+		await this.run(collection, 'readwrite', (store) => {
+			store.delete(id);
+		});
+	}
+
+	/**
+	 * Write and remove several cached documents in one transaction
+	 * @param collection - Cached collection
+	 * @param documents - Documents to write
+	 * @param removedIds - Ids of documents to remove
+	 */
+	async bulkWrite(
+		collection: CachedCollection,
+		documents: Array<{ id: string }>,
+		removedIds: string[] = []
+	) {
+		if (documents.length === 0 && removedIds.length === 0) return;
+		await this.run(collection, 'readwrite', (store) => {
+			documents.forEach((document) => store.put(document));
+			removedIds.forEach((id) => store.delete(id));
+		});
+	}
+
+	/**
+	 * Replace every cached document of an account with a fresh server copy
+	 * @param collection - Cached collection
+	 * @param accountId - Account ID
+	 * @param documents - Documents returned by the server
+	 * @param since - Only replace documents dated on or after this date
+	 */
+	async replaceAccount(
+		collection: CachedCollection,
+		accountId: string,
+		documents: Array<{ id: string }>,
+		since?: Date
+	) {
+		const db = await this.open();
+		if (!db) return;
+
+		await new Promise<void>((resolve, reject) => {
+			const transaction = db.transaction(collection, 'readwrite');
+			const store = transaction.objectStore(collection);
+			const cursorRequest = store
+				.index('accountId')
+				.openCursor(IDBKeyRange.only(accountId));
+
+			cursorRequest.onsuccess = () => {
+				const cursor = cursorRequest.result;
+				if (cursor) {
+					if (!since || new Date(cursor.value.date) >= since) {
+						cursor.delete();
+					}
+					cursor.continue();
+				} else {
+					documents.forEach((document) => store.put(document));
+				}
+			};
+
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+		});
+	}
+
+	// Outbox
+
+	async getOutbox(): Promise<OutboxEntry[]> {
+		const result = await this.run<OutboxEntry[]>(
+			'outbox',
+			'readonly',
+			(store) => store.getAll()
+		);
+		// Keys are auto-incremented, so this is the order writes were made in
+		return (result || []).sort((a, b) => (a.seq || 0) - (b.seq || 0));
+	}
+
+	async putOutboxEntry(entry: OutboxEntry) {
+		await this.run('outbox', 'readwrite', (store) => {
+			store.put(entry);
+		});
+	}
+
+	async removeOutboxEntry(seq: number) {
+		await this.run('outbox', 'readwrite', (store) => {
+			store.delete(seq);
+		});
+	}
+
+	/**
+	 * Queue a write for replay, folding it into earlier pending writes to the
+	 * same document where possible
+	 * @param entry - Write to queue
+	 * @returns false if the write cancelled out a pending create and nothing
+	 * has to reach the server
+	 */
+	async enqueue(
+		entry: Omit<OutboxEntry, 'seq' | 'createdAt'>
+	): Promise<boolean> {
+		const pending = (await this.getOutbox()).filter(
+			(item) =>
+				item.collection === entry.collection && item.docId === entry.docId
+		);
+		const pendingCreate = pending.find((item) => item.op === 'create');
+
+		if (pendingCreate && entry.op === 'delete') {
+			// The server never saw this document, so drop every queued write for it
+			for (const item of pending) {
+				await this.removeOutboxEntry(item.seq!);
+			}
+			return false;
+		}
+
+		if (pendingCreate && entry.op === 'update') {
+			await this.putOutboxEntry({
+				...pendingCreate,
+				data: { ...pendingCreate.data, ...entry.data },
+				// Removed receipts were never uploaded, so only new files are added
+				receiptFiles: [
+					...(pendingCreate.receiptFiles || []),
+					...(entry.receiptFiles || []),
+				],
+			});
+			return true;
+		}
+
+		await this.putOutboxEntry({ ...entry, createdAt: new Date() });
+		return true;
+	}
+
+	async getPendingIds(collection: CachedCollection): Promise<Set<string>> {
+		const outbox = await this.getOutbox();
+		return new Set(
+			outbox
+				.filter((entry) => entry.collection === collection)
+				.map((entry) => entry.docId)
+		);
+	}
+}
+
+// Create and export a singleton instance
+export const offlineCache = new OfflineCache();
+
+/**
+ * Whether the browser currently reports a network connection
+ * @returns true when online (or when the state can't be determined)
+ */
+export const isOnline = (): boolean =>
+	typeof navigator === 'undefined' ? true : navigator.onLine;
+
+/**
+ * Whether an error from Firestore/Storage was caused by missing connectivity
+ * @param error - Error thrown by a remote call
+ * @returns true if the write should be queued instead of failing
+ */
+export const isNetworkError = (error: any): boolean =>
+	!isOnline() ||
+	error?.code === 'unavailable' ||
+	error?.code === 'storage/retry-limit-exceeded' ||
+	error?.code === 'deadline-exceeded' ||
+	error?.code === 'NETWORK_ERROR';
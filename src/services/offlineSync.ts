@@ -0,0 +1,270 @@
+import { db } from './firebase';
+import { recordExpenseChange } from './auditTrail';
+import { moveToTrash } from './trash';
+import { receiptUrlsOf, removeReceipts, uploadReceipts } from './receipts';
+import {
+	offlineCache,
+	isNetworkError,
+	isOnline,
+	CachedCollection,
+	OutboxEntry,
+	SyncStatus,
+} from './offlineCache';
+
+export interface ReplayResult {
+	collection: CachedCollection;
+	docId: string;
+	status: Exclude<SyncStatus, 'pending'>;
+	// Server copy after the write, or null if the document no longer exists
+	document: Record<string, any> | null;
+	// Fields where the server copy was kept over the offline change
+	conflictingFields: string[];
+	message?: string;
+}
+
+// Normalize Dates and nested values so they can be compared
+const normalize = (value: any): any => {
+	if (value instanceof Date) return value.getTime();
+	if (value && typeof value === 'object') return JSON.stringify(value);
+	return value ?? null;
+};
+
+const isSameValue = (a: any, b: any) => normalize(a) === normalize(b);
+
+const withId = (id: string, data: Record<string, any>) => ({ ...data, id });
+
+// Fields that only make sense together: a merge takes all of them from one
+// side, so the base amount always matches the amount and rate, and line
+// items and split shares add up to the amount
+const AMOUNT_FIELDS = [
+	'amount',
+	'currency',
+	'exchangeRate',
+	'amountInBaseCurrency',
+	'lineItems',
+	'itemized',
+	'split',
+];
+
+// Files queued with an entry, including a single one from earlier versions
+const receiptFilesOf = (entry: OutboxEntry): File[] => [
+	...(entry.receiptFile ? [entry.receiptFile] : []),
+	...(entry.receiptFiles || []),
+];
+
+/**
+ * Apply one queued write to the storage backend
+ * Updates only overwrite fields the server hasn't changed since the offline
+ * edit was made; fields changed on both sides keep the server value and are
+ * reported as conflicts, with the amount, currency, exchange rate, line item
+ * and split fields counting as one. Deletes move the document to the trash,
+ * and are skipped if the server copy changed.
+ * @param entry - Outbox entry
+ * @returns Outcome of the write
+ */
+export const replayEntry = async (
+	entry: OutboxEntry
+): Promise<ReplayResult> => {
+	const result: ReplayResult = {
+		collection: entry.collection,
+		docId: entry.docId,
+		status: 'synced',
+		document: null,
+		conflictingFields: [],
+	};
+
+	if (entry.op === 'create') {
+		const data = { ...entry.data };
+		const files = receiptFilesOf(entry);
+		if (files.length > 0) {
+			data.receiptUrls = await uploadReceipts(entry.accountId, files);
+		}
+
+		await db.set(entry.collection, entry.docId, data);
+		if (entry.collection === 'expenses') {
+			await recordExpenseChange({
+				expenseId: entry.docId,
+				accountId: entry.accountId,
+				action: 'create',
+				before: null,
+				after: data,
+			});
+		}
+		result.document = withId(entry.docId, data);
+		return result;
+	}
+
+	const server = await db.get(entry.collection, entry.docId);
+	const base = entry.base || null;
+
+	if (entry.op === 'delete') {
+		if (!server) return result;
+
+		if (base && !isSameValue(server.updatedAt, base.updatedAt)) {
+			// Someone edited the document after it was deleted here, keep theirs
+			result.status = 'conflict';
+			result.document = withId(entry.docId, server);
+			result.message = 'It was changed by someone else and was kept';
+			return result;
+		}
+
+		await moveToTrash(entry.collection, entry.docId, entry.accountId, server);
+		if (entry.collection === 'expenses') {
+			await recordExpenseChange({
+				expenseId: entry.docId,
+				accountId: entry.accountId,
+				action: 'delete',
+				before: server,
+				after: null,
+			});
+		}
+		return result;
+	}
+
+	// Update
+	if (!server) {
+		result.status = 'conflict';
+		result.message = 'It was deleted by someone else';
+		return result;
+	}
+
+	const changes = entry.data || {};
+	const isChangedOnServer = (field: string) =>
+		!!base &&
+		field !== 'updatedAt' &&
+		!isSameValue(server[field], base[field]) &&
+		!isSameValue(server[field], changes[field]);
+	// Any of them changed on the server keeps all of them from the server
+	const amountChangedOnServer = AMOUNT_FIELDS.some(isChangedOnServer);
+
+	const updates: Record<string, any> = {};
+	Object.entries(changes).forEach(([field, value]) => {
+		const changedOnServer = AMOUNT_FIELDS.includes(field)
+			? amountChangedOnServer && !isSameValue(server[field], value)
+			: isChangedOnServer(field);
+
+		if (changedOnServer) {
+			result.conflictingFields.push(field);
+		} else {
+			updates[field] = value;
+		}
+	});
+
+	// Receipts are added and removed one by one, so receipts attached on the
+	// server in the meantime are kept
+	const files = receiptFilesOf(entry);
+	if (entry.deleteReceipt || entry.receiptFile) {
+		// Earlier versions replaced every receipt
+		await removeReceipts(receiptUrlsOf(server));
+		updates.receiptUrls = await uploadReceipts(entry.accountId, files);
+	} else if (files.length > 0 || entry.removedReceiptUrls?.length) {
+		const removed = new Set(entry.removedReceiptUrls);
+		await removeReceipts(
+			receiptUrlsOf(server).filter((url) => removed.has(url))
+		);
+		updates.receiptUrls = [
+			...receiptUrlsOf(server).filter((url) => !removed.has(url)),
+			...(await uploadReceipts(entry.accountId, files)),
+		];
+	}
+
+	await db.update(entry.collection, entry.docId, updates);
+	if (entry.collection === 'expenses') {
+		await recordExpenseChange({
+			expenseId: entry.docId,
+			accountId: entry.accountId,
+			action: 'update',
+			before: server,
+			after: { ...server, ...updates },
+		});
+	}
+
+	if (result.conflictingFields.length > 0) {
+		result.status = 'conflict';
+		result.message = `Kept the newer server value for ${result.conflictingFields.join(
+			', '
+		)}`;
+	}
+	result.document = withId(entry.docId, { ...server, ...updates });
+	return result;
+};
+
+/**
+ * Run a remote write, or queue it in the outbox when there is no connection
+ * Writes to a document that already has queued changes are queued behind
+ * them so they reach the server in order.
+ * @param entry - Outbox entry describing the write
+ * @param write - Performs the write against the storage backend
+ * @returns 'synced' if the write reached the server, otherwise 'pending'
+ */
+export const writeOrQueue = async (
+	entry: Omit<OutboxEntry, 'seq' | 'createdAt'>,
+	write: () => Promise<void>
+): Promise<SyncStatus> => {
+	const pendingIds = await offlineCache.getPendingIds(entry.collection);
+
+	if (isOnline() && !pendingIds.has(entry.docId)) {
+		try {
+			await write();
+			return 'synced';
+		} catch (error: any) {
+			if (!isNetworkError(error)) throw error;
+		}
+	}
+
+	await offlineCache.enqueue(entry);
+	return 'pending';
+};
+
+/**
+ * Replay the outbox in the order the writes were made
+ * Stops at the first network failure so later writes never overtake earlier
+ * ones; anything left stays queued for the next attempt.
+ * @returns Results for every entry that was processed
+ */
+export const replayOutbox = async (): Promise<{
+	results: ReplayResult[];
+	remaining: number;
+}> => {
+	const outbox = await offlineCache.getOutbox();
+	const results: ReplayResult[] = [];
+	let processed = 0;
+
+	for (const entry of outbox) {
+		let result: ReplayResult;
+
+		try {
+			result = await replayEntry(entry);
+		} catch (error: any) {
+			if (isNetworkError(error)) break;
+
+			// Permanent failures (e.g. permissions) are dropped so they don't
+			// block the queue forever
+			console.error('Failed to replay offline change:', error);
+			result = {
+				collection: entry.collection,
+				docId: entry.docId,
+				status: 'failed',
+				document: null,
+				conflictingFields: [],
+				message: error.message,
+			};
+		}
+
+		await offlineCache.removeOutboxEntry(entry.seq!);
+		if (result.document) {
+			await offlineCache.put(entry.collection, {
+				...result.document,
+				id: entry.docId,
+				syncStatus: result.status,
+			} as { id: string });
+		} else if (result.status !== 'failed') {
+			await offlineCache.remove(entry.collection, entry.docId);
+		}
+
+		results.push(result);
+		processed += 1;
+	}
+
+	return { results, remaining: outbox.length - processed };
+};
@@ -0,0 +1,74 @@
+import { ocrProvider, OcrProvider } from './ocr';
+import {
+	ReceiptExtraction,
+	ReceiptField,
+	ReceiptParser,
+} from '../utils/receiptParser';
+
+export interface ReceiptExtractionResult {
+	fields: ReceiptExtraction;
+	// Recognized text, for showing the user what was read
+	text: string;
+	provider: string;
+}
+
+/**
+ * Receipt Extraction Service
+ * Reads a receipt file through the configured OCR provider and pulls the
+ * expense details out of the recognized text
+ */
+class ReceiptExtractionService {
+	constructor(private provider: OcrProvider) {}
+
+	/**
+	 * Use another OCR backend, e.g. a cloud vision service
+	 * @param provider - Provider to recognize receipts with
+	 */
+	setProvider(provider: OcrProvider): void {
+		this.provider = provider;
+	}
+
+	/**
+	 * Whether the current provider can read a file
+	 * @param file - Receipt file
+	 */
+	canRead(file: Blob & { name?: string }): boolean {
+		return this.provider.supports(file);
+	}
+
+	/**
+	 * Read a receipt
+	 * Field confidences are scaled by how sure the provider is of the text.
+	 * @param file - Receipt file
+	 * @returns The fields that were found
+	 * @throws Error if the provider can't read the file
+	 */
+	async extract(
+		file: Blob & { name?: string }
+	): Promise<ReceiptExtractionResult> {
+		const { text, confidence } = await this.provider.recognize(file);
+		const parsed = ReceiptParser.parse(text);
+
+		const fields: ReceiptExtraction = {};
+		(Object.keys(parsed) as ReceiptField[]).forEach((field) => {
+			const value = parsed[field];
+			if (value) {
+				(fields as Record<ReceiptField, unknown>)[field] = {
+					...value,
+					confidence: value.confidence * confidence,
+				};
+			}
+		});
+
+		return { fields, text, provider: this.provider.name };
+	}
+}
+
+// Export a singleton instance
+export const receiptExtraction = new ReceiptExtractionService(ocrProvider);
+
+export const extractReceipt = (file: Blob & { name?: string }) =>
+	receiptExtraction.extract(file);
+
+export const canReadReceipt = (file: Blob & { name?: string }) =>
+	receiptExtraction.canRead(file);
@@ -0,0 +1,158 @@
+import { storage } from './firebase';
+
+export type ReceiptKind = 'image' | 'pdf' | 'other';
+
+// Upload progress of one receipt file, from 0 to 1
+export interface ReceiptUploadProgress {
+	name: string;
+	progress: number;
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|svg|heic|heif)$/i;
+
+// Storage URLs carry the encoded path before the query string
+const pathOf = (url: string) => {
+	try {
+		return decodeURIComponent(url.split('?')[0]);
+	} catch {
+		return url.split('?')[0];
+	}
+};
+
+/**
+ * Receipt Service
+ * Uploads and removes the receipt files attached to expenses
+ */
+class ReceiptService {
+	/**
+	 * Upload receipts for an expense, all at once
+	 * If one upload fails, the files that did upload are removed again.
+	 * @param accountId - Account the expense belongs to
+	 * @param files - Receipt files
+	 * @param onProgress - Called with the progress of every file as it changes
+	 * @returns URLs of the uploaded receipts, in the order of the files
+	 */
+	async upload(
+		accountId: string,
+		files: File[],
+		onProgress?: (progress: ReceiptUploadProgress[]) => void
+	): Promise<string[]> {
+		if (files.length === 0) return [];
+
+		const progress = files.map((file) => ({ name: file.name, progress: 0 }));
+		onProgress?.(progress);
+
+		const timestamp = Date.now();
+		const results = await Promise.allSettled(
+			files.map((file, index) =>
+				storage.upload(
+					`receipts/${accountId}/${timestamp}-${index}_${file.name}`,
+					file,
+					(fraction) => {
+						progress[index] = { name: file.name, progress: fraction };
+						onProgress?.([...progress]);
+					}
+				)
+			)
+		);
+
+		const failed = results.find(
+			(result): result is PromiseRejectedResult => result.status === 'rejected'
+		);
+		if (failed) {
+			await this.remove(
+				results
+					.filter(
+						(result): result is PromiseFulfilledResult<string> =>
+							result.status === 'fulfilled'
+					)
+					.map((result) => result.value)
+			);
+			throw failed.reason;
+		}
+
+		return results.map(
+			(result) => (result as PromiseFulfilledResult<string>).value
+		);
+	}
+
+	/**
+	 * Remove receipt files, tolerating ones that are already gone
+	 * @param urls - Receipt URLs
+	 */
+	async remove(urls: string[] = []): Promise<void> {
+		for (const url of urls) {
+			try {
+				await storage.remove(url);
+			} catch (error) {
+				// A missing file shouldn't block the rest of the write
+				console.error('Failed to delete receipt:', error);
+			}
+		}
+	}
+
+	/**
+	 * Receipts of a stored expense, including ones written with a single
+	 * receiptUrl
+	 * @param expense - Stored expense
+	 */
+	urlsOf(expense: Record<string, any>): string[] {
+		return (
+			expense.receiptUrls ?? (expense.receiptUrl ? [expense.receiptUrl] : [])
+		);
+	}
+
+	/**
+	 * Tell images and PDFs apart, for inline data URLs and storage URLs
+	 * @param url - Receipt URL
+	 */
+	getKind(url: string): ReceiptKind {
+		if (url.startsWith('data:')) {
+			if (url.startsWith('data:image/')) return 'image';
+			if (url.startsWith('data:application/pdf')) return 'pdf';
+			return 'other';
+		}
+
+		const path = pathOf(url);
+		if (IMAGE_EXTENSIONS.test(path)) return 'image';
+		if (/\.pdf$/i.test(path)) return 'pdf';
+		return 'other';
+	}
+
+	/**
+	 * File name a receipt was uploaded with, for downloads
+	 * @param url - Receipt URL
+	 * @param index - Position of the receipt, used when the name is unknown
+	 */
+	getFileName(url: string, index = 0): string {
+		if (!url.startsWith('data:')) {
+			const name = pathOf(url).split('/').pop() || '';
+			// Uploads are prefixed with a timestamp
+			const original = name.replace(/^\d+(-\d+)?_/, '');
+			if (original) return original;
+		}
+
+		// Data URLs only know their type, e.g. data:image/png or application/pdf
+		const subtype = url.match(/^data:\w+\/(\w+)/)?.[1];
+		return `receipt-${index + 1}${subtype ? `.${subtype}` : ''}`;
+	}
+}
+
+// Export a singleton instance
+export const receipts = new ReceiptService();
+
+export const uploadReceipts = (
+	accountId: string,
+	files: File[],
+	onProgress?: (progress: ReceiptUploadProgress[]) => void
+) => receipts.upload(accountId, files, onProgress);
+
+export const removeReceipts = (urls?: string[]) => receipts.remove(urls);
+
+export const receiptUrlsOf = (expense: Record<string, any>) =>
+	receipts.urlsOf(expense);
+
+export const getReceiptKind = (url: string) => receipts.getKind(url);
+
+export const getReceiptFileName = (url: string, index?: number) =>
+	receipts.getFileName(url, index);
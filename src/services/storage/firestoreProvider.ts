@@ -0,0 +1,351 @@
+import { initializeApp } from 'firebase/app';
+import {
+	getAuth,
+	createUserWithEmailAndPassword,
+	signInWithEmailAndPassword,
+	signOut,
+	onAuthStateChanged,
+	GoogleAuthProvider,
+	signInWithPopup,
+	updateProfile,
+	updateEmail,
+	sendPasswordResetEmail,
+	confirmPasswordReset,
+	Auth,
+	User,
+} from 'firebase/auth';
+import {
+	getFirestore,
+	collection,
+	doc,
+	addDoc,
+	setDoc,
+	getDoc,
+	getDocs,
+	updateDoc,
+	deleteDoc,
+	onSnapshot,
+	writeBatch,
+	getAggregateFromServer,
+	count,
+	sum,
+	documentId,
+	query,
+	where,
+	orderBy,
+	limit,
+	startAfter,
+	arrayUnion,
+	arrayRemove,
+	Firestore,
+	Timestamp,
+	QueryConstraint,
+	Query,
+} from 'firebase/firestore';
+import {
+	getStorage,
+	ref,
+	uploadBytesResumable,
+	getDownloadURL,
+	deleteObject,
+	FirebaseStorage,
+} from 'firebase/storage';
+import {
+	AuthProvider,
+	AuthUser,
+	BatchWrite,
+	DatabaseProvider,
+	DocumentData,
+	FileStorageProvider,
+	MAX_BATCH_WRITES,
+	QueryOptions,
+	SnapshotListener,
+	StorageProvider,
+	StoredDocument,
+} from './types';
+
+// Firebase configuration interface
+export interface FirebaseConfig {
+	apiKey: string;
+	authDomain: string;
+	projectId: string;
+	storageBucket: string;
+	messagingSenderId: string;
+	appId: string;
+}
+
+// Convert Timestamps (including nested ones) to Dates
+const fromFirestore = (value: any): any => {
+	if (value instanceof Timestamp) return value.toDate();
+	if (Array.isArray(value)) return value.map(fromFirestore);
+	if (value && typeof value === 'object' && value.constructor === Object) {
+		const result: DocumentData = {};
+		Object.entries(value).forEach(([key, item]) => {
+			result[key] = fromFirestore(item);
+		});
+		return result;
+	}
+	return value;
+};
+
+// Firestore rejects undefined values and needs its own array transforms
+const toFirestore = (data: DocumentData): DocumentData => {
+	const result: DocumentData = {};
+	Object.entries(data).forEach(([key, value]) => {
+		if (value === undefined) return;
+		if (value && value.__transform === 'arrayUnion') {
+			result[key] = arrayUnion(...value.values);
+		} else if (value && value.__transform === 'arrayRemove') {
+			result[key] = arrayRemove(...value.values);
+		} else {
+			result[key] = value;
+		}
+	});
+	return result;
+};
+
+const toAuthUser = (user: User): AuthUser => ({
+	uid: user.uid,
+	email: user.email,
+	displayName: user.displayName,
+	photoURL: user.photoURL,
+	getIdToken: () => user.getIdToken(),
+});
+
+class FirestoreAuth implements AuthProvider {
+	constructor(private auth: Auth) {}
+
+	// Firebase APIs need the SDK user, not our wrapper
+	private requireUser(): User {
+		if (!this.auth.currentUser) throw new Error('No user is signed in');
+		return this.auth.currentUser;
+	}
+
+	getCurrentUser() {
+		return this.auth.currentUser ? toAuthUser(this.auth.currentUser) : null;
+	}
+
+	onAuthStateChanged(callback: (user: AuthUser | null) => void) {
+		return onAuthStateChanged(this.auth, (user) =>
+			callback(user ? toAuthUser(user) : null)
+		);
+	}
+
+	async signUp(email: string, password: string, displayName: string) {
+		const credential = await createUserWithEmailAndPassword(
+			this.auth,
+			email,
+			password
+		);
+		await updateProfile(credential.user, { displayName });
+		return toAuthUser(credential.user);
+	}
+
+	async signIn(email: string, password: string) {
+		const credential = await signInWithEmailAndPassword(
+			this.auth,
+			email,
+			password
+		);
+		return toAuthUser(credential.user);
+	}
+
+	async signInWithGoogle() {
+		const credential = await signInWithPopup(
+			this.auth,
+			new GoogleAuthProvider()
+		);
+		return toAuthUser(credential.user);
+	}
+
+	async signOut() {
+		await signOut(this.auth);
+	}
+
+	async updateProfile(
+		_user: AuthUser,
+		updates: { displayName?: string; photoURL?: string }
+	) {
+		await updateProfile(this.requireUser(), updates);
+	}
+
+	async updateEmail(_user: AuthUser, email: string) {
+		await updateEmail(this.requireUser(), email);
+	}
+
+	async sendPasswordReset(email: string) {
+		await sendPasswordResetEmail(this.auth, email);
+	}
+
+	async confirmPasswordReset(code: string, newPassword: string) {
+		await confirmPasswordReset(this.auth, code, newPassword);
+	}
+}
+
+class FirestoreDatabase implements DatabaseProvider {
+	constructor(private db: Firestore) {}
+
+	createId(collectionName: string) {
+		return doc(collection(this.db, collectionName)).id;
+	}
+
+	async get<T = DocumentData>(collectionName: string, id: string) {
+		const snapshot = await getDoc(doc(this.db, collectionName, id));
+		if (!snapshot.exists()) return null;
+		return fromFirestore({ ...snapshot.data(), id }) as StoredDocument<T>;
+	}
+
+	private buildQuery(collectionName: string, options: QueryOptions): Query {
+		const constraints: QueryConstraint[] = [
+			...(options.where || []).map((filter) =>
+				where(filter.field, filter.op, filter.value)
+			),
+			// Documents don't store their id; 'id' orders by document name
+			...(options.orderBy || []).map((order) =>
+				orderBy(
+					order.field === 'id' ? documentId() : order.field,
+					order.direction
+				)
+			),
+			...(options.startAfter ? [startAfter(...options.startAfter)] : []),
+			...(options.limit ? [limit(options.limit)] : []),
+		];
+
+		return query(collection(this.db, collectionName), ...constraints);
+	}
+
+	async query<T = DocumentData>(
+		collectionName: string,
+		options: QueryOptions = {}
+	) {
+		const snapshot = await getDocs(this.buildQuery(collectionName, options));
+		return snapshot.docs.map(
+			(item) =>
+				fromFirestore({ ...item.data(), id: item.id }) as StoredDocument<T>
+		);
+	}
+
+	async aggregate(
+		collectionName: string,
+		options: QueryOptions,
+		sumField: string
+	) {
+		const snapshot = await getAggregateFromServer(
+			this.buildQuery(collectionName, options),
+			{ count: count(), sum: sum(sumField) }
+		);
+		const { count: total, sum: amount } = snapshot.data();
+		return { count: total, sum: amount ?? 0 };
+	}
+
+	async add(collectionName: string, data: DocumentData) {
+		const docRef = await addDoc(
+			collection(this.db, collectionName),
+			toFirestore(data)
+		);
+		return docRef.id;
+	}
+
+	async set(collectionName: string, id: string, data: DocumentData) {
+		await setDoc(doc(this.db, collectionName, id), toFirestore(data));
+	}
+
+	async update(collectionName: string, id: string, data: DocumentData) {
+		await updateDoc(doc(this.db, collectionName, id), toFirestore(data));
+	}
+
+	async remove(collectionName: string, id: string) {
+		await deleteDoc(doc(this.db, collectionName, id));
+	}
+
+	async batch(writes: BatchWrite[]) {
+		if (writes.length > MAX_BATCH_WRITES) {
+			throw new Error(
+				`A batch can make at most ${MAX_BATCH_WRITES} writes, got ${writes.length}`
+			);
+		}
+
+		const batch = writeBatch(this.db);
+		writes.forEach((write) => {
+			const ref = doc(this.db, write.collection, write.id);
+			if (write.op === 'set') {
+				batch.set(ref, toFirestore(write.data));
+			} else if (write.op === 'update') {
+				batch.update(ref, toFirestore(write.data));
+			} else {
+				batch.delete(ref);
+			}
+		});
+		await batch.commit();
+	}
+
+	subscribe<T = DocumentData>(
+		collectionName: string,
+		options: QueryOptions,
+		onChange: SnapshotListener<T>,
+		onError?: (error: Error) => void
+	) {
+		let initial = true;
+
+		return onSnapshot(
+			this.buildQuery(collectionName, options),
+			(snapshot) => {
+				const changes = snapshot.docChanges().map((change) => ({
+					type: change.type,
+					doc: fromFirestore({
+						...change.doc.data(),
+						id: change.doc.id,
+					}) as StoredDocument<T>,
+					isLocal: change.doc.metadata.hasPendingWrites,
+				}));
+
+				if (changes.length > 0 || initial) {
+					onChange(changes, { initial });
+				}
+				initial = false;
+			},
+			(error) => onError?.(error)
+		);
+	}
+}
+
+class FirebaseFileStorage implements FileStorageProvider {
+	constructor(private storage: FirebaseStorage) {}
+
+	async upload(
+		path: string,
+		file: Blob,
+		onProgress?: (fraction: number) => void
+	) {
+		const task = uploadBytesResumable(ref(this.storage, path), file);
+		task.on('state_changed', (snapshot) => {
+			if (snapshot.totalBytes > 0) {
+				onProgress?.(snapshot.bytesTransferred / snapshot.totalBytes);
+			}
+		});
+		const snapshot = await task;
+		return getDownloadURL(snapshot.ref);
+	}
+
+	async remove(url: string) {
+		await deleteObject(ref(this.storage, url));
+	}
+}
+
+/**
+ * Create a provider backed by Firebase Auth, Firestore and Cloud Storage
+ * @param config - Firebase project configuration
+ * @returns Storage provider
+ */
+export const createFirestoreProvider = (
+	config: FirebaseConfig
+): StorageProvider => {
+	const app = initializeApp(config);
+
+	return {
+		name: 'firestore',
+		auth: new FirestoreAuth(getAuth(app)),
+		db: new FirestoreDatabase(getFirestore(app)),
+		files: new FirebaseFileStorage(getStorage(app)),
+	};
+};
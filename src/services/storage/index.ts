@@ -0,0 +1,58 @@
+import { createFirestoreProvider, FirebaseConfig } from './firestoreProvider';
+import { createLocalProvider } from './localProvider';
+import { ArrayTransform, StorageProvider } from './types';
+
+export * from './types';
+
+const firebaseConfig: FirebaseConfig = {
+	apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+	authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+	projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+	storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+	messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+	appId: import.meta.env.VITE_FIREBASE_APP_ID,
+};
+
+const isFirebaseConfigured = (): boolean =>
+	Object.values(firebaseConfig).every(Boolean);
+
+/**
+ * Pick the storage backend. VITE_STORAGE_PROVIDER selects it explicitly,
+ * otherwise Firestore is used when its config is present.
+ */
+const createStorageProvider = (): StorageProvider => {
+	const requested = import.meta.env.VITE_STORAGE_PROVIDER;
+
+	if (requested === 'local') {
+		return createLocalProvider();
+	}
+
+	if (!isFirebaseConfigured()) {
+		const missing = Object.entries(firebaseConfig)
+			.filter(([, value]) => !value)
+			.map(([key]) => key);
+		console.warn(
+			`Firebase is not configured (missing: ${missing.join(
+				', '
+			)}), falling back to local storage`
+		);
+		return createLocalProvider();
+	}
+
+	return createFirestoreProvider(firebaseConfig);
+};
+
+export const storageProvider = createStorageProvider();
+
+// Update helpers that work with any backend
+export const arrayUnion = (...values: any[]): ArrayTransform => ({
+	__transform: 'arrayUnion',
+	values,
+});
+
+export const arrayRemove = (...values: any[]): ArrayTransform => ({
+	__transform: 'arrayRemove',
+	values,
+});
+
+export default storageProvider;
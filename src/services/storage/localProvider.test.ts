@@ -0,0 +1,298 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalProvider } from './localProvider';
+import { DocumentChange, MAX_BATCH_WRITES, StorageProvider } from './types';
+
+// The first snapshot of a subscription arrives on the next tick
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('local database', () => {
+	let provider: StorageProvider;
+
+	beforeEach(async () => {
+		provider = createLocalProvider();
+		const { db } = provider;
+		await db.set('expenses', 'a', {
+			accountId: 'one',
+			amount: 30,
+			date: new Date(2024, 0, 3),
+			tags: ['work'],
+		});
+		await db.set('expenses', 'b', {
+			accountId: 'one',
+			amount: 10,
+			date: new Date(2024, 0, 1),
+		});
+		await db.set('expenses', 'c', {
+			accountId: 'two',
+			amount: 20,
+			date: new Date(2024, 0, 2),
+		});
+	});
+
+	describe('get', () => {
+		it('returns a copy of the document with its id', async () => {
+			const expense = await provider.db.get('expenses', 'a');
+
+			expect(expense).toMatchObject({ id: 'a', amount: 30 });
+			expect(expense?.date).toEqual(new Date(2024, 0, 3));
+
+			expense!.tags.push('changed');
+			expect((await provider.db.get('expenses', 'a'))?.tags).toEqual(['work']);
+		});
+
+		it('returns null for missing documents', async () => {
+			expect(await provider.db.get('expenses', 'missing')).toBeNull();
+		});
+	});
+
+	describe('query', () => {
+		it('filters, orders and limits', async () => {
+			const results = await provider.db.query('expenses', {
+				where: [{ field: 'accountId', op: '==', value: 'one' }],
+				orderBy: [{ field: 'date', direction: 'desc' }],
+			});
+			expect(results.map((expense) => expense.id)).toEqual(['a', 'b']);
+
+			const cheapest = await provider.db.query('expenses', {
+				orderBy: [{ field: 'amount' }],
+				limit: 2,
+			});
+			expect(cheapest.map((expense) => expense.id)).toEqual(['b', 'c']);
+		});
+
+		it('compares dates and array members', async () => {
+			const after = await provider.db.query('expenses', {
+				where: [{ field: 'date', op: '>', value: new Date(2024, 0, 1) }],
+			});
+			expect(after.map((expense) => expense.id).sort()).toEqual(['a', 'c']);
+
+			const tagged = await provider.db.query('expenses', {
+				where: [{ field: 'tags', op: 'array-contains', value: 'work' }],
+			});
+			expect(tagged.map((expense) => expense.id)).toEqual(['a']);
+		});
+
+		it('continues after a cursor', async () => {
+			const page = await provider.db.query('expenses', {
+				orderBy: [
+					{ field: 'date', direction: 'desc' },
+					{ field: 'id', direction: 'desc' },
+				],
+				startAfter: [new Date(2024, 0, 3), 'a'],
+				limit: 1,
+			});
+			expect(page.map((expense) => expense.id)).toEqual(['c']);
+		});
+
+		it('aggregates without loading documents', async () => {
+			expect(
+				await provider.db.aggregate(
+					'expenses',
+					{ where: [{ field: 'accountId', op: '==', value: 'one' }] },
+					'amount'
+				)
+			).toEqual({ count: 2, sum: 40 });
+		});
+	});
+
+	describe('update', () => {
+		it('applies array transforms', async () => {
+			await provider.db.update('expenses', 'a', {
+				tags: { __transform: 'arrayUnion', values: ['work', 'travel'] },
+			});
+			expect((await provider.db.get('expenses', 'a'))?.tags).toEqual([
+				'work',
+				'travel',
+			]);
+
+			await provider.db.update('expenses', 'a', {
+				tags: { __transform: 'arrayRemove', values: ['work'] },
+			});
+			expect((await provider.db.get('expenses', 'a'))?.tags).toEqual([
+				'travel',
+			]);
+		});
+
+		it('fails for missing documents', async () => {
+			await expect(
+				provider.db.update('expenses', 'missing', { amount: 1 })
+			).rejects.toThrow('No document to update');
+		});
+	});
+
+	describe('batch', () => {
+		it('makes every write', async () => {
+			await provider.db.batch([
+				{ op: 'set', collection: 'trash', id: 'a', data: { amount: 30 } },
+				{ op: 'remove', collection: 'expenses', id: 'a' },
+				{ op: 'update', collection: 'expenses', id: 'b', data: { amount: 5 } },
+			]);
+
+			expect(await provider.db.get('trash', 'a')).toMatchObject({ amount: 30 });
+			expect(await provider.db.get('expenses', 'a')).toBeNull();
+			expect(await provider.db.get('expenses', 'b')).toMatchObject({
+				amount: 5,
+			});
+		});
+
+		it('makes no write when one update has no document', async () => {
+			await expect(
+				provider.db.batch([
+					{ op: 'remove', collection: 'expenses', id: 'a' },
+					{
+						op: 'update',
+						collection: 'expenses',
+						id: 'missing',
+						data: { amount: 1 },
+					},
+				])
+			).rejects.toThrow('No document to update');
+
+			expect(await provider.db.get('expenses', 'a')).not.toBeNull();
+		});
+
+		it('rejects batches over the write limit', async () => {
+			const writes = Array.from(
+				{ length: MAX_BATCH_WRITES + 1 },
+				(_, index) => ({
+					op: 'set' as const,
+					collection: 'expenses',
+					id: `new-${index}`,
+					data: {},
+				})
+			);
+
+			await expect(provider.db.batch(writes)).rejects.toThrow('at most');
+			expect(await provider.db.get('expenses', 'new-0')).toBeNull();
+		});
+	});
+
+	describe('subscribe', () => {
+		it('reports matches, then changes to them', async () => {
+			const snapshots: [DocumentChange[], boolean][] = [];
+			const unsubscribe = provider.db.subscribe(
+				'expenses',
+				{ where: [{ field: 'accountId', op: '==', value: 'one' }] },
+				(changes, { initial }) => snapshots.push([changes, initial])
+			);
+			await tick();
+
+			expect(snapshots).toHaveLength(1);
+			expect(snapshots[0][1]).toBe(true);
+			expect(snapshots[0][0].map((change) => change.doc.id).sort()).toEqual([
+				'a',
+				'b',
+			]);
+
+			await provider.db.update('expenses', 'a', { amount: 35 });
+			await provider.db.set('expenses', 'd', { accountId: 'one', amount: 1 });
+			await provider.db.remove('expenses', 'b');
+			// Documents outside the query are not reported
+			await provider.db.update('expenses', 'c', { amount: 25 });
+
+			expect(
+				snapshots
+					.slice(1)
+					.map(([changes, initial]) =>
+						changes.map((change) => [
+							change.type,
+							change.doc.id,
+							change.isLocal,
+							initial,
+						])
+					)
+			).toEqual([
+				[['modified', 'a', true, false]],
+				[['added', 'd', true, false]],
+				[['removed', 'b', true, false]],
+			]);
+
+			unsubscribe();
+			await provider.db.remove('expenses', 'a');
+			expect(snapshots).toHaveLength(4);
+		});
+
+		it('reports nothing when unsubscribed before the first snapshot', async () => {
+			const listener = vi.fn();
+			provider.db.subscribe('expenses', {}, listener)();
+			await tick();
+
+			expect(listener).not.toHaveBeenCalled();
+		});
+	});
+});
+
+describe('local auth', () => {
+	let provider: StorageProvider;
+
+	beforeEach(() => {
+		provider = createLocalProvider();
+		vi.spyOn(console, 'info').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	// Code of the last reset link written to the console
+	const getResetCode = (): string => {
+		const calls = vi.mocked(console.info).mock.calls;
+		const message = String(calls[calls.length - 1][0]);
+		return message.split('oobCode=')[1];
+	};
+
+	it('signs up and signs in', async () => {
+		const user = await provider.auth.signUp('Ana@Example.com', 'secret', 'Ana');
+
+		expect(user).toMatchObject({
+			email: 'ana@example.com',
+			displayName: 'Ana',
+		});
+		await expect(
+			provider.auth.signIn('ana@example.com', 'wrong')
+		).rejects.toThrow('Invalid email or password');
+		expect((await provider.auth.signIn('ana@example.com', 'secret')).uid).toBe(
+			user.uid
+		);
+	});
+
+	it('resets a password with a one-time code', async () => {
+		await provider.auth.signUp('ana@example.com', 'secret', 'Ana');
+		await provider.auth.sendPasswordReset('ana@example.com');
+		const code = getResetCode();
+
+		// The address itself is not a code
+		await expect(
+			provider.auth.confirmPasswordReset('ana@example.com', 'changed')
+		).rejects.toThrow('Invalid or expired');
+
+		await provider.auth.confirmPasswordReset(code, 'changed');
+		await expect(
+			provider.auth.confirmPasswordReset(code, 'again')
+		).rejects.toThrow('Invalid or expired');
+		expect(
+			(await provider.auth.signIn('ana@example.com', 'changed')).email
+		).toBe('ana@example.com');
+	});
+
+	it('rejects expired codes', async () => {
+		await provider.auth.signUp('ana@example.com', 'secret', 'Ana');
+		await provider.auth.sendPasswordReset('ana@example.com');
+		const code = getResetCode();
+
+		vi.useFakeTimers({ now: Date.now() + 2 * 60 * 60 * 1000 });
+		try {
+			await expect(
+				provider.auth.confirmPasswordReset(code, 'changed')
+			).rejects.toThrow('Invalid or expired');
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('sends nothing for unknown addresses', async () => {
+		await provider.auth.sendPasswordReset('nobody@example.com');
+
+		expect(console.info).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,616 @@
+import {
+	AuthProvider,
+	AuthUser,
+	BatchWrite,
+	DatabaseProvider,
+	DocumentChange,
+	DocumentData,
+	FileStorageProvider,
+	MAX_BATCH_WRITES,
+	QueryFilter,
+	QueryOptions,
+	SnapshotListener,
+	StorageProvider,
+	StoredDocument,
+} from './types';
+
+const STORAGE_KEY = 'aifinacker-local-db';
+const SESSION_KEY = 'aifinacker-local-session';
+
+// Fake auth accounts live in their own collection so they never collide with app data
+const AUTH_COLLECTION = '__auth';
+
+// How long a password reset code can be used, like Firebase's reset links
+const RESET_CODE_TTL_MS = 60 * 60 * 1000;
+
+type Collections = Record<string, Record<string, DocumentData>>;
+
+interface Subscription {
+	collection: string;
+	options: QueryOptions;
+	onChange: SnapshotListener<any>;
+	// Changes are only reported after the first snapshot
+	initialized: boolean;
+	// Serialized copy of each matching document as last reported
+	reported: Map<string, string>;
+}
+
+const hasLocalStorage = (): boolean => {
+	try {
+		return typeof localStorage !== 'undefined';
+	} catch {
+		return false;
+	}
+};
+
+// Dates are tagged so they survive the JSON round trip
+const serialize = (data: DocumentData): string =>
+	JSON.stringify(data, function (key, value) {
+		const raw = this[key];
+		return raw instanceof Date ? { __date: raw.toISOString() } : value;
+	});
+
+const deserialize = (json: string): Collections =>
+	JSON.parse(json, (_key, value) =>
+		value && typeof value === 'object' && typeof value.__date === 'string'
+			? new Date(value.__date)
+			: value
+	);
+
+const clone = <T>(value: T): T => {
+	if (value instanceof Date) return new Date(value.getTime()) as any;
+	if (Array.isArray(value)) return value.map(clone) as any;
+	if (value && typeof value === 'object') {
+		const result: DocumentData = {};
+		Object.entries(value).forEach(([key, item]) => {
+			result[key] = clone(item);
+		});
+		return result as T;
+	}
+	return value;
+};
+
+const getField = (data: DocumentData, field: string): any =>
+	field
+		.split('.')
+		.reduce((value, key) => (value == null ? value : value[key]), data);
+
+const comparable = (value: any): any =>
+	value instanceof Date ? value.getTime() : value;
+
+const matches = (data: DocumentData, filter: QueryFilter): boolean => {
+	const value = comparable(getField(data, filter.field));
+	const expected = comparable(filter.value);
+
+	switch (filter.op) {
+		case '==':
+			return value === expected;
+		case '!=':
+			return value !== undefined && value !== expected;
+		case '<':
+			return value !== undefined && value < expected;
+		case '<=':
+			return value !== undefined && value <= expected;
+		case '>':
+			return value !== undefined && value > expected;
+		case '>=':
+			return value !== undefined && value >= expected;
+		case 'in':
+			return (filter.value as any[]).map(comparable).includes(value);
+		case 'array-contains':
+			return Array.isArray(value) && value.includes(expected);
+		default:
+			return false;
+	}
+};
+
+// Apply arrayUnion/arrayRemove sentinels against the current value
+const applyUpdate = (
+	current: DocumentData,
+	updates: DocumentData
+): DocumentData => {
+	const result = { ...current };
+	Object.entries(updates).forEach(([key, value]) => {
+		if (value === undefined) return;
+		if (value && value.__transform === 'arrayUnion') {
+			const existing: any[] = Array.isArray(result[key]) ? result[key] : [];
+			const additions = (value.values as any[]).filter(
+				(item) =>
+					!existing.some(
+						(entry) => JSON.stringify(entry) === JSON.stringify(item)
+					)
+			);
+			result[key] = [...existing, ...additions];
+		} else if (value && value.__transform === 'arrayRemove') {
+			const existing: any[] = Array.isArray(result[key]) ? result[key] : [];
+			const removals = (value.values as any[]).map((item) =>
+				JSON.stringify(item)
+			);
+			result[key] = existing.filter(
+				(entry) => !removals.includes(JSON.stringify(entry))
+			);
+		} else {
+			result[key] = clone(value);
+		}
+	});
+	return result;
+};
+
+const stripUndefined = (data: DocumentData): DocumentData =>
+	applyUpdate({}, data);
+
+// Unguessable code for a password reset link
+const createResetCode = (): string => {
+	const bytes = new Uint8Array(16);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+		''
+	);
+};
+
+class LocalDatabase implements DatabaseProvider {
+	private collections: Collections = {};
+	private subscriptions: Subscription[] = [];
+
+	constructor() {
+		if (!hasLocalStorage()) return;
+		const stored = localStorage.getItem(STORAGE_KEY);
+		if (stored) {
+			try {
+				this.collections = deserialize(stored);
+			} catch (error) {
+				console.warn('Local storage data is corrupt, starting empty', error);
+			}
+		}
+
+		// Other tabs write the same storage key, which stands in for other users
+		if (typeof window !== 'undefined') {
+			window.addEventListener('storage', (event) => {
+				if (event.key !== STORAGE_KEY || !event.newValue) return;
+				try {
+					this.collections = deserialize(event.newValue);
+					this.notify(null, false);
+				} catch (error) {
+					console.warn(
+						'Ignoring unreadable local data from another tab',
+						error
+					);
+				}
+			});
+		}
+	}
+
+	private persist(): void {
+		if (!hasLocalStorage()) return;
+		try {
+			localStorage.setItem(STORAGE_KEY, serialize(this.collections));
+		} catch (error) {
+			console.warn('Failed to persist local data', error);
+		}
+	}
+
+	private table(collectionName: string): Record<string, DocumentData> {
+		if (!this.collections[collectionName]) {
+			this.collections[collectionName] = {};
+		}
+		return this.collections[collectionName];
+	}
+
+	createId(_collectionName: string) {
+		const random = Math.random().toString(36).slice(2, 12);
+		return `${Date.now().toString(36)}${random}`;
+	}
+
+	async get<T = DocumentData>(collectionName: string, id: string) {
+		const data = this.table(collectionName)[id];
+		return data ? (clone({ ...data, id }) as StoredDocument<T>) : null;
+	}
+
+	private runQuery(collectionName: string, options: QueryOptions) {
+		let results = Object.entries(this.table(collectionName))
+			.map(([id, data]) => ({ ...data, id }))
+			.filter((data) =>
+				(options.where || []).every((filter) => matches(data, filter))
+			);
+
+		const orders = options.orderBy || [];
+		const compare = (a: DocumentData, b: DocumentData) => {
+			for (const order of orders) {
+				const left = comparable(getField(a, order.field));
+				const right = comparable(getField(b, order.field));
+				if (left === right) continue;
+				const result = left < right ? -1 : 1;
+				return order.direction === 'desc' ? -result : result;
+			}
+			return 0;
+		};
+		if (orders.length > 0) {
+			results = results.sort(compare);
+		}
+
+		if (options.startAfter) {
+			const cursor: DocumentData = {};
+			orders.forEach((order, index) => {
+				cursor[order.field] = options.startAfter?.[index];
+			});
+			results = results.filter((data) => compare(data, cursor) > 0);
+		}
+
+		if (options.limit) {
+			results = results.slice(0, options.limit);
+		}
+
+		return results;
+	}
+
+	// Report changes to subscribers of a collection, or of all collections
+	private notify(collectionName: string | null, isLocal: boolean): void {
+		this.subscriptions
+			.filter(
+				(subscription) =>
+					subscription.initialized &&
+					(collectionName === null ||
+						subscription.collection === collectionName)
+			)
+			.forEach((subscription) => {
+				const changes: DocumentChange[] = [];
+				const current = new Map<string, string>();
+
+				this.runQuery(subscription.collection, subscription.options).forEach(
+					(data) => {
+						const serialized = serialize({ data });
+						const previous = subscription.reported.get(data.id);
+						current.set(data.id, serialized);
+
+						if (previous !== serialized) {
+							changes.push({
+								type: previous === undefined ? 'added' : 'modified',
+								doc: clone(data) as StoredDocument,
+								isLocal,
+							});
+						}
+					}
+				);
+
+				subscription.reported.forEach((serialized, id) => {
+					if (!current.has(id)) {
+						changes.push({
+							type: 'removed',
+							doc: { ...deserialize(serialized).data, id },
+							isLocal,
+						});
+					}
+				});
+
+				subscription.reported = current;
+				if (changes.length > 0) {
+					subscription.onChange(changes, { initial: false });
+				}
+			});
+	}
+
+	async query<T = DocumentData>(
+		collectionName: string,
+		options: QueryOptions = {}
+	) {
+		return this.runQuery(collectionName, options).map(
+			(data) => clone(data) as StoredDocument<T>
+		);
+	}
+
+	async aggregate(
+		collectionName: string,
+		options: QueryOptions,
+		sumField: string
+	) {
+		const results = this.runQuery(collectionName, options);
+		return {
+			count: results.length,
+			sum: results.reduce(
+				(total, data) => total + (Number(getField(data, sumField)) || 0),
+				0
+			),
+		};
+	}
+
+	async add(collectionName: string, data: DocumentData) {
+		const id = this.createId(collectionName);
+		await this.set(collectionName, id, data);
+		return id;
+	}
+
+	async set(collectionName: string, id: string, data: DocumentData) {
+		this.table(collectionName)[id] = stripUndefined(data);
+		this.persist();
+		this.notify(collectionName, true);
+	}
+
+	async update(collectionName: string, id: string, data: DocumentData) {
+		const current = this.table(collectionName)[id];
+		if (!current) {
+			throw new Error(`No document to update: ${collectionName}/${id}`);
+		}
+		this.table(collectionName)[id] = applyUpdate(current, data);
+		this.persist();
+		this.notify(collectionName, true);
+	}
+
+	async remove(collectionName: string, id: string) {
+		delete this.table(collectionName)[id];
+		this.persist();
+		this.notify(collectionName, true);
+	}
+
+	async batch(writes: BatchWrite[]) {
+		// Same limit as Firestore, so code that works here works there
+		if (writes.length > MAX_BATCH_WRITES) {
+			throw new Error(
+				`A batch can make at most ${MAX_BATCH_WRITES} writes, got ${writes.length}`
+			);
+		}
+
+		// Check every update first, so a missing document changes nothing
+		writes.forEach((write) => {
+			if (write.op === 'update' && !this.table(write.collection)[write.id]) {
+				throw new Error(
+					`No document to update: ${write.collection}/${write.id}`
+				);
+			}
+		});
+
+		writes.forEach((write) => {
+			const table = this.table(write.collection);
+			if (write.op === 'set') {
+				table[write.id] = stripUndefined(write.data);
+			} else if (write.op === 'update') {
+				table[write.id] = applyUpdate(table[write.id], write.data);
+			} else {
+				delete table[write.id];
+			}
+		});
+		this.persist();
+		new Set(writes.map((write) => write.collection)).forEach((collectionName) =>
+			this.notify(collectionName, true)
+		);
+	}
+
+	subscribe<T = DocumentData>(
+		collectionName: string,
+		options: QueryOptions,
+		onChange: SnapshotListener<T>
+	) {
+		const subscription: Subscription = {
+			collection: collectionName,
+			options,
+			onChange,
+			initialized: false,
+			reported: new Map(),
+		};
+		this.subscriptions.push(subscription);
+
+		// Match Firebase, which delivers the first snapshot asynchronously
+		const timer = setTimeout(() => {
+			const results = this.runQuery(collectionName, options);
+			results.forEach((data) =>
+				subscription.reported.set(data.id, serialize({ data }))
+			);
+			subscription.initialized = true;
+			onChange(
+				results.map((data) => ({
+					type: 'added',
+					doc: clone(data) as StoredDocument<T>,
+					isLocal: false,
+				})),
+				{ initial: true }
+			);
+		}, 0);
+
+		return () => {
+			clearTimeout(timer);
+			this.subscriptions = this.subscriptions.filter(
+				(entry) => entry !== subscription
+			);
+		};
+	}
+}
+
+/**
+ * Fake authentication for local development. Passwords are stored in plain
+ * text on this device only, so never point this at real credentials.
+ */
+class LocalAuth implements AuthProvider {
+	private currentUser: AuthUser | null = null;
+	private listeners: ((user: AuthUser | null) => void)[] = [];
+
+	constructor(private db: LocalDatabase) {
+		const uid = hasLocalStorage() ? localStorage.getItem(SESSION_KEY) : null;
+		if (uid) {
+			this.db.get(AUTH_COLLECTION, uid).then((account) => {
+				if (account) this.setCurrentUser(this.toAuthUser(account));
+			});
+		}
+	}
+
+	private toAuthUser(account: StoredDocument): AuthUser {
+		return {
+			uid: account.id,
+			email: account.email || null,
+			displayName: account.displayName || null,
+			photoURL: account.photoURL || null,
+			getIdToken: async () => `local:${account.id}`,
+		};
+	}
+
+	private setCurrentUser(user: AuthUser | null): void {
+		this.currentUser = user;
+		if (hasLocalStorage()) {
+			if (user) localStorage.setItem(SESSION_KEY, user.uid);
+			else localStorage.removeItem(SESSION_KEY);
+		}
+		this.listeners.forEach((listener) => listener(user));
+	}
+
+	private async findByEmail(email: string) {
+		const [account] = await this.db.query(AUTH_COLLECTION, {
+			where: [{ field: 'email', op: '==', value: email.toLowerCase() }],
+			limit: 1,
+		});
+		return account || null;
+	}
+
+	private async refresh(uid: string): Promise<void> {
+		const account = await this.db.get(AUTH_COLLECTION, uid);
+		if (account) this.setCurrentUser(this.toAuthUser(account));
+	}
+
+	getCurrentUser() {
+		return this.currentUser;
+	}
+
+	onAuthStateChanged(callback: (user: AuthUser | null) => void) {
+		this.listeners.push(callback);
+		// Match Firebase, which reports the initial state asynchronously
+		setTimeout(() => callback(this.currentUser), 0);
+		return () => {
+			this.listeners = this.listeners.filter(
+				(listener) => listener !== callback
+			);
+		};
+	}
+
+	async signUp(email: string, password: string, displayName: string) {
+		if (await this.findByEmail(email)) {
+			throw new Error('An account with this email already exists');
+		}
+		const uid = await this.db.add(AUTH_COLLECTION, {
+			email: email.toLowerCase(),
+			password,
+			displayName,
+			photoURL: null,
+		});
+		await this.refresh(uid);
+		return this.currentUser as AuthUser;
+	}
+
+	async signIn(email: string, password: string) {
+		const account = await this.findByEmail(email);
+		if (!account || account.password !== password) {
+			throw new Error('Invalid email or password');
+		}
+		await this.refresh(account.id);
+		return this.currentUser as AuthUser;
+	}
+
+	async signInWithGoogle() {
+		// There is no identity provider locally, so sign in as a shared demo user
+		const email = 'demo@localhost';
+		const account = await this.findByEmail(email);
+		const uid =
+			account?.id ||
+			(await this.db.add(AUTH_COLLECTION, {
+				email,
+				password: null,
+				displayName: 'Demo User',
+				photoURL: null,
+			}));
+		await this.refresh(uid);
+		return this.currentUser as AuthUser;
+	}
+
+	async signOut() {
+		this.setCurrentUser(null);
+	}
+
+	async updateProfile(
+		user: AuthUser,
+		updates: { displayName?: string; photoURL?: string }
+	) {
+		await this.db.update(AUTH_COLLECTION, user.uid, updates);
+		await this.refresh(user.uid);
+	}
+
+	async updateEmail(user: AuthUser, email: string) {
+		await this.db.update(AUTH_COLLECTION, user.uid, {
+			email: email.toLowerCase(),
+		});
+		await this.refresh(user.uid);
+	}
+
+	async sendPasswordReset(email: string) {
+		// Unknown addresses succeed silently, as with Firebase
+		const account = await this.findByEmail(email);
+		if (!account) return;
+
+		// There is no mail locally, so the one-time link goes to the console
+		const code = createResetCode();
+		await this.db.update(AUTH_COLLECTION, account.id, {
+			resetCode: code,
+			resetCodeExpires: new Date(Date.now() + RESET_CODE_TTL_MS),
+		});
+		console.info(
+			`Local password reset link for ${email}: /auth/reset-password?oobCode=${code}`
+		);
+	}
+
+	async confirmPasswordReset(code: string, newPassword: string) {
+		const [account] = code
+			? await this.db.query(AUTH_COLLECTION, {
+					where: [{ field: 'resetCode', op: '==', value: code }],
+					limit: 1,
+			  })
+			: [];
+		if (!account || !(account.resetCodeExpires > new Date())) {
+			throw new Error('Invalid or expired password reset code');
+		}
+		// Each code works once
+		await this.db.update(AUTH_COLLECTION, account.id, {
+			password: newPassword,
+			resetCode: null,
+			resetCodeExpires: null,
+		});
+	}
+}
+
+// Files are kept inline as data URLs, which is fine for receipts in development
+class LocalFileStorage implements FileStorageProvider {
+	async upload(
+		_path: string,
+		file: Blob,
+		onProgress?: (fraction: number) => void
+	) {
+		return new Promise<string>((resolve, reject) => {
+			const reader = new FileReader();
+			reader.onprogress = (event) => {
+				if (event.lengthComputable && event.total > 0) {
+					onProgress?.(event.loaded / event.total);
+				}
+			};
+			reader.onload = () => {
+				onProgress?.(1);
+				resolve(reader.result as string);
+			};
+			reader.onerror = () => reject(reader.error);
+			reader.readAsDataURL(file);
+		});
+	}
+
+	async remove(_url: string) {
+		// Data URLs are stored on the document itself, nothing else to clean up
+	}
+}
+
+/**
+ * Create a provider that keeps everything on this device. Used for local
+ * development and whenever Firebase is not configured.
+ * @returns Storage provider
+ */
+export const createLocalProvider = (): StorageProvider => {
+	const db = new LocalDatabase();
+
+	return {
+		name: 'local',
+		auth: new LocalAuth(db),
+		db,
+		files: new LocalFileStorage(),
+	};
+};
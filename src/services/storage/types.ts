@@ -0,0 +1,154 @@
+// Storage provider contracts shared by the Firestore and local backends
+
+export type DocumentData = Record<string, any>;
+
+// Stored document with its id; date fields are always returned as Dates
+export type StoredDocument<T = DocumentData> = T & { id: string };
+
+export type FilterOperator =
+	| '=='
+	| '!='
+	| '<'
+	| '<='
+	| '>'
+	| '>='
+	| 'in'
+	| 'array-contains';
+
+export interface QueryFilter {
+	field: string;
+	op: FilterOperator;
+	value: any;
+}
+
+export interface QueryOrder {
+	field: string;
+	direction?: 'asc' | 'desc';
+}
+
+export interface QueryOptions {
+	where?: QueryFilter[];
+	orderBy?: QueryOrder[];
+	limit?: number;
+	// Values of the orderBy fields of the last document of the previous page;
+	// results continue after it. Order by 'id' last to break ties.
+	startAfter?: any[];
+}
+
+export interface AggregateResult {
+	count: number;
+	sum: number;
+}
+
+export interface DocumentChange<T = DocumentData> {
+	type: 'added' | 'modified' | 'removed';
+	doc: StoredDocument<T>;
+	// The change was made on this device and may not have reached the server
+	isLocal: boolean;
+}
+
+export interface SnapshotMetadata {
+	// The first snapshot of a subscription, reporting every match as 'added'
+	initial: boolean;
+}
+
+export type SnapshotListener<T = DocumentData> = (
+	changes: DocumentChange<T>[],
+	metadata: SnapshotMetadata
+) => void;
+
+// Sentinel values for updates that modify an array instead of replacing it
+export interface ArrayTransform {
+	__transform: 'arrayUnion' | 'arrayRemove';
+	values: any[];
+}
+
+// Most writes one batch may make (Firestore's limit); larger jobs are
+// split into several batches
+export const MAX_BATCH_WRITES = 500;
+
+// One write of a batch; update data may use array transforms
+export type BatchWrite =
+	| { op: 'set'; collection: string; id: string; data: DocumentData }
+	| { op: 'update'; collection: string; id: string; data: DocumentData }
+	| { op: 'remove'; collection: string; id: string };
+
+export interface AuthUser {
+	uid: string;
+	email: string | null;
+	displayName: string | null;
+	photoURL: string | null;
+	getIdToken: () => Promise<string>;
+}
+
+export interface AuthProvider {
+	getCurrentUser(): AuthUser | null;
+	onAuthStateChanged(callback: (user: AuthUser | null) => void): () => void;
+	signUp(
+		email: string,
+		password: string,
+		displayName: string
+	): Promise<AuthUser>;
+	signIn(email: string, password: string): Promise<AuthUser>;
+	signInWithGoogle(): Promise<AuthUser>;
+	signOut(): Promise<void>;
+	updateProfile(
+		user: AuthUser,
+		updates: { displayName?: string; photoURL?: string }
+	): Promise<void>;
+	updateEmail(user: AuthUser, email: string): Promise<void>;
+	sendPasswordReset(email: string): Promise<void>;
+	confirmPasswordReset(code: string, newPassword: string): Promise<void>;
+}
+
+export interface DatabaseProvider {
+	// Generate an id locally, before the document is written
+	createId(collection: string): string;
+	get<T = DocumentData>(
+		collection: string,
+		id: string
+	): Promise<StoredDocument<T> | null>;
+	query<T = DocumentData>(
+		collection: string,
+		options?: QueryOptions
+	): Promise<StoredDocument<T>[]>;
+	add(collection: string, data: DocumentData): Promise<string>;
+	set(collection: string, id: string, data: DocumentData): Promise<void>;
+	update(collection: string, id: string, data: DocumentData): Promise<void>;
+	remove(collection: string, id: string): Promise<void>;
+	// Apply several writes together; either all of them are made or none
+	batch(writes: BatchWrite[]): Promise<void>;
+	// Count the documents matching a query and total one numeric field,
+	// without loading the documents
+	aggregate(
+		collection: string,
+		options: QueryOptions,
+		sumField: string
+	): Promise<AggregateResult>;
+	// Listen for changes to the documents matching a query; returns a function
+	// that stops listening
+	subscribe<T = DocumentData>(
+		collection: string,
+		options: QueryOptions,
+		onChange: SnapshotListener<T>,
+		onError?: (error: Error) => void
+	): () => void;
+}
+
+export interface FileStorageProvider {
+	// Store a file and return a URL it can be displayed from. onProgress is
+	// called with the fraction uploaded so far, from 0 to 1.
+	upload(
+		path: string,
+		file: Blob & { name?: string },
+		onProgress?: (fraction: number) => void
+	): Promise<string>;
+	remove(url: string): Promise<void>;
+}
+
+export interface StorageProvider {
+	name: 'firestore' | 'local';
+	auth: AuthProvider;
+	db: DatabaseProvider;
+	files: FileStorageProvider;
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from './firebase';
+import { removeReceipts } from './receipts';
+import { TRASH_COLLECTION, trash } from './trash';
+import { SCHEMA_VERSIONS } from '../models/migrations';
+
+vi.mock('./firebase', async () => {
+	const { createLocalProvider } = await import('./storage/localProvider');
+	return {
+		db: createLocalProvider().db,
+		currentMemberRef: () => ({ uid: 'ana', displayName: 'Ana' }),
+	};
+});
+
+vi.mock('./receipts', () => ({ removeReceipts: vi.fn() }));
+
+const account = {
+	name: 'Home',
+	description: '',
+	baseCurrency: 'USD',
+	createdAt: new Date(2024, 0, 1),
+	createdBy: 'ana',
+	members: [
+		{
+			uid: 'ana',
+			email: 'ana@example.com',
+			displayName: 'Ana',
+			role: 'admin',
+			joinedAt: new Date(2024, 0, 1),
+		},
+	],
+	settings: { theme: 'system', categories: ['Food'], defaultCategory: 'Food' },
+};
+
+describe('trash', () => {
+	beforeEach(async () => {
+		vi.mocked(removeReceipts).mockClear();
+		await db.set('accounts', 'home', account);
+		await db.set('expenses', 'lunch', {
+			accountId: 'home',
+			description: 'Lunch',
+			receiptUrls: ['lunch.png'],
+		});
+		await db.set('expenses', 'taxi', {
+			accountId: 'home',
+			description: 'Taxi',
+			receiptUrls: ['taxi.png'],
+		});
+		await trash.moveToTrash('expenses', 'taxi', 'home', {
+			accountId: 'home',
+			description: 'Taxi',
+			receiptUrls: ['taxi.png'],
+		});
+	});
+
+	describe('moveToTrash', () => {
+		it('stamps the trash document with its schema version', async () => {
+			expect(await db.get(TRASH_COLLECTION, 'expenses_taxi')).toMatchObject({
+				docId: 'taxi',
+				schemaVersion: SCHEMA_VERSIONS.trash,
+			});
+		});
+	});
+
+	describe('purge', () => {
+		it('removes the receipts of a purged expense', async () => {
+			const item = await trash.getItem('expenses', 'taxi');
+			await trash.purge(item!);
+
+			expect(removeReceipts).toHaveBeenCalledWith(['taxi.png']);
+			expect(await trash.getItem('expenses', 'taxi')).toBeNull();
+		});
+
+		it('removes trashed expense receipts with the account', async () => {
+			await trash.moveToTrash('accounts', 'home', 'home', account);
+			const item = await trash.getItem('accounts', 'home');
+			await trash.purge(item!);
+
+			expect(removeReceipts).toHaveBeenCalledWith(['lunch.png']);
+			expect(removeReceipts).toHaveBeenCalledWith(['taxi.png']);
+			expect(await db.get('expenses', 'lunch')).toBeNull();
+			expect(
+				await db.query(TRASH_COLLECTION, {
+					where: [{ field: 'accountId', op: '==', value: 'home' }],
+				})
+			).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,274 @@
+import { addDays } from 'date-fns';
+import { db, currentMemberRef } from './firebase';
+import { BatchWrite, DocumentData, StoredDocument } from './storage';
+import { recordExpenseChange } from './auditTrail';
+import { removeReceipts } from './receipts';
+import { ACCOUNT_COLLECTIONS } from '../models/collections';
+import { convertDocuments, toAccount } from '../models/converters';
+import { withSchemaVersion } from '../models/migrations';
+import { TrashCollection, TrashItem, trashItemSchema } from '../models/schemas';
+
+export const TRASH_COLLECTION = 'trash';
+
+// Days a deleted item can be restored before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const trashId = (collection: TrashCollection, docId: string) =>
+	`${collection}_${docId}`;
+
+// Local-only fields are dropped, and storage backends reject undefined
+const toStoredData = (data: DocumentData): DocumentData =>
+	Object.fromEntries(
+		Object.entries(data).filter(
+			([field, value]) =>
+				value !== undefined && field !== 'id' && field !== 'syncStatus'
+		)
+	);
+
+const toTrashItems = (docs: DocumentData[]) =>
+	convertDocuments(docs as TrashItem[], (doc) => trashItemSchema.parse(doc));
+
+/**
+ * Trash Service
+ * Deleting an expense, budget or account moves its document here. It can be
+ * restored until the retention period ends; after that it is purged along
+ * with its receipts (and, for accounts, everything recorded in them).
+ */
+class TrashService {
+	/**
+	 * Move a document to the trash, in one batch so it is never in both
+	 * places or in neither
+	 * @param collection - Collection the document is deleted from
+	 * @param docId - Document id
+	 * @param accountId - Account the document belongs to
+	 * @param data - The document as stored
+	 */
+	async moveToTrash(
+		collection: TrashCollection,
+		docId: string,
+		accountId: string,
+		data: DocumentData
+	): Promise<void> {
+		const docs = [{ ...data, id: docId }];
+
+		await db.batch(
+			collection === 'accounts'
+				? this.toMoveWrites(collection, accountId, docs, docs[0])
+				: await this.getMoveToTrashWrites(collection, accountId, docs)
+		);
+	}
+
+	/**
+	 * Get the writes that move several expenses or budgets of an account to
+	 * the trash, for deleting them in one batch
+	 * @param collection - Collection the documents are deleted from
+	 * @param accountId - Account the documents belong to
+	 * @param docs - The documents as stored, with their ids
+	 * @returns Two writes per document
+	 */
+	async getMoveToTrashWrites(
+		collection: Exclude<TrashCollection, 'accounts'>,
+		accountId: string,
+		docs: DocumentData[]
+	): Promise<BatchWrite[]> {
+		const account = await db.get('accounts', accountId);
+		return this.toMoveWrites(collection, accountId, docs, account);
+	}
+
+	private toMoveWrites(
+		collection: TrashCollection,
+		accountId: string,
+		docs: DocumentData[],
+		storedAccount: StoredDocument | null
+	): BatchWrite[] {
+		return docs.flatMap(({ id, ...data }): BatchWrite[] => [
+			{
+				op: 'set',
+				collection: TRASH_COLLECTION,
+				id: trashId(collection, id),
+				data: this.toTrashDocument(
+					collection,
+					id,
+					accountId,
+					data,
+					storedAccount
+				),
+			},
+			{ op: 'remove', collection, id },
+		]);
+	}
+
+	private toTrashDocument(
+		collection: TrashCollection,
+		docId: string,
+		accountId: string,
+		data: DocumentData,
+		storedAccount: StoredDocument | null
+	): DocumentData {
+		const [account] = convertDocuments(
+			storedAccount ? [storedAccount] : [],
+			toAccount
+		);
+		const deletedAt = new Date();
+
+		return withSchemaVersion('trash', {
+			accountId,
+			collection,
+			docId,
+			label: String(data.description ?? data.name ?? ''),
+			data: toStoredData(data),
+			deletedAt,
+			deletedBy: currentMemberRef() || { uid: '', displayName: '' },
+			purgeAt: addDays(deletedAt, TRASH_RETENTION_DAYS),
+			adminUids: (account?.members || [])
+				.filter((member) => member.role === 'admin')
+				.map((member) => member.uid),
+		});
+	}
+
+	/**
+	 * Get the deleted expenses and budgets of an account
+	 * @param accountId - Account id
+	 * @returns Trash items, most recently deleted first
+	 */
+	async getAccountTrash(accountId: string): Promise<TrashItem[]> {
+		const docs = await db.query(TRASH_COLLECTION, {
+			where: [
+				{ field: 'accountId', op: '==', value: accountId },
+				{ field: 'collection', op: 'in', value: ['expenses', 'budgets'] },
+			],
+			orderBy: [{ field: 'deletedAt', direction: 'desc' }],
+		});
+		return toTrashItems(docs);
+	}
+
+	/**
+	 * Get the deleted accounts a user was an admin of
+	 * @param uid - User id
+	 * @returns Trash items, most recently deleted first
+	 */
+	async getDeletedAccounts(uid: string): Promise<TrashItem[]> {
+		const docs = await db.query(TRASH_COLLECTION, {
+			where: [
+				{ field: 'collection', op: '==', value: 'accounts' },
+				{ field: 'adminUids', op: 'array-contains', value: uid },
+			],
+			orderBy: [{ field: 'deletedAt', direction: 'desc' }],
+		});
+		return toTrashItems(docs);
+	}
+
+	/**
+	 * Put a document back where it was deleted from, receipts included
+	 * @param item - Trash item
+	 */
+	async restore(item: TrashItem): Promise<void> {
+		await db.batch(this.getRestoreWrites(item));
+
+		if (item.collection === 'expenses') {
+			await recordExpenseChange({
+				expenseId: item.docId,
+				accountId: item.accountId,
+				action: 'restore',
+				before: null,
+				after: item.data,
+			});
+		}
+	}
+
+	/**
+	 * Get the trash item of a deleted document
+	 * @param collection - Collection the document was deleted from
+	 * @param docId - Document id
+	 * @returns The item, or null if it was restored or purged
+	 */
+	async getItem(
+		collection: TrashCollection,
+		docId: string
+	): Promise<TrashItem | null> {
+		const doc = await db.get(TRASH_COLLECTION, trashId(collection, docId));
+		return toTrashItems(doc ? [doc] : [])[0] ?? null;
+	}
+
+	/**
+	 * Get the writes that put a document back, for restoring several in one
+	 * batch
+	 * @param item - Trash item
+	 */
+	getRestoreWrites(item: TrashItem): BatchWrite[] {
+		return [
+			{
+				op: 'set',
+				collection: item.collection,
+				id: item.docId,
+				data: item.data,
+			},
+			{ op: 'remove', collection: TRASH_COLLECTION, id: item.id },
+		];
+	}
+
+	/**
+	 * Delete a trash item for good, with its receipts. Purging an account
+	 * also deletes everything recorded in it (see ACCOUNT_COLLECTIONS).
+	 * @param item - Trash item
+	 */
+	async purge(item: TrashItem): Promise<void> {
+		if (item.collection === 'expenses') {
+			await removeReceipts(item.data.receiptUrls as string[] | undefined);
+		}
+
+		if (item.collection === 'accounts') {
+			const inAccount = {
+				where: [{ field: 'accountId', op: '==' as const, value: item.docId }],
+			};
+			for (const collection of ACCOUNT_COLLECTIONS) {
+				const docs = await db.query(collection, inAccount);
+				for (const doc of docs) {
+					if (collection === 'expenses') {
+						await removeReceipts(doc.receiptUrls);
+					}
+					// Expenses already in the trash keep their receipts there
+					if (
+						collection === TRASH_COLLECTION &&
+						doc.collection === 'expenses'
+					) {
+						await removeReceipts(doc.data?.receiptUrls);
+					}
+					await db.remove(collection, doc.id);
+				}
+			}
+		}
+
+		await db.remove(TRASH_COLLECTION, item.id);
+	}
+
+	/**
+	 * Purge the items of an account whose retention period has ended
+	 * @param accountId - Account id
+	 * @returns Number of items purged
+	 */
+	async purgeExpired(accountId: string): Promise<number> {
+		const docs = await db.query(TRASH_COLLECTION, {
+			where: [
+				{ field: 'accountId', op: '==', value: accountId },
+				{ field: 'purgeAt', op: '<=', value: new Date() },
+			],
+		});
+		const expired = toTrashItems(docs);
+
+		for (const item of expired) {
+			await this.purge(item);
+		}
+		return expired.length;
+	}
+}
+
+// Export a singleton instance
+export const trash = new TrashService();
+
+export const moveToTrash = (
+	collection: TrashCollection,
+	docId: string,
+	accountId: string,
+	data: DocumentData
+) => trash.moveToTrash(collection, docId, accountId, data);
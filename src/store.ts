@@ -5,6 +5,14 @@ import accountsReducer from './store/slices/accountsSlice';
 import expensesReducer from './store/slices/expensesSlice';
 import budgetsReducer from './store/slices/budgetsSlice';
 import uiReducer from './store/slices/uiSlice';
+import recurringReducer from './store/slices/recurringSlice';
+import syncReducer from './store/slices/syncSlice';
+import trashReducer from './store/slices/trashSlice';
+import settlementsReducer from './store/slices/settlementsSlice';
+import approvalsReducer from './store/slices/approvalsSlice';
+import savedViewsReducer from './store/slices/savedViewsSlice';
+import paymentMethodsReducer from './store/slices/paymentMethodsSlice';
+import merchantsReducer from './store/slices/merchantsSlice';
 
 export const store = configureStore({
 	reducer: {
@@ -13,17 +21,62 @@ export const store = configureStore({
 		expenses: expensesReducer,
 		budgets: budgetsReducer,
 		ui: uiReducer,
+		recurring: recurringReducer,
+		sync: syncReducer,
+		trash: trashReducer,
+		settlements: settlementsReducer,
+		approvals: approvalsReducer,
+		savedViews: savedViewsReducer,
+		paymentMethods: paymentMethodsReducer,
+		merchants: merchantsReducer,
 	},
 	middleware: (getDefaultMiddleware) =>
 		getDefaultMiddleware({
 			serializableCheck: {
 				// Ignore these action types
-				ignoredActions: ['auth/setUser', 'accounts/setCurrentAccount'],
+				ignoredActions: [
+					'auth/setUser',
+					'accounts/setCurrentAccount',
+					'expenses/loadedFromCache',
+					'budgets/loadedFromCache',
+					'sync/syncOutbox/fulfilled',
+					'expenses/applyExpenseChanges/fulfilled',
+					'budgets/applyBudgetChanges/fulfilled',
+					'expenses/fetchExpensePage/fulfilled',
+					'expenses/fetchExpenseWithRefunds/fulfilled',
+					'trash/fetchTrash/fulfilled',
+					'trash/fetchDeletedAccounts/fulfilled',
+					'trash/restoreTrashItem/fulfilled',
+					'settlements/fetchSettlements/fulfilled',
+					'settlements/recordSettlement/fulfilled',
+					'approvals/fetchApprovalQueue/fulfilled',
+					'approvals/reviewExpense/fulfilled',
+					'expenses/fetchAccountExpenses/fulfilled',
+					'expenses/bulkUpdateExpenses/fulfilled',
+					'expenses/bulkMoveExpenses/fulfilled',
+					'expenses/bulkDeleteExpenses/fulfilled',
+					'expenses/replaceExpenseTag/fulfilled',
+					'expenses/undoExpenseBatch/fulfilled',
+					'savedViews/fetchSavedViews/fulfilled',
+					'savedViews/saveView/fulfilled',
+					'savedViews/updateSavedView/fulfilled',
+					'paymentMethods/fetchPaymentMethods/fulfilled',
+					'paymentMethods/addPaymentMethod/fulfilled',
+					'paymentMethods/updatePaymentMethod/fulfilled',
+					'merchants/fetchMerchants/fulfilled',
+					'merchants/addMerchant/fulfilled',
+					'merchants/updateMerchant/fulfilled',
+				],
 				// Ignore these field paths in all actions
 				ignoredActionPaths: [
 					'payload.createdAt',
 					'payload.updatedAt',
 					'payload.date',
+					'meta.arg.changes',
+					'meta.arg.data',
+					'meta.arg.deletedAt',
+					'meta.arg.purgeAt',
+					'meta.arg.receiptFiles',
 				],
 				// Ignore these paths in the state
 				ignoredPaths: [
@@ -34,8 +87,20 @@ export const store = configureStore({
 					'expenses.expenses.*.date',
 					'expenses.expenses.*.createdAt',
 					'expenses.expenses.*.updatedAt',
+					'expenses.page.items',
+					'expenses.page.cursor',
+					'expenses.lastBatch',
 					'budgets.budgets.*.startDate',
 					'budgets.budgets.*.endDate',
+					'recurring.templates',
+					'trash.items',
+					'trash.deletedAccounts',
+					'settlements.settlements',
+					'settlements.olderSplitExpenses',
+					'approvals.queue',
+					'savedViews.views',
+					'paymentMethods.methods',
+					'merchants.merchants',
 				],
 			},
 		}),
@@ -7,6 +7,14 @@ import accountReducer from './slices/accountsSlice';
 import expenseReducer from './slices/expensesSlice';
 import budgetReducer from './slices/budgetsSlice';
 import uiReducer from './slices/uiSlice';
+import recurringReducer from './slices/recurringSlice';
+import syncReducer from './slices/syncSlice';
+import trashReducer from './slices/trashSlice';
+import settlementsReducer from './slices/settlementsSlice';
+import approvalsReducer from './slices/approvalsSlice';
+import savedViewsReducer from './slices/savedViewsSlice';
+import paymentMethodsReducer from './slices/paymentMethodsSlice';
+import merchantsReducer from './slices/merchantsSlice';
 
 export const store = configureStore({
 	reducer: {
@@ -15,6 +23,14 @@ export const store = configureStore({
 		expenses: expenseReducer,
 		budgets: budgetReducer,
 		ui: uiReducer,
+		recurring: recurringReducer,
+		sync: syncReducer,
+		trash: trashReducer,
+		settlements: settlementsReducer,
+		approvals: approvalsReducer,
+		savedViews: savedViewsReducer,
+		paymentMethods: paymentMethodsReducer,
+		merchants: merchantsReducer,
 	},
 	middleware: (getDefaultMiddleware) =>
 		getDefaultMiddleware({
@@ -1,48 +1,23 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import {
-	collection,
-	doc,
-	setDoc,
-	getDoc,
-	getDocs,
-	query,
-	where,
-	updateDoc,
-	arrayUnion,
-	arrayRemove,
-	Timestamp,
-} from 'firebase/firestore';
-import { db } from '../../services/firebase';
+import { db, currentMemberRef } from '../../services/firebase';
+import { startLiveUpdates, stopLiveUpdates } from '../../services/liveUpdates';
+import { arrayUnion } from '../../services/storage';
+import { moveToTrash } from '../../services/trash';
+import { upgradeOnRead } from '../../services/migrations';
+import { Account } from '../../models/types';
+import { DEFAULT_ACCOUNT_CATEGORIES } from '../../models/schemas';
+import { convertDocuments, toAccount } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
 import {
 	addAccountMember,
 	removeAccountMember,
 	updateAccountMemberRole,
 } from '../../services/api';
+import { applyExpenseChanges, getExpenseWindowStart } from './expensesSlice';
+import { applyBudgetChanges } from './budgetsSlice';
+import { restoreTrashItem } from './trashSlice';
 
 // Types
-export interface AccountMember {
-	uid: string;
-	email: string;
-	displayName: string;
-	role: 'admin' | 'member' | 'viewer';
-	joinedAt: Date;
-}
-
-export interface Account {
-	id: string;
-	name: string;
-	description: string;
-	baseCurrency: string;
-	createdAt: Date;
-	createdBy: string;
-	members: AccountMember[];
-	settings: {
-		theme: 'light' | 'dark' | 'system';
-		categories: string[];
-		defaultCategory: string;
-	};
-}
-
 interface AccountState {
 	accounts: Account[];
 	currentAccount: Account | null;
@@ -57,6 +32,31 @@ const initialState: AccountState = {
 	error: null,
 };
 
+// Follow the expenses and budgets of an account as other members change them.
+// Only expenses of the recent window are followed, so the first snapshot
+// doesn't read the account's whole history.
+const followAccount = (accountId: string, dispatch: (action: any) => any) => {
+	const since = getExpenseWindowStart();
+	startLiveUpdates(
+		accountId,
+		{
+			expenses: (changes, { initial }) =>
+				dispatch(
+					applyExpenseChanges({
+						accountId,
+						changes,
+						initial,
+						since: since.toISOString(),
+					})
+				),
+			budgets: (changes, { initial }) =>
+				dispatch(applyBudgetChanges({ accountId, changes, initial })),
+		},
+		(error) => console.error('Live updates stopped:', error),
+		{ expenses: [{ field: 'date', op: '>=', value: since }] }
+	);
+};
+
 // Async thunks
 export const createAccount = createAsyncThunk(
 	'accounts/createAccount',
@@ -76,11 +76,11 @@ export const createAccount = createAsyncThunk(
 			userEmail: string;
 			userDisplayName: string;
 		},
-		{ rejectWithValue }
+		{ dispatch, rejectWithValue }
 	) => {
 		try {
-			const newAccountRef = doc(collection(db, 'accounts'));
-			const accountData: Omit<Account, 'id'> = {
+			const accountId = db.createId('accounts');
+			const accountData: Omit<Account, 'id'> = withSchemaVersion('accounts', {
 				name,
 				description,
 				baseCurrency,
@@ -97,31 +97,23 @@ export const createAccount = createAsyncThunk(
 				],
 				settings: {
 					theme: 'system',
-					categories: [
-						'Food & Drink',
-						'Shopping',
-						'Housing',
-						'Transportation',
-						'Entertainment',
-						'Health',
-						'Travel',
-						'Education',
-						'Personal',
-						'Other',
-					],
+					categories: [...DEFAULT_ACCOUNT_CATEGORIES],
 					defaultCategory: 'Other',
 				},
-			};
+			});
 
-			await setDoc(newAccountRef, accountData);
+			await db.set('accounts', accountId, accountData);
 
 			// Add account to user's accounts list
-			await updateDoc(doc(db, 'users', userId), {
-				accounts: arrayUnion(newAccountRef.id),
+			await db.update('users', userId, {
+				accounts: arrayUnion(accountId),
 			});
 
+			// The new account becomes the current one
+			followAccount(accountId, dispatch);
+
 			return {
-				id: newAccountRef.id,
+				id: accountId,
 				...accountData,
 			};
 		} catch (error: any) {
@@ -132,35 +124,37 @@ export const createAccount = createAsyncThunk(
 
 export const fetchUserAccounts = createAsyncThunk(
 	'accounts/fetchUserAccounts',
-	async (userId: string, { rejectWithValue }) => {
+	async (userId: string, { dispatch, getState, rejectWithValue }) => {
 		try {
 			// Get user document to get account IDs
-			const userDoc = await getDoc(doc(db, 'users', userId));
-			const userData = userDoc.data();
+			const userData = await db.get('users', userId);
 
 			if (!userData || !userData.accounts || userData.accounts.length === 0) {
 				return [];
 			}
 
 			// Fetch each account
-			const accounts: Account[] = [];
+			const accounts = [];
 			for (const accountId of userData.accounts) {
-				const accountDoc = await getDoc(doc(db, 'accounts', accountId));
-				if (accountDoc.exists()) {
-					const accountData = accountDoc.data() as Omit<Account, 'id'>;
-					accounts.push({
-						id: accountDoc.id,
-						...accountData,
-						createdAt: (accountData.createdAt as unknown as Timestamp).toDate(),
-						members: accountData.members.map((member) => ({
-							...member,
-							joinedAt: (member.joinedAt as unknown as Timestamp).toDate(),
-						})),
-					});
+				const account = await db.get('accounts', accountId);
+				if (account) {
+					accounts.push(account);
 				}
 			}
 
-			return accounts;
+			const converted = convertDocuments(
+				await upgradeOnRead('accounts', accounts),
+				toAccount
+			);
+
+			// The first account is opened when none is selected yet
+			const state = getState() as { accounts: AccountState };
+			const current = state.accounts.currentAccount ?? converted[0];
+			if (current) {
+				followAccount(current.id, dispatch);
+			}
+
+			return converted;
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
@@ -169,7 +163,7 @@ export const fetchUserAccounts = createAsyncThunk(
 
 export const setCurrentAccount = createAsyncThunk(
 	'accounts/setCurrentAccount',
-	async (accountId: string, { getState, rejectWithValue }) => {
+	async (accountId: string, { dispatch, getState, rejectWithValue }) => {
 		try {
 			const state = getState() as { accounts: AccountState };
 			const account = state.accounts.accounts.find(
@@ -177,22 +171,16 @@ export const setCurrentAccount = createAsyncThunk(
 			);
 
 			if (account) {
+				followAccount(accountId, dispatch);
 				return account;
 			}
 
 			// If account not in state, fetch it from Firestore
-			const accountDoc = await getDoc(doc(db, 'accounts', accountId));
-			if (accountDoc.exists()) {
-				const accountData = accountDoc.data() as Omit<Account, 'id'>;
-				return {
-					id: accountDoc.id,
-					...accountData,
-					createdAt: (accountData.createdAt as unknown as Timestamp).toDate(),
-					members: accountData.members.map((member) => ({
-						...member,
-						joinedAt: (member.joinedAt as unknown as Timestamp).toDate(),
-					})),
-				};
+			const storedAccount = await db.get('accounts', accountId);
+			if (storedAccount) {
+				followAccount(accountId, dispatch);
+				const [upgraded] = await upgradeOnRead('accounts', [storedAccount]);
+				return toAccount(upgraded);
 			}
 
 			return rejectWithValue('Account not found');
@@ -202,6 +190,94 @@ export const setCurrentAccount = createAsyncThunk(
 	}
 );
 
+// Only admins can delete an account. Members' account lists keep its id,
+// so restoring it from the trash brings it back for everyone
+export const deleteAccount = createAsyncThunk(
+	'accounts/deleteAccount',
+	async (accountId: string, { dispatch, getState, rejectWithValue }) => {
+		try {
+			const state = getState() as { accounts: AccountState };
+			const account = state.accounts.accounts.find(
+				(acc) => acc.id === accountId
+			);
+
+			if (!account) {
+				return rejectWithValue('Account not found');
+			}
+
+			const uid = currentMemberRef()?.uid;
+			const isAdmin = account.members.some(
+				(member) => member.uid === uid && member.role === 'admin'
+			);
+			if (!isAdmin) {
+				return rejectWithValue('Only account admins can delete an account');
+			}
+
+			const { id, ...accountData } = account;
+			await moveToTrash('accounts', id, id, accountData);
+
+			// Move on to another account if the deleted one was open
+			if (state.accounts.currentAccount?.id === accountId) {
+				const next = state.accounts.accounts.find((acc) => acc.id !== id);
+				if (next) {
+					followAccount(next.id, dispatch);
+				} else {
+					stopLiveUpdates();
+				}
+			}
+
+			return accountId;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const updateAccountSettings = createAsyncThunk(
+	'accounts/updateAccountSettings',
+	async (
+		{
+			accountId,
+			settings,
+		}: { accountId: string; settings: Partial<Account['settings']> },
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const state = getState() as { accounts: AccountState };
+			const account = state.accounts.accounts.find(
+				(acc) => acc.id === accountId
+			);
+
+			if (!account) {
+				return rejectWithValue('Account not found');
+			}
+
+			const uid = currentMemberRef()?.uid;
+			const isAdmin = account.members.some(
+				(member) => member.uid === uid && member.role === 'admin'
+			);
+			if (!isAdmin) {
+				return rejectWithValue('Only account admins can change its settings');
+			}
+
+			// Storage backends reject undefined, so unset settings are dropped
+			const updated = Object.fromEntries(
+				Object.entries({ ...account.settings, ...settings }).filter(
+					([, value]) => value !== undefined
+				)
+			) as Account['settings'];
+			await db.update('accounts', accountId, {
+				settings: updated,
+				updatedAt: new Date(),
+			});
+
+			return { accountId, settings: updated };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
 const accountsSlice = createSlice({
 	name: 'accounts',
 	initialState,
@@ -259,6 +335,42 @@ const accountsSlice = createSlice({
 			state.status = 'failed';
 			state.error = action.payload as string;
 		});
+
+		// Delete account
+		builder.addCase(deleteAccount.fulfilled, (state, action) => {
+			state.accounts = state.accounts.filter(
+				(account) => account.id !== action.payload
+			);
+			if (state.currentAccount?.id === action.payload) {
+				state.currentAccount = state.accounts[0] ?? null;
+			}
+		});
+
+		// Update account settings
+		builder.addCase(updateAccountSettings.fulfilled, (state, action) => {
+			const { accountId, settings } = action.payload;
+			const account = state.accounts.find((acc) => acc.id === accountId);
+			if (account) {
+				account.settings = settings;
+			}
+			if (state.currentAccount?.id === accountId) {
+				state.currentAccount.settings = settings;
+			}
+		});
+
+		// A restored account is back in the list
+		builder.addCase(restoreTrashItem.fulfilled, (state, action) => {
+			const item = action.payload;
+			if (item.collection !== 'accounts') return;
+
+			const [account] = convertDocuments(
+				[{ ...item.data, id: item.docId }],
+				toAccount
+			);
+			if (account && !state.accounts.some((acc) => acc.id === account.id)) {
+				state.accounts.push(account);
+			}
+		});
 	},
 });
 
@@ -0,0 +1,183 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
+import { isOnline, offlineCache } from '../../services/offlineCache';
+import { recordExpenseChange } from '../../services/auditTrail';
+import { Account, Expense } from '../../models/types';
+import { convertDocuments, toExpense } from '../../models/converters';
+import { ApprovalUtils } from '../../utils/approvalUtils';
+
+// Types
+interface ApprovalState {
+	accountId: string | null;
+	// Pending expenses, oldest first
+	queue: Expense[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+}
+
+const initialState: ApprovalState = {
+	accountId: null,
+	queue: [],
+	status: 'idle',
+	error: null,
+};
+
+const OFFLINE_MESSAGE = 'Approvals are not available offline';
+
+// Async thunks
+export const fetchApprovalQueue = createAsyncThunk(
+	'approvals/fetchApprovalQueue',
+	async (accountId: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const docs = await db.query<Expense>('expenses', {
+				where: [
+					{ field: 'accountId', op: '==', value: accountId },
+					{ field: 'status', op: '==', value: 'pending' },
+				],
+			});
+
+			return {
+				accountId,
+				queue: convertDocuments(docs, toExpense).sort(
+					(a, b) => a.date.getTime() - b.date.getTime()
+				),
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const reviewExpense = createAsyncThunk(
+	'approvals/reviewExpense',
+	async (
+		{
+			expenseId,
+			decision,
+			reason,
+		}: {
+			expenseId: string;
+			decision: 'approved' | 'rejected';
+			reason?: string;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			if (decision === 'rejected' && !reason?.trim()) {
+				return rejectWithValue('Give a reason for rejecting the expense');
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const reviewer = currentMemberRef();
+			const account = accounts.currentAccount;
+			if (
+				!reviewer ||
+				!account ||
+				!ApprovalUtils.isApprover(account, reviewer.uid)
+			) {
+				return rejectWithValue('Only account admins can review expenses');
+			}
+
+			// The submitter may have changed or withdrawn it in the meantime
+			const server = await db.get('expenses', expenseId);
+			if (!server || server.accountId !== account.id) {
+				return rejectWithValue('Expense not found');
+			}
+			if (server.status !== 'pending') {
+				return rejectWithValue('This expense was already reviewed');
+			}
+
+			const now = new Date();
+			const updates = {
+				status: decision,
+				review: {
+					by: reviewer,
+					at: now,
+					...(decision === 'rejected' ? { reason: reason!.trim() } : {}),
+				},
+				updatedAt: now,
+				updatedBy: reviewer,
+			};
+			await db.update('expenses', expenseId, updates);
+			await recordExpenseChange({
+				expenseId,
+				accountId: account.id,
+				action: 'update',
+				before: server,
+				after: { ...server, ...updates },
+			});
+
+			const [expense] = convertDocuments(
+				[{ ...server, ...updates, id: expenseId }],
+				toExpense
+			);
+			if (expense) {
+				await offlineCache.put('expenses', expense);
+			}
+			return { expenseId, expense: expense ?? null };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+const approvalsSlice = createSlice({
+	name: 'approvals',
+	initialState,
+	reducers: {
+		clearApprovals: (state) => {
+			state.accountId = null;
+			state.queue = [];
+			state.status = 'idle';
+			state.error = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch approval queue
+		builder.addCase(fetchApprovalQueue.pending, (state) => {
+			state.status = 'loading';
+		});
+		builder.addCase(fetchApprovalQueue.fulfilled, (state, action) => {
+			state.status = 'succeeded';
+			state.accountId = action.payload.accountId;
+			state.queue = action.payload.queue;
+			state.error = null;
+		});
+		builder.addCase(fetchApprovalQueue.rejected, (state, action) => {
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Reviewed expenses leave the queue
+		builder.addCase(reviewExpense.fulfilled, (state, action) => {
+			state.queue = state.queue.filter(
+				(expense) => expense.id !== action.payload.expenseId
+			);
+		});
+	},
+});
+
+// Export actions
+export const { clearApprovals } = approvalsSlice.actions;
+
+// Export selectors
+export const selectApprovalQueue = (state: { approvals: ApprovalState }) =>
+	state.approvals.queue;
+export const selectApprovalQueueAccountId = (state: {
+	approvals: ApprovalState;
+}) => state.approvals.accountId;
+export const selectApprovalStatus = (state: { approvals: ApprovalState }) =>
+	state.approvals.status;
+export const selectApprovalError = (state: { approvals: ApprovalState }) =>
+	state.approvals.error;
+
+export default approvalsSlice.reducer;
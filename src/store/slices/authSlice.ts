@@ -9,6 +9,7 @@ import {
 	resetPassword,
 } from '../../services/auth';
 import { User } from '../../models/types';
+import { stopLiveUpdates } from '../../services/liveUpdates';
 
 interface AuthState {
 	user: User | null;
@@ -71,6 +72,8 @@ export const logoutUser = createAsyncThunk<void, void, { rejectValue: string }>(
 	'auth/logoutUser',
 	async (_, { rejectWithValue }) => {
 		try {
+			// Subscriptions would fail once the user is signed out
+			stopLiveUpdates();
 			await authSignOut();
 		} catch (error: any) {
 			return rejectWithValue(error.message);
@@ -1,44 +1,31 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import {
-	collection,
-	doc,
-	addDoc,
-	getDoc,
-	getDocs,
-	updateDoc,
-	deleteDoc,
-	query,
-	where,
-	orderBy,
-	Timestamp,
-} from 'firebase/firestore';
-import { db } from '../../services/firebase';
-import { Budget as BaseBudget, Expense } from '../../types';
-
-// Extended Budget type with additional properties for the slice
-export interface ExtendedBudget extends BaseBudget {
-	accountId: string;
-	name: string;
-	isRecurring: boolean;
-	recurringPeriod?: 'weekly' | 'monthly' | 'quarterly' | 'annually';
-	isActive: boolean;
-	notes?: string;
-	createdBy: {
-		uid: string;
-		displayName: string;
-	};
-	expenses: Array<{
-		id: string;
-		category: string;
-		amount: number;
-		date: Date;
-	}>;
-}
+	createSlice,
+	createAsyncThunk,
+	createAction,
+	PayloadAction,
+} from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
+import {
+	offlineCache,
+	isOnline,
+	isNetworkError,
+} from '../../services/offlineCache';
+import { writeOrQueue } from '../../services/offlineSync';
+import { moveToTrash } from '../../services/trash';
+import { upgradeOnRead } from '../../services/migrations';
+import { DocumentChange } from '../../services/storage';
+import { Budget, BudgetPeriod, Expense } from '../../models/types';
+import { convertDocuments, toBudget, toExpense } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
+import { BudgetUtils } from '../../utils/budgetUtils';
+import { syncOutbox, refreshPendingCount } from './syncSlice';
 
 interface BudgetState {
-	budgets: ExtendedBudget[];
-	activeBudgets: ExtendedBudget[];
-	selectedBudget: ExtendedBudget | null;
+	budgets: Budget[];
+	activeBudgets: Budget[];
+	selectedBudget: Budget | null;
+	// Expenses counted against the selected budget
+	selectedBudgetExpenses: Expense[];
 	status: 'idle' | 'loading' | 'succeeded' | 'failed';
 	error: string | null;
 }
@@ -47,35 +34,26 @@ const initialState: BudgetState = {
 	budgets: [],
 	activeBudgets: [],
 	selectedBudget: null,
+	selectedBudgetExpenses: [],
 	status: 'idle',
 	error: null,
 };
 
-// Helper function to convert Firestore timestamp to Date
-const convertTimestamps = (budget: any): ExtendedBudget => {
-	return {
-		...budget,
-		startDate:
-			budget.startDate instanceof Timestamp
-				? budget.startDate.toDate()
-				: budget.startDate,
-		endDate:
-			budget.endDate instanceof Timestamp
-				? budget.endDate.toDate()
-				: budget.endDate,
-		createdAt:
-			budget.createdAt instanceof Timestamp
-				? budget.createdAt.toDate()
-				: budget.createdAt,
-		updatedAt:
-			budget.updatedAt instanceof Timestamp
-				? budget.updatedAt.toDate()
-				: budget.updatedAt,
-	};
+// Helper function to strip local-only fields before writing to Firestore
+const toFirestoreData = (budget: Partial<Budget>) => {
+	const data: Record<string, any> = { ...budget };
+	delete data.id;
+	delete data.syncStatus;
+	return data;
 };
 
+// Cached budgets shown while the server copy is being fetched
+export const budgetsLoadedFromCache = createAction<Budget[]>(
+	'budgets/loadedFromCache'
+);
+
 // Helper function to filter active budgets
-const filterActiveBudgets = (budgets: ExtendedBudget[]): ExtendedBudget[] => {
+const filterActiveBudgets = (budgets: Budget[]): Budget[] => {
 	const now = new Date();
 	return budgets.filter(
 		(budget) =>
@@ -110,13 +88,16 @@ export const createBudget = createAsyncThunk(
 			userDisplayName: string;
 			notes?: string;
 			isRecurring: boolean;
-			recurringPeriod?: 'weekly' | 'monthly' | 'quarterly' | 'annually';
+			recurringPeriod?: BudgetPeriod;
 		},
-		{ rejectWithValue }
+		{ dispatch, rejectWithValue }
 	) => {
 		try {
+			// Ids are generated locally so budgets created offline keep theirs
+			const budgetId = db.createId('budgets');
+
 			// Create budget document
-			const budgetData: Omit<ExtendedBudget, 'id'> = {
+			const budgetData: Omit<Budget, 'id'> = withSchemaVersion('budgets', {
 				accountId,
 				name,
 				amount,
@@ -133,16 +114,31 @@ export const createBudget = createAsyncThunk(
 				isRecurring,
 				recurringPeriod: isRecurring ? recurringPeriod : undefined,
 				isActive: true,
-				userId,
-				expenses: [],
-			};
+			});
 
-			const docRef = await addDoc(collection(db, 'budgets'), budgetData);
+			const syncStatus = await writeOrQueue(
+				{
+					collection: 'budgets',
+					op: 'create',
+					docId: budgetId,
+					accountId,
+					data: budgetData,
+				},
+				() => db.set('budgets', budgetId, budgetData)
+			);
 
-			return {
+			const budget: Budget = {
 				...budgetData,
-				id: docRef.id,
+				id: budgetId,
+				syncStatus,
 			};
+
+			await offlineCache.put('budgets', budget);
+			if (syncStatus === 'pending') {
+				dispatch(refreshPendingCount());
+			}
+
+			return budget;
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
@@ -151,28 +147,53 @@ export const createBudget = createAsyncThunk(
 
 export const fetchBudgets = createAsyncThunk(
 	'budgets/fetchBudgets',
-	async (accountId: string, { rejectWithValue }) => {
+	async (accountId: string, { dispatch, rejectWithValue }) => {
 		try {
-			const q = query(
-				collection(db, 'budgets'),
-				where('accountId', '==', accountId),
-				orderBy('startDate', 'desc')
-			);
+			// Show the cached copy straight away, then refresh from the server
+			const cached = convertDocuments(
+				await offlineCache.getAll<Budget>('budgets', accountId),
+				toBudget
+			).sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+			if (cached.length > 0) {
+				dispatch(budgetsLoadedFromCache(cached));
+			}
 
-			const querySnapshot = await getDocs(q);
-			const budgets: ExtendedBudget[] = [];
+			if (!isOnline()) {
+				return cached;
+			}
 
-			querySnapshot.forEach((doc) => {
-				const data = doc.data();
-				budgets.push(
-					convertTimestamps({
-						id: doc.id,
-						...data,
-					})
+			try {
+				const stored = convertDocuments(
+					await upgradeOnRead(
+						'budgets',
+						await db.query<Budget>('budgets', {
+							where: [{ field: 'accountId', op: '==', value: accountId }],
+							orderBy: [{ field: 'startDate', direction: 'desc' }],
+						})
+					),
+					toBudget
 				);
-			});
+				const pendingIds = await offlineCache.getPendingIds('budgets');
 
-			return budgets;
+				// Queued local changes win over the server copy until replayed
+				const budgets: Budget[] = stored
+					.filter((budget) => !pendingIds.has(budget.id))
+					.map((budget) => ({ ...budget, syncStatus: 'synced' }));
+
+				cached
+					.filter((budget) => pendingIds.has(budget.id))
+					.forEach((budget) => budgets.push(budget));
+
+				budgets.sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+				await offlineCache.replaceAccount('budgets', accountId, budgets);
+
+				return budgets;
+			} catch (error: any) {
+				if (isNetworkError(error)) {
+					return cached;
+				}
+				throw error;
+			}
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
@@ -188,15 +209,12 @@ export const updateBudget = createAsyncThunk(
 		}: {
 			id: string;
 			updates: Partial<
-				Omit<ExtendedBudget, 'id' | 'accountId' | 'createdAt' | 'createdBy'>
+				Omit<Budget, 'id' | 'accountId' | 'createdAt' | 'createdBy'>
 			>;
 		},
-		{ getState, rejectWithValue }
+		{ dispatch, getState, rejectWithValue }
 	) => {
 		try {
-			// Update the document
-			await updateDoc(doc(db, 'budgets', id), updates);
-
 			const state = getState() as { budgets: BudgetState };
 			const currentBudget = state.budgets.budgets.find((b) => b.id === id);
 
@@ -204,11 +222,39 @@ export const updateBudget = createAsyncThunk(
 				return rejectWithValue('Budget not found');
 			}
 
-			return {
-				...currentBudget,
+			const editor = currentMemberRef();
+			const updatedData = {
 				...updates,
+				updatedAt: new Date(),
+				...(editor ? { updatedBy: editor } : {}),
+			};
+
+			// Update the document
+			const syncStatus = await writeOrQueue(
+				{
+					collection: 'budgets',
+					op: 'update',
+					docId: id,
+					accountId: currentBudget.accountId,
+					data: updatedData,
+					base: toFirestoreData(currentBudget),
+				},
+				() => db.update('budgets', id, updatedData)
+			);
+
+			const budget = {
+				...currentBudget,
+				...updatedData,
 				id,
-			} as ExtendedBudget;
+				syncStatus,
+			} as Budget;
+
+			await offlineCache.put('budgets', budget);
+			if (syncStatus === 'pending') {
+				dispatch(refreshPendingCount());
+			}
+
+			return budget;
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
@@ -217,10 +263,32 @@ export const updateBudget = createAsyncThunk(
 
 export const deleteBudget = createAsyncThunk(
 	'budgets/deleteBudget',
-	async (id: string, { rejectWithValue }) => {
+	async (id: string, { dispatch, getState, rejectWithValue }) => {
 		try {
-			// Delete budget document
-			await deleteDoc(doc(db, 'budgets', id));
+			const state = getState() as { budgets: BudgetState };
+			const budget = state.budgets.budgets.find((b) => b.id === id);
+
+			if (!budget) {
+				return rejectWithValue('Budget not found');
+			}
+
+			// Move the budget document to the trash
+			const syncStatus = await writeOrQueue(
+				{
+					collection: 'budgets',
+					op: 'delete',
+					docId: id,
+					accountId: budget.accountId,
+					base: toFirestoreData(budget),
+				},
+				() =>
+					moveToTrash('budgets', id, budget.accountId, toFirestoreData(budget))
+			);
+
+			await offlineCache.remove('budgets', id);
+			if (syncStatus === 'pending') {
+				dispatch(refreshPendingCount());
+			}
 
 			return id;
 		} catch (error: any) {
@@ -233,54 +301,94 @@ export const fetchBudget = createAsyncThunk(
 	'budgets/fetchBudget',
 	async (budgetId: string, { rejectWithValue }) => {
 		try {
+			// Offline, rebuild the budget from the cached budget and expenses
+			if (!isOnline()) {
+				const cachedBudget = await offlineCache.get<Budget>(
+					'budgets',
+					budgetId
+				);
+				if (!cachedBudget) {
+					return rejectWithValue('Budget is not available offline');
+				}
+
+				const budget = toBudget(cachedBudget);
+				const cachedExpenses = convertDocuments(
+					await offlineCache.getAll<Expense>('expenses', budget.accountId),
+					toExpense
+				);
+
+				return {
+					budget,
+					expenses: BudgetUtils.getBudgetExpenses(budget, cachedExpenses),
+				};
+			}
+
 			// Get the budget document
-			const budgetDoc = await getDoc(doc(db, 'budgets', budgetId));
-			if (!budgetDoc.exists()) {
+			const budgetData = await db.get('budgets', budgetId);
+			if (!budgetData) {
 				return rejectWithValue('Budget not found');
 			}
+			const [upgraded] = await upgradeOnRead('budgets', [budgetData]);
+			const budget = toBudget(upgraded);
 
-			// Get expenses for this budget's period
-			const budgetData = budgetDoc.data();
-			const q = query(
-				collection(db, 'expenses'),
-				where('accountId', '==', budgetData.accountId),
-				where('date', '>=', budgetData.startDate),
-				where('date', '<=', budgetData.endDate)
+			// Get expenses for this budget's period; the category is matched here
+			// since 'All' can't be expressed as a query filter
+			const periodExpenses = convertDocuments(
+				await db.query('expenses', {
+					where: [
+						{ field: 'accountId', op: '==', value: budget.accountId },
+						{ field: 'date', op: '>=', value: budget.startDate },
+						{ field: 'date', op: '<=', value: budget.endDate },
+					],
+				}),
+				toExpense
 			);
 
-			const expensesSnapshot = await getDocs(q);
-			const expenses = expensesSnapshot.docs.map((doc) => {
-				const data = doc.data();
-				return {
-					id: doc.id,
-					category: data.category,
-					amount: data.amount,
-					date: data.date.toDate(),
-				};
-			});
-
-			// Ensure all required properties are included
-			const budget: ExtendedBudget = {
-				id: budgetDoc.id,
-				accountId: budgetData.accountId,
-				name: budgetData.name,
-				amount: budgetData.amount,
-				category: budgetData.category || 'All',
-				startDate: budgetData.startDate.toDate(),
-				endDate: budgetData.endDate.toDate(),
-				createdAt: budgetData.createdAt.toDate(),
-				updatedAt:
-					budgetData.updatedAt?.toDate() || budgetData.createdAt.toDate(),
-				createdBy: budgetData.createdBy,
-				notes: budgetData.notes,
-				isRecurring: budgetData.isRecurring,
-				recurringPeriod: budgetData.recurringPeriod,
-				isActive: budgetData.isActive,
-				userId: budgetData.userId,
-				expenses,
+			return {
+				budget,
+				expenses: BudgetUtils.getBudgetExpenses(budget, periodExpenses),
 			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
 
-			return budget;
+// Changes delivered by the live subscription of the current account
+export const applyBudgetChanges = createAsyncThunk(
+	'budgets/applyBudgetChanges',
+	async (
+		{
+			accountId,
+			changes,
+			initial,
+		}: { accountId: string; changes: DocumentChange[]; initial: boolean },
+		{ rejectWithValue }
+	) => {
+		try {
+			const pendingIds = await offlineCache.getPendingIds('budgets');
+			const upserted: Budget[] = [];
+			const removedIds: string[] = [];
+
+			for (const change of changes) {
+				// Queued local changes win until they are replayed
+				if (pendingIds.has(change.doc.id)) continue;
+
+				if (change.type === 'removed') {
+					removedIds.push(change.doc.id);
+					await offlineCache.remove('budgets', change.doc.id);
+					continue;
+				}
+
+				const [converted] = convertDocuments([change.doc], toBudget);
+				if (!converted) continue;
+
+				const budget: Budget = { ...converted, syncStatus: 'synced' };
+				upserted.push(budget);
+				await offlineCache.put('budgets', budget);
+			}
+
+			return { accountId, initial, upserted, removedIds };
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
@@ -295,16 +403,25 @@ const budgetSlice = createSlice({
 			state.selectedBudget = action.payload
 				? state.budgets.find((b) => b.id === action.payload) || null
 				: null;
+			state.selectedBudgetExpenses = [];
 		},
 		clearBudgets: (state) => {
 			state.budgets = [];
 			state.activeBudgets = [];
 			state.selectedBudget = null;
+			state.selectedBudgetExpenses = [];
 			state.status = 'idle';
 			state.error = null;
 		},
 	},
 	extraReducers: (builder) => {
+		// Cached budgets (replaced once the server responds)
+		builder.addCase(budgetsLoadedFromCache, (state, action) => {
+			state.status = 'succeeded';
+			state.budgets = action.payload;
+			state.activeBudgets = filterActiveBudgets(action.payload);
+		});
+
 		// Create budget
 		builder.addCase(createBudget.pending, (state) => {
 			state.status = 'loading';
@@ -343,11 +460,11 @@ const budgetSlice = createSlice({
 			state.status = 'succeeded';
 			const index = state.budgets.findIndex((b) => b.id === action.payload.id);
 			if (index !== -1) {
-				state.budgets[index] = action.payload as ExtendedBudget;
+				state.budgets[index] = action.payload as Budget;
 			}
 			state.activeBudgets = filterActiveBudgets(state.budgets);
 			if (state.selectedBudget?.id === action.payload.id) {
-				state.selectedBudget = action.payload as ExtendedBudget;
+				state.selectedBudget = action.payload as Budget;
 			}
 			state.error = null;
 		});
@@ -366,6 +483,7 @@ const budgetSlice = createSlice({
 			state.activeBudgets = filterActiveBudgets(state.budgets);
 			if (state.selectedBudget?.id === action.payload) {
 				state.selectedBudget = null;
+				state.selectedBudgetExpenses = [];
 			}
 			state.error = null;
 		});
@@ -380,19 +498,85 @@ const budgetSlice = createSlice({
 		});
 		builder.addCase(fetchBudget.fulfilled, (state, action) => {
 			state.status = 'succeeded';
-			const index = state.budgets.findIndex((b) => b.id === action.payload.id);
+			const { budget, expenses } = action.payload;
+			const index = state.budgets.findIndex((b) => b.id === budget.id);
 			if (index !== -1) {
-				state.budgets[index] = action.payload;
+				state.budgets[index] = budget;
 			} else {
-				state.budgets.push(action.payload);
+				state.budgets.push(budget);
 			}
-			state.selectedBudget = action.payload;
+			state.selectedBudget = budget;
+			state.selectedBudgetExpenses = expenses;
 			state.error = null;
 		});
 		builder.addCase(fetchBudget.rejected, (state, action) => {
 			state.status = 'failed';
 			state.error = action.payload as string;
 		});
+
+		// Live changes to the current account
+		builder.addCase(applyBudgetChanges.fulfilled, (state, action) => {
+			const { accountId, initial, upserted, removedIds } = action.payload;
+			const upsertedIds = new Set(upserted.map((budget) => budget.id));
+
+			// Drop budgets of a previously selected account; the first snapshot
+			// is complete, so synced budgets missing from it were deleted
+			const budgets = state.budgets.filter(
+				(b) =>
+					b.accountId === accountId &&
+					!removedIds.includes(b.id) &&
+					!upsertedIds.has(b.id) &&
+					!(initial && b.syncStatus === 'synced')
+			);
+
+			state.budgets = [...budgets, ...upserted].sort(
+				(a, b) => b.startDate.getTime() - a.startDate.getTime()
+			);
+			state.activeBudgets = filterActiveBudgets(state.budgets);
+			if (state.selectedBudget) {
+				state.selectedBudget =
+					state.budgets.find((b) => b.id === state.selectedBudget?.id) || null;
+				if (!state.selectedBudget) {
+					state.selectedBudgetExpenses = [];
+				}
+			}
+		});
+
+		// Offline changes replayed against the server
+		builder.addCase(syncOutbox.fulfilled, (state, action) => {
+			action.payload.results
+				.filter((result) => result.collection === 'budgets')
+				.forEach((result) => {
+					const index = state.budgets.findIndex((b) => b.id === result.docId);
+
+					if (result.status === 'failed') {
+						if (index !== -1) {
+							state.budgets[index].syncStatus = 'failed';
+						}
+					} else if (!result.document) {
+						state.budgets = state.budgets.filter((b) => b.id !== result.docId);
+					} else {
+						const [converted] = convertDocuments(
+							[{ ...result.document, id: result.docId }],
+							toBudget
+						);
+						if (!converted) return;
+
+						const budget = { ...converted, syncStatus: result.status };
+						if (index !== -1) {
+							state.budgets[index] = budget;
+						} else if (state.budgets[0]?.accountId === budget.accountId) {
+							state.budgets.push(budget);
+						}
+					}
+				});
+
+			state.activeBudgets = filterActiveBudgets(state.budgets);
+			if (state.selectedBudget) {
+				state.selectedBudget =
+					state.budgets.find((b) => b.id === state.selectedBudget?.id) || null;
+			}
+		});
 	},
 });
 
@@ -407,6 +591,8 @@ export const selectActiveBudgets = (state: { budgets: BudgetState }) =>
 	state.budgets.activeBudgets;
 export const selectSelectedBudget = (state: { budgets: BudgetState }) =>
 	state.budgets.selectedBudget;
+export const selectSelectedBudgetExpenses = (state: { budgets: BudgetState }) =>
+	state.budgets.selectedBudgetExpenses;
 export const selectBudgetError = (state: { budgets: BudgetState }) =>
 	state.budgets.error;
 export const selectBudgetById = (
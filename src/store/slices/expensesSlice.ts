@@ -1,44 +1,134 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import {
-	collection,
-	doc,
-	addDoc,
-	getDoc,
-	getDocs,
-	updateDoc,
-	deleteDoc,
-	query,
-	where,
-	orderBy,
-	limit,
-	Timestamp,
-} from 'firebase/firestore';
+	createSlice,
+	createAsyncThunk,
+	createAction,
+	PayloadAction,
+} from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
 import {
-	ref,
-	uploadBytes,
-	getDownloadURL,
-	deleteObject,
-} from 'firebase/storage';
-import { db, storage } from '../../services/firebase';
+	offlineCache,
+	isOnline,
+	isNetworkError,
+} from '../../services/offlineCache';
+import { writeOrQueue } from '../../services/offlineSync';
+import { recordExpenseChange } from '../../services/auditTrail';
+import { moveToTrash, trash } from '../../services/trash';
+import {
+	ReceiptUploadProgress,
+	removeReceipts,
+	uploadReceipts,
+} from '../../services/receipts';
+import { upgradeOnRead } from '../../services/migrations';
+import { getExchangeRates } from '../../services/api';
+import {
+	DocumentChange,
+	MAX_BATCH_WRITES,
+	QueryFilter,
+	StoredDocument,
+} from '../../services/storage';
+import {
+	Account,
+	Budget,
+	Expense,
+	ExpenseSplit,
+	LineItem,
+	MemberRef,
+	Merchant,
+} from '../../models/types';
+import { convertDocuments, toExpense } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
+import { BudgetUtils } from '../../utils/budgetUtils';
+import { LineItemUtils, validateLineItems } from '../../utils/lineItemUtils';
+import { ApprovalUtils } from '../../utils/approvalUtils';
+import { TagUtils } from '../../utils/tagUtils';
+import { DuplicateUtils } from '../../utils/duplicateUtils';
+import { DateUtils } from '../../utils/dateUtils';
+import {
+	matchesExpenseQuery,
+	parseExpenseQuery,
+} from '../../../shared/expenseQuery';
+import { ExpenseRefunds } from '../../../shared/refunds';
+import { ExpenseDuplicates } from '../../../shared/duplicateExpenses';
+import { generateRecurringExpenses } from './recurringSlice';
+import { syncOutbox, refreshPendingCount } from './syncSlice';
+import { addNotification } from './uiSlice';
+import { reviewExpense } from './approvalsSlice';
 
 // Types
-export interface Expense {
-	id: string;
+// Change to an expense made by another member of the account
+export interface LiveActivity {
+	expenseId: string;
+	type: 'added' | 'modified';
+	by: MemberRef;
+	at: string;
+}
+
+export type ExpenseSortField =
+	| 'date'
+	| 'description'
+	| 'category'
+	| 'amountInBaseCurrency';
+
+export interface ExpenseSort {
+	field: ExpenseSortField;
+	direction: 'asc' | 'desc';
+}
+
+// Filters applied while paging; text search runs over the loaded rows
+export interface ExpensePageFilter {
+	category?: string;
+	startDate?: string;
+	endDate?: string;
+	// Expenses with any of these tags; filtered on each loaded page
+	tags?: string[];
+	paymentMethodId?: string;
+}
+
+// Expenses loaded page by page for the expense list
+interface ExpensePage {
+	accountId: string | null;
+	items: Expense[];
+	sort: ExpenseSort;
+	filter: ExpensePageFilter;
+	// Last expense returned by the database; the next page starts after it
+	cursor: Expense | null;
+	hasMore: boolean;
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+	// Only the latest request may update the page
+	requestId: string | null;
+}
+
+// Latest bulk change, kept so it can be undone in one step
+export interface ExpenseBatch {
+	action: 'update' | 'move' | 'delete';
+	// Account the expenses were in
 	accountId: string;
-	amount: number;
-	category: string;
+	// What was done, e.g. "Deleted 12 expenses"
 	description: string;
-	date: Date;
-	createdAt: Date;
-	createdBy: {
-		uid: string;
-		displayName: string;
-	};
-	currency: string;
-	exchangeRate: number;
-	amountInBaseCurrency: number;
-	receiptUrl?: string;
-	tags?: string[];
+	// The expenses as they were before the change
+	before: Expense[];
+	// When the change was written, as an ISO string
+	at: string;
+}
+
+// Changes a bulk update makes to every selected expense
+export interface BulkExpenseChanges {
+	category?: string;
+	// null clears the payment method
+	paymentMethodId?: string | null;
+	addTags?: string[];
+	removeTags?: string[];
+}
+
+// Totals computed by the database, so the full history isn't loaded
+export interface ExpenseTotals {
+	accountId: string;
+	count: number;
+	currentMonth: number;
+	previousMonth: number;
+	// Spent against each budget of the account, keyed by budget id
+	budgetSpent: Record<string, number>;
 }
 
 interface ExpenseState {
@@ -53,101 +143,1615 @@ interface ExpenseState {
 		search: string;
 		tags: string[];
 	};
+	// Latest change by another member, keyed by expense id
+	liveActivity: Record<string, LiveActivity>;
+	page: ExpensePage;
+	totals: ExpenseTotals | null;
+	// Receipts being uploaded by the expense being saved
+	receiptUploads: ReceiptUploadProgress[];
+	lastBatch: ExpenseBatch | null;
 }
 
-const initialState: ExpenseState = {
-	expenses: [],
-	filteredExpenses: [],
-	selectedExpense: null,
-	status: 'idle',
-	error: null,
-	filter: {
-		dateRange: [null, null],
-		categories: [],
-		search: '',
-		tags: [],
-	},
-};
+export const EXPENSE_PAGE_SIZE = 25;
+
+// Expenses of the last year are followed live and kept in memory; older ones
+// are only read page by page or totalled by the database
+export const EXPENSE_WINDOW_MONTHS = 12;
+
+// First day of the window of expenses that is followed live
+export const getExpenseWindowStart = (now: Date = new Date()) =>
+	new Date(now.getFullYear(), now.getMonth() - EXPENSE_WINDOW_MONTHS, 1);
+
+// Fields an update may change; null clears an optional field
+export type ExpenseUpdates = {
+	[K in keyof Omit<Expense, 'id' | 'createdAt' | 'createdBy'>]?:
+		| Expense[K]
+		| null;
+};
+
+const initialPage: ExpensePage = {
+	accountId: null,
+	items: [],
+	sort: { field: 'date', direction: 'desc' },
+	filter: {},
+	cursor: null,
+	hasMore: true,
+	status: 'idle',
+	error: null,
+	requestId: null,
+};
+
+const initialState: ExpenseState = {
+	expenses: [],
+	filteredExpenses: [],
+	selectedExpense: null,
+	status: 'idle',
+	error: null,
+	filter: {
+		dateRange: [null, null],
+		categories: [],
+		search: '',
+		tags: [],
+	},
+	liveActivity: {},
+	page: initialPage,
+	totals: null,
+	receiptUploads: [],
+	lastBatch: null,
+};
+
+// Helper function to strip local-only fields before writing to Firestore
+const toFirestoreData = (expense: Partial<Expense>) => {
+	const data: Record<string, any> = { ...expense };
+	delete data.id;
+	delete data.syncStatus;
+	return data;
+};
+
+const BULK_OFFLINE_MESSAGE =
+	'Changing several expenses at once is not available offline';
+
+// Expenses written per batch; deleting one takes two writes
+const BATCH_CHUNK_SIZE = MAX_BATCH_WRITES / 2;
+
+// Changes to one expense of a bulk change; null clears a field
+interface ExpenseWrite {
+	id: string;
+	data: Record<string, any>;
+}
+
+// Bulk changes larger than one batch are written in chunks, each of them
+// all or nothing
+const inBatchChunks = <T>(items: T[]): T[][] =>
+	Array.from(
+		{ length: Math.ceil(items.length / BATCH_CHUNK_SIZE) },
+		(_, index) =>
+			items.slice(index * BATCH_CHUNK_SIZE, (index + 1) * BATCH_CHUNK_SIZE)
+	);
+
+const pluralizeExpenses = (count: number) =>
+	`${count} expense${count === 1 ? '' : 's'}`;
+
+// Cleared fields are stored as null but unset locally
+const withUpdates = (expense: Expense, data: Record<string, any>): Expense =>
+	({
+		...expense,
+		...Object.fromEntries(
+			Object.entries(data).map(([field, value]) => [field, value ?? undefined])
+		),
+	} as Expense);
+
+// Expenses of a bulk change, read from the server so the change starts from
+// their latest version
+const loadBatchExpenses = async (ids: string[], account: Account) => {
+	const docs = await Promise.all(
+		ids.map((id) => db.get<Expense>('expenses', id))
+	);
+	return convertDocuments(
+		docs.filter(
+			(doc): doc is StoredDocument<Expense> => doc?.accountId === account.id
+		),
+		(doc) => toExpense(doc, account.baseCurrency)
+	);
+};
+
+// Values one 'in' filter may list (Firestore's limit)
+const MAX_IN_VALUES = 30;
+
+// Expenses a move takes along so refunds stay in the account of the expense
+// they refund: the originals of the refunds moved, and every refund of the
+// expenses moved
+const loadLinkedRefunds = async (expenses: Expense[], account: Account) => {
+	const movedIds = new Set(expenses.map((expense) => expense.id));
+	const originalIds = Array.from(
+		new Set(expenses.map((expense) => expense.refundOf ?? expense.id))
+	);
+	const originals = await loadBatchExpenses(
+		originalIds.filter((id) => !movedIds.has(id)),
+		account
+	);
+
+	const refunds: Expense[] = [];
+	for (let start = 0; start < originalIds.length; start += MAX_IN_VALUES) {
+		const docs = await db.query<Expense>('expenses', {
+			where: [
+				{ field: 'accountId', op: '==', value: account.id },
+				{
+					field: 'refundOf',
+					op: 'in',
+					value: originalIds.slice(start, start + MAX_IN_VALUES),
+				},
+			],
+		});
+		refunds.push(
+			...convertDocuments(docs, (doc) => toExpense(doc, account.baseCurrency))
+		);
+	}
+
+	return [
+		...originals,
+		...refunds.filter((refund) => !movedIds.has(refund.id)),
+	];
+};
+
+// Fields of an expense a bulk update changes
+const getBulkUpdates = (
+	expense: Expense,
+	changes: BulkExpenseChanges
+): ExpenseUpdates => {
+	const updates: ExpenseUpdates = {};
+
+	if (changes.category && changes.category !== expense.category) {
+		updates.category = changes.category;
+	}
+
+	if (
+		changes.paymentMethodId !== undefined &&
+		(changes.paymentMethodId ?? undefined) !== expense.paymentMethodId
+	) {
+		updates.paymentMethodId = changes.paymentMethodId;
+	}
+
+	if (changes.addTags?.length || changes.removeTags?.length) {
+		const current = expense.tags ?? [];
+		const tags = Array.from(
+			new Set([
+				...current.filter((tag) => !changes.removeTags?.includes(tag)),
+				...(changes.addTags ?? []),
+			])
+		);
+		if (JSON.stringify(tags) !== JSON.stringify(current)) {
+			updates.tags = tags.length > 0 ? tags : null;
+		}
+	}
+
+	return updates;
+};
+
+// Write the updates of a bulk change and record them
+const commitExpenseUpdates = async (
+	before: Expense[],
+	writes: ExpenseWrite[]
+): Promise<Expense[]> => {
+	for (const chunk of inBatchChunks(writes)) {
+		await db.batch(
+			chunk.map(({ id, data }) => ({
+				op: 'update' as const,
+				collection: 'expenses',
+				id,
+				data,
+			}))
+		);
+	}
+
+	const updated: Expense[] = [];
+	for (const [index, expense] of before.entries()) {
+		const changed: Expense = {
+			...withUpdates(expense, writes[index].data),
+			syncStatus: 'synced',
+		};
+		updated.push(changed);
+		await recordExpenseChange({
+			expenseId: expense.id,
+			accountId: changed.accountId,
+			action: 'update',
+			before: toFirestoreData(expense),
+			after: { ...toFirestoreData(expense), ...writes[index].data },
+		});
+		await offlineCache.put('expenses', changed);
+	}
+	return updated;
+};
+
+// Latest version of an expense, whether or not it is loaded: the stored
+// copy, or the cached one while offline or while a change to it is queued
+const loadExpense = async (
+	id: string,
+	baseCurrency?: string
+): Promise<Expense | null> => {
+	const convert = (doc: Expense) => toExpense(doc, baseCurrency);
+	const fromCache = async () => {
+		const cached = await offlineCache.get<Expense>('expenses', id);
+		return (cached && convertDocuments([cached], convert)[0]) || null;
+	};
+
+	if (!isOnline() || (await offlineCache.getPendingIds('expenses')).has(id)) {
+		return await fromCache();
+	}
+
+	try {
+		const stored = await db.get<Expense>('expenses', id);
+		return (stored && convertDocuments([stored], convert)[0]) || null;
+	} catch (error: any) {
+		if (isNetworkError(error)) {
+			return await fromCache();
+		}
+		throw error;
+	}
+};
+
+// Expenses of an account dated within a range, from storage or, while
+// offline, from the cached copy
+const loadExpensesBetween = async (
+	accountId: string,
+	from: Date,
+	to: Date,
+	baseCurrency?: string
+): Promise<Expense[]> => {
+	const convert = (doc: Expense) => toExpense(doc, baseCurrency);
+	const fromCache = async () =>
+		convertDocuments(
+			await offlineCache.getAll<Expense>('expenses', accountId),
+			convert
+		).filter((expense) => expense.date >= from && expense.date <= to);
+
+	if (!isOnline()) {
+		return await fromCache();
+	}
+
+	try {
+		return convertDocuments(
+			await db.query<Expense>('expenses', {
+				where: [
+					{ field: 'accountId', op: '==', value: accountId },
+					{ field: 'date', op: '>=', value: from },
+					{ field: 'date', op: '<=', value: to },
+				],
+			}),
+			convert
+		);
+	} catch (error: any) {
+		if (isNetworkError(error)) {
+			return await fromCache();
+		}
+		throw error;
+	}
+};
+
+// What a refund check needs: the expense a refund is recorded against, and
+// the refunds of it and of the expense being saved, whatever their dates
+const loadRefundContext = async (
+	accountId: string,
+	expense: { id?: string; refundOf?: string | null },
+	baseCurrency?: string
+): Promise<Expense[]> => {
+	const original = expense.refundOf
+		? await loadExpense(expense.refundOf, baseCurrency)
+		: null;
+	const ids = [expense.id, original?.id].filter((id): id is string => !!id);
+	if (ids.length === 0) return [];
+
+	const convert = (doc: Expense) => toExpense(doc, baseCurrency);
+	const fromCache = async () =>
+		convertDocuments(
+			await offlineCache.getAll<Expense>('expenses', accountId),
+			convert
+		).filter((other) => !!other.refundOf && ids.includes(other.refundOf));
+	const loadRefunds = async () => {
+		if (!isOnline()) {
+			return await fromCache();
+		}
+		try {
+			return convertDocuments(
+				await db.query<Expense>('expenses', {
+					where: [
+						{ field: 'accountId', op: '==', value: accountId },
+						{ field: 'refundOf', op: 'in', value: ids },
+					],
+				}),
+				convert
+			);
+		} catch (error: any) {
+			if (isNetworkError(error)) {
+				return await fromCache();
+			}
+			throw error;
+		}
+	};
+
+	// Expenses of other accounts can't be refunded here
+	return [
+		...(original?.accountId === accountId ? [original] : []),
+		...(await loadRefunds()),
+	];
+};
+
+const sortByDate = (expenses: Expense[]) =>
+	expenses.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+// Order of the paged list; ties are broken by id, as in the database query
+const compareExpenses = (a: Expense, b: Expense, sort: ExpenseSort) => {
+	const valueOf = (expense: Expense) => {
+		const value = expense[sort.field];
+		return value instanceof Date ? value.getTime() : value;
+	};
+	const left = valueOf(a);
+	const right = valueOf(b);
+	let result = 0;
+	if (left !== right) {
+		result = left < right ? -1 : 1;
+	} else if (a.id !== b.id) {
+		result = a.id < b.id ? -1 : 1;
+	}
+	return sort.direction === 'desc' ? -result : result;
+};
+
+const matchesPageFilter = (expense: Expense, filter: ExpensePageFilter) =>
+	(!filter.category || expense.category === filter.category) &&
+	(!filter.startDate || expense.date >= new Date(filter.startDate)) &&
+	(!filter.endDate || expense.date <= new Date(filter.endDate)) &&
+	(!filter.paymentMethodId ||
+		expense.paymentMethodId === filter.paymentMethodId) &&
+	(!filter.tags?.length ||
+		filter.tags.some((tag) => expense.tags?.includes(tag)));
+
+// Keep the loaded pages in step with added or edited expenses
+const upsertIntoPage = (page: ExpensePage, expenses: Expense[]) => {
+	const changedIds = new Set(expenses.map((expense) => expense.id));
+	const cursor = page.cursor;
+
+	page.items = [
+		...page.items.filter((exp) => !changedIds.has(exp.id)),
+		...expenses.filter(
+			(expense) =>
+				expense.accountId === page.accountId &&
+				matchesPageFilter(expense, page.filter) &&
+				// Expenses past the loaded pages arrive with a later page
+				!(
+					page.hasMore &&
+					cursor &&
+					compareExpenses(expense, cursor, page.sort) > 0
+				)
+		),
+	].sort((a, b) => compareExpenses(a, b, page.sort));
+};
+
+const removeFromPage = (page: ExpensePage, id: string) => {
+	page.items = page.items.filter((exp) => exp.id !== id);
+};
+
+// Cached expenses shown while the server copy is being fetched
+export const expensesLoadedFromCache = createAction<Expense[]>(
+	'expenses/loadedFromCache'
+);
+
+export const receiptUploadProgress = createAction<ReceiptUploadProgress[]>(
+	'expenses/receiptUploadProgress'
+);
+
+// Async thunks
+export const addExpense = createAsyncThunk(
+	'expenses/addExpense',
+	async (
+		{
+			accountId,
+			amount,
+			category,
+			subcategory,
+			description,
+			notes,
+			date,
+			currency,
+			exchangeRate,
+			userId,
+			userDisplayName,
+			receiptFiles = [],
+			recurringId,
+			split,
+			lineItems,
+			tags = [],
+			paymentMethodId,
+			refundOf,
+			allowDuplicate = false,
+		}: {
+			accountId: string;
+			amount: number;
+			category: string;
+			subcategory?: string;
+			description: string;
+			notes?: string;
+			date: Date;
+			currency: string;
+			exchangeRate: number;
+			userId: string;
+			userDisplayName: string;
+			receiptFiles?: File[];
+			recurringId?: string;
+			split?: ExpenseSplit;
+			lineItems?: LineItem[];
+			tags?: string[];
+			paymentMethodId?: string;
+			// Expense a refund (a negative amount) gives money back for
+			refundOf?: string;
+			// Save even when the expense looks like one already entered
+			allowDuplicate?: boolean;
+		},
+		{ dispatch, getState, rejectWithValue }
+	) => {
+		try {
+			const lineItemError = lineItems
+				? validateLineItems(amount, lineItems)
+				: null;
+			if (lineItemError) {
+				return rejectWithValue(lineItemError);
+			}
+
+			// The account's approval policy decides the starting status
+			const { accounts, merchants } = getState() as {
+				accounts: { currentAccount: Account | null };
+				merchants: { accountId: string | null; merchants: Merchant[] };
+			};
+
+			const refundError = ExpenseRefunds.validate(
+				{ amountInBaseCurrency: amount * exchangeRate, refundOf },
+				await loadRefundContext(
+					accountId,
+					{ refundOf },
+					accounts.currentAccount?.baseCurrency
+				)
+			);
+			if (refundError) {
+				return rejectWithValue(refundError);
+			}
+
+			// Family members often both enter the same purchase; only the
+			// expenses of the days around it can match
+			if (!allowDuplicate) {
+				const { from, to } = ExpenseDuplicates.getDateRange(date);
+				const [duplicate] = DuplicateUtils.find(
+					{ description, amountInBaseCurrency: amount * exchangeRate, date },
+					await loadExpensesBetween(
+						accountId,
+						from,
+						to,
+						accounts.currentAccount?.baseCurrency
+					),
+					merchants.accountId === accountId ? merchants.merchants : []
+				);
+				if (duplicate) {
+					return rejectWithValue(
+						`This looks like "${
+							duplicate.description
+						}" from ${DateUtils.formatDate(duplicate.date)}, added by ${
+							duplicate.createdBy.displayName
+						}`
+					);
+				}
+			}
+
+			const account =
+				accounts.currentAccount?.id === accountId
+					? accounts.currentAccount
+					: null;
+			const status = account
+				? ApprovalUtils.getInitialStatus(
+						account,
+						{ amountInBaseCurrency: amount * exchangeRate, category },
+						userId
+				  )
+				: undefined;
+
+			// Ids are generated locally so expenses created offline keep theirs
+			const expenseId = db.createId('expenses');
+			const now = new Date();
+
+			// Create expense document
+			const expenseData: Record<string, any> = withSchemaVersion('expenses', {
+				accountId,
+				amount,
+				category,
+				description,
+				date,
+				createdAt: now,
+				updatedAt: now,
+				createdBy: {
+					uid: userId,
+					displayName: userDisplayName,
+				},
+				currency,
+				exchangeRate,
+				amountInBaseCurrency: amount * exchangeRate,
+				tags: TagUtils.normalize(tags),
+				receiptUrls: [],
+				...(subcategory ? { subcategory } : {}),
+				...(notes ? { notes } : {}),
+				...(paymentMethodId ? { paymentMethodId } : {}),
+				...(refundOf ? { refundOf } : {}),
+				...(recurringId ? { isRecurring: true, recurringId } : {}),
+				...(split ? { split } : {}),
+				...(lineItems?.length ? { lineItems, itemized: true } : {}),
+				...(status ? { status } : {}),
+			});
+
+			const syncStatus = await writeOrQueue(
+				{
+					collection: 'expenses',
+					op: 'create',
+					docId: expenseId,
+					accountId,
+					data: expenseData,
+					...(receiptFiles.length > 0 ? { receiptFiles } : {}),
+				},
+				async () => {
+					expenseData.receiptUrls = await uploadReceipts(
+						accountId,
+						receiptFiles,
+						(progress) => dispatch(receiptUploadProgress(progress))
+					);
+
+					await db.set('expenses', expenseId, expenseData);
+					await recordExpenseChange({
+						expenseId,
+						accountId,
+						action: 'create',
+						before: null,
+						after: expenseData,
+					});
+				}
+			);
+
+			const expense = {
+				id: expenseId,
+				...expenseData,
+				syncStatus,
+			} as Expense;
+
+			await offlineCache.put('expenses', expense);
+			if (syncStatus === 'pending') {
+				dispatch(refreshPendingCount());
+			}
+
+			return expense;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Load the expenses of the recent window; older ones are read page by page
+// (fetchExpensePage) or totalled by the database (fetchExpenseTotals)
+export const fetchRecentExpenses = createAsyncThunk(
+	'expenses/fetchRecentExpenses',
+	async (accountId: string, { dispatch, getState, rejectWithValue }) => {
+		try {
+			// Documents without a currency were recorded in the base currency
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const convert = (doc: Expense) =>
+				toExpense(doc, accounts.currentAccount?.baseCurrency);
+			const since = getExpenseWindowStart();
+
+			// Show the cached copy straight away, then refresh from the server
+			const cached = sortByDate(
+				convertDocuments(
+					await offlineCache.getAll<Expense>('expenses', accountId),
+					convert
+				).filter((expense) => expense.date >= since)
+			);
+			if (cached.length > 0) {
+				dispatch(expensesLoadedFromCache(cached));
+			}
+
+			if (!isOnline()) {
+				return cached;
+			}
+
+			try {
+				const stored = convertDocuments(
+					await upgradeOnRead(
+						'expenses',
+						await db.query<Expense>('expenses', {
+							where: [
+								{ field: 'accountId', op: '==', value: accountId },
+								{ field: 'date', op: '>=', value: since },
+							],
+							orderBy: [{ field: 'date', direction: 'desc' }],
+						}),
+						{ baseCurrency: accounts.currentAccount?.baseCurrency }
+					),
+					convert
+				);
+				const pendingIds = await offlineCache.getPendingIds('expenses');
+
+				// Queued local changes win over the server copy until replayed;
+				// documents deleted offline are no longer in the cache
+				const expenses: Expense[] = stored
+					.filter((expense) => !pendingIds.has(expense.id))
+					.map((expense) => ({ ...expense, syncStatus: 'synced' }));
+
+				// Expenses created or edited offline that haven't been replayed
+				cached
+					.filter((expense) => pendingIds.has(expense.id))
+					.forEach((expense) => expenses.push(expense));
+
+				sortByDate(expenses);
+				// Older cached expenses are kept for the list while offline
+				await offlineCache.replaceAccount(
+					'expenses',
+					accountId,
+					expenses,
+					since
+				);
+
+				return expenses;
+			} catch (error: any) {
+				if (isNetworkError(error)) {
+					return cached;
+				}
+				throw error;
+			}
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Load the first page (reset) or the next page of the expense list
+export const fetchExpensePage = createAsyncThunk(
+	'expenses/fetchExpensePage',
+	async (
+		{
+			accountId,
+			sort,
+			filter,
+			reset = false,
+		}: {
+			accountId: string;
+			sort: ExpenseSort;
+			filter: ExpensePageFilter;
+			reset?: boolean;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { accounts, expenses } = getState() as {
+				accounts: { currentAccount: Account | null };
+				expenses: ExpenseState;
+			};
+			const cursor = reset ? null : expenses.page.cursor;
+			const convert = (doc: Expense) =>
+				toExpense(doc, accounts.currentAccount?.baseCurrency);
+
+			// Pages from the cached copy of the account while offline
+			const pageFromCache = async () => {
+				const cached = convertDocuments(
+					await offlineCache.getAll<Expense>('expenses', accountId),
+					convert
+				)
+					.filter((expense) => matchesPageFilter(expense, filter))
+					.filter(
+						(expense) => !cursor || compareExpenses(expense, cursor, sort) > 0
+					)
+					.sort((a, b) => compareExpenses(a, b, sort));
+				const items = cached.slice(0, EXPENSE_PAGE_SIZE);
+
+				return {
+					items,
+					cursor: items[items.length - 1] || cursor,
+					hasMore: cached.length > EXPENSE_PAGE_SIZE,
+				};
+			};
+
+			if (!isOnline()) {
+				return await pageFromCache();
+			}
+
+			// Firestore can only range filter the first ordered field, so other
+			// sorts filter dates on each loaded page instead
+			const where: QueryFilter[] = [
+				{ field: 'accountId', op: '==', value: accountId },
+			];
+			if (filter.category) {
+				where.push({ field: 'category', op: '==', value: filter.category });
+			}
+			if (filter.paymentMethodId) {
+				where.push({
+					field: 'paymentMethodId',
+					op: '==',
+					value: filter.paymentMethodId,
+				});
+			}
+			if (sort.field === 'date' && filter.startDate) {
+				where.push({
+					field: 'date',
+					op: '>=',
+					value: new Date(filter.startDate),
+				});
+			}
+			if (sort.field === 'date' && filter.endDate) {
+				where.push({
+					field: 'date',
+					op: '<=',
+					value: new Date(filter.endDate),
+				});
+			}
+
+			try {
+				const stored = convertDocuments(
+					await upgradeOnRead(
+						'expenses',
+						await db.query<Expense>('expenses', {
+							where,
+							orderBy: [
+								{ field: sort.field, direction: sort.direction },
+								{ field: 'id', direction: sort.direction },
+							],
+							startAfter: cursor ? [cursor[sort.field], cursor.id] : undefined,
+							limit: EXPENSE_PAGE_SIZE,
+						}),
+						{ baseCurrency: accounts.currentAccount?.baseCurrency }
+					),
+					convert
+				);
+				const pendingIds = await offlineCache.getPendingIds('expenses');
+
+				// Queued local changes win over the server copy until replayed;
+				// documents deleted offline are no longer in the cache
+				const items: Expense[] = [];
+				for (const expense of stored) {
+					if (!pendingIds.has(expense.id)) {
+						items.push({ ...expense, syncStatus: 'synced' });
+						continue;
+					}
+					const cached = await offlineCache.get<Expense>(
+						'expenses',
+						expense.id
+					);
+					if (cached) {
+						items.push(...convertDocuments([cached], convert));
+					}
+				}
+
+				return {
+					items: items.filter((expense) => matchesPageFilter(expense, filter)),
+					cursor: stored[stored.length - 1] || cursor,
+					hasMore: stored.length === EXPENSE_PAGE_SIZE,
+				};
+			} catch (error: any) {
+				if (isNetworkError(error)) {
+					return await pageFromCache();
+				}
+				throw error;
+			}
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	},
+	{
+		// Skip "load more" while a page is loading or after the last one
+		condition: ({ reset }, { getState }) => {
+			const { expenses } = getState() as { expenses: ExpenseState };
+			return (
+				reset || (expenses.page.hasMore && expenses.page.status !== 'loading')
+			);
+		},
+	}
+);
+
+// Totals for the summary cards, counted by the database
+export const fetchExpenseTotals = createAsyncThunk(
+	'expenses/fetchExpenseTotals',
+	async (accountId: string, { getState, rejectWithValue }) => {
+		try {
+			const { budgets } = getState() as { budgets: { budgets: Budget[] } };
+			const now = new Date();
+			const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+			const previousMonthStart = new Date(
+				now.getFullYear(),
+				now.getMonth() - 1,
+				1
+			);
+			// Completed budgets are counted too, for the budget list
+			const accountBudgets = budgets.budgets.filter(
+				(budget) => budget.accountId === accountId
+			);
+
+			// Offline, the cached copy of the account is totalled instead
+			const totalsFromCache = async (): Promise<ExpenseTotals> => {
+				const cached = convertDocuments(
+					await offlineCache.getAll<Expense>('expenses', accountId),
+					toExpense
+				);
+				const sumFrom = (from: Date, to?: Date) =>
+					cached
+						.filter(
+							(expense) => expense.date >= from && (!to || expense.date < to)
+						)
+						.reduce(
+							(total, expense) => total + expense.amountInBaseCurrency,
+							0
+						);
+
+				return {
+					accountId,
+					count: cached.length,
+					currentMonth: sumFrom(monthStart),
+					previousMonth: sumFrom(previousMonthStart, monthStart),
+					budgetSpent: Object.fromEntries(
+						accountBudgets.map((budget) => [
+							budget.id,
+							BudgetUtils.getBudgetSpent(budget, cached),
+						])
+					),
+				};
+			};
+
+			if (!isOnline()) {
+				return await totalsFromCache();
+			}
+
+			const aggregate = (filters: QueryFilter[]) =>
+				db.aggregate(
+					'expenses',
+					{
+						where: [
+							{ field: 'accountId', op: '==', value: accountId },
+							...filters,
+						],
+					},
+					'amountInBaseCurrency'
+				);
+
+			try {
+				const [all, currentMonth, previousMonth, ...budgetTotals] =
+					await Promise.all([
+						aggregate([]),
+						aggregate([{ field: 'date', op: '>=', value: monthStart }]),
+						aggregate([
+							{ field: 'date', op: '>=', value: previousMonthStart },
+							{ field: 'date', op: '<', value: monthStart },
+						]),
+						// Whole expenses by their own category; line items are
+						// adjusted for below
+						...accountBudgets.map((budget) =>
+							aggregate([
+								{ field: 'date', op: '>=', value: new Date(budget.startDate) },
+								{ field: 'date', op: '<=', value: new Date(budget.endDate) },
+								...(budget.category === 'All'
+									? []
+									: [
+											{
+												field: 'category',
+												op: '==' as const,
+												value: budget.category,
+											},
+									  ]),
+							])
+						),
+					]);
+
+				// Expenses of the budget periods matching a filter
+				const queryBudgetExpenses = async (
+					forBudgets: Budget[],
+					filter: QueryFilter
+				) =>
+					forBudgets.length > 0
+						? convertDocuments(
+								await db.query<Expense>('expenses', {
+									where: [
+										{ field: 'accountId', op: '==', value: accountId },
+										filter,
+										{
+											field: 'date',
+											op: '>=',
+											value: new Date(
+												Math.min(
+													...forBudgets.map((budget) =>
+														new Date(budget.startDate).getTime()
+													)
+												)
+											),
+										},
+									],
+								}),
+								toExpense
+						  )
+						: [];
+
+				// Line items can't be summed by the database, so itemized
+				// expenses are loaded to count them in their own categories
+				const itemized = await queryBudgetExpenses(
+					accountBudgets.filter((budget) => budget.category !== 'All'),
+					{ field: 'itemized', op: '==', value: true }
+				);
+				// Expenses waiting for approval or rejected don't count
+				const unapproved = await queryBudgetExpenses(accountBudgets, {
+					field: 'status',
+					op: 'in',
+					value: ['pending', 'rejected'],
+				});
+
+				return {
+					accountId,
+					count: all.count,
+					currentMonth: currentMonth.sum,
+					previousMonth: previousMonth.sum,
+					budgetSpent: Object.fromEntries(
+						accountBudgets.map((budget, index) => [
+							budget.id,
+							budgetTotals[index].sum +
+								BudgetUtils.getLineItemAdjustment(budget, itemized) +
+								BudgetUtils.getUnapprovedAdjustment(budget, unapproved),
+						])
+					),
+				};
+			} catch (error: any) {
+				if (isNetworkError(error)) {
+					return await totalsFromCache();
+				}
+				throw error;
+			}
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const updateExpense = createAsyncThunk(
+	'expenses/updateExpense',
+	async (
+		{
+			id,
+			updates,
+			receiptFiles = [],
+			removedReceiptUrls = [],
+			revertedTo,
+		}: {
+			id: string;
+			updates: ExpenseUpdates;
+			// Receipts added to the expense
+			receiptFiles?: File[];
+			// Attached receipts the user removed
+			removedReceiptUrls?: string[];
+			// History entry being restored, when this update is a revert
+			revertedTo?: string;
+		},
+		{ dispatch, getState, rejectWithValue }
+	) => {
+		try {
+			const state = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			// The expense may be on a list page older than the loaded window
+			const currentExpense = await loadExpense(
+				id,
+				state.accounts.currentAccount?.baseCurrency
+			);
+
+			if (!currentExpense) {
+				return rejectWithValue('Expense not found');
+			}
+
+			// Line items must still add up after the change
+			const lineItems =
+				updates.lineItems === undefined
+					? currentExpense.lineItems
+					: updates.lineItems;
+			const lineItemError = lineItems
+				? validateLineItems(updates.amount ?? currentExpense.amount, lineItems)
+				: null;
+			if (lineItemError) {
+				return rejectWithValue(lineItemError);
+			}
+
+			const editor = currentMemberRef();
+			const updatedData: Record<string, any> = {
+				...updates,
+				updatedAt: new Date(),
+				...(editor ? { updatedBy: editor } : {}),
+			};
+
+			// Calculate amount in base currency if amount or exchange rate changed
+			if (updates.amount !== undefined || updates.exchangeRate !== undefined) {
+				const newAmount = updates.amount ?? currentExpense.amount;
+				const newExchangeRate =
+					updates.exchangeRate ?? currentExpense.exchangeRate;
+				updatedData.amountInBaseCurrency = newAmount * newExchangeRate;
+			}
+
+			// Refunds can't add up to more than the expense they belong to
+			const refundOf =
+				updates.refundOf !== undefined
+					? updates.refundOf
+					: currentExpense.refundOf;
+			const refundContext = await loadRefundContext(
+				currentExpense.accountId,
+				{ id, refundOf },
+				state.accounts.currentAccount?.baseCurrency
+			);
+			const refundError = ExpenseRefunds.validate(
+				{
+					id,
+					amountInBaseCurrency:
+						updatedData.amountInBaseCurrency ??
+						currentExpense.amountInBaseCurrency,
+					// A refund of a deleted expense can still be changed
+					refundOf:
+						updates.refundOf !== undefined ||
+						refundContext.some((exp) => exp.id === refundOf)
+							? refundOf
+							: undefined,
+				},
+				refundContext
+			);
+			if (refundError) {
+				return rejectWithValue(refundError);
+			}
+
+			if (updates.lineItems !== undefined) {
+				updatedData.lineItems = updates.lineItems?.length
+					? updates.lineItems
+					: null;
+				updatedData.itemized = updates.lineItems?.length ? true : null;
+			}
+
+			// Changed and rejected expenses go back through approval
+			const account = state.accounts.currentAccount;
+			if (
+				account?.id === currentExpense.accountId &&
+				ApprovalUtils.needsReviewAfter(currentExpense, updates)
+			) {
+				updatedData.status =
+					ApprovalUtils.getInitialStatus(
+						account,
+						{
+							amountInBaseCurrency:
+								updatedData.amountInBaseCurrency ??
+								currentExpense.amountInBaseCurrency,
+							category: updates.category ?? currentExpense.category,
+						},
+						editor?.uid
+					) ?? null;
+				updatedData.review = null;
+			}
+
+			const syncStatus = await writeOrQueue(
+				{
+					collection: 'expenses',
+					op: 'update',
+					docId: id,
+					accountId: currentExpense.accountId,
+					data: { ...updatedData },
+					base: toFirestoreData(currentExpense),
+					...(receiptFiles.length > 0 ? { receiptFiles } : {}),
+					...(removedReceiptUrls.length > 0 ? { removedReceiptUrls } : {}),
+				},
+				async () => {
+					// Handle receipt changes
+					if (receiptFiles.length > 0 || removedReceiptUrls.length > 0) {
+						const added = await uploadReceipts(
+							currentExpense.accountId,
+							receiptFiles,
+							(progress) => dispatch(receiptUploadProgress(progress))
+						);
+						updatedData.receiptUrls = [
+							...(currentExpense.receiptUrls || []).filter(
+								(url) => !removedReceiptUrls.includes(url)
+							),
+							...added,
+						];
+					}
+
+					// Update the document
+					await db.update('expenses', id, updatedData);
+					// Removed files are only deleted once nothing points at them
+					await removeReceipts(removedReceiptUrls);
+					await recordExpenseChange({
+						expenseId: id,
+						accountId: currentExpense.accountId,
+						action: revertedTo ? 'revert' : 'update',
+						before: toFirestoreData(currentExpense),
+						after: { ...toFirestoreData(currentExpense), ...updatedData },
+						revertedTo,
+					});
+				}
+			);
+
+			if (syncStatus === 'pending') {
+				// New receipts show up once the change is replayed
+				if (removedReceiptUrls.length > 0) {
+					updatedData.receiptUrls = (currentExpense.receiptUrls || []).filter(
+						(url) => !removedReceiptUrls.includes(url)
+					);
+				}
+				dispatch(refreshPendingCount());
+			}
+
+			const expense: Expense = {
+				...withUpdates(currentExpense, updatedData),
+				id,
+				syncStatus,
+			};
+			await offlineCache.put('expenses', expense);
+
+			return expense;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Changes delivered by the live subscription of the current account, which
+// follows the expenses dated on or after `since`
+export const applyExpenseChanges = createAsyncThunk(
+	'expenses/applyExpenseChanges',
+	async (
+		{
+			accountId,
+			changes,
+			initial,
+			since,
+		}: {
+			accountId: string;
+			changes: DocumentChange[];
+			initial: boolean;
+			// Start of the followed window, as an ISO string
+			since: string;
+		},
+		{ dispatch, getState, rejectWithValue }
+	) => {
+		try {
+			const { accounts, expenses } = getState() as {
+				accounts: { currentAccount: Account | null };
+				expenses: ExpenseState;
+			};
+			const pendingIds = await offlineCache.getPendingIds('expenses');
+			const self = currentMemberRef();
+			const convert = (doc: Expense) =>
+				toExpense(doc, accounts.currentAccount?.baseCurrency);
+
+			const upserted: Expense[] = [];
+			const removedIds: string[] = [];
+			const activity: LiveActivity[] = [];
+
+			// Expenses leave the window when deleted or when their date moves
+			// before it; the ones that still exist stay in the loaded pages
+			const removed = changes.filter(
+				(change) => change.type === 'removed' && !pendingIds.has(change.doc.id)
+			);
+			const stillStored = await Promise.all(
+				removed.map((change) => db.get<Expense>('expenses', change.doc.id))
+			);
+			removed.forEach((change, index) => {
+				const stored = stillStored[index];
+				const [moved] = stored ? convertDocuments([stored], convert) : [];
+				if (moved) {
+					upserted.push({ ...moved, syncStatus: 'synced' });
+				} else {
+					removedIds.push(change.doc.id);
+				}
+			});
+
+			for (const change of changes) {
+				// Queued local changes win until they are replayed
+				if (pendingIds.has(change.doc.id) || change.type === 'removed') {
+					continue;
+				}
+
+				const [converted] = convertDocuments([change.doc], (doc) =>
+					toExpense(doc, accounts.currentAccount?.baseCurrency)
+				);
+				if (!converted) continue;
+
+				const expense: Expense = { ...converted, syncStatus: 'synced' };
+				upserted.push(expense);
+
+				// The first snapshot is the current state, not news
+				const by =
+					change.type === 'added'
+						? expense.createdBy
+						: expense.updatedBy ?? expense.createdBy;
+				if (!initial && !change.isLocal && by.uid !== self?.uid) {
+					activity.push({
+						expenseId: expense.id,
+						type: change.type,
+						by,
+						at: new Date().toISOString(),
+					});
+				}
+
+				// Let submitters know when an approver decides on their expense
+				const previous = expenses.expenses.find((exp) => exp.id === expense.id);
+				if (
+					!initial &&
+					!change.isLocal &&
+					expense.createdBy.uid === self?.uid &&
+					expense.review &&
+					expense.review.by.uid !== self.uid &&
+					previous &&
+					previous.status !== expense.status
+				) {
+					dispatch(
+						addNotification(
+							expense.status === 'rejected'
+								? {
+										type: 'warning',
+										message: `${expense.review.by.displayName} rejected "${
+											expense.description
+										}"${
+											expense.review.reason ? `: ${expense.review.reason}` : ''
+										}`,
+								  }
+								: {
+										type: 'success',
+										message: `${expense.review.by.displayName} approved "${expense.description}"`,
+								  }
+						)
+					);
+				}
+			}
+
+			// One transaction, however large the first snapshot is
+			await offlineCache.bulkWrite('expenses', upserted, removedIds);
+
+			return { accountId, initial, since, upserted, removedIds, activity };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const deleteExpense = createAsyncThunk(
+	'expenses/deleteExpense',
+	async (id: string, { dispatch, getState, rejectWithValue }) => {
+		try {
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const expense = await loadExpense(
+				id,
+				accounts.currentAccount?.baseCurrency
+			);
+
+			if (!expense) {
+				return rejectWithValue('Expense not found');
+			}
+
+			const syncStatus = await writeOrQueue(
+				{
+					collection: 'expenses',
+					op: 'delete',
+					docId: id,
+					accountId: expense.accountId,
+					base: toFirestoreData(expense),
+				},
+				async () => {
+					// Receipts stay with the expense so a restore brings them back
+					await moveToTrash(
+						'expenses',
+						id,
+						expense.accountId,
+						toFirestoreData(expense)
+					);
+					await recordExpenseChange({
+						expenseId: id,
+						accountId: expense.accountId,
+						action: 'delete',
+						before: toFirestoreData(expense),
+						after: null,
+					});
+				}
+			);
+
+			await offlineCache.remove('expenses', id);
+			if (syncStatus === 'pending') {
+				dispatch(refreshPendingCount());
+			}
+
+			return id;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
 
-// Helper function to convert Firestore timestamp to Date
-const convertTimestamps = (expense: any): Expense => {
-	return {
-		...expense,
-		date:
-			expense.date instanceof Timestamp ? expense.date.toDate() : expense.date,
-		createdAt:
-			expense.createdAt instanceof Timestamp
-				? expense.createdAt.toDate()
-				: expense.createdAt,
-	};
-};
+// An expense with what its refunds are checked against, read from storage
+// since either may be older than the loaded window
+export const fetchExpenseWithRefunds = createAsyncThunk(
+	'expenses/fetchExpenseWithRefunds',
+	async (id: string, { getState, rejectWithValue }) => {
+		try {
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const baseCurrency = accounts.currentAccount?.baseCurrency;
+			const expense = await loadExpense(id, baseCurrency);
+			if (!expense) {
+				return rejectWithValue('Expense not found');
+			}
 
-// Async thunks
-export const addExpense = createAsyncThunk(
-	'expenses/addExpense',
+			return {
+				expense,
+				refundContext: await loadRefundContext(
+					expense.accountId,
+					expense,
+					baseCurrency
+				),
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Ids of every expense matching the list's filters, not just the loaded
+// pages, so a selection can cover all of them
+export const fetchMatchingExpenseIds = createAsyncThunk(
+	'expenses/fetchMatchingExpenseIds',
 	async (
 		{
 			accountId,
-			amount,
-			category,
-			description,
-			date,
-			currency,
-			exchangeRate,
-			userId,
-			userDisplayName,
-			receiptFile,
-		}: {
-			accountId: string;
-			amount: number;
-			category: string;
-			description: string;
-			date: Date;
-			currency: string;
-			exchangeRate: number;
-			userId: string;
-			userDisplayName: string;
-			receiptFile?: File;
-		},
-		{ rejectWithValue }
+			filter,
+			search,
+		}: { accountId: string; filter: ExpensePageFilter; search?: string },
+		{ getState, rejectWithValue }
 	) => {
 		try {
-			let receiptUrl;
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
 
-			// Upload receipt if provided
-			if (receiptFile) {
-				const storageRef = ref(
-					storage,
-					`receipts/${accountId}/${Date.now()}_${receiptFile.name}`
-				);
-				const snapshot = await uploadBytes(storageRef, receiptFile);
-				receiptUrl = await getDownloadURL(snapshot.ref);
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const where: QueryFilter[] = [
+				{ field: 'accountId', op: '==', value: accountId },
+			];
+			if (filter.category) {
+				where.push({ field: 'category', op: '==', value: filter.category });
+			}
+			if (filter.paymentMethodId) {
+				where.push({
+					field: 'paymentMethodId',
+					op: '==',
+					value: filter.paymentMethodId,
+				});
 			}
 
-			// Create expense document
-			const expenseData = {
-				accountId,
-				amount,
-				category,
-				description,
-				date,
-				createdAt: new Date(),
-				createdBy: {
-					uid: userId,
-					displayName: userDisplayName,
+			const docs = await db.query<Expense>('expenses', { where });
+			const query = parseExpenseQuery(search || '');
+			return convertDocuments(docs, (doc) =>
+				toExpense(doc, accounts.currentAccount?.baseCurrency)
+			)
+				.filter(
+					(expense) =>
+						matchesPageFilter(expense, filter) &&
+						matchesExpenseQuery(query, expense)
+				)
+				.map((expense) => expense.id);
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Every expense of the account, not just the loaded window, for changes
+// that run over all of them (category rules applied retroactively)
+export const fetchAccountExpenses = createAsyncThunk(
+	'expenses/fetchAccountExpenses',
+	async (accountId: string, { getState, rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
+
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const docs = await db.query<Expense>('expenses', {
+				where: [{ field: 'accountId', op: '==', value: accountId }],
+				orderBy: [{ field: 'date', direction: 'desc' }],
+			});
+			return convertDocuments(docs, (doc) =>
+				toExpense(doc, accounts.currentAccount?.baseCurrency)
+			);
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const bulkUpdateExpenses = createAsyncThunk(
+	'expenses/bulkUpdateExpenses',
+	async (
+		{ ids, changes }: { ids: string[]; changes: BulkExpenseChanges },
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
+
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const account = accounts.currentAccount;
+			if (!account) {
+				return rejectWithValue('No account selected');
+			}
+
+			const editor = currentMemberRef();
+			const at = new Date();
+			const before: Expense[] = [];
+			const writes: ExpenseWrite[] = [];
+
+			for (const expense of await loadBatchExpenses(ids, account)) {
+				const updates = getBulkUpdates(expense, changes);
+				if (Object.keys(updates).length === 0) continue;
+
+				const data: Record<string, any> = {
+					...updates,
+					updatedAt: at,
+					...(editor ? { updatedBy: editor } : {}),
+				};
+				// Same approval rules as a single edit
+				if (ApprovalUtils.needsReviewAfter(expense, updates)) {
+					data.status =
+						ApprovalUtils.getInitialStatus(
+							account,
+							{
+								amountInBaseCurrency: expense.amountInBaseCurrency,
+								category: updates.category ?? expense.category,
+							},
+							editor?.uid
+						) ?? null;
+					data.review = null;
+				}
+
+				before.push(expense);
+				writes.push({ id: expense.id, data });
+			}
+
+			if (writes.length === 0) {
+				return rejectWithValue('The selected expenses already match');
+			}
+
+			const updated = await commitExpenseUpdates(before, writes);
+
+			return {
+				accountId: account.id,
+				batch: {
+					action: 'update' as const,
+					accountId: account.id,
+					description: `Updated ${pluralizeExpenses(updated.length)}`,
+					before,
+					at: at.toISOString(),
 				},
-				currency,
-				exchangeRate,
-				amountInBaseCurrency: amount * exchangeRate,
-				receiptUrl,
-				tags: [],
+				upserted: updated,
+				removedIds: [],
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const bulkMoveExpenses = createAsyncThunk(
+	'expenses/bulkMoveExpenses',
+	async (
+		{ ids, accountId }: { ids: string[]; accountId: string },
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
+
+			const { accounts } = getState() as {
+				accounts: { accounts: Account[]; currentAccount: Account | null };
 			};
+			const account = accounts.currentAccount;
+			const target = accounts.accounts.find((acc) => acc.id === accountId);
+			const editor = currentMemberRef();
+			if (!account) {
+				return rejectWithValue('No account selected');
+			}
+			if (
+				!target ||
+				target.id === account.id ||
+				!target.members.some(
+					(member) => member.uid === editor?.uid && member.role !== 'viewer'
+				)
+			) {
+				return rejectWithValue("You can't add expenses to that account");
+			}
+
+			// Amounts are converted again if the base currencies differ
+			const rates: Record<string, number> =
+				target.baseCurrency === account.baseCurrency
+					? {}
+					: await getExchangeRates(target.baseCurrency);
+			const isMember = (uid: string) =>
+				target.members.some((member) => member.uid === uid);
+
+			const at = new Date();
+			const selected = await loadBatchExpenses(ids, account);
+			const before = [
+				...selected,
+				...(await loadLinkedRefunds(selected, account)),
+			];
+			const writes: ExpenseWrite[] = [];
+
+			for (const expense of before) {
+				let exchangeRate = expense.exchangeRate;
+				if (expense.currency === target.baseCurrency) {
+					exchangeRate = 1;
+				} else if (target.baseCurrency !== account.baseCurrency) {
+					if (!rates[expense.currency]) {
+						return rejectWithValue(
+							`No exchange rate from ${expense.currency} to ${target.baseCurrency}`
+						);
+					}
+					exchangeRate = 1 / rates[expense.currency];
+				}
+				const amountInBaseCurrency = expense.amount * exchangeRate;
+
+				// A split only carries over if everyone in it is in the new account
+				const keepsSplit =
+					!expense.split ||
+					[
+						expense.split.paidBy,
+						...expense.split.shares.map((share) => share.uid),
+					].every(isMember);
+
+				writes.push({
+					id: expense.id,
+					data: {
+						accountId: target.id,
+						exchangeRate,
+						amountInBaseCurrency,
+						...(keepsSplit ? {} : { split: null }),
+						// Payment methods belong to the account they were added to
+						...(expense.paymentMethodId ? { paymentMethodId: null } : {}),
+						status:
+							ApprovalUtils.getInitialStatus(
+								target,
+								{ amountInBaseCurrency, category: expense.category },
+								editor?.uid
+							) ?? null,
+						review: null,
+						updatedAt: at,
+						...(editor ? { updatedBy: editor } : {}),
+					},
+				});
+			}
 
-			const docRef = await addDoc(collection(db, 'expenses'), expenseData);
+			const moved = await commitExpenseUpdates(before, writes);
 
 			return {
-				id: docRef.id,
-				...expenseData,
+				accountId: account.id,
+				batch: {
+					action: 'move' as const,
+					accountId: account.id,
+					description: `Moved ${pluralizeExpenses(moved.length)} to ${
+						target.name
+					}`,
+					before,
+					at: at.toISOString(),
+				},
+				upserted: moved,
+				removedIds: [],
 			};
 		} catch (error: any) {
 			return rejectWithValue(error.message);
@@ -155,103 +1759,152 @@ export const addExpense = createAsyncThunk(
 	}
 );
 
-export const fetchExpenses = createAsyncThunk(
-	'expenses/fetchExpenses',
-	async (accountId: string, { rejectWithValue }) => {
+export const bulkDeleteExpenses = createAsyncThunk(
+	'expenses/bulkDeleteExpenses',
+	async (ids: string[], { getState, rejectWithValue }) => {
 		try {
-			const q = query(
-				collection(db, 'expenses'),
-				where('accountId', '==', accountId),
-				orderBy('date', 'desc')
-			);
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
 
-			const querySnapshot = await getDocs(q);
-			const expenses: Expense[] = [];
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const account = accounts.currentAccount;
+			if (!account) {
+				return rejectWithValue('No account selected');
+			}
 
-			querySnapshot.forEach((doc) => {
-				const data = doc.data();
-				expenses.push(
-					convertTimestamps({
-						id: doc.id,
-						...data,
-					})
+			const at = new Date();
+			const before = await loadBatchExpenses(ids, account);
+
+			// Receipts stay with the expenses so an undo brings them back
+			for (const chunk of inBatchChunks(before)) {
+				await db.batch(
+					await trash.getMoveToTrashWrites(
+						'expenses',
+						account.id,
+						chunk.map((expense) => ({
+							...toFirestoreData(expense),
+							id: expense.id,
+						}))
+					)
 				);
-			});
+			}
+			for (const expense of before) {
+				await recordExpenseChange({
+					expenseId: expense.id,
+					accountId: expense.accountId,
+					action: 'delete',
+					before: toFirestoreData(expense),
+					after: null,
+				});
+				await offlineCache.remove('expenses', expense.id);
+			}
 
-			return expenses;
+			return {
+				accountId: account.id,
+				batch: {
+					action: 'delete' as const,
+					accountId: account.id,
+					description: `Deleted ${pluralizeExpenses(before.length)}`,
+					before,
+					at: at.toISOString(),
+				},
+				upserted: [],
+				removedIds: before.map((expense) => expense.id),
+			};
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
 	}
 );
 
-export const updateExpense = createAsyncThunk(
-	'expenses/updateExpense',
+// Rename a tag on every expense of the account, merge it into another tag,
+// or remove it (replacement null); undone like the other bulk changes
+export const replaceExpenseTag = createAsyncThunk(
+	'expenses/replaceExpenseTag',
 	async (
 		{
-			id,
-			updates,
-			receiptFile,
-			deleteReceipt,
-		}: {
-			id: string;
-			updates: Partial<Omit<Expense, 'id' | 'createdAt' | 'createdBy'>>;
-			receiptFile?: File;
-			deleteReceipt?: boolean;
-		},
+			accountId,
+			tag,
+			replacement,
+		}: { accountId: string; tag: string; replacement: string | null },
 		{ getState, rejectWithValue }
 	) => {
 		try {
-			const state = getState() as { expenses: ExpenseState };
-			const currentExpense = state.expenses.expenses.find(
-				(exp) => exp.id === id
-			);
+			const [target = null] =
+				replacement === null ? [] : TagUtils.normalize([replacement]);
+			if (replacement !== null && !target) {
+				return rejectWithValue('Enter a tag name');
+			}
+			if (target === tag) {
+				return rejectWithValue(`The tag is already called "${tag}"`);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
 
-			if (!currentExpense) {
-				return rejectWithValue('Expense not found');
+			const { accounts } = getState() as {
+				accounts: { accounts: Account[]; currentAccount: Account | null };
+			};
+			const account =
+				accounts.currentAccount?.id === accountId
+					? accounts.currentAccount
+					: accounts.accounts.find((item) => item.id === accountId);
+			const editor = currentMemberRef();
+			if (
+				!account ||
+				!editor ||
+				!account.members.some(
+					(member) => member.uid === editor.uid && member.role === 'admin'
+				)
+			) {
+				return rejectWithValue('Only account admins can manage tags');
 			}
 
-			let updatedData = { ...updates };
+			// Line item tags can't be queried, so the whole account is read
+			const docs = await db.query<Expense>('expenses', {
+				where: [{ field: 'accountId', op: '==', value: accountId }],
+			});
+			const at = new Date();
+			const before: Expense[] = [];
+			const writes: ExpenseWrite[] = [];
 
-			// Handle receipt changes
-			if (deleteReceipt && currentExpense.receiptUrl) {
-				// Delete the old receipt
-				const oldReceiptRef = ref(storage, currentExpense.receiptUrl);
-				await deleteObject(oldReceiptRef);
-				updatedData.receiptUrl = null;
-			} else if (receiptFile) {
-				// Delete old receipt if exists
-				if (currentExpense.receiptUrl) {
-					const oldReceiptRef = ref(storage, currentExpense.receiptUrl);
-					await deleteObject(oldReceiptRef);
-				}
+			for (const expense of convertDocuments(docs, (doc) =>
+				toExpense(doc, account.baseCurrency)
+			)) {
+				const updates = TagUtils.getReplaceUpdates(expense, tag, target);
+				if (Object.keys(updates).length === 0) continue;
 
-				// Upload new receipt
-				const storageRef = ref(
-					storage,
-					`receipts/${currentExpense.accountId}/${Date.now()}_${
-						receiptFile.name
-					}`
-				);
-				const snapshot = await uploadBytes(storageRef, receiptFile);
-				updatedData.receiptUrl = await getDownloadURL(snapshot.ref);
+				before.push(expense);
+				writes.push({
+					id: expense.id,
+					data: { ...updates, updatedAt: at, updatedBy: editor },
+				});
 			}
 
-			// Calculate amount in base currency if amount or exchange rate changed
-			if (updates.amount !== undefined || updates.exchangeRate !== undefined) {
-				const newAmount = updates.amount ?? currentExpense.amount;
-				const newExchangeRate =
-					updates.exchangeRate ?? currentExpense.exchangeRate;
-				updatedData.amountInBaseCurrency = newAmount * newExchangeRate;
+			if (writes.length === 0) {
+				return rejectWithValue(`No expenses are tagged "${tag}"`);
 			}
 
-			// Update the document
-			await updateDoc(doc(db, 'expenses', id), updatedData);
+			const updated = await commitExpenseUpdates(before, writes);
+			const count = pluralizeExpenses(updated.length);
 
 			return {
-				id,
-				...currentExpense,
-				...updatedData,
+				accountId,
+				batch: {
+					action: 'update' as const,
+					accountId,
+					description:
+						target === null
+							? `Removed the tag "${tag}" from ${count}`
+							: `Renamed the tag "${tag}" to "${target}" on ${count}`,
+					before,
+					at: at.toISOString(),
+				},
+				upserted: updated,
+				removedIds: [],
 			};
 		} catch (error: any) {
 			return rejectWithValue(error.message);
@@ -259,27 +1912,94 @@ export const updateExpense = createAsyncThunk(
 	}
 );
 
-export const deleteExpense = createAsyncThunk(
-	'expenses/deleteExpense',
-	async (id: string, { getState, rejectWithValue }) => {
+// Put back the expenses of the last bulk change. Expenses changed again
+// since then, or deleted ones no longer in the trash, are left alone.
+export const undoExpenseBatch = createAsyncThunk(
+	'expenses/undoExpenseBatch',
+	async (_, { getState, rejectWithValue }) => {
 		try {
-			const state = getState() as { expenses: ExpenseState };
-			const expense = state.expenses.expenses.find((exp) => exp.id === id);
+			if (!isOnline()) {
+				return rejectWithValue(BULK_OFFLINE_MESSAGE);
+			}
 
-			if (!expense) {
-				return rejectWithValue('Expense not found');
+			const { accounts, expenses } = getState() as {
+				accounts: { currentAccount: Account | null };
+				expenses: ExpenseState;
+			};
+			const batch = expenses.lastBatch;
+			if (!batch) {
+				return rejectWithValue('Nothing to undo');
 			}
 
-			// Delete receipt if exists
-			if (expense.receiptUrl) {
-				const receiptRef = ref(storage, expense.receiptUrl);
-				await deleteObject(receiptRef);
+			const restored: Expense[] = [];
+
+			for (const chunk of inBatchChunks(batch.before)) {
+				if (batch.action === 'delete') {
+					const items = await Promise.all(
+						chunk.map((expense) => trash.getItem('expenses', expense.id))
+					);
+					const writes = items.flatMap((item) =>
+						item ? trash.getRestoreWrites(item) : []
+					);
+					if (writes.length === 0) continue;
+
+					await db.batch(writes);
+					for (const expense of chunk) {
+						if (!items.some((item) => item?.docId === expense.id)) continue;
+						restored.push(expense);
+						await recordExpenseChange({
+							expenseId: expense.id,
+							accountId: expense.accountId,
+							action: 'restore',
+							before: null,
+							after: toFirestoreData(expense),
+						});
+					}
+				} else {
+					const current = await Promise.all(
+						chunk.map((expense) => db.get('expenses', expense.id))
+					);
+					const unchanged = chunk.filter(
+						(_expense, index) =>
+							current[index]?.updatedAt instanceof Date &&
+							current[index]?.updatedAt.toISOString() === batch.at
+					);
+					if (unchanged.length === 0) continue;
+
+					await db.batch(
+						unchanged.map((expense) => ({
+							op: 'set' as const,
+							collection: 'expenses',
+							id: expense.id,
+							data: toFirestoreData(expense),
+						}))
+					);
+					for (const expense of unchanged) {
+						restored.push(expense);
+						await recordExpenseChange({
+							expenseId: expense.id,
+							accountId: expense.accountId,
+							action: 'update',
+							before: current[chunk.indexOf(expense)],
+							after: toFirestoreData(expense),
+						});
+					}
+				}
 			}
 
-			// Delete expense document
-			await deleteDoc(doc(db, 'expenses', id));
+			const upserted = restored.map(
+				(expense): Expense => ({ ...expense, syncStatus: 'synced' })
+			);
+			for (const expense of upserted) {
+				await offlineCache.put('expenses', expense);
+			}
 
-			return id;
+			return {
+				accountId: accounts.currentAccount?.id ?? batch.accountId,
+				upserted,
+				removedIds: [],
+				skipped: batch.before.length - restored.length,
+			};
 		} catch (error: any) {
 			return rejectWithValue(error.message);
 		}
@@ -329,45 +2049,100 @@ const expenseSlice = createSlice({
 			state.selectedExpense = null;
 			state.status = 'idle';
 			state.error = null;
+			state.liveActivity = {};
+			state.page = initialPage;
+			state.totals = null;
+			state.lastBatch = null;
+		},
+		clearLastBatch: (state) => {
+			state.lastBatch = null;
 		},
 	},
 	extraReducers: (builder) => {
+		// Cached expenses (replaced once the server responds)
+		builder.addCase(expensesLoadedFromCache, (state, action) => {
+			state.status = 'succeeded';
+			state.expenses = action.payload;
+			state.filteredExpenses = applyFilters(action.payload, state.filter);
+		});
+		builder.addCase(receiptUploadProgress, (state, action) => {
+			state.receiptUploads = action.payload;
+		});
+
 		// Add expense
 		builder.addCase(addExpense.pending, (state) => {
 			state.status = 'loading';
 		});
 		builder.addCase(addExpense.fulfilled, (state, action) => {
 			state.status = 'succeeded';
+			state.receiptUploads = [];
 			state.expenses.unshift(action.payload);
 			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+			upsertIntoPage(state.page, [action.payload]);
 			state.error = null;
 		});
 		builder.addCase(addExpense.rejected, (state, action) => {
 			state.status = 'failed';
+			state.receiptUploads = [];
 			state.error = action.payload as string;
 		});
 
-		// Fetch expenses
-		builder.addCase(fetchExpenses.pending, (state) => {
+		// Recent expenses
+		builder.addCase(fetchRecentExpenses.pending, (state) => {
 			state.status = 'loading';
 		});
-		builder.addCase(fetchExpenses.fulfilled, (state, action) => {
+		builder.addCase(fetchRecentExpenses.fulfilled, (state, action) => {
 			state.status = 'succeeded';
 			state.expenses = action.payload;
 			state.filteredExpenses = applyFilters(action.payload, state.filter);
 			state.error = null;
 		});
-		builder.addCase(fetchExpenses.rejected, (state, action) => {
+		builder.addCase(fetchRecentExpenses.rejected, (state, action) => {
 			state.status = 'failed';
 			state.error = action.payload as string;
 		});
 
+		// Paged expense list
+		builder.addCase(fetchExpensePage.pending, (state, action) => {
+			const { accountId, sort, filter, reset } = action.meta.arg;
+			if (reset) {
+				state.page = { ...initialPage, accountId, sort, filter };
+			}
+			state.page.status = 'loading';
+			state.page.error = null;
+			state.page.requestId = action.meta.requestId;
+		});
+		builder.addCase(fetchExpensePage.fulfilled, (state, action) => {
+			if (state.page.requestId !== action.meta.requestId) return;
+			const loadedIds = new Set(state.page.items.map((exp) => exp.id));
+
+			state.page.items.push(
+				...action.payload.items.filter((exp) => !loadedIds.has(exp.id))
+			);
+			state.page.cursor = action.payload.cursor;
+			state.page.hasMore = action.payload.hasMore;
+			state.page.status = 'succeeded';
+			state.page.requestId = null;
+		});
+		builder.addCase(fetchExpensePage.rejected, (state, action) => {
+			if (state.page.requestId !== action.meta.requestId) return;
+			state.page.status = 'failed';
+			state.page.error = action.payload as string;
+			state.page.requestId = null;
+		});
+
+		// Summary totals
+		builder.addCase(fetchExpenseTotals.fulfilled, (state, action) => {
+			state.totals = action.payload;
+		});
+
 		// Update expense
 		builder.addCase(updateExpense.pending, (state) => {
 			state.status = 'loading';
 		});
 		builder.addCase(updateExpense.fulfilled, (state, action) => {
 			state.status = 'succeeded';
+			state.receiptUploads = [];
 			const index = state.expenses.findIndex(
 				(exp) => exp.id === action.payload.id
 			);
@@ -375,6 +2150,7 @@ const expenseSlice = createSlice({
 				state.expenses[index] = action.payload as Expense;
 			}
 			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+			upsertIntoPage(state.page, [action.payload as Expense]);
 			if (state.selectedExpense?.id === action.payload.id) {
 				state.selectedExpense = action.payload as Expense;
 			}
@@ -382,6 +2158,7 @@ const expenseSlice = createSlice({
 		});
 		builder.addCase(updateExpense.rejected, (state, action) => {
 			state.status = 'failed';
+			state.receiptUploads = [];
 			state.error = action.payload as string;
 		});
 
@@ -395,6 +2172,7 @@ const expenseSlice = createSlice({
 				(exp) => exp.id !== action.payload
 			);
 			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+			removeFromPage(state.page, action.payload);
 			if (state.selectedExpense?.id === action.payload) {
 				state.selectedExpense = null;
 			}
@@ -404,9 +2182,170 @@ const expenseSlice = createSlice({
 			state.status = 'failed';
 			state.error = action.payload as string;
 		});
+
+		// Live changes to the current account
+		builder.addCase(applyExpenseChanges.fulfilled, (state, action) => {
+			const { accountId, initial, since, upserted, removedIds, activity } =
+				action.payload;
+			const upsertedIds = new Set(upserted.map((expense) => expense.id));
+			const windowStart = new Date(since);
+
+			// Drop expenses of a previously selected account; the first snapshot
+			// covers the whole window, so synced expenses in the window missing
+			// from it were deleted
+			const expenses = state.expenses.filter(
+				(exp) =>
+					exp.accountId === accountId &&
+					!removedIds.includes(exp.id) &&
+					!upsertedIds.has(exp.id) &&
+					!(initial && exp.syncStatus === 'synced' && exp.date >= windowStart)
+			);
+
+			state.expenses = sortByDate([
+				...expenses,
+				...upserted.filter((expense) => expense.date >= windowStart),
+			]);
+			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+			upsertIntoPage(state.page, upserted);
+			removedIds.forEach((id) => removeFromPage(state.page, id));
+			if (state.selectedExpense) {
+				state.selectedExpense =
+					state.expenses.find((exp) => exp.id === state.selectedExpense?.id) ||
+					null;
+			}
+
+			if (initial) {
+				state.liveActivity = {};
+			}
+			activity.forEach((entry) => {
+				state.liveActivity[entry.expenseId] = entry;
+			});
+			removedIds.forEach((id) => {
+				delete state.liveActivity[id];
+			});
+		});
+
+		// Approval decisions made from the queue
+		builder.addCase(reviewExpense.fulfilled, (state, action) => {
+			const expense = action.payload.expense;
+			const index = state.expenses.findIndex((exp) => exp.id === expense?.id);
+			if (!expense || index === -1) return;
+
+			state.expenses[index] = expense;
+			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+			upsertIntoPage(state.page, [expense]);
+		});
+
+		// Bulk changes and their undo
+		builder.addCase(bulkUpdateExpenses.fulfilled, (state, action) => {
+			state.lastBatch = action.payload.batch;
+			applyBatchResult(state, action.payload);
+		});
+		builder.addCase(bulkMoveExpenses.fulfilled, (state, action) => {
+			state.lastBatch = action.payload.batch;
+			applyBatchResult(state, action.payload);
+		});
+		builder.addCase(bulkDeleteExpenses.fulfilled, (state, action) => {
+			state.lastBatch = action.payload.batch;
+			applyBatchResult(state, action.payload);
+		});
+		builder.addCase(replaceExpenseTag.fulfilled, (state, action) => {
+			state.lastBatch = action.payload.batch;
+			applyBatchResult(state, action.payload);
+		});
+		builder.addCase(undoExpenseBatch.fulfilled, (state, action) => {
+			state.lastBatch = null;
+			applyBatchResult(state, action.payload);
+		});
+
+		// Expenses materialized from recurring templates
+		builder.addCase(generateRecurringExpenses.fulfilled, (state, action) => {
+			const generated = action.payload.generated.filter(
+				(expense) => !state.expenses.some((exp) => exp.id === expense.id)
+			);
+			if (generated.length === 0) return;
+
+			state.expenses = [...generated, ...state.expenses].sort(
+				(a, b) => b.date.getTime() - a.date.getTime()
+			);
+			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+		});
+
+		// Offline changes replayed against the server
+		builder.addCase(syncOutbox.fulfilled, (state, action) => {
+			action.payload.results
+				.filter((result) => result.collection === 'expenses')
+				.forEach((result) => {
+					const index = state.expenses.findIndex(
+						(exp) => exp.id === result.docId
+					);
+
+					if (result.status === 'failed') {
+						if (index !== -1) {
+							state.expenses[index].syncStatus = 'failed';
+						}
+					} else if (!result.document) {
+						state.expenses = state.expenses.filter(
+							(exp) => exp.id !== result.docId
+						);
+					} else {
+						const [converted] = convertDocuments(
+							[{ ...result.document, id: result.docId }],
+							toExpense
+						);
+						if (!converted) return;
+
+						const expense = { ...converted, syncStatus: result.status };
+						if (index !== -1) {
+							state.expenses[index] = expense;
+						} else if (state.expenses[0]?.accountId === expense.accountId) {
+							// An offline delete that was rejected brings the expense back
+							state.expenses.push(expense);
+						}
+					}
+				});
+
+			sortByDate(state.expenses);
+			state.filteredExpenses = applyFilters(state.expenses, state.filter);
+			if (state.selectedExpense) {
+				state.selectedExpense =
+					state.expenses.find((exp) => exp.id === state.selectedExpense?.id) ||
+					null;
+			}
+		});
 	},
 });
 
+// Bring the loaded expenses and pages in step with a bulk change; expenses
+// moved to another account leave the list
+const applyBatchResult = (
+	state: ExpenseState,
+	{
+		accountId,
+		upserted,
+		removedIds,
+	}: { accountId: string; upserted: Expense[]; removedIds: string[] }
+) => {
+	const changedIds = new Set([
+		...removedIds,
+		...upserted.map((expense) => expense.id),
+	]);
+	const kept = upserted.filter((expense) => expense.accountId === accountId);
+
+	state.expenses = sortByDate([
+		...state.expenses.filter((exp) => !changedIds.has(exp.id)),
+		...kept,
+	]);
+	state.filteredExpenses = applyFilters(state.expenses, state.filter);
+	changedIds.forEach((id) => removeFromPage(state.page, id));
+	upsertIntoPage(state.page, kept);
+	if (state.selectedExpense) {
+		state.selectedExpense =
+			state.expenses.find((exp) => exp.id === state.selectedExpense?.id) ||
+			null;
+	}
+};
+
 // Helper function to apply filters
 const applyFilters = (expenses: Expense[], filter: ExpenseState['filter']) => {
 	let filtered = [...expenses];
@@ -432,12 +2371,8 @@ const applyFilters = (expenses: Expense[], filter: ExpenseState['filter']) => {
 
 	// Apply search filter
 	if (filter.search) {
-		const searchLower = filter.search.toLowerCase();
-		filtered = filtered.filter(
-			(exp) =>
-				exp.description.toLowerCase().includes(searchLower) ||
-				exp.category.toLowerCase().includes(searchLower)
-		);
+		const query = parseExpenseQuery(filter.search);
+		filtered = filtered.filter((exp) => matchesExpenseQuery(query, exp));
 	}
 
 	// Apply tags filter
@@ -458,6 +2393,7 @@ export const {
 	setTagsFilter,
 	clearFilters,
 	clearExpenses,
+	clearLastBatch,
 } = expenseSlice.actions;
 
 // Selectors
@@ -473,6 +2409,16 @@ export const selectExpenseError = (state: { expenses: ExpenseState }) =>
 	state.expenses.error;
 export const selectExpenseFilters = (state: { expenses: ExpenseState }) =>
 	state.expenses.filter;
+export const selectLiveActivity = (state: { expenses: ExpenseState }) =>
+	state.expenses.liveActivity;
+export const selectExpensePage = (state: { expenses: ExpenseState }) =>
+	state.expenses.page;
+export const selectExpenseTotals = (state: { expenses: ExpenseState }) =>
+	state.expenses.totals;
+export const selectLastExpenseBatch = (state: { expenses: ExpenseState }) =>
+	state.expenses.lastBatch;
+export const selectReceiptUploads = (state: { expenses: ExpenseState }) =>
+	state.expenses.receiptUploads;
 
 // Selector for expenses by month
 export const selectExpensesByMonth = (state: { expenses: ExpenseState }) => {
@@ -510,17 +2456,8 @@ export const selectRecentExpenses = (
 export const selectTotalExpensesByCategory = (state: {
 	expenses: ExpenseState;
 }) => {
-	const expenses = state.expenses.expenses;
-	const totalsByCategory: { [key: string]: number } = {};
-
-	expenses.forEach((expense) => {
-		if (!totalsByCategory[expense.category]) {
-			totalsByCategory[expense.category] = 0;
-		}
-		totalsByCategory[expense.category] += expense.amountInBaseCurrency;
-	});
-
-	return totalsByCategory;
+	// Line items count in their own categories
+	return LineItemUtils.getCategoryTotals(state.expenses.expenses);
 };
 
 // Selector for unique expense categories
@@ -0,0 +1,321 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
+import { isOnline } from '../../services/offlineCache';
+import { Account, Merchant } from '../../models/types';
+import { merchantSchema } from '../../models/schemas';
+import { convertDocuments } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
+import { MerchantUtils } from '../../utils/merchantUtils';
+import { TagUtils } from '../../utils/tagUtils';
+
+// Types
+interface MerchantState {
+	accountId: string | null;
+	// Every merchant of the account, by name
+	merchants: Merchant[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+}
+
+// Fields a member sets when adding or editing a merchant; null clears one
+export type MerchantChanges = {
+	name?: string;
+	aliases?: string[];
+} & {
+	[K in 'defaultCategory' | 'logoUrl' | 'color']?: Merchant[K] | null;
+};
+
+const initialState: MerchantState = {
+	accountId: null,
+	merchants: [],
+	status: 'idle',
+	error: null,
+};
+
+const MERCHANTS_COLLECTION = 'merchants';
+
+const OFFLINE_MESSAGE = 'Merchants can only be changed online';
+
+const MAX_NAME_LENGTH = 60;
+
+const byName = (a: Merchant, b: Merchant) => a.name.localeCompare(b.name);
+
+// Problem with a merchant's fields, if any; a name or alias belongs to one
+// merchant only
+const getMerchantError = (
+	changes: MerchantChanges,
+	merchant: Pick<Merchant, 'name' | 'aliases'>,
+	merchants: Merchant[],
+	exceptId?: string
+): string | null => {
+	const name = (changes.name ?? merchant.name).trim();
+	if (!name) return 'Give the merchant a name';
+	if (name.length > MAX_NAME_LENGTH) {
+		return `Merchant names can be up to ${MAX_NAME_LENGTH} characters`;
+	}
+	if (!MerchantUtils.normalize(name)) {
+		return 'Merchant names need at least one letter';
+	}
+	const conflict = MerchantUtils.findConflict(
+		[name, ...(changes.aliases ?? merchant.aliases)],
+		merchants,
+		exceptId
+	);
+	if (conflict) {
+		return `"${conflict.name}" already belongs to ${conflict.merchant.name}`;
+	}
+	if (changes.logoUrl && !/^https?:\/\//.test(changes.logoUrl)) {
+		return 'Enter the logo as a web address';
+	}
+	return null;
+};
+
+// Members who can add expenses can keep the directory
+const canEditMerchants = (state: unknown, accountId: string) => {
+	const account = (state as { accounts: { currentAccount: Account | null } })
+		.accounts.currentAccount;
+	const role = account?.members.find(
+		(member) => member.uid === currentMemberRef()?.uid
+	)?.role;
+	return account?.id === accountId && !!role && role !== 'viewer';
+};
+
+// Async thunks
+export const fetchMerchants = createAsyncThunk(
+	'merchants/fetchMerchants',
+	async (accountId: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const docs = await db.query(MERCHANTS_COLLECTION, {
+				where: [{ field: 'accountId', op: '==', value: accountId }],
+			});
+
+			return {
+				accountId,
+				merchants: convertDocuments(docs, (doc) =>
+					merchantSchema.parse(doc)
+				).sort(byName),
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	},
+	{
+		// The expense form, directory and insights all ask for the merchants
+		condition: (accountId, { getState }) => {
+			const { merchants } = getState() as { merchants: MerchantState };
+			return !(
+				merchants.accountId === accountId && merchants.status === 'loading'
+			);
+		},
+	}
+);
+
+export const addMerchant = createAsyncThunk(
+	'merchants/addMerchant',
+	async (
+		{
+			accountId,
+			name,
+			aliases = [],
+			defaultCategory,
+			logoUrl,
+			color,
+		}: {
+			accountId: string;
+			name: string;
+			aliases?: string[];
+			defaultCategory?: string;
+			logoUrl?: string;
+			color?: string;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { merchants } = getState() as { merchants: MerchantState };
+			const author = currentMemberRef();
+			if (!author || !canEditMerchants(getState(), accountId)) {
+				return rejectWithValue('Viewers cannot add merchants');
+			}
+
+			const cleanAliases = TagUtils.normalize(aliases);
+			const merchantError = getMerchantError(
+				{ name, aliases: cleanAliases, logoUrl },
+				{ name, aliases: cleanAliases },
+				merchants.merchants
+			);
+			if (merchantError) {
+				return rejectWithValue(merchantError);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const now = new Date();
+			const merchantData = withSchemaVersion('merchants', {
+				accountId,
+				name: name.trim(),
+				aliases: cleanAliases,
+				...(defaultCategory ? { defaultCategory } : {}),
+				...(logoUrl ? { logoUrl } : {}),
+				...(color ? { color } : {}),
+				createdAt: now,
+				createdBy: author,
+				updatedAt: now,
+			});
+			const id = await db.add(MERCHANTS_COLLECTION, merchantData);
+
+			return merchantSchema.parse({ id, ...merchantData });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const updateMerchant = createAsyncThunk(
+	'merchants/updateMerchant',
+	async (
+		{ id, changes }: { id: string; changes: MerchantChanges },
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { merchants } = getState() as { merchants: MerchantState };
+			const merchant = merchants.merchants.find((item) => item.id === id);
+			if (!merchant) {
+				return rejectWithValue('Merchant not found');
+			}
+			if (!canEditMerchants(getState(), merchant.accountId)) {
+				return rejectWithValue('Viewers cannot change merchants');
+			}
+
+			const updates = {
+				...changes,
+				...(changes.name ? { name: changes.name.trim() } : {}),
+				...(changes.aliases
+					? { aliases: TagUtils.normalize(changes.aliases) }
+					: {}),
+				updatedAt: new Date(),
+			};
+			const merchantError = getMerchantError(
+				updates,
+				merchant,
+				merchants.merchants,
+				id
+			);
+			if (merchantError) {
+				return rejectWithValue(merchantError);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.update(MERCHANTS_COLLECTION, id, updates);
+			return merchantSchema.parse({ ...merchant, ...updates });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Expenses don't refer to merchants, so removing one only stops grouping
+// their descriptions under it
+export const deleteMerchant = createAsyncThunk(
+	'merchants/deleteMerchant',
+	async (id: string, { getState, rejectWithValue }) => {
+		try {
+			const { merchants } = getState() as { merchants: MerchantState };
+			const merchant = merchants.merchants.find((item) => item.id === id);
+			if (!merchant) {
+				return rejectWithValue('Merchant not found');
+			}
+			if (!canEditMerchants(getState(), merchant.accountId)) {
+				return rejectWithValue('Viewers cannot remove merchants');
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.remove(MERCHANTS_COLLECTION, id);
+			return id;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+const merchantsSlice = createSlice({
+	name: 'merchants',
+	initialState,
+	reducers: {
+		clearMerchants: (state) => {
+			state.accountId = null;
+			state.merchants = [];
+			state.status = 'idle';
+			state.error = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch merchants
+		builder.addCase(fetchMerchants.pending, (state, action) => {
+			state.status = 'loading';
+			// Merchants of the previous account don't apply to this one
+			if (state.accountId !== action.meta.arg) {
+				state.accountId = action.meta.arg;
+				state.merchants = [];
+			}
+		});
+		builder.addCase(fetchMerchants.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.status = 'succeeded';
+			state.merchants = action.payload.merchants;
+			state.error = null;
+		});
+		builder.addCase(fetchMerchants.rejected, (state, action) => {
+			if (action.meta.arg !== state.accountId) return;
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Add merchant
+		builder.addCase(addMerchant.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.merchants.push(action.payload);
+			state.merchants.sort(byName);
+		});
+
+		// Update merchant
+		builder.addCase(updateMerchant.fulfilled, (state, action) => {
+			const index = state.merchants.findIndex(
+				(merchant) => merchant.id === action.payload.id
+			);
+			if (index === -1) return;
+			state.merchants[index] = action.payload;
+			state.merchants.sort(byName);
+		});
+
+		// Delete merchant
+		builder.addCase(deleteMerchant.fulfilled, (state, action) => {
+			state.merchants = state.merchants.filter(
+				(merchant) => merchant.id !== action.payload
+			);
+		});
+	},
+});
+
+// Export actions
+export const { clearMerchants } = merchantsSlice.actions;
+
+// Export selectors
+export const selectMerchants = (state: { merchants: MerchantState }) =>
+	state.merchants.merchants;
+export const selectMerchantsAccountId = (state: { merchants: MerchantState }) =>
+	state.merchants.accountId;
+export const selectMerchantsStatus = (state: { merchants: MerchantState }) =>
+	state.merchants.status;
+export const selectMerchantsError = (state: { merchants: MerchantState }) =>
+	state.merchants.error;
+
+export default merchantsSlice.reducer;
@@ -0,0 +1,298 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
+import { isOnline } from '../../services/offlineCache';
+import { Account, PaymentMethod, PaymentMethodType } from '../../models/types';
+import { paymentMethodSchema } from '../../models/schemas';
+import { convertDocuments } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
+import { PaymentMethodUtils } from '../../utils/paymentMethodUtils';
+
+// Types
+interface PaymentMethodState {
+	accountId: string | null;
+	// Every method of the account, archived ones included, by name
+	methods: PaymentMethod[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+}
+
+// Fields a member sets when adding or editing a method; null clears one
+export type PaymentMethodChanges = {
+	[K in 'name' | 'type' | 'icon' | 'lastFour' | 'ownerUid' | 'archived']?:
+		| PaymentMethod[K]
+		| null;
+};
+
+const initialState: PaymentMethodState = {
+	accountId: null,
+	methods: [],
+	status: 'idle',
+	error: null,
+};
+
+const PAYMENT_METHODS_COLLECTION = 'paymentMethods';
+
+const OFFLINE_MESSAGE = 'Payment methods can only be changed online';
+
+const MAX_NAME_LENGTH = 40;
+
+const byName = (a: PaymentMethod, b: PaymentMethod) =>
+	a.name.localeCompare(b.name);
+
+// Problem with a method's fields, if any; active names are unique per account
+const getMethodError = (
+	changes: PaymentMethodChanges,
+	methods: PaymentMethod[],
+	exceptId?: string
+): string | null => {
+	if (changes.name !== undefined) {
+		const name = changes.name?.trim() || '';
+		if (!name) return 'Give the payment method a name';
+		if (name.length > MAX_NAME_LENGTH) {
+			return `Payment method names can be up to ${MAX_NAME_LENGTH} characters`;
+		}
+		const taken = methods.some(
+			(method) =>
+				method.id !== exceptId &&
+				!method.archived &&
+				method.name.toLowerCase() === name.toLowerCase()
+		);
+		if (taken) return `There is already a payment method called "${name}"`;
+	}
+	if (changes.lastFour && !/^\d{4}$/.test(changes.lastFour)) {
+		return 'Enter the last four digits only';
+	}
+	return null;
+};
+
+const getAccount = (state: unknown) =>
+	(state as { accounts: { currentAccount: Account | null } }).accounts
+		.currentAccount;
+
+// Async thunks
+export const fetchPaymentMethods = createAsyncThunk(
+	'paymentMethods/fetchPaymentMethods',
+	async (accountId: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const docs = await db.query(PAYMENT_METHODS_COLLECTION, {
+				where: [{ field: 'accountId', op: '==', value: accountId }],
+			});
+
+			return {
+				accountId,
+				methods: convertDocuments(docs, (doc) =>
+					paymentMethodSchema.parse(doc)
+				).sort(byName),
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	},
+	{
+		// The expense form, filters and charts all ask for the methods
+		condition: (accountId, { getState }) => {
+			const { paymentMethods } = getState() as {
+				paymentMethods: PaymentMethodState;
+			};
+			return !(
+				paymentMethods.accountId === accountId &&
+				paymentMethods.status === 'loading'
+			);
+		},
+	}
+);
+
+export const addPaymentMethod = createAsyncThunk(
+	'paymentMethods/addPaymentMethod',
+	async (
+		{
+			accountId,
+			name,
+			type,
+			icon,
+			lastFour,
+			ownerUid,
+		}: {
+			accountId: string;
+			name: string;
+			type: PaymentMethodType;
+			icon?: string;
+			lastFour?: string;
+			ownerUid?: string;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { paymentMethods } = getState() as {
+				paymentMethods: PaymentMethodState;
+			};
+			const account = getAccount(getState());
+			const author = currentMemberRef();
+			const role = account?.members.find(
+				(member) => member.uid === author?.uid
+			)?.role;
+			if (!author || account?.id !== accountId || !role) {
+				return rejectWithValue('Only members can add payment methods');
+			}
+			if (role === 'viewer') {
+				return rejectWithValue('Viewers cannot add payment methods');
+			}
+
+			const methodError = getMethodError(
+				{ name, lastFour },
+				paymentMethods.methods
+			);
+			if (methodError) {
+				return rejectWithValue(methodError);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const now = new Date();
+			const methodData = withSchemaVersion('paymentMethods', {
+				accountId,
+				name: name.trim(),
+				type,
+				...(icon ? { icon } : {}),
+				...(lastFour ? { lastFour } : {}),
+				...(ownerUid ? { ownerUid } : {}),
+				createdAt: now,
+				createdBy: author,
+				updatedAt: now,
+			});
+			const id = await db.add(PAYMENT_METHODS_COLLECTION, methodData);
+
+			return paymentMethodSchema.parse({ id, ...methodData });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Also archives and restores methods, so expenses keep theirs
+export const updatePaymentMethod = createAsyncThunk(
+	'paymentMethods/updatePaymentMethod',
+	async (
+		{ id, changes }: { id: string; changes: PaymentMethodChanges },
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { paymentMethods } = getState() as {
+				paymentMethods: PaymentMethodState;
+			};
+			const method = paymentMethods.methods.find((item) => item.id === id);
+			const account = getAccount(getState());
+			if (!method || !account) {
+				return rejectWithValue('Payment method not found');
+			}
+			if (
+				!PaymentMethodUtils.canEdit(method, account, currentMemberRef()?.uid)
+			) {
+				return rejectWithValue(
+					'Only the member who added a payment method, its owner or an admin can change it'
+				);
+			}
+
+			const updates = {
+				...changes,
+				...(changes.name ? { name: changes.name.trim() } : {}),
+				updatedAt: new Date(),
+			};
+			// A restored method must not clash with one added since
+			const methodError = getMethodError(
+				changes.archived === false
+					? { ...updates, name: updates.name ?? method.name }
+					: updates,
+				paymentMethods.methods,
+				id
+			);
+			if (methodError) {
+				return rejectWithValue(methodError);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.update(PAYMENT_METHODS_COLLECTION, id, updates);
+			return paymentMethodSchema.parse({ ...method, ...updates });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+const paymentMethodsSlice = createSlice({
+	name: 'paymentMethods',
+	initialState,
+	reducers: {
+		clearPaymentMethods: (state) => {
+			state.accountId = null;
+			state.methods = [];
+			state.status = 'idle';
+			state.error = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch payment methods
+		builder.addCase(fetchPaymentMethods.pending, (state, action) => {
+			state.status = 'loading';
+			// Methods of the previous account don't apply to this one
+			if (state.accountId !== action.meta.arg) {
+				state.accountId = action.meta.arg;
+				state.methods = [];
+			}
+		});
+		builder.addCase(fetchPaymentMethods.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.status = 'succeeded';
+			state.methods = action.payload.methods;
+			state.error = null;
+		});
+		builder.addCase(fetchPaymentMethods.rejected, (state, action) => {
+			if (action.meta.arg !== state.accountId) return;
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Add payment method
+		builder.addCase(addPaymentMethod.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.methods.push(action.payload);
+			state.methods.sort(byName);
+		});
+
+		// Update payment method
+		builder.addCase(updatePaymentMethod.fulfilled, (state, action) => {
+			const index = state.methods.findIndex(
+				(method) => method.id === action.payload.id
+			);
+			if (index === -1) return;
+			state.methods[index] = action.payload;
+			state.methods.sort(byName);
+		});
+	},
+});
+
+// Export actions
+export const { clearPaymentMethods } = paymentMethodsSlice.actions;
+
+// Export selectors
+export const selectPaymentMethods = (state: {
+	paymentMethods: PaymentMethodState;
+}) => state.paymentMethods.methods;
+export const selectPaymentMethodsAccountId = (state: {
+	paymentMethods: PaymentMethodState;
+}) => state.paymentMethods.accountId;
+export const selectPaymentMethodsStatus = (state: {
+	paymentMethods: PaymentMethodState;
+}) => state.paymentMethods.status;
+export const selectPaymentMethodsError = (state: {
+	paymentMethods: PaymentMethodState;
+}) => state.paymentMethods.error;
+
+export default paymentMethodsSlice.reducer;
@@ -0,0 +1,454 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { format } from 'date-fns';
+import { db } from '../../services/firebase';
+import { getExchangeRates } from '../../services/api';
+import { isOnline } from '../../services/offlineCache';
+import { recordExpenseChange } from '../../services/auditTrail';
+import { upgradeOnRead } from '../../services/migrations';
+import { withSchemaVersion } from '../../models/migrations';
+import { Account, Expense, RecurringExpense } from '../../models/types';
+import { RecurrenceUtils } from '../../utils/recurrenceUtils';
+import { ApprovalUtils } from '../../utils/approvalUtils';
+
+interface RecurringState {
+	templates: RecurringExpense[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+	lastRun: string | null;
+}
+
+const initialState: RecurringState = {
+	templates: [],
+	status: 'idle',
+	error: null,
+	lastRun: null,
+};
+
+type RecurringExpenseInput = Pick<
+	RecurringExpense,
+	| 'amount'
+	| 'currency'
+	| 'category'
+	| 'subcategory'
+	| 'description'
+	| 'frequency'
+	| 'interval'
+	| 'startDate'
+	| 'endDate'
+>;
+
+const toDate = (value: any): Date | undefined => {
+	if (!value) return undefined;
+	return value instanceof Date ? value : new Date(value);
+};
+
+// Helper function to normalize stored dates, null meaning "not set"
+const convertTimestamps = (template: any): RecurringExpense => {
+	return {
+		...template,
+		startDate: toDate(template.startDate),
+		endDate: toDate(template.endDate),
+		lastGenerated: toDate(template.lastGenerated),
+		nextDue: toDate(template.nextDue),
+	};
+};
+
+// Deterministic id so that two clients catching up on the same template
+// write the same document instead of creating duplicates
+const getOccurrenceId = (templateId: string, date: Date) =>
+	`${templateId}_${format(date, 'yyyyMMdd')}`;
+
+const fetchTemplates = async (accountId: string) => {
+	const templates = await upgradeOnRead(
+		'recurringExpenses',
+		await db.query('recurringExpenses', {
+			where: [{ field: 'accountId', op: '==', value: accountId }],
+		})
+	);
+
+	return templates.map(convertTimestamps);
+};
+
+// Exchange rate that converts an amount in `currency` to the base currency,
+// or null when it can't be fetched
+const getRateToBase = async (
+	currency: string,
+	baseCurrency: string
+): Promise<number | null> => {
+	if (currency === baseCurrency) return 1;
+
+	try {
+		const rates = await getExchangeRates(baseCurrency);
+		return rates[currency] ? 1 / rates[currency] : null;
+	} catch (error) {
+		console.error('Failed to load exchange rates:', error);
+		return null;
+	}
+};
+
+// Async thunks
+export const fetchRecurringExpenses = createAsyncThunk(
+	'recurring/fetchRecurringExpenses',
+	async (accountId: string, { rejectWithValue }) => {
+		try {
+			return await fetchTemplates(accountId);
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const createRecurringExpense = createAsyncThunk(
+	'recurring/createRecurringExpense',
+	async (
+		{
+			accountId,
+			userId,
+			template,
+			lastGenerated,
+		}: {
+			accountId: string;
+			userId: string;
+			template: RecurringExpenseInput;
+			lastGenerated?: Date;
+		},
+		{ rejectWithValue }
+	) => {
+		try {
+			const schedule = {
+				...template,
+				interval: Math.max(1, template.interval),
+			};
+			const nextDue = RecurrenceUtils.getNextOccurrence(
+				schedule,
+				lastGenerated
+			);
+
+			const templateData = withSchemaVersion('recurringExpenses', {
+				...schedule,
+				accountId,
+				createdBy: userId,
+				active: true,
+				endDate: schedule.endDate ?? null,
+				subcategory: schedule.subcategory ?? null,
+				lastGenerated: lastGenerated ?? null,
+				nextDue,
+			});
+
+			const id = await db.add('recurringExpenses', templateData);
+
+			return convertTimestamps({ id, ...templateData });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const updateRecurringExpense = createAsyncThunk(
+	'recurring/updateRecurringExpense',
+	async (
+		{
+			id,
+			updates,
+		}: {
+			id: string;
+			updates: Partial<RecurringExpenseInput>;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const state = getState() as { recurring: RecurringState };
+			const current = state.recurring.templates.find((t) => t.id === id);
+
+			if (!current) {
+				return rejectWithValue('Recurring expense not found');
+			}
+
+			const merged = { ...current, ...updates };
+			merged.interval = Math.max(1, merged.interval);
+
+			// Schedule changes move the next due date
+			const nextDue = RecurrenceUtils.getNextOccurrence(
+				merged,
+				merged.lastGenerated
+			);
+
+			await db.update('recurringExpenses', id, {
+				...updates,
+				interval: merged.interval,
+				endDate: merged.endDate ?? null,
+				nextDue,
+			});
+
+			return { ...merged, nextDue: nextDue ?? undefined };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const setRecurringExpenseActive = createAsyncThunk(
+	'recurring/setRecurringExpenseActive',
+	async (
+		{ id, active }: { id: string; active: boolean },
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const state = getState() as { recurring: RecurringState };
+			const current = state.recurring.templates.find((t) => t.id === id);
+
+			if (!current) {
+				return rejectWithValue('Recurring expense not found');
+			}
+
+			// Occurrences that fell due while paused are skipped on resume
+			// rather than back-filled on the next run, however long the pause
+			let lastGenerated = current.lastGenerated;
+			if (active) {
+				const skipped = RecurrenceUtils.getLastOccurrence(current, new Date());
+				if (skipped && (!lastGenerated || skipped > lastGenerated)) {
+					lastGenerated = skipped;
+				}
+			}
+
+			const nextDue = RecurrenceUtils.getNextOccurrence(current, lastGenerated);
+
+			await db.update('recurringExpenses', id, {
+				active,
+				lastGenerated: lastGenerated ?? null,
+				nextDue,
+			});
+
+			return {
+				...current,
+				active,
+				lastGenerated,
+				nextDue: nextDue ?? undefined,
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const deleteRecurringExpense = createAsyncThunk(
+	'recurring/deleteRecurringExpense',
+	async (id: string, { rejectWithValue }) => {
+		try {
+			// Expenses that were already generated are kept
+			await db.remove('recurringExpenses', id);
+
+			return id;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+/**
+ * Materialize every due occurrence of the account's active templates
+ * Runs when an account is loaded, so it catches up on everything that fell
+ * due while the app was closed
+ */
+export const generateRecurringExpenses = createAsyncThunk(
+	'recurring/generateRecurringExpenses',
+	async (accountId: string, { getState, rejectWithValue }) => {
+		try {
+			const state = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const account = state.accounts.currentAccount;
+			const templates = await fetchTemplates(accountId);
+			const now = new Date();
+			const generated: Expense[] = [];
+
+			for (let i = 0; i < templates.length; i++) {
+				const template = templates[i];
+				const due = RecurrenceUtils.getDueOccurrences(template, now);
+				if (due.length === 0) continue;
+
+				const baseCurrency = account?.baseCurrency || template.currency;
+				const exchangeRate = await getRateToBase(
+					template.currency,
+					baseCurrency
+				);
+				// Left due, with lastGenerated as it is, until the rate is known
+				if (exchangeRate === null) continue;
+
+				const creator = account?.members.find(
+					(member) => member.uid === template.createdBy
+				);
+
+				// Occurrences go through approval as if the template's creator
+				// had added them
+				const status = account
+					? ApprovalUtils.getInitialStatus(
+							account,
+							{
+								amountInBaseCurrency: template.amount * exchangeRate,
+								category: template.category,
+							},
+							template.createdBy
+					  )
+					: undefined;
+
+				for (const date of due) {
+					const expenseId = getOccurrenceId(template.id, date);
+					const expenseData = withSchemaVersion('expenses', {
+						accountId,
+						amount: template.amount,
+						category: template.category,
+						description: template.description,
+						date,
+						createdAt: now,
+						createdBy: {
+							uid: template.createdBy,
+							displayName: creator?.displayName || 'Recurring expense',
+						},
+						currency: template.currency,
+						exchangeRate,
+						amountInBaseCurrency: template.amount * exchangeRate,
+						tags: [],
+						receiptUrls: [],
+						...(template.subcategory
+							? { subcategory: template.subcategory }
+							: {}),
+						isRecurring: true,
+						recurringId: template.id,
+						...(status ? { status } : {}),
+					});
+
+					await db.set('expenses', expenseId, expenseData);
+					await recordExpenseChange({
+						expenseId,
+						accountId,
+						action: 'create',
+						before: null,
+						after: expenseData,
+					});
+					generated.push({ id: expenseId, ...expenseData });
+				}
+
+				const lastGenerated = due[due.length - 1];
+				const nextDue = RecurrenceUtils.getNextOccurrence(
+					template,
+					lastGenerated
+				);
+
+				await db.update('recurringExpenses', template.id, {
+					lastGenerated,
+					nextDue,
+				});
+
+				templates[i] = {
+					...template,
+					lastGenerated,
+					nextDue: nextDue ?? undefined,
+				};
+			}
+
+			return { templates, generated };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	},
+	{
+		// Catch-up waits for a connection; the deterministic ids make it safe
+		// to run again later
+		condition: () => isOnline(),
+	}
+);
+
+const recurringSlice = createSlice({
+	name: 'recurring',
+	initialState,
+	reducers: {
+		clearRecurringExpenses: (state) => {
+			state.templates = [];
+			state.status = 'idle';
+			state.error = null;
+			state.lastRun = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch templates
+		builder.addCase(fetchRecurringExpenses.pending, (state) => {
+			state.status = 'loading';
+		});
+		builder.addCase(fetchRecurringExpenses.fulfilled, (state, action) => {
+			state.status = 'succeeded';
+			state.templates = action.payload;
+			state.error = null;
+		});
+		builder.addCase(fetchRecurringExpenses.rejected, (state, action) => {
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Create template
+		builder.addCase(createRecurringExpense.fulfilled, (state, action) => {
+			state.templates.unshift(action.payload);
+			state.error = null;
+		});
+		builder.addCase(createRecurringExpense.rejected, (state, action) => {
+			state.error = action.payload as string;
+		});
+
+		// Update template (edit, pause, resume)
+		builder.addCase(updateRecurringExpense.fulfilled, (state, action) => {
+			const index = state.templates.findIndex(
+				(t) => t.id === action.payload.id
+			);
+			if (index !== -1) {
+				state.templates[index] = action.payload;
+			}
+			state.error = null;
+		});
+		builder.addCase(updateRecurringExpense.rejected, (state, action) => {
+			state.error = action.payload as string;
+		});
+		builder.addCase(setRecurringExpenseActive.fulfilled, (state, action) => {
+			const index = state.templates.findIndex(
+				(t) => t.id === action.payload.id
+			);
+			if (index !== -1) {
+				state.templates[index] = action.payload;
+			}
+			state.error = null;
+		});
+		builder.addCase(setRecurringExpenseActive.rejected, (state, action) => {
+			state.error = action.payload as string;
+		});
+
+		// Delete template
+		builder.addCase(deleteRecurringExpense.fulfilled, (state, action) => {
+			state.templates = state.templates.filter((t) => t.id !== action.payload);
+			state.error = null;
+		});
+		builder.addCase(deleteRecurringExpense.rejected, (state, action) => {
+			state.error = action.payload as string;
+		});
+
+		// Generate due expenses
+		builder.addCase(generateRecurringExpenses.fulfilled, (state, action) => {
+			state.templates = action.payload.templates;
+			state.lastRun = new Date().toISOString();
+			state.error = null;
+		});
+		builder.addCase(generateRecurringExpenses.rejected, (state, action) => {
+			state.error = action.payload as string;
+		});
+	},
+});
+
+export const { clearRecurringExpenses } = recurringSlice.actions;
+
+// Selectors
+export const selectRecurringExpenses = (state: { recurring: RecurringState }) =>
+	state.recurring.templates;
+export const selectRecurringStatus = (state: { recurring: RecurringState }) =>
+	state.recurring.status;
+export const selectRecurringError = (state: { recurring: RecurringState }) =>
+	state.recurring.error;
+
+export default recurringSlice.reducer;
@@ -0,0 +1,325 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
+import { isOnline } from '../../services/offlineCache';
+import { arrayRemove, arrayUnion } from '../../services/storage';
+import { ExpenseViewFilters, SavedView } from '../../models/types';
+import { savedViewSchema } from '../../models/schemas';
+import { convertDocuments } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
+import { SavedViewUtils } from '../../utils/savedViewUtils';
+
+// Types
+interface SavedViewState {
+	accountId: string | null;
+	// Views the current member can see, by name
+	views: SavedView[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+}
+
+const initialState: SavedViewState = {
+	accountId: null,
+	views: [],
+	status: 'idle',
+	error: null,
+};
+
+const SAVED_VIEWS_COLLECTION = 'savedViews';
+
+const OFFLINE_MESSAGE = 'Saved views are not available offline';
+
+const MAX_NAME_LENGTH = 60;
+
+const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name);
+
+// Problem with a view's name, if any; names are unique per member
+const getNameError = (
+	name: string,
+	views: SavedView[],
+	uid: string,
+	exceptId?: string
+): string | null => {
+	if (!name) return 'Give the view a name';
+	if (name.length > MAX_NAME_LENGTH) {
+		return `View names can be up to ${MAX_NAME_LENGTH} characters`;
+	}
+	const taken = views.some(
+		(view) =>
+			view.id !== exceptId &&
+			view.createdBy.uid === uid &&
+			view.name.toLowerCase() === name.toLowerCase()
+	);
+	return taken ? `You already have a view called "${name}"` : null;
+};
+
+// Async thunks
+export const fetchSavedViews = createAsyncThunk(
+	'savedViews/fetchSavedViews',
+	async (accountId: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const uid = currentMemberRef()?.uid;
+			const docs = await db.query(SAVED_VIEWS_COLLECTION, {
+				where: [{ field: 'accountId', op: '==', value: accountId }],
+			});
+
+			return {
+				accountId,
+				views: convertDocuments(docs, (doc) => savedViewSchema.parse(doc))
+					.filter((view) => SavedViewUtils.isVisibleTo(view, uid))
+					.sort(byName),
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	},
+	{
+		// The sidebar and the expense list both ask for the views
+		condition: (accountId, { getState }) => {
+			const { savedViews } = getState() as { savedViews: SavedViewState };
+			return !(
+				savedViews.accountId === accountId && savedViews.status === 'loading'
+			);
+		},
+	}
+);
+
+export const saveView = createAsyncThunk(
+	'savedViews/saveView',
+	async (
+		{
+			accountId,
+			name,
+			filters,
+			shared,
+		}: {
+			accountId: string;
+			name: string;
+			filters: ExpenseViewFilters;
+			shared: boolean;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { savedViews } = getState() as { savedViews: SavedViewState };
+			const author = currentMemberRef();
+			if (!author) {
+				return rejectWithValue('Sign in to save views');
+			}
+
+			const viewName = name.trim();
+			const nameError = getNameError(viewName, savedViews.views, author.uid);
+			if (nameError) {
+				return rejectWithValue(nameError);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const now = new Date();
+			const viewData = withSchemaVersion('savedViews', {
+				accountId,
+				name: viewName,
+				filters,
+				shared,
+				pinnedBy: [],
+				createdAt: now,
+				createdBy: author,
+				updatedAt: now,
+			});
+			const id = await db.add(SAVED_VIEWS_COLLECTION, viewData);
+
+			return savedViewSchema.parse({ id, ...viewData });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const updateSavedView = createAsyncThunk(
+	'savedViews/updateSavedView',
+	async (
+		{
+			id,
+			changes,
+		}: {
+			id: string;
+			changes: Partial<Pick<SavedView, 'name' | 'filters' | 'shared'>>;
+		},
+		{ getState, rejectWithValue }
+	) => {
+		try {
+			const { savedViews } = getState() as { savedViews: SavedViewState };
+			const view = savedViews.views.find((item) => item.id === id);
+			const uid = currentMemberRef()?.uid;
+			if (!view) {
+				return rejectWithValue('View not found');
+			}
+			if (!SavedViewUtils.canEdit(view, uid)) {
+				return rejectWithValue(
+					'Only the member who saved a view can change it'
+				);
+			}
+
+			const updates = {
+				...changes,
+				...(changes.name !== undefined ? { name: changes.name.trim() } : {}),
+				updatedAt: new Date(),
+			};
+			if (updates.name !== undefined) {
+				const nameError = getNameError(
+					updates.name,
+					savedViews.views,
+					uid!,
+					id
+				);
+				if (nameError) {
+					return rejectWithValue(nameError);
+				}
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.update(SAVED_VIEWS_COLLECTION, id, updates);
+			return { ...view, ...updates };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+// Pins belong to each member, so any member who can see a view may pin it
+export const toggleViewPin = createAsyncThunk(
+	'savedViews/toggleViewPin',
+	async (
+		{ id, pinned }: { id: string; pinned: boolean },
+		{ rejectWithValue }
+	) => {
+		try {
+			const uid = currentMemberRef()?.uid;
+			if (!uid) {
+				return rejectWithValue('Sign in to pin views');
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.update(SAVED_VIEWS_COLLECTION, id, {
+				pinnedBy: pinned ? arrayUnion(uid) : arrayRemove(uid),
+			});
+			return { id, uid, pinned };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const deleteSavedView = createAsyncThunk(
+	'savedViews/deleteSavedView',
+	async (id: string, { getState, rejectWithValue }) => {
+		try {
+			const { savedViews } = getState() as { savedViews: SavedViewState };
+			const view = savedViews.views.find((item) => item.id === id);
+			if (view && !SavedViewUtils.canEdit(view, currentMemberRef()?.uid)) {
+				return rejectWithValue(
+					'Only the member who saved a view can delete it'
+				);
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.remove(SAVED_VIEWS_COLLECTION, id);
+			return id;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+const savedViewsSlice = createSlice({
+	name: 'savedViews',
+	initialState,
+	reducers: {
+		clearSavedViews: (state) => {
+			state.accountId = null;
+			state.views = [];
+			state.status = 'idle';
+			state.error = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch saved views
+		builder.addCase(fetchSavedViews.pending, (state, action) => {
+			state.status = 'loading';
+			// Views of the previous account don't apply to this one
+			if (state.accountId !== action.meta.arg) {
+				state.accountId = action.meta.arg;
+				state.views = [];
+			}
+		});
+		builder.addCase(fetchSavedViews.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.status = 'succeeded';
+			state.views = action.payload.views;
+			state.error = null;
+		});
+		builder.addCase(fetchSavedViews.rejected, (state, action) => {
+			if (action.meta.arg !== state.accountId) return;
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Save view
+		builder.addCase(saveView.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.views.push(action.payload);
+			state.views.sort(byName);
+		});
+
+		// Update view
+		builder.addCase(updateSavedView.fulfilled, (state, action) => {
+			const index = state.views.findIndex(
+				(view) => view.id === action.payload.id
+			);
+			if (index === -1) return;
+			state.views[index] = action.payload;
+			state.views.sort(byName);
+		});
+
+		// Pin or unpin view
+		builder.addCase(toggleViewPin.fulfilled, (state, action) => {
+			const { id, uid, pinned } = action.payload;
+			const view = state.views.find((item) => item.id === id);
+			if (!view) return;
+			view.pinnedBy = pinned
+				? Array.from(new Set([...view.pinnedBy, uid]))
+				: view.pinnedBy.filter((pinnedUid) => pinnedUid !== uid);
+		});
+
+		// Delete view
+		builder.addCase(deleteSavedView.fulfilled, (state, action) => {
+			state.views = state.views.filter((view) => view.id !== action.payload);
+		});
+	},
+});
+
+// Export actions
+export const { clearSavedViews } = savedViewsSlice.actions;
+
+// Export selectors
+export const selectSavedViews = (state: { savedViews: SavedViewState }) =>
+	state.savedViews.views;
+export const selectSavedViewsAccountId = (state: {
+	savedViews: SavedViewState;
+}) => state.savedViews.accountId;
+export const selectSavedViewsStatus = (state: { savedViews: SavedViewState }) =>
+	state.savedViews.status;
+export const selectSavedViewsError = (state: { savedViews: SavedViewState }) =>
+	state.savedViews.error;
+
+export default savedViewsSlice.reducer;
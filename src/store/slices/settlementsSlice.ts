@@ -0,0 +1,205 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { db, currentMemberRef } from '../../services/firebase';
+import { isOnline } from '../../services/offlineCache';
+import { Account, Expense, Settlement } from '../../models/types';
+import { settlementSchema } from '../../models/schemas';
+import { convertDocuments, toExpense } from '../../models/converters';
+import { withSchemaVersion } from '../../models/migrations';
+import { getExpenseWindowStart } from './expensesSlice';
+
+// Types
+interface SettlementState {
+	accountId: string | null;
+	settlements: Settlement[];
+	// Split expenses from before the live expense window; settlements cover
+	// every date, so balances need these as well
+	olderSplitExpenses: Expense[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+}
+
+const initialState: SettlementState = {
+	accountId: null,
+	settlements: [],
+	olderSplitExpenses: [],
+	status: 'idle',
+	error: null,
+};
+
+const SETTLEMENTS_COLLECTION = 'settlements';
+
+const OFFLINE_MESSAGE = 'Settle-ups are not available offline';
+
+// Async thunks
+export const fetchSettlements = createAsyncThunk(
+	'settlements/fetchSettlements',
+	async (accountId: string, { getState, rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const [docs, expenseDocs] = await Promise.all([
+				db.query(SETTLEMENTS_COLLECTION, {
+					where: [{ field: 'accountId', op: '==', value: accountId }],
+					orderBy: [{ field: 'date', direction: 'desc' }],
+				}),
+				// Whether an expense is split can't be queried, so the older
+				// expenses are read and filtered here
+				db.query<Expense>('expenses', {
+					where: [
+						{ field: 'accountId', op: '==', value: accountId },
+						{ field: 'date', op: '<', value: getExpenseWindowStart() },
+					],
+				}),
+			]);
+
+			return {
+				accountId,
+				settlements: convertDocuments(docs, (doc) =>
+					settlementSchema.parse(doc)
+				),
+				olderSplitExpenses: convertDocuments(expenseDocs, (doc) =>
+					toExpense(doc, accounts.currentAccount?.baseCurrency)
+				).filter((expense) => expense.split),
+			};
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const recordSettlement = createAsyncThunk(
+	'settlements/recordSettlement',
+	async (
+		{
+			accountId,
+			from,
+			to,
+			amount,
+			date,
+			note,
+		}: {
+			accountId: string;
+			from: string;
+			to: string;
+			amount: number;
+			date: Date;
+			note?: string;
+		},
+		{ rejectWithValue }
+	) => {
+		try {
+			if (from === to) {
+				return rejectWithValue('Choose two different members');
+			}
+			if (!(amount > 0)) {
+				return rejectWithValue('Amount must be more than zero');
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const settlementData = withSchemaVersion('settlements', {
+				accountId,
+				from,
+				to,
+				amount,
+				date,
+				...(note ? { note } : {}),
+				createdAt: new Date(),
+				createdBy: currentMemberRef() || { uid: '', displayName: '' },
+			});
+			const id = await db.add(SETTLEMENTS_COLLECTION, settlementData);
+
+			return settlementSchema.parse({ id, ...settlementData });
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const deleteSettlement = createAsyncThunk(
+	'settlements/deleteSettlement',
+	async (id: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await db.remove(SETTLEMENTS_COLLECTION, id);
+			return id;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+const settlementsSlice = createSlice({
+	name: 'settlements',
+	initialState,
+	reducers: {
+		clearSettlements: (state) => {
+			state.accountId = null;
+			state.settlements = [];
+			state.olderSplitExpenses = [];
+			state.status = 'idle';
+			state.error = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch settlements
+		builder.addCase(fetchSettlements.pending, (state) => {
+			state.status = 'loading';
+		});
+		builder.addCase(fetchSettlements.fulfilled, (state, action) => {
+			state.status = 'succeeded';
+			state.accountId = action.payload.accountId;
+			state.settlements = action.payload.settlements;
+			state.olderSplitExpenses = action.payload.olderSplitExpenses;
+			state.error = null;
+		});
+		builder.addCase(fetchSettlements.rejected, (state, action) => {
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Record settlement
+		builder.addCase(recordSettlement.fulfilled, (state, action) => {
+			if (action.payload.accountId !== state.accountId) return;
+			state.settlements.unshift(action.payload);
+			state.settlements.sort((a, b) => b.date.getTime() - a.date.getTime());
+		});
+
+		// Delete settlement
+		builder.addCase(deleteSettlement.fulfilled, (state, action) => {
+			state.settlements = state.settlements.filter(
+				(settlement) => settlement.id !== action.payload
+			);
+		});
+	},
+});
+
+// Export actions
+export const { clearSettlements } = settlementsSlice.actions;
+
+// Export selectors
+export const selectSettlements = (state: { settlements: SettlementState }) =>
+	state.settlements.settlements;
+export const selectOlderSplitExpenses = (state: {
+	settlements: SettlementState;
+}) => state.settlements.olderSplitExpenses;
+export const selectSettlementsAccountId = (state: {
+	settlements: SettlementState;
+}) => state.settlements.accountId;
+export const selectSettlementsStatus = (state: {
+	settlements: SettlementState;
+}) => state.settlements.status;
+export const selectSettlementsError = (state: {
+	settlements: SettlementState;
+}) => state.settlements.error;
+
+export default settlementsSlice.reducer;
@@ -0,0 +1,132 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { offlineCache, isOnline } from '../../services/offlineCache';
+import { replayOutbox, ReplayResult } from '../../services/offlineSync';
+import { addNotification } from './uiSlice';
+
+export interface SyncConflict {
+	collection: ReplayResult['collection'];
+	docId: string;
+	message: string;
+	occurredAt: string;
+}
+
+interface SyncState {
+	isOnline: boolean;
+	status: 'idle' | 'syncing' | 'failed';
+	pendingCount: number;
+	lastSyncedAt: string | null;
+	conflicts: SyncConflict[];
+	error: string | null;
+}
+
+const initialState: SyncState = {
+	isOnline: isOnline(),
+	status: 'idle',
+	pendingCount: 0,
+	lastSyncedAt: null,
+	conflicts: [],
+	error: null,
+};
+
+// Async thunks
+export const refreshPendingCount = createAsyncThunk(
+	'sync/refreshPendingCount',
+	async () => {
+		const outbox = await offlineCache.getOutbox();
+		return outbox.length;
+	}
+);
+
+export const syncOutbox = createAsyncThunk(
+	'sync/syncOutbox',
+	async (_, { dispatch, rejectWithValue }) => {
+		try {
+			const { results, remaining } = await replayOutbox();
+
+			const conflicts = results.filter((result) => result.status !== 'synced');
+			if (conflicts.length > 0) {
+				dispatch(
+					addNotification({
+						type: 'warning',
+						message: `${conflicts.length} offline ${
+							conflicts.length === 1 ? 'change' : 'changes'
+						} could not be applied as made. Check the highlighted items.`,
+					})
+				);
+			}
+
+			return { results, remaining };
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	},
+	{
+		// Only one replay at a time, and never while offline
+		condition: (_, { getState }) => {
+			const { sync } = getState() as { sync: SyncState };
+			return sync.status !== 'syncing' && isOnline();
+		},
+	}
+);
+
+const syncSlice = createSlice({
+	name: 'sync',
+	initialState,
+	reducers: {
+		setOnlineStatus: (state, action: PayloadAction<boolean>) => {
+			state.isOnline = action.payload;
+		},
+		dismissConflict: (state, action: PayloadAction<string>) => {
+			state.conflicts = state.conflicts.filter(
+				(conflict) => conflict.docId !== action.payload
+			);
+		},
+	},
+	extraReducers: (builder) => {
+		builder.addCase(refreshPendingCount.fulfilled, (state, action) => {
+			state.pendingCount = action.payload;
+		});
+
+		builder.addCase(syncOutbox.pending, (state) => {
+			state.status = 'syncing';
+		});
+		builder.addCase(syncOutbox.fulfilled, (state, action) => {
+			const now = new Date().toISOString();
+
+			state.status = 'idle';
+			state.pendingCount = action.payload.remaining;
+			state.lastSyncedAt = now;
+			state.error = null;
+			action.payload.results
+				.filter((result) => result.status !== 'synced')
+				.forEach((result) => {
+					state.conflicts.push({
+						collection: result.collection,
+						docId: result.docId,
+						message: result.message || 'The change could not be applied',
+						occurredAt: now,
+					});
+				});
+		});
+		builder.addCase(syncOutbox.rejected, (state, action) => {
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+	},
+});
+
+export const { setOnlineStatus, dismissConflict } = syncSlice.actions;
+
+// Selectors
+export const selectIsOnline = (state: { sync: SyncState }) =>
+	state.sync.isOnline;
+export const selectSyncStatus = (state: { sync: SyncState }) =>
+	state.sync.status;
+export const selectPendingCount = (state: { sync: SyncState }) =>
+	state.sync.pendingCount;
+export const selectSyncConflicts = (state: { sync: SyncState }) =>
+	state.sync.conflicts;
+export const selectConflictFor = (state: { sync: SyncState }, docId: string) =>
+	state.sync.conflicts.find((conflict) => conflict.docId === docId);
+
+export default syncSlice.reducer;
@@ -0,0 +1,177 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { currentMemberRef } from '../../services/firebase';
+import { isOnline } from '../../services/offlineCache';
+import { trash } from '../../services/trash';
+import { Account, TrashItem } from '../../models/types';
+
+// Types
+interface TrashState {
+	// Deleted expenses and budgets of the current account
+	items: TrashItem[];
+	// Deleted accounts the user was an admin of
+	deletedAccounts: TrashItem[];
+	status: 'idle' | 'loading' | 'succeeded' | 'failed';
+	error: string | null;
+}
+
+const initialState: TrashState = {
+	items: [],
+	deletedAccounts: [],
+	status: 'idle',
+	error: null,
+};
+
+const OFFLINE_MESSAGE = 'The trash is not available offline';
+
+// Only admins may delete for good; for a deleted account, its former admins
+const isAdminFor = (
+	item: TrashItem,
+	currentAccount: Account | null,
+	uid: string
+) =>
+	item.collection === 'accounts'
+		? item.adminUids.includes(uid)
+		: currentAccount?.id === item.accountId &&
+		  currentAccount.members.some(
+				(member) => member.uid === uid && member.role === 'admin'
+		  );
+
+// Async thunks
+export const fetchTrash = createAsyncThunk(
+	'trash/fetchTrash',
+	async (accountId: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			// Items past their retention period are purged before listing
+			await trash.purgeExpired(accountId);
+			return await trash.getAccountTrash(accountId);
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const fetchDeletedAccounts = createAsyncThunk(
+	'trash/fetchDeletedAccounts',
+	async (uid: string, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			const now = new Date();
+			const items = await trash.getDeletedAccounts(uid);
+			for (const item of items.filter((entry) => entry.purgeAt <= now)) {
+				await trash.purge(item);
+			}
+			return items.filter((item) => item.purgeAt > now);
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const restoreTrashItem = createAsyncThunk(
+	'trash/restoreTrashItem',
+	async (item: TrashItem, { rejectWithValue }) => {
+		try {
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await trash.restore(item);
+			return item;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+export const permanentlyDeleteTrashItem = createAsyncThunk(
+	'trash/permanentlyDeleteTrashItem',
+	async (item: TrashItem, { getState, rejectWithValue }) => {
+		try {
+			const { accounts } = getState() as {
+				accounts: { currentAccount: Account | null };
+			};
+			const uid = currentMemberRef()?.uid || '';
+
+			if (!isAdminFor(item, accounts.currentAccount, uid)) {
+				return rejectWithValue('Only account admins can delete permanently');
+			}
+			if (!isOnline()) {
+				return rejectWithValue(OFFLINE_MESSAGE);
+			}
+
+			await trash.purge(item);
+			return item.id;
+		} catch (error: any) {
+			return rejectWithValue(error.message);
+		}
+	}
+);
+
+const trashSlice = createSlice({
+	name: 'trash',
+	initialState,
+	reducers: {
+		clearTrash: (state) => {
+			state.items = [];
+			state.deletedAccounts = [];
+			state.status = 'idle';
+			state.error = null;
+		},
+	},
+	extraReducers: (builder) => {
+		// Fetch trash
+		builder.addCase(fetchTrash.pending, (state) => {
+			state.status = 'loading';
+		});
+		builder.addCase(fetchTrash.fulfilled, (state, action) => {
+			state.status = 'succeeded';
+			state.items = action.payload;
+			state.error = null;
+		});
+		builder.addCase(fetchTrash.rejected, (state, action) => {
+			state.status = 'failed';
+			state.error = action.payload as string;
+		});
+
+		// Fetch deleted accounts
+		builder.addCase(fetchDeletedAccounts.fulfilled, (state, action) => {
+			state.deletedAccounts = action.payload;
+		});
+
+		// Restore or delete for good
+		builder.addCase(restoreTrashItem.fulfilled, (state, action) => {
+			state.items = state.items.filter((item) => item.id !== action.payload.id);
+			state.deletedAccounts = state.deletedAccounts.filter(
+				(item) => item.id !== action.payload.id
+			);
+		});
+		builder.addCase(permanentlyDeleteTrashItem.fulfilled, (state, action) => {
+			state.items = state.items.filter((item) => item.id !== action.payload);
+			state.deletedAccounts = state.deletedAccounts.filter(
+				(item) => item.id !== action.payload
+			);
+		});
+	},
+});
+
+// Export actions
+export const { clearTrash } = trashSlice.actions;
+
+// Export selectors
+export const selectTrashItems = (state: { trash: TrashState }) =>
+	state.trash.items;
+export const selectDeletedAccounts = (state: { trash: TrashState }) =>
+	state.trash.deletedAccounts;
+export const selectTrashStatus = (state: { trash: TrashState }) =>
+	state.trash.status;
+export const selectTrashError = (state: { trash: TrashState }) =>
+	state.trash.error;
+
+export default trashSlice.reducer;
@@ -1,5 +1,6 @@
 // src/store/slices/uiSlice.ts
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ExpenseViewFilters } from '../../models/types';
 
 type ThemeMode = 'light' | 'dark' | 'system';
 
@@ -21,11 +22,8 @@ interface UiState {
 	mobileMenuOpen: boolean;
 	activeView: string;
 	notifications: NotificationType[];
-	filters: {
-		category: string;
-		dateRange: DateRange | null;
-		searchQuery: string;
-	};
+	// Filters of the expense list; saved views store the same shape
+	filters: ExpenseViewFilters;
 }
 
 const initialState: UiState = {
@@ -38,6 +36,7 @@ const initialState: UiState = {
 		category: 'all',
 		dateRange: null,
 		searchQuery: '',
+		tags: [],
 	},
 };
 
@@ -136,6 +135,22 @@ const uiSlice = createSlice({
 		setSearchQuery: (state, action: PayloadAction<string>) => {
 			state.filters.searchQuery = action.payload;
 		},
+		setTagFilter: (state, action: PayloadAction<string[]>) => {
+			state.filters.tags = action.payload;
+		},
+		// null shows expenses paid with any method
+		setPaymentMethodFilter: (state, action: PayloadAction<string | null>) => {
+			// Left out rather than undefined, since views store the filters as is
+			if (action.payload) {
+				state.filters.paymentMethodId = action.payload;
+			} else {
+				delete state.filters.paymentMethodId;
+			}
+		},
+		// Replace every filter at once, e.g. to open a saved view
+		setFilters: (state, action: PayloadAction<ExpenseViewFilters>) => {
+			state.filters = action.payload;
+		},
 		clearFilters: (state) => {
 			state.filters = initialState.filters;
 		},
@@ -157,6 +172,9 @@ export const {
 	setCategoryFilter,
 	setDateFilter,
 	setSearchQuery,
+	setTagFilter,
+	setPaymentMethodFilter,
+	setFilters,
 	clearFilters,
 } = uiSlice.actions;
 
@@ -0,0 +1,76 @@
+import { Account, Expense, ExpenseStatus } from '../models/schemas';
+import { ExpenseApprovals, REVIEWED_FIELDS } from '../../shared/approvals';
+
+type ApprovalAccount = Pick<Account, 'members' | 'settings'>;
+
+type ReviewedExpense = Pick<Expense, 'amountInBaseCurrency' | 'category'>;
+
+/**
+ * Utility class for the expense approval workflow
+ * The rules live in shared/approvals, which the API server uses too.
+ */
+export class ApprovalUtils {
+	/**
+	 * Check whether a member may approve and reject expenses
+	 * @param account - Account the expenses belong to
+	 * @param uid - Member's user id
+	 */
+	static isApprover(account: Pick<Account, 'members'>, uid?: string): boolean {
+		return ExpenseApprovals.isApprover(account, uid);
+	}
+
+	/**
+	 * Check whether an account asks for expenses to be approved
+	 */
+	static isRequired(account: Pick<Account, 'settings'>): boolean {
+		return ExpenseApprovals.isRequired(account);
+	}
+
+	/**
+	 * Get the status a new or changed expense starts with
+	 * Admins' own expenses and expenses the account's policy allows are
+	 * approved right away.
+	 * @param account - Account the expense belongs to
+	 * @param expense - Expense being saved
+	 * @param uid - Member who submitted it
+	 * @returns The status, or undefined if the account doesn't use approval
+	 */
+	static getInitialStatus(
+		account: ApprovalAccount,
+		expense: ReviewedExpense,
+		uid?: string
+	): ExpenseStatus | undefined {
+		return ExpenseApprovals.getInitialStatus(account, expense, uid);
+	}
+
+	/**
+	 * Check whether an update sends an expense back for approval
+	 * Rejected expenses are resubmitted by any change; approved ones only
+	 * when what they cost or where they count changes.
+	 * @param expense - Expense before the update
+	 * @param updates - Fields being changed
+	 */
+	static needsReviewAfter(
+		expense: Pick<Expense, 'status' | (typeof REVIEWED_FIELDS)[number]>,
+		updates: Record<string, unknown>
+	): boolean {
+		return ExpenseApprovals.needsReviewAfter(expense, updates);
+	}
+
+	/**
+	 * Check whether an expense counts towards budgets
+	 * Pending and rejected expenses don't.
+	 */
+	static isApproved(expense: Pick<Expense, 'status'>): boolean {
+		return ExpenseApprovals.isApproved(expense);
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	isApprover,
+	isRequired: isApprovalRequired,
+	getInitialStatus: getInitialApprovalStatus,
+	needsReviewAfter,
+	isApproved,
+} = ApprovalUtils;
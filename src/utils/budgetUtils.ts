@@ -0,0 +1,200 @@
+import { addMonths, addWeeks, addYears } from 'date-fns';
+import { Budget, BudgetPeriod, Expense } from '../models/schemas';
+import { LineItemUtils } from './lineItemUtils';
+import { ApprovalUtils } from './approvalUtils';
+
+type BudgetRange = Pick<
+	Budget,
+	'accountId' | 'category' | 'startDate' | 'endDate'
+>;
+
+type BudgetExpense = Pick<
+	Expense,
+	| 'accountId'
+	| 'category'
+	| 'date'
+	| 'amount'
+	| 'amountInBaseCurrency'
+	| 'lineItems'
+	| 'status'
+>;
+
+type BudgetCandidate = Pick<
+	Expense,
+	'accountId' | 'category' | 'date' | 'lineItems' | 'status'
+>;
+
+/**
+ * Utility class for budget periods and spending
+ */
+export class BudgetUtils {
+	/**
+	 * Get the end of a budget period
+	 * @param startDate - First day of the period
+	 * @param period - Budget period (monthly when not recurring)
+	 * @returns End date of the period
+	 */
+	static getPeriodEnd(startDate: Date, period?: BudgetPeriod): Date {
+		switch (period) {
+			case 'weekly':
+				return addWeeks(startDate, 1);
+			case 'quarterly':
+				return addMonths(startDate, 3);
+			case 'annually':
+				return addYears(startDate, 1);
+			case 'monthly':
+			default:
+				return addMonths(startDate, 1);
+		}
+	}
+
+	/**
+	 * Check whether an expense falls in a budget's account and period
+	 * @param budget - Budget to check against
+	 * @param expense - Expense to check
+	 */
+	static isInPeriod(
+		budget: BudgetRange,
+		expense: Pick<Expense, 'accountId' | 'date'>
+	): boolean {
+		const date = new Date(expense.date);
+		return (
+			expense.accountId === budget.accountId &&
+			date >= new Date(budget.startDate) &&
+			date <= new Date(budget.endDate)
+		);
+	}
+
+	/**
+	 * Check whether an expense counts against a budget
+	 * @param budget - Budget to check against
+	 * @param expense - Expense to check
+	 * @returns True if the expense is approved, in the budget's account and
+	 * period, and it or one of its line items is in the budget's category
+	 */
+	static isInBudget(budget: BudgetRange, expense: BudgetCandidate): boolean {
+		return (
+			ApprovalUtils.isApproved(expense) &&
+			BudgetUtils.isInPeriod(budget, expense) &&
+			(budget.category === 'All' ||
+				LineItemUtils.getCategories(expense).includes(budget.category))
+		);
+	}
+
+	/**
+	 * Get the expenses counted against a budget
+	 * @param budget - Budget to check against
+	 * @param expenses - Candidate expenses
+	 * @returns Expenses in the budget's account, period and category
+	 */
+	static getBudgetExpenses<T extends BudgetCandidate>(
+		budget: BudgetRange,
+		expenses: T[]
+	): T[] {
+		return expenses.filter((expense) =>
+			BudgetUtils.isInBudget(budget, expense)
+		);
+	}
+
+	/**
+	 * Get the amount spent against a budget, in the account's base currency
+	 * Only the line items in the budget's category count.
+	 * @param budget - Budget to check against
+	 * @param expenses - Candidate expenses
+	 * @returns Total spent
+	 */
+	static getBudgetSpent(
+		budget: BudgetRange,
+		expenses: BudgetExpense[]
+	): number {
+		return BudgetUtils.getBudgetExpenses(budget, expenses).reduce(
+			(total, expense) =>
+				total +
+				(budget.category === 'All'
+					? expense.amountInBaseCurrency
+					: LineItemUtils.getCategoryAmount(expense, budget.category)),
+			0
+		);
+	}
+
+	/**
+	 * Get the correction itemized expenses need on a total of whole expenses
+	 * in a budget's category, as summed by the database
+	 * @param budget - Budget to check against
+	 * @param itemizedExpenses - Expenses with line items
+	 * @returns Amount to add to the total, in the account's base currency
+	 */
+	static getLineItemAdjustment(
+		budget: BudgetRange,
+		itemizedExpenses: BudgetExpense[]
+	): number {
+		if (budget.category === 'All') return 0;
+
+		// The database counted them by their own category, whatever their lines
+		return BudgetUtils.getBudgetExpenses(
+			{ ...budget, category: 'All' },
+			itemizedExpenses
+		).reduce(
+			(total, expense) =>
+				total +
+				LineItemUtils.getCategoryAmount(expense, budget.category) -
+				(expense.category === budget.category
+					? expense.amountInBaseCurrency
+					: 0),
+			0
+		);
+	}
+
+	/**
+	 * Get the correction unapproved expenses need on a total of whole expenses
+	 * in a budget's category, as summed by the database
+	 * @param budget - Budget to check against
+	 * @param unapprovedExpenses - Pending and rejected expenses
+	 * @returns Amount to add to the total, in the account's base currency
+	 */
+	static getUnapprovedAdjustment(
+		budget: BudgetRange,
+		unapprovedExpenses: BudgetExpense[]
+	): number {
+		// The database counted them in full by their own category; their line
+		// items are left out of the line item adjustment
+		return -unapprovedExpenses
+			.filter(
+				(expense) =>
+					!ApprovalUtils.isApproved(expense) &&
+					BudgetUtils.isInPeriod(budget, expense) &&
+					(budget.category === 'All' || expense.category === budget.category)
+			)
+			.reduce((total, expense) => total + expense.amountInBaseCurrency, 0);
+	}
+
+	/**
+	 * Get a key that changes when budgets are added, removed or changed in a
+	 * way that affects their spending, for effects that recount it
+	 * @param budgets - Budgets of the account
+	 */
+	static getSpendingKey(budgets: Array<BudgetRange & { id: string }>): string {
+		return budgets
+			.map((budget) =>
+				[
+					budget.id,
+					budget.category,
+					new Date(budget.startDate).getTime(),
+					new Date(budget.endDate).getTime(),
+				].join(':')
+			)
+			.join(',');
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	getPeriodEnd,
+	isInPeriod: isInBudgetPeriod,
+	isInBudget,
+	getBudgetExpenses,
+	getBudgetSpent,
+	getLineItemAdjustment,
+	getUnapprovedAdjustment,
+	getSpendingKey: getBudgetSpendingKey,
+} = BudgetUtils;
@@ -0,0 +1,142 @@
+import { CategoryRule, Expense, PaymentMethod } from '../models/schemas';
+import { CategoryRules } from '../../shared/categoryRules';
+
+export type CategoryRuleDraft = Omit<CategoryRule, 'id' | 'priority'>;
+
+const OPERATOR_LABELS: Record<
+	CategoryRule['conditions'][number]['operator'],
+	string
+> = {
+	contains: 'contains',
+	matches: 'matches',
+	'=': 'is',
+	'>': 'is over',
+	'>=': 'is at least',
+	'<': 'is under',
+	'<=': 'is at most',
+};
+
+const FIELD_LABELS: Record<
+	CategoryRule['conditions'][number]['field'],
+	string
+> = {
+	description: 'Description',
+	amount: 'Amount',
+	paymentMethod: 'Paid with',
+};
+
+// Words of a description kept when a rule is made from an expense
+const MAX_KEYWORDS = 3;
+
+/**
+ * Utility class for auto-categorization rules
+ * Matching itself lives in shared/categoryRules, which the API server uses too.
+ */
+export class CategoryRuleUtils {
+	/**
+	 * Start a rule that files expenses like this one
+	 * The description is cut at the first number or symbol, which is
+	 * usually where the merchant's name ends and an order or store number
+	 * starts.
+	 */
+	static fromExpense(
+		expense: Pick<Expense, 'description' | 'category' | 'tags'>
+	): CategoryRuleDraft {
+		const keyword = expense.description
+			.split(/[\d#*\-|/(]/)[0]
+			.trim()
+			.split(/\s+/)
+			.slice(0, MAX_KEYWORDS)
+			.join(' ');
+		const value = keyword || expense.description.trim();
+
+		return {
+			name: value,
+			enabled: true,
+			conditions: [{ field: 'description', operator: 'contains', value }],
+			category: expense.category,
+			tags: expense.tags?.length ? expense.tags : undefined,
+		};
+	}
+
+	/**
+	 * Get the rule as stored in the account's settings
+	 * Storage backends reject undefined values, so unset tags are left out.
+	 */
+	static toStored(rule: CategoryRule): CategoryRule {
+		const { tags, ...rest } = rule;
+		return {
+			...rest,
+			name: rest.name.trim(),
+			conditions: rest.conditions.map(({ field, operator, value }) => ({
+				field,
+				operator,
+				value: value.trim(),
+			})),
+			...(tags?.length ? { tags } : {}),
+		};
+	}
+
+	/**
+	 * Describe a rule's conditions in words
+	 * @example "Description contains uber and Amount is under 5"
+	 */
+	static describe(rule: CategoryRule, paymentMethods: PaymentMethod[]): string {
+		return rule.conditions
+			.map(({ field, operator, value }) => {
+				const shown =
+					field === 'paymentMethod'
+						? paymentMethods.find((method) => method.id === value)?.name ||
+						  'a removed method'
+						: operator === 'matches'
+						? `/${value}/`
+						: value;
+				return `${FIELD_LABELS[field]} ${OPERATOR_LABELS[operator]} ${shown}`;
+			})
+			.join(' and ');
+	}
+
+	/**
+	 * Get the existing expenses a rule would change
+	 * Expenses an enabled rule of higher priority matches are left to that
+	 * rule, and those already filed as the rule says are skipped.
+	 * @param rule - Rule being applied
+	 * @param rules - Every rule of the account
+	 * @param expenses - Expenses of the account
+	 */
+	static getPreview(
+		rule: CategoryRule,
+		rules: CategoryRule[],
+		expenses: Expense[]
+	): Expense[] {
+		const earlier = CategoryRules.sort(rules).filter(
+			(item) =>
+				item.id !== rule.id &&
+				item.enabled &&
+				CategoryRules.sort([item, rule])[0] === item
+		);
+		return expenses.filter(
+			(expense) =>
+				CategoryRules.matches(rule, expense) &&
+				!earlier.some((item) => CategoryRules.matches(item, expense)) &&
+				(expense.category !== rule.category ||
+					(rule.tags || []).some((tag) => !expense.tags?.includes(tag)))
+		);
+	}
+
+	/**
+	 * Give every rule a priority matching its position
+	 */
+	static renumber(rules: CategoryRule[]): CategoryRule[] {
+		return rules.map((rule, index) => ({ ...rule, priority: index + 1 }));
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	fromExpense: categoryRuleFromExpense,
+	toStored: toStoredCategoryRule,
+	describe: describeCategoryRule,
+	getPreview: getCategoryRulePreview,
+	renumber: renumberCategoryRules,
+} = CategoryRuleUtils;
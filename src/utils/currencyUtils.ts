@@ -63,14 +63,16 @@ export class CurrencyUtils {
 	/**
 	 * Check if a value is a valid currency amount
 	 * @param value - Value to validate
+	 * @param allowNegative - Whether negative amounts, like refunds and
+	 * credits, are valid
 	 * @returns Boolean indicating if value is a valid currency amount
 	 */
-	static isValidCurrencyAmount(value: any): boolean {
+	static isValidCurrencyAmount(value: any, allowNegative = false): boolean {
 		// Check if value is a number and not NaN
 		if (typeof value !== 'number' || isNaN(value)) return false;
 
 		// Ensure value is not negative
-		if (value < 0) return false;
+		if (value < 0 && !allowNegative) return false;
 
 		// Optional: Add more specific validation if needed
 		return true;
@@ -0,0 +1,125 @@
+import { Expense, Merchant } from '../models/schemas';
+import {
+	DuplicateCandidate,
+	ExpenseDuplicates,
+} from '../../shared/duplicateExpenses';
+import { MerchantUtils } from './merchantUtils';
+import { TagUtils } from './tagUtils';
+
+// Fields of the removed expense a merge carries over to the kept one
+export type DuplicateMerge = Partial<
+	Pick<
+		Expense,
+		'tags' | 'receiptUrls' | 'notes' | 'subcategory' | 'paymentMethodId'
+	>
+>;
+
+/**
+ * Utility class for expenses entered twice
+ * Matching itself lives in shared/duplicateExpenses, which the API server
+ * uses too; this adds the account's merchant directory.
+ */
+export class DuplicateUtils {
+	/**
+	 * Find the expenses an expense being saved likely duplicates
+	 * @param expense - Expense being saved
+	 * @param expenses - Expenses of the account
+	 * @param merchants - Merchants of the account
+	 */
+	static find(
+		expense: DuplicateCandidate,
+		expenses: Expense[],
+		merchants: Merchant[]
+	): Expense[] {
+		return ExpenseDuplicates.find(expense, expenses, {
+			sameMerchant: (a, b) => MerchantUtils.isSameMerchant(a, b, merchants),
+		});
+	}
+
+	/**
+	 * Find every pair of likely duplicates in an account, most recent first
+	 */
+	static getPairs(
+		expenses: Expense[],
+		merchants: Merchant[]
+	): [Expense, Expense][] {
+		return ExpenseDuplicates.findPairs(expenses, {
+			sameMerchant: (a, b) => MerchantUtils.isSameMerchant(a, b, merchants),
+		});
+	}
+
+	/**
+	 * Get the key of a pair, the same whichever expense comes first
+	 */
+	static getPairKey(a: Pick<Expense, 'id'>, b: Pick<Expense, 'id'>): string {
+		return [a.id, b.id].sort().join(':');
+	}
+
+	/**
+	 * Get the changes that fold a duplicate into the expense being kept
+	 * Tags and receipts of both are kept, notes are joined and fields only
+	 * the duplicate has are copied.
+	 * @returns Changes to the kept expense; empty when it already has
+	 * everything
+	 */
+	static getMergeUpdates(keep: Expense, remove: Expense): DuplicateMerge {
+		const updates: DuplicateMerge = {};
+
+		const tags = TagUtils.normalize([
+			...(keep.tags || []),
+			...(remove.tags || []),
+		]);
+		if (tags.length > (keep.tags || []).length) updates.tags = tags;
+
+		const receiptUrls = [
+			...(keep.receiptUrls || []),
+			...(remove.receiptUrls || []).filter(
+				(url) => !keep.receiptUrls?.includes(url)
+			),
+		];
+		if (receiptUrls.length > (keep.receiptUrls || []).length) {
+			updates.receiptUrls = receiptUrls;
+		}
+
+		if (remove.notes && remove.notes !== keep.notes) {
+			updates.notes = keep.notes
+				? `${keep.notes}\n${remove.notes}`
+				: remove.notes;
+		}
+		if (!keep.subcategory && remove.subcategory) {
+			updates.subcategory = remove.subcategory;
+		}
+		if (!keep.paymentMethodId && remove.paymentMethodId) {
+			updates.paymentMethodId = remove.paymentMethodId;
+		}
+
+		return updates;
+	}
+
+	/**
+	 * Get the change that records two expenses are not duplicates
+	 * It is kept on one of them. Changed rejected expenses go back through
+	 * approval, so a rejected expense only gets it when both are rejected.
+	 * @returns The expense to change and its new list
+	 */
+	static getDismissal(
+		a: Expense,
+		b: Expense
+	): { id: string; notDuplicateOf: string[] } {
+		const [target, other] =
+			b.status === 'rejected' && a.status !== 'rejected' ? [a, b] : [b, a];
+		return {
+			id: target.id,
+			notDuplicateOf: [...(target.notDuplicateOf || []), other.id],
+		};
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	find: findDuplicates,
+	getPairs: getDuplicatePairs,
+	getPairKey: getDuplicatePairKey,
+	getMergeUpdates: getDuplicateMergeUpdates,
+	getDismissal: getDuplicateDismissal,
+} = DuplicateUtils;
@@ -0,0 +1,89 @@
+import { Expense, LineItem } from '../models/schemas';
+import { ExpenseLineItems } from '../../shared/lineItems';
+
+type CategorizedExpense = Pick<
+	Expense,
+	'amount' | 'amountInBaseCurrency' | 'category' | 'lineItems'
+>;
+
+/**
+ * Utility class for itemized expenses
+ * Validation and category breakdowns live in shared/lineItems, which the API
+ * server uses too.
+ */
+export class LineItemUtils {
+	/**
+	 * Check an expense's line items before it is saved
+	 * @param amount - Expense amount
+	 * @param lineItems - Line items of the expense
+	 * @returns A message describing the problem, or null if they are valid
+	 */
+	static validate(amount: number, lineItems: LineItem[]): string | null {
+		return ExpenseLineItems.validate(amount, lineItems);
+	}
+
+	/**
+	 * Get the amount an expense counts in each category, in the account's
+	 * base currency
+	 * Expenses without line items count in full in their own category.
+	 * @param expense - Expense to break down
+	 * @returns Amount per category
+	 */
+	static getCategoryAmounts(
+		expense: CategorizedExpense
+	): Record<string, number> {
+		return ExpenseLineItems.getCategoryAmounts(expense);
+	}
+
+	/**
+	 * Get the amount an expense counts in one category
+	 * @param expense - Expense to check
+	 * @param category - Category name
+	 * @returns Amount in the account's base currency
+	 */
+	static getCategoryAmount(
+		expense: CategorizedExpense,
+		category: string
+	): number {
+		return LineItemUtils.getCategoryAmounts(expense)[category] || 0;
+	}
+
+	/**
+	 * Get the categories an expense counts in
+	 * @param expense - Expense to check
+	 * @returns Category names
+	 */
+	static getCategories(
+		expense: Pick<Expense, 'category' | 'lineItems'>
+	): string[] {
+		return ExpenseLineItems.getCategories(expense);
+	}
+
+	/**
+	 * Total expenses per category, counting line items in their own category
+	 * @param expenses - Expenses to total
+	 * @returns Total per category, in the account's base currency
+	 */
+	static getCategoryTotals(
+		expenses: CategorizedExpense[]
+	): Record<string, number> {
+		const totals: Record<string, number> = {};
+		expenses.forEach((expense) => {
+			Object.entries(LineItemUtils.getCategoryAmounts(expense)).forEach(
+				([category, amount]) => {
+					totals[category] = (totals[category] || 0) + amount;
+				}
+			);
+		});
+		return totals;
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	validate: validateLineItems,
+	getCategoryAmounts,
+	getCategoryAmount,
+	getCategories: getExpenseCategories,
+	getCategoryTotals,
+} = LineItemUtils;
@@ -0,0 +1,305 @@
+import { Expense, Merchant } from '../models/schemas';
+
+type MerchantExpense = Pick<
+	Expense,
+	'description' | 'amountInBaseCurrency' | 'date'
+>;
+
+export interface MerchantSpend {
+	// Merchant id, or the cleaned up description of expenses at a merchant
+	// not in the directory
+	key: string;
+	merchant: Merchant | null;
+	name: string;
+	amount: number;
+	count: number;
+	lastDate: Date;
+}
+
+export interface MerchantMonth {
+	// yyyy-MM
+	month: string;
+	amount: number;
+	count: number;
+}
+
+export interface MerchantSuggestion {
+	name: string;
+	count: number;
+}
+
+// Keys of merchants not in the directory start with this, so they can't
+// clash with merchant ids
+const UNLISTED_PREFIX = '~';
+
+// Card processors put their own code before the merchant's name, as in
+// "SQ *BLUE BOTTLE" or "PAYPAL *SPOTIFY"
+const PROCESSOR_PREFIX = /^(?:sq|tst|sp|pp|paypal|pos|sumup|iz|zettle)\s?\*\s*/;
+
+const toMonthKey = (date: Date) =>
+	`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Used for merchants without a color of their own
+const MERCHANT_COLORS = [
+	'#4F46E5', // indigo-600
+	'#10B981', // emerald-500
+	'#F59E0B', // amber-500
+	'#EF4444', // red-500
+	'#8B5CF6', // violet-500
+	'#06B6D4', // cyan-500
+	'#EC4899', // pink-500
+	'#84CC16', // lime-500
+];
+
+/**
+ * Utility class for merchants
+ */
+export class MerchantUtils {
+	/**
+	 * Reduce a description or alias to the words that name the merchant
+	 * Case, processor codes, store and order numbers and punctuation are
+	 * dropped.
+	 * @example "SQ *STARBUCKS #1234 SEATTLE" → "starbucks seattle"
+	 */
+	static normalize(text: string): string {
+		return text
+			.toLowerCase()
+			.trim()
+			.replace(PROCESSOR_PREFIX, '')
+			.replace(/\S*\d\S*/g, ' ')
+			.replace(/[^\p{L}&' ]+/gu, ' ')
+			.replace(/\s+/g, ' ')
+			.trim();
+	}
+
+	/**
+	 * Get the normalized name and aliases a merchant is recognized by
+	 */
+	static getKeys(merchant: Pick<Merchant, 'name' | 'aliases'>): string[] {
+		return [merchant.name, ...merchant.aliases]
+			.map(MerchantUtils.normalize)
+			.filter(Boolean);
+	}
+
+	/**
+	 * Find the merchant of an expense description
+	 * A merchant matches when its name or an alias appears as whole words;
+	 * the longest match wins, so "Starbucks Reserve" beats "Starbucks".
+	 * @returns The merchant, or null when none is recognized
+	 */
+	static match(description: string, merchants: Merchant[]): Merchant | null {
+		const text = ` ${MerchantUtils.normalize(description)} `;
+		let best: Merchant | null = null;
+		let bestLength = 0;
+
+		merchants.forEach((merchant) => {
+			MerchantUtils.getKeys(merchant).forEach((key) => {
+				if (key.length > bestLength && text.includes(` ${key} `)) {
+					best = merchant;
+					bestLength = key.length;
+				}
+			});
+		});
+
+		return best;
+	}
+
+	/**
+	 * Check whether two descriptions are of the same merchant in the directory
+	 */
+	static isSameMerchant(a: string, b: string, merchants: Merchant[]): boolean {
+		const merchant = MerchantUtils.match(a, merchants);
+		return !!merchant && MerchantUtils.match(b, merchants)?.id === merchant.id;
+	}
+
+	/**
+	 * Find a merchant already recognized by one of the given names
+	 * Each name or alias may only belong to one merchant.
+	 * @param names - Name and aliases of the merchant being saved
+	 * @param merchants - Merchants of the account
+	 * @param exceptId - Merchant being edited
+	 * @returns The clashing name and merchant, or null
+	 */
+	static findConflict(
+		names: string[],
+		merchants: Merchant[],
+		exceptId?: string
+	): { name: string; merchant: Merchant } | null {
+		for (const name of names) {
+			const key = MerchantUtils.normalize(name);
+			const merchant = merchants.find(
+				(item) =>
+					item.id !== exceptId && MerchantUtils.getKeys(item).includes(key)
+			);
+			if (key && merchant) return { name, merchant };
+		}
+		return null;
+	}
+
+	/**
+	 * Get the name shown for a description not matched to a merchant
+	 * @example "STARBUCKS #1234 SEATTLE" → "Starbucks Seattle"
+	 */
+	static getDisplayName(description: string): string {
+		const normalized = MerchantUtils.normalize(description);
+		if (!normalized) return description.trim();
+		return normalized.replace(/(^|\s)\p{L}/gu, (letter) =>
+			letter.toUpperCase()
+		);
+	}
+
+	/**
+	 * Get the color of a merchant in charts
+	 * Merchants without one get a color picked from their name, so it stays
+	 * the same between visits.
+	 */
+	static getColor(merchant: Pick<Merchant, 'name' | 'color'>): string {
+		if (merchant.color) return merchant.color;
+		const hash = [...merchant.name].reduce(
+			(sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0,
+			7
+		);
+		return MERCHANT_COLORS[hash % MERCHANT_COLORS.length];
+	}
+
+	/**
+	 * Get up to two initials shown when a merchant has no logo
+	 */
+	static getInitials(name: string): string {
+		return name
+			.split(/\s+/)
+			.filter(Boolean)
+			.slice(0, 2)
+			.map((word) => word[0].toUpperCase())
+			.join('');
+	}
+
+	/**
+	 * Get the key expenses at a merchant are grouped by
+	 */
+	static getKey(description: string, merchants: Merchant[]): string {
+		const merchant = MerchantUtils.match(description, merchants);
+		return merchant
+			? merchant.id
+			: `${UNLISTED_PREFIX}${
+					MerchantUtils.normalize(description) ||
+					description.trim().toLowerCase()
+			  }`;
+	}
+
+	/**
+	 * Get spend per merchant, highest first
+	 * Expenses at merchants not in the directory are grouped by their
+	 * normalized description.
+	 * @param expenses - Expenses to total
+	 * @param merchants - Merchants of the account
+	 */
+	static getLeaderboard(
+		expenses: MerchantExpense[],
+		merchants: Merchant[]
+	): MerchantSpend[] {
+		const spend = new Map<string, MerchantSpend>();
+
+		expenses.forEach((expense) => {
+			const merchant = MerchantUtils.match(expense.description, merchants);
+			const key = merchant
+				? merchant.id
+				: MerchantUtils.getKey(expense.description, []);
+			const date = new Date(expense.date);
+			const entry = spend.get(key);
+
+			if (entry) {
+				entry.amount += expense.amountInBaseCurrency;
+				entry.count += 1;
+				if (date > entry.lastDate) entry.lastDate = date;
+			} else {
+				spend.set(key, {
+					key,
+					merchant,
+					name: merchant
+						? merchant.name
+						: MerchantUtils.getDisplayName(expense.description),
+					amount: expense.amountInBaseCurrency,
+					count: 1,
+					lastDate: date,
+				});
+			}
+		});
+
+		return [...spend.values()].sort((a, b) => b.amount - a.amount);
+	}
+
+	/**
+	 * Get monthly spend at one merchant
+	 * @param expenses - Expenses of the account
+	 * @param merchants - Merchants of the account
+	 * @param key - Key of the merchant, as in the leaderboard
+	 * @param months - Months to include, ending with the current one
+	 */
+	static getHistory(
+		expenses: MerchantExpense[],
+		merchants: Merchant[],
+		key: string,
+		months = 12
+	): MerchantMonth[] {
+		const today = new Date();
+		const history: MerchantMonth[] = Array.from(
+			{ length: months },
+			(_, index) => {
+				const date = new Date(
+					today.getFullYear(),
+					today.getMonth() - (months - 1 - index),
+					1
+				);
+				return {
+					month: toMonthKey(date),
+					amount: 0,
+					count: 0,
+				};
+			}
+		);
+
+		expenses.forEach((expense) => {
+			if (MerchantUtils.getKey(expense.description, merchants) !== key) return;
+			const month = history.find(
+				(entry) => entry.month === toMonthKey(new Date(expense.date))
+			);
+			if (month) {
+				month.amount += expense.amountInBaseCurrency;
+				month.count += 1;
+			}
+		});
+
+		return history;
+	}
+
+	/**
+	 * Get frequent descriptions not matched to a merchant
+	 * Offered as merchants to add to the directory.
+	 * @param expenses - Expenses of the account
+	 * @param merchants - Merchants of the account
+	 * @param limit - Most suggestions to return
+	 */
+	static getSuggestions(
+		expenses: MerchantExpense[],
+		merchants: Merchant[],
+		limit = 5
+	): MerchantSuggestion[] {
+		return MerchantUtils.getLeaderboard(expenses, merchants)
+			.filter((entry) => !entry.merchant && entry.count > 1)
+			.sort((a, b) => b.count - a.count)
+			.slice(0, limit)
+			.map(({ name, count }) => ({ name, count }));
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	normalize: normalizeMerchantName,
+	match: matchMerchant,
+	getDisplayName: getMerchantDisplayName,
+	getColor: getMerchantColor,
+	getLeaderboard: getMerchantLeaderboard,
+	getHistory: getMerchantHistory,
+	getSuggestions: getMerchantSuggestions,
+} = MerchantUtils;
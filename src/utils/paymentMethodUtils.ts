@@ -0,0 +1,120 @@
+import {
+	Account,
+	Expense,
+	PaymentMethod,
+	PaymentMethodType,
+} from '../models/schemas';
+
+export interface PaymentMethodSpend {
+	// null for expenses without a payment method
+	methodId: string | null;
+	amount: number;
+	count: number;
+}
+
+// Icon used until the member picks one
+const TYPE_ICONS: Record<PaymentMethodType, string> = {
+	cash: '💵',
+	card: '💳',
+	bank: '🏦',
+	wallet: '📱',
+};
+
+const TYPE_LABELS: Record<PaymentMethodType, string> = {
+	cash: 'Cash',
+	card: 'Card',
+	bank: 'Bank account',
+	wallet: 'Digital wallet',
+};
+
+/**
+ * Utility class for payment methods
+ */
+export class PaymentMethodUtils {
+	/**
+	 * Get the icon of a payment method, falling back to one for its type
+	 */
+	static getIcon(method: Pick<PaymentMethod, 'type' | 'icon'>): string {
+		return method.icon || TYPE_ICONS[method.type];
+	}
+
+	/**
+	 * Get the name of a payment method type
+	 */
+	static getTypeLabel(type: PaymentMethodType): string {
+		return TYPE_LABELS[type];
+	}
+
+	/**
+	 * Get the name of a payment method as shown in lists
+	 * @example "Visa ••4242"
+	 */
+	static getLabel(method: Pick<PaymentMethod, 'name' | 'lastFour'>): string {
+		return method.lastFour
+			? `${method.name} ••${method.lastFour}`
+			: method.name;
+	}
+
+	/**
+	 * Get the methods members can pick for an expense
+	 * Archived methods are left out, except the one the expense already has.
+	 * @param methods - Payment methods of the account
+	 * @param selectedId - Method of the expense being edited
+	 */
+	static getSelectable(
+		methods: PaymentMethod[],
+		selectedId?: string
+	): PaymentMethod[] {
+		return methods.filter(
+			(method) => !method.archived || method.id === selectedId
+		);
+	}
+
+	/**
+	 * Check whether a member may edit or archive a payment method
+	 * The member who added it, its owner and account admins may.
+	 */
+	static canEdit(
+		method: Pick<PaymentMethod, 'createdBy' | 'ownerUid'>,
+		account: Pick<Account, 'members'>,
+		uid?: string
+	): boolean {
+		if (!uid) return false;
+		return (
+			method.createdBy.uid === uid ||
+			method.ownerUid === uid ||
+			account.members.some(
+				(member) => member.uid === uid && member.role === 'admin'
+			)
+		);
+	}
+
+	/**
+	 * Total the spend of each payment method
+	 * @param expenses - Expenses to break down
+	 * @returns Spend in the account's base currency, highest first
+	 */
+	static getSpend(
+		expenses: Pick<Expense, 'amountInBaseCurrency' | 'paymentMethodId'>[]
+	): PaymentMethodSpend[] {
+		const byMethod = new Map<string | null, PaymentMethodSpend>();
+		expenses.forEach((expense) => {
+			const methodId = expense.paymentMethodId ?? null;
+			const spend = byMethod.get(methodId) || { methodId, amount: 0, count: 0 };
+			spend.amount += expense.amountInBaseCurrency;
+			spend.count += 1;
+			byMethod.set(methodId, spend);
+		});
+		return Array.from(byMethod.values()).sort((a, b) => b.amount - a.amount);
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	getIcon: getPaymentMethodIcon,
+	getTypeLabel: getPaymentMethodTypeLabel,
+	getLabel: getPaymentMethodLabel,
+	getSelectable: getSelectablePaymentMethods,
+	canEdit: canEditPaymentMethod,
+	getSpend: getPaymentMethodSpend,
+} = PaymentMethodUtils;
@@ -0,0 +1,310 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { QuickEntryContext, QuickEntryParser } from './quickEntryParser';
+import { Expense, Merchant, PaymentMethod } from '../models/schemas';
+
+// A Wednesday afternoon, in the local time zone
+const today = new Date(2024, 5, 12, 15);
+
+// Expense dates are UTC days
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const member = { uid: 'ana', displayName: 'Ana' };
+
+const paymentMethod = (
+	overrides: Partial<PaymentMethod> = {}
+): PaymentMethod => ({
+	id: 'amex',
+	accountId: 'account',
+	name: 'Amex Gold',
+	type: 'card',
+	lastFour: '1234',
+	createdAt: new Date(2024, 0, 1),
+	createdBy: member,
+	...overrides,
+});
+
+const merchant = (overrides: Partial<Merchant> = {}): Merchant => ({
+	id: 'starbucks',
+	accountId: 'account',
+	name: 'Starbucks',
+	aliases: ['SBUX'],
+	defaultCategory: 'Food',
+	createdAt: new Date(2024, 0, 1),
+	createdBy: member,
+	...overrides,
+});
+
+// Only what categories are picked from
+const expense = (description: string, category: string) =>
+	({ description, category } as Expense);
+
+const context = (
+	overrides: Partial<QuickEntryContext> = {}
+): QuickEntryContext => ({
+	baseCurrency: 'USD',
+	// One dollar buys 0.5 euros
+	exchangeRates: { EUR: 0.5 },
+	categories: ['Food', 'Transportation', 'Entertainment', 'Miscellaneous'],
+	categoryRules: [
+		{
+			id: 'long-rides',
+			name: 'Long rides',
+			priority: 0,
+			enabled: true,
+			conditions: [
+				{ field: 'description', operator: 'contains', value: 'taxi' },
+				{ field: 'amount', operator: '>', value: '50' },
+			],
+			category: 'Transportation',
+			tags: ['travel'],
+		},
+	],
+	paymentMethods: [
+		paymentMethod(),
+		paymentMethod({ id: 'old', name: 'Old Visa', archived: true }),
+	],
+	merchants: [merchant()],
+	expenses: [],
+	defaultCategory: 'Miscellaneous',
+	today,
+	...overrides,
+});
+
+describe('QuickEntryParser.parseAmount', () => {
+	it('reads a final . or , with one or two digits as the decimal point', () => {
+		expect(QuickEntryParser.parseAmount('12.50')).toBe(12.5);
+		expect(QuickEntryParser.parseAmount('12,5')).toBe(12.5);
+		expect(QuickEntryParser.parseAmount('1,234.56')).toBe(1234.56);
+		expect(QuickEntryParser.parseAmount('1.234')).toBe(1234);
+		expect(QuickEntryParser.parseAmount('lunch')).toBeNull();
+	});
+});
+
+describe('QuickEntryParser.parseCurrency', () => {
+	it('reads symbols and codes', () => {
+		expect(QuickEntryParser.parseCurrency('€', 'USD')).toBe('EUR');
+		expect(QuickEntryParser.parseCurrency('gbp', 'USD')).toBe('GBP');
+		expect(QuickEntryParser.parseCurrency('euros', 'USD')).toBeNull();
+		expect(QuickEntryParser.parseCurrency('', 'USD')).toBeNull();
+	});
+
+	it('takes a bare $ as the account currency when that is a dollar', () => {
+		expect(QuickEntryParser.parseCurrency('$', 'CAD')).toBe('CAD');
+		expect(QuickEntryParser.parseCurrency('$', 'EUR')).toBe('USD');
+	});
+});
+
+describe('QuickEntryParser.findDate', () => {
+	const dateOf = (text: string) => QuickEntryParser.findDate(text, today).date;
+
+	it('reads relative dates', () => {
+		expect(dateOf('lunch today')).toEqual(day('2024-06-12'));
+		expect(dateOf('lunch yesterday')).toEqual(day('2024-06-11'));
+		expect(dateOf('lunch three days ago')).toEqual(day('2024-06-09'));
+		expect(dateOf('lunch 2 weeks ago')).toEqual(day('2024-05-29'));
+		expect(dateOf('lunch last friday')).toEqual(day('2024-06-07'));
+	});
+
+	it('reads calendar dates, in the past year', () => {
+		expect(dateOf('lunch on mar 5th')).toEqual(day('2024-03-05'));
+		expect(dateOf('lunch 25 December')).toEqual(day('2023-12-25'));
+		expect(dateOf('lunch 2024-06-01')).toEqual(day('2024-06-01'));
+	});
+
+	it('skips future and impossible dates', () => {
+		expect(dateOf('concert 2024-07-01')).toBeNull();
+		expect(dateOf('lunch feb 30')).toBeNull();
+	});
+
+	it('counts months back to the end of shorter months', () => {
+		expect(
+			QuickEntryParser.findDate('rent 1 month ago', day('2024-03-31')).date
+		).toEqual(day('2024-02-29'));
+	});
+
+	it('returns the entry without the date', () => {
+		expect(QuickEntryParser.findDate('taxi yesterday home', today).rest).toBe(
+			'taxi   home'
+		);
+	});
+});
+
+describe('QuickEntryParser.findPaymentMethod', () => {
+	const methods = context().paymentMethods;
+
+	it('matches by last four digits, name, word or type', () => {
+		['1234', 'amex gold', 'gold', 'am', 'card'].forEach((name) =>
+			expect(QuickEntryParser.findPaymentMethod(name, methods)?.id).toBe('amex')
+		);
+	});
+
+	it('skips archived methods', () => {
+		expect(QuickEntryParser.findPaymentMethod('visa', methods)).toBeNull();
+	});
+});
+
+describe('QuickEntryParser.parse', () => {
+	it('reads every part of an entry', () => {
+		expect(
+			QuickEntryParser.parse(
+				'€40 taxi to the airport 3 days ago card:amex #work',
+				context()
+			)
+		).toEqual({
+			amount: 40,
+			currency: 'EUR',
+			exchangeRate: 2,
+			date: day('2024-06-09'),
+			description: 'taxi to the airport',
+			tags: ['work', 'travel'],
+			paymentMethod: context().paymentMethods[0],
+			category: 'Transportation',
+			categorySource: 'the rule "Long rides"',
+		});
+	});
+
+	it('reads currency codes next to the amount', () => {
+		['40 EUR taxi', 'EUR 40 taxi', '40eur taxi'].forEach((text) =>
+			expect(QuickEntryParser.parse(text, context())).toMatchObject({
+				amount: 40,
+				currency: 'EUR',
+				description: 'taxi',
+			})
+		);
+	});
+
+	it('leaves the rate unknown until the currency has one', () => {
+		const entry = QuickEntryParser.parse(
+			'€40 taxi',
+			context({ exchangeRates: undefined })
+		);
+
+		expect(entry.exchangeRate).toBeNull();
+		// Rules on the amount can't match without it
+		expect(entry.category).toBe('Miscellaneous');
+		expect(
+			QuickEntryParser.parse('¥4000 taxi', context()).exchangeRate
+		).toBeNull();
+	});
+
+	it('leaves amount rules unmatched until the entry has an amount', () => {
+		const snacks = {
+			id: 'snacks',
+			name: 'Snacks',
+			priority: 1,
+			enabled: true,
+			conditions: [
+				{ field: 'amount' as const, operator: '<' as const, value: '5' },
+			],
+			category: 'Food',
+		};
+		const entry = QuickEntryParser.parse(
+			'chips',
+			context({ categoryRules: [snacks] })
+		);
+
+		expect(entry.amount).toBeNull();
+		expect(entry.category).toBe('Miscellaneous');
+	});
+
+	it('uses the base currency and today by default', () => {
+		expect(QuickEntryParser.parse('12.50 for lunch', context())).toMatchObject({
+			amount: 12.5,
+			currency: 'USD',
+			exchangeRate: 1,
+			date: day('2024-06-12'),
+			description: 'lunch',
+		});
+	});
+
+	it('reports payment methods it does not know', () => {
+		expect(
+			QuickEntryParser.parse('12 lunch card:visa', context())
+		).toMatchObject({ paymentMethod: null, unknownPaymentMethod: 'visa' });
+	});
+
+	it('files the entry with its merchant or similar expenses', () => {
+		expect(QuickEntryParser.parse('5 SBUX latte', context())).toMatchObject({
+			category: 'Food',
+			categorySource: 'the merchant Starbucks',
+		});
+
+		const expenses = [
+			expense('Cinema', 'Entertainment'),
+			expense('cinema', 'Entertainment'),
+			expense('Cinema', 'Food'),
+			expense('Cinema', 'Removed category'),
+		];
+		expect(
+			QuickEntryParser.parse('15 cinema', context({ expenses }))
+		).toMatchObject({
+			category: 'Entertainment',
+			categorySource: 'earlier similar expenses',
+		});
+	});
+});
+
+describe('QuickEntryParser dates away from UTC', () => {
+	const timeZone = process.env.TZ;
+
+	beforeAll(() => {
+		process.env.TZ = 'Asia/Tokyo';
+	});
+
+	afterAll(() => {
+		process.env.TZ = timeZone;
+	});
+
+	it('stores the named day as a UTC day', () => {
+		expect(new Date(2026, 9, 10).toISOString()).toBe(
+			'2026-10-09T15:00:00.000Z'
+		);
+		expect(
+			QuickEntryParser.parse(
+				'12 lunch 2026-10-10',
+				context({ today: new Date('2026-10-12T03:00:00Z') })
+			).date
+		).toEqual(day('2026-10-10'));
+	});
+
+	it('defaults to the local day of today', () => {
+		// Early on the 12th in Tokyo is still the 11th in UTC
+		expect(
+			QuickEntryParser.parse(
+				'12 lunch',
+				context({ today: new Date('2026-10-11T16:00:00Z') })
+			).date
+		).toEqual(day('2026-10-12'));
+	});
+
+	it('counts relative dates from the local day', () => {
+		expect(
+			QuickEntryParser.parse(
+				'12 lunch yesterday',
+				context({ today: new Date('2026-10-11T16:00:00Z') })
+			).date
+		).toEqual(day('2026-10-11'));
+	});
+});
+
+describe('QuickEntryParser dates west of UTC', () => {
+	const timeZone = process.env.TZ;
+
+	beforeAll(() => {
+		process.env.TZ = 'America/New_York';
+	});
+
+	afterAll(() => {
+		process.env.TZ = timeZone;
+	});
+
+	it('defaults to the local day of today', () => {
+		// Late on the 11th in New York is already the 12th in UTC
+		expect(
+			QuickEntryParser.parse(
+				'12 lunch',
+				context({ today: new Date('2026-10-12T02:00:00Z') })
+			).date
+		).toEqual(day('2026-10-11'));
+	});
+});
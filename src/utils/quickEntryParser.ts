@@ -0,0 +1,462 @@
+import {
+	CategoryRule,
+	Expense,
+	Merchant,
+	PaymentMethod,
+} from '../models/schemas';
+import { CategoryRules } from '../../shared/categoryRules';
+import { ExpenseDuplicates } from '../../shared/duplicateExpenses';
+import { MerchantUtils } from './merchantUtils';
+import { ReceiptParser } from './receiptParser';
+import { TagUtils } from './tagUtils';
+
+// What an entry is read against
+export interface QuickEntryContext {
+	baseCurrency: string;
+	// Rates per unit of the base currency, as the exchange rates API returns
+	exchangeRates?: Record<string, number>;
+	categories: string[];
+	categoryRules?: CategoryRule[] | null;
+	paymentMethods: PaymentMethod[];
+	merchants: Merchant[];
+	// Earlier expenses of the account, to file the entry like similar ones
+	expenses: Expense[];
+	defaultCategory: string;
+	today?: Date;
+}
+
+// An expense read from a single line, e.g. "€40 taxi 3 days ago card:amex"
+export interface QuickEntry {
+	// null until the entry has an amount
+	amount: number | null;
+	currency: string;
+	// Multiplier to the base currency; null while the rate of the entry's
+	// currency isn't known, e.g. before the rates have loaded
+	exchangeRate: number | null;
+	date: Date;
+	description: string;
+	tags: string[];
+	paymentMethod: PaymentMethod | null;
+	// Payment method named in the entry that matches none of the account's
+	unknownPaymentMethod?: string;
+	category: string;
+	// What picked the category, e.g. 'the rule "Rides"'; null for the default
+	categorySource: string | null;
+}
+
+// Amounts with an optional currency symbol or code stuck to them, e.g. 12.50,
+// €40, 1,234.56 or 40eur
+const AMOUNT_TOKEN =
+	/^([^\d\s.,]*)(\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)([^\d\s.,]*)$/;
+
+// card:amex, with:visa, via:paypal
+const PAYMENT_METHOD_TOKEN = /^(?:card|paid|pay|via|with|using):(.+)$/i;
+
+// Words left over around the removed date or amount, e.g. "taxi for"
+const DANGLING_WORDS = /^(?:for|on|at|of)\s+|\s+(?:for|on|at|of)$/gi;
+
+const NUMBER_WORDS: Record<string, number> = {
+	a: 1,
+	an: 1,
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+};
+
+const WEEKDAYS = [
+	'sunday',
+	'monday',
+	'tuesday',
+	'wednesday',
+	'thursday',
+	'friday',
+	'saturday',
+];
+
+const MONTHS = [
+	'january',
+	'february',
+	'march',
+	'april',
+	'may',
+	'june',
+	'july',
+	'august',
+	'september',
+	'october',
+	'november',
+	'december',
+];
+
+// Full month names or their first three letters, e.g. "mar" or "march"
+const MONTH_NAME = `(${MONTHS.map(
+	(month) => `${month.slice(0, 3)}(?:${month.slice(3)})?`
+).join('|')})\\.?`;
+
+const toMonth = (name: string) =>
+	MONTHS.findIndex((month) => month.startsWith(name.slice(0, 3).toLowerCase()));
+
+// Expense dates are UTC days, the way date inputs store them and search
+// compares them
+const utcDay = (year: number, month: number, day: number) =>
+	new Date(Date.UTC(year, month, day));
+
+// The local calendar day of a moment, as a UTC day; date inputs store the
+// day the user sees the same way
+const toUtcDay = (date: Date) =>
+	utcDay(date.getFullYear(), date.getMonth(), date.getDate());
+
+// A real calendar date, or null for things like feb 30
+const toCalendarDate = (
+	year: number,
+	month: number,
+	day: number
+): Date | null => {
+	const date = utcDay(year, month, day);
+	return date.getUTCMonth() === month && date.getUTCDate() === day
+		? date
+		: null;
+};
+
+const daysBefore = (date: Date, days: number) =>
+	utcDay(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - days);
+
+// The same day some months before, or the month's last day when it is shorter
+const monthsBefore = (date: Date, months: number) => {
+	const month = date.getUTCMonth() - months;
+	const lastDay = utcDay(date.getUTCFullYear(), month + 1, 0).getUTCDate();
+	return utcDay(
+		date.getUTCFullYear(),
+		month,
+		Math.min(date.getUTCDate(), lastDay)
+	);
+};
+
+// A date in the current year, or last year when it would be in the future
+const inLastYear = (month: number, day: number, today: Date): Date | null => {
+	const date = toCalendarDate(today.getUTCFullYear(), month, day);
+	return date && date > today
+		? toCalendarDate(today.getUTCFullYear() - 1, month, day)
+		: date;
+};
+
+// Date phrases, with the date each one means
+const DATE_PATTERNS: [
+	RegExp,
+	(match: RegExpMatchArray, today: Date) => Date | null
+][] = [
+	[/\btoday\b/i, (_, today) => today],
+	[/\byesterday\b/i, (_, today) => daysBefore(today, 1)],
+	[
+		new RegExp(
+			`\\b(\\d+|${Object.keys(NUMBER_WORDS).join(
+				'|'
+			)})\\s+(day|week|month)s?\\s+ago\\b`,
+			'i'
+		),
+		(match, today) => {
+			const count =
+				NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10);
+			const unit = match[2].toLowerCase();
+			if (unit === 'day') return daysBefore(today, count);
+			if (unit === 'week') return daysBefore(today, count * 7);
+			return monthsBefore(today, count);
+		},
+	],
+	[
+		new RegExp(`\\b(?:(?:last|on)\\s+)?(${WEEKDAYS.join('|')})\\b`, 'i'),
+		// The last such day before today
+		(match, today) =>
+			daysBefore(
+				today,
+				(today.getUTCDay() - WEEKDAYS.indexOf(match[1].toLowerCase()) + 7) %
+					7 || 7
+			),
+	],
+	[
+		/\b(?:on\s+)?(\d{4})-(\d{2})-(\d{2})\b/,
+		(match) =>
+			toCalendarDate(
+				parseInt(match[1], 10),
+				parseInt(match[2], 10) - 1,
+				parseInt(match[3], 10)
+			),
+	],
+	[
+		new RegExp(
+			`\\b(?:on\\s+)?${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`,
+			'i'
+		),
+		(match, today) =>
+			inLastYear(toMonth(match[1]), parseInt(match[2], 10), today),
+	],
+	[
+		new RegExp(
+			`\\b(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME}\\b`,
+			'i'
+		),
+		(match, today) =>
+			inLastYear(toMonth(match[2]), parseInt(match[1], 10), today),
+	],
+];
+
+/**
+ * Utility class for reading an expense typed as one line, like
+ * "12.50 lunch at Subway yesterday #work"
+ */
+export class QuickEntryParser {
+	/**
+	 * Parse an amount as typed
+	 * A . or , followed by one or two digits at the end is the decimal point;
+	 * other separators group thousands.
+	 * @returns The amount, or null if it isn't one
+	 */
+	static parseAmount(text: string): number | null {
+		const match = text.match(/^(.*?)(?:[.,](\d{1,2}))?$/);
+		if (!match) return null;
+
+		const whole = match[1].replace(/[.,]/g, '');
+		if (!/^\d+$/.test(whole)) return null;
+		return parseFloat(`${whole}.${match[2] || '0'}`);
+	}
+
+	/**
+	 * Find the currency a symbol or code stands for
+	 * A bare $ is the account's own currency when that is a dollar.
+	 * @returns The currency code, or null if it isn't one
+	 */
+	static parseCurrency(text: string, baseCurrency: string): string | null {
+		if (!text) return null;
+		if (text === '$' && baseCurrency.endsWith('D')) return baseCurrency;
+
+		const found = ReceiptParser.findCurrency([text.toUpperCase()]);
+		// Longer text must be the code itself, not a word containing a symbol
+		return found && (text.length <= 3 || found.value === text.toUpperCase())
+			? found.value
+			: null;
+	}
+
+	/**
+	 * Find the date an entry names, and the entry without it
+	 * Dates are UTC days, counted from the user's local day today.
+	 * @returns The date, or null when the entry names none
+	 */
+	static findDate(
+		text: string,
+		today: Date = new Date()
+	): { date: Date | null; rest: string } {
+		const day = toUtcDay(today);
+		for (const [pattern, toDate] of DATE_PATTERNS) {
+			const match = text.match(pattern);
+			const date = match ? toDate(match, day) : null;
+			if (match && date && date <= day) {
+				return { date, rest: text.replace(match[0], ' ') };
+			}
+		}
+		return { date: null, rest: text };
+	}
+
+	/**
+	 * Find the payment method an entry names, by its name, type or last four
+	 * digits
+	 */
+	static findPaymentMethod(
+		name: string,
+		methods: PaymentMethod[]
+	): PaymentMethod | null {
+		const wanted = name.toLowerCase();
+		const selectable = methods.filter((method) => !method.archived);
+		return (
+			selectable.find(
+				(method) =>
+					method.lastFour === wanted || method.name.toLowerCase() === wanted
+			) ??
+			selectable.find((method) =>
+				method.name.toLowerCase().split(/\s+/).includes(wanted)
+			) ??
+			selectable.find(
+				(method) =>
+					method.name.toLowerCase().startsWith(wanted) || method.type === wanted
+			) ??
+			null
+		);
+	}
+
+	/**
+	 * Pick the category of an entry
+	 * The account's rules come first, then the merchant's default category,
+	 * then the category most used for similar earlier expenses.
+	 */
+	static findCategory(
+		entry: Pick<QuickEntry, 'description' | 'paymentMethod'> & {
+			// null when the amount or exchange rate isn't known
+			amountInBaseCurrency: number | null;
+		},
+		context: QuickEntryContext
+	): { category: string; source: string | null; tags: string[] } {
+		const result = CategoryRules.apply(context.categoryRules, {
+			description: entry.description,
+			// Amount conditions match nothing until the amount is known
+			amountInBaseCurrency: entry.amountInBaseCurrency ?? NaN,
+			paymentMethodId: entry.paymentMethod?.id,
+		});
+		if (result) {
+			return {
+				category: result.category,
+				source: `the rule "${result.rule.name}"`,
+				tags: result.tags,
+			};
+		}
+
+		const merchant = MerchantUtils.match(entry.description, context.merchants);
+		if (merchant?.defaultCategory) {
+			return {
+				category: merchant.defaultCategory,
+				source: `the merchant ${merchant.name}`,
+				tags: [],
+			};
+		}
+
+		// Expenses at the same merchant, or whose words all appear in the entry
+		if (entry.description) {
+			const key = MerchantUtils.getKey(entry.description, context.merchants);
+			const counts = new Map<string, number>();
+			context.expenses
+				.filter(
+					(expense) =>
+						context.categories.includes(expense.category) &&
+						(merchant
+							? MerchantUtils.getKey(expense.description, context.merchants) ===
+							  key
+							: ExpenseDuplicates.similarity(
+									expense.description,
+									entry.description
+							  ) === 1)
+				)
+				.forEach((expense) =>
+					counts.set(expense.category, (counts.get(expense.category) || 0) + 1)
+				);
+			// Map keeps insertion order, so ties go to the first category seen
+			const [category] = [...counts.entries()].reduce<
+				[string, number] | [null, 0]
+			>((best, current) => (current[1] > best[1] ? current : best), [null, 0]);
+			if (category) {
+				return { category, source: 'earlier similar expenses', tags: [] };
+			}
+		}
+
+		return { category: context.defaultCategory, source: null, tags: [] };
+	}
+
+	/**
+	 * Read an expense out of one line
+	 * Words starting with # are tags, card:name picks the payment method, the
+	 * first number is the amount and what's left is the description.
+	 * @param text - Entry as typed
+	 * @param context - Account the expense is for
+	 */
+	static parse(text: string, context: QuickEntryContext): QuickEntry {
+		const { date, rest } = QuickEntryParser.findDate(text, context.today);
+
+		let amount: number | null = null;
+		let currency: string | null = null;
+		let unknownPaymentMethod: string | undefined;
+		let paymentMethod: PaymentMethod | null = null;
+		const tags: string[] = [];
+		const words: string[] = [];
+
+		const tokens = rest.split(/\s+/).filter(Boolean);
+		// Position of the amount among the tokens
+		let amountIndex = -1;
+		for (const [index, token] of tokens.entries()) {
+			if (token.startsWith('#') && token.length > 1) {
+				tags.push(token.slice(1));
+				continue;
+			}
+
+			const methodMatch = token.match(PAYMENT_METHOD_TOKEN);
+			if (methodMatch) {
+				paymentMethod = QuickEntryParser.findPaymentMethod(
+					methodMatch[1],
+					context.paymentMethods
+				);
+				unknownPaymentMethod = paymentMethod ? undefined : methodMatch[1];
+				continue;
+			}
+
+			const amountMatch = amount === null ? token.match(AMOUNT_TOKEN) : null;
+			if (amountMatch) {
+				const affix = amountMatch[1] || amountMatch[3];
+				const affixCurrency = QuickEntryParser.parseCurrency(
+					affix,
+					context.baseCurrency
+				);
+				if (!affix || affixCurrency) {
+					amount = QuickEntryParser.parseAmount(amountMatch[2]);
+					currency = affixCurrency ?? currency;
+					amountIndex = index;
+					continue;
+				}
+			}
+
+			// A code next to the amount, as in "40 EUR" or "EUR 40"
+			const isNextToAmount =
+				amount === null
+					? /^[\d.,]+$/.test(tokens[index + 1] || '')
+					: currency === null && index === amountIndex + 1;
+			const code =
+				isNextToAmount && /^[a-z]{3}$/i.test(token)
+					? QuickEntryParser.parseCurrency(token, context.baseCurrency)
+					: null;
+			if (code) {
+				currency = code;
+				continue;
+			}
+
+			words.push(token);
+		}
+
+		const description = words.join(' ').replace(DANGLING_WORDS, '').trim();
+		const entryCurrency = currency ?? context.baseCurrency;
+		const rate = context.exchangeRates?.[entryCurrency];
+		const exchangeRate =
+			entryCurrency === context.baseCurrency ? 1 : rate ? 1 / rate : null;
+
+		const {
+			category,
+			source,
+			tags: ruleTags,
+		} = QuickEntryParser.findCategory(
+			{
+				description,
+				paymentMethod,
+				amountInBaseCurrency:
+					amount === null || exchangeRate === null
+						? null
+						: amount * exchangeRate,
+			},
+			context
+		);
+
+		return {
+			amount,
+			currency: entryCurrency,
+			exchangeRate,
+			date: date ?? toUtcDay(context.today ?? new Date()),
+			description,
+			tags: TagUtils.normalize([...tags, ...ruleTags]),
+			paymentMethod,
+			...(unknownPaymentMethod ? { unknownPaymentMethod } : {}),
+			category,
+			categorySource: source,
+		};
+	}
+}
+
+// Convenience exports for direct use
+export const { parse: parseQuickEntry, parseAmount: parseQuickEntryAmount } =
+	QuickEntryParser;
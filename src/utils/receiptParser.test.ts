@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { ReceiptParser } from './receiptParser';
+
+const RECEIPT = `CORNER MARKET
+12 High Street
+Tel 555-0134
+Date: 2024-03-15 14:32
+Apples            3.20
+Coffee beans     12.50
+Subtotal         15.70
+VAT 20%           3.14
+TOTAL            18.84
+Card            €18.84
+Thank you!`;
+
+describe('ReceiptParser.parseAmount', () => {
+	it('reads either separator as the decimal point', () => {
+		expect(ReceiptParser.parseAmount('12.50')).toBe(12.5);
+		expect(ReceiptParser.parseAmount('12,50')).toBe(12.5);
+		expect(ReceiptParser.parseAmount('1,234.56')).toBe(1234.56);
+		expect(ReceiptParser.parseAmount('1.234,56')).toBe(1234.56);
+	});
+
+	it('rejects text that is not an amount', () => {
+		expect(ReceiptParser.parseAmount('12')).toBeNull();
+		expect(ReceiptParser.parseAmount('1a.50')).toBeNull();
+	});
+});
+
+describe('ReceiptParser.findAmounts', () => {
+	it('skips percentages and plain numbers', () => {
+		expect(ReceiptParser.findAmounts('VAT 20% 3.14 of 15.70')).toEqual([
+			3.14, 15.7,
+		]);
+		expect(ReceiptParser.findAmounts('Table 12')).toEqual([]);
+	});
+});
+
+describe('ReceiptParser.findTotal', () => {
+	it('prefers the strongest keyword and skips subtotals and tax', () => {
+		expect(
+			ReceiptParser.findTotal([
+				'Subtotal 15.70',
+				'Tax total 3.14',
+				'Total 18.84',
+				'Amount due 20.00',
+			])
+		).toEqual({ value: 20, confidence: 0.95, source: 'Amount due 20.00' });
+	});
+
+	it('takes the last total line', () => {
+		expect(
+			ReceiptParser.findTotal(['Total 10.00', 'Tip 2.00', 'Total 12.00'])?.value
+		).toBe(12);
+	});
+
+	it('falls back to the largest amount', () => {
+		expect(ReceiptParser.findTotal(['Bread 2.50', 'Cheese 7.25'])).toEqual({
+			value: 7.25,
+			confidence: 0.4,
+			source: 'Cheese 7.25',
+		});
+		expect(ReceiptParser.findTotal(['No prices here'])).toBeUndefined();
+	});
+});
+
+describe('ReceiptParser.findTax', () => {
+	it('adds up several tax lines', () => {
+		expect(
+			ReceiptParser.findTax(['GST 5.00', 'PST 7.00', 'Total incl. tax 112.00'])
+		).toEqual({ value: 12, confidence: 0.75, source: 'GST 5.00\nPST 7.00' });
+	});
+});
+
+describe('ReceiptParser.findDate', () => {
+	it('reads year-first and written-out dates', () => {
+		expect(ReceiptParser.findDate(['2024-03-15'])?.value).toEqual(
+			new Date(2024, 2, 15)
+		);
+		expect(ReceiptParser.findDate(['15 Mar 2024'])?.value).toEqual(
+			new Date(2024, 2, 15)
+		);
+		expect(ReceiptParser.findDate(['March 15, 24'])?.value).toEqual(
+			new Date(2024, 2, 15)
+		);
+	});
+
+	it('reads the month first unless that is not a date', () => {
+		expect(ReceiptParser.findDate(['03/04/2024'])).toMatchObject({
+			value: new Date(2024, 2, 4),
+			confidence: 0.6,
+		});
+		expect(ReceiptParser.findDate(['15/03/2024'])).toMatchObject({
+			value: new Date(2024, 2, 15),
+			confidence: 0.85,
+		});
+	});
+
+	it('skips dates that do not exist', () => {
+		expect(
+			ReceiptParser.findDate(['2024-02-31', '31/02/2024'])
+		).toBeUndefined();
+	});
+});
+
+describe('ReceiptParser.findMerchant', () => {
+	it('takes the first line that looks like a name', () => {
+		expect(
+			ReceiptParser.findMerchant(['RECEIPT #42', '  Blue   Door Cafe '])
+		).toMatchObject({ value: 'Blue Door Cafe', confidence: 0.5 });
+		expect(ReceiptParser.findMerchant(['1234 5678', 'www.shop.com'])).toBe(
+			undefined
+		);
+	});
+});
+
+describe('ReceiptParser.findCurrency', () => {
+	it('prefers codes to symbols', () => {
+		expect(ReceiptParser.findCurrency(['$12.00', 'Paid in CAD'])).toMatchObject(
+			{ value: 'CAD', confidence: 0.95 }
+		);
+		expect(ReceiptParser.findCurrency(['A$12.00'])).toMatchObject({
+			value: 'AUD',
+			confidence: 0.9,
+		});
+		expect(ReceiptParser.findCurrency(['$12.00'])).toMatchObject({
+			value: 'USD',
+			confidence: 0.5,
+		});
+	});
+});
+
+describe('ReceiptParser.parse', () => {
+	it('reads a whole receipt', () => {
+		expect(ReceiptParser.parse(RECEIPT)).toEqual({
+			total: {
+				value: 18.84,
+				confidence: 0.85,
+				source: 'TOTAL            18.84',
+			},
+			tax: { value: 3.14, confidence: 0.9, source: 'VAT 20%           3.14' },
+			date: {
+				value: new Date(2024, 2, 15),
+				confidence: 0.95,
+				source: 'Date: 2024-03-15 14:32',
+			},
+			merchant: {
+				value: 'CORNER MARKET',
+				confidence: 0.7,
+				source: 'CORNER MARKET',
+			},
+			currency: {
+				value: 'EUR',
+				confidence: 0.85,
+				source: 'Card            €18.84',
+			},
+		});
+	});
+
+	it('leaves out fields that were not found', () => {
+		expect(ReceiptParser.parse('\n\n')).toEqual({});
+	});
+});
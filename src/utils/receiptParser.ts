@@ -0,0 +1,300 @@
+// A value read from a receipt, with how sure the parser is of it
+export interface ExtractedField<T> {
+	value: T;
+	// From 0 to 1
+	confidence: number;
+	// Receipt line the value was read from
+	source: string;
+}
+
+export interface ReceiptExtraction {
+	total?: ExtractedField<number>;
+	tax?: ExtractedField<number>;
+	date?: ExtractedField<Date>;
+	merchant?: ExtractedField<string>;
+	currency?: ExtractedField<string>;
+}
+
+export type ReceiptField = keyof ReceiptExtraction;
+
+// Amounts like 1,234.56, 1.234,56, 12.50 or 12,50; percentages are skipped
+const AMOUNT_PATTERN =
+	/(?<![\d.,])(\d{1,3}(?:[.,]\d{3})+[.,]\d{2}|\d+[.,]\d{2})(?![\d%])/g;
+
+// Keywords for the total, strongest first
+const TOTAL_KEYWORDS: [RegExp, number][] = [
+	[
+		/\b(grand\s+total|total\s+due|amount\s+due|balance\s+due|total\s+paid)\b/i,
+		0.95,
+	],
+	[/\b(total|gesamt|summe|totale)\b/i, 0.85],
+	[/\b(amount|to\s+pay|paid)\b/i, 0.6],
+];
+
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+
+const TAX_PATTERN = /\b(tax|vat|gst|hst|pst|mwst|tva|iva)\b/i;
+
+// Tax lines, but not totals that mention tax like "Total incl. VAT"
+const isTaxLine = (line: string) =>
+	TAX_PATTERN.test(line) &&
+	(!/total/i.test(line) || /total\s+tax|tax\s+total/i.test(line));
+
+const CURRENCY_CODES = [
+	'USD',
+	'EUR',
+	'GBP',
+	'JPY',
+	'CAD',
+	'AUD',
+	'CHF',
+	'CNY',
+	'INR',
+	'NZD',
+	'SEK',
+	'NOK',
+	'DKK',
+	'MXN',
+];
+
+// Symbols, most specific first; a bare $ could be any dollar
+const CURRENCY_SYMBOLS: [string, string, number][] = [
+	['CA$', 'CAD', 0.9],
+	['C$', 'CAD', 0.85],
+	['A$', 'AUD', 0.9],
+	['NZ$', 'NZD', 0.9],
+	['US$', 'USD', 0.9],
+	['€', 'EUR', 0.85],
+	['£', 'GBP', 0.85],
+	['₹', 'INR', 0.85],
+	['¥', 'JPY', 0.6],
+	['$', 'USD', 0.5],
+];
+
+const MONTHS = [
+	'jan',
+	'feb',
+	'mar',
+	'apr',
+	'may',
+	'jun',
+	'jul',
+	'aug',
+	'sep',
+	'oct',
+	'nov',
+	'dec',
+];
+
+// Lines that are never the merchant name
+const NON_MERCHANT_PATTERN =
+	/\b(receipt|invoice|tel|phone|fax|www\.|http|date|time|order|table|cashier|server|welcome|thank)\b|@/i;
+
+const toYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+// A real calendar date, or null for things like 31/02
+const makeDate = (year: number, month: number, day: number): Date | null => {
+	const date = new Date(toYear(year), month - 1, day);
+	return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+/**
+ * Utility class for reading expense details out of recognized receipt text
+ */
+export class ReceiptParser {
+	/**
+	 * Parse an amount as printed on a receipt
+	 * The last . or , followed by two digits is taken as the decimal point.
+	 * @param text - Printed amount, e.g. "1.234,56"
+	 * @returns The amount, or null if it isn't one
+	 */
+	static parseAmount(text: string): number | null {
+		const match = text.trim().match(/^(.*)[.,](\d{2})$/);
+		if (!match) return null;
+
+		const whole = match[1].replace(/[.,\s]/g, '');
+		if (!/^\d+$/.test(whole)) return null;
+		return parseFloat(`${whole}.${match[2]}`);
+	}
+
+	/**
+	 * Find the amounts on a line
+	 * @param line - Receipt line
+	 * @returns Amounts in the order they appear
+	 */
+	static findAmounts(line: string): number[] {
+		return Array.from(line.matchAll(AMOUNT_PATTERN))
+			.map((match) => ReceiptParser.parseAmount(match[1]))
+			.filter((amount): amount is number => amount !== null);
+	}
+
+	/**
+	 * Find the total paid
+	 * Keyword lines win, the last one for equal keywords since totals come
+	 * after subtotals; otherwise the largest amount on the receipt is taken.
+	 */
+	static findTotal(lines: string[]): ExtractedField<number> | undefined {
+		for (const [pattern, confidence] of TOTAL_KEYWORDS) {
+			const candidates = lines.filter(
+				(line) =>
+					pattern.test(line) &&
+					!SUBTOTAL_PATTERN.test(line) &&
+					!isTaxLine(line) &&
+					ReceiptParser.findAmounts(line).length > 0
+			);
+			const line = candidates[candidates.length - 1];
+			if (line) {
+				const amounts = ReceiptParser.findAmounts(line);
+				return {
+					value: amounts[amounts.length - 1],
+					confidence,
+					source: line,
+				};
+			}
+		}
+
+		let best: ExtractedField<number> | undefined;
+		lines.forEach((line) => {
+			ReceiptParser.findAmounts(line).forEach((amount) => {
+				if (!best || amount > best.value) {
+					best = { value: amount, confidence: 0.4, source: line };
+				}
+			});
+		});
+		return best;
+	}
+
+	/**
+	 * Find the tax charged; several tax lines are added up
+	 */
+	static findTax(lines: string[]): ExtractedField<number> | undefined {
+		const taxLines = lines.filter(
+			(line) => isTaxLine(line) && ReceiptParser.findAmounts(line).length > 0
+		);
+		if (taxLines.length === 0) return undefined;
+
+		const value = taxLines.reduce((sum, line) => {
+			const amounts = ReceiptParser.findAmounts(line);
+			return sum + amounts[amounts.length - 1];
+		}, 0);
+		return {
+			value: Math.round(value * 100) / 100,
+			confidence: taxLines.length === 1 ? 0.9 : 0.75,
+			source: taxLines.join('\n'),
+		};
+	}
+
+	/**
+	 * Find the purchase date
+	 * Year-first and written-out dates are unambiguous; for day/month dates
+	 * the month comes first unless that can't be a date.
+	 */
+	static findDate(lines: string[]): ExtractedField<Date> | undefined {
+		for (const line of lines) {
+			let match = line.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+			if (match) {
+				const date = makeDate(+match[1], +match[2], +match[3]);
+				if (date) return { value: date, confidence: 0.95, source: line };
+			}
+
+			match = line.match(
+				/\b(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{2,4})\b|\b([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{2,4})\b/i
+			);
+			if (match) {
+				const [day, monthName, year] = match[1]
+					? [match[1], match[2], match[3]]
+					: [match[5], match[4], match[6]];
+				const month = MONTHS.indexOf(monthName.toLowerCase()) + 1;
+				const date = month > 0 ? makeDate(+year, month, +day) : null;
+				if (date) return { value: date, confidence: 0.9, source: line };
+			}
+
+			match = line.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/);
+			if (match) {
+				const [first, second, year] = [+match[1], +match[2], +match[3]];
+				const monthFirst = first <= 12 ? makeDate(year, first, second) : null;
+				const dayFirst = second <= 12 ? makeDate(year, second, first) : null;
+				const date = monthFirst ?? dayFirst;
+				if (date) {
+					return {
+						value: date,
+						// Both readings work, e.g. 03/04/2024
+						confidence: monthFirst && dayFirst && first !== second ? 0.6 : 0.85,
+						source: line,
+					};
+				}
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Find the merchant, usually printed first on the receipt
+	 */
+	static findMerchant(lines: string[]): ExtractedField<string> | undefined {
+		const line = lines.slice(0, 5).find(
+			(candidate) =>
+				/[a-z]{2,}/i.test(candidate) &&
+				!NON_MERCHANT_PATTERN.test(candidate) &&
+				ReceiptParser.findAmounts(candidate).length === 0 &&
+				// Addresses are mostly digits and short words
+				(candidate.match(/\d/g) || []).length < candidate.length / 3
+		);
+		if (!line) return undefined;
+
+		const value = line.replace(/\s{2,}/g, ' ').trim();
+		return {
+			value,
+			// The shop's name is usually the receipt's heading
+			confidence: line === lines[0] ? 0.7 : 0.5,
+			source: line,
+		};
+	}
+
+	/**
+	 * Find the currency from a code or symbol
+	 */
+	static findCurrency(lines: string[]): ExtractedField<string> | undefined {
+		for (const line of lines) {
+			const code = CURRENCY_CODES.find((candidate) =>
+				new RegExp(`\\b${candidate}\\b`).test(line)
+			);
+			if (code) return { value: code, confidence: 0.95, source: line };
+		}
+
+		for (const [symbol, code, confidence] of CURRENCY_SYMBOLS) {
+			const line = lines.find((candidate) => candidate.includes(symbol));
+			if (line) return { value: code, confidence, source: line };
+		}
+		return undefined;
+	}
+
+	/**
+	 * Read the total, tax, date, merchant and currency out of receipt text
+	 * @param text - Recognized receipt text
+	 * @returns The fields that were found
+	 */
+	static parse(text: string): ReceiptExtraction {
+		const lines = text
+			.split(/\r?\n/)
+			.map((line) => line.trim())
+			.filter(Boolean);
+
+		const extraction: ReceiptExtraction = {
+			total: ReceiptParser.findTotal(lines),
+			tax: ReceiptParser.findTax(lines),
+			date: ReceiptParser.findDate(lines),
+			merchant: ReceiptParser.findMerchant(lines),
+			currency: ReceiptParser.findCurrency(lines),
+		};
+
+		// Fields that weren't found are left out
+		return Object.fromEntries(
+			Object.entries(extraction).filter(([, field]) => field !== undefined)
+		) as ReceiptExtraction;
+	}
+}
+
+// Convenience exports for direct use
+export const { parse: parseReceiptText, parseAmount: parseReceiptAmount } =
+	ReceiptParser;
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_OCCURRENCES_PER_RUN, RecurrenceUtils } from './recurrenceUtils';
+import { RecurringExpense } from '../models/types';
+
+const template = (
+	overrides: Partial<RecurringExpense> = {}
+): RecurringExpense => ({
+	id: 'rent',
+	accountId: 'account',
+	description: 'Rent',
+	amount: 1200,
+	currency: 'USD',
+	category: 'Housing',
+	frequency: 'monthly',
+	interval: 1,
+	startDate: new Date(2024, 0, 31),
+	active: true,
+	createdBy: 'user',
+	...overrides,
+});
+
+describe('RecurrenceUtils.getOccurrenceDate', () => {
+	it('keeps month-end dates from drifting', () => {
+		const start = new Date(2024, 0, 31);
+
+		expect(RecurrenceUtils.getOccurrenceDate(start, 'monthly', 1, 1)).toEqual(
+			new Date(2024, 1, 29)
+		);
+		expect(RecurrenceUtils.getOccurrenceDate(start, 'monthly', 1, 2)).toEqual(
+			new Date(2024, 2, 31)
+		);
+	});
+
+	it('multiplies the interval', () => {
+		expect(
+			RecurrenceUtils.getOccurrenceDate(new Date(2024, 0, 1), 'weekly', 2, 3)
+		).toEqual(new Date(2024, 1, 12));
+	});
+});
+
+describe('RecurrenceUtils.getIndexAfter', () => {
+	it('finds the first occurrence strictly after a date', () => {
+		const start = new Date(2024, 0, 31);
+
+		expect(
+			RecurrenceUtils.getIndexAfter(start, 'monthly', 1, new Date(2024, 2, 15))
+		).toBe(2);
+		expect(
+			RecurrenceUtils.getIndexAfter(start, 'monthly', 1, new Date(2024, 2, 31))
+		).toBe(3);
+		expect(
+			RecurrenceUtils.getIndexAfter(start, 'monthly', 1, new Date(2023, 11, 1))
+		).toBe(0);
+	});
+
+	it('handles times of day and intervals', () => {
+		const start = new Date(2024, 0, 1, 18);
+
+		expect(
+			RecurrenceUtils.getIndexAfter(start, 'daily', 1, new Date(2024, 0, 3, 9))
+		).toBe(2);
+		expect(
+			RecurrenceUtils.getIndexAfter(
+				start,
+				'weekly',
+				2,
+				new Date(2024, 0, 15, 20)
+			)
+		).toBe(2);
+	});
+
+	it('treats unknown frequencies as monthly', () => {
+		const legacy = 'fortnightly' as RecurringExpense['frequency'];
+
+		expect(
+			RecurrenceUtils.getIndexAfter(
+				new Date(2024, 0, 31),
+				legacy,
+				1,
+				new Date(2024, 2, 15)
+			)
+		).toBe(2);
+		expect(RecurrenceUtils.describeSchedule(legacy, 1)).toBe('Every month');
+	});
+});
+
+describe('RecurrenceUtils.getNextOccurrence', () => {
+	it('starts at the start date', () => {
+		expect(RecurrenceUtils.getNextOccurrence(template())).toEqual(
+			new Date(2024, 0, 31)
+		);
+	});
+
+	it('returns null once the schedule has ended', () => {
+		expect(
+			RecurrenceUtils.getNextOccurrence(
+				template({ endDate: new Date(2024, 2, 1) }),
+				new Date(2024, 1, 29)
+			)
+		).toBeNull();
+	});
+
+	it('jumps straight past a long gap', () => {
+		expect(
+			RecurrenceUtils.getNextOccurrence(
+				template({ frequency: 'daily', startDate: new Date(2000, 0, 1) }),
+				new Date(2024, 5, 10, 12)
+			)
+		).toEqual(new Date(2024, 5, 11));
+	});
+});
+
+describe('RecurrenceUtils.getLastOccurrence', () => {
+	it('returns the last occurrence on or before a date', () => {
+		expect(
+			RecurrenceUtils.getLastOccurrence(template(), new Date(2024, 2, 31))
+		).toEqual(new Date(2024, 2, 31));
+		expect(
+			RecurrenceUtils.getLastOccurrence(template(), new Date(2024, 2, 30))
+		).toEqual(new Date(2024, 1, 29));
+	});
+
+	it('stops at the end date', () => {
+		expect(
+			RecurrenceUtils.getLastOccurrence(
+				template({ endDate: new Date(2024, 1, 29) }),
+				new Date(2025, 0, 1)
+			)
+		).toEqual(new Date(2024, 1, 29));
+	});
+
+	it('returns null before the start date', () => {
+		expect(
+			RecurrenceUtils.getLastOccurrence(template(), new Date(2024, 0, 1))
+		).toBeNull();
+	});
+});
+
+describe('RecurrenceUtils.getDueOccurrences', () => {
+	it('returns occurrences after the last generated one', () => {
+		expect(
+			RecurrenceUtils.getDueOccurrences(
+				template({ lastGenerated: new Date(2024, 0, 31) }),
+				new Date(2024, 3, 1)
+			)
+		).toEqual([new Date(2024, 1, 29), new Date(2024, 2, 31)]);
+	});
+
+	it('returns nothing for paused templates', () => {
+		expect(
+			RecurrenceUtils.getDueOccurrences(
+				template({ active: false }),
+				new Date(2024, 3, 1)
+			)
+		).toEqual([]);
+	});
+
+	it('caps one run', () => {
+		expect(
+			RecurrenceUtils.getDueOccurrences(
+				template({ frequency: 'daily', startDate: new Date(2020, 0, 1) }),
+				new Date(2024, 0, 1)
+			)
+		).toHaveLength(MAX_OCCURRENCES_PER_RUN);
+	});
+});
+
+describe('RecurrenceUtils.describeSchedule', () => {
+	it('describes single and multiple units', () => {
+		expect(RecurrenceUtils.describeSchedule('monthly', 1)).toBe('Every month');
+		expect(RecurrenceUtils.describeSchedule('weekly', 2)).toBe('Every 2 weeks');
+	});
+});
@@ -0,0 +1,242 @@
+import {
+	addDays,
+	addWeeks,
+	addMonths,
+	addYears,
+	differenceInCalendarDays,
+	differenceInCalendarWeeks,
+	differenceInCalendarMonths,
+	differenceInCalendarYears,
+} from 'date-fns';
+import { RecurringExpense } from '../models/types';
+
+type RecurrenceFrequency = RecurringExpense['frequency'];
+
+// Upper bound on occurrences materialized in one run so a long-paused daily
+// template can't flood the account; the remainder is picked up next run.
+export const MAX_OCCURRENCES_PER_RUN = 366;
+
+/**
+ * Utility class for recurring expense schedules
+ */
+export class RecurrenceUtils {
+	/**
+	 * Get the date of the n-th occurrence of a schedule
+	 * Occurrences are always computed from the start date so month-end dates
+	 * don't drift (Jan 31 -> Feb 28 -> Mar 31, not Mar 28)
+	 * @param startDate - First occurrence
+	 * @param frequency - Recurrence unit
+	 * @param interval - Number of units between occurrences
+	 * @param index - Occurrence index (0 = start date)
+	 * @returns Date of the occurrence
+	 */
+	static getOccurrenceDate(
+		startDate: Date,
+		frequency: RecurrenceFrequency,
+		interval: number,
+		index: number
+	): Date {
+		const steps = Math.max(1, interval) * index;
+
+		switch (frequency) {
+			case 'daily':
+				return addDays(startDate, steps);
+			case 'weekly':
+				return addWeeks(startDate, steps);
+			case 'monthly':
+				return addMonths(startDate, steps);
+			case 'yearly':
+				return addYears(startDate, steps);
+			default:
+				return addMonths(startDate, steps);
+		}
+	}
+
+	/**
+	 * Get the index of the first occurrence strictly after a given date
+	 * The index is worked out from the time between the dates, so it costs
+	 * the same however far apart they are.
+	 * @param startDate - First occurrence
+	 * @param frequency - Recurrence unit
+	 * @param interval - Number of units between occurrences
+	 * @param after - Reference date
+	 * @returns Occurrence index (0 = start date)
+	 */
+	static getIndexAfter(
+		startDate: Date,
+		frequency: RecurrenceFrequency,
+		interval: number,
+		after: Date
+	): number {
+		if (after < startDate) return 0;
+
+		const differences: Record<
+			RecurrenceFrequency,
+			(later: Date, earlier: Date) => number
+		> = {
+			daily: differenceInCalendarDays,
+			weekly: differenceInCalendarWeeks,
+			monthly: differenceInCalendarMonths,
+			yearly: differenceInCalendarYears,
+		};
+		// Unknown (legacy) frequencies repeat monthly, as in getOccurrenceDate
+		const difference = (differences[frequency] ?? differenceInCalendarMonths)(
+			after,
+			startDate
+		);
+		let index = Math.max(0, Math.floor(difference / Math.max(1, interval)));
+
+		// Calendar differences ignore the time of day, so the estimate can be
+		// one occurrence off either way
+		const getDate = (at: number) =>
+			RecurrenceUtils.getOccurrenceDate(startDate, frequency, interval, at);
+		while (getDate(index) <= after) index += 1;
+		while (index > 0 && getDate(index - 1) > after) index -= 1;
+		return index;
+	}
+
+	/**
+	 * Get the first occurrence strictly after a given date
+	 * @param template - Recurring expense schedule
+	 * @param after - Reference date (defaults to the start date - 1ms)
+	 * @returns Next occurrence, or null if the schedule has ended
+	 */
+	static getNextOccurrence(
+		template: Pick<
+			RecurringExpense,
+			'startDate' | 'endDate' | 'frequency' | 'interval'
+		>,
+		after?: Date
+	): Date | null {
+		const { startDate, endDate, frequency, interval } = template;
+
+		if (!after || after < startDate) {
+			return endDate && startDate > endDate ? null : new Date(startDate);
+		}
+
+		const occurrence = RecurrenceUtils.getOccurrenceDate(
+			startDate,
+			frequency,
+			interval,
+			RecurrenceUtils.getIndexAfter(startDate, frequency, interval, after)
+		);
+
+		if (endDate && occurrence > endDate) return null;
+		return occurrence;
+	}
+
+	/**
+	 * Get the last occurrence on or before a given date
+	 * @param template - Recurring expense schedule
+	 * @param onOrBefore - Reference date
+	 * @returns Last occurrence, or null if none is that early
+	 */
+	static getLastOccurrence(
+		template: Pick<
+			RecurringExpense,
+			'startDate' | 'endDate' | 'frequency' | 'interval'
+		>,
+		onOrBefore: Date
+	): Date | null {
+		const { startDate, endDate, frequency, interval } = template;
+		const last = endDate && endDate < onOrBefore ? endDate : onOrBefore;
+
+		const index = RecurrenceUtils.getIndexAfter(
+			startDate,
+			frequency,
+			interval,
+			last
+		);
+		return index > 0
+			? RecurrenceUtils.getOccurrenceDate(
+					startDate,
+					frequency,
+					interval,
+					index - 1
+			  )
+			: null;
+	}
+
+	/**
+	 * Get every occurrence that is due but has not been generated yet
+	 * @param template - Recurring expense template
+	 * @param now - Reference date (defaults to current date)
+	 * @returns Due occurrence dates in chronological order
+	 */
+	static getDueOccurrences(
+		template: RecurringExpense,
+		now: Date = new Date()
+	): Date[] {
+		if (!template.active) return [];
+
+		const { startDate, endDate, frequency, interval, lastGenerated } = template;
+		const due: Date[] = [];
+
+		let index = lastGenerated
+			? RecurrenceUtils.getIndexAfter(
+					startDate,
+					frequency,
+					interval,
+					lastGenerated
+			  )
+			: 0;
+		let occurrence = RecurrenceUtils.getOccurrenceDate(
+			startDate,
+			frequency,
+			interval,
+			index
+		);
+
+		while (
+			occurrence <= now &&
+			(!endDate || occurrence <= endDate) &&
+			due.length < MAX_OCCURRENCES_PER_RUN
+		) {
+			due.push(occurrence);
+			index += 1;
+			occurrence = RecurrenceUtils.getOccurrenceDate(
+				startDate,
+				frequency,
+				interval,
+				index
+			);
+		}
+
+		return due;
+	}
+
+	/**
+	 * Describe a schedule in plain language
+	 * @param frequency - Recurrence unit
+	 * @param interval - Number of units between occurrences
+	 * @returns Human readable description (e.g., "Every 2 weeks")
+	 */
+	static describeSchedule(
+		frequency: RecurrenceFrequency,
+		interval: number
+	): string {
+		const units: Record<RecurrenceFrequency, string> = {
+			daily: 'day',
+			weekly: 'week',
+			monthly: 'month',
+			yearly: 'year',
+		};
+
+		const unit = units[frequency] ?? units.monthly;
+
+		if (interval <= 1) {
+			return `Every ${unit}`;
+		}
+		return `Every ${interval} ${unit}s`;
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	getOccurrenceDate,
+	getIndexAfter,
+	getNextOccurrence,
+	getLastOccurrence,
+	getDueOccurrences,
+	describeSchedule,
+} = RecurrenceUtils;
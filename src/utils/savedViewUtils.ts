@@ -0,0 +1,131 @@
+import { ExpenseViewFilters, SavedView } from '../models/schemas';
+import {
+	SearchableExpense,
+	matchesExpenseQuery,
+	parseExpenseQuery,
+} from '../../shared/expenseQuery';
+
+// Expenses a view is counted against
+type ViewedExpense = SearchableExpense & {
+	date: Date;
+	paymentMethodId?: string;
+};
+
+/**
+ * Utility class for saved expense list views
+ */
+export class SavedViewUtils {
+	/**
+	 * Get the database side of the filters, as used to load list pages
+	 * The search query is applied to the loaded expenses instead.
+	 */
+	static toPageFilter(filters: ExpenseViewFilters): {
+		category?: string;
+		startDate?: string;
+		endDate?: string;
+		tags?: string[];
+		paymentMethodId?: string;
+	} {
+		return {
+			category:
+				filters.category && filters.category !== 'all'
+					? filters.category
+					: undefined,
+			startDate: filters.dateRange?.startDate || undefined,
+			endDate: filters.dateRange?.endDate || undefined,
+			tags: filters.tags.length > 0 ? filters.tags : undefined,
+			paymentMethodId: filters.paymentMethodId || undefined,
+		};
+	}
+
+	/**
+	 * Check whether any filter is set
+	 */
+	static hasFilters(filters: ExpenseViewFilters): boolean {
+		const pageFilter = SavedViewUtils.toPageFilter(filters);
+		return Boolean(
+			pageFilter.category ||
+				pageFilter.startDate ||
+				pageFilter.endDate ||
+				pageFilter.tags ||
+				pageFilter.paymentMethodId ||
+				filters.searchQuery.trim()
+		);
+	}
+
+	/**
+	 * Check whether two sets of filters show the same expenses
+	 * Tags may be in any order.
+	 */
+	static isSameFilters(a: ExpenseViewFilters, b: ExpenseViewFilters): boolean {
+		const left = SavedViewUtils.toPageFilter(a);
+		const right = SavedViewUtils.toPageFilter(b);
+		return (
+			left.category === right.category &&
+			left.startDate === right.startDate &&
+			left.endDate === right.endDate &&
+			left.paymentMethodId === right.paymentMethodId &&
+			[...a.tags].sort().join('\n') === [...b.tags].sort().join('\n') &&
+			a.searchQuery.trim() === b.searchQuery.trim()
+		);
+	}
+
+	/**
+	 * Count the expenses a view shows
+	 * @param filters - Filters of the view
+	 * @param expenses - Expenses of the account
+	 */
+	static countMatches(
+		filters: ExpenseViewFilters,
+		expenses: ViewedExpense[]
+	): number {
+		const { category, startDate, endDate, tags, paymentMethodId } =
+			SavedViewUtils.toPageFilter(filters);
+		const query = parseExpenseQuery(filters.searchQuery);
+		const start = startDate ? new Date(startDate) : null;
+		const end = endDate ? new Date(endDate) : null;
+
+		return expenses.filter(
+			(expense) =>
+				(!category || expense.category === category) &&
+				(!start || expense.date >= start) &&
+				(!end || expense.date <= end) &&
+				(!tags || tags.some((tag) => expense.tags?.includes(tag))) &&
+				(!paymentMethodId || expense.paymentMethodId === paymentMethodId) &&
+				matchesExpenseQuery(query, expense)
+		).length;
+	}
+
+	/**
+	 * Check whether a member can see a view
+	 * Members see their own views and those shared with the account.
+	 */
+	static isVisibleTo(view: SavedView, uid?: string): boolean {
+		return view.shared || view.createdBy.uid === uid;
+	}
+
+	/**
+	 * Check whether a member may rename, share or delete a view
+	 */
+	static canEdit(view: SavedView, uid?: string): boolean {
+		return view.createdBy.uid === uid;
+	}
+
+	/**
+	 * Check whether a member pinned a view to their sidebar
+	 */
+	static isPinned(view: SavedView, uid?: string): boolean {
+		return !!uid && view.pinnedBy.includes(uid);
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	toPageFilter: toViewPageFilter,
+	hasFilters: hasViewFilters,
+	isSameFilters: isSameViewFilters,
+	countMatches: countViewMatches,
+	isVisibleTo: isViewVisibleTo,
+	canEdit: canEditView,
+	isPinned: isViewPinned,
+} = SavedViewUtils;
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { SplitUtils } from './splitUtils';
+
+const participants = (...values: number[]) =>
+	values.map((value, index) => ({ uid: `member-${index + 1}`, value }));
+
+describe('SplitUtils.validate', () => {
+	it('accepts splits that add up', () => {
+		expect(SplitUtils.validate(30, 'equal', participants(0, 0))).toBeNull();
+		expect(
+			SplitUtils.validate(30, 'exact', participants(10.005, 19.995))
+		).toBeNull();
+		expect(
+			SplitUtils.validate(30, 'percentage', participants(33.33, 66.67))
+		).toBeNull();
+		expect(SplitUtils.validate(30, 'shares', participants(1, 2))).toBeNull();
+	});
+
+	it('reports splits that do not', () => {
+		expect(SplitUtils.validate(30, 'equal', [])).toBe(
+			'Choose at least one member to split with'
+		);
+		expect(SplitUtils.validate(30, 'shares', participants(1, -1))).toBe(
+			'Split values must be zero or more'
+		);
+		expect(SplitUtils.validate(30, 'exact', participants(10, 10))).toBe(
+			'Amounts must add up to 30.00'
+		);
+		expect(SplitUtils.validate(30, 'percentage', participants(50, 40))).toBe(
+			'Percentages must add up to 100'
+		);
+		expect(SplitUtils.validate(30, 'shares', participants(0, 0))).toBe(
+			'Shares must add up to more than zero'
+		);
+	});
+});
+
+describe('SplitUtils.allocate', () => {
+	const amounts = (shares: { amount: number }[]) =>
+		shares.map((share) => share.amount);
+
+	it('gives the leftover cents to the largest remainders', () => {
+		expect(
+			amounts(SplitUtils.allocate(100, 'equal', participants(0, 0, 0)))
+		).toEqual([33.34, 33.33, 33.33]);
+		expect(
+			amounts(SplitUtils.allocate(10, 'shares', participants(1, 2)))
+		).toEqual([3.33, 6.67]);
+	});
+
+	it('splits by percentage and keeps the entered values', () => {
+		expect(
+			SplitUtils.allocate(10, 'percentage', participants(50, 25, 25))
+		).toEqual([
+			{ uid: 'member-1', value: 50, amount: 5 },
+			{ uid: 'member-2', value: 25, amount: 2.5 },
+			{ uid: 'member-3', value: 25, amount: 2.5 },
+		]);
+	});
+
+	it('takes exact amounts as entered, to the cent', () => {
+		expect(
+			amounts(SplitUtils.allocate(30, 'exact', participants(10.004, 20)))
+		).toEqual([10, 20]);
+	});
+
+	it('gives nothing when there are no shares', () => {
+		expect(
+			amounts(SplitUtils.allocate(30, 'shares', participants(0, 0)))
+		).toEqual([0, 0]);
+	});
+});
+
+describe('SplitUtils.getBalances', () => {
+	it('credits the payer and debits each share in the base currency', () => {
+		expect(
+			SplitUtils.getBalances(
+				[
+					{
+						amount: 30,
+						amountInBaseCurrency: 60,
+						split: {
+							method: 'exact',
+							paidBy: 'ana',
+							shares: [
+								{ uid: 'ana', value: 10, amount: 10 },
+								{ uid: 'ben', value: 20, amount: 20 },
+							],
+						},
+					},
+					// Expenses that aren't split don't count
+					{ amount: 50, amountInBaseCurrency: 50 },
+				],
+				[{ from: 'ben', to: 'ana', amount: 15 }]
+			)
+		).toEqual({ ana: 25, ben: -25 });
+	});
+
+	it('splits converted amounts so the balances add up to zero', () => {
+		const balances = SplitUtils.getBalances(
+			[
+				{
+					amountInBaseCurrency: 10.01,
+					split: {
+						method: 'equal',
+						paidBy: 'ana',
+						shares: [
+							{ uid: 'ana', value: 0, amount: 3.34 },
+							{ uid: 'ben', value: 0, amount: 3.33 },
+							{ uid: 'cat', value: 0, amount: 3.33 },
+						],
+					},
+				},
+			],
+			[]
+		);
+
+		expect(balances).toEqual({ ana: 6.66, ben: -3.33, cat: -3.33 });
+		expect(SplitUtils.getSettleUpTransfers(balances)).toHaveLength(2);
+	});
+});
+
+describe('SplitUtils.getSettleUpTransfers', () => {
+	it('pays the largest debts to the largest credits', () => {
+		expect(
+			SplitUtils.getSettleUpTransfers({ ana: 50, ben: -30, cat: -20, dan: 0 })
+		).toEqual([
+			{ from: 'ben', to: 'ana', amount: 30 },
+			{ from: 'cat', to: 'ana', amount: 20 },
+		]);
+		expect(
+			SplitUtils.getSettleUpTransfers({ ana: 10, ben: -25, cat: 15 })
+		).toEqual([
+			{ from: 'ben', to: 'cat', amount: 15 },
+			{ from: 'ben', to: 'ana', amount: 10 },
+		]);
+	});
+
+	it('suggests nothing when everyone is settled', () => {
+		expect(SplitUtils.getSettleUpTransfers({ ana: 0, ben: 0 })).toEqual([]);
+	});
+});
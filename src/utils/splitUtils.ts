@@ -0,0 +1,219 @@
+import {
+	Expense,
+	Settlement,
+	SplitMethod,
+	SplitShare,
+} from '../models/schemas';
+
+// A member taking part in a split, with the value entered for them
+export interface SplitParticipant {
+	uid: string;
+	value: number;
+}
+
+// A payment that would settle part of the balances
+export interface SettleUpTransfer {
+	from: string;
+	to: string;
+	amount: number;
+}
+
+// Amounts are split in cents so the shares always add up to the total
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Utility class for split expenses and settle-up balances
+ */
+export class SplitUtils {
+	/**
+	 * Check a split before it is saved
+	 * @param amount - Expense amount
+	 * @param method - How the expense is split
+	 * @param participants - Members taking part, with their entered values
+	 * @returns A message describing the problem, or null if the split is valid
+	 */
+	static validate(
+		amount: number,
+		method: SplitMethod,
+		participants: SplitParticipant[]
+	): string | null {
+		if (participants.length === 0) {
+			return 'Choose at least one member to split with';
+		}
+		if (participants.some((p) => !Number.isFinite(p.value) || p.value < 0)) {
+			return 'Split values must be zero or more';
+		}
+
+		const total = participants.reduce((sum, p) => sum + p.value, 0);
+		switch (method) {
+			case 'exact':
+				return toCents(total) === toCents(amount)
+					? null
+					: `Amounts must add up to ${amount.toFixed(2)}`;
+			case 'percentage':
+				return Math.abs(total - 100) < 0.01
+					? null
+					: 'Percentages must add up to 100';
+			case 'shares':
+				return total > 0 ? null : 'Shares must add up to more than zero';
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Work out each member's part of an expense
+	 * Remaining cents after rounding go to the largest remainders, so the
+	 * parts always add up to the amount.
+	 * @param amount - Expense amount
+	 * @param method - How the expense is split
+	 * @param participants - Members taking part, with their entered values
+	 * @returns One share per participant
+	 */
+	static allocate(
+		amount: number,
+		method: SplitMethod,
+		participants: SplitParticipant[]
+	): SplitShare[] {
+		const totalCents = toCents(amount);
+
+		if (method === 'exact') {
+			return participants.map((p) => ({
+				uid: p.uid,
+				value: p.value,
+				amount: fromCents(toCents(p.value)),
+			}));
+		}
+
+		const weights = participants.map((p) => (method === 'equal' ? 1 : p.value));
+		const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+		if (totalWeight === 0) {
+			return participants.map((p) => ({
+				uid: p.uid,
+				value: p.value,
+				amount: 0,
+			}));
+		}
+
+		const exact = weights.map((weight) => (totalCents * weight) / totalWeight);
+		const cents = exact.map(Math.floor);
+		let remaining = totalCents - cents.reduce((sum, c) => sum + c, 0);
+
+		exact
+			.map((value, index) => ({ index, remainder: value - cents[index] }))
+			.sort((a, b) => b.remainder - a.remainder)
+			.forEach(({ index }) => {
+				if (remaining > 0) {
+					cents[index] += 1;
+					remaining -= 1;
+				}
+			});
+
+		return participants.map((p, index) => ({
+			uid: p.uid,
+			value: method === 'equal' ? 0 : p.value,
+			amount: fromCents(cents[index]),
+		}));
+	}
+
+	/**
+	 * Get what each member is owed (positive) or owes (negative), in the
+	 * account's base currency
+	 * @param expenses - Expenses of the account; only split ones count
+	 * @param settlements - Settle-up payments of the account
+	 * @returns Balance per member uid
+	 */
+	static getBalances(
+		expenses: Pick<Expense, 'amountInBaseCurrency' | 'split'>[],
+		settlements: Pick<Settlement, 'from' | 'to' | 'amount'>[]
+	): Record<string, number> {
+		const cents: Record<string, number> = {};
+		const add = (uid: string, value: number) => {
+			cents[uid] = (cents[uid] || 0) + value;
+		};
+
+		expenses.forEach((expense) => {
+			if (!expense.split) return;
+
+			// Shares are in the expense currency, balances in the base currency:
+			// the base amount is split in proportion to the shares, in cents, so
+			// the payer's credit always matches the debits
+			const { paidBy, shares } = expense.split;
+			const sign = expense.amountInBaseCurrency < 0 ? -1 : 1;
+			SplitUtils.allocate(
+				Math.abs(expense.amountInBaseCurrency),
+				'shares',
+				shares.map((share) => ({
+					uid: share.uid,
+					value: Math.abs(share.amount),
+				}))
+			).forEach((part) => {
+				const value = sign * toCents(part.amount);
+				add(paidBy, value);
+				add(part.uid, -value);
+			});
+		});
+
+		// Paying someone back raises your balance and lowers theirs
+		settlements.forEach((settlement) => {
+			add(settlement.from, toCents(settlement.amount));
+			add(settlement.to, -toCents(settlement.amount));
+		});
+
+		return Object.fromEntries(
+			Object.entries(cents).map(([uid, value]) => [uid, fromCents(value)])
+		);
+	}
+
+	/**
+	 * Suggest payments that settle all balances
+	 * The largest debt is repeatedly paid to the largest credit, which needs
+	 * at most one payment fewer than the number of members with a balance.
+	 * @param balances - Balance per member uid, as from getBalances
+	 * @returns Payments to make
+	 */
+	static getSettleUpTransfers(
+		balances: Record<string, number>
+	): SettleUpTransfer[] {
+		const entries = Object.entries(balances).map(([uid, balance]) => ({
+			uid,
+			cents: toCents(balance),
+		}));
+		const creditors = entries.filter((entry) => entry.cents > 0);
+		const debtors = entries
+			.filter((entry) => entry.cents < 0)
+			.map((entry) => ({ uid: entry.uid, cents: -entry.cents }));
+		const transfers: SettleUpTransfer[] = [];
+
+		while (creditors.length > 0 && debtors.length > 0) {
+			creditors.sort((a, b) => b.cents - a.cents);
+			debtors.sort((a, b) => b.cents - a.cents);
+
+			const creditor = creditors[0];
+			const debtor = debtors[0];
+			const cents = Math.min(creditor.cents, debtor.cents);
+
+			transfers.push({
+				from: debtor.uid,
+				to: creditor.uid,
+				amount: fromCents(cents),
+			});
+			creditor.cents -= cents;
+			debtor.cents -= cents;
+			if (creditor.cents === 0) creditors.shift();
+			if (debtor.cents === 0) debtors.shift();
+		}
+
+		return transfers;
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	validate: validateSplit,
+	allocate: allocateSplit,
+	getBalances: getSplitBalances,
+	getSettleUpTransfers,
+} = SplitUtils;
@@ -0,0 +1,179 @@
+import { Expense, LineItem } from '../models/schemas';
+
+type TaggedExpense = Pick<
+	Expense,
+	'amount' | 'amountInBaseCurrency' | 'tags' | 'lineItems'
+>;
+
+export interface TagUsage {
+	tag: string;
+	// Expenses with the tag on the expense or on one of its lines
+	count: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Utility class for expense tags
+ */
+export class TagUtils {
+	/**
+	 * Clean up tags before they are saved
+	 * Spaces are trimmed and tags differing only in case are kept once.
+	 * @param tags - Tags as entered
+	 * @returns Tags to store
+	 */
+	static normalize(tags: string[]): string[] {
+		const seen = new Set<string>();
+		return tags
+			.map((tag) => tag.trim().replace(/\s+/g, ' '))
+			.filter((tag) => {
+				const key = tag.toLowerCase();
+				if (!tag || seen.has(key)) return false;
+				seen.add(key);
+				return true;
+			});
+	}
+
+	/**
+	 * Get every tag of an expense, including those of its lines
+	 */
+	static getTags(expense: Pick<Expense, 'tags' | 'lineItems'>): string[] {
+		return Array.from(
+			new Set([
+				...(expense.tags || []),
+				...(expense.lineItems || []).flatMap((item) => item.tags || []),
+			])
+		);
+	}
+
+	/**
+	 * Get the tags used in an account with how many expenses have each
+	 * @param expenses - Expenses of the account
+	 * @returns Tags, most used first
+	 */
+	static getUsage(expenses: Pick<Expense, 'tags' | 'lineItems'>[]): TagUsage[] {
+		const counts: Record<string, number> = {};
+		expenses.forEach((expense) =>
+			TagUtils.getTags(expense).forEach((tag) => {
+				counts[tag] = (counts[tag] || 0) + 1;
+			})
+		);
+		return Object.entries(counts)
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+	}
+
+	/**
+	 * Get the amount an expense counts under each of its tags, in the
+	 * account's base currency
+	 * A tag on the expense counts its full amount; a tag found only on some
+	 * lines counts those lines.
+	 * @param expense - Expense to break down
+	 * @returns Amount per tag
+	 */
+	static getTagAmounts(expense: TaggedExpense): Record<string, number> {
+		const amounts: Record<string, number> = {};
+		const expenseTags = expense.tags || [];
+		expenseTags.forEach((tag) => {
+			amounts[tag] = expense.amountInBaseCurrency;
+		});
+
+		// Line items are in the expense currency
+		const rate =
+			expense.amount !== 0 ? expense.amountInBaseCurrency / expense.amount : 0;
+		(expense.lineItems || []).forEach((item) =>
+			new Set(item.tags || []).forEach((tag) => {
+				if (expenseTags.includes(tag)) return;
+				amounts[tag] = (amounts[tag] || 0) + item.amount * rate;
+			})
+		);
+		return amounts;
+	}
+
+	/**
+	 * Rename a tag in a list of tags, merging it if the new name is there
+	 * already
+	 * @param tags - Tags to change
+	 * @param tag - Tag to replace
+	 * @param replacement - New name, or null to remove the tag
+	 */
+	static replace(
+		tags: string[],
+		tag: string,
+		replacement: string | null
+	): string[] {
+		return TagUtils.normalize(
+			tags.flatMap((name) =>
+				name !== tag ? [name] : replacement === null ? [] : [replacement]
+			)
+		);
+	}
+
+	/**
+	 * Get the changes that rename or remove a tag on an expense and its lines
+	 * @returns Fields to update; empty when the expense doesn't have the tag
+	 */
+	static getReplaceUpdates(
+		expense: Pick<Expense, 'tags' | 'lineItems'>,
+		tag: string,
+		replacement: string | null
+	): { tags?: string[] | null; lineItems?: LineItem[] } {
+		const updates: { tags?: string[] | null; lineItems?: LineItem[] } = {};
+
+		if (expense.tags?.includes(tag)) {
+			const tags = TagUtils.replace(expense.tags, tag, replacement);
+			updates.tags = tags.length > 0 ? tags : null;
+		}
+
+		if (expense.lineItems?.some((item) => item.tags?.includes(tag))) {
+			updates.lineItems = expense.lineItems.map((item) => {
+				if (!item.tags?.includes(tag)) return item;
+				const { tags, ...rest } = item;
+				const replaced = TagUtils.replace(tags || [], tag, replacement);
+				return replaced.length > 0 ? { ...rest, tags: replaced } : rest;
+			});
+		}
+
+		return updates;
+	}
+
+	/**
+	 * Suggest known tags for what is being typed
+	 * Tags starting with the input come first.
+	 * @param input - Tag as typed so far
+	 * @param known - Tags used in the account
+	 * @param selected - Tags already chosen, which aren't suggested again
+	 */
+	static getSuggestions(
+		input: string,
+		known: string[],
+		selected: string[]
+	): string[] {
+		const partial = input.trim().toLowerCase();
+		const chosen = new Set(selected.map((tag) => tag.toLowerCase()));
+
+		return known
+			.filter(
+				(tag) =>
+					!chosen.has(tag.toLowerCase()) && tag.toLowerCase().includes(partial)
+			)
+			.sort(
+				(a, b) =>
+					Number(!a.toLowerCase().startsWith(partial)) -
+						Number(!b.toLowerCase().startsWith(partial)) || a.localeCompare(b)
+			)
+			.slice(0, MAX_SUGGESTIONS);
+	}
+}
+
+// Convenience exports for direct use
+export const {
+	normalize: normalizeTags,
+	getTags: getExpenseTags,
+	getUsage: getTagUsage,
+	getTagAmounts,
+	replace: replaceTag,
+	getReplaceUpdates: getTagReplaceUpdates,
+	getSuggestions: getTagSuggestions,
+} = TagUtils;
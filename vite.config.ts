@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -12,5 +13,14 @@ export default defineConfig({
 	server: {
 		port: 3000,
 		open: true,
+		// Reference API server (npm run server)
+		proxy: {
+			'/api': 'http://localhost:4000',
+		},
+	},
+	test: {
+		// Worker threads share the process time zone; tests that change
+		// process.env.TZ run in their own process
+		poolMatchGlobs: [['**/quickEntryParser.test.ts', 'child_process']],
 	},
 });